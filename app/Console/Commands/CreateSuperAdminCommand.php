@@ -195,6 +195,13 @@ private function createSuperAdminRole(): void
             'delete orders',
             'process orders',
 
+            // Quotations
+            'view quotations',
+            'create quotations',
+            'edit quotations',
+            'delete quotations',
+            'convert quotations',
+
             // Invoice Management
             'manage invoices',
             'create invoices',
@@ -202,6 +209,11 @@ private function createSuperAdminRole(): void
             'edit invoices',
             'delete invoices',
             'send invoices',
+            'issue credit notes',
+            'manage recurring invoices',
+
+            // Expense Budgets
+            'manage expense_budgets',
 
             // Payment Management
             'manage payments',
@@ -210,6 +222,7 @@ private function createSuperAdminRole(): void
             'edit payments',
             'verify payments',
             'process refunds',
+            'refund payments',
 
             // Production Management
             'manage production',
@@ -0,0 +1,53 @@
+<?php
+// app/Console/Commands/GenerateRecurringExpenses.php
+
+namespace App\Console\Commands;
+
+use App\Services\ExpenseService;
+use Carbon\Carbon;
+use Illuminate\Console\Command;
+
+class GenerateRecurringExpenses extends Command
+{
+    protected $signature = 'expenses:generate-recurring
+                            {--date= : Generate occurrences due on or before this date (Y-m-d), defaults to today}
+                            {--dry-run : List the expenses that would be generated without creating them}';
+
+    protected $description = 'Create the next occurrence of recurring expenses that are due';
+
+    public function handle(ExpenseService $expenseService): int
+    {
+        try {
+            $date = $this->option('date') ? Carbon::parse($this->option('date'))->startOfDay() : today();
+        } catch (\Exception $e) {
+            $this->error("Invalid date: {$this->option('date')}");
+            return self::FAILURE;
+        }
+
+        $dryRun = (bool) $this->option('dry-run');
+
+        $this->info(($dryRun ? 'Dry run: ' : '') . "Generating recurring expenses due on or before {$date->toDateString()}");
+
+        $results = $expenseService->generateDueRecurringExpenses($date, $dryRun);
+
+        if (empty($results['generated']) && empty($results['failed'])) {
+            $this->line('No recurring expenses are due.');
+            return self::SUCCESS;
+        }
+
+        if (!empty($results['generated'])) {
+            $this->table(
+                ['Series', 'Due date', 'Expense'],
+                array_map(fn ($row) => [$row['series'], $row['due_date'], $row['expense_number'] ?? '-'], $results['generated'])
+            );
+        }
+
+        foreach ($results['failed'] as $failure) {
+            $this->error("{$failure['series']}: {$failure['error']}");
+        }
+
+        $this->info(count($results['generated']) . ' generated, ' . count($results['failed']) . ' failed.');
+
+        return empty($results['failed']) ? self::SUCCESS : self::FAILURE;
+    }
+}
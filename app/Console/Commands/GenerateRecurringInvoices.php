@@ -0,0 +1,53 @@
+<?php
+// app/Console/Commands/GenerateRecurringInvoices.php
+
+namespace App\Console\Commands;
+
+use App\Services\RecurringInvoiceService;
+use Carbon\Carbon;
+use Illuminate\Console\Command;
+
+class GenerateRecurringInvoices extends Command
+{
+    protected $signature = 'invoices:generate-recurring
+                            {--date= : Generate runs due on or before this date (Y-m-d), defaults to today}
+                            {--dry-run : List the invoices that would be generated without creating them}';
+
+    protected $description = 'Generate invoices for recurring invoice profiles that are due';
+
+    public function handle(RecurringInvoiceService $recurringInvoiceService): int
+    {
+        try {
+            $date = $this->option('date') ? Carbon::parse($this->option('date'))->startOfDay() : today();
+        } catch (\Exception $e) {
+            $this->error("Invalid date: {$this->option('date')}");
+            return self::FAILURE;
+        }
+
+        $dryRun = (bool) $this->option('dry-run');
+
+        $this->info(($dryRun ? 'Dry run: ' : '') . "Generating recurring invoices due on or before {$date->toDateString()}");
+
+        $results = $recurringInvoiceService->generateDueInvoices($date, $dryRun);
+
+        if (empty($results['generated']) && empty($results['failed'])) {
+            $this->line('No recurring invoices are due.');
+            return self::SUCCESS;
+        }
+
+        if (!empty($results['generated'])) {
+            $this->table(
+                ['Profile', 'Run date', 'Invoice'],
+                array_map(fn ($row) => [$row['profile'], $row['run_date'], $row['invoice_number'] ?? '-'], $results['generated'])
+            );
+        }
+
+        foreach ($results['failed'] as $failure) {
+            $this->error("{$failure['profile']}: {$failure['error']}");
+        }
+
+        $this->info(count($results['generated']) . ' generated, ' . count($results['failed']) . ' failed.');
+
+        return empty($results['failed']) ? self::SUCCESS : self::FAILURE;
+    }
+}
@@ -0,0 +1,36 @@
+<?php
+// app/Console/Commands/UpdateExpenseBudgets.php
+
+namespace App\Console\Commands;
+
+use App\Services\ExpenseBudgetService;
+use Illuminate\Console\Command;
+
+class UpdateExpenseBudgets extends Command
+{
+    protected $signature = 'expenses:update-budgets
+                            {--company= : Only recalculate budgets for this company id}';
+
+    protected $description = 'Recalculate spending on active expense budgets and raise threshold alerts';
+
+    public function handle(ExpenseBudgetService $budgetService): int
+    {
+        $companyId = $this->option('company') ? (int) $this->option('company') : null;
+
+        $alerts = $budgetService->updateAllBudgetsSpending($companyId);
+
+        if (empty($alerts)) {
+            $this->info('Budget spending updated. No new alerts.');
+            return self::SUCCESS;
+        }
+
+        $this->table(
+            ['Budget', 'Alert', 'Spent %'],
+            array_map(fn ($alert) => [$alert['budget_name'], $alert['level'], $alert['spent_percentage']], $alerts)
+        );
+
+        $this->info(count($alerts) . ' budget alert(s) raised.');
+
+        return self::SUCCESS;
+    }
+}
@@ -0,0 +1,84 @@
+<?php
+// app/Events/ExpenseBudgetThresholdReached.php
+
+namespace App\Events;
+
+use App\Models\ExpenseBudget;
+use Illuminate\Broadcasting\InteractsWithSockets;
+use Illuminate\Broadcasting\PrivateChannel;
+use Illuminate\Contracts\Broadcasting\ShouldBroadcast;
+use Illuminate\Foundation\Events\Dispatchable;
+use Illuminate\Queue\SerializesModels;
+
+class ExpenseBudgetThresholdReached implements ShouldBroadcast
+{
+    use Dispatchable, InteractsWithSockets, SerializesModels;
+
+    public ExpenseBudget $budget;
+
+    /**
+     * Create a new event instance
+     *
+     * @param string $level 'threshold' when the alert threshold is passed, 'exceeded' when spending is over budget
+     */
+    public function __construct(ExpenseBudget $budget, public string $level)
+    {
+        $this->budget = $budget->load(['category', 'branch']);
+    }
+
+    /**
+     * Get the channels the event should broadcast on
+     */
+    public function broadcastOn(): array
+    {
+        $channels = [
+            new PrivateChannel('company.' . $this->budget->company_id),
+        ];
+
+        if ($this->budget->branch_id) {
+            $channels[] = new PrivateChannel('branch.' . $this->budget->branch_id);
+        }
+
+        return $channels;
+    }
+
+    /**
+     * Get the data to broadcast
+     */
+    public function broadcastWith(): array
+    {
+        return [
+            'event' => 'expense-budget-' . $this->level,
+            'budget' => [
+                'id' => $this->budget->id,
+                'budget_name' => $this->budget->budget_name,
+                'category' => $this->budget->category?->name,
+                'branch' => $this->budget->branch?->name,
+                'budget_amount' => $this->budget->budget_amount,
+                'spent_amount' => $this->budget->spent_amount,
+                'spent_percentage' => $this->budget->spent_percentage,
+                'alert_threshold' => $this->budget->alert_threshold,
+            ],
+            'message' => $this->level === 'exceeded'
+                ? "Budget {$this->budget->budget_name} has been exceeded ({$this->budget->spent_percentage}% spent)"
+                : "Budget {$this->budget->budget_name} has reached {$this->budget->spent_percentage}% of its amount",
+            'timestamp' => now()->toISOString(),
+        ];
+    }
+
+    /**
+     * The event's broadcast name
+     */
+    public function broadcastAs(): string
+    {
+        return 'expense-budget.' . $this->level;
+    }
+
+    /**
+     * Determine if this event should broadcast
+     */
+    public function shouldBroadcast(): bool
+    {
+        return config('broadcasting.default') !== 'null';
+    }
+}
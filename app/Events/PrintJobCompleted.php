@@ -24,6 +24,7 @@ public function __construct(PrintJob $printJob)
     {
         $this->printJob = $printJob->load([
             'invoice.customer', 
+            'customer',
             'branch', 
             'assignedTo', 
             'productionStages'
@@ -35,13 +36,21 @@ public function __construct(PrintJob $printJob)
      */
     public function broadcastOn(): array
     {
-        return [
+        $channels = [
             new PrivateChannel('company.' . $this->printJob->company_id),
             new PrivateChannel('branch.' . $this->printJob->branch_id),
-            new PrivateChannel('customer.' . $this->printJob->invoice->customer_id),
+            new PrivateChannel('print-job.' . $this->printJob->id),
             new Channel('production-updates'),
             new Channel('delivery-notifications'),
         ];
+
+        $customerId = $this->printJob->customer_id ?? $this->printJob->invoice?->customer_id;
+
+        if ($customerId) {
+            $channels[] = new PrivateChannel('customer.' . $customerId);
+        }
+
+        return $channels;
     }
 
     /**
@@ -53,6 +62,9 @@ public function broadcastWith(): array
             ->where('actual_duration', '>', 0)
             ->sum('actual_duration');
 
+        $customer = $this->printJob->customer ?? $this->printJob->invoice?->customer;
+        $invoice = $this->printJob->invoice;
+
         return [
             'event' => 'print-job-completed',
             'print_job' => [
@@ -65,25 +77,25 @@ public function broadcastWith(): array
                 'actual_completion' => $this->printJob->actual_completion?->format('Y-m-d H:i:s'),
                 'total_duration_minutes' => $totalDuration,
                 'total_duration_formatted' => $this->formatDuration($totalDuration),
-                'customer' => [
-                    'id' => $this->printJob->invoice->customer->id,
-                    'name' => $this->printJob->invoice->customer->name,
-                    'email' => $this->printJob->invoice->customer->email,
-                    'phone' => $this->printJob->invoice->customer->phone,
-                ],
+                'customer' => $customer ? [
+                    'id' => $customer->id,
+                    'name' => $customer->name,
+                    'email' => $customer->email,
+                    'phone' => $customer->phone,
+                ] : null,
                 'branch' => [
                     'id' => $this->printJob->branch->id,
-                    'name' => $this->printJob->branch->branch_name,
+                    'name' => $this->printJob->branch->name,
                 ],
                 'assigned_to' => $this->printJob->assignedTo ? [
                     'id' => $this->printJob->assignedTo->id,
                     'name' => $this->printJob->assignedTo->name,
                 ] : null,
-                'invoice' => [
-                    'id' => $this->printJob->invoice->id,
-                    'invoice_number' => $this->printJob->invoice->invoice_number,
-                    'total_amount' => $this->printJob->invoice->total_amount,
-                ],
+                'invoice' => $invoice ? [
+                    'id' => $invoice->id,
+                    'invoice_number' => $invoice->invoice_number,
+                    'total_amount' => $invoice->total_amount,
+                ] : null,
                 'completed_stages' => $this->printJob->completed_stages,
                 'total_stages' => $this->printJob->total_stages,
                 'completion_percentage' => 100,
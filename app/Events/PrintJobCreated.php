@@ -23,7 +23,7 @@ class PrintJobCreated implements ShouldBroadcast
      */
     public function __construct(PrintJob $printJob)
     {
-        $this->printJob = $printJob->load(['invoice.customer', 'branch', 'assignedTo']);
+        $this->printJob = $printJob->load(['invoice.customer', 'customer', 'branch', 'assignedTo']);
     }
 
     /**
@@ -43,6 +43,8 @@ public function broadcastOn(): array
      */
     public function broadcastWith(): array
     {
+        $customer = $this->printJob->customer ?? $this->printJob->invoice?->customer;
+
         return [
             'event' => 'print-job-created',
             'print_job' => [
@@ -52,13 +54,13 @@ public function broadcastWith(): array
                 'priority' => $this->printJob->priority,
                 'production_status' => $this->printJob->production_status,
                 'estimated_completion' => $this->printJob->estimated_completion?->format('Y-m-d H:i:s'),
-                'customer' => [
-                    'id' => $this->printJob->invoice->customer->id,
-                    'name' => $this->printJob->invoice->customer->name,
-                ],
+                'customer' => $customer ? [
+                    'id' => $customer->id,
+                    'name' => $customer->name,
+                ] : null,
                 'branch' => [
                     'id' => $this->printJob->branch->id,
-                    'name' => $this->printJob->branch->branch_name,
+                    'name' => $this->printJob->branch->name,
                 ],
                 'assigned_to' => $this->printJob->assignedTo ? [
                     'id' => $this->printJob->assignedTo->id,
@@ -67,7 +69,9 @@ public function broadcastWith(): array
                 'total_stages' => $this->printJob->total_stages,
                 'completed_stages' => $this->printJob->completed_stages,
             ],
-            'message' => "New print job {$this->printJob->job_number} created for {$this->printJob->invoice->customer->name}",
+            'message' => $customer
+                ? "New print job {$this->printJob->job_number} created for {$customer->name}"
+                : "New print job {$this->printJob->job_number} created",
             'timestamp' => now()->toISOString(),
         ];
     }
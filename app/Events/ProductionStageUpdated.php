@@ -22,7 +22,7 @@ class ProductionStageUpdated implements ShouldBroadcast
      */
     public function __construct(ProductionStage $stage)
     {
-        $this->stage = $stage->load(['printJob.invoice.customer', 'printJob.branch', 'updatedBy']);
+        $this->stage = $stage->load(['printJob.invoice.customer', 'printJob.customer', 'printJob.branch', 'updatedBy']);
     }
 
     /**
@@ -43,6 +43,8 @@ public function broadcastOn(): array
      */
     public function broadcastWith(): array
     {
+        $customer = $this->stage->printJob->customer ?? $this->stage->printJob->invoice?->customer;
+
         return [
             'event' => 'stage-updated',
             'stage' => [
@@ -68,10 +70,10 @@ public function broadcastWith(): array
                 'production_status' => $this->stage->printJob->production_status,
                 'completed_stages' => $this->stage->printJob->completed_stages,
                 'total_stages' => $this->stage->printJob->total_stages,
-                'customer' => [
-                    'id' => $this->stage->printJob->invoice->customer->id,
-                    'name' => $this->stage->printJob->invoice->customer->name,
-                ],
+                'customer' => $customer ? [
+                    'id' => $customer->id,
+                    'name' => $customer->name,
+                ] : null,
             ],
             'message' => $this->generateMessage(),
             'timestamp' => now()->toISOString(),
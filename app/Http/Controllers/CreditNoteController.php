@@ -0,0 +1,124 @@
+<?php
+// app/Http/Controllers/CreditNoteController.php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\CreateCreditNoteRequest;
+use App\Models\Invoice;
+use App\Repositories\CreditNoteRepository;
+use App\Repositories\InvoiceRepository;
+use App\Services\CreditNoteService;
+use App\Services\PaymentService;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+
+class CreditNoteController extends Controller
+{
+    use AuthorizesRequests;
+
+    public function __construct(
+        private CreditNoteRepository $creditNoteRepository,
+        private InvoiceRepository $invoiceRepository,
+        private CreditNoteService $creditNoteService,
+        private PaymentService $paymentService
+    ) {}
+
+    /**
+     * Issue a credit note against an invoice
+     */
+    public function store(CreateCreditNoteRequest $request, int $invoiceId): RedirectResponse
+    {
+        $invoice = $this->findInvoiceForUser($invoiceId);
+
+        if ($request->boolean('refund')) {
+            $this->authorize('refund payments');
+        }
+
+        try {
+            $creditNote = $this->creditNoteService->issueCreditNote($invoice, $request->validated(), auth()->id());
+
+            return back()->with('success', "Credit note {$creditNote->credit_note_number} issued for {$creditNote->formatted_amount}. / බැර සටහන නිකුත් කරන ලදී.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to issue credit note: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Void a credit note issued in error
+     */
+    public function void(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('issue credit notes');
+
+        $creditNote = $this->creditNoteRepository->findOrFail($id);
+        $this->findInvoiceForUser($creditNote->invoice_id);
+
+        $validated = $request->validate([
+            'void_reason' => 'required|string|max:500',
+        ], [
+            'void_reason.required' => 'Reason for voiding is required. / අවලංගු කිරීමට හේතුව අවශ්‍යයි.',
+        ]);
+
+        try {
+            $this->creditNoteService->voidCreditNote($creditNote, $validated['void_reason'], auth()->id());
+
+            return back()->with('success', "Credit note {$creditNote->credit_note_number} voided. / බැර සටහන අවලංගු කරන ලදී.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Pay an overpaid invoice balance back to the customer
+     */
+    public function refund(Request $request, int $invoiceId): RedirectResponse
+    {
+        $this->authorize('refund payments');
+
+        $invoice = $this->findInvoiceForUser($invoiceId);
+
+        $validated = $request->validate([
+            'amount' => 'required|numeric|min:0.01',
+            'payment_method' => 'required|in:cash,bank_transfer,online,card,cheque,mobile_payment',
+            'transaction_id' => 'nullable|string|max:100',
+            'credit_note_id' => 'nullable|integer',
+            'notes' => 'nullable|string|max:1000',
+        ], [
+            'amount.required' => 'Refund amount is required. / ආපසු ගෙවන මුදල අවශ්‍යයි.',
+            'payment_method.required' => 'Choose how the refund is paid. / මුදල් ආපසු ගෙවන ආකාරය තෝරන්න.',
+        ]);
+
+        $creditNoteId = $validated['credit_note_id'] ?? null;
+        if ($creditNoteId && !$invoice->creditNotes()->issued()->whereKey($creditNoteId)->exists()) {
+            return back()->withErrors(['error' => 'Credit note does not belong to this invoice.']);
+        }
+
+        try {
+            $refund = $this->paymentService->recordRefund($invoice, $validated, $creditNoteId);
+
+            return back()->with('success', 'Refund of Rs. ' . number_format(abs($refund->amount), 2) . ' recorded. / මුදල් ආපසු ගෙවීම වාර්තා කරන ලදී.');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to record refund: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Find an invoice the current user may credit, or abort
+     */
+    private function findInvoiceForUser(int $invoiceId): Invoice
+    {
+        $invoice = $this->invoiceRepository->findOrFail($invoiceId);
+        $user = auth()->user();
+
+        if ($invoice->company_id !== $user->company_id) {
+            abort(403, 'You cannot access invoices from other companies.');
+        }
+
+        if (!$user->can('view all branches') && $invoice->branch_id !== $user->branch_id) {
+            abort(403, 'You cannot access invoices from other branches.');
+        }
+
+        return $invoice;
+    }
+}
@@ -0,0 +1,103 @@
+<?php
+// app/Http/Controllers/CustomerApprovalController.php
+
+namespace App\Http\Controllers;
+
+use App\Repositories\ProductionStageRepository;
+use App\Services\ProductionStageService;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Facades\URL;
+use Inertia\Inertia;
+use Inertia\Response;
+
+/**
+ * Login-free proof approval for customers, reached through a signed link
+ */
+class CustomerApprovalController extends Controller
+{
+    public function __construct(
+        private ProductionStageRepository $stageRepository,
+        private ProductionStageService $stageService
+    ) {}
+
+    /**
+     * Show the proofs for a stage and the customer's options
+     */
+    public function show(Request $request, int $stage): Response
+    {
+        $productionStage = $this->stageRepository->find($stage);
+
+        if (!$productionStage || !$productionStage->requires_customer_approval) {
+            abort(404);
+        }
+
+        $productionStage->load(['printJob.company', 'printJob.customer', 'printJob.invoice.customer']);
+        $printJob = $productionStage->printJob;
+        $customer = $printJob->customer ?? $printJob->invoice?->customer;
+        $expires = Carbon::createFromTimestamp((int) $request->query('expires'));
+
+        return Inertia::render('CustomerApprovals/Show', [
+            'stage' => [
+                'id' => $productionStage->id,
+                'stage_name' => $productionStage->stage_name_label,
+                'stage_status' => $productionStage->stage_status,
+                'awaiting_response' => $productionStage->stage_status === 'requires_approval',
+                'attachments' => $productionStage->attachment_urls,
+                'customer_response' => $productionStage->stage_data['customer_response'] ?? null,
+            ],
+            'print_job' => [
+                'job_number' => $printJob->job_number,
+                'job_title' => $printJob->job_title,
+                'job_type' => $printJob->job_type_label,
+                'specifications' => $printJob->specifications,
+                'customer_instructions' => $printJob->customer_instructions,
+            ],
+            'company' => [
+                'name' => $printJob->company?->name,
+                'phone' => $printJob->company?->phone,
+                'email' => $printJob->company?->email,
+            ],
+            'customer_name' => $customer?->name,
+            'respond_url' => URL::temporarySignedRoute('customer-approvals.respond', $expires, ['stage' => $productionStage->id]),
+            'expires_at' => $expires->toISOString(),
+        ]);
+    }
+
+    /**
+     * Record the customer's approval or change request
+     */
+    public function respond(Request $request, int $stage): RedirectResponse
+    {
+        $productionStage = $this->stageRepository->find($stage);
+
+        if (!$productionStage || !$productionStage->requires_customer_approval) {
+            abort(404);
+        }
+
+        $validated = $request->validate([
+            'decision' => 'required|in:approve,request_changes',
+            'comments' => 'nullable|required_if:decision,request_changes|string|max:1000',
+            'name' => 'nullable|string|max:100',
+        ], [
+            'comments.required_if' => 'Please tell us what should be changed',
+        ]);
+
+        try {
+            $this->stageService->recordCustomerResponse(
+                $productionStage,
+                $validated['decision'],
+                $validated['comments'] ?? null,
+                $validated['name'] ?? null,
+                $request->ip()
+            );
+
+            return back()->with('success', $validated['decision'] === 'approve'
+                ? 'Thank you, your approval has been recorded'
+                : 'Thank you, your change request has been sent');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+}
@@ -7,6 +7,7 @@
 use App\Http\Requests\UpdateCustomerRequest;
 use App\Repositories\CustomerRepository;
 use App\Repositories\BranchRepository;
+use App\Repositories\CreditNoteRepository;
 use App\Services\CustomerService;
 use Illuminate\Http\Request;
 use Illuminate\Http\RedirectResponse;
@@ -20,9 +21,12 @@ class CustomerController extends Controller
 {
     use AuthorizesRequests;
 
+    private const IMPORT_MAX_ROWS = 2000;
+
     public function __construct(
         private CustomerRepository $customerRepository,
         private BranchRepository $branchRepository,
+        private CreditNoteRepository $creditNoteRepository,
         private CustomerService $customerService
     ) {}
 
@@ -226,6 +230,31 @@ public function show(int $id): Response
                 'payment_status' => $invoice->payment_status,
                 'created_at' => $invoice->created_at->format('Y-m-d'),
             ]),
+            'creditNotes' => $this->creditNoteRepository->getForCustomer($customer->id)
+                ->map(fn ($creditNote) => [
+                    'id' => $creditNote->id,
+                    'credit_note_number' => $creditNote->credit_note_number,
+                    'credit_date' => $creditNote->credit_date->toDateString(),
+                    'reason' => $creditNote->reason,
+                    'amount' => (float) $creditNote->amount,
+                    'status' => $creditNote->status,
+                    'status_label' => $creditNote->status_label,
+                    'refunded_amount' => abs((float) $creditNote->refunds->where('status', 'completed')->sum('amount')),
+                    'invoice' => $creditNote->invoice?->only(['id', 'invoice_number']),
+                ]),
+            'refunds' => $customer->payments()->refunds()
+                ->with('invoice:id,invoice_number')
+                ->latest('payment_date')
+                ->limit(10)
+                ->get()
+                ->map(fn ($refund) => [
+                    'id' => $refund->id,
+                    'payment_reference' => $refund->payment_reference,
+                    'payment_date' => $refund->payment_date->toDateString(),
+                    'amount' => abs((float) $refund->amount),
+                    'payment_method_label' => $refund->payment_method_label,
+                    'invoice' => $refund->invoice?->only(['id', 'invoice_number']),
+                ]),
             'permissions' => [
                 'canEdit' => $user->can('edit customers'),
                 'canDelete' => $user->can('delete customers'),
@@ -593,6 +622,97 @@ public function export(Request $request): \Symfony\Component\HttpFoundation\Bina
         return $this->customerService->exportCustomers($user->company_id, $filters);
     }
 
+    /**
+     * CSV import wizard; the file is parsed and mapped in the browser
+     */
+    public function importForm(): Response
+    {
+        $this->authorize('create customers');
+
+        $user = auth()->user();
+        $branches = $user->can('view all branches')
+            ? $this->branchRepository->getForCompany($user->company_id)
+            : $this->branchRepository->getForCompany($user->company_id)->where('id', $user->branch_id)->values();
+
+        return Inertia::render('Customers/Import', [
+            'fields' => CustomerService::IMPORT_FIELDS,
+            'branches' => $branches->map(fn($b) => ['value' => $b->id, 'label' => $b->name]),
+            'defaultBranchId' => $user->branch_id,
+            'maxRows' => self::IMPORT_MAX_ROWS,
+            'permissions' => [
+                'canUpdateExisting' => $user->can('edit customers'),
+            ],
+        ]);
+    }
+
+    /**
+     * Validate mapped rows and look up duplicates without saving
+     */
+    public function previewImport(Request $request): JsonResponse
+    {
+        $this->authorize('create customers');
+
+        $request->validate([
+            'rows' => 'required|array|min:1|max:' . self::IMPORT_MAX_ROWS,
+            'rows.*' => 'array',
+        ]);
+
+        return response()->json([
+            'success' => true,
+            'rows' => $this->customerService->previewCustomerImport($request->input('rows'), auth()->user()->company_id),
+        ]);
+    }
+
+    /**
+     * Import mapped rows and report the outcome of each
+     */
+    public function import(Request $request): JsonResponse
+    {
+        $this->authorize('create customers');
+
+        $request->validate([
+            'rows' => 'required|array|min:1|max:' . self::IMPORT_MAX_ROWS,
+            'rows.*' => 'array',
+            'duplicate_mode' => 'required|in:skip,update',
+            'branch_id' => 'nullable|integer|exists:branches,id',
+        ]);
+
+        $user = auth()->user();
+
+        if ($request->duplicate_mode === 'update') {
+            $this->authorize('edit customers');
+        }
+
+        // Users limited to their own branch import into it
+        $branchId = $user->can('view all branches') ? ($request->integer('branch_id') ?: $user->branch_id) : $user->branch_id;
+        $branch = $branchId ? $this->branchRepository->find($branchId) : null;
+
+        if ($branch && $branch->company_id !== $user->company_id) {
+            abort(403, 'Selected branch does not belong to your company.');
+        }
+
+        try {
+            $summary = $this->customerService->importCustomersFromCsv(
+                $request->input('rows'),
+                $user->company_id,
+                $request->duplicate_mode,
+                $branchId
+            );
+
+            return response()->json(['success' => true] + $summary);
+
+        } catch (\Exception $e) {
+            \Log::error('Customer import failed', [
+                'user_id' => $user->id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json([
+                'error' => 'Customer import failed. / ගනුදෙනුකරුවන් ආයාත කිරීම අසාර්ථක විය.'
+            ], 500);
+        }
+    }
+
     /**
      * Get form options for create/edit forms
      */
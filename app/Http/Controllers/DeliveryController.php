@@ -0,0 +1,619 @@
+<?php
+// app/Http/Controllers/DeliveryController.php
+
+namespace App\Http\Controllers;
+
+use App\Models\Customer;
+use App\Models\Delivery;
+use App\Models\DeliveryStatusHistory;
+use App\Models\User;
+use App\Repositories\BranchRepository;
+use App\Repositories\DeliveryRepository;
+use App\Services\DeliveryService;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class DeliveryController extends Controller
+{
+    use AuthorizesRequests;
+
+    private const DELIVERY_METHODS = [
+        'internal' => 'Internal Delivery',
+        'courier' => 'Third-party Courier',
+        'external' => 'External Courier',
+        'pickup' => 'Customer Pickup',
+    ];
+
+    private const STATUSES = [
+        'pending' => 'Pending',
+        'assigned' => 'Assigned',
+        'picked_up' => 'Picked Up',
+        'in_transit' => 'In Transit',
+        'out_for_delivery' => 'Out for Delivery',
+        'delivered' => 'Delivered',
+        'failed' => 'Failed',
+        'returned' => 'Returned',
+        'cancelled' => 'Cancelled',
+    ];
+
+    public function __construct(
+        private DeliveryRepository $deliveryRepository,
+        private BranchRepository $branchRepository,
+        private DeliveryService $deliveryService
+    ) {}
+
+    /**
+     * Display a listing of deliveries
+     */
+    public function index(Request $request): Response
+    {
+        $this->authorize('view deliveries');
+
+        $user = auth()->user();
+
+        $filters = [
+            'search' => $request->get('search'),
+            'status' => $request->get('status'),
+            'delivery_method' => $request->get('delivery_method'),
+            'branch_id' => $request->get('branch_id'),
+            'assigned_to' => $request->get('assigned_to'),
+            'date_from' => $request->get('date_from'),
+            'date_to' => $request->get('date_to'),
+            'overdue' => $request->boolean('overdue'),
+        ];
+
+        if (!$user->can('view all branches')) {
+            $filters['branch_id'] = $user->branch_id;
+        }
+
+        // Riders only see the deliveries they are taking out
+        $ownOnly = !$user->can('manage deliveries');
+        if ($ownOnly) {
+            $filters['assigned_to'] = $user->id;
+        }
+
+        $deliveries = $this->deliveryRepository
+            ->searchAndPaginate($user->company_id, $filters, 15)
+            ->through(fn (Delivery $delivery) => [
+                'id' => $delivery->id,
+                'tracking_number' => $delivery->tracking_number,
+                'status' => $delivery->status,
+                'status_label' => $delivery->status_label,
+                'delivery_method' => $delivery->delivery_method,
+                'delivery_method_label' => $delivery->delivery_method_label,
+                'contact_person' => $delivery->contact_person,
+                'contact_phone' => $delivery->contact_phone,
+                'delivery_address' => $delivery->delivery_address,
+                'estimated_delivery_date' => $delivery->formatted_estimated_date,
+                'actual_delivery_datetime' => $delivery->actual_delivery_datetime?->toISOString(),
+                'delivery_attempts' => $delivery->delivery_attempts,
+                'is_overdue' => $delivery->is_overdue,
+                'customer' => $delivery->customer?->only(['id', 'name']),
+                'invoice' => $delivery->invoice?->only(['id', 'invoice_number']),
+                'print_job' => $delivery->printJob?->only(['id', 'job_number']),
+                'branch' => $delivery->branch?->only(['id', 'name']),
+                'assigned_to' => $delivery->assignedTo?->only(['id', 'name']),
+            ]);
+
+        return Inertia::render('Deliveries/Index', [
+            'deliveries' => [
+                'data' => $deliveries->items(),
+                'current_page' => $deliveries->currentPage(),
+                'last_page' => $deliveries->lastPage(),
+                'per_page' => $deliveries->perPage(),
+                'total' => $deliveries->total(),
+                'from' => $deliveries->firstItem(),
+                'to' => $deliveries->lastItem(),
+            ],
+            'filters' => $filters,
+            'stats' => $this->deliveryRepository->getStats(
+                $user->company_id,
+                $filters['branch_id'] ? (int) $filters['branch_id'] : null,
+                $ownOnly ? $user->id : null
+            ),
+            'branches' => $user->can('view all branches') ? $this->branchRepository->getForDropdown($user->company_id) : [],
+            'riders' => $ownOnly ? [] : $this->getRiders($user->company_id, $user->can('view all branches') ? null : $user->branch_id),
+            'statuses' => self::STATUSES,
+            'deliveryMethods' => self::DELIVERY_METHODS,
+            'permissions' => [
+                'create' => $user->can('manage deliveries'),
+                'delete' => $user->can('manage deliveries'),
+                'view_all_branches' => $user->can('view all branches'),
+                'own_only' => $ownOnly,
+            ],
+        ]);
+    }
+
+    /**
+     * Show the form for creating a delivery
+     */
+    public function create(Request $request): Response
+    {
+        $this->authorize('manage deliveries');
+
+        $user = auth()->user();
+        $branchId = $user->can('view all branches') ? null : $user->branch_id;
+
+        $printJobs = $this->deliveryRepository->getDeliverablePrintJobs($user->company_id, $branchId)
+            ->map(function ($printJob) {
+                $customer = $printJob->customer ?? $printJob->invoice?->customer;
+
+                return [
+                    'id' => $printJob->id,
+                    'label' => $printJob->job_number . ' · ' . ($printJob->job_title ?: $printJob->job_type_label),
+                    'completed_at' => $printJob->actual_completion?->toISOString(),
+                    'invoice_number' => $printJob->invoice?->invoice_number,
+                    ...$this->customerDefaults($customer),
+                ];
+            })
+            ->values();
+
+        $invoices = $this->deliveryRepository->getDeliverableInvoices($user->company_id, $branchId)
+            ->map(fn ($invoice) => [
+                'id' => $invoice->id,
+                'label' => $invoice->invoice_number,
+                'invoice_date' => $invoice->invoice_date?->format('Y-m-d'),
+                'total_amount' => $invoice->total_amount,
+                ...$this->customerDefaults($invoice->customer),
+            ])
+            ->values();
+
+        return Inertia::render('Deliveries/Create', [
+            'printJobs' => $printJobs,
+            'invoices' => $invoices,
+            'riders' => $this->getRiders($user->company_id, $branchId),
+            'deliveryMethods' => self::DELIVERY_METHODS,
+            'selected' => [
+                'print_job_id' => $request->integer('print_job_id') ?: null,
+                'invoice_id' => $request->integer('invoice_id') ?: null,
+            ],
+            'can' => [
+                'assign' => $user->can('assign deliveries'),
+            ],
+        ]);
+    }
+
+    /**
+     * Store a new delivery
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $this->authorize('manage deliveries');
+
+        $validated = $request->validate([
+            'source' => 'required|in:print_job,invoice',
+            'print_job_id' => 'required_if:source,print_job|nullable|exists:print_jobs,id',
+            'invoice_id' => 'required_if:source,invoice|nullable|exists:invoices,id',
+            'delivery_method' => 'required|in:' . implode(',', array_keys(self::DELIVERY_METHODS)),
+            'delivery_address' => 'required|string|max:1000',
+            'contact_person' => 'required|string|max:255',
+            'contact_phone' => 'required|string|max:20',
+            'delivery_provider' => 'nullable|required_if:delivery_method,courier,external|string|max:255',
+            'external_tracking_id' => 'nullable|string|max:255',
+            'delivery_cost' => 'nullable|numeric|min:0',
+            'estimated_delivery_date' => 'nullable|date|after_or_equal:today',
+            'delivery_notes' => 'nullable|string|max:1000',
+            'assigned_to' => 'nullable|exists:users,id',
+        ], [
+            'delivery_provider.required_if' => 'Enter the courier handling this delivery',
+        ]);
+
+        $user = auth()->user();
+
+        if ($validated['source'] === 'print_job') {
+            $validated['invoice_id'] = null;
+            $source = \App\Models\PrintJob::find($validated['print_job_id']);
+        } else {
+            $validated['print_job_id'] = null;
+            $source = \App\Models\Invoice::find($validated['invoice_id']);
+        }
+
+        if (!$source || $source->company_id !== $user->company_id) {
+            return back()->withInput()->withErrors(['error' => 'You cannot deliver jobs from another company.']);
+        }
+
+        if (!$user->can('view all branches') && $source->branch_id !== $user->branch_id) {
+            return back()->withInput()->withErrors(['error' => 'You cannot deliver jobs from other branches.']);
+        }
+
+        if (!empty($validated['assigned_to'])) {
+            if (!$user->can('assign deliveries')) {
+                unset($validated['assigned_to']);
+            } elseif (!$this->isRider($validated['assigned_to'], $user->company_id)) {
+                return back()->withInput()->withErrors(['assigned_to' => 'Choose an active rider from your company.']);
+            }
+        }
+
+        try {
+            $delivery = $this->deliveryService->createDelivery($validated, $user->id);
+
+            return redirect()
+                ->route('deliveries.show', $delivery->id)
+                ->with('success', "Delivery {$delivery->tracking_number} created successfully");
+        } catch (\Exception $e) {
+            return back()
+                ->withInput()
+                ->withErrors(['error' => 'Failed to create delivery: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Display a delivery with its status timeline
+     */
+    public function show(int $id): Response
+    {
+        $this->authorize('view deliveries');
+
+        $delivery = $this->findForUser($id);
+        $user = auth()->user();
+
+        $customer = $delivery->customer ?? $delivery->invoice?->customer ?? $delivery->printJob?->customer;
+        $canUpdate = $this->canUpdateStatus($delivery);
+
+        return Inertia::render('Deliveries/Show', [
+            'delivery' => [
+                'id' => $delivery->id,
+                'tracking_number' => $delivery->tracking_number,
+                'status' => $delivery->status,
+                'status_label' => $delivery->status_label,
+                'delivery_method' => $delivery->delivery_method,
+                'delivery_method_label' => $delivery->delivery_method_label,
+                'delivery_provider' => $delivery->delivery_provider,
+                'external_tracking_id' => $delivery->external_tracking_id,
+                'delivery_address' => $delivery->delivery_address,
+                'contact_person' => $delivery->contact_person,
+                'contact_phone' => $delivery->contact_phone,
+                'delivery_cost' => $delivery->delivery_cost,
+                'formatted_cost' => $delivery->formatted_cost,
+                'estimated_delivery_date' => $delivery->formatted_estimated_date,
+                'pickup_datetime' => $delivery->pickup_datetime?->toISOString(),
+                'actual_delivery_datetime' => $delivery->actual_delivery_datetime?->toISOString(),
+                'delivery_notes' => $delivery->delivery_notes,
+                'delivery_attempts' => $delivery->delivery_attempts,
+                'latitude' => $delivery->latitude,
+                'longitude' => $delivery->longitude,
+                'is_overdue' => $delivery->is_overdue,
+                'created_at' => $delivery->created_at?->toISOString(),
+                'customer' => $customer?->only(['id', 'name', 'phone', 'email']),
+                'invoice' => $delivery->invoice?->only(['id', 'invoice_number']),
+                'print_job' => $delivery->printJob ? [
+                    'id' => $delivery->printJob->id,
+                    'job_number' => $delivery->printJob->job_number,
+                    'job_title' => $delivery->printJob->job_title ?: $delivery->printJob->job_type_label,
+                ] : null,
+                'branch' => $delivery->branch?->only(['id', 'name', 'phone']),
+                'assigned_to' => $delivery->assignedTo?->only(['id', 'name', 'phone']),
+                'created_by' => $delivery->creator?->name,
+                'proof' => $delivery->proof_details,
+            ],
+            'history' => $this->historyTimeline($delivery),
+            'allowedTransitions' => $canUpdate ? $this->deliveryService->allowedTransitions($delivery) : [],
+            'riders' => $user->can('assign deliveries') ? $this->getRiders($user->company_id, $delivery->branch_id) : [],
+            'statuses' => self::STATUSES,
+            'permissions' => [
+                'update_status' => $canUpdate,
+                'assign' => $user->can('assign deliveries') && in_array($delivery->status, ['pending', 'assigned', 'failed']),
+                'delete' => $user->can('manage deliveries') && in_array($delivery->status, ['pending', 'assigned', 'cancelled']),
+            ],
+        ]);
+    }
+
+    /**
+     * Move a delivery to its next status
+     */
+    public function updateStatus(Request $request, int $id): RedirectResponse|JsonResponse
+    {
+        $this->authorize('update delivery status');
+
+        $validated = $request->validate([
+            'status' => 'required|in:' . implode(',', array_keys(self::STATUSES)),
+            'notes' => 'nullable|required_if:status,failed|string|max:1000',
+            'latitude' => 'nullable|required_with:longitude|numeric|between:-90,90',
+            'longitude' => 'nullable|required_with:latitude|numeric|between:-180,180',
+            'address' => 'nullable|string|max:500',
+            'image' => 'nullable|image|max:5120',
+        ], [
+            'notes.required_if' => 'Please record why the delivery attempt failed',
+        ]);
+
+        $delivery = $this->findForUser($id);
+        $user = auth()->user();
+
+        if (!$this->canUpdateStatus($delivery)) {
+            abort(403, 'You can only update deliveries assigned to you.');
+        }
+
+        if ($validated['status'] === 'delivered') {
+            $message = 'Record the proof of delivery to complete this delivery.';
+
+            return $request->expectsJson()
+                ? response()->json(['error' => $message], 422)
+                : redirect()->route('deliveries.complete', $delivery->id)->withErrors(['error' => $message]);
+        }
+
+        $location = isset($validated['latitude']) ? array_filter([
+            'latitude' => (float) $validated['latitude'],
+            'longitude' => (float) $validated['longitude'],
+            'address' => $validated['address'] ?? null,
+        ], fn ($value) => $value !== null) : null;
+
+        try {
+            $this->deliveryService->changeStatus(
+                $delivery,
+                $validated['status'],
+                $user->id,
+                $validated['notes'] ?? null,
+                $location,
+                $request->file('image')
+            );
+
+            $message = 'Delivery marked as ' . self::STATUSES[$validated['status']];
+
+            if ($request->expectsJson()) {
+                return response()->json([
+                    'success' => true,
+                    'message' => $message,
+                    'delivery' => $this->trackingPayload($delivery->fresh('statusHistory.updatedBy')),
+                ]);
+            }
+
+            return back()->with('success', $message);
+        } catch (\Exception $e) {
+            if ($request->expectsJson()) {
+                return response()->json(['error' => $e->getMessage()], 422);
+            }
+
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Show the proof of delivery screen the rider completes at the door
+     */
+    public function complete(int $id): Response|RedirectResponse
+    {
+        $this->authorize('update delivery status');
+
+        $delivery = $this->findForUser($id);
+
+        if (!$this->canUpdateStatus($delivery)) {
+            abort(403, 'You can only complete deliveries assigned to you.');
+        }
+
+        if (!in_array('delivered', $this->deliveryService->allowedTransitions($delivery))) {
+            return redirect()
+                ->route('deliveries.show', $id)
+                ->withErrors(['error' => "A delivery cannot be completed while it is {$delivery->status_label}."]);
+        }
+
+        $customer = $delivery->customer ?? $delivery->invoice?->customer ?? $delivery->printJob?->customer;
+
+        return Inertia::render('Deliveries/Complete', [
+            'delivery' => [
+                'id' => $delivery->id,
+                'tracking_number' => $delivery->tracking_number,
+                'delivery_method' => $delivery->delivery_method,
+                'delivery_address' => $delivery->delivery_address,
+                'contact_person' => $delivery->contact_person,
+                'contact_phone' => $delivery->contact_phone,
+                'delivery_notes' => $delivery->delivery_notes,
+                'customer_name' => $customer?->name,
+                'reference' => $delivery->printJob?->job_number ?? $delivery->invoice?->invoice_number,
+            ],
+        ]);
+    }
+
+    /**
+     * Record the proof of delivery and mark the delivery as delivered
+     */
+    public function storeProof(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('update delivery status');
+
+        $validated = $request->validate([
+            'signature' => 'required|string|starts_with:data:image/png;base64,|max:2000000',
+            'photo' => 'nullable|image|max:10240',
+            'recipient_name' => 'nullable|string|max:255',
+            'latitude' => 'nullable|required_with:longitude|numeric|between:-90,90',
+            'longitude' => 'nullable|required_with:latitude|numeric|between:-180,180',
+            'accuracy' => 'nullable|numeric|min:0',
+            'customer_feedback' => 'nullable|string|max:1000',
+            'notes' => 'nullable|string|max:1000',
+        ], [
+            'signature.required' => 'Ask the recipient to sign before completing the delivery',
+            'signature.starts_with' => 'The signature could not be read, please sign again',
+        ]);
+
+        $delivery = $this->findForUser($id);
+
+        if (!$this->canUpdateStatus($delivery)) {
+            abort(403, 'You can only complete deliveries assigned to you.');
+        }
+
+        try {
+            $this->deliveryService->completeWithProof($delivery, $validated, auth()->id(), $request->file('photo'));
+
+            return redirect()
+                ->route('deliveries.show', $id)
+                ->with('success', 'Delivery completed and proof recorded');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Assign a rider to a delivery
+     */
+    public function assignDeliveryPerson(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('assign deliveries');
+
+        $validated = $request->validate([
+            'assigned_to' => 'required|exists:users,id',
+            'notes' => 'nullable|string|max:500',
+        ]);
+
+        $delivery = $this->findForUser($id);
+        $user = auth()->user();
+
+        if (!$this->isRider($validated['assigned_to'], $user->company_id)) {
+            return back()->withErrors(['assigned_to' => 'Choose an active rider from your company.']);
+        }
+
+        try {
+            $this->deliveryService->assignRider($delivery, (int) $validated['assigned_to'], $user->id, $validated['notes'] ?? null);
+
+            return back()->with('success', 'Rider assigned successfully');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Current status and timeline of a delivery
+     */
+    public function getTrackingInfo(int $id): JsonResponse
+    {
+        $this->authorize('view deliveries');
+
+        return response()->json($this->trackingPayload($this->findForUser($id)));
+    }
+
+    /**
+     * Remove a delivery that has not left the branch
+     */
+    public function destroy(int $id): RedirectResponse
+    {
+        $this->authorize('manage deliveries');
+
+        $delivery = $this->findForUser($id);
+
+        try {
+            $this->deliveryService->deleteDelivery($delivery);
+
+            return redirect()
+                ->route('deliveries.index')
+                ->with('success', 'Delivery deleted successfully');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Load a delivery the current user is allowed to see
+     */
+    private function findForUser(int $id): Delivery
+    {
+        $delivery = $this->deliveryRepository->findWithDetails($id);
+
+        if (!$delivery) {
+            abort(404, 'Delivery not found.');
+        }
+
+        $user = auth()->user();
+
+        if ($delivery->company_id !== $user->company_id) {
+            abort(403, 'You cannot access deliveries from other companies.');
+        }
+
+        if (!$user->can('view all branches') && $delivery->branch_id !== $user->branch_id) {
+            abort(403, 'You cannot access deliveries from other branches.');
+        }
+
+        if (!$user->can('manage deliveries') && $delivery->assigned_to !== $user->id) {
+            abort(403, 'You can only access deliveries assigned to you.');
+        }
+
+        return $delivery;
+    }
+
+    /**
+     * Riders may only move their own deliveries along
+     */
+    private function canUpdateStatus(Delivery $delivery): bool
+    {
+        $user = auth()->user();
+
+        return $user->can('update delivery status')
+            && ($user->can('manage deliveries') || $delivery->assigned_to === $user->id);
+    }
+
+    /**
+     * Status history oldest first, as the timeline reads
+     */
+    private function historyTimeline(Delivery $delivery): Collection
+    {
+        return $delivery->statusHistory
+            ->sortBy([['status_datetime', 'asc'], ['id', 'asc']])
+            ->map(fn (DeliveryStatusHistory $entry) => [
+                'id' => $entry->id,
+                'status' => $entry->status,
+                'status_label' => $entry->status_label,
+                'notes' => $entry->notes,
+                'status_datetime' => $entry->status_datetime?->toISOString(),
+                'updated_by' => $entry->updated_by_name,
+                'location' => $entry->hasCoordinates() ? [
+                    ...$entry->getCoordinates(),
+                    'address' => $entry->location_address,
+                ] : null,
+                'image_url' => $entry->image_url,
+            ])
+            ->values();
+    }
+
+    private function trackingPayload(Delivery $delivery): array
+    {
+        return [
+            'id' => $delivery->id,
+            'tracking_number' => $delivery->tracking_number,
+            'status' => $delivery->status,
+            'status_label' => $delivery->status_label,
+            'delivery_attempts' => $delivery->delivery_attempts,
+            'estimated_delivery_date' => $delivery->formatted_estimated_date,
+            'actual_delivery_datetime' => $delivery->actual_delivery_datetime?->toISOString(),
+            'assigned_to' => $delivery->assignedTo?->name,
+            'history' => $this->historyTimeline($delivery),
+        ];
+    }
+
+    /**
+     * Contact details a delivery form starts from
+     */
+    private function customerDefaults(?Customer $customer): array
+    {
+        $contact = $customer?->primary_contact;
+
+        return [
+            'customer_name' => $customer?->name,
+            'delivery_address' => $customer?->shipping_address ?: $customer?->full_address,
+            'contact_person' => $contact['name'] ?? $customer?->name,
+            'contact_phone' => $contact['phone'] ?? $customer?->phone,
+        ];
+    }
+
+    /**
+     * Active users who can take deliveries out
+     */
+    private function getRiders(int $companyId, ?int $branchId = null)
+    {
+        return User::where('company_id', $companyId)
+            ->when($branchId, fn ($query) => $query->where('branch_id', $branchId))
+            ->whereHas('roles', function ($query) {
+                $query->whereIn('name', ['Delivery Rider', 'Delivery Coordinator']);
+            })
+            ->where('status', 'active')
+            ->select('id', 'name', 'phone')
+            ->orderBy('name')
+            ->get();
+    }
+
+    private function isRider(int|string $userId, int $companyId): bool
+    {
+        return $this->getRiders($companyId)->contains('id', (int) $userId);
+    }
+}
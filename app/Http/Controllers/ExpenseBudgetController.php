@@ -0,0 +1,333 @@
+<?php
+// app/Http/Controllers/ExpenseBudgetController.php
+
+namespace App\Http\Controllers;
+
+use App\Models\Expense;
+use App\Models\ExpenseBudget;
+use App\Repositories\BranchRepository;
+use App\Repositories\ExpenseBudgetRepository;
+use App\Services\ExpenseBudgetService;
+use App\Services\ExpenseCategoryService;
+use Illuminate\Http\Request;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Support\Facades\Auth;
+use Illuminate\Validation\Rule;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class ExpenseBudgetController extends Controller
+{
+    private const PERIODS = [
+        'monthly' => 'Monthly',
+        'quarterly' => 'Quarterly',
+        'yearly' => 'Yearly',
+    ];
+
+    private const STATUSES = [
+        'active' => 'Active',
+        'exceeded' => 'Exceeded',
+        'inactive' => 'Inactive',
+        'completed' => 'Completed',
+    ];
+
+    public function __construct(
+        private ExpenseBudgetService $budgetService,
+        private ExpenseBudgetRepository $budgetRepository,
+        private BranchRepository $branchRepository,
+        private ExpenseCategoryService $categoryService
+    ) {}
+
+    /**
+     * Display listing of expense budgets
+     */
+    public function index(Request $request): Response
+    {
+        $user = Auth::user();
+
+        $filters = [
+            'budget_year' => $request->get('budget_year', now()->year),
+            'budget_period' => $request->get('budget_period'),
+            'status' => $request->get('status'),
+            'category_id' => $request->get('category_id'),
+            'branch_id' => $request->get('branch_id'),
+        ];
+
+        $budgets = $this->budgetService->getCompanyBudgets($user->company_id, $filters)
+            ->sortBy([['start_date', 'asc'], ['budget_name', 'asc']])
+            ->values();
+
+        $tracked = $budgets->whereIn('status', ['active', 'exceeded']);
+
+        return Inertia::render('ExpenseBudgets/Index', [
+            'budgets' => $budgets->map(fn (ExpenseBudget $budget) => $this->budgetPayload($budget)),
+            'filters' => $filters,
+            'stats' => [
+                'total_budgeted' => (float) $tracked->sum('budget_amount'),
+                'total_spent' => (float) $tracked->sum('spent_amount'),
+                'over_threshold' => $tracked->filter(fn (ExpenseBudget $budget) => $budget->status === 'active'
+                    && $budget->spent_percentage >= (float) $budget->alert_threshold)->count(),
+                'exceeded' => $tracked->where('status', 'exceeded')->count(),
+            ],
+            ...$this->formOptions($user->company_id),
+            'statuses' => self::STATUSES,
+        ]);
+    }
+
+    /**
+     * Show form for creating new budget
+     */
+    public function create(): Response
+    {
+        $user = Auth::user();
+
+        return Inertia::render('ExpenseBudgets/Create', $this->formOptions($user->company_id));
+    }
+
+    /**
+     * Store new expense budget
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $user = Auth::user();
+
+        $validated = $this->validateBudget($request, $user->company_id);
+
+        try {
+            $budget = $this->budgetService->createBudget($validated, $user->company_id);
+
+            return redirect()->route('expense-budgets.show', $budget)
+                           ->with('success', 'Expense budget created successfully.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()])
+                        ->withInput();
+        }
+    }
+
+    /**
+     * Display specified budget with the expenses counted against it
+     */
+    public function show(ExpenseBudget $expenseBudget): Response
+    {
+        $this->ensureCompany($expenseBudget);
+
+        $expenseBudget->load(['category', 'branch', 'createdBy']);
+
+        $expenses = $this->budgetRepository->getBudgetExpenses($expenseBudget)
+            ->map(fn (Expense $expense) => [
+                'id' => $expense->id,
+                'expense_number' => $expense->expense_number,
+                'expense_date' => $expense->expense_date?->toDateString(),
+                'description' => $expense->description,
+                'branch_name' => $expense->branch?->name,
+                'amount' => (float) $expense->amount,
+                'status' => $expense->status,
+            ]);
+
+        return Inertia::render('ExpenseBudgets/Show', [
+            'budget' => [
+                ...$this->budgetPayload($expenseBudget),
+                'description' => $expenseBudget->description,
+                'created_by' => $expenseBudget->createdBy?->name,
+                'created_at' => $expenseBudget->created_at?->toISOString(),
+                'extensions' => $expenseBudget->metadata['extensions'] ?? [],
+                'alerts' => $expenseBudget->metadata['alerts'] ?? [],
+            ],
+            'expenses' => $expenses,
+        ]);
+    }
+
+    /**
+     * Show form for editing budget
+     */
+    public function edit(ExpenseBudget $expenseBudget): Response
+    {
+        $this->ensureCompany($expenseBudget);
+
+        return Inertia::render('ExpenseBudgets/Edit', [
+            ...$this->formOptions($expenseBudget->company_id),
+            'budget' => [
+                ...$this->budgetPayload($expenseBudget),
+                'description' => $expenseBudget->description,
+            ],
+        ]);
+    }
+
+    /**
+     * Update expense budget
+     */
+    public function update(Request $request, ExpenseBudget $expenseBudget): RedirectResponse
+    {
+        $this->ensureCompany($expenseBudget);
+
+        $validated = $this->validateBudget($request, $expenseBudget->company_id);
+
+        try {
+            $this->budgetService->updateBudget($expenseBudget, $validated);
+
+            return redirect()->route('expense-budgets.show', $expenseBudget)
+                           ->with('success', 'Expense budget updated successfully.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()])
+                        ->withInput();
+        }
+    }
+
+    /**
+     * Remove expense budget
+     */
+    public function destroy(ExpenseBudget $expenseBudget): RedirectResponse
+    {
+        $this->ensureCompany($expenseBudget);
+
+        try {
+            $this->budgetService->deleteBudget($expenseBudget);
+
+            return redirect()->route('expense-budgets.index')
+                           ->with('success', 'Expense budget deleted successfully.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Add to a budget's amount
+     */
+    public function extend(Request $request, ExpenseBudget $expenseBudget): RedirectResponse
+    {
+        $this->ensureCompany($expenseBudget);
+
+        $validated = $request->validate([
+            'additional_amount' => ['required', 'numeric', 'min:0.01'],
+            'reason' => ['nullable', 'string', 'max:500'],
+        ]);
+
+        try {
+            $this->budgetService->extendBudget($expenseBudget, (float) $validated['additional_amount'], $validated['reason'] ?? null);
+
+            return back()->with('success', 'Budget extended by Rs. ' . number_format((float) $validated['additional_amount'], 2) . '.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Resume tracking a budget
+     */
+    public function activate(ExpenseBudget $expenseBudget): RedirectResponse
+    {
+        $this->ensureCompany($expenseBudget);
+
+        try {
+            $this->budgetService->setActive($expenseBudget, true);
+
+            return back()->with('success', 'Expense budget activated successfully.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Stop tracking a budget
+     */
+    public function deactivate(ExpenseBudget $expenseBudget): RedirectResponse
+    {
+        $this->ensureCompany($expenseBudget);
+
+        try {
+            $this->budgetService->setActive($expenseBudget, false);
+
+            return back()->with('success', 'Expense budget deactivated successfully.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Budget against actual spending per category and branch
+     */
+    public function analytics(Request $request): Response
+    {
+        $user = Auth::user();
+
+        $filters = [
+            'budget_year' => $request->get('budget_year', now()->year),
+            'budget_period' => $request->get('budget_period'),
+            'budget_month' => $request->get('budget_month'),
+            'budget_quarter' => $request->get('budget_quarter'),
+            'branch_id' => $request->get('branch_id'),
+        ];
+
+        return Inertia::render('ExpenseBudgets/Analytics', [
+            ...$this->budgetService->getBudgetVsActual($user->company_id, $filters),
+            'filters' => $filters,
+            ...$this->formOptions($user->company_id),
+        ]);
+    }
+
+    private function validateBudget(Request $request, int $companyId): array
+    {
+        return $request->validate([
+            'budget_name' => ['required', 'string', 'max:255'],
+            'description' => ['nullable', 'string', 'max:1000'],
+            'category_id' => ['required', Rule::exists('expense_categories', 'id')->where('company_id', $companyId)],
+            'branch_id' => ['nullable', Rule::exists('branches', 'id')->where('company_id', $companyId)],
+            'budget_period' => ['required', Rule::in(array_keys(self::PERIODS))],
+            'budget_year' => ['required', 'integer', 'min:2000', 'max:2100'],
+            'budget_month' => ['nullable', 'required_if:budget_period,monthly', 'integer', 'between:1,12'],
+            'budget_quarter' => ['nullable', 'required_if:budget_period,quarterly', 'integer', 'between:1,4'],
+            'budget_amount' => ['required', 'numeric', 'min:0.01'],
+            'alert_threshold' => ['required', 'numeric', 'between:1,100'],
+            'send_alerts' => ['boolean'],
+        ]);
+    }
+
+    private function formOptions(int $companyId): array
+    {
+        return [
+            'categories' => $this->categoryService->getCompanyCategories($companyId)
+                ->map(fn ($category) => $category->only(['id', 'name', 'code', 'color']))
+                ->values(),
+            'branches' => $this->branchRepository->getForDropdown($companyId),
+            'periods' => self::PERIODS,
+        ];
+    }
+
+    private function budgetPayload(ExpenseBudget $budget): array
+    {
+        return [
+            'id' => $budget->id,
+            'budget_name' => $budget->budget_name,
+            'category_id' => $budget->category_id,
+            'branch_id' => $budget->branch_id,
+            'category' => $budget->category?->only(['id', 'name', 'color']),
+            'branch' => $budget->branch?->only(['id', 'name']),
+            'budget_period' => $budget->budget_period,
+            'budget_year' => (int) $budget->budget_year,
+            'budget_month' => $budget->budget_month,
+            'budget_quarter' => $budget->budget_quarter,
+            'start_date' => $budget->start_date?->toDateString(),
+            'end_date' => $budget->end_date?->toDateString(),
+            'budget_amount' => (float) $budget->budget_amount,
+            'spent_amount' => (float) $budget->spent_amount,
+            'remaining_amount' => (float) $budget->remaining_amount,
+            'spent_percentage' => $budget->spent_percentage,
+            'alert_threshold' => (float) $budget->alert_threshold,
+            'send_alerts' => $budget->send_alerts,
+            'status' => $budget->status,
+        ];
+    }
+
+    private function ensureCompany(ExpenseBudget $budget): void
+    {
+        if ($budget->company_id !== Auth::user()->company_id) {
+            abort(403, 'You do not have access to this budget.');
+        }
+    }
+}
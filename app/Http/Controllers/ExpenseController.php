@@ -6,6 +6,7 @@
 use App\Models\ExpenseCategory;
 use App\Models\Branch;
 use App\Services\ExpenseService;
+use App\Services\ExpenseBudgetService;
 use App\Services\ExpenseCategoryService;
 use Illuminate\Http\Request;
 use Illuminate\Http\RedirectResponse;
@@ -18,7 +19,8 @@ class ExpenseController extends Controller
 {
     public function __construct(
         private ExpenseService $expenseService,
-        private ExpenseCategoryService $categoryService
+        private ExpenseCategoryService $categoryService,
+        private ExpenseBudgetService $budgetService
     ) {}
 
     /**
@@ -92,6 +94,7 @@ public function create(): Response
             'priorityOptions' => Expense::getPriorityOptions(),
             'paymentMethodOptions' => Expense::getPaymentMethodOptions(),
             'recurringPeriodOptions' => ['weekly' => 'Weekly', 'monthly' => 'Monthly', 'quarterly' => 'Quarterly', 'yearly' => 'Yearly'],
+            'budgets' => $this->budgetService->getBudgetsForExpenseForm($companyId),
         ]);
     }
 
@@ -117,7 +120,8 @@ public function store(Request $request): RedirectResponse
             'receipt_number' => ['nullable', 'string', 'max:255'],
             'priority' => ['required', Rule::in(array_keys(Expense::getPriorityOptions()))],
             'is_recurring' => ['boolean'],
-            'recurring_period' => ['nullable', 'required_if:is_recurring,true'],
+            'recurring_period' => ['nullable', 'required_if:is_recurring,true', Rule::in(['weekly', 'monthly', 'quarterly', 'yearly'])],
+            'recurring_auto_submit' => ['boolean'],
             'notes' => ['nullable', 'string', 'max:1000'],
             'receipt_files' => ['nullable', 'array', 'max:5'],
             'receipt_files.*' => ['file', 'mimes:jpg,jpeg,png,pdf', 'max:5120'],
@@ -149,6 +153,7 @@ public function show(Expense $expense): Response
     // dd($expense);
     return Inertia::render('Expenses/Show', [
         'expense' => $expense,
+        'recurringSeries' => $this->expenseService->getRecurringSeries($expense),
         'can' => [
             'update' => auth()->user()->can('update', $expense),
             'delete' => auth()->user()->can('delete', $expense),
@@ -211,6 +216,22 @@ public function update(Request $request, Expense $expense): RedirectResponse
         }
     }
 
+    /**
+     * Stop generating further occurrences of a recurring expense
+     */
+    public function stopRecurring(Expense $expense): RedirectResponse
+    {
+        try {
+            $this->expenseService->stopRecurringSeries($expense);
+
+            return redirect()->route('expenses.show', $expense)
+                           ->with('success', 'Recurring expense stopped. No further occurrences will be created.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
     /**
      * Submit expense for approval
      */
@@ -10,8 +10,13 @@
 use App\Repositories\CustomerRepository;
 use App\Repositories\ProductRepository;
 use App\Repositories\BranchRepository;
+use App\Repositories\CreditNoteRepository;
+use App\Repositories\InvoiceEmailRepository;
+use App\Services\CreditNoteService;
+use App\Services\InvoiceEmailService;
 use App\Services\InvoiceService;
 use App\Services\PaymentService;
+use App\Services\PayHereService;
 use Illuminate\Http\Request;
 use App\Models\Invoice;
 use Illuminate\Http\RedirectResponse;
@@ -19,6 +24,7 @@
 use Inertia\Inertia;
 use Inertia\Response;
 use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Support\Arr;
 
 class InvoiceController extends Controller
 {
@@ -29,8 +35,13 @@ public function __construct(
         private CustomerRepository $customerRepository,
         private ProductRepository $productRepository,
         private BranchRepository $branchRepository,
+        private CreditNoteRepository $creditNoteRepository,
+        private InvoiceEmailRepository $invoiceEmailRepository,
         private InvoiceService $invoiceService,
-        private PaymentService $paymentService
+        private PaymentService $paymentService,
+        private CreditNoteService $creditNoteService,
+        private InvoiceEmailService $invoiceEmailService,
+        private PayHereService $payHereService
     ) {}
 
     /**
@@ -102,53 +113,10 @@ public function create(): Response
         $companyId = $user->company_id;
 
         try {
-            // Get raw data from repositories
-            $customersData = $this->customerRepository->getForDropdown($companyId);
-            $productsData = $this->productRepository->getForDropdown($companyId);
-            $branchesData = $this->branchRepository->getForDropdown($companyId);
-
-            // Transform customers data for frontend
-            $customers = $customersData->map(function ($customer) {
-                return [
-                    'value' => $customer->id,
-                    'label' => $customer->name . ' (' . ($customer->customer_code ?? '') . ')',
-                    'display_name' => $customer->name,
-                    'credit_limit' => $customer->credit_limit ?? 0,
-                    'current_balance' => $customer->current_balance ?? 0,
-                    'phone' => $customer->phone ?? '',
-                    'email' => $customer->email ?? '',
-                ];
-            })->toArray();
-
-            // Transform products data for frontend
-            $products = $productsData->map(function ($product) {
-                return [
-                    'value' => $product->id,
-                    'label' => $product->name . ' - Rs. ' . number_format($product->base_price ?? 0, 2),
-                    'name' => $product->name,
-                    'base_price' => $product->base_price ?? 0,
-                    'weight_per_unit' => $product->weight_per_unit ?? 0,
-                    'weight_unit' => $product->weight_unit ?? 'kg',
-                    'tax_rate' => $product->tax_rate ?? 0,
-                    'unit_type' => $product->unit_type ?? 'piece',
-                ];
-            })->toArray();
-
-            // Transform branches data for frontend
-            $branches = $branchesData->map(function ($branch) {
-                return [
-                    'value' => $branch->id,
-                    'label' => $branch->name . ' (' . ($branch->code ?? '') . ')',
-                    'name' => $branch->name,
-                    'code' => $branch->code ?? '',
-                ];
-            })->toArray();
-
             return Inertia::render('Invoices/Create', [
-                'customers' => $customers,
-                'products' => $products,
-                'branches' => $branches,
+                ...$this->invoiceService->getFormOptions($companyId),
                 'default_branch_id' => $user->branch_id,
+                'can_override_prices' => $user->can('override item prices'),
             ]);
 
         } catch (\Exception $e) {
@@ -162,6 +130,8 @@ public function create(): Response
                 'customers' => [],
                 'products' => [],
                 'branches' => [],
+                'weight_pricing_tiers' => [],
+                'price_lists' => [],
                 'default_branch_id' => $user->branch_id,
                 'error' => 'Failed to load invoice data. Please try again.',
             ]);
@@ -175,7 +145,7 @@ public function store(CreateInvoiceRequest $request): RedirectResponse
     {
         try {
             $invoice = $this->invoiceService->createInvoice(
-                $request->validated(),
+                $this->withServerPricing($request->validated()),
                 auth()->user()->company_id,
                 auth()->id()
             );
@@ -263,8 +233,21 @@ public function show(int $id): Response
         'paymentSummary' => $paymentSummary,
         'recentPayments' => $recentPayments,
         'printJob' => $printJob,
+        'deliveries' => $invoice->deliveries()
+            ->with('assignedTo:id,name')
+            ->latest()
+            ->get()
+            ->map(fn ($delivery) => [
+                'id' => $delivery->id,
+                'tracking_number' => $delivery->tracking_number,
+                'status' => $delivery->status,
+                'status_label' => $delivery->status_label,
+                'actual_delivery_datetime' => $delivery->actual_delivery_datetime?->toISOString(),
+                'assigned_to' => $delivery->assignedTo?->name,
+                'proof' => $delivery->proof_details,
+            ]),
         'permissions' => [
-            'edit' => $user->can('edit invoices') && $this->invoiceRepository->canBeModified($id),
+            'edit' => $user->can('edit invoices') && $this->invoiceRepository->canBeModified($id, $user->can('override invoice lock')),
             'delete' => $user->can('delete invoices') && $this->invoiceRepository->canBeDeleted($id),
             'create_payment' => $user->can('create payments'),
             'verify_payment' => $user->can('verify payments'),
@@ -273,7 +256,75 @@ public function show(int $id): Response
             // Add missing print job permissions
             'create_print_job' => $user->can('create print jobs'),
             'manage_production' => $user->can('manage production'),
+            'issue_credit_note' => $user->can('issue credit notes') && !in_array($invoice->status, ['draft', 'cancelled']),
+            'refund' => $user->can('refund payments'),
+            'send_email' => $user->can('edit invoices') && $invoice->status !== 'cancelled',
+        ],
+        'editLockReason' => $invoice->getEditLockReason(),
+        'sourceQuotation' => $invoice->quotation?->only(['id', 'quotation_number']),
+        'recurringProfile' => $invoice->recurringProfile?->only(['id', 'name']),
+        'creditNotes' => $this->creditNoteRepository->getForInvoice($invoice->id)
+            ->map(fn ($creditNote) => [
+                'id' => $creditNote->id,
+                'credit_note_number' => $creditNote->credit_note_number,
+                'credit_date' => $creditNote->credit_date->toDateString(),
+                'reason' => $creditNote->reason,
+                'subtotal' => (float) $creditNote->subtotal,
+                'tax_amount' => (float) $creditNote->tax_amount,
+                'amount' => (float) $creditNote->amount,
+                'status' => $creditNote->status,
+                'status_label' => $creditNote->status_label,
+                'created_by' => $creditNote->creator?->name,
+                'void_reason' => $creditNote->void_reason,
+                'voided_by' => $creditNote->voidedBy?->name,
+                'can_void' => $creditNote->canBeVoided(),
+                'items' => $creditNote->items->map(fn ($item) => [
+                    'id' => $item->id,
+                    'item_description' => $item->item_description,
+                    'quantity' => (float) $item->quantity,
+                    'unit_price' => (float) $item->unit_price,
+                    'line_total' => (float) $item->line_total,
+                ]),
+                'refunded_amount' => abs((float) $creditNote->refunds->where('status', 'completed')->sum('amount')),
+            ]),
+        'creditableItems' => $this->creditNoteService->getCreditableItems($invoice),
+        'emails' => $this->invoiceEmailRepository->getForInvoice($invoice->id)
+            ->map(fn ($email) => [
+                'id' => $email->id,
+                'recipient' => $email->recipient,
+                'subject' => $email->subject,
+                'status' => $email->status,
+                'status_label' => $email->status_label,
+                'error' => $email->error,
+                'sent_by' => $email->sender?->name,
+                'is_resend' => $email->resent_from_id !== null,
+                'created_at' => $email->created_at->toISOString(),
+                'sent_at' => $email->sent_at?->toISOString(),
+            ]),
+        'emailDraft' => [
+            'recipient' => $invoice->customer?->email ?? '',
+            ...$this->invoiceEmailService->render($invoice),
         ],
+        'revisions' => $invoice->revisions()
+            ->with('user:id,name')
+            ->get()
+            ->map(fn ($revision) => [
+                'id' => $revision->id,
+                'revision_number' => $revision->revision_number,
+                'user' => $revision->user?->name,
+                'created_at' => $revision->created_at->toISOString(),
+                'changes' => $revision->changes ?? [],
+                'item_changes' => $revision->item_changes ?? [],
+                'old_total' => (float) $revision->old_total,
+                'new_total' => (float) $revision->new_total,
+                'lock_reason' => $revision->lock_reason,
+                'note' => $revision->note,
+            ]),
+        'payOnlineUrl' => $this->payHereService->canPayOnline($invoice) ? $this->payHereService->payLink($invoice) : null,
+        // Flashed by recordPayment so the counter can print the receipt straight away
+        'recordedPayment' => session('recorded_payment_id')
+            ? $invoice->payments()->whereKey(session('recorded_payment_id'))->first(['id', 'payment_reference', 'amount'])
+            : null,
         'paymentMethods' => [
             'cash' => 'Cash',
             'bank_transfer' => 'Bank Transfer',
@@ -290,7 +341,7 @@ public function show(int $id): Response
     /**
      * Show the form for editing the specified invoice
      */
-    public function edit(int $id): Response
+    public function edit(int $id): Response|RedirectResponse
     {
         $invoice = $this->invoiceRepository->findWithDetails($id);
         
@@ -305,20 +356,44 @@ public function edit(int $id): Response
             abort(403, 'You cannot edit this invoice.');
         }
 
-        if (!$this->invoiceRepository->canBeModified($id)) {
+        $canOverride = $user->can('override invoice lock');
+
+        if (!$this->invoiceRepository->canBeModified($id, $canOverride)) {
             return redirect()->route('invoices.show', $id)
-                ->withErrors(['error' => 'Invoice cannot be modified at this time.']);
+                ->withErrors(['error' => ($invoice->getEditLockReason() ?? 'Invoice cannot be modified at this time.') . ' / ප්‍රතිදානය මේ අවස්ථාවේ වෙනස් කළ නොහැක.']);
         }
 
-        $customers = $this->customerRepository->getForDropdown($user->company_id);
-        $products = $this->productRepository->getForDropdown($user->company_id);
-        $branches = $this->branchRepository->getForDropdown($user->company_id);
-
         return Inertia::render('Invoices/Edit', [
-            'invoice' => $invoice,
-            'customers' => $customers,
-            'products' => $products,
-            'branches' => $branches,
+            ...$this->invoiceService->getFormOptions($user->company_id),
+            'invoice' => [
+                'id' => $invoice->id,
+                'invoice_number' => $invoice->invoice_number,
+                'customer_id' => $invoice->customer_id,
+                'branch_id' => $invoice->branch_id,
+                'invoice_date' => $invoice->invoice_date->toDateString(),
+                'due_date' => $invoice->due_date->toDateString(),
+                'status' => $invoice->status,
+                'discount_amount' => (float) $invoice->discount_amount,
+                'notes' => $invoice->notes,
+                'terms_conditions' => $invoice->terms_conditions,
+                'total_amount' => (float) $invoice->total_amount,
+                'items' => $invoice->items->map(fn($item) => [
+                    'id' => $item->id,
+                    'product_id' => $item->product_id,
+                    'item_description' => $item->item_description,
+                    'quantity' => (float) $item->quantity,
+                    'unit_price' => (float) $item->unit_price,
+                    'unit_weight' => (float) $item->unit_weight,
+                    'line_total' => (float) $item->line_total,
+                    'line_weight' => (float) $item->line_weight,
+                    'tax_amount' => (float) $item->tax_amount,
+                    'specifications' => $item->specifications,
+                ])->values(),
+            ],
+            // Editing past the lock is allowed here only because the user holds the override permission
+            'edit_lock_reason' => $invoice->getEditLockReason(),
+            'revision_count' => $invoice->revisions()->count(),
+            'can_override_prices' => $user->can('override item prices'),
         ]);
     }
 
@@ -330,8 +405,10 @@ public function update(UpdateInvoiceRequest $request, int $id): RedirectResponse
         try {
             $invoice = $this->invoiceService->updateInvoice(
                 $id,
-                $request->validated(),
-                auth()->user()->company_id
+                $this->withServerPricing($request->validated()),
+                auth()->user()->company_id,
+                auth()->id(),
+                auth()->user()->can('override invoice lock')
             );
 
             return redirect()->route('invoices.show', $invoice->id)
@@ -375,18 +452,32 @@ public function destroy(int $id): RedirectResponse
     }
 
     /**
-     * Generate invoice PDF
+     * Generate invoice PDF, as an A4 invoice or an 80mm thermal receipt (?layout=thermal)
      */
-    public function generatePDF(int $id): \Illuminate\Http\Response
+    public function generatePDF(Request $request, int $id): \Symfony\Component\HttpFoundation\Response
     {
+        $this->authorize('view invoices');
+
+        $invoice = $this->invoiceRepository->find($id);
+        $user = auth()->user();
+
+        if (!$invoice || $invoice->company_id !== $user->company_id) {
+            abort(404, 'Invoice not found.');
+        }
+
+        if (!$user->can('view all branches') && $user->branch_id !== $invoice->branch_id) {
+            abort(403, 'You cannot view invoices from other branches.');
+        }
+
         try {
-            $this->authorize('view invoices');
+            $layout = $request->get('layout') === 'thermal' ? 'thermal' : 'a4';
+
+            $pdf = $this->invoiceService->generatePDF($invoice->id, $invoice->company_id, $layout);
+            $filename = $invoice->invoice_number . ($layout === 'thermal' ? '-receipt' : '') . '.pdf';
 
-            $pdf = $this->invoiceService->generatePDF($id, auth()->user()->company_id);
-            
             return response($pdf)
                 ->header('Content-Type', 'application/pdf')
-                ->header('Content-Disposition', 'inline; filename="invoice-' . $id . '.pdf"');
+                ->header('Content-Disposition', ($request->boolean('download') ? 'attachment' : 'inline') . '; filename="' . $filename . '"');
 
         } catch (\Exception $e) {
             \Log::error('Invoice PDF generation failed', [
@@ -402,20 +493,33 @@ public function generatePDF(int $id): \Illuminate\Http\Response
     }
 
     /**
-     * Send invoice via email
+     * Queue the invoice email with the PDF attached and log it on the invoice
      */
-    public function sendEmail(int $id): JsonResponse
+    public function sendEmail(Request $request, int $id): RedirectResponse
     {
-        try {
-            $this->authorize('edit invoices');
+        $this->authorize('edit invoices');
 
-            // Implementation for sending invoice email
-            // This would typically queue an email job
+        $invoice = $this->findInvoiceForUser($id);
 
-            return response()->json([
-                'success' => true,
-                'message' => 'Invoice sent successfully. / ප්‍රතිදානය සාර්ථකව යවන ලදී.'
-            ]);
+        $validated = $request->validate([
+            'recipient' => 'required|email|max:255',
+            'subject' => 'nullable|string|max:255',
+            'body' => 'nullable|string|max:5000',
+        ], [
+            'recipient.required' => 'Recipient email is required. / ලබන්නාගේ ඊමේල් ලිපිනය අවශ්‍යයි.',
+            'recipient.email' => 'Enter a valid email address. / වලංගු ඊමේල් ලිපිනයක් ඇතුළත් කරන්න.',
+        ]);
+
+        try {
+            $this->invoiceEmailService->sendInvoice(
+                $invoice,
+                $validated['recipient'],
+                auth()->id(),
+                $validated['subject'] ?? null,
+                $validated['body'] ?? null
+            );
+
+            return back()->with('success', "Invoice queued for sending to {$validated['recipient']}. / ප්‍රතිදානය යැවීමට පෙළගස්වන ලදී.");
 
         } catch (\Exception $e) {
             \Log::error('Invoice email sending failed', [
@@ -424,9 +528,76 @@ public function sendEmail(int $id): JsonResponse
                 'error' => $e->getMessage(),
             ]);
 
-            return response()->json([
-                'error' => 'Email sending failed. Please try again. / ඊමේල් යැවීම අසාර්ථක විය.'
-            ], 500);
+            return back()->withErrors([
+                'error' => 'Email sending failed: ' . $e->getMessage() . ' / ඊමේල් යැවීම අසාර්ථක විය.'
+            ]);
+        }
+    }
+
+    /**
+     * Send a logged invoice email again to the same recipient
+     */
+    public function resendEmail(int $id, int $emailId): RedirectResponse
+    {
+        $this->authorize('edit invoices');
+
+        $invoice = $this->findInvoiceForUser($id);
+        $invoiceEmail = $this->invoiceEmailRepository->findForCompany($emailId, $invoice->company_id);
+
+        if (!$invoiceEmail || $invoiceEmail->invoice_id !== $invoice->id) {
+            abort(404, 'Email not found.');
+        }
+
+        try {
+            $this->invoiceEmailService->resend($invoiceEmail, auth()->id());
+
+            return back()->with('success', "Invoice queued for resending to {$invoiceEmail->recipient}. / ප්‍රතිදානය නැවත යැවීමට පෙළගස්වන ලදී.");
+
+        } catch (\Exception $e) {
+            return back()->withErrors([
+                'error' => 'Email resending failed: ' . $e->getMessage() . ' / ඊමේල් නැවත යැවීම අසාර්ථක විය.'
+            ]);
+        }
+    }
+
+    /**
+     * Show the company's invoice email template
+     */
+    public function emailTemplate(): Response
+    {
+        $this->authorize('edit invoices');
+
+        $company = auth()->user()->company;
+
+        return Inertia::render('Invoices/EmailTemplate', [
+            'template' => $this->invoiceEmailService->getTemplate($company),
+            'defaultTemplate' => InvoiceEmailService::DEFAULT_TEMPLATE,
+            'placeholders' => InvoiceEmailService::PLACEHOLDERS,
+        ]);
+    }
+
+    /**
+     * Save the company's invoice email template
+     */
+    public function updateEmailTemplate(Request $request): RedirectResponse
+    {
+        $this->authorize('edit invoices');
+
+        $validated = $request->validate([
+            'subject' => 'required|string|max:255',
+            'body' => 'required|string|max:5000',
+        ], [
+            'subject.required' => 'Subject is required. / විෂය අවශ්‍යයි.',
+            'body.required' => 'Message is required. / පණිවිඩය අවශ්‍යයි.',
+        ]);
+
+        try {
+            $this->invoiceEmailService->updateTemplate(auth()->user()->company, $validated);
+
+            return back()->with('success', 'Invoice email template saved. / ඊමේල් සැකිල්ල සුරකින ලදී.');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Template update failed. Please try again.']);
         }
     }
 
@@ -575,6 +746,7 @@ function ($attribute, $value, $fail) use ($id) {
                 'nullable',
                 'string',
                 'max:200',
+                'unique:payments,gateway_reference',
                 'required_if:payment_method,online',
             ],
             'cheque_number' => [
@@ -620,7 +792,8 @@ function ($attribute, $value, $fail) use ($id) {
 
         return redirect()->route('invoices.show', $invoice)
             ->with('success', 'Payment recorded successfully. Reference: ' . $payment->payment_reference)
-            ->with('paymentSummary', $paymentSummary);
+            ->with('paymentSummary', $paymentSummary)
+            ->with('recorded_payment_id', $payment->id);
 
     } catch (\Illuminate\Validation\ValidationException $e) {
         \Log::error('Payment validation failed:', [
@@ -783,4 +956,35 @@ public function bulkAction(Request $request): JsonResponse
             ], 500);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Invoice of the user's company, limited to their branch unless they can view all branches
+     */
+    private function findInvoiceForUser(int $invoiceId): Invoice
+    {
+        $invoice = $this->invoiceRepository->findOrFail($invoiceId);
+        $user = auth()->user();
+
+        if ($invoice->company_id !== $user->company_id) {
+            abort(403, 'You cannot access invoices from other companies.');
+        }
+
+        if (!$user->can('view all branches') && $invoice->branch_id !== $user->branch_id) {
+            abort(403, 'You cannot access invoices from other branches.');
+        }
+
+        return $invoice;
+    }
+
+    /**
+     * Drop typed unit prices unless the user may override item prices, so lines get the server's price list or quantity break rate
+     */
+    private function withServerPricing(array $data): array
+    {
+        if (!empty($data['items']) && !auth()->user()->can('override item prices')) {
+            $data['items'] = array_map(fn($item) => Arr::except($item, 'unit_price'), $data['items']);
+        }
+
+        return $data;
+    }
+}
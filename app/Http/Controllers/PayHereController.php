@@ -0,0 +1,96 @@
+<?php
+// app/Http/Controllers/PayHereController.php
+
+namespace App\Http\Controllers;
+
+use App\Repositories\InvoiceRepository;
+use App\Services\PayHereService;
+use Illuminate\Http\Request;
+use Illuminate\View\View;
+
+/**
+ * Customer-facing side of PayHere: the page a "Pay online" link opens, and a local
+ * stand-in for the PayHere checkout. Notifications are handled by PaymentController.
+ */
+class PayHereController extends Controller
+{
+    public function __construct(
+        private PayHereService $payHereService,
+        private InvoiceRepository $invoiceRepository
+    ) {
+    }
+
+    /**
+     * Invoice summary with the button that posts to the PayHere checkout. PayHere sends the
+     * customer back here (?result=returned|cancelled) and adds its own order_id to the query.
+     */
+    public function checkout(Request $request, int $id): View
+    {
+        abort_unless($request->hasValidSignatureWhileIgnoring(['order_id']), 403, 'This payment link is invalid.');
+
+        $invoice = $this->invoiceRepository->find($id);
+
+        if (!$invoice) {
+            abort(404, 'Invoice not found.');
+        }
+
+        $invoice->load(['company', 'customer']);
+        $canPay = $this->payHereService->canPayOnline($invoice);
+
+        return view('payhere.checkout', [
+            'invoice' => $invoice,
+            'company' => $invoice->company,
+            'result' => $request->get('result'),
+            'canPay' => $canPay,
+            'checkoutUrl' => $this->payHereService->checkoutUrl(),
+            'fields' => $canPay ? $this->payHereService->checkoutFields($invoice) : [],
+        ]);
+    }
+
+    /**
+     * Local stand-in for the PayHere checkout (PAYHERE_FAKE=true). It checks the checkout hash
+     * like PayHere does and offers signed success and failure notifications for the notify_url.
+     */
+    public function fakeCheckout(Request $request): View
+    {
+        // Checked here rather than around the route, which route:cache would freeze
+        abort_unless($this->payHereService->usesFakeCheckout(), 404);
+
+        $fields = $request->only([
+            'merchant_id', 'order_id', 'amount', 'currency', 'custom_1', 'hash',
+            'return_url', 'cancel_url', 'notify_url', 'items',
+        ]);
+
+        $hashIsValid = hash_equals(
+            $this->payHereService->checkoutHash((string) ($fields['order_id'] ?? ''), (string) ($fields['amount'] ?? ''), (string) ($fields['currency'] ?? '')),
+            (string) ($fields['hash'] ?? '')
+        );
+
+        $paymentId = (string) random_int(320000000000, 329999999999);
+
+        $notification = fn (int $statusCode, string $message) => [
+            'merchant_id' => $fields['merchant_id'] ?? '',
+            'order_id' => $fields['order_id'] ?? '',
+            'payment_id' => $paymentId,
+            'payhere_amount' => $fields['amount'] ?? '',
+            'payhere_currency' => $fields['currency'] ?? '',
+            'status_code' => $statusCode,
+            'status_message' => $message,
+            'method' => 'TEST',
+            'custom_1' => $fields['custom_1'] ?? '',
+            'md5sig' => $this->payHereService->notificationSignature(
+                (string) ($fields['order_id'] ?? ''),
+                (string) ($fields['amount'] ?? ''),
+                (string) ($fields['currency'] ?? ''),
+                $statusCode
+            ),
+        ];
+
+        return view('payhere.fake-checkout', [
+            'fields' => $fields,
+            'hashIsValid' => $hashIsValid,
+            'success' => $notification(PayHereService::STATUS_SUCCESS, 'Successfully completed the test payment'),
+            'failure' => $notification(PayHereService::STATUS_FAILED, 'Test payment declined'),
+        ]);
+    }
+}
@@ -4,124 +4,167 @@
 
 use App\Models\Payment;
 use App\Models\Invoice;
+use App\Repositories\BranchRepository;
+use App\Repositories\InvoiceRepository;
 use App\Services\PaymentService;
+use App\Services\PayHereService;
 use App\Http\Requests\StorePaymentRequest;
 use App\Http\Requests\UpdatePaymentRequest;
-use App\Http\Requests\StorePaymentVerificationRequest;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
-use Illuminate\View\View;
 use Illuminate\Http\RedirectResponse;
+use Illuminate\Support\Facades\Storage;
+use Inertia\Inertia;
+use Inertia\Response;
 use Carbon\Carbon;
 
 class PaymentController extends Controller
 {
-    protected PaymentService $paymentService;
-
-    public function __construct(PaymentService $paymentService)
-    {
-        $this->paymentService = $paymentService;
-        // $this->middleware('auth');
-       
-    }
+    use AuthorizesRequests;
+
+    private const PAYMENT_METHODS = [
+        'cash' => 'Cash',
+        'bank_transfer' => 'Bank Transfer',
+        'online' => 'Online Payment',
+        'card' => 'Card Payment',
+        'cheque' => 'Cheque',
+        'mobile_payment' => 'Mobile Payment',
+    ];
+
+    private const STATUSES = [
+        'pending' => 'Pending',
+        'processing' => 'Processing',
+        'completed' => 'Completed',
+        'failed' => 'Failed',
+        'cancelled' => 'Cancelled',
+        'refunded' => 'Refunded',
+    ];
+
+    private const VERIFICATION_STATUSES = [
+        'pending' => 'Pending Verification',
+        'verified' => 'Verified',
+        'rejected' => 'Rejected',
+    ];
+
+    public function __construct(
+        protected PaymentService $paymentService,
+        private InvoiceRepository $invoiceRepository,
+        private BranchRepository $branchRepository
+    ) {}
 
     /**
      * Display payments listing
      */
-    public function index(Request $request): View
+    public function index(Request $request): Response
     {
-        try {
-            // Prepare filters from request
-            $filters = $request->only([
-                'status', 
-                'verification_status', 
-                'payment_method', 
-                'date_from', 
-                'date_to', 
-                'search'
-            ]);
+        $user = auth()->user();
+
+        $filters = [
+            'search' => $request->get('search'),
+            'status' => $request->get('status'),
+            'verification_status' => $request->get('verification_status'),
+            'payment_method' => $request->get('payment_method'),
+            'branch_id' => $request->get('branch_id'),
+            'invoice_id' => $request->get('invoice_id'),
+            'date_from' => $request->get('date_from'),
+            'date_to' => $request->get('date_to'),
+        ];
+
+        if (!$user->can('view all branches')) {
+            $filters['branch_id'] = $user->branch_id;
+        }
 
-            // Get filtered payments
-            $payments = $this->paymentService->getFilteredPayments($filters, 15);
-            
-            // Get statistics for dashboard
-            $statistics = $this->paymentService->getPaymentStatistics(
-                auth()->user()->branch_id,
-                $request->date_from ? Carbon::parse($request->date_from) : null,
-                $request->date_to ? Carbon::parse($request->date_to) : null
-            );
-
-            // Payment methods for filter dropdown
-            $paymentMethods = [
-                'cash' => 'Cash',
-                'bank_transfer' => 'Bank Transfer',
-                'online' => 'Online Payment',
-                'card' => 'Card Payment',
-                'cheque' => 'Cheque',
-                'mobile_payment' => 'Mobile Payment',
-            ];
-
-            // Status options for filter dropdown
-            $statusOptions = [
-                'pending' => 'Pending',
-                'processing' => 'Processing',
-                'completed' => 'Completed',
-                'failed' => 'Failed',
-                'cancelled' => 'Cancelled',
-                'refunded' => 'Refunded',
-            ];
-
-            $verificationStatusOptions = [
-                'pending' => 'Pending Verification',
-                'verified' => 'Verified',
-                'rejected' => 'Rejected',
-            ];
-
-            return view('payments.index', compact(
-                'payments', 
-                'statistics', 
-                'paymentMethods', 
-                'statusOptions', 
-                'verificationStatusOptions',
-                'filters'
-            ));
+        $payments = $this->paymentService
+            ->getFilteredPayments(array_filter([...$filters, 'company_id' => $user->company_id]), 15)
+            ->through(fn (Payment $payment) => [
+                'id' => $payment->id,
+                'payment_reference' => $payment->payment_reference,
+                'payment_date' => $payment->payment_date->toISOString(),
+                'amount' => (float) $payment->amount,
+                'payment_type' => $payment->payment_type,
+                'payment_method' => $payment->payment_method,
+                'payment_method_label' => $payment->payment_method_label,
+                'status' => $payment->status,
+                'status_label' => $payment->status_label,
+                'verification_status' => $payment->verification_status,
+                'verification_status_label' => $payment->verification_status_label,
+                'has_receipt' => (bool) $payment->receipt_image,
+                'invoice' => $payment->invoice?->only(['id', 'invoice_number']),
+                'customer' => $payment->customer?->only(['id', 'name']),
+                'branch' => $payment->branch?->only(['id', 'name']),
+                'received_by' => $payment->receivedBy?->name,
+                'can_verify' => $payment->canBeVerified(),
+            ]);
 
-        } catch (\Exception $e) {
-            return back()->withErrors(['error' => 'Failed to load payments: ' . $e->getMessage()]);
-        }
+        return Inertia::render('Payments/Index', [
+            'payments' => [
+                'data' => $payments->items(),
+                'current_page' => $payments->currentPage(),
+                'last_page' => $payments->lastPage(),
+                'per_page' => $payments->perPage(),
+                'total' => $payments->total(),
+                'from' => $payments->firstItem(),
+                'to' => $payments->lastItem(),
+            ],
+            'filters' => $filters,
+            'statistics' => $this->paymentService->getPaymentStatistics(
+                $filters['branch_id'] ? (int) $filters['branch_id'] : null,
+                $filters['date_from'] ? Carbon::parse($filters['date_from'])->startOfDay() : null,
+                $filters['date_to'] ? Carbon::parse($filters['date_to'])->endOfDay() : null,
+                $user->company_id
+            ),
+            'invoice' => $filters['invoice_id']
+                ? $this->invoiceRepository->find((int) $filters['invoice_id'])?->only(['id', 'invoice_number'])
+                : null,
+            'branches' => $user->can('view all branches') ? $this->branchRepository->getForDropdown($user->company_id) : [],
+            'paymentMethods' => self::PAYMENT_METHODS,
+            'statusOptions' => self::STATUSES,
+            'verificationStatusOptions' => self::VERIFICATION_STATUSES,
+            'permissions' => [
+                'create' => $user->can('create payments'),
+                'verify' => $user->can('verify payments'),
+                'view_all_branches' => $user->can('view all branches'),
+            ],
+        ]);
     }
 
     /**
      * Show payment creation form
      */
-    public function create(Request $request): View
+    public function create(Request $request): Response
     {
-        try {
-            $invoice = null;
-            $paymentSummary = null;
-            
-            if ($request->filled('invoice_id')) {
-                $invoice = Invoice::with(['customer', 'branch'])
-                    ->where('branch_id', auth()->user()->branch_id)
-                    ->findOrFail($request->invoice_id);
-                    
-                $paymentSummary = $this->paymentService->getInvoicePaymentSummary($invoice->id);
-            }
-
-            $paymentMethods = [
-                'cash' => 'Cash',
-                'bank_transfer' => 'Bank Transfer',
-                'online' => 'Online Payment',
-                'card' => 'Card Payment',
-                'cheque' => 'Cheque',
-                'mobile_payment' => 'Mobile Payment',
-            ];
+        $user = auth()->user();
+        $invoice = null;
+        $paymentSummary = null;
 
-            return view('payments.create', compact('invoice', 'paymentMethods', 'paymentSummary'));
+        if ($request->filled('invoice_id')) {
+            $invoice = Invoice::with(['customer', 'branch'])
+                ->where('branch_id', $user->branch_id)
+                ->findOrFail($request->invoice_id);
 
-        } catch (\Exception $e) {
-            return back()->withErrors(['error' => 'Failed to load payment form: ' . $e->getMessage()]);
+            $paymentSummary = $this->summaryPayload($this->paymentService->getInvoicePaymentSummary($invoice->id));
         }
+
+        return Inertia::render('Payments/Create', [
+            'invoice' => $invoice ? [
+                'id' => $invoice->id,
+                'invoice_number' => $invoice->invoice_number,
+                'invoice_date' => $invoice->invoice_date->toDateString(),
+                'due_date' => $invoice->due_date->toDateString(),
+                'total_amount' => (float) $invoice->total_amount,
+                'customer' => $invoice->customer?->only(['id', 'name', 'phone']),
+            ] : null,
+            'paymentSummary' => $paymentSummary,
+            'invoices' => $this->invoiceRepository->getPayableForBranch($user->branch_id)
+                ->map(fn (Invoice $payable) => [
+                    'id' => $payable->id,
+                    'invoice_number' => $payable->invoice_number,
+                    'customer_name' => $payable->customer?->name,
+                    'total_amount' => (float) $payable->total_amount,
+                ]),
+            'paymentMethods' => self::PAYMENT_METHODS,
+        ]);
     }
 
     /**
@@ -130,7 +173,12 @@ public function create(Request $request): View
     public function store(StorePaymentRequest $request): RedirectResponse
     {
         try {
-            $payment = $this->paymentService->createPayment($request->validated());
+            $invoice = Invoice::findOrFail($request->validated('invoice_id'));
+
+            $payment = $this->paymentService->createPayment([
+                ...$request->validated(),
+                'branch_id' => $invoice->branch_id,
+            ]);
 
             return redirect()->route('payments.show', $payment)
                 ->with('success', 'Payment recorded successfully. Reference: ' . $payment->payment_reference);
@@ -144,62 +192,147 @@ public function store(StorePaymentRequest $request): RedirectResponse
     /**
      * Display payment details
      */
-    public function show(Payment $payment): View
+    public function show(Payment $payment): Response
+    {
+        $this->ensureCanAccess($payment);
+
+        $user = auth()->user();
+
+        $payment->load([
+            'invoice.customer',
+            'customer',
+            'branch',
+            'receivedBy',
+            'verifiedBy',
+            'creditNote',
+        ]);
+
+        return Inertia::render('Payments/Show', [
+            'payment' => [
+                'id' => $payment->id,
+                'payment_reference' => $payment->payment_reference,
+                'payment_date' => $payment->payment_date->toISOString(),
+                'amount' => (float) $payment->amount,
+                'payment_type' => $payment->payment_type,
+                'payment_method' => $payment->payment_method,
+                'payment_method_label' => $payment->payment_method_label,
+                'status' => $payment->status,
+                'status_label' => $payment->status_label,
+                'verification_status' => $payment->verification_status,
+                'verification_status_label' => $payment->verification_status_label,
+                'bank_name' => $payment->bank_name,
+                'transaction_id' => $payment->transaction_id,
+                'gateway_reference' => $payment->gateway_reference,
+                'cheque_number' => $payment->cheque_number,
+                'notes' => $payment->notes,
+                'rejection_reason' => $payment->rejection_reason,
+                'verified_at' => $payment->verified_at?->toISOString(),
+                'verified_by' => $payment->verifiedBy?->name,
+                'received_by' => $payment->receivedBy?->name,
+                'created_at' => $payment->created_at->toISOString(),
+                'receipt_url' => $payment->receipt_image ? route('payments.receipt-image', $payment) : null,
+                'receipt_is_pdf' => $payment->receipt_image && str_ends_with(strtolower($payment->receipt_image), '.pdf'),
+                'invoice' => $payment->invoice ? [
+                    'id' => $payment->invoice->id,
+                    'invoice_number' => $payment->invoice->invoice_number,
+                    'total_amount' => (float) $payment->invoice->total_amount,
+                    'due_date' => $payment->invoice->due_date->toDateString(),
+                ] : null,
+                'customer' => $payment->customer?->only(['id', 'name', 'phone', 'email']),
+                'branch' => $payment->branch?->only(['id', 'name']),
+                'credit_note' => $payment->creditNote?->only(['id', 'credit_note_number']),
+            ],
+            'paymentSummary' => $payment->invoice_id
+                ? $this->summaryPayload($this->paymentService->getInvoicePaymentSummary($payment->invoice_id))
+                : null,
+            'permissions' => [
+                'verify' => $user->can('verify payments') && $payment->canBeVerified(),
+                'reject' => $user->can('verify payments') && $payment->canBeRejected(),
+                'edit' => $user->can('update payments') && $payment->status === 'pending',
+                'delete' => $payment->status === 'pending',
+            ],
+        ]);
+    }
+
+    /**
+     * Generate the payment receipt PDF, as an A5 receipt or an 80mm thermal slip (?layout=thermal)
+     */
+    public function generateReceipt(Request $request, int $id): \Symfony\Component\HttpFoundation\Response
     {
+        $payment = Payment::findOrFail($id);
+        $this->ensureCanAccess($payment);
+
         try {
-            // Check if user can view this payment (same branch)
-            if ($payment->branch_id !== auth()->user()->branch_id) {
-                abort(403, 'You can only view payments from your branch.');
-            }
+            $layout = $request->get('layout') === 'thermal' ? 'thermal' : 'a5';
 
-            $payment->load([
-                'invoice.customer', 
-                'customer', 
-                'branch', 
-                'receivedBy', 
-                'verifiedBy', 
-                'paymentVerifications'
-            ]);
-            
-            $paymentSummary = $this->paymentService->getInvoicePaymentSummary($payment->invoice_id);
+            $pdf = $this->paymentService->generateReceipt($payment->id, auth()->user()->company_id, $layout);
+            $filename = $payment->payment_reference . '-receipt' . ($layout === 'thermal' ? '-80mm' : '') . '.pdf';
 
-            return view('payments.show', compact('payment', 'paymentSummary'));
+            return response($pdf)
+                ->header('Content-Type', 'application/pdf')
+                ->header('Content-Disposition', ($request->boolean('download') ? 'attachment' : 'inline') . '; filename="' . $filename . '"');
 
         } catch (\Exception $e) {
-            return back()->withErrors(['error' => 'Failed to load payment details: ' . $e->getMessage()]);
+            \Log::error('Payment receipt generation failed', [
+                'payment_id' => $id,
+                'user_id' => auth()->id(),
+                'error' => $e->getMessage(),
+            ]);
+
+            return back()->withErrors(['error' => 'Receipt generation failed. Please try again.']);
         }
     }
 
     /**
-     * Show payment edit form
+     * Stream the uploaded receipt or bank slip. Older uploads went to the default disk
+     * under public/, newer ones to the public disk, so both are looked up.
      */
-    public function edit(Payment $payment): View
+    public function receiptImage(Payment $payment): \Symfony\Component\HttpFoundation\StreamedResponse
     {
-        try {
-            // Check permissions
-            if ($payment->branch_id !== auth()->user()->branch_id) {
-                abort(403, 'You can only edit payments from your branch.');
-            }
+        $this->ensureCanAccess($payment);
 
-            // Only allow editing pending payments
-            if ($payment->status !== 'pending') {
-                return back()->withErrors(['error' => 'Cannot edit processed payments']);
+        foreach (['public', config('filesystems.default')] as $disk) {
+            if ($payment->receipt_image && Storage::disk($disk)->exists($payment->receipt_image)) {
+                return Storage::disk($disk)->response($payment->receipt_image);
             }
+        }
 
-            $paymentMethods = [
-                'cash' => 'Cash',
-                'bank_transfer' => 'Bank Transfer',
-                'online' => 'Online Payment',
-                'card' => 'Card Payment',
-                'cheque' => 'Cheque',
-                'mobile_payment' => 'Mobile Payment',
-            ];
+        abort(404, 'Receipt not found.');
+    }
 
-            return view('payments.edit', compact('payment', 'paymentMethods'));
+    /**
+     * Show payment edit form
+     */
+    public function edit(Payment $payment): Response|RedirectResponse
+    {
+        $this->ensureCanAccess($payment);
 
-        } catch (\Exception $e) {
-            return back()->withErrors(['error' => 'Failed to load payment edit form: ' . $e->getMessage()]);
+        // Only allow editing pending payments
+        if ($payment->status !== 'pending') {
+            return redirect()->route('payments.show', $payment)
+                ->withErrors(['error' => 'Cannot edit processed payments']);
         }
+
+        $payment->load(['invoice', 'customer']);
+
+        return Inertia::render('Payments/Edit', [
+            'payment' => [
+                'id' => $payment->id,
+                'payment_reference' => $payment->payment_reference,
+                'payment_date' => $payment->payment_date->toDateString(),
+                'amount' => (float) $payment->amount,
+                'payment_method' => $payment->payment_method,
+                'bank_name' => $payment->bank_name,
+                'transaction_id' => $payment->transaction_id,
+                'gateway_reference' => $payment->gateway_reference,
+                'cheque_number' => $payment->cheque_number,
+                'notes' => $payment->notes,
+                'has_receipt' => (bool) $payment->receipt_image,
+                'invoice' => $payment->invoice?->only(['id', 'invoice_number']),
+                'customer' => $payment->customer?->only(['id', 'name']),
+            ],
+            'paymentMethods' => self::PAYMENT_METHODS,
+        ]);
     }
 
     /**
@@ -207,12 +340,9 @@ public function edit(Payment $payment): View
      */
     public function update(UpdatePaymentRequest $request, Payment $payment): RedirectResponse
     {
-        try {
-            // Check permissions
-            if ($payment->branch_id !== auth()->user()->branch_id) {
-                abort(403, 'You can only update payments from your branch.');
-            }
+        $this->ensureCanAccess($payment);
 
+        try {
             $result = $this->paymentService->updatePayment($payment->id, $request->validated());
 
             if ($result) {
@@ -232,87 +362,79 @@ public function update(UpdatePaymentRequest $request, Payment $payment): Redirec
     /**
      * Verify payment
      */
-  public function verify(Request $request, Payment $payment): RedirectResponse
-{
-    $request->validate([
-        'notes' => 'nullable|string|max:1000',
-    ]);
-
-    try {
-        // Load relationships
-        $payment->load('invoice');
-        
-        // Check permissions
-        if ($payment->branch_id !== auth()->user()->branch_id) {
-            return back()->withErrors(['error' => 'You can only verify payments from your branch.']);
-        }
+    public function verify(Request $request, Payment $payment): RedirectResponse
+    {
+        $this->authorize('verify payments');
+        $this->ensureCanAccess($payment);
 
-        // Update payment status
-        $payment->update([
-            'verification_status' => 'verified',
-            'status' => 'completed',
-            'verified_at' => now(),
-            'verified_by' => auth()->id(),
-            'notes' => $request->notes,
+        $request->validate([
+            'notes' => 'nullable|string|max:1000',
         ]);
 
-        return back()->with('success', 'Payment verified successfully');
+        if (!$payment->canBeVerified()) {
+            return back()->withErrors(['error' => 'Only pending payments awaiting verification can be verified.']);
+        }
 
-    } catch (\Exception $e) {
-        return back()->withErrors(['error' => 'Error verifying payment: ' . $e->getMessage()]);
-    }
-}
+        try {
+            if ($request->filled('notes')) {
+                $payment->update(['notes' => $request->notes]);
+            }
 
-public function reject(Request $request, Payment $payment): RedirectResponse
-{
-    $request->validate([
-        'reason' => 'required|string|max:1000',
-    ]);
-
-    try {
-        // Load relationships
-        $payment->load('invoice');
-        
-        // Check permissions
-        if ($payment->branch_id !== auth()->user()->branch_id) {
-            return back()->withErrors(['error' => 'You can only reject payments from your branch.']);
+            // Completes the payment and updates the invoice balance
+            $payment->markAsVerified(auth()->id());
+
+            return back()->with('success', 'Payment verified successfully');
+
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Error verifying payment: ' . $e->getMessage()]);
         }
+    }
 
-        // Update payment status
-        $payment->update([
-            'verification_status' => 'rejected',
-            'status' => 'failed',
-            'rejection_reason' => $request->reason,
-            'verified_at' => now(),
-            'verified_by' => auth()->id(),
+    /**
+     * Reject payment
+     */
+    public function reject(Request $request, Payment $payment): RedirectResponse
+    {
+        $this->authorize('verify payments');
+        $this->ensureCanAccess($payment);
+
+        $request->validate([
+            'reason' => 'required|string|max:1000',
         ]);
 
-        return back()->with('success', 'Payment rejected successfully');
+        if (!$payment->canBeRejected()) {
+            return back()->withErrors(['error' => 'Only payments awaiting verification can be rejected.']);
+        }
+
+        try {
+            $payment->markAsRejected(auth()->id(), $request->reason);
+            $payment->invoice?->updatePaymentStatus();
+
+            return back()->with('success', 'Payment rejected successfully');
 
-    } catch (\Exception $e) {
-        return back()->withErrors(['error' => 'Error rejecting payment: ' . $e->getMessage()]);
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Error rejecting payment: ' . $e->getMessage()]);
+        }
     }
-}
 
     /**
      * Delete payment (soft delete)
      */
     public function destroy(Payment $payment): RedirectResponse
     {
-        try {
-            // Check permissions
-            if ($payment->branch_id !== auth()->user()->branch_id) {
-                abort(403, 'You can only delete payments from your branch.');
-            }
+        $this->ensureCanAccess($payment);
 
-            // Only allow deleting pending payments
-            if ($payment->status !== 'pending') {
-                return back()->withErrors(['error' => 'Cannot delete processed payments']);
-            }
+        // Only allow deleting pending payments
+        if ($payment->status !== 'pending') {
+            return back()->withErrors(['error' => 'Cannot delete processed payments']);
+        }
 
+        try {
             $result = $this->paymentService->delete($payment->id);
 
             if ($result) {
+                $payment->invoice?->updatePaymentStatus();
+
                 return redirect()->route('payments.index')
                     ->with('success', 'Payment deleted successfully.');
             }
@@ -401,4 +523,67 @@ public function pendingVerifications(): JsonResponse
             ], 500);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * PayHere server-to-server notification (notify_url). Answers 400 to notifications
+     * that fail the md5sig check and 200 once the payment is on file.
+     */
+    public function payhereWebhook(Request $request, PayHereService $payHereService): \Illuminate\Http\Response
+    {
+        try {
+            $payment = $payHereService->handleNotification($request->all());
+
+            return response($payment ? 'Recorded ' . $payment->payment_reference : 'OK');
+
+        } catch (\InvalidArgumentException $e) {
+            \Log::warning('PayHere notification rejected', [
+                'order_id' => $request->input('order_id'),
+                'payment_id' => $request->input('payment_id'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response($e->getMessage(), 400);
+
+        } catch (\Exception $e) {
+            \Log::error('PayHere notification failed', [
+                'order_id' => $request->input('order_id'),
+                'payment_id' => $request->input('payment_id'),
+                'error' => $e->getMessage(),
+            ]);
+
+            return response('Error recording payment', 500);
+        }
+    }
+
+    /**
+     * Payments of the user's company, limited to their branch unless they can view all branches
+     */
+    private function ensureCanAccess(Payment $payment): void
+    {
+        $user = auth()->user();
+        $payment->loadMissing('branch');
+
+        if ($payment->branch?->company_id !== $user->company_id) {
+            abort(403, 'You cannot access payments from other companies.');
+        }
+
+        if (!$user->can('view all branches') && $payment->branch_id !== $user->branch_id) {
+            abort(403, 'You can only view payments from your branch.');
+        }
+    }
+
+    /**
+     * Invoice payment summary without the models, for page props
+     */
+    private function summaryPayload(array $summary): array
+    {
+        return [
+            'invoice_total' => (float) $summary['invoice_total'],
+            'total_paid' => (float) $summary['total_paid'],
+            'total_credited' => (float) $summary['total_credited'],
+            'pending_amount' => (float) $summary['pending_amount'],
+            'remaining_balance' => (float) $summary['remaining_balance'],
+            'payment_status' => $summary['payment_status'],
+        ];
+    }
+}
@@ -0,0 +1,205 @@
+<?php
+// app/Http/Controllers/PriceListController.php
+
+namespace App\Http\Controllers;
+
+use App\Models\Customer;
+use App\Models\PriceList;
+use App\Models\Product;
+use App\Repositories\CustomerRepository;
+use App\Repositories\PriceListRepository;
+use App\Repositories\ProductRepository;
+use App\Services\PriceListService;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class PriceListController extends Controller
+{
+    use AuthorizesRequests;
+
+    private const CUSTOMER_TYPES = [
+        'individual' => 'Individual customers',
+        'business' => 'Business customers',
+    ];
+
+    public function __construct(
+        private PriceListRepository $priceListRepository,
+        private ProductRepository $productRepository,
+        private CustomerRepository $customerRepository,
+        private PriceListService $priceListService
+    ) {}
+
+    /**
+     * Customer price lists
+     */
+    public function index(Request $request): Response
+    {
+        $this->authorize('view products');
+
+        $user = auth()->user();
+
+        $filters = [
+            'search' => $request->get('search'),
+            'status' => $request->get('status'),
+        ];
+
+        $priceLists = $this->priceListRepository->getCompanyPriceLists($user->company_id, $filters)
+            ->map(fn(PriceList $priceList) => [
+                'id' => $priceList->id,
+                'name' => $priceList->name,
+                'description' => $priceList->description,
+                'customer_type' => $priceList->customer_type,
+                'valid_from' => $priceList->valid_from?->toDateString(),
+                'valid_until' => $priceList->valid_until?->toDateString(),
+                'is_active' => $priceList->is_active,
+                'is_current' => $priceList->isCurrent(),
+                'items' => $priceList->items->map(fn($item) => [
+                    'product_id' => $item->product_id,
+                    'product_name' => $item->product?->name,
+                    'product_code' => $item->product?->product_code,
+                    'base_price' => (float) $item->product?->base_price,
+                    'min_quantity' => $item->min_quantity,
+                    'unit_price' => (float) $item->unit_price,
+                ]),
+                'customers' => $priceList->customers->map(fn($customer) => [
+                    'id' => $customer->id,
+                    'name' => $customer->name,
+                    'customer_code' => $customer->customer_code,
+                ]),
+            ]);
+
+        return Inertia::render('PriceLists/Index', [
+            'priceLists' => $priceLists,
+            'filters' => $filters,
+            'customerTypes' => self::CUSTOMER_TYPES,
+            'products' => $this->productRepository->getForDropdown($user->company_id)
+                ->map(fn($product) => [
+                    'id' => $product->id,
+                    'name' => $product->name,
+                    'product_code' => $product->product_code,
+                    'base_price' => (float) $product->base_price,
+                ])
+                ->values(),
+            'customers' => $this->customerRepository->getForDropdown($user->company_id)
+                ->map(fn($customer) => [
+                    'id' => $customer->id,
+                    'name' => $customer->name,
+                    'customer_code' => $customer->customer_code,
+                    'price_list_id' => $customer->price_list_id,
+                ])
+                ->values(),
+            'permissions' => [
+                'manage' => $user->can('edit products'),
+            ],
+        ]);
+    }
+
+    public function store(Request $request): RedirectResponse
+    {
+        $this->authorize('edit products');
+
+        $user = auth()->user();
+        $validated = $request->validate($this->rules());
+
+        if ($error = $this->checkOwnership($validated, $user->company_id)) {
+            return back()->withErrors(['error' => $error]);
+        }
+
+        try {
+            $priceList = $this->priceListService->createPriceList($validated, $user->company_id);
+
+            return back()->with('success', "Price list \"{$priceList->name}\" created.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to create price list: ' . $e->getMessage()]);
+        }
+    }
+
+    public function update(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('edit products');
+
+        $user = auth()->user();
+        $priceList = $this->findForUser($id);
+        $validated = $request->validate($this->rules());
+
+        if ($error = $this->checkOwnership($validated, $user->company_id)) {
+            return back()->withErrors(['error' => $error]);
+        }
+
+        try {
+            $this->priceListService->updatePriceList($priceList, $validated);
+
+            return back()->with('success', 'Price list updated.');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to update price list: ' . $e->getMessage()]);
+        }
+    }
+
+    public function destroy(int $id): RedirectResponse
+    {
+        $this->authorize('edit products');
+
+        $priceList = $this->findForUser($id);
+
+        try {
+            $this->priceListService->deletePriceList($priceList);
+
+            return back()->with('success', 'Price list deleted.');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to delete price list: ' . $e->getMessage()]);
+        }
+    }
+
+    private function findForUser(int $id): PriceList
+    {
+        $priceList = $this->priceListRepository->findForCompany($id, auth()->user()->company_id);
+
+        if (!$priceList) {
+            abort(404, 'Price list not found.');
+        }
+
+        return $priceList;
+    }
+
+    /**
+     * Products and customers on the list must all belong to the user's company
+     */
+    private function checkOwnership(array $validated, int $companyId): ?string
+    {
+        $productIds = collect($validated['items'] ?? [])->pluck('product_id')->unique();
+        $customerIds = collect($validated['customer_ids'] ?? [])->unique();
+
+        if ($productIds->isNotEmpty()
+            && Product::where('company_id', $companyId)->whereIn('id', $productIds)->count() !== $productIds->count()) {
+            return 'Some products do not belong to your company.';
+        }
+
+        if ($customerIds->isNotEmpty()
+            && Customer::where('company_id', $companyId)->whereIn('id', $customerIds)->count() !== $customerIds->count()) {
+            return 'Some customers do not belong to your company.';
+        }
+
+        return null;
+    }
+
+    private function rules(): array
+    {
+        return [
+            'name' => 'required|string|max:150',
+            'description' => 'nullable|string|max:1000',
+            'customer_type' => 'nullable|in:' . implode(',', array_keys(self::CUSTOMER_TYPES)),
+            'valid_from' => 'nullable|date',
+            'valid_until' => 'nullable|date|after_or_equal:valid_from',
+            'is_active' => 'boolean',
+            'items' => 'array|max:500',
+            'items.*.product_id' => 'required|integer|exists:products,id',
+            'items.*.min_quantity' => 'required|integer|min:1|max:999999',
+            'items.*.unit_price' => 'required|numeric|min:0.01|max:9999999.99',
+            'customer_ids' => 'array',
+            'customer_ids.*' => 'integer|exists:customers,id',
+        ];
+    }
+}
@@ -8,6 +8,7 @@
 use App\Repositories\BranchRepository;
 use App\Repositories\InvoiceRepository;
 use App\Repositories\CustomerRepository;
+use App\Repositories\PrintJobTemplateRepository;
 use App\Services\PrintJobService;
 use Illuminate\Http\Request;
 use Illuminate\Http\RedirectResponse;
@@ -15,6 +16,7 @@
 use Inertia\Inertia;
 use Inertia\Response;
 use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Support\Facades\Storage;
 
 class PrintJobController extends Controller
 {
@@ -25,6 +27,7 @@ public function __construct(
         private BranchRepository $branchRepository,
         private InvoiceRepository $invoiceRepository,
         private CustomerRepository $customerRepository,
+        private PrintJobTemplateRepository $templateRepository,
         private PrintJobService $printJobService
     ) {}
 
@@ -47,6 +50,8 @@ public function index(Request $request): Response
             'job_type' => $request->get('job_type'),
             'date_from' => $request->get('date_from'),
             'date_to' => $request->get('date_to'),
+            'due_from' => $request->get('due_from'),
+            'due_to' => $request->get('due_to'),
             'overdue' => $request->boolean('overdue'),
         ];
 
@@ -121,7 +126,7 @@ public function create(Request $request): Response
         // Get branches for selection (if user can view all branches)
         $branches = $user->can('view all branches') 
             ? $this->branchRepository->getForDropdown($companyId)
-            : collect([['id' => $branchId, 'name' => $user->branch->branch_name]]);
+            : collect([['id' => $branchId, 'name' => $user->branch->name]]);
 
         // Get production staff for assignment
         $productionStaff = $this->getProductionStaff($branchId);
@@ -357,6 +362,8 @@ public function show(int $id): Response
             'manage_production' => $user->can('manage production'),
             'assign_staff' => $user->can('assign production jobs'),
             'update_priority' => $user->can('manage production'),
+            'create_delivery' => $user->can('manage deliveries'),
+            'save_as_template' => $user->can('manage production'),
         ],
         'jobTypes' => [
             'business_cards' => 'Business Cards',
@@ -375,7 +382,7 @@ public function show(int $id): Response
     /**
      * Show the form for editing the specified print job
      */
-    public function edit(int $id): Response
+    public function edit(int $id): Response|RedirectResponse
     {
         $printJob = $this->printJobRepository->find($id);
         
@@ -398,7 +405,7 @@ public function edit(int $id): Response
         }
 
         // Load relationships
-        $printJob->load(['invoice.customer', 'branch', 'assignedTo']);
+        $printJob->load(['invoice.customer', 'customer', 'branch', 'assignedTo']);
 
         // Get production staff
         $productionStaff = $this->getProductionStaff($printJob->branch_id);
@@ -407,7 +414,39 @@ public function edit(int $id): Response
         $customers = $this->customerRepository->getForDropdown($user->company_id);
 
         return Inertia::render('Production/PrintJobs/Edit', [
-            'printJob' => $printJob,
+            'printJob' => [
+                'id' => $printJob->id,
+                'job_number' => $printJob->job_number,
+                'job_type' => $printJob->job_type,
+                'job_title' => $printJob->job_title,
+                'job_description' => $printJob->job_description,
+                'production_status' => $printJob->production_status,
+                'priority' => $printJob->priority,
+                'assigned_to' => $printJob->assigned_to,
+                'customer_id' => $printJob->customer_id,
+                'estimated_completion' => $printJob->estimated_completion?->format('Y-m-d\TH:i'),
+                'estimated_cost' => $printJob->estimated_cost,
+                'specifications' => $printJob->specifications ?? [],
+                'material_requirements' => $printJob->material_requirements ?? [],
+                'design_files' => collect($printJob->design_files ?? [])->map(fn($file) => [
+                    'path' => $file['path'],
+                    'name' => $file['name'] ?? basename($file['path']),
+                    'url' => Storage::url($file['path']),
+                    'uploaded_at' => $file['uploaded_at'] ?? null,
+                ])->values(),
+                'production_notes' => $printJob->production_notes,
+                'special_instructions' => $printJob->special_instructions,
+                'customer_instructions' => $printJob->customer_instructions,
+                'invoice' => $printJob->invoice ? [
+                    'id' => $printJob->invoice->id,
+                    'invoice_number' => $printJob->invoice->invoice_number,
+                    'customer_name' => $printJob->invoice->customer?->name,
+                ] : null,
+                'branch' => $printJob->branch ? [
+                    'id' => $printJob->branch->id,
+                    'name' => $printJob->branch->name,
+                ] : null,
+            ],
             'productionStaff' => $productionStaff,
             'customers' => $customers,
             'jobTypes' => [
@@ -444,7 +483,7 @@ public function update(UpdatePrintJobRequest $request, int $id): RedirectRespons
                 return back()->withErrors(['error' => 'Print job cannot be modified at this time.']);
             }
 
-            $this->printJobRepository->update($id, $request->validated());
+            $this->printJobService->updateJob($printJob, $request->validated());
 
             return redirect()
                 ->route('production.print-jobs.show', $id)
@@ -517,15 +556,33 @@ public function createStandalone(Request $request): Response
         // Get branches
         $branches = $user->can('view all branches') 
             ? $this->branchRepository->getForDropdown($companyId)
-            : collect([['id' => $branchId, 'name' => $user->branch->branch_name]]);
+            : collect([['id' => $branchId, 'name' => $user->branch->name]]);
 
         // Get production staff
         $productionStaff = $this->getProductionStaff($branchId);
 
+        // Templates prefill the form; their stage plan is applied when the job is stored
+        $templates = $this->templateRepository->getForPicker($companyId)
+            ->map(fn($template) => [
+                'id' => $template->id,
+                'name' => $template->name,
+                'job_type' => $template->job_type,
+                'job_title' => $template->job_title,
+                'job_description' => $template->job_description,
+                'specifications' => $template->specifications ?? [],
+                'priority' => $template->priority,
+                'estimated_hours' => $template->estimated_hours,
+                'estimated_cost' => $template->estimated_cost,
+                'customer_id' => $template->customer_id,
+                'stage_count' => count($template->default_stages ?? []),
+            ]);
+
         return Inertia::render('Production/PrintJobs/CreateStandalone', [
             'customers' => $customers,
             'branches' => $branches,
             'production_staff' => $productionStaff,
+            'templates' => $templates,
+            'selected_template_id' => $request->integer('template') ?: null,
             'job_types' => [
                 'business_cards' => 'Business Cards',
                 'brochures' => 'Brochures',
@@ -560,10 +617,28 @@ public function storeStandalone(Request $request): RedirectResponse
             'design_files.*' => 'file|mimes:pdf,jpg,jpeg,png,ai,psd|max:10240',
             'customer_instructions' => 'nullable|string|max:1000',
             'estimated_cost' => 'nullable|numeric|min:0',
+            'branch_id' => 'nullable|exists:branches,id',
+            'template_id' => 'nullable|integer|exists:print_job_templates,id',
         ]);
 
+        $user = auth()->user();
+
+        $customer = $this->customerRepository->find($request->customer_id);
+        if (!$customer || $customer->company_id !== $user->company_id) {
+            return back()->withInput()->withErrors(['customer_id' => 'Customer does not belong to your company.']);
+        }
+
+        $data = $request->all();
+
+        // Users limited to their own branch cannot create jobs for another branch
+        if (!$user->can('view all branches') || empty($data['branch_id'])) {
+            $data['branch_id'] = $user->branch_id;
+        } elseif (!$this->branchRepository->getForDropdown($user->company_id)->contains('id', (int) $data['branch_id'])) {
+            return back()->withInput()->withErrors(['branch_id' => 'Branch does not belong to your company.']);
+        }
+
         try {
-            $printJob = $this->printJobService->createStandaloneJob($request->all());
+            $printJob = $this->printJobService->createStandaloneJob($data);
             
             return redirect()
                 ->route('production.print-jobs.show', $printJob->id)
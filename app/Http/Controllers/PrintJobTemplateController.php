@@ -0,0 +1,229 @@
+<?php
+// app/Http/Controllers/PrintJobTemplateController.php
+
+namespace App\Http\Controllers;
+
+use App\Models\PrintJobTemplate;
+use App\Models\ProductionStage;
+use App\Repositories\CustomerRepository;
+use App\Repositories\PrintJobRepository;
+use App\Repositories\PrintJobTemplateRepository;
+use App\Services\PrintJobTemplateService;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Illuminate\Validation\Rule;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class PrintJobTemplateController extends Controller
+{
+    use AuthorizesRequests;
+
+    private const JOB_TYPES = [
+        'business_cards' => 'Business Cards',
+        'brochures' => 'Brochures',
+        'flyers' => 'Flyers',
+        'posters' => 'Posters',
+        'banners' => 'Banners',
+        'booklets' => 'Booklets',
+        'stickers' => 'Stickers',
+        'general_printing' => 'General Printing',
+        'custom' => 'Custom Job',
+    ];
+
+    public function __construct(
+        private PrintJobTemplateRepository $templateRepository,
+        private PrintJobRepository $printJobRepository,
+        private CustomerRepository $customerRepository,
+        private PrintJobTemplateService $templateService
+    ) {}
+
+    /**
+     * Template library
+     */
+    public function index(Request $request): Response
+    {
+        $this->authorize('view print jobs');
+
+        $user = auth()->user();
+
+        $filters = [
+            'search' => $request->get('search'),
+            'job_type' => $request->get('job_type'),
+            'status' => $request->get('status'),
+        ];
+
+        $templates = $this->templateRepository->getCompanyTemplates($user->company_id, $filters)
+            ->map(fn(PrintJobTemplate $template) => [
+                'id' => $template->id,
+                'name' => $template->name,
+                'job_type' => $template->job_type,
+                'job_title' => $template->job_title,
+                'job_description' => $template->job_description,
+                'specifications' => $template->specifications ?? [],
+                'material_requirements' => $template->material_requirements ?? [],
+                'default_stages' => $template->default_stages ?? [],
+                'total_stage_minutes' => $template->total_stage_minutes,
+                'priority' => $template->priority,
+                'estimated_hours' => $template->estimated_hours,
+                'estimated_cost' => $template->estimated_cost,
+                'special_instructions' => $template->special_instructions,
+                'is_active' => $template->is_active,
+                'usage_count' => $template->usage_count,
+                'last_used_at' => $template->last_used_at?->toISOString(),
+                'customer' => $template->customer?->only(['id', 'name']),
+                'created_by' => $template->createdBy?->name,
+            ]);
+
+        return Inertia::render('Production/Templates/Index', [
+            'templates' => $templates,
+            'filters' => $filters,
+            'job_types' => self::JOB_TYPES,
+            'stage_names' => ProductionStage::getStageNameOptions(),
+            'customers' => $this->customerRepository->getForDropdown($user->company_id)
+                ->map(fn($customer) => ['id' => $customer->id, 'name' => $customer->name])
+                ->values(),
+            'permissions' => [
+                'manage' => $user->can('manage production'),
+                'create_job' => $user->can('create standalone print jobs'),
+            ],
+        ]);
+    }
+
+    /**
+     * Store a template built in the library
+     */
+    public function store(Request $request): RedirectResponse
+    {
+        $this->authorize('manage production');
+
+        $user = auth()->user();
+        $validated = $request->validate($this->rules());
+
+        if (!$this->customerBelongsToCompany($validated['customer_id'] ?? null, $user->company_id)) {
+            return back()->withErrors(['customer_id' => 'Customer does not belong to your company.']);
+        }
+
+        try {
+            $template = $this->templateService->createTemplate($validated, $user->company_id);
+
+            return back()->with('success', "Template \"{$template->name}\" created.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to create template: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Save an existing print job as a template
+     */
+    public function storeFromJob(Request $request, int $printJobId): RedirectResponse
+    {
+        $this->authorize('manage production');
+
+        $validated = $request->validate([
+            'name' => 'required|string|max:150',
+            'keep_customer' => 'boolean',
+        ]);
+
+        $user = auth()->user();
+        $printJob = $this->printJobRepository->findOrFail($printJobId);
+
+        if ($printJob->company_id !== $user->company_id
+            || (!$user->can('view all branches') && $user->branch_id !== $printJob->branch_id)) {
+            abort(403, 'You cannot save print jobs from other branches as templates.');
+        }
+
+        try {
+            $template = $this->templateService->createFromPrintJob($printJob, $validated);
+
+            return back()->with('success', "Saved as template \"{$template->name}\".");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to save template: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Update a template
+     */
+    public function update(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('manage production');
+
+        $user = auth()->user();
+        $template = $this->findForUser($id);
+        $validated = $request->validate($this->rules());
+
+        if (!$this->customerBelongsToCompany($validated['customer_id'] ?? null, $user->company_id)) {
+            return back()->withErrors(['customer_id' => 'Customer does not belong to your company.']);
+        }
+
+        try {
+            $this->templateService->updateTemplate($template, $validated);
+
+            return back()->with('success', 'Template updated.');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to update template: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Delete a template
+     */
+    public function destroy(int $id): RedirectResponse
+    {
+        $this->authorize('manage production');
+
+        $template = $this->findForUser($id);
+
+        try {
+            $this->templateService->deleteTemplate($template);
+
+            return back()->with('success', 'Template deleted.');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to delete template: ' . $e->getMessage()]);
+        }
+    }
+
+    private function findForUser(int $id): PrintJobTemplate
+    {
+        $template = $this->templateRepository->findForCompany($id, auth()->user()->company_id);
+
+        if (!$template) {
+            abort(404, 'Template not found.');
+        }
+
+        return $template;
+    }
+
+    private function customerBelongsToCompany(?int $customerId, int $companyId): bool
+    {
+        if (!$customerId) {
+            return true;
+        }
+
+        return $this->customerRepository->find($customerId)?->company_id === $companyId;
+    }
+
+    private function rules(): array
+    {
+        return [
+            'name' => 'required|string|max:150',
+            'customer_id' => 'nullable|integer|exists:customers,id',
+            'job_type' => 'required|string|max:100',
+            'job_title' => 'nullable|string|max:200',
+            'job_description' => 'nullable|string|max:1000',
+            'specifications' => 'nullable|array',
+            'material_requirements' => 'nullable|array',
+            'default_stages' => 'nullable|array|max:30',
+            'default_stages.*.name' => ['required', Rule::in(array_keys(ProductionStage::getStageNameOptions()))],
+            'default_stages.*.estimated_duration' => 'required|integer|min:0|max:10080',
+            'default_stages.*.requires_approval' => 'boolean',
+            'priority' => 'required|in:low,normal,medium,high,urgent',
+            'estimated_hours' => 'nullable|integer|min:1|max:2160',
+            'estimated_cost' => 'nullable|numeric|min:0',
+            'special_instructions' => 'nullable|string|max:1000',
+            'is_active' => 'boolean',
+        ];
+    }
+}
@@ -53,6 +53,18 @@ public function index(Request $request): Response
                 'to' => $categories->lastItem(),
             ],
             'hierarchicalCategories' => $hierarchicalCategories,
+            'categoryTree' => $this->categoryRepository->getTreeForCompany($companyId)
+                ->map(fn($category) => [
+                    'id' => $category->id,
+                    'name' => $category->name,
+                    'code' => $category->code,
+                    'parent_id' => $category->parent_id,
+                    'status' => $category->status,
+                    'sort_order' => $category->sort_order,
+                    'products_count' => $category->products_count,
+                    'image_url' => $category->image_url,
+                ])
+                ->values(),
             'filters' => $filters,
             'stats' => $stats,
             'filterOptions' => [
@@ -311,7 +323,12 @@ public function updateSortOrder(Request $request): JsonResponse
         try {
             $this->authorize('edit product categories');
 
-            $categoryIds = $request->get('category_ids', []);
+            $categoryIds = $this->categoryRepository->getTreeForCompany(auth()->user()->company_id)
+                ->pluck('id')
+                ->intersect($request->get('category_ids', []))
+                ->sortBy(fn($id) => array_search($id, $request->get('category_ids', [])))
+                ->values()
+                ->all();
             $this->categoryRepository->updateSortOrder($categoryIds);
 
             return response()->json([
@@ -323,4 +340,61 @@ public function updateSortOrder(Request $request): JsonResponse
             return response()->json(['error' => 'Sort order update failed'], 500);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Move a category to a new parent and position in the tree
+     */
+    public function move(Request $request, int $id): JsonResponse
+    {
+        try {
+            $category = $this->categoryRepository->findOrFail($id);
+            $this->authorize('edit product categories');
+
+            $user = auth()->user();
+            if ($category->company_id !== $user->company_id) {
+                return response()->json(['error' => 'Unauthorized'], 403);
+            }
+
+            $validated = $request->validate([
+                'parent_id' => 'nullable|integer',
+                'sibling_ids' => 'array',
+                'sibling_ids.*' => 'integer',
+            ]);
+
+            $parentId = $validated['parent_id'] ?? null;
+
+            if ($parentId !== null) {
+                $parent = $this->categoryRepository->find($parentId);
+
+                if (!$parent || $parent->company_id !== $user->company_id) {
+                    return response()->json(['error' => 'Parent category not found'], 422);
+                }
+
+                if ($parentId === $category->id || in_array($parentId, $this->categoryRepository->getDescendantIds($category->id))) {
+                    return response()->json(['error' => 'A category cannot be moved inside itself or its subcategories'], 422);
+                }
+            }
+
+            // Only renumber categories that actually share the new parent
+            $siblingIds = $this->categoryRepository->getTreeForCompany($user->company_id)
+                ->filter(fn($sibling) => $sibling->parent_id == $parentId || $sibling->id === $category->id)
+                ->pluck('id')
+                ->intersect($validated['sibling_ids'] ?? [])
+                ->sortBy(fn($siblingId) => array_search($siblingId, $validated['sibling_ids'] ?? []))
+                ->values()
+                ->all();
+
+            $this->categoryRepository->moveCategory($category->id, $parentId, $siblingIds);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Category moved successfully.'
+            ]);
+
+        } catch (\Illuminate\Validation\ValidationException $e) {
+            return response()->json(['error' => $e->getMessage()], 422);
+        } catch (\Exception $e) {
+            return response()->json(['error' => 'Category move failed'], 500);
+        }
+    }
+}
@@ -5,9 +5,13 @@
 
 use App\Http\Requests\CreateProductRequest;
 use App\Http\Requests\UpdateProductRequest;
+use App\Repositories\CustomerRepository;
+use App\Repositories\PriceListRepository;
 use App\Repositories\ProductRepository;
 use App\Repositories\ProductCategoryRepository;
 use App\Repositories\WeightPricingTierRepository;
+use App\Services\ProductCatalogService;
+use App\Services\ProductPricingService;
 use Illuminate\Http\Request;
 use Illuminate\Http\RedirectResponse;
 use Illuminate\Http\JsonResponse;
@@ -23,7 +27,11 @@ class ProductController extends Controller
     public function __construct(
         private ProductRepository $productRepository,
         private ProductCategoryRepository $categoryRepository,
-        private WeightPricingTierRepository $pricingTierRepository
+        private WeightPricingTierRepository $pricingTierRepository,
+        private ProductCatalogService $catalogService,
+        private ProductPricingService $pricingService,
+        private PriceListRepository $priceListRepository,
+        private CustomerRepository $customerRepository
     ) {}
 
     /**
@@ -186,6 +194,18 @@ public function show(int $id): Response
                     'hierarchy' => $product->category_hierarchy,
                 ],
             ],
+            'priceBreaks' => $product->pricing_tiers ?? [],
+            'priceLists' => $this->priceListRepository->getCurrentItemsForProduct($product->id, $user->company_id)
+                ->map(fn($priceList) => [
+                    'id' => $priceList->id,
+                    'name' => $priceList->name,
+                    'customer_type' => $priceList->customer_type,
+                    'customers_count' => $priceList->customers_count,
+                    'items' => $priceList->items->map(fn($item) => [
+                        'min_quantity' => $item->min_quantity,
+                        'unit_price' => (float) $item->unit_price,
+                    ]),
+                ]),
             'permissions' => [
                 'canEdit' => $user->can('edit products'),
                 'canDelete' => $user->can('delete products'),
@@ -275,6 +295,85 @@ public function update(UpdateProductRequest $request, int $id): RedirectResponse
             ->withErrors(['error' => 'Product update failed.']);
     }
 }
+    /**
+     * Replace the product's quantity price breaks
+     */
+    public function updatePriceBreaks(Request $request, int $id): JsonResponse
+    {
+        $this->authorize('edit products');
+
+        $product = $this->productRepository->findOrFail($id);
+
+        if ($product->company_id !== auth()->user()->company_id) {
+            abort(403, 'You cannot edit this product.');
+        }
+
+        $validated = $request->validate([
+            'price_breaks' => 'present|array|max:10',
+            'price_breaks.*.min_quantity' => 'required|integer|min:2|max:999999|distinct',
+            'price_breaks.*.unit_price' => 'required|numeric|min:0.01|max:9999999.99',
+        ], [
+            'price_breaks.*.min_quantity.min' => 'Breaks start from 2 units; a single unit is charged the base price.',
+            'price_breaks.*.min_quantity.distinct' => 'Each break needs a different starting quantity.',
+        ]);
+
+        $tiers = $this->pricingService->normalizePriceBreaks($validated['price_breaks']);
+        $product->update(['pricing_tiers' => $tiers]);
+
+        return response()->json([
+            'success' => true,
+            'message' => 'Quantity price breaks saved.',
+            'price_breaks' => $tiers ?? [],
+        ]);
+    }
+
+    /**
+     * Download the products matching the index filters as CSV
+     */
+    public function export(Request $request): \Symfony\Component\HttpFoundation\BinaryFileResponse
+    {
+        $this->authorize('view products');
+
+        $filters = $request->only(['search', 'category_id', 'status', 'min_price', 'max_price', 'requires_customization']);
+        $filePath = $this->catalogService->exportProductsToCsv(auth()->user()->company_id, $filters);
+
+        return response()->download($filePath)->deleteFileAfterSend(true);
+    }
+
+    /**
+     * Create or update products from a CSV file; dry_run returns the changes without saving
+     */
+    public function import(Request $request): JsonResponse
+    {
+        $this->authorize('create products');
+        $this->authorize('edit products');
+
+        $request->validate([
+            'file' => 'required|file|mimes:csv,txt|max:5120',
+            'dry_run' => 'boolean',
+        ]);
+
+        $user = auth()->user();
+
+        try {
+            $result = $this->catalogService->importProductsFromCsv(
+                $request->file('file')->getRealPath(),
+                $user->company_id,
+                $request->boolean('dry_run')
+            );
+
+            return response()->json(['success' => true] + $result);
+
+        } catch (\Exception $e) {
+            \Log::error('Product import failed', [
+                'user_id' => $user->id,
+                'error' => $e->getMessage(),
+            ]);
+
+            return response()->json(['error' => 'Product import failed: ' . $e->getMessage()], 500);
+        }
+    }
+
     /**
      * Calculate product pricing
      */
@@ -291,7 +390,14 @@ public function calculatePricing(Request $request): JsonResponse
                 return response()->json(['error' => 'Unauthorized'], 403);
             }
 
-            $calculation = $product->calculatePrice($quantity);
+            $customer = $request->filled('customer_id') ? $this->customerRepository->find((int) $request->get('customer_id')) : null;
+
+            if ($customer && $customer->company_id !== $user->company_id) {
+                return response()->json(['error' => 'Unauthorized'], 403);
+            }
+
+            $pricing = $this->pricingService->resolveUnitPrice($product, $quantity, $customer);
+            $calculation = $product->calculatePrice($quantity, $pricing['unit_price']);
             
             // Calculate delivery charge
             $deliveryCalculation = $this->pricingTierRepository->calculateDeliveryPrice(
@@ -302,6 +408,8 @@ public function calculatePricing(Request $request): JsonResponse
             return response()->json([
                 'success' => true,
                 'calculation' => [
+                    'unit_price' => $calculation['unit_price'],
+                    'pricing_rule' => $pricing['rule'],
                     'base_price' => $calculation['base_price'],
                     'total_weight' => $calculation['total_weight'],
                     'tax_amount' => $calculation['tax_amount'],
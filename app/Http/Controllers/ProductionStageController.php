@@ -4,6 +4,8 @@
 namespace App\Http\Controllers;
 
 use App\Http\Requests\UpdateProductionStageRequest;
+use App\Models\ProductionStage;
+use App\Repositories\PrintJobRepository;
 use App\Repositories\ProductionStageRepository;
 use App\Services\ProductionStageService;
 use Illuminate\Http\Request;
@@ -19,7 +21,8 @@ class ProductionStageController extends Controller
 
     public function __construct(
         private ProductionStageRepository $stageRepository,
-        private ProductionStageService $stageService
+        private ProductionStageService $stageService,
+        private PrintJobRepository $printJobRepository
     ) {}
 
     /**
@@ -31,21 +34,62 @@ public function approvals(Request $request): Response
 
         $user = auth()->user();
         $companyId = $user->company_id;
+        $branchId = $user->can('view all branches') ? null : $user->branch_id;
 
         $approvals = $this->stageService->getPendingApprovals($companyId);
-        $stats = $this->stageRepository->getStageStats($companyId, $user->branch_id);
+        $changesRequested = $this->stageRepository->getChangesRequested($companyId);
+        $stats = $this->stageRepository->getStageStats($companyId, $branchId);
+
+        $rows = fn($stages, bool $withLink) => $stages
+            ->filter(fn($stage) => !$branchId || $stage->printJob->branch_id == $branchId)
+            ->map(fn($stage) => $this->approvalRow($stage, $withLink))
+            ->values();
 
         return Inertia::render('Production/Approvals/Index', [
-            'customer_approvals' => $approvals['customer_approvals'],
-            'internal_approvals' => $approvals['internal_approvals'],
+            'customer_approvals' => $rows($approvals['customer_approvals'], true),
+            'internal_approvals' => $rows($approvals['internal_approvals'], false),
+            'changes_requested' => $rows($changesRequested, false),
             'stats' => $stats,
+            'link_valid_days' => ProductionStageService::CUSTOMER_LINK_DAYS,
             'can' => [
                 'approve_stages' => $user->can('approve production stages'),
                 'reject_stages' => $user->can('reject production stages'),
+                'upload_proofs' => $user->can('update production status'),
             ]
         ]);
     }
 
+    /**
+     * Upload proof files for a stage's customer approval
+     */
+    public function uploadProofs(Request $request, int $id): RedirectResponse
+    {
+        $stage = $this->stageRepository->find($id);
+
+        if (!$stage || $stage->printJob->company_id != auth()->user()->company_id) {
+            return back()->withErrors(['error' => 'Production stage not found']);
+        }
+
+        $this->authorize('update production status', $stage);
+
+        $request->validate([
+            'proofs' => 'required|array|min:1|max:10',
+            'proofs.*' => 'file|mimes:jpg,jpeg,png,pdf|max:10240',
+        ], [
+            'proofs.required' => 'Choose at least one proof file',
+            'proofs.*.mimes' => 'Proofs must be: jpg, jpeg, png, pdf',
+            'proofs.*.max' => 'Each proof must be less than 10MB',
+        ]);
+
+        try {
+            $this->stageService->addProofs($stage, $request->file('proofs'), auth()->id());
+
+            return back()->with('success', 'Proofs uploaded successfully');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
     /**
      * Update production stage status
      */
@@ -80,7 +124,7 @@ public function update(UpdateProductionStageRequest $request, int $id): JsonResp
 /**
  * Start production stage
  */
-public function start(Request $request, int $id): RedirectResponse
+public function start(Request $request, int $id): RedirectResponse|JsonResponse
 {
     $stage = $this->stageRepository->find($id);
     
@@ -98,10 +142,10 @@ public function start(Request $request, int $id): RedirectResponse
         $success = $this->stageService->startStage($stage, auth()->id(), $request->notes);
 
         if ($success) {
-            return back()->with('success', 'Production stage started successfully');
+            return $this->stageActionSuccess($request, $stage, 'Production stage started successfully');
         }
 
-        return back()->withErrors(['error' => 'Cannot start this stage']);
+        return $this->stageActionFailure($request, 'Cannot start this stage');
         
     } catch (\Exception $e) {
         \Log::error('Stage start failed', [
@@ -109,14 +153,14 @@ public function start(Request $request, int $id): RedirectResponse
             'error' => $e->getMessage()
         ]);
         
-        return back()->withErrors(['error' => $e->getMessage()]);
+        return $this->stageActionFailure($request, $e->getMessage());
     }
 }
 
 /**
  * Complete production stage
  */
-public function complete(Request $request, int $id): RedirectResponse
+public function complete(Request $request, int $id): RedirectResponse|JsonResponse
 {
     $stage = $this->stageRepository->find($id);
     
@@ -140,10 +184,10 @@ public function complete(Request $request, int $id): RedirectResponse
         );
 
         if ($success) {
-            return back()->with('success', 'Production stage completed successfully');
+            return $this->stageActionSuccess($request, $stage, 'Production stage completed successfully');
         }
 
-        return back()->withErrors(['error' => 'Cannot complete this stage']);
+        return $this->stageActionFailure($request, 'Cannot complete this stage');
         
     } catch (\Exception $e) {
         \Log::error('Stage completion failed', [
@@ -151,14 +195,14 @@ public function complete(Request $request, int $id): RedirectResponse
             'error' => $e->getMessage()
         ]);
         
-        return back()->withErrors(['error' => $e->getMessage()]);
+        return $this->stageActionFailure($request, $e->getMessage());
     }
 }
 
 /**
  * Put stage on hold
  */
-public function hold(Request $request, int $id): RedirectResponse
+public function hold(Request $request, int $id): RedirectResponse|JsonResponse
 {
     $stage = $this->stageRepository->find($id);
     
@@ -176,20 +220,20 @@ public function hold(Request $request, int $id): RedirectResponse
         $success = $this->stageService->holdStage($stage, auth()->id(), $request->reason);
 
         if ($success) {
-            return back()->with('success', 'Production stage put on hold');
+            return $this->stageActionSuccess($request, $stage, 'Production stage put on hold');
         }
 
-        return back()->withErrors(['error' => 'Cannot put this stage on hold']);
+        return $this->stageActionFailure($request, 'Cannot put this stage on hold');
         
     } catch (\Exception $e) {
-        return back()->withErrors(['error' => $e->getMessage()]);
+        return $this->stageActionFailure($request, $e->getMessage());
     }
 }
 
 /**
  * Resume stage from hold
  */
-public function resume(Request $request, int $id): RedirectResponse
+public function resume(Request $request, int $id): RedirectResponse|JsonResponse
 {
     $stage = $this->stageRepository->find($id);
     
@@ -207,13 +251,13 @@ public function resume(Request $request, int $id): RedirectResponse
         $success = $this->stageService->resumeStage($stage, auth()->id(), $request->notes);
 
         if ($success) {
-            return back()->with('success', 'Production stage resumed');
+            return $this->stageActionSuccess($request, $stage, 'Production stage resumed');
         }
 
-        return back()->withErrors(['error' => 'Cannot resume this stage']);
+        return $this->stageActionFailure($request, 'Cannot resume this stage');
         
     } catch (\Exception $e) {
-        return back()->withErrors(['error' => $e->getMessage()]);
+        return $this->stageActionFailure($request, $e->getMessage());
     }
 }
 
@@ -403,15 +447,69 @@ public function analytics(Request $request): JsonResponse
     }
 
     /**
-     * Get stages by status for Kanban view
+     * Production kanban board: one column per stage, one card per print job
      */
-    public function kanban(Request $request): JsonResponse
+    public function kanban(Request $request): Response|JsonResponse
     {
         $this->authorize('view production queue');
 
         $user = auth()->user();
-        $branchId = $user->branch_id;
+        $branchId = $user->can('view all branches') ? ($request->integer('branch_id') ?: null) : $user->branch_id;
+
+        if ($request->wantsJson()) {
+            return $this->kanbanByStatus($branchId ?? $user->branch_id);
+        }
+
+        $jobs = $this->printJobRepository->getKanbanJobs($user->company_id, $branchId);
+
+        $columns = $jobs->flatMap(fn($job) => $job->productionStages)
+            ->groupBy('stage_name')
+            ->map(fn($stages, $stageName) => [
+                'stage_name' => $stageName,
+                'label' => $stages->first()->stage_name_label,
+                'order' => $stages->min('stage_order'),
+            ])
+            ->sortBy('order')
+            ->values();
+
+        return Inertia::render('Production/Stages/Kanban', [
+            'columns' => $columns,
+            'jobs' => $jobs->map(fn($job) => [
+                'id' => $job->id,
+                'job_number' => $job->job_number,
+                'job_title' => $job->job_title,
+                'job_type' => $job->job_type_label,
+                'customer' => $job->customer?->name ?? $job->invoice?->customer?->name,
+                'priority' => $job->priority,
+                'priority_label' => $job->priority_label,
+                'production_status' => $job->production_status,
+                'assigned_to' => $job->assignedTo?->name,
+                'estimated_completion' => $job->estimated_completion?->toISOString(),
+                'is_overdue' => $job->is_overdue,
+                'stages' => $job->productionStages->map(fn($stage) => [
+                    'id' => $stage->id,
+                    'stage_name' => $stage->stage_name,
+                    'stage_status' => $stage->stage_status,
+                    'stage_order' => $stage->stage_order,
+                    'requires_customer_approval' => (bool) $stage->requires_customer_approval,
+                    'started_at' => $stage->started_at?->toISOString(),
+                ])->values(),
+            ])->values(),
+            'filters' => ['branch_id' => $branchId],
+            'branches' => $user->can('view all branches')
+                ? $user->company->branches()->select('id', 'name')->orderBy('name')->get()
+                : [],
+            'can' => [
+                'update_status' => $user->can('update production status'),
+            ],
+        ]);
+    }
 
+    /**
+     * Stages grouped by status, kept for JSON consumers of the kanban route
+     */
+    private function kanbanByStatus(int $branchId): JsonResponse
+    {
         $statuses = ['pending', 'in_progress', 'requires_approval', 'on_hold', 'completed'];
         $kanbanData = [];
 
@@ -424,7 +522,7 @@ public function kanban(Request $request): JsonResponse
                     'print_job' => [
                         'id' => $stage->printJob->id,
                         'job_number' => $stage->printJob->job_number,
-                        'customer' => $stage->printJob->invoice->customer->name,
+                        'customer' => $stage->printJob->customer?->name ?? $stage->printJob->invoice?->customer?->name,
                         'priority' => $stage->printJob->priority,
                     ],
                     'started_at' => $stage->started_at?->format('Y-m-d H:i:s'),
@@ -437,4 +535,65 @@ public function kanban(Request $request): JsonResponse
 
         return response()->json(['kanban' => $kanbanData]);
     }
-}
\ No newline at end of file
+
+    /**
+     * Row for the approvals queue
+     */
+    private function approvalRow(ProductionStage $stage, bool $withLink): array
+    {
+        $printJob = $stage->printJob;
+        $customer = $printJob->customer ?? $printJob->invoice?->customer;
+
+        return [
+            'id' => $stage->id,
+            'stage_name' => $stage->stage_name_label,
+            'stage_status' => $stage->stage_status,
+            'requires_customer_approval' => $stage->requires_customer_approval,
+            'waiting_since' => $stage->updated_at?->toISOString(),
+            'rejection_reason' => $stage->rejection_reason,
+            'customer_response' => $stage->stage_data['customer_response'] ?? null,
+            'attachments' => $stage->attachment_urls,
+            'customer_link' => $withLink ? $this->stageService->customerApprovalUrl($stage) : null,
+            'print_job' => [
+                'id' => $printJob->id,
+                'job_number' => $printJob->job_number,
+                'job_title' => $printJob->job_title,
+                'priority' => $printJob->priority,
+                'branch' => $printJob->branch?->name,
+            ],
+            'customer' => $customer ? [
+                'name' => $customer->name,
+                'email' => $customer->email,
+                'phone' => $customer->phone,
+            ] : null,
+        ];
+    }
+
+    /**
+     * Respond to a successful stage action, as JSON for the kanban board or as a redirect
+     */
+    private function stageActionSuccess(Request $request, ProductionStage $stage, string $message): RedirectResponse|JsonResponse
+    {
+        if ($request->expectsJson()) {
+            return response()->json([
+                'success' => true,
+                'message' => $message,
+                'stage' => $stage->fresh(),
+            ]);
+        }
+
+        return back()->with('success', $message);
+    }
+
+    /**
+     * Respond to a rejected stage action so the board can roll back its optimistic move
+     */
+    private function stageActionFailure(Request $request, string $error): RedirectResponse|JsonResponse
+    {
+        if ($request->expectsJson()) {
+            return response()->json(['error' => $error], 422);
+        }
+
+        return back()->withErrors(['error' => $error]);
+    }
+}
@@ -0,0 +1,382 @@
+<?php
+// app/Http/Controllers/QuotationController.php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\CreateQuotationRequest;
+use App\Http\Requests\UpdateQuotationRequest;
+use App\Models\Quotation;
+use App\Models\QuotationItem;
+use App\Repositories\BranchRepository;
+use App\Repositories\QuotationRepository;
+use App\Services\InvoiceService;
+use App\Services\QuotationService;
+use Barryvdh\DomPDF\Facade\Pdf;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class QuotationController extends Controller
+{
+    use AuthorizesRequests;
+
+    private const STATUSES = [
+        'draft' => 'Draft',
+        'sent' => 'Sent',
+        'accepted' => 'Accepted',
+        'declined' => 'Declined',
+        'expired' => 'Expired',
+        'converted' => 'Converted',
+    ];
+
+    // Days a new quotation stays valid unless another date is chosen
+    private const DEFAULT_VALIDITY_DAYS = 14;
+
+    public function __construct(
+        private QuotationRepository $quotationRepository,
+        private BranchRepository $branchRepository,
+        private QuotationService $quotationService,
+        private InvoiceService $invoiceService
+    ) {}
+
+    /**
+     * Display a listing of quotations
+     */
+    public function index(Request $request): Response
+    {
+        $this->authorize('view quotations');
+
+        $user = auth()->user();
+
+        $filters = [
+            'search' => $request->get('search'),
+            'status' => $request->get('status'),
+            'branch_id' => $request->get('branch_id'),
+            'date_from' => $request->get('date_from'),
+            'date_to' => $request->get('date_to'),
+        ];
+
+        if (!$user->can('view all branches')) {
+            $filters['branch_id'] = $user->branch_id;
+        }
+
+        $quotations = $this->quotationRepository
+            ->searchAndPaginate($user->company_id, $filters, 15)
+            ->through(fn (Quotation $quotation) => [
+                'id' => $quotation->id,
+                'quotation_number' => $quotation->quotation_number,
+                'quotation_date' => $quotation->quotation_date?->toDateString(),
+                'valid_until' => $quotation->valid_until?->toDateString(),
+                'status' => $quotation->effective_status,
+                'status_label' => $quotation->status_label,
+                'total_amount' => (float) $quotation->total_amount,
+                'items_count' => $quotation->items_count,
+                'customer' => $quotation->customer?->only(['id', 'name', 'phone']),
+                'branch' => $quotation->branch?->only(['id', 'name']),
+                'invoice' => $quotation->invoice?->only(['id', 'invoice_number']),
+            ]);
+
+        return Inertia::render('Quotations/Index', [
+            'quotations' => [
+                'data' => $quotations->items(),
+                'current_page' => $quotations->currentPage(),
+                'last_page' => $quotations->lastPage(),
+                'per_page' => $quotations->perPage(),
+                'total' => $quotations->total(),
+                'from' => $quotations->firstItem(),
+                'to' => $quotations->lastItem(),
+            ],
+            'filters' => $filters,
+            'stats' => $this->quotationRepository->getStats(
+                $user->company_id,
+                $filters['branch_id'] ? (int) $filters['branch_id'] : null
+            ),
+            'branches' => $user->can('view all branches') ? $this->branchRepository->getForDropdown($user->company_id) : [],
+            'statuses' => self::STATUSES,
+            'permissions' => [
+                'create' => $user->can('create quotations'),
+                'view_all_branches' => $user->can('view all branches'),
+            ],
+        ]);
+    }
+
+    /**
+     * Show the form for creating a quotation
+     */
+    public function create(Request $request): Response
+    {
+        $this->authorize('create quotations');
+
+        $user = auth()->user();
+
+        return Inertia::render('Quotations/Create', [
+            ...$this->invoiceService->getFormOptions($user->company_id),
+            'default_branch_id' => $request->integer('branch_id') ?: $user->branch_id,
+            'default_customer_id' => $request->integer('customer_id') ?: null,
+            'default_valid_until' => now()->addDays(self::DEFAULT_VALIDITY_DAYS)->toDateString(),
+        ]);
+    }
+
+    /**
+     * Store a new quotation
+     */
+    public function store(CreateQuotationRequest $request): RedirectResponse
+    {
+        $user = auth()->user();
+
+        if (!$user->can('view all branches') && (int) $request->branch_id !== $user->branch_id) {
+            return back()->withInput()->withErrors(['branch_id' => 'You can only quote from your own branch.']);
+        }
+
+        try {
+            $quotation = $this->quotationService->createQuotation($request->validated(), $user->company_id, $user->id);
+
+            return redirect()
+                ->route('quotations.show', $quotation->id)
+                ->with('success', "Quotation {$quotation->quotation_number} created successfully. / මිල ගණන් පත්‍රය සාර්ථකව සාදන ලදී.");
+        } catch (\Exception $e) {
+            return back()
+                ->withInput()
+                ->withErrors(['error' => 'Failed to create quotation: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Display a quotation
+     */
+    public function show(int $id): Response
+    {
+        $quotation = $this->findForUser($id);
+        $user = auth()->user();
+
+        return Inertia::render('Quotations/Show', [
+            'quotation' => [
+                ...$this->quotationPayload($quotation),
+                'status_label' => $quotation->status_label,
+                'sent_at' => $quotation->sent_at?->toISOString(),
+                'accepted_at' => $quotation->accepted_at?->toISOString(),
+                'declined_at' => $quotation->declined_at?->toISOString(),
+                'decline_reason' => $quotation->decline_reason,
+                'converted_at' => $quotation->converted_at?->toISOString(),
+                'created_at' => $quotation->created_at?->toISOString(),
+                'created_by' => $quotation->creator?->name,
+                'customer' => $quotation->customer?->only(['id', 'name', 'customer_code', 'phone', 'email', 'billing_address', 'city']),
+                'branch' => $quotation->branch?->only(['id', 'name', 'code']),
+                'invoice' => $quotation->invoice?->only(['id', 'invoice_number', 'status', 'payment_status']),
+            ],
+            'permissions' => [
+                'edit' => $user->can('edit quotations') && $quotation->canBeModified(),
+                'delete' => $user->can('delete quotations') && $quotation->canBeDeleted(),
+                'send' => $user->can('edit quotations') && $quotation->canBeModified(),
+                'accept' => $user->can('edit quotations') && $quotation->canBeAccepted(),
+                'decline' => $user->can('edit quotations') && $quotation->canBeDeclined(),
+                'reopen' => $user->can('edit quotations') && in_array($quotation->effective_status, ['declined', 'expired']),
+                'convert' => $user->can('convert quotations') && $user->can('create invoices') && $quotation->canBeConverted(),
+            ],
+        ]);
+    }
+
+    /**
+     * Show the form for editing a quotation
+     */
+    public function edit(int $id): Response|RedirectResponse
+    {
+        $this->authorize('edit quotations');
+
+        $quotation = $this->findForUser($id);
+
+        if (!$quotation->canBeModified()) {
+            return redirect()->route('quotations.show', $id)
+                ->withErrors(['error' => "A {$quotation->status_label} quotation cannot be edited. / මෙම මිල ගණන් පත්‍රය වෙනස් කළ නොහැක."]);
+        }
+
+        return Inertia::render('Quotations/Edit', [
+            ...$this->invoiceService->getFormOptions($quotation->company_id),
+            'quotation' => $this->quotationPayload($quotation),
+        ]);
+    }
+
+    /**
+     * Update an open quotation
+     */
+    public function update(UpdateQuotationRequest $request, int $id): RedirectResponse
+    {
+        $quotation = $this->findForUser($id);
+
+        try {
+            $this->quotationService->updateQuotation($quotation, $request->validated());
+
+            return redirect()
+                ->route('quotations.show', $quotation->id)
+                ->with('success', 'Quotation updated successfully. / මිල ගණන් පත්‍රය සාර්ථකව යාවත්කාලීන කරන ලදී.');
+        } catch (\Exception $e) {
+            return back()
+                ->withInput()
+                ->withErrors(['error' => 'Failed to update quotation: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Delete a quotation that has not been converted
+     */
+    public function destroy(int $id): RedirectResponse
+    {
+        $this->authorize('delete quotations');
+
+        $quotation = $this->findForUser($id);
+
+        try {
+            $this->quotationService->deleteQuotation($quotation);
+
+            return redirect()
+                ->route('quotations.index')
+                ->with('success', "Quotation {$quotation->quotation_number} deleted.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to delete quotation: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Mark a quotation sent, accepted or declined, or re-open a declined or expired one
+     */
+    public function updateStatus(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('edit quotations');
+
+        $quotation = $this->findForUser($id);
+
+        $validated = $request->validate([
+            'action' => 'required|in:send,accept,decline,reopen',
+            'decline_reason' => 'nullable|string|max:500',
+            'valid_until' => 'required_if:action,reopen|nullable|date|after_or_equal:today',
+        ], [
+            'valid_until.required_if' => 'Choose a new validity date. / නව වලංගු දිනයක් තෝරන්න.',
+        ]);
+
+        try {
+            match ($validated['action']) {
+                'send' => $this->quotationService->markAsSent($quotation),
+                'accept' => $this->quotationService->accept($quotation),
+                'decline' => $this->quotationService->decline($quotation, $validated['decline_reason'] ?? null),
+                'reopen' => $this->quotationService->reopen($quotation, $validated['valid_until']),
+            };
+
+            return back()->with('success', "Quotation {$quotation->quotation_number} is now " . strtolower($quotation->status_label) . '.');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Turn the quotation into an invoice at the quoted prices
+     */
+    public function convertToInvoice(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('convert quotations');
+        $this->authorize('create invoices');
+
+        $quotation = $this->findForUser($id);
+
+        $validated = $request->validate([
+            'due_date' => 'nullable|date|after_or_equal:today',
+        ]);
+
+        try {
+            $invoice = $this->quotationService->convertToInvoice($quotation, auth()->id(), $validated);
+
+            return redirect()
+                ->route('invoices.show', $invoice->id)
+                ->with('success', "Invoice {$invoice->invoice_number} created from quotation {$quotation->quotation_number}. / මිල ගණන් පත්‍රයෙන් ප්‍රතිදානය සාදන ලදී.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to convert quotation: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Quotation PDF for sending to the customer
+     */
+    public function pdf(int $id): \Symfony\Component\HttpFoundation\Response
+    {
+        $quotation = $this->findForUser($id);
+
+        try {
+            return Pdf::loadView('pdf.quotation', [
+                'quotation' => $quotation,
+                'company' => $quotation->company,
+            ])
+                ->setPaper('a4')
+                ->stream($quotation->quotation_number . '.pdf');
+        } catch (\Exception $e) {
+            \Log::error('Quotation PDF generation failed', [
+                'quotation_id' => $id,
+                'user_id' => auth()->id(),
+                'error' => $e->getMessage(),
+            ]);
+
+            return back()->withErrors([
+                'error' => 'PDF generation failed. Please try again. / PDF නිර්මාණය අසාර්ථක විය.'
+            ]);
+        }
+    }
+
+    private function findForUser(int $id): Quotation
+    {
+        $quotation = $this->quotationRepository->findWithDetails($id);
+
+        if (!$quotation) {
+            abort(404, 'Quotation not found.');
+        }
+
+        $user = auth()->user();
+
+        if ($quotation->company_id !== $user->company_id) {
+            abort(403, 'You cannot access quotations from other companies.');
+        }
+
+        if (!$user->can('view all branches') && $quotation->branch_id !== $user->branch_id) {
+            abort(403, 'You cannot access quotations from other branches.');
+        }
+
+        return $quotation;
+    }
+
+    /**
+     * Fields shared by the detail page and the edit form
+     */
+    private function quotationPayload(Quotation $quotation): array
+    {
+        return [
+            'id' => $quotation->id,
+            'quotation_number' => $quotation->quotation_number,
+            'customer_id' => $quotation->customer_id,
+            'branch_id' => $quotation->branch_id,
+            'quotation_date' => $quotation->quotation_date?->toDateString(),
+            'valid_until' => $quotation->valid_until?->toDateString(),
+            'status' => $quotation->effective_status,
+            'subtotal' => (float) $quotation->subtotal,
+            'weight_charge' => (float) $quotation->weight_charge,
+            'tax_amount' => (float) $quotation->tax_amount,
+            'discount_amount' => (float) $quotation->discount_amount,
+            'total_amount' => (float) $quotation->total_amount,
+            'total_weight' => (float) $quotation->total_weight,
+            'notes' => $quotation->notes,
+            'terms_conditions' => $quotation->terms_conditions,
+            'items' => $quotation->items->map(fn (QuotationItem $item) => [
+                'id' => $item->id,
+                'product_id' => $item->product_id,
+                'product_name' => $item->product?->name,
+                'unit_type' => $item->product?->unit_type,
+                'item_description' => $item->item_description,
+                'quantity' => (float) $item->quantity,
+                'unit_price' => (float) $item->unit_price,
+                'unit_weight' => (float) $item->unit_weight,
+                'line_total' => (float) $item->line_total,
+                'line_weight' => (float) $item->line_weight,
+                'tax_amount' => (float) $item->tax_amount,
+                'specifications' => $item->specifications,
+            ])->values(),
+        ];
+    }
+}
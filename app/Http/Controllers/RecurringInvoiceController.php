@@ -0,0 +1,385 @@
+<?php
+// app/Http/Controllers/RecurringInvoiceController.php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\CreateRecurringInvoiceProfileRequest;
+use App\Http\Requests\UpdateRecurringInvoiceProfileRequest;
+use App\Models\Invoice;
+use App\Models\RecurringInvoiceProfile;
+use App\Models\RecurringInvoiceProfileItem;
+use App\Repositories\BranchRepository;
+use App\Repositories\RecurringInvoiceProfileRepository;
+use App\Services\InvoiceService;
+use App\Services\RecurringInvoiceService;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Http\RedirectResponse;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class RecurringInvoiceController extends Controller
+{
+    use AuthorizesRequests;
+
+    private const PERIODS = [
+        'weekly' => 'Weekly',
+        'monthly' => 'Monthly',
+        'quarterly' => 'Quarterly',
+        'yearly' => 'Yearly',
+    ];
+
+    private const STATUSES = [
+        'active' => 'Active',
+        'paused' => 'Paused',
+        'ended' => 'Ended',
+    ];
+
+    public function __construct(
+        private RecurringInvoiceProfileRepository $profileRepository,
+        private BranchRepository $branchRepository,
+        private RecurringInvoiceService $recurringInvoiceService,
+        private InvoiceService $invoiceService
+    ) {}
+
+    /**
+     * Display recurring invoice profiles and the runs coming up
+     */
+    public function index(Request $request): Response
+    {
+        $this->authorize('view invoices');
+
+        $user = auth()->user();
+
+        $filters = [
+            'search' => $request->get('search'),
+            'status' => $request->get('status'),
+            'recurring_period' => $request->get('recurring_period'),
+            'branch_id' => $request->get('branch_id'),
+        ];
+
+        if (!$user->can('view all branches')) {
+            $filters['branch_id'] = $user->branch_id;
+        }
+
+        $branchId = $filters['branch_id'] ? (int) $filters['branch_id'] : null;
+
+        $profiles = $this->profileRepository
+            ->searchAndPaginate($user->company_id, $filters, 15)
+            ->through(fn (RecurringInvoiceProfile $profile) => [
+                'id' => $profile->id,
+                'name' => $profile->name,
+                'recurring_period' => $profile->recurring_period,
+                'period_label' => $profile->period_label,
+                'status' => $profile->status,
+                'status_label' => $profile->status_label,
+                'next_run_date' => $profile->next_run_date?->toDateString(),
+                'end_date' => $profile->end_date?->toDateString(),
+                'auto_send' => $profile->auto_send,
+                'last_error' => $profile->last_error,
+                'invoices_count' => $profile->invoices_count,
+                'items_count' => $profile->items->count(),
+                'customer' => $profile->customer?->only(['id', 'name', 'phone']),
+                'branch' => $profile->branch?->only(['id', 'name']),
+            ]);
+
+        $upcoming = $this->profileRepository->getUpcoming($user->company_id, $branchId)
+            ->flatMap(fn (RecurringInvoiceProfile $profile) => collect($profile->upcomingRunDates(5))
+                ->filter(fn (string $date) => $date <= now()->addDays(30)->toDateString())
+                ->map(fn (string $date) => [
+                    'profile_id' => $profile->id,
+                    'profile_name' => $profile->name,
+                    'customer_name' => $profile->customer?->name,
+                    'run_date' => $date,
+                    'estimated_amount' => $this->recurringInvoiceService->estimateRunValue($profile),
+                    'auto_send' => $profile->auto_send,
+                ]))
+            ->sortBy('run_date')
+            ->values();
+
+        return Inertia::render('RecurringInvoices/Index', [
+            'profiles' => [
+                'data' => $profiles->items(),
+                'current_page' => $profiles->currentPage(),
+                'last_page' => $profiles->lastPage(),
+                'per_page' => $profiles->perPage(),
+                'total' => $profiles->total(),
+                'from' => $profiles->firstItem(),
+                'to' => $profiles->lastItem(),
+            ],
+            'upcoming' => $upcoming,
+            'filters' => $filters,
+            'stats' => $this->profileRepository->getStats($user->company_id, $branchId),
+            'branches' => $user->can('view all branches') ? $this->branchRepository->getForDropdown($user->company_id) : [],
+            'periods' => self::PERIODS,
+            'statuses' => self::STATUSES,
+            'permissions' => [
+                'manage' => $user->can('manage recurring invoices'),
+                'view_all_branches' => $user->can('view all branches'),
+            ],
+        ]);
+    }
+
+    /**
+     * Show the form for creating a recurring invoice profile
+     */
+    public function create(Request $request): Response
+    {
+        $this->authorize('manage recurring invoices');
+
+        $user = auth()->user();
+
+        return Inertia::render('RecurringInvoices/Create', [
+            ...$this->invoiceService->getFormOptions($user->company_id),
+            'periods' => self::PERIODS,
+            'default_branch_id' => $request->integer('branch_id') ?: $user->branch_id,
+            'default_customer_id' => $request->integer('customer_id') ?: null,
+        ]);
+    }
+
+    /**
+     * Store a new recurring invoice profile
+     */
+    public function store(CreateRecurringInvoiceProfileRequest $request): RedirectResponse
+    {
+        $user = auth()->user();
+
+        if (!$user->can('view all branches') && (int) $request->branch_id !== $user->branch_id) {
+            return back()->withInput()->withErrors(['branch_id' => 'You can only bill from your own branch.']);
+        }
+
+        try {
+            $profile = $this->recurringInvoiceService->createProfile($request->validated(), $user->company_id, $user->id);
+
+            return redirect()
+                ->route('recurring-invoices.show', $profile->id)
+                ->with('success', "Recurring invoice \"{$profile->name}\" created. / පුනරාවර්තන ප්‍රතිදානය සාදන ලදී.");
+        } catch (\Exception $e) {
+            return back()
+                ->withInput()
+                ->withErrors(['error' => 'Failed to create recurring invoice: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Display a profile with its upcoming runs and the invoices it has generated
+     */
+    public function show(int $id): Response
+    {
+        $profile = $this->findForUser($id);
+        $user = auth()->user();
+
+        $invoices = $profile->invoices()
+            ->latest('invoice_date')
+            ->latest('id')
+            ->paginate(10)
+            ->through(fn (Invoice $invoice) => [
+                'id' => $invoice->id,
+                'invoice_number' => $invoice->invoice_number,
+                'invoice_date' => $invoice->invoice_date?->toDateString(),
+                'due_date' => $invoice->due_date?->toDateString(),
+                'total_amount' => (float) $invoice->total_amount,
+                'status' => $invoice->status,
+                'payment_status' => $invoice->payment_status,
+            ]);
+
+        return Inertia::render('RecurringInvoices/Show', [
+            'profile' => [
+                ...$this->profilePayload($profile),
+                'period_label' => $profile->period_label,
+                'status' => $profile->status,
+                'status_label' => $profile->status_label,
+                'next_run_date' => $profile->next_run_date?->toDateString(),
+                'last_run_at' => $profile->last_run_at?->toISOString(),
+                'last_error' => $profile->last_error,
+                'created_at' => $profile->created_at?->toISOString(),
+                'created_by' => $profile->creator?->name,
+                'estimated_amount' => $this->recurringInvoiceService->estimateRunValue($profile),
+                'customer' => $profile->customer?->only(['id', 'name', 'customer_code', 'phone', 'email']),
+                'branch' => $profile->branch?->only(['id', 'name', 'code']),
+            ],
+            'upcomingRuns' => $profile->upcomingRunDates(6),
+            'invoices' => [
+                'data' => $invoices->items(),
+                'current_page' => $invoices->currentPage(),
+                'last_page' => $invoices->lastPage(),
+                'total' => $invoices->total(),
+            ],
+            'permissions' => [
+                'manage' => $user->can('manage recurring invoices'),
+                'edit' => $user->can('manage recurring invoices') && $profile->status !== 'ended',
+                'pause' => $user->can('manage recurring invoices') && $profile->canBePaused(),
+                'resume' => $user->can('manage recurring invoices') && $profile->canBeResumed(),
+                'generate' => $user->can('manage recurring invoices') && $user->can('create invoices')
+                    && $profile->status === 'active' && $profile->next_run_date !== null,
+            ],
+        ]);
+    }
+
+    /**
+     * Show the form for editing a profile
+     */
+    public function edit(int $id): Response|RedirectResponse
+    {
+        $this->authorize('manage recurring invoices');
+
+        $profile = $this->findForUser($id);
+
+        if ($profile->status === 'ended') {
+            return redirect()->route('recurring-invoices.show', $id)
+                ->withErrors(['error' => 'Ended recurring invoices cannot be edited. / අවසන් වූ පුනරාවර්තන ප්‍රතිදාන වෙනස් කළ නොහැක.']);
+        }
+
+        return Inertia::render('RecurringInvoices/Edit', [
+            ...$this->invoiceService->getFormOptions($profile->company_id),
+            'periods' => self::PERIODS,
+            'profile' => [
+                ...$this->profilePayload($profile),
+                'has_run' => $profile->last_run_at !== null,
+            ],
+        ]);
+    }
+
+    /**
+     * Update a profile
+     */
+    public function update(UpdateRecurringInvoiceProfileRequest $request, int $id): RedirectResponse
+    {
+        $profile = $this->findForUser($id);
+        $user = auth()->user();
+
+        if ($request->has('branch_id') && !$user->can('view all branches') && (int) $request->branch_id !== $user->branch_id) {
+            return back()->withInput()->withErrors(['branch_id' => 'You can only bill from your own branch.']);
+        }
+
+        try {
+            $this->recurringInvoiceService->updateProfile($profile, $request->validated(), $user->company_id);
+
+            return redirect()
+                ->route('recurring-invoices.show', $profile->id)
+                ->with('success', 'Recurring invoice updated successfully. / පුනරාවර්තන ප්‍රතිදානය යාවත්කාලීන කරන ලදී.');
+        } catch (\Exception $e) {
+            return back()
+                ->withInput()
+                ->withErrors(['error' => 'Failed to update recurring invoice: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Delete a profile. Invoices it already generated are kept.
+     */
+    public function destroy(int $id): RedirectResponse
+    {
+        $this->authorize('manage recurring invoices');
+
+        $profile = $this->findForUser($id);
+
+        try {
+            $profile->delete();
+
+            return redirect()
+                ->route('recurring-invoices.index')
+                ->with('success', "Recurring invoice \"{$profile->name}\" deleted.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to delete recurring invoice: ' . $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Pause or resume a profile
+     */
+    public function updateStatus(Request $request, int $id): RedirectResponse
+    {
+        $this->authorize('manage recurring invoices');
+
+        $profile = $this->findForUser($id);
+
+        $validated = $request->validate([
+            'action' => 'required|in:pause,resume',
+        ]);
+
+        try {
+            match ($validated['action']) {
+                'pause' => $this->recurringInvoiceService->pause($profile),
+                'resume' => $this->recurringInvoiceService->resume($profile),
+            };
+
+            return back()->with('success', "Recurring invoice \"{$profile->name}\" is now " . strtolower($profile->status_label) . '.');
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => $e->getMessage()]);
+        }
+    }
+
+    /**
+     * Generate the next scheduled invoice straight away instead of waiting for the daily run
+     */
+    public function generateNow(int $id): RedirectResponse
+    {
+        $this->authorize('manage recurring invoices');
+        $this->authorize('create invoices');
+
+        $profile = $this->findForUser($id);
+
+        try {
+            $invoice = $this->recurringInvoiceService->generateInvoice($profile);
+
+            return redirect()
+                ->route('invoices.show', $invoice->id)
+                ->with('success', "Invoice {$invoice->invoice_number} generated from \"{$profile->name}\". / ප්‍රතිදානය සාදන ලදී.");
+        } catch (\Exception $e) {
+            return back()->withErrors(['error' => 'Failed to generate invoice: ' . $e->getMessage()]);
+        }
+    }
+
+    private function findForUser(int $id): RecurringInvoiceProfile
+    {
+        $profile = $this->profileRepository->findWithDetails($id);
+
+        if (!$profile) {
+            abort(404, 'Recurring invoice not found.');
+        }
+
+        $user = auth()->user();
+
+        if ($profile->company_id !== $user->company_id) {
+            abort(403, 'You cannot access recurring invoices from other companies.');
+        }
+
+        if (!$user->can('view all branches') && $profile->branch_id !== $user->branch_id) {
+            abort(403, 'You cannot access recurring invoices from other branches.');
+        }
+
+        return $profile;
+    }
+
+    /**
+     * Fields shared by the detail page and the edit form
+     */
+    private function profilePayload(RecurringInvoiceProfile $profile): array
+    {
+        return [
+            'id' => $profile->id,
+            'name' => $profile->name,
+            'customer_id' => $profile->customer_id,
+            'branch_id' => $profile->branch_id,
+            'recurring_period' => $profile->recurring_period,
+            'start_date' => $profile->start_date?->toDateString(),
+            'end_date' => $profile->end_date?->toDateString(),
+            'payment_terms_days' => $profile->payment_terms_days,
+            'discount_amount' => (float) $profile->discount_amount,
+            'auto_send' => $profile->auto_send,
+            'notes' => $profile->notes,
+            'terms_conditions' => $profile->terms_conditions,
+            'items' => $profile->items->map(fn (RecurringInvoiceProfileItem $item) => [
+                'id' => $item->id,
+                'product_id' => $item->product_id,
+                'product_name' => $item->product?->name,
+                'unit_type' => $item->product?->unit_type,
+                'item_description' => $item->item_description,
+                'quantity' => (float) $item->quantity,
+                'unit_price' => $item->unit_price !== null ? (float) $item->unit_price : null,
+                'specifications' => $item->specifications,
+            ])->values(),
+        ];
+    }
+}
@@ -0,0 +1,181 @@
+<?php
+// app/Http/Controllers/ReportController.php
+
+namespace App\Http\Controllers;
+
+use App\Repositories\BranchRepository;
+use App\Services\ReportService;
+use Carbon\Carbon;
+use Illuminate\Foundation\Auth\Access\AuthorizesRequests;
+use Illuminate\Http\Request;
+use Inertia\Inertia;
+use Inertia\Response;
+
+class ReportController extends Controller
+{
+    use AuthorizesRequests;
+
+    /**
+     * Longest period a single report will cover, to keep the daily charts readable
+     */
+    private const MAX_RANGE_DAYS = 366;
+
+    public function __construct(
+        private ReportService $reportService,
+        private BranchRepository $branchRepository
+    ) {}
+
+    /**
+     * Reports landing page with headline figures for the period
+     */
+    public function index(Request $request): Response
+    {
+        $this->authorize('view reports');
+
+        $user = auth()->user();
+        [$startDate, $endDate, $branchId] = $this->resolveFilters($request);
+        $canViewFinancial = $user->can('financial reports');
+
+        return Inertia::render('Reports/Index', [
+            'overview' => $this->reportService->getOverview($user->company_id, $startDate, $endDate, $branchId, $canViewFinancial),
+            'permissions' => [
+                'financial' => $canViewFinancial,
+            ],
+        ] + $this->filterProps($startDate, $endDate, $branchId));
+    }
+
+    /**
+     * Sales report
+     */
+    public function salesReport(Request $request): Response
+    {
+        $this->authorize('view reports');
+
+        [$startDate, $endDate, $branchId] = $this->resolveFilters($request);
+
+        return Inertia::render(
+            'Reports/Sales',
+            $this->reportService->getSalesReport(auth()->user()->company_id, $startDate, $endDate, $branchId)
+                + $this->filterProps($startDate, $endDate, $branchId)
+        );
+    }
+
+    /**
+     * Payments report
+     */
+    public function paymentsReport(Request $request): Response
+    {
+        $this->authorize('view reports');
+
+        [$startDate, $endDate, $branchId] = $this->resolveFilters($request);
+
+        return Inertia::render(
+            'Reports/Payments',
+            $this->reportService->getPaymentsReport(auth()->user()->company_id, $startDate, $endDate, $branchId)
+                + $this->filterProps($startDate, $endDate, $branchId)
+        );
+    }
+
+    /**
+     * Production report
+     */
+    public function productionReport(Request $request): Response
+    {
+        $this->authorize('view reports');
+
+        [$startDate, $endDate, $branchId] = $this->resolveFilters($request);
+
+        return Inertia::render(
+            'Reports/Production',
+            $this->reportService->getProductionReport(auth()->user()->company_id, $startDate, $endDate, $branchId)
+                + $this->filterProps($startDate, $endDate, $branchId)
+        );
+    }
+
+    /**
+     * Delivery report
+     */
+    public function deliveryReport(Request $request): Response
+    {
+        $this->authorize('view reports');
+
+        [$startDate, $endDate, $branchId] = $this->resolveFilters($request);
+
+        return Inertia::render(
+            'Reports/Delivery',
+            $this->reportService->getDeliveryReport(auth()->user()->company_id, $startDate, $endDate, $branchId)
+                + $this->filterProps($startDate, $endDate, $branchId)
+        );
+    }
+
+    /**
+     * Financial report
+     */
+    public function financialReport(Request $request): Response
+    {
+        $this->authorize('financial reports');
+
+        [$startDate, $endDate, $branchId] = $this->resolveFilters($request);
+
+        return Inertia::render(
+            'Reports/Financial',
+            $this->reportService->getFinancialReport(auth()->user()->company_id, $startDate, $endDate, $branchId)
+                + $this->filterProps($startDate, $endDate, $branchId)
+        );
+    }
+
+    /**
+     * Read the date range and branch from the query string, defaulting to this month
+     * and keeping users without 'view all branches' on their own branch.
+     */
+    private function resolveFilters(Request $request): array
+    {
+        $request->validate([
+            'start_date' => 'nullable|date',
+            'end_date' => 'nullable|date',
+            'branch_id' => 'nullable|integer',
+        ]);
+
+        $user = auth()->user();
+
+        $startDate = $request->filled('start_date') ? Carbon::parse($request->start_date) : now()->startOfMonth();
+        $endDate = $request->filled('end_date') ? Carbon::parse($request->end_date) : now();
+
+        if ($endDate->lt($startDate)) {
+            [$startDate, $endDate] = [$endDate, $startDate];
+        }
+
+        if ($startDate->diffInDays($endDate) > self::MAX_RANGE_DAYS) {
+            $startDate = $endDate->copy()->subDays(self::MAX_RANGE_DAYS);
+        }
+
+        if ($user->can('view all branches')) {
+            $branchId = $request->filled('branch_id') ? (int) $request->branch_id : null;
+
+            if ($branchId && !$this->branchRepository->getForDropdown($user->company_id)->contains('id', $branchId)) {
+                abort(403, 'You cannot view reports for this branch.');
+            }
+        } else {
+            $branchId = $user->branch_id;
+        }
+
+        return [$startDate->startOfDay(), $endDate->endOfDay(), $branchId];
+    }
+
+    /**
+     * Filter values and branch options every report page renders
+     */
+    private function filterProps(Carbon $startDate, Carbon $endDate, ?int $branchId): array
+    {
+        $user = auth()->user();
+
+        return [
+            'filters' => [
+                'start_date' => $startDate->toDateString(),
+                'end_date' => $endDate->toDateString(),
+                'branch_id' => $branchId,
+            ],
+            'branches' => $user->can('view all branches') ? $this->branchRepository->getForDropdown($user->company_id) : [],
+        ];
+    }
+}
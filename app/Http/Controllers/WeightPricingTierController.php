@@ -6,6 +6,7 @@
 use App\Http\Requests\CreateWeightPricingTierRequest;
 use App\Http\Requests\UpdateWeightPricingTierRequest;
 use App\Repositories\WeightPricingTierRepository;
+use App\Services\WeightPricingService;
 use Illuminate\Http\Request;
 use Illuminate\Http\RedirectResponse;
 use Illuminate\Http\JsonResponse;
@@ -18,7 +19,8 @@ class WeightPricingTierController extends Controller
     use AuthorizesRequests;
 
     public function __construct(
-        private WeightPricingTierRepository $pricingTierRepository
+        private WeightPricingTierRepository $pricingTierRepository,
+        private WeightPricingService $pricingService
     ) {}
 
     /**
@@ -31,7 +33,7 @@ public function index(): Response
         $user = auth()->user();
         $companyId = $user->company_id;
 
-        $tiers = $this->pricingTierRepository->getForCompany($companyId);
+        $tiers = $this->pricingTierRepository->getAllForCompany($companyId);
 
         return Inertia::render('WeightPricing/Index', [
             'tiers' => $tiers->map(fn($tier) => [
@@ -47,6 +49,8 @@ public function index(): Response
                 'created_at' => $tier->created_at->format('Y-m-d H:i:s'),
                 'updated_at' => $tier->updated_at->format('Y-m-d H:i:s'),
             ]),
+            'samplePricing' => $this->pricingService->generateSamplePricingTable($companyId),
+            'analysis' => $this->pricingService->optimizePricingTiers($companyId),
             'permissions' => [
                 'canCreate' => $user->can('create weight pricing'),
                 'canEdit' => $user->can('edit weight pricing'),
@@ -62,7 +66,9 @@ public function create(): Response
     {
         $this->authorize('create weight pricing');
 
-        return Inertia::render('WeightPricing/Create');
+        return Inertia::render('WeightPricing/Create', [
+            'existingTiers' => $this->rangeSummary(auth()->user()->company_id),
+        ]);
     }
 
     /**
@@ -72,9 +78,9 @@ public function store(CreateWeightPricingTierRequest $request): RedirectResponse
     {
         try {
             $data = $request->validated();
-            $data['company_id'] = auth()->user()->company_id;
 
-            $tier = $this->pricingTierRepository->create($data);
+            // Service rejects ranges that overlap an active tier
+            $tier = $this->pricingService->createPricingTier($data, auth()->user()->company_id);
 
             return redirect()->route('weight-pricing.index')
                 ->with('success', 'Weight pricing tier created successfully.');
@@ -82,7 +88,7 @@ public function store(CreateWeightPricingTierRequest $request): RedirectResponse
         } catch (\Exception $e) {
             return back()
                 ->withInput()
-                ->withErrors(['error' => 'Tier creation failed. Please try again.']);
+                ->withErrors(['error' => 'Tier creation failed: ' . $e->getMessage()]);
         }
     }
 
@@ -113,6 +119,9 @@ public function show(int $id): Response
                 'created_at' => $tier->created_at->format('Y-m-d H:i:s'),
                 'updated_at' => $tier->updated_at->format('Y-m-d H:i:s'),
             ],
+            'sampleCalculations' => $this->sampleWeightsForTier($tier)
+                ->map(fn($weight) => $tier->calculatePrice($weight))
+                ->values(),
             'permissions' => [
                 'canEdit' => $user->can('edit weight pricing'),
                 'canDelete' => $user->can('delete weight pricing'),
@@ -144,6 +153,7 @@ public function edit(int $id): Response
                 'status' => $tier->status,
                 'sort_order' => $tier->sort_order,
             ],
+            'existingTiers' => $this->rangeSummary($user->company_id, $tier->id),
         ]);
     }
 
@@ -161,7 +171,7 @@ public function update(UpdateWeightPricingTierRequest $request, int $id): Redire
             }
 
             $data = $request->validated();
-            $this->pricingTierRepository->update($id, $data);
+            $this->pricingService->updatePricingTier($id, $data, $user->company_id);
 
             return redirect()->route('weight-pricing.show', $id)
                 ->with('success', 'Weight pricing tier updated successfully.');
@@ -169,7 +179,7 @@ public function update(UpdateWeightPricingTierRequest $request, int $id): Redire
         } catch (\Exception $e) {
             return back()
                 ->withInput()
-                ->withErrors(['error' => 'Tier update failed. Please try again.']);
+                ->withErrors(['error' => 'Tier update failed: ' . $e->getMessage()]);
         }
     }
 
@@ -233,7 +243,17 @@ public function updateSortOrder(Request $request): JsonResponse
         try {
             $this->authorize('edit weight pricing');
 
-            $tierIds = $request->get('tier_ids', []);
+            // Only reorder tiers that belong to the user's company
+            $companyTierIds = $this->pricingTierRepository
+                ->getAllForCompany(auth()->user()->company_id)
+                ->pluck('id')
+                ->all();
+
+            $tierIds = array_values(array_filter(
+                (array) $request->get('tier_ids', []),
+                fn($tierId) => in_array((int) $tierId, $companyTierIds, true)
+            ));
+
             $this->pricingTierRepository->updateSortOrder($tierIds);
 
             return response()->json([
@@ -270,4 +290,38 @@ public function calculatePrice(Request $request): JsonResponse
             return response()->json(['error' => 'Price calculation failed'], 500);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Weight ranges of the company's other tiers, for overlap checks in the tier forms
+     */
+    private function rangeSummary(int $companyId, ?int $excludeTierId = null): array
+    {
+        return $this->pricingTierRepository->getAllForCompany($companyId)
+            ->reject(fn($tier) => $tier->id === $excludeTierId)
+            ->map(fn($tier) => [
+                'id' => $tier->id,
+                'tier_name' => $tier->tier_name,
+                'min_weight' => (float) $tier->min_weight,
+                'max_weight' => $tier->max_weight !== null ? (float) $tier->max_weight : null,
+                'base_price' => (float) $tier->base_price,
+                'price_per_kg' => (float) $tier->price_per_kg,
+                'status' => $tier->status,
+            ])
+            ->values()
+            ->toArray();
+    }
+
+    /**
+     * Representative weights inside a tier's range
+     */
+    private function sampleWeightsForTier($tier): \Illuminate\Support\Collection
+    {
+        $min = (float) $tier->min_weight;
+        $max = $tier->max_weight !== null ? (float) $tier->max_weight : $min + 10;
+        $step = ($max - $min) / 4;
+
+        return collect(range(0, 4))
+            ->map(fn($i) => round($min + ($step * $i), 3))
+            ->unique();
+    }
+}
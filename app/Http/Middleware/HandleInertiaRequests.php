@@ -45,6 +45,7 @@ public function share(Request $request): array
             'quote' => ['message' => trim($message), 'author' => trim($author)],
             'auth' => [
                 'user' => $request->user(),
+                'production_channel' => $this->productionChannel($request),
             ],
             'ziggy' => fn (): array => [
                 ...(new Ziggy)->toArray(),
@@ -53,4 +54,22 @@ public function share(Request $request): array
             'sidebarOpen' => ! $request->hasCookie('sidebar_state') || $request->cookie('sidebar_state') === 'true',
         ];
     }
+
+    /**
+     * The private channel the user listens to for live production updates
+     */
+    private function productionChannel(Request $request): ?string
+    {
+        $user = $request->user();
+
+        if (! $user?->company_id) {
+            return null;
+        }
+
+        if ($user->branch_id && ! $user->can('view all branches')) {
+            return 'branch.'.$user->branch_id;
+        }
+
+        return 'company.'.$user->company_id;
+    }
 }
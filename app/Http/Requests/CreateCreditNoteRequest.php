@@ -0,0 +1,66 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class CreateCreditNoteRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return auth()->user()->can('issue credit notes');
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'reason' => 'required|string|max:500',
+            'credit_date' => 'nullable|date|before_or_equal:today',
+            'notes' => 'nullable|string|max:1000',
+
+            // Either specific invoice lines or a plain amount
+            'items' => 'nullable|array',
+            'items.*.invoice_item_id' => 'required|integer|exists:invoice_items,id',
+            'items.*.quantity' => 'required|numeric|min:0',
+            'amount' => 'nullable|numeric|min:0.01',
+
+            'refund' => 'boolean',
+            'refund_method' => 'required_if:refund,true|nullable|in:cash,bank_transfer,online,card,cheque,mobile_payment',
+            'refund_reference' => 'nullable|string|max:100',
+        ];
+    }
+
+    /**
+     * Get the error messages for the defined validation rules.
+     */
+    public function messages(): array
+    {
+        return [
+            'reason.required' => 'Reason for the credit is required. / බැර කිරීමට හේතුව අවශ්‍යයි.',
+            'credit_date.before_or_equal' => 'Credit date cannot be in the future. / බැර දිනය අනාගතයේ විය නොහැක.',
+            'items.*.quantity.min' => 'Quantity cannot be negative. / ප්‍රමාණය සෘණ විය නොහැක.',
+            'amount.min' => 'Credit amount must be greater than zero. / බැර මුදල ශුන්‍යයට වඩා වැඩි විය යුතුය.',
+            'refund_method.required_if' => 'Choose how the refund is paid. / මුදල් ආපසු ගෙවන ආකාරය තෝරන්න.',
+        ];
+    }
+
+    /**
+     * Configure the validator instance.
+     */
+    public function withValidator($validator): void
+    {
+        $validator->after(function ($validator) {
+            $hasLines = collect($this->input('items', []))->contains(fn ($item) => (float) ($item['quantity'] ?? 0) > 0);
+
+            if (!$hasLines && !$this->filled('amount')) {
+                $validator->errors()->add('amount', 'Choose items to credit or enter an amount. / බැර කළ යුතු අයිතම තෝරන්න හෝ මුදලක් ඇතුළත් කරන්න.');
+            }
+        });
+    }
+}
@@ -21,7 +21,13 @@ public function authorize(): bool
      */
     public function rules(): array
     {
-        $baseRules = [
+        $rules = self::customerRules($this->input('customer_type'));
+
+        $rules['customer_code'][] = Rule::unique('customers', 'customer_code');
+        $rules['email'][] = Rule::unique('customers', 'email');
+        $rules['tax_number'][] = Rule::unique('customers', 'tax_number');
+
+        return [
             'branch_id' => [
                 'nullable',
                 'integer',
@@ -38,12 +44,21 @@ function ($attribute, $value, $fail) {
                     }
                 },
             ],
+        ] + $rules;
+    }
+
+    /**
+     * Rules for the customer's own fields, shared with the customer CSV import.
+     * Callers check the branch and the unique customer code, email and tax number themselves.
+     */
+    public static function customerRules(?string $customerType): array
+    {
+        $baseRules = [
             'customer_code' => [
                 'nullable',
                 'string',
                 'max:50',
                 'min:3',
-                Rule::unique('customers', 'customer_code'),
                 'regex:/^[A-Z0-9_\-]+$/', // Fixed: escaped the dash
             ],
             'name' => [
@@ -56,7 +71,6 @@ function ($attribute, $value, $fail) {
                 'nullable',
                 'email',
                 'max:255',
-                Rule::unique('customers', 'email'),
                 'lowercase',
             ],
             'phone' => [
@@ -64,21 +78,7 @@ function ($attribute, $value, $fail) {
                 'string',
                 'max:20',
                 'min:9',
-                function ($attribute, $value, $fail) {
-                    $cleanPhone = preg_replace('/[^\d\+]/', '', $value);
-                    
-                    // Sri Lankan phone validation
-                    if (preg_match('/^(?:\+94|94|0)?[1-9][0-9]{8}$/', $cleanPhone)) {
-                        return;
-                    }
-                    
-                    // International format
-                    if (preg_match('/^\+[1-9]\d{6,14}$/', $cleanPhone)) {
-                        return;
-                    }
-                    
-                    $fail('Please enter a valid phone number.');
-                },
+                self::phoneRule('Please enter a valid phone number.'),
             ],
             'billing_address' => [
                 'required',
@@ -118,7 +118,6 @@ function ($attribute, $value, $fail) {
                 'nullable',
                 'string',
                 'max:50',
-                Rule::unique('customers', 'tax_number'),
                 'regex:/^[A-Z0-9\-]+$/', // Fixed: escaped the dash
             ],
             'credit_limit' => [
@@ -147,7 +146,7 @@ function ($attribute, $value, $fail) {
         ];
 
         // Individual customer specific rules
-        if ($this->input('customer_type') === 'individual') {
+        if ($customerType === 'individual') {
             $baseRules = array_merge($baseRules, [
                 'date_of_birth' => [
                     'nullable',
@@ -164,23 +163,7 @@ function ($attribute, $value, $fail) {
                     'nullable',
                     'string',
                     'max:20',
-                    function ($attribute, $value, $fail) {
-                        if ($value) {
-                            $cleanPhone = preg_replace('/[^\d\+]/', '', $value);
-                            
-                            // Sri Lankan phone validation
-                            if (preg_match('/^(?:\+94|94|0)?[1-9][0-9]{8}$/', $cleanPhone)) {
-                                return;
-                            }
-                            
-                            // International format
-                            if (preg_match('/^\+[1-9]\d{6,14}$/', $cleanPhone)) {
-                                return;
-                            }
-                            
-                            $fail('Please enter a valid emergency contact phone number.');
-                        }
-                    },
+                    self::phoneRule('Please enter a valid emergency contact phone number.'),
                 ],
                 'emergency_contact_relationship' => [
                     'nullable',
@@ -191,7 +174,7 @@ function ($attribute, $value, $fail) {
         }
 
         // Business customer specific rules
-        if ($this->input('customer_type') === 'business') {
+        if ($customerType === 'business') {
             $baseRules = array_merge($baseRules, [
                 'company_name' => [
                     'required',
@@ -215,23 +198,7 @@ function ($attribute, $value, $fail) {
                     'nullable',
                     'string',
                     'max:20',
-                    function ($attribute, $value, $fail) {
-                        if ($value) {
-                            $cleanPhone = preg_replace('/[^\d\+]/', '', $value);
-                            
-                            // Sri Lankan phone validation
-                            if (preg_match('/^(?:\+94|94|0)?[1-9][0-9]{8}$/', $cleanPhone)) {
-                                return;
-                            }
-                            
-                            // International format
-                            if (preg_match('/^\+[1-9]\d{6,14}$/', $cleanPhone)) {
-                                return;
-                            }
-                            
-                            $fail('Please enter a valid contact person phone number.');
-                        }
-                    },
+                    self::phoneRule('Please enter a valid contact person phone number.'),
                 ],
                 'contact_person_email' => [
                     'nullable',
@@ -245,6 +212,30 @@ function ($attribute, $value, $fail) {
         return $baseRules;
     }
 
+    /**
+     * Sri Lankan or international phone number, failing with the given message
+     */
+    private static function phoneRule(string $message): \Closure
+    {
+        return function ($attribute, $value, $fail) use ($message) {
+            if ($value) {
+                $cleanPhone = preg_replace('/[^\d\+]/', '', $value);
+
+                // Sri Lankan phone validation
+                if (preg_match('/^(?:\+94|94|0)?[1-9][0-9]{8}$/', $cleanPhone)) {
+                    return;
+                }
+
+                // International format
+                if (preg_match('/^\+[1-9]\d{6,14}$/', $cleanPhone)) {
+                    return;
+                }
+
+                $fail($message);
+            }
+        };
+    }
+
     /**
      * Custom validation messages
      */
@@ -352,21 +343,7 @@ private function generateCustomerCode(): string
      */
     private function cleanPhoneNumber(string $phone): string
     {
-        // Remove all non-digit and non-plus characters
-        $cleaned = preg_replace('/[^\d\+]/', '', $phone);
-        
-        // Handle Sri Lankan numbers
-        if (preg_match('/^0[1-9][0-9]{8}$/', $cleaned)) {
-            // Convert 0771234567 to +94771234567
-            $cleaned = '+94' . substr($cleaned, 1);
-        } elseif (preg_match('/^94[1-9][0-9]{8}$/', $cleaned)) {
-            // Convert 94771234567 to +94771234567
-            $cleaned = '+' . $cleaned;
-        } elseif (preg_match('/^\+94[1-9][0-9]{8}$/', $cleaned)) {
-            // Already in correct format
-        }
-        
-        return $cleaned;
+        return \App\Models\Customer::normalizePhone($phone);
     }
 }
 
@@ -0,0 +1,111 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class CreateQuotationRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return auth()->user()->can('create quotations');
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'customer_id' => 'required|exists:customers,id',
+            'branch_id' => 'required|exists:branches,id',
+            'quotation_date' => 'sometimes|date|before_or_equal:today',
+            'valid_until' => 'required|date|after_or_equal:quotation_date|after_or_equal:today',
+            'discount_amount' => 'sometimes|numeric|min:0',
+            'notes' => 'nullable|string|max:1000',
+            'terms_conditions' => 'nullable|string|max:2000',
+
+            'items' => 'required|array|min:1',
+            'items.*.product_id' => 'required|exists:products,id',
+            'items.*.item_description' => 'sometimes|string|max:500',
+            'items.*.quantity' => 'required|numeric|min:0.01',
+            'items.*.unit_price' => 'sometimes|numeric|min:0',
+            'items.*.unit_weight' => 'sometimes|numeric|min:0',
+            'items.*.specifications' => 'sometimes|array',
+        ];
+    }
+
+    /**
+     * Get the error messages for the defined validation rules.
+     */
+    public function messages(): array
+    {
+        return [
+            'customer_id.required' => 'Customer is required. / ගනුදෙනුකරු අවශ්‍යයි.',
+            'branch_id.required' => 'Branch is required. / ශාඛාව අවශ්‍යයි.',
+            'quotation_date.before_or_equal' => 'Quotation date cannot be in the future. / මිල ගණන් පත්‍රයේ දිනය අනාගතයේ විය නොහැක.',
+            'valid_until.required' => 'Validity date is required. / වලංගු දිනය අවශ්‍යයි.',
+            'valid_until.after_or_equal' => 'Validity date cannot be before the quotation date or today. / වලංගු දිනය අද දිනට පෙර විය නොහැක.',
+            'discount_amount.min' => 'Discount amount cannot be negative. / වට්ටම් මුදල සෘණ විය නොහැක.',
+            'items.required' => 'At least one item is required. / අවම වශයෙන් එක් අයිතමයක් අවශ්‍යයි.',
+            'items.min' => 'At least one item is required. / අවම වශයෙන් එක් අයිතමයක් අවශ්‍යයි.',
+            'items.*.product_id.required' => 'Product is required for each item. / සෑම අයිතමයක් සඳහාම නිෂ්පාදනය අවශ්‍යයි.',
+            'items.*.quantity.required' => 'Quantity is required for each item. / සෑම අයිතමයක් සඳහාම ප්‍රමාණය අවශ්‍යයි.',
+            'items.*.quantity.min' => 'Quantity must be greater than zero. / ප්‍රමාණය ශුන්‍යයට වඩා වැඩි විය යුතුය.',
+            'items.*.unit_price.min' => 'Unit price cannot be negative. / ඒකක මිල සෘණ විය නොහැක.',
+        ];
+    }
+
+    /**
+     * Configure the validator instance.
+     */
+    public function withValidator($validator): void
+    {
+        $validator->after(function ($validator) {
+            $companyId = auth()->user()->company_id;
+
+            if ($this->customer_id) {
+                $customer = \App\Models\Customer::find($this->customer_id);
+                if ($customer && $customer->company_id !== $companyId) {
+                    $validator->errors()->add('customer_id', 'Customer does not belong to your company.');
+                }
+            }
+
+            if ($this->branch_id) {
+                $branch = \App\Models\Branch::find($this->branch_id);
+                if ($branch && $branch->company_id !== $companyId) {
+                    $validator->errors()->add('branch_id', 'Branch does not belong to your company.');
+                }
+            }
+
+            foreach ($this->input('items', []) as $index => $item) {
+                if (isset($item['product_id'])) {
+                    $product = \App\Models\Product::find($item['product_id']);
+                    if ($product && $product->company_id !== $companyId) {
+                        $validator->errors()->add("items.{$index}.product_id", 'Product does not belong to your company.');
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * Get custom attributes for validator errors.
+     */
+    public function attributes(): array
+    {
+        return [
+            'customer_id' => 'customer',
+            'branch_id' => 'branch',
+            'quotation_date' => 'quotation date',
+            'valid_until' => 'validity date',
+            'discount_amount' => 'discount amount',
+            'items.*.product_id' => 'product',
+            'items.*.quantity' => 'quantity',
+            'items.*.unit_price' => 'unit price',
+        ];
+    }
+}
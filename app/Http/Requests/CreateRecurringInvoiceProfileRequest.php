@@ -0,0 +1,116 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class CreateRecurringInvoiceProfileRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return auth()->user()->can('manage recurring invoices');
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'name' => 'required|string|max:150',
+            'customer_id' => 'required|exists:customers,id',
+            'branch_id' => 'required|exists:branches,id',
+            'recurring_period' => 'required|in:weekly,monthly,quarterly,yearly',
+            'start_date' => 'required|date|after_or_equal:today',
+            'end_date' => 'nullable|date|after:start_date',
+            'payment_terms_days' => 'required|integer|min:0|max:365',
+            'discount_amount' => 'sometimes|numeric|min:0',
+            'auto_send' => 'sometimes|boolean',
+            'notes' => 'nullable|string|max:1000',
+            'terms_conditions' => 'nullable|string|max:2000',
+
+            'items' => 'required|array|min:1',
+            'items.*.product_id' => 'required|exists:products,id',
+            'items.*.item_description' => 'sometimes|string|max:500',
+            'items.*.quantity' => 'required|numeric|min:0.01',
+            'items.*.unit_price' => 'nullable|numeric|min:0',
+            'items.*.specifications' => 'sometimes|nullable|array',
+        ];
+    }
+
+    /**
+     * Get the error messages for the defined validation rules.
+     */
+    public function messages(): array
+    {
+        return [
+            'name.required' => 'Profile name is required. / පැතිකඩ නම අවශ්‍යයි.',
+            'customer_id.required' => 'Customer is required. / ගනුදෙනුකරු අවශ්‍යයි.',
+            'branch_id.required' => 'Branch is required. / ශාඛාව අවශ්‍යයි.',
+            'recurring_period.required' => 'Billing period is required. / බිල්පත් කාල සීමාව අවශ්‍යයි.',
+            'start_date.required' => 'Start date is required. / ආරම්භක දිනය අවශ්‍යයි.',
+            'start_date.after_or_equal' => 'Start date cannot be in the past. / ආරම්භක දිනය අතීතයේ විය නොහැක.',
+            'end_date.after' => 'End date must be after the start date. / අවසන් දිනය ආරම්භක දිනයට පසුව විය යුතුය.',
+            'discount_amount.min' => 'Discount amount cannot be negative. / වට්ටම් මුදල සෘණ විය නොහැක.',
+            'items.required' => 'At least one item is required. / අවම වශයෙන් එක් අයිතමයක් අවශ්‍යයි.',
+            'items.min' => 'At least one item is required. / අවම වශයෙන් එක් අයිතමයක් අවශ්‍යයි.',
+            'items.*.product_id.required' => 'Product is required for each item. / සෑම අයිතමයක් සඳහාම නිෂ්පාදනය අවශ්‍යයි.',
+            'items.*.quantity.required' => 'Quantity is required for each item. / සෑම අයිතමයක් සඳහාම ප්‍රමාණය අවශ්‍යයි.',
+            'items.*.quantity.min' => 'Quantity must be greater than zero. / ප්‍රමාණය ශුන්‍යයට වඩා වැඩි විය යුතුය.',
+            'items.*.unit_price.min' => 'Unit price cannot be negative. / ඒකක මිල සෘණ විය නොහැක.',
+        ];
+    }
+
+    /**
+     * Configure the validator instance.
+     */
+    public function withValidator($validator): void
+    {
+        $validator->after(function ($validator) {
+            $companyId = auth()->user()->company_id;
+
+            if ($this->customer_id) {
+                $customer = \App\Models\Customer::find($this->customer_id);
+                if ($customer && $customer->company_id !== $companyId) {
+                    $validator->errors()->add('customer_id', 'Customer does not belong to your company.');
+                }
+            }
+
+            if ($this->branch_id) {
+                $branch = \App\Models\Branch::find($this->branch_id);
+                if ($branch && $branch->company_id !== $companyId) {
+                    $validator->errors()->add('branch_id', 'Branch does not belong to your company.');
+                }
+            }
+
+            foreach ($this->input('items', []) as $index => $item) {
+                if (isset($item['product_id'])) {
+                    $product = \App\Models\Product::find($item['product_id']);
+                    if ($product && $product->company_id !== $companyId) {
+                        $validator->errors()->add("items.{$index}.product_id", 'Product does not belong to your company.');
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * Get custom attributes for validator errors.
+     */
+    public function attributes(): array
+    {
+        return [
+            'customer_id' => 'customer',
+            'branch_id' => 'branch',
+            'recurring_period' => 'billing period',
+            'payment_terms_days' => 'payment terms',
+            'discount_amount' => 'discount amount',
+            'items.*.product_id' => 'product',
+            'items.*.quantity' => 'quantity',
+            'items.*.unit_price' => 'unit price',
+        ];
+    }
+}
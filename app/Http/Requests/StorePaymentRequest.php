@@ -88,6 +88,7 @@ function ($attribute, $value, $fail) {
                 'nullable',
                 'string',
                 'max:200',
+                'unique:payments,gateway_reference',
                 'required_if:payment_method,online',
             ],
             'cheque_number' => [
@@ -165,6 +166,7 @@ public function messages(): array
             'gateway_reference.required_if' => 'Gateway reference is required for online payments.',
             'cheque_number.required_if' => 'Cheque number is required for cheque payments.',
             'transaction_id.unique' => 'This transaction ID has already been used.',
+            'gateway_reference.unique' => 'This gateway reference has already been recorded.',
             'receipt_image.image' => 'Receipt must be an image file.',
             'receipt_image.mimes' => 'Receipt must be a JPEG, PNG, JPG, or PDF file.',
             'receipt_image.max' => 'Receipt image size cannot exceed 5MB.',
@@ -314,20 +314,6 @@ protected function prepareForValidation(): void
      */
     private function cleanPhoneNumber(string $phone): string
     {
-        // Remove all non-digit and non-plus characters
-        $cleaned = preg_replace('/[^\d\+]/', '', $phone);
-        
-        // Handle Sri Lankan numbers
-        if (preg_match('/^0[1-9][0-9]{8}$/', $cleaned)) {
-            // Convert 0771234567 to +94771234567
-            $cleaned = '+94' . substr($cleaned, 1);
-        } elseif (preg_match('/^94[1-9][0-9]{8}$/', $cleaned)) {
-            // Convert 94771234567 to +94771234567
-            $cleaned = '+' . $cleaned;
-        } elseif (preg_match('/^\+94[1-9][0-9]{8}$/', $cleaned)) {
-            // Already in correct format
-        }
-        
-        return $cleaned;
+        return \App\Models\Customer::normalizePhone($phone);
     }
 }
\ No newline at end of file
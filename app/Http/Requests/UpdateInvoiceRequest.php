@@ -22,9 +22,10 @@ public function rules(): array
         return [
             'due_date' => 'sometimes|date|after_or_equal:invoice_date',
             'discount_amount' => 'sometimes|numeric|min:0',
-            'notes' => 'sometimes|string|max:1000',
-            'terms_conditions' => 'sometimes|string|max:2000',
+            'notes' => 'sometimes|nullable|string|max:1000',
+            'terms_conditions' => 'sometimes|nullable|string|max:2000',
             'status' => 'sometimes|in:draft,pending,processing,completed,cancelled',
+            'revision_note' => 'nullable|string|max:500',
             
             // Invoice items validation (optional for updates)
             'items' => 'sometimes|array|min:1',
@@ -83,11 +84,16 @@ public function withValidator($validator): void
 
             // Check if invoice can be modified
             $invoiceRepository = app(\App\Repositories\InvoiceRepository::class);
-            if (!$invoiceRepository->canBeModified($invoice->id)) {
+            if (!$invoiceRepository->canBeModified($invoice->id, auth()->user()->can('override invoice lock'))) {
                 $validator->errors()->add('invoice', 'Invoice cannot be modified at this time.');
                 return;
             }
 
+            // Overriding the lock needs a reason for the revision history
+            if ($invoice->getEditLockReason() !== null && blank($this->revision_note)) {
+                $validator->errors()->add('revision_note', 'Give a reason for changing this invoice. / මෙම ප්‍රතිදානය වෙනස් කිරීමට හේතුවක් දක්වන්න.');
+            }
+
             // Check if products belong to user's company (if items are being updated)
             if ($this->has('items')) {
                 foreach ($this->items as $index => $item) {
@@ -138,6 +144,7 @@ public function attributes(): array
             'items.*.quantity' => 'quantity',
             'items.*.unit_price' => 'unit price',
             'items.*.unit_weight' => 'unit weight',
+            'revision_note' => 'reason for change',
         ];
     }
 }
\ No newline at end of file
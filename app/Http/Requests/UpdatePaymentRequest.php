@@ -58,6 +58,7 @@ public function rules(): array
                 'nullable',
                 'string',
                 'max:200',
+                'unique:payments,gateway_reference,' . $paymentId,
             ],
             'cheque_number' => [
                 'nullable',
@@ -94,6 +95,7 @@ public function messages(): array
             'bank_name.required_if' => 'Bank name is required for bank transfers and cheques.',
             'cheque_number.required_if' => 'Cheque number is required for cheque payments.',
             'transaction_id.unique' => 'This transaction ID has already been used.',
+            'gateway_reference.unique' => 'This gateway reference has already been recorded.',
             'receipt_image.mimes' => 'Receipt must be a JPEG, PNG, JPG, or PDF file.',
             'receipt_image.max' => 'Receipt image size cannot exceed 5MB.',
         ];
@@ -26,6 +26,13 @@ public function rules(): array
             'production_notes' => 'nullable|string|max:2000',
             'special_instructions' => 'nullable|string|max:1000',
             'material_requirements' => 'nullable|array',
+            'material_requirements.*.material' => 'required|string|max:100',
+            'material_requirements.*.quantity' => 'nullable|numeric|min:0',
+            'material_requirements.*.unit' => 'nullable|string|max:30',
+            'design_files' => 'nullable|array',
+            'design_files.*' => 'file|mimes:pdf,jpg,jpeg,png,ai,psd|max:10240',
+            'remove_design_files' => 'nullable|array',
+            'remove_design_files.*' => 'string',
             
             // For standalone jobs
             'customer_id' => 'nullable|exists:customers,id',
@@ -42,6 +49,9 @@ public function messages(): array
             'estimated_completion.after' => 'Estimated completion must be in the future',
             'estimated_cost.min' => 'Estimated cost must be positive',
             'customer_id.exists' => 'Selected customer does not exist',
+            'material_requirements.*.material.required' => 'Each material requirement needs a material name',
+            'design_files.*.mimes' => 'Design files must be: pdf, jpg, jpeg, png, ai, psd',
+            'design_files.*.max' => 'Design files must not exceed 10MB',
         ];
     }
 
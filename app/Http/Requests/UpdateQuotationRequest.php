@@ -0,0 +1,70 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class UpdateQuotationRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return auth()->user()->can('edit quotations');
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'valid_until' => 'sometimes|date|after_or_equal:today',
+            'discount_amount' => 'sometimes|numeric|min:0',
+            'notes' => 'sometimes|nullable|string|max:1000',
+            'terms_conditions' => 'sometimes|nullable|string|max:2000',
+
+            'items' => 'sometimes|array|min:1',
+            'items.*.product_id' => 'required_with:items|exists:products,id',
+            'items.*.item_description' => 'sometimes|string|max:500',
+            'items.*.quantity' => 'required_with:items|numeric|min:0.01',
+            'items.*.unit_price' => 'sometimes|numeric|min:0',
+            'items.*.unit_weight' => 'sometimes|numeric|min:0',
+            'items.*.specifications' => 'sometimes|array',
+        ];
+    }
+
+    /**
+     * Get the error messages for the defined validation rules.
+     */
+    public function messages(): array
+    {
+        return [
+            'valid_until.after_or_equal' => 'Validity date cannot be in the past. / වලංගු දිනය අතීතයේ විය නොහැක.',
+            'discount_amount.min' => 'Discount amount cannot be negative. / වට්ටම් මුදල සෘණ විය නොහැක.',
+            'items.min' => 'At least one item is required. / අවම වශයෙන් එක් අයිතමයක් අවශ්‍යයි.',
+            'items.*.product_id.required_with' => 'Product is required for each item. / සෑම අයිතමයක් සඳහාම නිෂ්පාදනය අවශ්‍යයි.',
+            'items.*.quantity.required_with' => 'Quantity is required for each item. / සෑම අයිතමයක් සඳහාම ප්‍රමාණය අවශ්‍යයි.',
+            'items.*.quantity.min' => 'Quantity must be greater than zero. / ප්‍රමාණය ශුන්‍යයට වඩා වැඩි විය යුතුය.',
+            'items.*.unit_price.min' => 'Unit price cannot be negative. / ඒකක මිල සෘණ විය නොහැක.',
+        ];
+    }
+
+    /**
+     * Configure the validator instance.
+     */
+    public function withValidator($validator): void
+    {
+        $validator->after(function ($validator) {
+            foreach ($this->input('items', []) as $index => $item) {
+                if (isset($item['product_id'])) {
+                    $product = \App\Models\Product::find($item['product_id']);
+                    if ($product && $product->company_id !== auth()->user()->company_id) {
+                        $validator->errors()->add("items.{$index}.product_id", 'Product does not belong to your company.');
+                    }
+                }
+            }
+        });
+    }
+}
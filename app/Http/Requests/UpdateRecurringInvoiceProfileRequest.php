@@ -0,0 +1,92 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+class UpdateRecurringInvoiceProfileRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return auth()->user()->can('manage recurring invoices');
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        return [
+            'name' => 'sometimes|string|max:150',
+            'customer_id' => 'sometimes|exists:customers,id',
+            'branch_id' => 'sometimes|exists:branches,id',
+            'recurring_period' => 'sometimes|in:weekly,monthly,quarterly,yearly',
+            'start_date' => 'sometimes|date',
+            'end_date' => 'nullable|date|after:start_date',
+            'payment_terms_days' => 'sometimes|integer|min:0|max:365',
+            'discount_amount' => 'sometimes|numeric|min:0',
+            'auto_send' => 'sometimes|boolean',
+            'notes' => 'sometimes|nullable|string|max:1000',
+            'terms_conditions' => 'sometimes|nullable|string|max:2000',
+
+            'items' => 'sometimes|array|min:1',
+            'items.*.product_id' => 'required_with:items|exists:products,id',
+            'items.*.item_description' => 'sometimes|string|max:500',
+            'items.*.quantity' => 'required_with:items|numeric|min:0.01',
+            'items.*.unit_price' => 'nullable|numeric|min:0',
+            'items.*.specifications' => 'sometimes|nullable|array',
+        ];
+    }
+
+    /**
+     * Get the error messages for the defined validation rules.
+     */
+    public function messages(): array
+    {
+        return [
+            'end_date.after' => 'End date must be after the start date. / අවසන් දිනය ආරම්භක දිනයට පසුව විය යුතුය.',
+            'discount_amount.min' => 'Discount amount cannot be negative. / වට්ටම් මුදල සෘණ විය නොහැක.',
+            'items.min' => 'At least one item is required. / අවම වශයෙන් එක් අයිතමයක් අවශ්‍යයි.',
+            'items.*.product_id.required_with' => 'Product is required for each item. / සෑම අයිතමයක් සඳහාම නිෂ්පාදනය අවශ්‍යයි.',
+            'items.*.quantity.required_with' => 'Quantity is required for each item. / සෑම අයිතමයක් සඳහාම ප්‍රමාණය අවශ්‍යයි.',
+            'items.*.quantity.min' => 'Quantity must be greater than zero. / ප්‍රමාණය ශුන්‍යයට වඩා වැඩි විය යුතුය.',
+            'items.*.unit_price.min' => 'Unit price cannot be negative. / ඒකක මිල සෘණ විය නොහැක.',
+        ];
+    }
+
+    /**
+     * Configure the validator instance.
+     */
+    public function withValidator($validator): void
+    {
+        $validator->after(function ($validator) {
+            $companyId = auth()->user()->company_id;
+
+            if ($this->customer_id) {
+                $customer = \App\Models\Customer::find($this->customer_id);
+                if ($customer && $customer->company_id !== $companyId) {
+                    $validator->errors()->add('customer_id', 'Customer does not belong to your company.');
+                }
+            }
+
+            if ($this->branch_id) {
+                $branch = \App\Models\Branch::find($this->branch_id);
+                if ($branch && $branch->company_id !== $companyId) {
+                    $validator->errors()->add('branch_id', 'Branch does not belong to your company.');
+                }
+            }
+
+            foreach ($this->input('items', []) as $index => $item) {
+                if (isset($item['product_id'])) {
+                    $product = \App\Models\Product::find($item['product_id']);
+                    if ($product && $product->company_id !== $companyId) {
+                        $validator->errors()->add("items.{$index}.product_id", 'Product does not belong to your company.');
+                    }
+                }
+            }
+        });
+    }
+}
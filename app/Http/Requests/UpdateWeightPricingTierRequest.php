@@ -0,0 +1,74 @@
+<?php
+// app/Http/Requests/UpdateWeightPricingTierRequest.php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class UpdateWeightPricingTierRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return $this->user() && $this->user()->can('edit weight pricing');
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     */
+    public function rules(): array
+    {
+        $tierId = $this->route('id') ?? $this->route('weight_pricing');
+
+        return [
+            'tier_name' => [
+                'required',
+                'string',
+                'max:255',
+                Rule::unique('weight_pricing_tiers', 'tier_name')->where(function ($query) {
+                    return $query->where('company_id', $this->user()->company_id);
+                })->ignore($tierId),
+            ],
+            'min_weight' => ['required', 'numeric', 'min:0', 'max:99999.999'],
+            'max_weight' => ['nullable', 'numeric', 'gt:min_weight', 'max:99999.999'],
+            'base_price' => ['required', 'numeric', 'min:0', 'max:99999999.99'],
+            'price_per_kg' => ['nullable', 'numeric', 'min:0', 'max:99999999.99'],
+            'status' => ['required', 'in:active,inactive'],
+            'sort_order' => ['nullable', 'integer', 'min:0', 'max:9999'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     */
+    public function messages(): array
+    {
+        return [
+            'tier_name.required' => 'Tier name is required. / ස්ථර නාමය අවශ්‍යයි.',
+            'tier_name.unique' => 'A tier with this name already exists. / මෙම නාමය සහිත ස්ථරයක් දැනටමත් පවතී.',
+            'min_weight.required' => 'Minimum weight is required. / අවම බර අවශ්‍යයි.',
+            'min_weight.min' => 'Minimum weight cannot be negative. / අවම බර සෘණ විය නොහැක.',
+            'max_weight.gt' => 'Maximum weight must be greater than the minimum weight. / උපරිම බර අවම බරට වඩා වැඩි විය යුතුය.',
+            'base_price.required' => 'Base price is required. / මූලික මිල අවශ්‍යයි.',
+            'base_price.min' => 'Base price cannot be negative. / මූලික මිල සෘණ විය නොහැක.',
+            'price_per_kg.min' => 'Price per kg cannot be negative. / කිලෝග්‍රෑමයකට මිල සෘණ විය නොහැක.',
+            'status.in' => 'Status must be either active or inactive. / තත්ත්වය active හෝ inactive විය යුතුය.',
+        ];
+    }
+
+    /**
+     * Prepare the data for validation.
+     */
+    protected function prepareForValidation(): void
+    {
+        $this->merge([
+            'tier_name' => $this->tier_name ? trim($this->tier_name) : null,
+            'max_weight' => $this->max_weight === '' ? null : $this->max_weight,
+            'price_per_kg' => $this->price_per_kg === '' || $this->price_per_kg === null ? 0 : $this->price_per_kg,
+            'sort_order' => $this->sort_order ?? 0,
+        ]);
+    }
+}
@@ -0,0 +1,22 @@
+<?php
+// app/Listeners/RecordInvoiceEmailSent.php
+
+namespace App\Listeners;
+
+use App\Models\InvoiceEmail;
+use Illuminate\Mail\Events\MessageSent;
+
+class RecordInvoiceEmailSent
+{
+    /**
+     * Mark the invoice send log entry as sent once the mailer has accepted the message
+     */
+    public function handle(MessageSent $event): void
+    {
+        $invoiceEmail = $event->data['invoiceEmail'] ?? null;
+
+        if ($invoiceEmail instanceof InvoiceEmail) {
+            $invoiceEmail->markAsSent();
+        }
+    }
+}
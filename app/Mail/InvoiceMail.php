@@ -0,0 +1,74 @@
+<?php
+// app/Mail/InvoiceMail.php
+
+namespace App\Mail;
+
+use App\Models\InvoiceEmail;
+use App\Services\InvoiceService;
+use Illuminate\Bus\Queueable;
+use Illuminate\Contracts\Queue\ShouldQueue;
+use Illuminate\Mail\Mailable;
+use Illuminate\Mail\Mailables\Attachment;
+use Illuminate\Mail\Mailables\Content;
+use Illuminate\Mail\Mailables\Envelope;
+use Illuminate\Queue\SerializesModels;
+
+class InvoiceMail extends Mailable implements ShouldQueue
+{
+    use Queueable, SerializesModels;
+
+    public int $tries = 3;
+
+    public int $backoff = 60;
+
+    /**
+     * The send log entry is public so RecordInvoiceEmailSent can find it in the message data
+     */
+    public function __construct(public InvoiceEmail $invoiceEmail)
+    {
+    }
+
+    public function envelope(): Envelope
+    {
+        $company = $this->invoiceEmail->company;
+
+        return new Envelope(
+            subject: $this->invoiceEmail->subject,
+            replyTo: $company->email ? [$company->email] : [],
+        );
+    }
+
+    public function content(): Content
+    {
+        return new Content(
+            view: 'emails.invoice',
+            with: [
+                'company' => $this->invoiceEmail->company,
+                'body' => $this->invoiceEmail->body,
+            ],
+        );
+    }
+
+    /**
+     * The PDF is rendered when the queued mail is sent, so it shows the balance at that time
+     */
+    public function attachments(): array
+    {
+        $invoice = $this->invoiceEmail->invoice;
+
+        return [
+            Attachment::fromData(
+                fn () => app(InvoiceService::class)->generatePDF($invoice->id, $invoice->company_id),
+                "{$invoice->invoice_number}.pdf"
+            )->withMime('application/pdf'),
+        ];
+    }
+
+    /**
+     * Called by the queue once every attempt has failed
+     */
+    public function failed(\Throwable $exception): void
+    {
+        $this->invoiceEmail->markAsFailed($exception->getMessage());
+    }
+}
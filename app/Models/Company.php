@@ -29,6 +29,7 @@ class Company extends Model
     protected $casts = [
         'settings' => 'array',
         'tax_rate' => 'decimal:2',
+        'bank_details' => 'array',
     ];
 
     protected $attributes = [
@@ -76,6 +77,20 @@ public function getLogoUrlAttribute(): ?string
         return $this->logo ? Storage::url($this->logo) : null;
     }
 
+    /**
+     * Logo embedded as a data URI, for PDFs rendered without access to the public URL
+     */
+    public function getLogoDataUriAttribute(): ?string
+    {
+        if (!$this->logo || !Storage::disk('public')->exists($this->logo)) {
+            return null;
+        }
+
+        $disk = Storage::disk('public');
+
+        return 'data:' . $disk->mimeType($this->logo) . ';base64,' . base64_encode($disk->get($this->logo));
+    }
+
     /**
      * Check if company is active
      */
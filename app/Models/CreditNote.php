@@ -0,0 +1,130 @@
+<?php
+// app/Models/CreditNote.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+
+class CreditNote extends Model
+{
+    protected $fillable = [
+        'company_id',
+        'branch_id',
+        'invoice_id',
+        'customer_id',
+        'created_by',
+        'credit_note_number',
+        'credit_date',
+        'reason',
+        'subtotal',
+        'tax_amount',
+        'amount',
+        'balance_adjustment',
+        'status',
+        'voided_at',
+        'voided_by',
+        'void_reason',
+        'notes',
+    ];
+
+    protected $casts = [
+        'credit_date' => 'date',
+        'subtotal' => 'decimal:2',
+        'tax_amount' => 'decimal:2',
+        'amount' => 'decimal:2',
+        'balance_adjustment' => 'decimal:2',
+        'voided_at' => 'datetime',
+    ];
+
+    protected $attributes = [
+        'status' => 'issued',
+        'subtotal' => 0.00,
+        'tax_amount' => 0.00,
+        'amount' => 0.00,
+        'balance_adjustment' => 0.00,
+    ];
+
+    // Relationships
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    public function branch(): BelongsTo
+    {
+        return $this->belongsTo(Branch::class);
+    }
+
+    public function invoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class);
+    }
+
+    public function customer(): BelongsTo
+    {
+        return $this->belongsTo(Customer::class);
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    public function voidedBy(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'voided_by');
+    }
+
+    public function items(): HasMany
+    {
+        return $this->hasMany(CreditNoteItem::class);
+    }
+
+    public function refunds(): HasMany
+    {
+        return $this->hasMany(Payment::class)->where('payment_type', 'refund');
+    }
+
+    // Scopes
+    public function scopeForCompany($query, $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    public function scopeIssued($query)
+    {
+        return $query->where('status', 'issued');
+    }
+
+    // Accessors
+    public function getFormattedAmountAttribute(): string
+    {
+        return 'Rs. ' . number_format($this->amount, 2);
+    }
+
+    public function getStatusLabelAttribute(): string
+    {
+        return match($this->status) {
+            'issued' => 'Issued',
+            'void' => 'Void',
+            default => 'Unknown'
+        };
+    }
+
+    // Methods
+    public function isVoid(): bool
+    {
+        return $this->status === 'void';
+    }
+
+    /**
+     * Credits that money has already been paid back against have to stay
+     */
+    public function canBeVoided(): bool
+    {
+        return $this->status === 'issued'
+            && !$this->refunds()->where('status', 'completed')->exists();
+    }
+}
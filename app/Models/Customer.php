@@ -32,6 +32,7 @@ class Customer extends Model
         'current_balance',
         'status',
         'customer_type',
+        'price_list_id',
         'date_of_birth',
         'age',
         'company_name',
@@ -77,6 +78,16 @@ public function payments(): HasMany
         return $this->hasMany(Payment::class);
     }
 
+    public function creditNotes(): HasMany
+    {
+        return $this->hasMany(CreditNote::class);
+    }
+
+    public function priceList(): BelongsTo
+    {
+        return $this->belongsTo(PriceList::class);
+    }
+
     // Scopes
     public function scopeActive($query)
     {
@@ -273,9 +284,14 @@ public function getTotalPaidAmount(): float
         return $this->payments()->where('status', 'completed')->sum('amount');
     }
 
+    public function getTotalCreditedAmount(): float
+    {
+        return $this->creditNotes()->issued()->sum('amount');
+    }
+
     public function getOutstandingBalance(): float
     {
-        return $this->getTotalInvoiceAmount() - $this->getTotalPaidAmount();
+        return $this->getTotalInvoiceAmount() - $this->getTotalCreditedAmount() - $this->getTotalPaidAmount();
     }
 
     public function updateCurrentBalance(): void
@@ -306,6 +322,25 @@ public function removePreference(string $key): void
         $this->save();
     }
 
+    /**
+     * Store phone numbers in one format so they can be matched; Sri Lankan numbers become +94XXXXXXXXX
+     */
+    public static function normalizePhone(string $phone): string
+    {
+        // Remove all non-digit and non-plus characters
+        $cleaned = preg_replace('/[^\d\+]/', '', $phone);
+
+        if (preg_match('/^0[1-9][0-9]{8}$/', $cleaned)) {
+            // Convert 0771234567 to +94771234567
+            $cleaned = '+94' . substr($cleaned, 1);
+        } elseif (preg_match('/^94[1-9][0-9]{8}$/', $cleaned)) {
+            // Convert 94771234567 to +94771234567
+            $cleaned = '+' . $cleaned;
+        }
+
+        return $cleaned;
+    }
+
     // Auto-update age when date_of_birth changes
     protected static function boot()
     {
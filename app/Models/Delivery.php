@@ -17,7 +17,10 @@ class Delivery extends Model
     use HasFactory, SoftDeletes;
 
     protected $fillable = [
+        'company_id',
         'invoice_id',
+        'print_job_id',
+        'customer_id',
         'branch_id',
         'assigned_to',
         'tracking_number',
@@ -40,6 +43,7 @@ class Delivery extends Model
         'customer_feedback',
         'delivery_attempts',
         'last_attempt_at',
+        'created_by',
     ];
 
     protected $casts = [
@@ -62,11 +66,31 @@ class Delivery extends Model
     ];
 
     // Relationships
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
     public function invoice(): BelongsTo
     {
         return $this->belongsTo(Invoice::class);
     }
 
+    public function printJob(): BelongsTo
+    {
+        return $this->belongsTo(PrintJob::class);
+    }
+
+    public function customer(): BelongsTo
+    {
+        return $this->belongsTo(Customer::class);
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
     public function branch(): BelongsTo
     {
         return $this->belongsTo(Branch::class);
@@ -183,6 +207,27 @@ public function getDeliveryImageUrlAttribute(): ?string
         return $this->delivery_image ? Storage::url($this->delivery_image) : null;
     }
 
+    public function getProofDetailsAttribute(): ?array
+    {
+        if (!$this->delivery_proof && !$this->delivery_image) {
+            return null;
+        }
+
+        $proof = $this->delivery_proof ?? [];
+
+        return [
+            'recipient_name' => $proof['recipient_name'] ?? null,
+            'signature_url' => !empty($proof['signature_path']) ? Storage::url($proof['signature_path']) : null,
+            'photo_url' => $this->delivery_image_url,
+            'latitude' => $this->latitude !== null ? (float) $this->latitude : null,
+            'longitude' => $this->longitude !== null ? (float) $this->longitude : null,
+            'accuracy' => $proof['accuracy'] ?? null,
+            'captured_at' => $proof['captured_at'] ?? $this->actual_delivery_datetime?->toISOString(),
+            'captured_by' => $proof['captured_by_name'] ?? null,
+            'customer_feedback' => $this->customer_feedback,
+        ];
+    }
+
     public function getFormattedEstimatedDateAttribute(): ?string
     {
         return $this->estimated_delivery_date?->format('Y-m-d');
@@ -359,7 +404,7 @@ public function cancel(?string $notes = null): bool
     public function generateTrackingNumber(): string
     {
         $prefix = 'DEL';
-        $branchCode = $this->branch?->branch_code ?? 'B001';
+        $branchCode = $this->branch?->code ?? 'B001';
         $timestamp = now()->format('ymdHis');
         $random = str_pad(mt_rand(1, 9999), 4, '0', STR_PAD_LEFT);
         
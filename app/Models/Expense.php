@@ -6,6 +6,7 @@
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\SoftDeletes;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
 use Illuminate\Database\Eloquent\Builder;
 use Illuminate\Support\Facades\Storage;
 use Carbon\Carbon;
@@ -20,7 +21,8 @@ class Expense extends Model
     'expense_number', 'expense_date', 'amount', 'description', 'vendor_name',
     'vendor_address', 'vendor_phone', 'vendor_email', 'payment_method',
     'payment_reference', 'receipt_number', 'receipt_attachments', 'status',
-    'priority', 'is_recurring', 'recurring_period', 'next_due_date', 'notes', 
+    'priority', 'is_recurring', 'recurring_period', 'next_due_date',
+    'recurring_parent_id', 'recurring_auto_submit', 'notes', 
     'approval_notes', 'rejection_reason', 'approved_at', 'paid_at', 
     'metadata', 'tax_details'
 ];
@@ -30,6 +32,8 @@ class Expense extends Model
         'amount' => 'decimal:2',
         'receipt_attachments' => 'json',
         'is_recurring' => 'boolean',
+        'next_due_date' => 'date',
+        'recurring_auto_submit' => 'boolean',
         'due_date' => 'date',
         'approved_at' => 'datetime',
         'paid_at' => 'datetime',
@@ -77,6 +81,16 @@ public function approvedBy(): BelongsTo
         return $this->belongsTo(User::class, 'approved_by');
     }
 
+    public function recurringParent(): BelongsTo
+    {
+        return $this->belongsTo(Expense::class, 'recurring_parent_id');
+    }
+
+    public function recurringOccurrences(): HasMany
+    {
+        return $this->hasMany(Expense::class, 'recurring_parent_id');
+    }
+
     // Scopes
     public function scopeForCompany(Builder $query, int $companyId): Builder
     {
@@ -108,6 +122,19 @@ public function scopeApproved(Builder $query): Builder
         return $query->where('approval_status', 'approved');
     }
 
+    /**
+     * Originals of recurring series whose next occurrence falls on or before the given date
+     */
+    public function scopeRecurringDue(Builder $query, $date = null): Builder
+    {
+        return $query->where('is_recurring', true)
+                    ->whereNull('recurring_parent_id')
+                    ->where('status', '!=', 'cancelled')
+                    ->whereNotNull('recurring_period')
+                    ->whereNotNull('next_due_date')
+                    ->whereDate('next_due_date', '<=', $date ?? now()->toDateString());
+    }
+
     public function scopeThisMonth(Builder $query): Builder
     {
         return $query->whereMonth('expense_date', now()->month)
@@ -131,6 +158,26 @@ public function getCanEditAttribute(): bool
     }
 
     // Methods
+    /**
+     * The original expense of the recurring series this expense belongs to
+     */
+    public function recurringSeriesRoot(): ?Expense
+    {
+        if ($this->recurring_parent_id) {
+            return $this->recurringParent;
+        }
+
+        return $this->is_recurring ? $this : null;
+    }
+
+    public function isRecurringSeriesActive(): bool
+    {
+        return $this->is_recurring
+            && !$this->recurring_parent_id
+            && $this->status !== 'cancelled'
+            && $this->next_due_date !== null;
+    }
+
     public function submitForApproval(string $notes = null): bool
     {
         if ($this->approval_status !== 'draft') {
@@ -6,6 +6,7 @@
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\Relations\HasOne;
 use Illuminate\Database\Eloquent\SoftDeletes;
 use Carbon\Carbon;
 
@@ -17,6 +18,7 @@ class Invoice extends Model
         'company_id',
         'branch_id',
         'customer_id',
+        'recurring_invoice_profile_id',
         'created_by',
         'invoice_number',
         'invoice_date',
@@ -122,6 +124,31 @@ public function paymentNotifications(): HasMany
         return $this->hasMany(PaymentNotification::class);
     }
 
+    public function revisions(): HasMany
+    {
+        return $this->hasMany(InvoiceRevision::class)->orderByDesc('revision_number');
+    }
+
+    public function creditNotes(): HasMany
+    {
+        return $this->hasMany(CreditNote::class);
+    }
+
+    public function emails(): HasMany
+    {
+        return $this->hasMany(InvoiceEmail::class)->orderByDesc('id');
+    }
+
+    public function quotation(): HasOne
+    {
+        return $this->hasOne(Quotation::class);
+    }
+
+    public function recurringProfile(): BelongsTo
+    {
+        return $this->belongsTo(RecurringInvoiceProfile::class, 'recurring_invoice_profile_id');
+    }
+
     // Scopes
     public function scopeForCompany($query, $companyId)
     {
@@ -202,7 +229,7 @@ public function getFormattedWeightAttribute(): string
 
     public function getIsOverdueAttribute(): bool
     {
-        return $this->due_date < now() && $this->payment_status !== 'paid';
+        return $this->due_date < now() && !in_array($this->payment_status, ['paid', 'credited']);
     }
 
     public function getDaysOverdueAttribute(): int
@@ -215,15 +242,30 @@ public function getDaysOverdueAttribute(): int
 
     public function getRemainingAmountAttribute(): float
     {
-        $totalPaid = $this->payments()->where('status', 'completed')->sum('amount');
-        return max(0, $this->total_amount - $totalPaid);
+        return max(0, $this->total_amount - $this->total_credited - $this->total_paid);
     }
 
+    /**
+     * Payments received less refunds paid out (refunds are stored as negative amounts)
+     */
     public function getTotalPaidAttribute(): float
     {
         return $this->payments()->where('status', 'completed')->sum('amount');
     }
 
+    public function getTotalCreditedAttribute(): float
+    {
+        return $this->creditNotes()->issued()->sum('amount');
+    }
+
+    /**
+     * Money received beyond what is still owed once credit notes are taken off
+     */
+    public function getRefundableAmountAttribute(): float
+    {
+        return max(0, round($this->total_paid - ($this->total_amount - $this->total_credited), 2));
+    }
+
     public function getStatusLabelAttribute(): string
     {
         return match($this->status) {
@@ -242,6 +284,7 @@ public function getPaymentStatusLabelAttribute(): string
             'pending' => 'Pending Payment',
             'partially_paid' => 'Partially Paid',
             'paid' => 'Paid',
+            'credited' => 'Credited',
             'refunded' => 'Refunded',
             default => 'Unknown'
         };
@@ -265,6 +308,7 @@ public function getPaymentStatusColorAttribute(): string
             'pending' => 'red',
             'partially_paid' => 'yellow',
             'paid' => 'green',
+            'credited' => 'gray',
             'refunded' => 'gray',
             default => 'gray'
         };
@@ -292,37 +336,11 @@ public function calculateTotals(): void
 
     private function calculateWeightCharge(): float
     {
-        $weight = $this->total_weight;
-        
-        // Check if company has custom weight pricing tiers
-        $weightTier = WeightPricingTier::where('company_id', $this->company_id)
-            ->where('status', 'active')
-            ->where('min_weight', '<=', $weight)
-            ->where(function($query) use ($weight) {
-                $query->where('max_weight', '>=', $weight)
-                      ->orWhereNull('max_weight');
-            })
-            ->orderBy('min_weight', 'desc')
-            ->first();
-
-        if ($weightTier) {
-            $basePrice = $weightTier->base_price;
-            $extraWeight = max(0, $weight - $weightTier->min_weight);
-            return $basePrice + ($extraWeight * $weightTier->price_per_kg);
-        }
+        // Same tier lookup the invoice service and pricing calculator use
+        $calculation = app(\App\Repositories\WeightPricingTierRepository::class)
+            ->calculateDeliveryPrice($this->company_id, (float) $this->total_weight);
 
-        // Default weight-based pricing if no custom tiers
-        if ($weight <= 1) {
-            return 200; // Light (0-1kg): Rs. 200 flat rate
-        } elseif ($weight <= 3) {
-            return 300; // Medium (1-3kg): Rs. 300 flat rate
-        } elseif ($weight <= 5) {
-            return 400; // Heavy (3-5kg): Rs. 400 flat rate
-        } elseif ($weight <= 10) {
-            return 500 + (($weight - 5) * 50); // Extra Heavy (5-10kg): Rs. 500 + additional charges
-        } else {
-            return 750 + (($weight - 10) * 75); // Bulk (10kg+): Rs. 750 + per kg charges
-        }
+        return round((float) $calculation['price'], 2);
     }
 
     public function markAsPaid(): bool
@@ -341,10 +359,14 @@ public function markAsPartiallyPaid(): bool
     public function updatePaymentStatus(): void
     {
         $totalPaid = $this->total_paid;
+        $totalCredited = $this->total_credited;
         
-        if ($totalPaid <= 0) {
+        if ($totalCredited > 0 && $totalCredited >= $this->total_amount && $totalPaid <= 0) {
+            // Nothing is owed; whatever was paid has been handed back, or nothing was paid at all
+            $this->payment_status = $this->payments()->refunds()->where('status', 'completed')->exists() ? 'refunded' : 'credited';
+        } elseif ($totalPaid <= 0) {
             $this->payment_status = 'pending';
-        } elseif ($totalPaid >= $this->total_amount) {
+        } elseif ($totalPaid >= $this->total_amount - $totalCredited) {
             $this->payment_status = 'paid';
         } else {
             $this->payment_status = 'partially_paid';
@@ -358,9 +380,56 @@ public function canBeDeleted(): bool
         return $this->status === 'draft' && $this->payments()->count() === 0;
     }
 
+    /**
+     * Plain editing is for draft and pending invoices without payments; anything else goes through
+     * the "override invoice lock" permission with a revision note
+     */
     public function canBeModified(): bool
     {
-        return in_array($this->status, ['draft', 'pending']) && $this->payments()->count() === 0;
+        return in_array($this->status, ['draft', 'pending'])
+            && $this->payments()->count() === 0
+            && $this->getEditLockReason() === null;
+    }
+
+    /**
+     * Cancelled, fully credited and refunded invoices are closed for good
+     */
+    public function isEditable(): bool
+    {
+        return $this->status !== 'cancelled' && !in_array($this->payment_status, ['credited', 'refunded']);
+    }
+
+    /**
+     * Why editing needs the "override invoice lock" permission, or null when it doesn't
+     */
+    public function getEditLockReason(): ?string
+    {
+        if ($this->creditNotes()->issued()->exists()) {
+            return 'Credit notes have been issued against this invoice.';
+        }
+
+        if ($this->payment_status === 'paid') {
+            return 'This invoice has been paid.';
+        }
+
+        if ($this->payment_status === 'partially_paid' || $this->payments()->exists()) {
+            return 'Payments have been recorded against this invoice.';
+        }
+
+        if ($this->status === 'completed') {
+            return 'This invoice has been completed.';
+        }
+
+        if ($this->status === 'processing'
+            || $this->printJobs()->whereNotIn('production_status', ['pending', 'cancelled'])->exists()) {
+            return 'This invoice is in production.';
+        }
+
+        if (!in_array($this->status, ['draft', 'pending'])) {
+            return "This invoice is {$this->status}.";
+        }
+
+        return null;
     }
 
     public function generateInvoiceNumber(): string
@@ -0,0 +1,71 @@
+<?php
+// app/Models/InvoiceEmail.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class InvoiceEmail extends Model
+{
+    protected $fillable = [
+        'invoice_id',
+        'company_id',
+        'sent_by',
+        'resent_from_id',
+        'recipient',
+        'subject',
+        'body',
+        'status',
+        'error',
+        'sent_at',
+    ];
+
+    protected $casts = [
+        'sent_at' => 'datetime',
+    ];
+
+    protected $attributes = [
+        'status' => 'queued',
+    ];
+
+    public function invoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class);
+    }
+
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    public function sender(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'sent_by');
+    }
+
+    public function resentFrom(): BelongsTo
+    {
+        return $this->belongsTo(InvoiceEmail::class, 'resent_from_id');
+    }
+
+    public function markAsSent(): void
+    {
+        $this->update(['status' => 'sent', 'sent_at' => now(), 'error' => null]);
+    }
+
+    public function markAsFailed(string $error): void
+    {
+        $this->update(['status' => 'failed', 'error' => mb_substr($error, 0, 500)]);
+    }
+
+    public function getStatusLabelAttribute(): string
+    {
+        return match ($this->status) {
+            'queued' => 'Queued',
+            'sent' => 'Sent',
+            'failed' => 'Failed',
+            default => ucfirst($this->status),
+        };
+    }
+}
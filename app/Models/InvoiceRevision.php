@@ -0,0 +1,45 @@
+<?php
+// app/Models/InvoiceRevision.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class InvoiceRevision extends Model
+{
+    protected $fillable = [
+        'invoice_id',
+        'user_id',
+        'revision_number',
+        'changes',
+        'item_changes',
+        'old_total',
+        'new_total',
+        'lock_reason',
+        'note',
+    ];
+
+    protected $casts = [
+        'revision_number' => 'integer',
+        'changes' => 'array',
+        'item_changes' => 'array',
+        'old_total' => 'decimal:2',
+        'new_total' => 'decimal:2',
+    ];
+
+    public function invoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class);
+    }
+
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    public function getTotalDifferenceAttribute(): float
+    {
+        return round((float) $this->new_total - (float) $this->old_total, 2);
+    }
+}
@@ -16,6 +16,7 @@ class Payment extends Model
 
     protected $fillable = [
         'invoice_id',
+        'credit_note_id',
         'branch_id',
         'customer_id',
         'received_by',
@@ -23,6 +24,7 @@ class Payment extends Model
         'amount',
         'payment_date',
         'payment_method',
+        'payment_type',
         'bank_name',
         'gateway_reference',
         'transaction_id',
@@ -47,6 +49,7 @@ class Payment extends Model
     protected $attributes = [
         'status' => 'pending',
         'verification_status' => 'pending',
+        'payment_type' => 'payment',
         'amount' => 0.00,
     ];
 
@@ -76,6 +79,11 @@ public function verifiedBy(): BelongsTo
         return $this->belongsTo(User::class, 'verified_by');
     }
 
+    public function creditNote(): BelongsTo
+    {
+        return $this->belongsTo(CreditNote::class);
+    }
+
     public function paymentVerifications(): HasMany
     {
         return $this->hasMany(PaymentVerification::class);
@@ -97,6 +105,11 @@ public function scopeForBranch($query, $branchId)
         return $query->where('branch_id', $branchId);
     }
 
+    public function scopeRefunds($query)
+    {
+        return $query->where('payment_type', 'refund');
+    }
+
     public function scopeByStatus($query, $status)
     {
         return $query->where('status', $status);
@@ -335,7 +348,8 @@ public function canBeCancelled(): bool
 
     public function canBeRefunded(): bool
     {
-        return $this->status === 'completed' && $this->verification_status === 'verified';
+        return $this->status === 'completed' && $this->verification_status === 'verified'
+            && $this->payment_type !== 'refund';
     }
 
     public function isSuccessful(): bool
@@ -343,6 +357,11 @@ public function isSuccessful(): bool
         return $this->status === 'completed' && $this->verification_status === 'verified';
     }
 
+    public function isRefund(): bool
+    {
+        return $this->payment_type === 'refund';
+    }
+
     public function isPending(): bool
     {
         return $this->status === 'pending';
@@ -0,0 +1,96 @@
+<?php
+// app/Models/PriceList.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\SoftDeletes;
+
+class PriceList extends Model
+{
+    use HasFactory, SoftDeletes;
+
+    protected $fillable = [
+        'company_id',
+        'name',
+        'description',
+        'customer_type',
+        'valid_from',
+        'valid_until',
+        'is_active',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'valid_from' => 'date',
+        'valid_until' => 'date',
+        'is_active' => 'boolean',
+    ];
+
+    protected $attributes = [
+        'is_active' => true,
+    ];
+
+    // Relationships
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    public function items(): HasMany
+    {
+        return $this->hasMany(PriceListItem::class)->orderBy('product_id')->orderBy('min_quantity');
+    }
+
+    public function customers(): HasMany
+    {
+        return $this->hasMany(Customer::class);
+    }
+
+    public function createdBy(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    // Scopes
+    public function scopeForCompany(Builder $query, int $companyId): Builder
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    /**
+     * Active lists whose validity period covers today
+     */
+    public function scopeCurrent(Builder $query): Builder
+    {
+        $today = now()->toDateString();
+
+        return $query->where('is_active', true)
+            ->where(fn($q) => $q->whereNull('valid_from')->orWhere('valid_from', '<=', $today))
+            ->where(fn($q) => $q->whereNull('valid_until')->orWhere('valid_until', '>=', $today));
+    }
+
+    // Methods
+    public function isCurrent(): bool
+    {
+        return $this->is_active
+            && (!$this->valid_from || $this->valid_from->lte(today()))
+            && (!$this->valid_until || $this->valid_until->gte(today()));
+    }
+
+    /**
+     * The row for the product with the highest minimum quantity the order reaches
+     */
+    public function itemFor(int $productId, float $quantity): ?PriceListItem
+    {
+        return $this->items
+            ->where('product_id', $productId)
+            ->filter(fn(PriceListItem $item) => $item->min_quantity <= $quantity)
+            ->sortByDesc('min_quantity')
+            ->first();
+    }
+}
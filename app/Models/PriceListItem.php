@@ -0,0 +1,32 @@
+<?php
+// app/Models/PriceListItem.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class PriceListItem extends Model
+{
+    protected $fillable = [
+        'price_list_id',
+        'product_id',
+        'min_quantity',
+        'unit_price',
+    ];
+
+    protected $casts = [
+        'min_quantity' => 'integer',
+        'unit_price' => 'decimal:2',
+    ];
+
+    public function priceList(): BelongsTo
+    {
+        return $this->belongsTo(PriceList::class);
+    }
+
+    public function product(): BelongsTo
+    {
+        return $this->belongsTo(Product::class);
+    }
+}
@@ -19,9 +19,13 @@ class PrintJob extends Model
     protected $fillable = [
         'invoice_id',
         'branch_id',
+        'company_id',
+        'customer_id',
         'assigned_to',
         'job_number',
         'job_type',
+        'job_title',
+        'job_description',
         'specifications',
         'design_files',
         'production_status',
@@ -37,7 +41,9 @@ class PrintJob extends Model
         'batch_number',
         'completion_percentage',
         'special_instructions',
+        'customer_instructions',
         'material_requirements',
+        'created_by',
     ];
 
     protected $casts = [
@@ -73,11 +79,26 @@ public function branch(): BelongsTo
         return $this->belongsTo(Branch::class);
     }
 
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    public function customer(): BelongsTo
+    {
+        return $this->belongsTo(Customer::class);
+    }
+
     public function assignedTo(): BelongsTo
     {
         return $this->belongsTo(User::class, 'assigned_to');
     }
 
+    public function deliveries(): HasMany
+    {
+        return $this->hasMany(Delivery::class);
+    }
+
     public function productionStages(): HasMany
     {
         return $this->hasMany(ProductionStage::class, 'print_job_id', 'id')
@@ -188,6 +209,7 @@ public function getPriorityLabelAttribute(): string
         return match($this->priority) {
             'low' => 'Low',
             'normal' => 'Normal',
+            'medium' => 'Medium',
             'high' => 'High',
             'urgent' => 'Urgent',
             default => 'Normal'
@@ -0,0 +1,108 @@
+<?php
+// app/Models/PrintJobTemplate.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\SoftDeletes;
+use Illuminate\Database\Eloquent\Builder;
+
+class PrintJobTemplate extends Model
+{
+    use HasFactory, SoftDeletes;
+
+    protected $fillable = [
+        'company_id',
+        'customer_id',
+        'name',
+        'job_type',
+        'job_title',
+        'job_description',
+        'specifications',
+        'material_requirements',
+        'default_stages',
+        'priority',
+        'estimated_hours',
+        'estimated_cost',
+        'special_instructions',
+        'is_active',
+        'usage_count',
+        'last_used_at',
+        'created_by',
+    ];
+
+    protected $casts = [
+        'specifications' => 'json',
+        'material_requirements' => 'json',
+        'default_stages' => 'json',
+        'estimated_hours' => 'integer',
+        'estimated_cost' => 'decimal:2',
+        'is_active' => 'boolean',
+        'usage_count' => 'integer',
+        'last_used_at' => 'datetime',
+    ];
+
+    protected $attributes = [
+        'priority' => 'normal',
+        'is_active' => true,
+        'usage_count' => 0,
+    ];
+
+    // Relationships
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    public function customer(): BelongsTo
+    {
+        return $this->belongsTo(Customer::class);
+    }
+
+    public function createdBy(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    // Scopes
+    public function scopeActive(Builder $query): Builder
+    {
+        return $query->where('is_active', true);
+    }
+
+    public function scopeForCompany(Builder $query, int $companyId): Builder
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    // Accessors
+    public function getTotalStageMinutesAttribute(): int
+    {
+        return (int) collect($this->default_stages ?? [])->sum('estimated_duration');
+    }
+
+    /**
+     * Attributes a new print job starts with when created from this template
+     */
+    public function toPrintJobAttributes(): array
+    {
+        return [
+            'job_type' => $this->job_type,
+            'job_title' => $this->job_title ?? $this->name,
+            'job_description' => $this->job_description,
+            'specifications' => $this->specifications ?? [],
+            'material_requirements' => $this->material_requirements,
+            'priority' => $this->priority,
+            'estimated_cost' => $this->estimated_cost,
+            'special_instructions' => $this->special_instructions,
+            'customer_id' => $this->customer_id,
+        ];
+    }
+
+    public function markUsed(): void
+    {
+        $this->increment('usage_count', 1, ['last_used_at' => now()]);
+    }
+}
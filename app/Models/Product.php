@@ -59,6 +59,11 @@ public function category(): BelongsTo
         return $this->belongsTo(ProductCategory::class, 'category_id');
     }
 
+    public function priceListItems(): HasMany
+    {
+        return $this->hasMany(PriceListItem::class);
+    }
+
     public function invoiceItems(): HasMany
     {
         return $this->hasMany(InvoiceItem::class);
@@ -114,13 +119,30 @@ public function isActive(): bool
         return $this->status === 'active';
     }
 
-    public function calculatePrice(int $quantity): array
+    /**
+     * The quantity break from pricing_tiers that covers the quantity, if any
+     */
+    public function getPriceBreakFor(float $quantity): ?array
+    {
+        return collect($this->pricing_tiers ?? [])
+            ->filter(fn($tier) => $quantity >= $tier['min_quantity']
+                && (empty($tier['max_quantity']) || $quantity <= $tier['max_quantity']))
+            ->sortByDesc('min_quantity')
+            ->first();
+    }
+
+    /**
+     * Price the quantity at the given unit price, or at the quantity break / base price when none is given
+     */
+    public function calculatePrice(int $quantity, ?float $unitPrice = null): array
     {
-        $basePrice = $this->base_price * $quantity;
+        $unitPrice ??= (float) ($this->getPriceBreakFor($quantity)['unit_price'] ?? $this->base_price);
+        $basePrice = $unitPrice * $quantity;
         $totalWeight = $this->weight_per_unit * $quantity;
         $taxAmount = $basePrice * ($this->tax_rate / 100);
         
         return [
+            'unit_price' => $unitPrice,
             'base_price' => $basePrice,
             'total_weight' => $totalWeight,
             'tax_amount' => $taxAmount,
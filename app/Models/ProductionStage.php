@@ -124,31 +124,8 @@ public function scopeRecent(Builder $query, int $days = 7): Builder
     // Accessors
     public function getStageNameLabelAttribute(): string
     {
-        return match($this->stage_name) {
-            'design_review' => 'Design Review',
-            'customer_approval' => 'Customer Approval',
-            'pre_press_setup' => 'Pre-Press Setup',
-            'material_preparation' => 'Material Preparation',
-            'printing_setup' => 'Printing Setup',
-            'printing_process' => 'Printing Process',
-            'color_matching' => 'Color Matching',
-            'first_proof' => 'First Proof',
-            'customer_proof_approval' => 'Customer Proof Approval',
-            'production_run' => 'Production Run',
-            'cutting' => 'Cutting',
-            'folding' => 'Folding',
-            'binding' => 'Binding',
-            'laminating' => 'Laminating',
-            'coating' => 'Coating',
-            'die_cutting' => 'Die Cutting',
-            'embossing' => 'Embossing',
-            'foil_stamping' => 'Foil Stamping',
-            'quality_inspection' => 'Quality Inspection',
-            'packaging' => 'Packaging',
-            'final_review' => 'Final Review',
-            'ready_for_delivery' => 'Ready for Delivery',
-            default => ucfirst(str_replace('_', ' ', $this->stage_name))
-        };
+        return self::getStageNameOptions()[$this->stage_name]
+            ?? ucfirst(str_replace('_', ' ', $this->stage_name));
     }
 
     public function getStageStatusLabelAttribute(): string
@@ -280,6 +257,8 @@ public function getAttachmentUrlsAttribute(): array
         return collect($this->attachments)->map(function ($attachment) {
             return [
                 'url' => Storage::url($attachment['path']),
+                'name' => $attachment['original_name'] ?? basename($attachment['path']),
+                'mime_type' => $attachment['mime_type'] ?? null,
                 'type' => $attachment['type'] ?? 'file',
                 'description' => $attachment['description'] ?? null,
                 'uploaded_at' => $attachment['uploaded_at'] ?? null,
@@ -555,6 +534,34 @@ public function getPreviousStage(): ?ProductionStage
                     ->first();
     }
 
+    public static function getStageNameOptions(): array
+    {
+        return [
+            'design_review' => 'Design Review',
+            'customer_approval' => 'Customer Approval',
+            'pre_press_setup' => 'Pre-Press Setup',
+            'material_preparation' => 'Material Preparation',
+            'printing_setup' => 'Printing Setup',
+            'printing_process' => 'Printing Process',
+            'color_matching' => 'Color Matching',
+            'first_proof' => 'First Proof',
+            'customer_proof_approval' => 'Customer Proof Approval',
+            'production_run' => 'Production Run',
+            'cutting' => 'Cutting',
+            'folding' => 'Folding',
+            'binding' => 'Binding',
+            'laminating' => 'Laminating',
+            'coating' => 'Coating',
+            'die_cutting' => 'Die Cutting',
+            'embossing' => 'Embossing',
+            'foil_stamping' => 'Foil Stamping',
+            'quality_inspection' => 'Quality Inspection',
+            'packaging' => 'Packaging',
+            'final_review' => 'Final Review',
+            'ready_for_delivery' => 'Ready for Delivery',
+        ];
+    }
+
     protected static function boot()
     {
         parent::boot();
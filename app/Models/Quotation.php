@@ -0,0 +1,181 @@
+<?php
+// app/Models/Quotation.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\SoftDeletes;
+
+class Quotation extends Model
+{
+    use SoftDeletes;
+
+    protected $fillable = [
+        'company_id',
+        'branch_id',
+        'customer_id',
+        'created_by',
+        'quotation_number',
+        'quotation_date',
+        'valid_until',
+        'subtotal',
+        'weight_charge',
+        'tax_amount',
+        'discount_amount',
+        'total_amount',
+        'total_weight',
+        'status',
+        'sent_at',
+        'accepted_at',
+        'declined_at',
+        'decline_reason',
+        'invoice_id',
+        'converted_at',
+        'notes',
+        'terms_conditions',
+    ];
+
+    protected $casts = [
+        'quotation_date' => 'date',
+        'valid_until' => 'date',
+        'subtotal' => 'decimal:2',
+        'weight_charge' => 'decimal:2',
+        'tax_amount' => 'decimal:2',
+        'discount_amount' => 'decimal:2',
+        'total_amount' => 'decimal:2',
+        'total_weight' => 'decimal:3',
+        'sent_at' => 'datetime',
+        'accepted_at' => 'datetime',
+        'declined_at' => 'datetime',
+        'converted_at' => 'datetime',
+    ];
+
+    protected $attributes = [
+        'status' => 'draft',
+        'subtotal' => 0.00,
+        'weight_charge' => 0.00,
+        'tax_amount' => 0.00,
+        'discount_amount' => 0.00,
+        'total_amount' => 0.00,
+        'total_weight' => 0.000,
+    ];
+
+    // Relationships
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    public function branch(): BelongsTo
+    {
+        return $this->belongsTo(Branch::class);
+    }
+
+    public function customer(): BelongsTo
+    {
+        return $this->belongsTo(Customer::class);
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    public function invoice(): BelongsTo
+    {
+        return $this->belongsTo(Invoice::class);
+    }
+
+    public function items(): HasMany
+    {
+        return $this->hasMany(QuotationItem::class);
+    }
+
+    // Scopes
+    public function scopeForCompany($query, $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    public function scopeForBranch($query, $branchId)
+    {
+        return $query->where('branch_id', $branchId);
+    }
+
+    /**
+     * Draft and sent quotations whose validity date has passed
+     */
+    public function scopeExpired($query)
+    {
+        return $query->whereIn('status', ['draft', 'sent'])
+                    ->whereDate('valid_until', '<', now()->toDateString());
+    }
+
+    // Accessors
+    public function getIsExpiredAttribute(): bool
+    {
+        return in_array($this->status, ['draft', 'sent'])
+            && $this->valid_until
+            && $this->valid_until->lt(now()->startOfDay());
+    }
+
+    /**
+     * Stored status, or 'expired' once an open quotation is past its validity date
+     */
+    public function getEffectiveStatusAttribute(): string
+    {
+        return $this->is_expired ? 'expired' : $this->status;
+    }
+
+    public function getStatusLabelAttribute(): string
+    {
+        return match($this->effective_status) {
+            'draft' => 'Draft',
+            'sent' => 'Sent',
+            'accepted' => 'Accepted',
+            'declined' => 'Declined',
+            'expired' => 'Expired',
+            'converted' => 'Converted',
+            default => 'Unknown'
+        };
+    }
+
+    public function getFormattedTotalAttribute(): string
+    {
+        return 'Rs. ' . number_format($this->total_amount, 2);
+    }
+
+    // Methods
+    public function canBeModified(): bool
+    {
+        return in_array($this->status, ['draft', 'sent']);
+    }
+
+    public function canBeDeleted(): bool
+    {
+        return $this->status !== 'converted';
+    }
+
+    /**
+     * Only a live quotation can be accepted; declined and expired ones must be re-issued first
+     */
+    public function canBeAccepted(): bool
+    {
+        return in_array($this->status, ['draft', 'sent']) && !$this->is_expired;
+    }
+
+    public function canBeDeclined(): bool
+    {
+        return in_array($this->status, ['draft', 'sent', 'accepted']);
+    }
+
+    /**
+     * Accepted quotations convert; a live draft or sent one is accepted on the way
+     */
+    public function canBeConverted(): bool
+    {
+        return !$this->invoice_id && ($this->status === 'accepted' || $this->canBeAccepted());
+    }
+}
@@ -0,0 +1,43 @@
+<?php
+// app/Models/QuotationItem.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class QuotationItem extends Model
+{
+    protected $fillable = [
+        'quotation_id',
+        'product_id',
+        'item_description',
+        'quantity',
+        'unit_price',
+        'unit_weight',
+        'line_total',
+        'line_weight',
+        'tax_amount',
+        'specifications',
+    ];
+
+    protected $casts = [
+        'quantity' => 'decimal:2',
+        'unit_price' => 'decimal:2',
+        'unit_weight' => 'decimal:3',
+        'line_total' => 'decimal:2',
+        'line_weight' => 'decimal:3',
+        'tax_amount' => 'decimal:2',
+        'specifications' => 'json',
+    ];
+
+    public function quotation(): BelongsTo
+    {
+        return $this->belongsTo(Quotation::class);
+    }
+
+    public function product(): BelongsTo
+    {
+        return $this->belongsTo(Product::class);
+    }
+}
@@ -0,0 +1,184 @@
+<?php
+// app/Models/RecurringInvoiceProfile.php
+
+namespace App\Models;
+
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\SoftDeletes;
+
+class RecurringInvoiceProfile extends Model
+{
+    use HasFactory, SoftDeletes;
+
+    protected $fillable = [
+        'company_id',
+        'branch_id',
+        'customer_id',
+        'created_by',
+        'name',
+        'recurring_period',
+        'start_date',
+        'end_date',
+        'next_run_date',
+        'payment_terms_days',
+        'discount_amount',
+        'notes',
+        'terms_conditions',
+        'auto_send',
+        'status',
+        'last_run_at',
+        'last_error',
+    ];
+
+    protected $casts = [
+        'start_date' => 'date',
+        'end_date' => 'date',
+        'next_run_date' => 'date',
+        'payment_terms_days' => 'integer',
+        'discount_amount' => 'decimal:2',
+        'auto_send' => 'boolean',
+        'last_run_at' => 'datetime',
+    ];
+
+    protected $attributes = [
+        'recurring_period' => 'monthly',
+        'payment_terms_days' => 30,
+        'discount_amount' => 0.00,
+        'auto_send' => false,
+        'status' => 'active',
+    ];
+
+    // Relationships
+    public function company(): BelongsTo
+    {
+        return $this->belongsTo(Company::class);
+    }
+
+    public function branch(): BelongsTo
+    {
+        return $this->belongsTo(Branch::class);
+    }
+
+    public function customer(): BelongsTo
+    {
+        return $this->belongsTo(Customer::class);
+    }
+
+    public function creator(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'created_by');
+    }
+
+    public function items(): HasMany
+    {
+        return $this->hasMany(RecurringInvoiceProfileItem::class);
+    }
+
+    public function invoices(): HasMany
+    {
+        return $this->hasMany(Invoice::class);
+    }
+
+    // Scopes
+    public function scopeForCompany($query, $companyId)
+    {
+        return $query->where('company_id', $companyId);
+    }
+
+    public function scopeForBranch($query, $branchId)
+    {
+        return $query->where('branch_id', $branchId);
+    }
+
+    public function scopeActive($query)
+    {
+        return $query->where('status', 'active');
+    }
+
+    /**
+     * Active profiles with a run on or before the given date
+     */
+    public function scopeDue($query, $date = null)
+    {
+        return $query->active()
+                    ->whereNotNull('next_run_date')
+                    ->whereDate('next_run_date', '<=', $date ?? now()->toDateString());
+    }
+
+    // Accessors
+    public function getPeriodLabelAttribute(): string
+    {
+        return match($this->recurring_period) {
+            'weekly' => 'Weekly',
+            'monthly' => 'Monthly',
+            'quarterly' => 'Quarterly',
+            'yearly' => 'Yearly',
+            default => ucfirst($this->recurring_period)
+        };
+    }
+
+    public function getStatusLabelAttribute(): string
+    {
+        return match($this->status) {
+            'active' => 'Active',
+            'paused' => 'Paused',
+            'ended' => 'Ended',
+            default => 'Unknown'
+        };
+    }
+
+    // Methods
+    /**
+     * The run after the given date, or null when it falls past the end date
+     */
+    public function nextRunAfter(Carbon $date): ?Carbon
+    {
+        $next = match($this->recurring_period) {
+            'weekly' => $date->copy()->addWeek(),
+            'quarterly' => $date->copy()->addQuarterNoOverflow(),
+            'yearly' => $date->copy()->addYearNoOverflow(),
+            default => $date->copy()->addMonthNoOverflow(),
+        };
+
+        // Keep month-based runs on the start date's day so a 31st start isn't pulled to the 28th for good after February
+        if ($this->recurring_period !== 'weekly' && $this->start_date) {
+            $next->day(min($this->start_date->day, $next->daysInMonth));
+        }
+
+        return $this->end_date && $next->gt($this->end_date) ? null : $next;
+    }
+
+    /**
+     * The next few scheduled run dates, starting with next_run_date
+     */
+    public function upcomingRunDates(int $count = 3): array
+    {
+        if ($this->status !== 'active' || !$this->next_run_date) {
+            return [];
+        }
+
+        $dates = [];
+        $date = $this->next_run_date->copy();
+
+        while ($date && count($dates) < $count) {
+            $dates[] = $date->toDateString();
+            $date = $this->nextRunAfter($date);
+        }
+
+        return $dates;
+    }
+
+    public function canBePaused(): bool
+    {
+        return $this->status === 'active';
+    }
+
+    public function canBeResumed(): bool
+    {
+        return $this->status === 'paused';
+    }
+}
@@ -0,0 +1,38 @@
+<?php
+// app/Models/RecurringInvoiceProfileItem.php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class RecurringInvoiceProfileItem extends Model
+{
+    use HasFactory;
+
+    protected $fillable = [
+        'recurring_invoice_profile_id',
+        'product_id',
+        'item_description',
+        'quantity',
+        'unit_price',
+        'specifications',
+    ];
+
+    protected $casts = [
+        'quantity' => 'decimal:2',
+        'unit_price' => 'decimal:2',
+        'specifications' => 'json',
+    ];
+
+    public function profile(): BelongsTo
+    {
+        return $this->belongsTo(RecurringInvoiceProfile::class, 'recurring_invoice_profile_id');
+    }
+
+    public function product(): BelongsTo
+    {
+        return $this->belongsTo(Product::class);
+    }
+}
@@ -78,4 +78,16 @@ public function getModel(): Model
     {
         return $this->model;
     }
+
+    /**
+     * SQL expression for the year and month (YYYY-MM) of a date column on the model's database driver
+     */
+    protected function monthExpression(string $column): string
+    {
+        return match ($this->model->getConnection()->getDriverName()) {
+            'sqlite' => "strftime('%Y-%m', {$column})",
+            'pgsql' => "to_char({$column}, 'YYYY-MM')",
+            default => "DATE_FORMAT({$column}, '%Y-%m')",
+        };
+    }
 }
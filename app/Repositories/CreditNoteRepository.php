@@ -0,0 +1,72 @@
+<?php
+// app/Repositories/CreditNoteRepository.php
+
+namespace App\Repositories;
+
+use App\Models\Branch;
+use App\Models\CreditNote;
+use App\Models\CreditNoteItem;
+use Illuminate\Database\Eloquent\Collection;
+
+class CreditNoteRepository extends BaseRepository
+{
+    public function __construct(CreditNote $model)
+    {
+        parent::__construct($model);
+    }
+
+    /**
+     * Credit notes of an invoice with their lines and refunds, newest first
+     */
+    public function getForInvoice(int $invoiceId): Collection
+    {
+        return $this->model->with(['items', 'refunds', 'creator:id,name', 'voidedBy:id,name'])
+            ->where('invoice_id', $invoiceId)
+            ->orderBy('id', 'desc')
+            ->get();
+    }
+
+    /**
+     * Latest credit notes of a customer across all invoices
+     */
+    public function getForCustomer(int $customerId, int $limit = 10): Collection
+    {
+        return $this->model->with(['invoice:id,invoice_number', 'refunds'])
+            ->where('customer_id', $customerId)
+            ->orderBy('id', 'desc')
+            ->limit($limit)
+            ->get();
+    }
+
+    /**
+     * Quantity already credited per invoice item on issued credit notes
+     */
+    public function getCreditedQuantities(int $invoiceId): array
+    {
+        return CreditNoteItem::query()
+            ->whereHas('creditNote', fn ($q) => $q->where('invoice_id', $invoiceId)->issued())
+            ->whereNotNull('invoice_item_id')
+            ->groupBy('invoice_item_id')
+            ->selectRaw('invoice_item_id, SUM(quantity) as credited_quantity')
+            ->pluck('credited_quantity', 'invoice_item_id')
+            ->map(fn ($quantity) => (float) $quantity)
+            ->all();
+    }
+
+    /**
+     * Generate unique credit note number for branch
+     */
+    public function generateCreditNoteNumber(int $branchId): string
+    {
+        $branch = Branch::findOrFail($branchId);
+
+        $lastCreditNote = $this->model
+            ->where('branch_id', $branchId)
+            ->orderBy('id', 'desc')
+            ->first();
+
+        $nextNumber = $lastCreditNote ? intval(substr($lastCreditNote->credit_note_number, -6)) + 1 : 1;
+
+        return 'CN-' . $branch->code . '-' . str_pad($nextNumber, 6, '0', STR_PAD_LEFT);
+    }
+}
@@ -165,6 +165,7 @@ public function getForDropdown(int $companyId, ?int $branchId = null): Collectio
             'phone', 
             'email',
             'customer_type', 
+            'price_list_id',
             'company_name', 
             'credit_limit', 
             'current_balance'
@@ -0,0 +1,201 @@
+<?php
+// app/Repositories/DeliveryRepository.php
+
+namespace App\Repositories;
+
+use App\Models\Delivery;
+use App\Models\Invoice;
+use App\Models\PrintJob;
+use Carbon\Carbon;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Pagination\LengthAwarePaginator;
+
+class DeliveryRepository extends BaseRepository
+{
+    /**
+     * Statuses after which the same invoice or print job may be sent out again
+     */
+    public const RESENDABLE_STATUSES = ['returned', 'cancelled'];
+
+    public function __construct(Delivery $model)
+    {
+        parent::__construct($model);
+    }
+
+    /**
+     * Search and paginate deliveries with filters
+     */
+    public function searchAndPaginate(int $companyId, array $filters = [], int $perPage = 15): LengthAwarePaginator
+    {
+        $query = $this->model->newQuery()
+            ->with(['invoice:id,invoice_number', 'printJob:id,job_number', 'customer:id,name', 'branch:id,name', 'assignedTo:id,name'])
+            ->where('company_id', $companyId);
+
+        if (!empty($filters['search'])) {
+            $search = $filters['search'];
+
+            $query->where(function (Builder $q) use ($search) {
+                $q->where('tracking_number', 'like', "%{$search}%")
+                  ->orWhere('contact_person', 'like', "%{$search}%")
+                  ->orWhere('contact_phone', 'like', "%{$search}%")
+                  ->orWhere('external_tracking_id', 'like', "%{$search}%")
+                  ->orWhereHas('invoice', fn (Builder $subQ) => $subQ->where('invoice_number', 'like', "%{$search}%"))
+                  ->orWhereHas('printJob', fn (Builder $subQ) => $subQ->where('job_number', 'like', "%{$search}%"))
+                  ->orWhereHas('customer', fn (Builder $subQ) => $subQ->where('name', 'like', "%{$search}%"));
+            });
+        }
+
+        if (!empty($filters['status'])) {
+            $query->where('status', $filters['status']);
+        }
+
+        if (!empty($filters['delivery_method'])) {
+            $query->where('delivery_method', $filters['delivery_method']);
+        }
+
+        if (!empty($filters['branch_id'])) {
+            $query->where('branch_id', $filters['branch_id']);
+        }
+
+        if (!empty($filters['assigned_to'])) {
+            $query->where('assigned_to', $filters['assigned_to']);
+        }
+
+        if (!empty($filters['date_from'])) {
+            $query->whereDate('estimated_delivery_date', '>=', $filters['date_from']);
+        }
+
+        if (!empty($filters['date_to'])) {
+            $query->whereDate('estimated_delivery_date', '<=', $filters['date_to']);
+        }
+
+        if (!empty($filters['overdue'])) {
+            $query->overdue();
+        }
+
+        return $query->orderByRaw("FIELD(status, 'out_for_delivery', 'in_transit', 'picked_up', 'assigned', 'pending', 'failed') DESC")
+            ->orderBy('estimated_delivery_date')
+            ->orderByDesc('created_at')
+            ->paginate($perPage)
+            ->withQueryString();
+    }
+
+    /**
+     * Get delivery statistics
+     */
+    public function getStats(int $companyId, ?int $branchId = null, ?int $assignedTo = null): array
+    {
+        $query = $this->model->where('company_id', $companyId);
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        if ($assignedTo) {
+            $query->where('assigned_to', $assignedTo);
+        }
+
+        return [
+            'total' => (clone $query)->count(),
+            'pending' => (clone $query)->pending()->count(),
+            'in_progress' => (clone $query)->inProgress()->count(),
+            'delivered' => (clone $query)->completed()->count(),
+            'failed' => (clone $query)->failed()->count(),
+            'overdue' => (clone $query)->overdue()->count(),
+        ];
+    }
+
+    /**
+     * Find a delivery with everything the detail page shows
+     */
+    public function findWithDetails(int $id): ?Delivery
+    {
+        return $this->model->with([
+            'invoice.customer',
+            'printJob.customer',
+            'customer',
+            'branch',
+            'assignedTo',
+            'creator',
+            'statusHistory.updatedBy',
+        ])->find($id);
+    }
+
+    /**
+     * Check whether an invoice or print job is already delivered or on its way
+     */
+    public function hasActiveDelivery(?int $invoiceId, ?int $printJobId): bool
+    {
+        if (!$invoiceId && !$printJobId) {
+            return false;
+        }
+
+        return $this->model
+            ->whereNotIn('status', self::RESENDABLE_STATUSES)
+            ->where(function (Builder $q) use ($invoiceId, $printJobId) {
+                if ($invoiceId) {
+                    $q->orWhere('invoice_id', $invoiceId);
+                }
+
+                if ($printJobId) {
+                    $q->orWhere('print_job_id', $printJobId);
+                }
+            })
+            ->exists();
+    }
+
+    /**
+     * Completed print jobs that have not been delivered or sent out yet
+     */
+    public function getDeliverablePrintJobs(int $companyId, ?int $branchId = null): Collection
+    {
+        $query = PrintJob::with(['customer', 'invoice.customer'])
+            ->where('company_id', $companyId)
+            ->where('production_status', 'completed')
+            ->whereDoesntHave('deliveries', fn (Builder $q) => $q->whereNotIn('status', self::RESENDABLE_STATUSES));
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        return $query->orderByDesc('actual_completion')->limit(100)->get();
+    }
+
+    /**
+     * Invoices that have not been delivered or sent out yet
+     */
+    public function getDeliverableInvoices(int $companyId, ?int $branchId = null): Collection
+    {
+        $query = Invoice::with('customer')
+            ->where('company_id', $companyId)
+            ->whereNotIn('status', ['draft', 'cancelled'])
+            ->whereDoesntHave('deliveries', fn (Builder $q) => $q->whereNotIn('status', self::RESENDABLE_STATUSES));
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        return $query->orderByDesc('invoice_date')->limit(100)->get();
+    }
+
+    /**
+     * Get deliveries created in a date range for the delivery report
+     */
+    public function getDeliveriesCreatedBetween(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): Collection
+    {
+        $query = $this->model
+            ->with('assignedTo:id,name')
+            ->where('company_id', $companyId)
+            ->whereBetween('created_at', [$startDate, $endDate]);
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        return $query->get([
+            'id', 'status', 'delivery_method', 'assigned_to', 'delivery_cost', 'delivery_attempts',
+            'estimated_delivery_date', 'actual_delivery_datetime', 'created_at',
+        ]);
+    }
+}
@@ -6,6 +6,7 @@
 use App\Models\Expense;
 use Illuminate\Database\Eloquent\Collection;
 use Illuminate\Database\Eloquent\Builder;
+use Carbon\Carbon;
 
 class ExpenseBudgetRepository extends BaseRepository
 {
@@ -51,16 +52,45 @@ public function getCurrentPeriodBudgets(int $companyId, int $branchId = null): C
         return $query->get();
     }
 
+    /**
+     * Budgets whose spending is still tracked (active or already exceeded)
+     */
+    public function getTrackedBudgets(int $companyId = null): Collection
+    {
+        return $this->model->newQuery()
+                   ->with(['category', 'branch'])
+                   ->when($companyId, fn($q) => $q->where('company_id', $companyId))
+                   ->whereIn('status', ['active', 'exceeded'])
+                   ->get();
+    }
+
+    /**
+     * Budgets covering a date, for warning about a new expense before it is saved
+     */
+    public function getBudgetsCoveringDate(int $companyId, Carbon $from, Carbon $to): Collection
+    {
+        return $this->model->newQuery()
+                   ->with('category')
+                   ->where('company_id', $companyId)
+                   ->whereIn('status', ['active', 'exceeded'])
+                   ->where('start_date', '<=', $to)
+                   ->where('end_date', '>=', $from)
+                   ->get();
+    }
+
     /**
      * Find specific budget
      */
-    public function findBudget(int $companyId, int $categoryId, string $period, int $year, int $branchId = null): ?ExpenseBudget
+    public function findBudget(int $companyId, int $categoryId, string $period, int $year, int $branchId = null, int $month = null, int $quarter = null, int $ignoreId = null): ?ExpenseBudget
     {
         $query = $this->model->newQuery()
                      ->where('company_id', $companyId)
                      ->where('category_id', $categoryId)
                      ->where('budget_period', $period)
-                     ->where('budget_year', $year);
+                     ->where('budget_year', $year)
+                     ->when($period === 'monthly', fn($q) => $q->where('budget_month', $month))
+                     ->when($period === 'quarterly', fn($q) => $q->where('budget_quarter', $quarter))
+                     ->when($ignoreId, fn($q) => $q->where('id', '!=', $ignoreId));
 
         if ($branchId) {
             $query->where('branch_id', $branchId);
@@ -76,18 +106,57 @@ public function findBudget(int $companyId, int $categoryId, string $period, int
      */
     public function updateBudgetSpentAmount(ExpenseBudget $budget): bool
     {
-        $spentAmount = Expense::where('expense_category_id', $budget->category_id)
-                             ->where('company_id', $budget->company_id)
-                             ->when($budget->branch_id, fn($q) => $q->where('branch_id', $budget->branch_id))
-                             ->whereIn('approval_status', ['approved'])
-                             ->whereIn('payment_status', ['paid'])
-                             ->whereBetween('expense_date', [$budget->start_date, $budget->end_date])
-                             ->sum('amount');
-
-        return $budget->update([
+        $spentAmount = $this->sumSpending(
+            $budget->company_id,
+            $budget->category_id,
+            $budget->branch_id,
+            $budget->start_date,
+            $budget->end_date
+        );
+
+        $data = [
             'spent_amount' => $spentAmount,
             'remaining_amount' => max(0, $budget->budget_amount - $spentAmount),
-        ]);
+        ];
+
+        // Inactive and completed budgets keep their status, tracked ones follow the spending
+        if (in_array($budget->status, ['active', 'exceeded'])) {
+            $data['status'] = $spentAmount > $budget->budget_amount ? 'exceeded' : 'active';
+        }
+
+        return $budget->update($data);
+    }
+
+    /**
+     * Approved and paid spending for a category within a date range
+     */
+    public function sumSpending(int $companyId, int $categoryId, ?int $branchId, Carbon $from, Carbon $to): float
+    {
+        return (float) $this->spendingQuery($companyId, $categoryId, $branchId, $from, $to)->sum('amount');
+    }
+
+    /**
+     * Approved and paid expenses counted against a budget, newest first
+     */
+    public function getBudgetExpenses(ExpenseBudget $budget, int $limit = 20): Collection
+    {
+        return $this->spendingQuery($budget->company_id, $budget->category_id, $budget->branch_id, $budget->start_date, $budget->end_date)
+                   ->with(['branch'])
+                   ->orderByDesc('expense_date')
+                   ->limit($limit)
+                   ->get();
+    }
+
+    /**
+     * Expenses that count towards budget spending
+     */
+    private function spendingQuery(int $companyId, int $categoryId, ?int $branchId, Carbon $from, Carbon $to): Builder
+    {
+        return Expense::where('category_id', $categoryId)
+                     ->where('company_id', $companyId)
+                     ->when($branchId, fn($q) => $q->where('branch_id', $branchId))
+                     ->whereIn('status', ['approved', 'paid'])
+                     ->whereBetween('expense_date', [$from->toDateString(), $to->toDateString()]);
     }
 
     /**
@@ -105,7 +174,7 @@ public function updateCategorySpending(int $categoryId, int $companyId, int $bra
                            }
                        })
                        ->where('budget_year', now()->year)
-                       ->where('status', 'active')
+                       ->whereIn('status', ['active', 'exceeded'])
                        ->get();
 
         foreach ($budgets as $budget) {
@@ -137,6 +206,8 @@ protected function applyFilter(Builder $query, string $key, $value): void
             'status' => $query->where('status', $value),
             'budget_period' => $query->where('budget_period', $value),
             'budget_year' => $query->where('budget_year', $value),
+            'budget_month' => $query->where('budget_month', $value),
+            'budget_quarter' => $query->where('budget_quarter', $value),
             default => null
         };
     }
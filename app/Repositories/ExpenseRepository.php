@@ -493,4 +493,55 @@ public function getExpensesForExport(int $companyId, array $filters = []): Colle
             ->orderBy('expense_date', 'desc')
             ->get();
     }
-}
\ No newline at end of file
+
+    /**
+     * Get approved and paid expense totals per category in a date range
+     */
+    public function getTotalsByCategory(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->spentQuery($companyId, $startDate, $endDate, $branchId)
+            ->join('expense_categories', 'expense_categories.id', '=', 'expenses.category_id')
+            ->selectRaw('expense_categories.id, expense_categories.name, expense_categories.color, COUNT(expenses.id) as expense_count, SUM(expenses.amount) as total_amount')
+            ->groupBy('expense_categories.id', 'expense_categories.name', 'expense_categories.color')
+            ->orderByDesc('total_amount')
+            ->get()
+            ->map(fn ($item) => [
+                'id' => $item->id,
+                'name' => $item->name,
+                'color' => $item->color,
+                'expense_count' => (int) $item->expense_count,
+                'total_amount' => (float) $item->total_amount,
+            ])
+            ->toArray();
+    }
+
+    /**
+     * Get approved and paid expense totals per month in a date range
+     */
+    public function getMonthlyTotals(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->spentQuery($companyId, $startDate, $endDate, $branchId)
+            ->selectRaw($this->monthExpression('expenses.expense_date') . ' as month, SUM(expenses.amount) as total_amount')
+            ->groupBy('month')
+            ->pluck('total_amount', 'month')
+            ->map(fn ($total) => (float) $total)
+            ->toArray();
+    }
+
+    /**
+     * Expenses that have been committed to, i.e. approved or already paid
+     */
+    private function spentQuery(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null)
+    {
+        $query = $this->model
+            ->where('expenses.company_id', $companyId)
+            ->whereIn('expenses.status', ['approved', 'paid'])
+            ->whereBetween('expenses.expense_date', [$startDate->toDateString(), $endDate->toDateString()]);
+
+        if ($branchId) {
+            $query->where('expenses.branch_id', $branchId);
+        }
+
+        return $query;
+    }
+}
@@ -0,0 +1,34 @@
+<?php
+// app/Repositories/InvoiceEmailRepository.php
+
+namespace App\Repositories;
+
+use App\Models\InvoiceEmail;
+use Illuminate\Database\Eloquent\Collection;
+
+class InvoiceEmailRepository extends BaseRepository
+{
+    public function __construct(InvoiceEmail $model)
+    {
+        parent::__construct($model);
+    }
+
+    /**
+     * Send log of an invoice, newest first
+     */
+    public function getForInvoice(int $invoiceId): Collection
+    {
+        return $this->model->with('sender:id,name')
+            ->where('invoice_id', $invoiceId)
+            ->orderBy('id', 'desc')
+            ->get();
+    }
+
+    /**
+     * A log entry of the given company, or null
+     */
+    public function findForCompany(int $id, int $companyId): ?InvoiceEmail
+    {
+        return $this->model->where('company_id', $companyId)->find($id);
+    }
+}
@@ -60,7 +60,7 @@ public function searchAndPaginate(int $companyId, array $filters = [], int $perP
 
         if (!empty($filters['overdue'])) {
             $query->where('due_date', '<', now())
-                  ->where('payment_status', '!=', 'paid');
+                  ->whereNotIn('payment_status', ['paid', 'credited']);
         }
 
         // Handle per_page filter
@@ -88,6 +88,21 @@ public function getForDropdown(int $companyId, ?int $branchId = null): Collectio
         return $query->orderBy('created_at', 'desc')->get();
     }
 
+    /**
+     * Issued invoices of a branch that still have a balance to collect
+     */
+    public function getPayableForBranch(int $branchId, int $limit = 100): Collection
+    {
+        return $this->model
+            ->where('branch_id', $branchId)
+            ->whereNotIn('status', ['draft', 'cancelled'])
+            ->whereIn('payment_status', ['pending', 'partially_paid'])
+            ->with('customer:id,name')
+            ->orderBy('due_date')
+            ->limit($limit)
+            ->get(['id', 'invoice_number', 'customer_id', 'total_amount', 'due_date']);
+    }
+
     /**
      * Generate unique invoice number
      */
@@ -113,7 +128,7 @@ public function getOverdueInvoices(int $companyId, ?int $branchId = null): Colle
         $query = $this->model
             ->forCompany($companyId)
             ->where('due_date', '<', now())
-            ->where('payment_status', '!=', 'paid')
+            ->whereNotIn('payment_status', ['paid', 'credited'])
             ->with(['customer', 'branch']);
 
         if ($branchId) {
@@ -482,18 +497,17 @@ public function canBeDeleted(int $id): bool
     }
 
     /**
-     * Check if invoice can be modified
+     * Check if invoice can be modified; past draft and pending, or with payments, it needs $overrideLock
      */
-    public function canBeModified(int $id): bool
+    public function canBeModified(int $id, bool $overrideLock = false): bool
     {
         $invoice = $this->find($id);
         
-        if (!$invoice) {
+        if (!$invoice || !$invoice->isEditable()) {
             return false;
         }
 
-        // Can modify if in draft or pending status and has no payments
-        return in_array($invoice->status, ['draft', 'pending']) && $invoice->payments()->count() === 0;
+        return $overrideLock || $invoice->canBeModified();
     }
 
     /**
@@ -596,6 +610,178 @@ public function getInvoicesRequiringPrintJobs(int $companyId): array
         ];
     }
 
+    /**
+     * Get sales totals for invoices issued in a date range (drafts and cancelled invoices excluded)
+     */
+    public function getSalesSummary(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        $query = $this->salesQuery($companyId, $startDate, $endDate, $branchId);
+
+        $totals = (clone $query)->selectRaw('
+                COUNT(*) as invoice_count,
+                COALESCE(SUM(total_amount), 0) as total_sales,
+                COALESCE(SUM(subtotal), 0) as subtotal,
+                COALESCE(SUM(tax_amount), 0) as tax_amount,
+                COALESCE(SUM(discount_amount), 0) as discount_amount,
+                COALESCE(SUM(weight_charge), 0) as weight_charge
+            ')
+            ->first();
+
+        $invoiceCount = (int) $totals->invoice_count;
+
+        return [
+            'invoice_count' => $invoiceCount,
+            'total_sales' => (float) $totals->total_sales,
+            'subtotal' => (float) $totals->subtotal,
+            'tax_amount' => (float) $totals->tax_amount,
+            'discount_amount' => (float) $totals->discount_amount,
+            'weight_charge' => (float) $totals->weight_charge,
+            'average_invoice' => $invoiceCount > 0 ? round($totals->total_sales / $invoiceCount, 2) : 0,
+            'paid_count' => (clone $query)->where('payment_status', 'paid')->count(),
+            'unpaid_amount' => (float) (clone $query)->whereIn('payment_status', ['pending', 'partially_paid'])->sum('total_amount'),
+        ];
+    }
+
+    /**
+     * Get invoiced totals per day in a date range
+     */
+    public function getDailySales(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->salesQuery($companyId, $startDate, $endDate, $branchId)
+            ->selectRaw('DATE(invoice_date) as date, COUNT(*) as invoice_count, SUM(total_amount) as total_sales')
+            ->groupBy('date')
+            ->orderBy('date')
+            ->get()
+            ->map(fn ($item) => [
+                'date' => $item->date,
+                'invoice_count' => (int) $item->invoice_count,
+                'total_sales' => (float) $item->total_sales,
+            ])
+            ->toArray();
+    }
+
+    /**
+     * Get invoiced totals per month in a date range
+     */
+    public function getMonthlySales(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->salesQuery($companyId, $startDate, $endDate, $branchId)
+            ->selectRaw($this->monthExpression('invoice_date') . ' as month, SUM(total_amount) as total_sales')
+            ->groupBy('month')
+            ->pluck('total_sales', 'month')
+            ->map(fn ($total) => (float) $total)
+            ->toArray();
+    }
+
+    /**
+     * Get the customers with the highest invoiced totals in a date range
+     */
+    public function getTopCustomers(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null, int $limit = 10): array
+    {
+        return $this->salesQuery($companyId, $startDate, $endDate, $branchId)
+            ->join('customers', 'customers.id', '=', 'invoices.customer_id')
+            ->selectRaw('customers.id, customers.name, customers.customer_code, COUNT(invoices.id) as invoice_count, SUM(invoices.total_amount) as total_sales')
+            ->groupBy('customers.id', 'customers.name', 'customers.customer_code')
+            ->orderByDesc('total_sales')
+            ->limit($limit)
+            ->get()
+            ->map(fn ($item) => [
+                'id' => $item->id,
+                'name' => $item->name,
+                'customer_code' => $item->customer_code,
+                'invoice_count' => (int) $item->invoice_count,
+                'total_sales' => (float) $item->total_sales,
+            ])
+            ->toArray();
+    }
+
+    /**
+     * Get the best selling products by line total in a date range
+     */
+    public function getTopProducts(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null, int $limit = 10): array
+    {
+        return $this->salesQuery($companyId, $startDate, $endDate, $branchId)
+            ->join('invoice_items', 'invoice_items.invoice_id', '=', 'invoices.id')
+            ->join('products', 'products.id', '=', 'invoice_items.product_id')
+            ->selectRaw('products.id, products.name, SUM(invoice_items.quantity) as quantity, SUM(invoice_items.line_total) as total_sales')
+            ->groupBy('products.id', 'products.name')
+            ->orderByDesc('total_sales')
+            ->limit($limit)
+            ->get()
+            ->map(fn ($item) => [
+                'id' => $item->id,
+                'name' => $item->name,
+                'quantity' => (float) $item->quantity,
+                'total_sales' => (float) $item->total_sales,
+            ])
+            ->toArray();
+    }
+
+    /**
+     * Get invoiced totals per branch in a date range
+     */
+    public function getSalesByBranch(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->salesQuery($companyId, $startDate, $endDate, $branchId)
+            ->join('branches', 'branches.id', '=', 'invoices.branch_id')
+            ->selectRaw('branches.id, branches.name, COUNT(invoices.id) as invoice_count, SUM(invoices.total_amount) as total_sales')
+            ->groupBy('branches.id', 'branches.name')
+            ->orderByDesc('total_sales')
+            ->get()
+            ->map(fn ($item) => [
+                'id' => $item->id,
+                'name' => $item->name,
+                'invoice_count' => (int) $item->invoice_count,
+                'total_sales' => (float) $item->total_sales,
+            ])
+            ->toArray();
+    }
+
+    /**
+     * Get what customers still owe on open invoices, regardless of when they were issued
+     */
+    public function getReceivables(int $companyId, ?int $branchId = null): array
+    {
+        $query = $this->model
+            ->forCompany($companyId)
+            ->whereNotIn('status', ['draft', 'cancelled'])
+            ->whereIn('payment_status', ['pending', 'partially_paid'])
+            ->withSum(['payments as paid_amount' => fn ($q) => $q->where('status', 'completed')], 'amount');
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        $invoices = $query->get(['id', 'total_amount', 'due_date']);
+        $balance = fn ($invoice) => max(0, (float) $invoice->total_amount - (float) $invoice->paid_amount);
+        $overdue = $invoices->filter(fn ($invoice) => $invoice->due_date && $invoice->due_date->isPast());
+
+        return [
+            'invoice_count' => $invoices->count(),
+            'outstanding' => round($invoices->sum($balance), 2),
+            'overdue_count' => $overdue->count(),
+            'overdue_amount' => round($overdue->sum($balance), 2),
+        ];
+    }
+
+    /**
+     * Invoices that count towards sales for a report period
+     */
+    private function salesQuery(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null)
+    {
+        // Columns are qualified because the breakdowns join customers, products and branches
+        $query = $this->model
+            ->where('invoices.company_id', $companyId)
+            ->whereNotIn('invoices.status', ['draft', 'cancelled'])
+            ->whereBetween('invoices.invoice_date', [$startDate->toDateString(), $endDate->toDateString()]);
+
+        if ($branchId) {
+            $query->where('invoices.branch_id', $branchId);
+        }
+
+        return $query;
+    }
+
     /**
      * Find invoice with detailed relationships
      */
@@ -22,11 +22,21 @@ public function getFilteredPayments(array $filters = [], int $perPage = 15): Len
     {
         $query = $this->model->with(['invoice', 'customer', 'branch', 'receivedBy', 'verifiedBy']);
 
+        // Apply company filter
+        if (isset($filters['company_id'])) {
+            $query->whereHas('branch', fn ($q) => $q->where('company_id', $filters['company_id']));
+        }
+
         // Apply branch filter
         if (isset($filters['branch_id'])) {
             $query->where('branch_id', $filters['branch_id']);
         }
 
+        // Apply invoice filter
+        if (isset($filters['invoice_id'])) {
+            $query->where('invoice_id', $filters['invoice_id']);
+        }
+
         // Apply status filter
         if (isset($filters['status'])) {
             $query->where('status', $filters['status']);
@@ -68,7 +78,7 @@ public function getFilteredPayments(array $filters = [], int $perPage = 15): Len
             });
         }
 
-        return $query->orderBy('payment_date', 'desc')->paginate($perPage);
+        return $query->orderBy('payment_date', 'desc')->orderBy('id', 'desc')->paginate($perPage);
     }
 
     /**
@@ -100,10 +110,14 @@ public function getPendingVerificationPayments(int $branchId = null): Collection
     /**
      * Get payment statistics
      */
-    public function getPaymentStatistics(int $branchId = null, Carbon $startDate = null, Carbon $endDate = null): array
+    public function getPaymentStatistics(int $branchId = null, Carbon $startDate = null, Carbon $endDate = null, ?int $companyId = null): array
     {
         $query = $this->model->query();
 
+        if ($companyId) {
+            $query->whereHas('branch', fn ($q) => $q->where('company_id', $companyId));
+        }
+
         if ($branchId) {
             $query->where('branch_id', $branchId);
         }
@@ -138,6 +152,17 @@ public function getTotalPaidForInvoice(int $invoiceId): float
             ->sum('amount');
     }
 
+    /**
+     * Completed payments on the invoice that were recorded before the given one
+     */
+    public function getTotalPaidBefore(Payment $payment): float
+    {
+        return $this->model->where('invoice_id', $payment->invoice_id)
+            ->where('id', '<', $payment->id)
+            ->where('status', 'completed')
+            ->sum('amount');
+    }
+
     /**
      * Get payment by reference
      */
@@ -148,6 +173,16 @@ public function getByReference(string $paymentReference): ?Payment
             ->first();
     }
 
+    /**
+     * Get an online payment by the reference the gateway gave it
+     */
+    public function getByGatewayReference(string $gatewayReference): ?Payment
+    {
+        return $this->model->where('payment_method', 'online')
+            ->where('gateway_reference', $gatewayReference)
+            ->first();
+    }
+
     /**
      * Get recent payments for dashboard
      */
@@ -210,10 +245,14 @@ public function getOverduePayments(int $branchId = null): Collection
     /**
      * Get daily payment summary
      */
-    public function getDailyPaymentSummary(Carbon $date, int $branchId = null): array
+    public function getDailyPaymentSummary(Carbon $date, int $branchId = null, ?int $companyId = null): array
     {
         $query = $this->model->whereDate('payment_date', $date);
 
+        if ($companyId) {
+            $query->whereHas('branch', fn ($q) => $q->where('company_id', $companyId));
+        }
+
         if ($branchId) {
             $query->where('branch_id', $branchId);
         }
@@ -231,4 +270,87 @@ public function getDailyPaymentSummary(Carbon $date, int $branchId = null): arra
             'verified_count' => $payments->where('verification_status', 'verified')->count(),
         ];
     }
-}
\ No newline at end of file
+
+    /**
+     * Get completed payment totals per day in a date range
+     */
+    public function getDailyCollections(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->completedQuery($companyId, $startDate, $endDate, $branchId)
+            ->selectRaw('DATE(payment_date) as date, COUNT(*) as payment_count, SUM(amount) as total_amount')
+            ->groupBy('date')
+            ->orderBy('date')
+            ->get()
+            ->map(fn ($item) => [
+                'date' => $item->date,
+                'payment_count' => (int) $item->payment_count,
+                'total_amount' => (float) $item->total_amount,
+            ])
+            ->toArray();
+    }
+
+    /**
+     * Get completed payment totals per month in a date range
+     */
+    public function getMonthlyCollections(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->completedQuery($companyId, $startDate, $endDate, $branchId)
+            ->selectRaw($this->monthExpression('payment_date') . ' as month, SUM(amount) as total_amount')
+            ->groupBy('month')
+            ->pluck('total_amount', 'month')
+            ->map(fn ($total) => (float) $total)
+            ->toArray();
+    }
+
+    /**
+     * Get completed payment totals per payment method in a date range
+     */
+    public function getCollectionsByMethod(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        return $this->completedQuery($companyId, $startDate, $endDate, $branchId)
+            ->selectRaw('payment_method, COUNT(*) as payment_count, SUM(amount) as total_amount')
+            ->groupBy('payment_method')
+            ->orderByDesc('total_amount')
+            ->get()
+            ->map(fn ($item) => [
+                'payment_method' => $item->payment_method,
+                'payment_count' => (int) $item->payment_count,
+                'total_amount' => (float) $item->total_amount,
+            ])
+            ->toArray();
+    }
+
+    /**
+     * Get the latest payments received in a date range, whatever their status
+     */
+    public function getPaymentsForReport(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null, int $limit = 50): Collection
+    {
+        $query = $this->model
+            ->with(['invoice:id,invoice_number', 'customer:id,name', 'branch:id,name'])
+            ->whereHas('branch', fn ($q) => $q->where('company_id', $companyId))
+            ->whereBetween('payment_date', [$startDate, $endDate]);
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        return $query->orderBy('payment_date', 'desc')->limit($limit)->get();
+    }
+
+    /**
+     * Completed payments for a company in a date range
+     */
+    private function completedQuery(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null)
+    {
+        $query = $this->model
+            ->whereHas('branch', fn ($q) => $q->where('company_id', $companyId))
+            ->where('status', 'completed')
+            ->whereBetween('payment_date', [$startDate, $endDate]);
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        return $query;
+    }
+}
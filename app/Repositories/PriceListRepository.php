@@ -0,0 +1,71 @@
+<?php
+// app/Repositories/PriceListRepository.php
+
+namespace App\Repositories;
+
+use App\Models\PriceList;
+use Illuminate\Database\Eloquent\Collection;
+
+class PriceListRepository extends BaseRepository
+{
+    public function __construct(PriceList $model)
+    {
+        parent::__construct($model);
+    }
+
+    /**
+     * Find a price list belonging to the company
+     */
+    public function findForCompany(int $id, int $companyId): ?PriceList
+    {
+        return $this->model->forCompany($companyId)->find($id);
+    }
+
+    /**
+     * Price lists for the management page with their rows and assigned customers
+     */
+    public function getCompanyPriceLists(int $companyId, array $filters = []): Collection
+    {
+        $query = $this->model->newQuery()
+            ->with(['items.product:id,name,product_code,base_price', 'customers:id,name,customer_code,price_list_id'])
+            ->forCompany($companyId);
+
+        if (!empty($filters['search'])) {
+            $query->where('name', 'like', '%' . $filters['search'] . '%');
+        }
+
+        if (($filters['status'] ?? null) === 'active') {
+            $query->where('is_active', true);
+        } elseif (($filters['status'] ?? null) === 'inactive') {
+            $query->where('is_active', false);
+        }
+
+        return $query->orderByDesc('is_active')->orderBy('name')->get();
+    }
+
+    /**
+     * Lists in effect today, with their rows, for pricing invoice lines
+     */
+    public function getCurrentForCompany(int $companyId): Collection
+    {
+        return $this->model->forCompany($companyId)
+            ->current()
+            ->with('items')
+            ->orderBy('id')
+            ->get();
+    }
+
+    /**
+     * Current price list rows for one product, for the product page
+     */
+    public function getCurrentItemsForProduct(int $productId, int $companyId): Collection
+    {
+        return $this->model->forCompany($companyId)
+            ->current()
+            ->whereHas('items', fn($query) => $query->where('product_id', $productId))
+            ->with(['items' => fn($query) => $query->where('product_id', $productId)])
+            ->withCount('customers')
+            ->orderBy('name')
+            ->get();
+    }
+}
@@ -4,6 +4,7 @@
 namespace App\Repositories;
 
 use App\Models\PrintJob;
+use Carbon\Carbon;
 use Illuminate\Database\Eloquent\Collection;
 use Illuminate\Pagination\LengthAwarePaginator;
 use Illuminate\Database\Eloquent\Builder;
@@ -37,7 +38,7 @@ public function existsForInvoice(int $invoiceId): bool
     public function searchAndPaginate(int $companyId, array $filters = [], int $perPage = 15): LengthAwarePaginator
     {
         $query = $this->model->newQuery()
-            ->with(['invoice.customer', 'branch', 'assignedTo', 'productionStages'])
+            ->with(['invoice.customer', 'customer', 'branch', 'assignedTo', 'productionStages'])
             ->where('company_id', $companyId);
 
         // Apply filters
@@ -45,8 +46,12 @@ public function searchAndPaginate(int $companyId, array $filters = [], int $perP
             $query->where(function (Builder $q) use ($filters) {
                 $q->where('job_number', 'like', '%' . $filters['search'] . '%')
                   ->orWhere('job_type', 'like', '%' . $filters['search'] . '%')
+                  ->orWhere('job_title', 'like', '%' . $filters['search'] . '%')
                   ->orWhereHas('invoice.customer', function (Builder $subQ) use ($filters) {
                       $subQ->where('name', 'like', '%' . $filters['search'] . '%');
+                  })
+                  ->orWhereHas('customer', function (Builder $subQ) use ($filters) {
+                      $subQ->where('name', 'like', '%' . $filters['search'] . '%');
                   });
             });
         }
@@ -79,6 +84,14 @@ public function searchAndPaginate(int $companyId, array $filters = [], int $perP
             $query->whereDate('created_at', '<=', $filters['date_to']);
         }
 
+        if (!empty($filters['due_from'])) {
+            $query->whereDate('estimated_completion', '>=', $filters['due_from']);
+        }
+
+        if (!empty($filters['due_to'])) {
+            $query->whereDate('estimated_completion', '<=', $filters['due_to']);
+        }
+
         if (!empty($filters['overdue'])) {
             $query->where('estimated_completion', '<', now())
                   ->whereNotIn('production_status', ['completed', 'cancelled']);
@@ -89,6 +102,40 @@ public function searchAndPaginate(int $companyId, array $filters = [], int $perP
                     ->paginate($perPage);
     }
 
+    /**
+     * Get jobs for the production kanban board with their stages in order
+     */
+    public function getKanbanJobs(int $companyId, ?int $branchId = null, int $completedLimit = 10): Collection
+    {
+        $query = $this->model->newQuery()
+            ->with([
+                'invoice.customer',
+                'customer',
+                'assignedTo',
+                'productionStages' => fn($q) => $q->orderBy('stage_order'),
+            ])
+            ->where('company_id', $companyId)
+            ->has('productionStages');
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        $activeJobs = $query->clone()
+            ->whereNotIn('production_status', ['completed', 'cancelled'])
+            ->orderByRaw("FIELD(priority, 'urgent', 'high', 'medium', 'normal', 'low')")
+            ->orderBy('estimated_completion')
+            ->get();
+
+        $recentlyCompleted = $query->clone()
+            ->where('production_status', 'completed')
+            ->orderBy('actual_completion', 'desc')
+            ->limit($completedLimit)
+            ->get();
+
+        return $activeJobs->merge($recentlyCompleted);
+    }
+
     /**
      * Get production queue for a branch
      */
@@ -302,4 +349,41 @@ public function getByPriority(string $priority, int $companyId, ?int $branchId =
 
         return $query->orderBy('estimated_completion', 'asc')->get();
     }
-}
\ No newline at end of file
+
+    /**
+     * Get print jobs opened in a date range for the production report
+     */
+    public function getJobsCreatedBetween(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): Collection
+    {
+        $query = $this->model->newQuery()
+            ->where('company_id', $companyId)
+            ->whereBetween('created_at', [$startDate, $endDate]);
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        return $query->get(['id', 'job_type', 'production_status', 'priority', 'estimated_cost', 'actual_cost', 'created_at']);
+    }
+
+    /**
+     * Get print jobs finished in a date range for the production report
+     */
+    public function getJobsCompletedBetween(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): Collection
+    {
+        $query = $this->model->newQuery()
+            ->with('assignedTo:id,name')
+            ->where('company_id', $companyId)
+            ->where('production_status', 'completed')
+            ->whereBetween('actual_completion', [$startDate, $endDate]);
+
+        if ($branchId) {
+            $query->where('branch_id', $branchId);
+        }
+
+        return $query->get([
+            'id', 'job_number', 'job_title', 'job_type', 'assigned_to', 'quantity',
+            'estimated_completion', 'actual_completion', 'started_at', 'created_at',
+        ]);
+    }
+}
@@ -0,0 +1,69 @@
+<?php
+// app/Repositories/PrintJobTemplateRepository.php
+
+namespace App\Repositories;
+
+use App\Models\PrintJobTemplate;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Database\Eloquent\Builder;
+
+class PrintJobTemplateRepository extends BaseRepository
+{
+    public function __construct(PrintJobTemplate $model)
+    {
+        parent::__construct($model);
+    }
+
+    /**
+     * Find a template belonging to the company
+     */
+    public function findForCompany(int $id, int $companyId): ?PrintJobTemplate
+    {
+        return $this->model->forCompany($companyId)->find($id);
+    }
+
+    /**
+     * Templates for the library page, most used first
+     */
+    public function getCompanyTemplates(int $companyId, array $filters = []): Collection
+    {
+        $query = $this->model->newQuery()
+            ->with(['customer:id,name', 'createdBy:id,name'])
+            ->forCompany($companyId);
+
+        if (!empty($filters['search'])) {
+            $query->where(function (Builder $q) use ($filters) {
+                $q->where('name', 'like', '%' . $filters['search'] . '%')
+                  ->orWhere('job_title', 'like', '%' . $filters['search'] . '%')
+                  ->orWhere('job_description', 'like', '%' . $filters['search'] . '%');
+            });
+        }
+
+        if (!empty($filters['job_type'])) {
+            $query->where('job_type', $filters['job_type']);
+        }
+
+        if (($filters['status'] ?? null) === 'active') {
+            $query->active();
+        } elseif (($filters['status'] ?? null) === 'inactive') {
+            $query->where('is_active', false);
+        }
+
+        return $query->orderByDesc('is_active')
+            ->orderByDesc('usage_count')
+            ->orderBy('name')
+            ->get();
+    }
+
+    /**
+     * Active templates offered when creating a job
+     */
+    public function getForPicker(int $companyId): Collection
+    {
+        return $this->model->forCompany($companyId)
+            ->active()
+            ->orderByDesc('usage_count')
+            ->orderBy('name')
+            ->get();
+    }
+}
@@ -30,6 +30,54 @@ public function getHierarchicalCategories(int $companyId): Collection
             ->get();
     }
 
+    /**
+     * Get every category for a company as a flat list for the tree view
+     */
+    public function getTreeForCompany(int $companyId): Collection
+    {
+        return $this->model
+            ->forCompany($companyId)
+            ->withCount('products')
+            ->orderBy('sort_order')
+            ->orderBy('name')
+            ->get();
+    }
+
+    /**
+     * Get ids of all categories nested below a category
+     */
+    public function getDescendantIds(int $categoryId): array
+    {
+        $descendantIds = [];
+        $parentIds = [$categoryId];
+
+        while (!empty($parentIds)) {
+            $childIds = $this->model->whereIn('parent_id', $parentIds)->pluck('id')->all();
+            $childIds = array_diff($childIds, $descendantIds);
+
+            $descendantIds = array_merge($descendantIds, $childIds);
+            $parentIds = $childIds;
+        }
+
+        return $descendantIds;
+    }
+
+    /**
+     * Move a category under a new parent and renumber its new siblings
+     */
+    public function moveCategory(int $categoryId, ?int $parentId, array $siblingIds): void
+    {
+        $this->model->getConnection()->transaction(function () use ($categoryId, $parentId, $siblingIds) {
+            $this->model->where('id', $categoryId)->update(['parent_id' => $parentId]);
+
+            if (!in_array($categoryId, $siblingIds)) {
+                $siblingIds[] = $categoryId;
+            }
+
+            $this->updateSortOrder($siblingIds);
+        });
+    }
+
     /**
      * Get all categories for dropdown
      */
@@ -42,6 +90,16 @@ public function getForDropdown(int $companyId): Collection
             ->get(['id', 'name', 'parent_id']);
     }
 
+    /**
+     * Get every category of the company with the columns used to match imported rows
+     */
+    public function getForLookup(int $companyId): Collection
+    {
+        return $this->model
+            ->forCompany($companyId)
+            ->get(['id', 'name', 'code', 'status']);
+    }
+
     /**
      * Search and paginate categories
      */
@@ -68,7 +68,8 @@ public function getForDropdown(int $companyId, ?int $categoryId = null): Collect
             'weight_per_unit',
             'weight_unit', 
             'tax_rate', 
-            'unit_type'
+            'unit_type',
+            'pricing_tiers'
         ]);
 
     if ($categoryId) {
@@ -98,6 +99,20 @@ public function generateUniqueCode(int $categoryId): string
         return $code;
     }
 
+    /**
+     * Get products by code, keyed by product_code. Codes are unique across companies
+     * and soft-deleted products keep theirs, so both are included for the caller to check.
+     */
+    public function getByCodes(array $codes): Collection
+    {
+        return $this->model
+            ->withTrashed()
+            ->with('category')
+            ->whereIn('product_code', $codes)
+            ->get()
+            ->keyBy('product_code');
+    }
+
     /**
      * Get product statistics
      */
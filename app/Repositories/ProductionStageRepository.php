@@ -72,7 +72,7 @@ public function getNextReadyStage(int $printJobId): ?ProductionStage
     public function getPendingApprovals(int $companyId): Collection
     {
         return $this->model->newQuery()
-                          ->with(['printJob.invoice.customer', 'printJob.branch'])
+                          ->with(['printJob.invoice.customer', 'printJob.customer', 'printJob.branch'])
                           ->whereHas('printJob', function ($query) use ($companyId) {
                               $query->where('company_id', $companyId);
                           })
@@ -81,6 +81,22 @@ public function getPendingApprovals(int $companyId): Collection
                           ->get();
     }
 
+    /**
+     * Get customer approval stages the customer sent back with change requests
+     */
+    public function getChangesRequested(int $companyId): Collection
+    {
+        return $this->model->newQuery()
+                          ->with(['printJob.invoice.customer', 'printJob.customer', 'printJob.branch'])
+                          ->whereHas('printJob', function ($query) use ($companyId) {
+                              $query->where('company_id', $companyId);
+                          })
+                          ->where('requires_customer_approval', true)
+                          ->where('stage_status', 'rejected')
+                          ->orderBy('updated_at', 'desc')
+                          ->get();
+    }
+
     /**
      * Get active stages by user
      */
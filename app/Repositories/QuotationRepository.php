@@ -0,0 +1,129 @@
+<?php
+// app/Repositories/QuotationRepository.php
+
+namespace App\Repositories;
+
+use App\Models\Branch;
+use App\Models\Quotation;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Pagination\LengthAwarePaginator;
+
+class QuotationRepository extends BaseRepository
+{
+    public function __construct(Quotation $model)
+    {
+        parent::__construct($model);
+    }
+
+    /**
+     * Search and paginate quotations with filters
+     */
+    public function searchAndPaginate(int $companyId, array $filters = [], int $perPage = 15): LengthAwarePaginator
+    {
+        $query = $this->model->newQuery()
+            ->with(['customer:id,name,phone', 'branch:id,name', 'invoice:id,invoice_number'])
+            ->withCount('items')
+            ->forCompany($companyId);
+
+        if (!empty($filters['search'])) {
+            $search = $filters['search'];
+
+            $query->where(function (Builder $q) use ($search) {
+                $q->where('quotation_number', 'like', "%{$search}%")
+                  ->orWhereHas('customer', fn (Builder $subQ) => $subQ->where('name', 'like', "%{$search}%")
+                      ->orWhere('phone', 'like', "%{$search}%"));
+            });
+        }
+
+        // Expired is not stored, so it is filtered on the validity date instead
+        if (($filters['status'] ?? null) === 'expired') {
+            $query->expired();
+        } elseif (in_array($filters['status'] ?? null, ['draft', 'sent'])) {
+            $query->where('status', $filters['status'])
+                  ->whereDate('valid_until', '>=', now()->toDateString());
+        } elseif (!empty($filters['status'])) {
+            $query->where('status', $filters['status']);
+        }
+
+        if (!empty($filters['branch_id'])) {
+            $query->forBranch($filters['branch_id']);
+        }
+
+        if (!empty($filters['customer_id'])) {
+            $query->where('customer_id', $filters['customer_id']);
+        }
+
+        if (!empty($filters['date_from'])) {
+            $query->whereDate('quotation_date', '>=', $filters['date_from']);
+        }
+
+        if (!empty($filters['date_to'])) {
+            $query->whereDate('quotation_date', '<=', $filters['date_to']);
+        }
+
+        return $query->orderByDesc('quotation_date')
+            ->orderByDesc('id')
+            ->paginate($perPage)
+            ->withQueryString();
+    }
+
+    /**
+     * Quotation counts and open value for the index header
+     */
+    public function getStats(int $companyId, ?int $branchId = null): array
+    {
+        $query = $this->model->forCompany($companyId);
+
+        if ($branchId) {
+            $query->forBranch($branchId);
+        }
+
+        $open = (clone $query)->whereIn('status', ['draft', 'sent'])
+            ->whereDate('valid_until', '>=', now()->toDateString());
+
+        $decided = (clone $query)->whereIn('status', ['accepted', 'declined', 'converted'])->count();
+        $won = (clone $query)->whereIn('status', ['accepted', 'converted'])->count();
+
+        return [
+            'total' => (clone $query)->count(),
+            'open' => (clone $open)->count(),
+            'open_value' => (float) (clone $open)->sum('total_amount'),
+            'accepted' => (clone $query)->where('status', 'accepted')->count(),
+            'converted' => (clone $query)->where('status', 'converted')->count(),
+            'expired' => (clone $query)->expired()->count(),
+            'acceptance_rate' => $decided > 0 ? round($won / $decided * 100, 1) : null,
+        ];
+    }
+
+    /**
+     * Find a quotation with everything the detail page and PDF show
+     */
+    public function findWithDetails(int $id): ?Quotation
+    {
+        return $this->model->with([
+            'company',
+            'customer',
+            'branch',
+            'creator:id,name',
+            'invoice:id,invoice_number,status,payment_status',
+            'items.product:id,name,product_code,unit_type',
+        ])->find($id);
+    }
+
+    /**
+     * Next number in the branch's quotation sequence, e.g. QT-COL-000042
+     */
+    public function generateQuotationNumber(int $branchId): string
+    {
+        $branch = Branch::findOrFail($branchId);
+
+        $lastQuotation = $this->model->withTrashed()
+            ->where('branch_id', $branchId)
+            ->orderBy('id', 'desc')
+            ->first();
+
+        $nextNumber = $lastQuotation ? intval(substr($lastQuotation->quotation_number, -6)) + 1 : 1;
+
+        return 'QT-' . $branch->code . '-' . str_pad($nextNumber, 6, '0', STR_PAD_LEFT);
+    }
+}
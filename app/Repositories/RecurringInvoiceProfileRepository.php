@@ -0,0 +1,103 @@
+<?php
+// app/Repositories/RecurringInvoiceProfileRepository.php
+
+namespace App\Repositories;
+
+use App\Models\RecurringInvoiceProfile;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Pagination\LengthAwarePaginator;
+
+class RecurringInvoiceProfileRepository extends BaseRepository
+{
+    public function __construct(RecurringInvoiceProfile $model)
+    {
+        parent::__construct($model);
+    }
+
+    /**
+     * Search and paginate recurring invoice profiles with filters
+     */
+    public function searchAndPaginate(int $companyId, array $filters = [], int $perPage = 15): LengthAwarePaginator
+    {
+        $query = $this->model->newQuery()
+            ->with(['customer:id,name,phone', 'branch:id,name', 'items'])
+            ->withCount('invoices')
+            ->forCompany($companyId);
+
+        if (!empty($filters['search'])) {
+            $search = $filters['search'];
+
+            $query->where(function (Builder $q) use ($search) {
+                $q->where('name', 'like', "%{$search}%")
+                  ->orWhereHas('customer', fn (Builder $subQ) => $subQ->where('name', 'like', "%{$search}%"));
+            });
+        }
+
+        if (!empty($filters['status'])) {
+            $query->where('status', $filters['status']);
+        }
+
+        if (!empty($filters['recurring_period'])) {
+            $query->where('recurring_period', $filters['recurring_period']);
+        }
+
+        if (!empty($filters['branch_id'])) {
+            $query->forBranch($filters['branch_id']);
+        }
+
+        // Active profiles first, soonest run at the top
+        return $query->orderByRaw("FIELD(status, 'active', 'paused', 'ended')")
+            ->orderByRaw('next_run_date IS NULL, next_run_date')
+            ->paginate($perPage)
+            ->withQueryString();
+    }
+
+    /**
+     * Profile counts for the index header
+     */
+    public function getStats(int $companyId, ?int $branchId = null): array
+    {
+        $query = $this->model->forCompany($companyId);
+
+        if ($branchId) {
+            $query->forBranch($branchId);
+        }
+
+        return [
+            'active' => (clone $query)->active()->count(),
+            'paused' => (clone $query)->where('status', 'paused')->count(),
+            'due_this_week' => (clone $query)->due(now()->addDays(7)->toDateString())->count(),
+            'failing' => (clone $query)->active()->whereNotNull('last_error')->count(),
+        ];
+    }
+
+    /**
+     * Active profiles with a run in the next given number of days
+     */
+    public function getUpcoming(int $companyId, ?int $branchId = null, int $days = 30): Collection
+    {
+        $query = $this->model->with(['customer:id,name', 'items'])
+            ->forCompany($companyId)
+            ->due(now()->addDays($days)->toDateString());
+
+        if ($branchId) {
+            $query->forBranch($branchId);
+        }
+
+        return $query->orderBy('next_run_date')->get();
+    }
+
+    /**
+     * Find a profile with everything the detail page shows
+     */
+    public function findWithDetails(int $id): ?RecurringInvoiceProfile
+    {
+        return $this->model->with([
+            'customer:id,name,customer_code,phone,email',
+            'branch:id,name,code',
+            'creator:id,name',
+            'items.product:id,name,base_price,unit_type',
+        ])->find($id);
+    }
+}
@@ -25,6 +25,18 @@ public function getForCompany(int $companyId): Collection
             ->get();
     }
 
+    /**
+     * Get every tier for a company, including inactive ones, in display order
+     */
+    public function getAllForCompany(int $companyId): Collection
+    {
+        return $this->model
+            ->forCompany($companyId)
+            ->orderBy('sort_order')
+            ->orderedByWeight()
+            ->get();
+    }
+
     /**
      * Find appropriate tier for given weight
      */
@@ -0,0 +1,203 @@
+<?php
+// app/Services/CreditNoteService.php
+
+namespace App\Services;
+
+use App\Models\CreditNote;
+use App\Models\CreditNoteItem;
+use App\Models\Invoice;
+use App\Repositories\CreditNoteRepository;
+use App\Repositories\CustomerRepository;
+use Illuminate\Support\Facades\DB;
+
+class CreditNoteService extends BaseService
+{
+    public function __construct(
+        CreditNoteRepository $repository,
+        private CustomerRepository $customerRepository,
+        private PaymentService $paymentService
+    ) {
+        parent::__construct($repository);
+    }
+
+    /**
+     * Credit part of an invoice, either specific lines or a plain amount, and
+     * optionally pay the overpaid part straight back to the customer.
+     */
+    public function issueCreditNote(Invoice $invoice, array $data, int $userId): CreditNote
+    {
+        if (in_array($invoice->status, ['draft', 'cancelled'])) {
+            throw new \Exception('Credit notes can only be issued for confirmed invoices.');
+        }
+
+        try {
+            return DB::transaction(function () use ($invoice, $data, $userId) {
+                $lines = $this->buildLines($invoice, $data['items'] ?? []);
+                $taxRate = $this->effectiveTaxRate($invoice);
+
+                if (!empty($lines)) {
+                    $subtotal = round(array_sum(array_column($lines, 'line_total')), 2);
+                    $taxAmount = round($subtotal * $taxRate, 2);
+                    $amount = $subtotal + $taxAmount;
+                } else {
+                    // A plain amount is tax inclusive, like the invoice total it is taken off
+                    $amount = round((float) ($data['amount'] ?? 0), 2);
+                    $subtotal = round($amount / (1 + $taxRate), 2);
+                    $taxAmount = $amount - $subtotal;
+                }
+
+                if ($amount <= 0) {
+                    throw new \Exception('Credit amount must be greater than zero.');
+                }
+
+                $creditable = round($invoice->total_amount - $invoice->total_credited, 2);
+                if ($amount > $creditable) {
+                    throw new \Exception('Credit amount cannot exceed the uncredited invoice total of Rs. ' . number_format($creditable, 2) . '.');
+                }
+
+                // Only the unpaid part of the credit lowers what the customer owes
+                $balanceAdjustment = min($amount, $invoice->remaining_amount);
+
+                $creditNote = $this->repository->create([
+                    'company_id' => $invoice->company_id,
+                    'branch_id' => $invoice->branch_id,
+                    'invoice_id' => $invoice->id,
+                    'customer_id' => $invoice->customer_id,
+                    'created_by' => $userId,
+                    'credit_note_number' => $this->repository->generateCreditNoteNumber($invoice->branch_id),
+                    'credit_date' => $data['credit_date'] ?? now()->toDateString(),
+                    'reason' => $data['reason'],
+                    'subtotal' => $subtotal,
+                    'tax_amount' => $taxAmount,
+                    'amount' => $amount,
+                    'balance_adjustment' => $balanceAdjustment,
+                    'notes' => $data['notes'] ?? null,
+                ]);
+
+                foreach ($lines as $line) {
+                    CreditNoteItem::create(['credit_note_id' => $creditNote->id] + $line);
+                }
+
+                if ($balanceAdjustment > 0) {
+                    $this->customerRepository->updateBalance($invoice->customer_id, $balanceAdjustment, 'subtract');
+                }
+
+                $invoice->updatePaymentStatus();
+
+                if (!empty($data['refund'])) {
+                    $refundAmount = min($amount, $invoice->refundable_amount);
+
+                    if ($refundAmount > 0) {
+                        $this->paymentService->recordRefund($invoice, [
+                            'amount' => $refundAmount,
+                            'payment_method' => $data['refund_method'] ?? 'cash',
+                            'transaction_id' => $data['refund_reference'] ?? null,
+                            'notes' => "Refund for credit note {$creditNote->credit_note_number}",
+                        ], $creditNote->id);
+                    }
+                }
+
+                return $creditNote;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'credit note issue');
+            throw $e;
+        }
+    }
+
+    /**
+     * Cancel a credit note issued in error and put the customer's balance back
+     */
+    public function voidCreditNote(CreditNote $creditNote, string $reason, int $userId): CreditNote
+    {
+        if (!$creditNote->canBeVoided()) {
+            throw new \Exception('Only issued credit notes without refunds can be voided.');
+        }
+
+        try {
+            return DB::transaction(function () use ($creditNote, $reason, $userId) {
+                $creditNote->update([
+                    'status' => 'void',
+                    'voided_at' => now(),
+                    'voided_by' => $userId,
+                    'void_reason' => $reason,
+                ]);
+
+                if ($creditNote->balance_adjustment > 0) {
+                    $this->customerRepository->updateBalance($creditNote->customer_id, (float) $creditNote->balance_adjustment, 'add');
+                }
+
+                $creditNote->invoice->updatePaymentStatus();
+
+                return $creditNote;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'credit note void');
+            throw $e;
+        }
+    }
+
+    /**
+     * Invoice lines with the quantity that can still be credited on each
+     */
+    public function getCreditableItems(Invoice $invoice): array
+    {
+        $credited = $this->repository->getCreditedQuantities($invoice->id);
+
+        return $invoice->items->map(fn ($item) => [
+            'id' => $item->id,
+            'item_description' => $item->item_description,
+            'quantity' => (float) $item->quantity,
+            'unit_price' => (float) $item->unit_price,
+            'credited_quantity' => $credited[$item->id] ?? 0,
+            'available_quantity' => max(0, (float) $item->quantity - ($credited[$item->id] ?? 0)),
+        ])->values()->all();
+    }
+
+    /**
+     * Turn the requested invoice item quantities into credit note lines
+     */
+    private function buildLines(Invoice $invoice, array $items): array
+    {
+        $invoiceItems = $invoice->items->keyBy('id');
+        $credited = $this->repository->getCreditedQuantities($invoice->id);
+        $lines = [];
+
+        foreach ($items as $item) {
+            $quantity = (float) ($item['quantity'] ?? 0);
+            if ($quantity <= 0) {
+                continue;
+            }
+
+            $invoiceItem = $invoiceItems->get($item['invoice_item_id']);
+            if (!$invoiceItem) {
+                throw new \Exception('Credited item does not belong to this invoice.');
+            }
+
+            $available = (float) $invoiceItem->quantity - ($credited[$invoiceItem->id] ?? 0);
+            if ($quantity > $available) {
+                throw new \Exception("Only {$available} of \"{$invoiceItem->item_description}\" can still be credited.");
+            }
+
+            $lines[] = [
+                'invoice_item_id' => $invoiceItem->id,
+                'item_description' => $invoiceItem->item_description,
+                'quantity' => $quantity,
+                'unit_price' => $invoiceItem->unit_price,
+                'line_total' => round($quantity * $invoiceItem->unit_price, 2),
+            ];
+        }
+
+        return $lines;
+    }
+
+    /**
+     * Tax charged on the invoice as a share of its taxable amount
+     */
+    private function effectiveTaxRate(Invoice $invoice): float
+    {
+        $taxable = $invoice->subtotal + $invoice->weight_charge - $invoice->discount_amount;
+
+        return $taxable > 0 ? $invoice->tax_amount / $taxable : 0;
+    }
+}
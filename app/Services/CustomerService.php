@@ -2,13 +2,32 @@
 
 namespace App\Services;
 
+use App\Http\Requests\CreateCustomerRequest;
 use App\Repositories\CustomerRepository;
 use App\Models\Customer;
 use Illuminate\Support\Collection;
 use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Validator;
 
 class CustomerService extends BaseService
 {
+    /**
+     * Customer columns a CSV column can be mapped onto
+     */
+    public const IMPORT_FIELDS = [
+        'customer_code', 'name', 'email', 'phone', 'billing_address', 'shipping_address', 'city', 'postal_code',
+        'district', 'province', 'tax_number', 'credit_limit', 'status', 'customer_type', 'date_of_birth',
+        'company_name', 'company_registration', 'contact_person', 'contact_person_phone', 'contact_person_email',
+        'emergency_contact_name', 'emergency_contact_phone', 'emergency_contact_relationship', 'notes',
+    ];
+
+    // Applied to new customers when the column is not mapped or the cell is blank
+    private const IMPORT_DEFAULTS = [
+        'customer_type' => 'individual',
+        'status' => 'active',
+        'credit_limit' => 0,
+    ];
+
     public function __construct(
         private CustomerRepository $customerRepository
     ) {
@@ -160,8 +179,8 @@ public function getCustomerStatistics(Customer $customer): array
         $totalPayments = $customer->payments()->where('status', 'completed')->count();
         $averagePaymentAmount = $totalPayments > 0 ? $totalPaidAmount / $totalPayments : 0;
         
-        // Calculate outstanding balance
-        $outstandingBalance = $totalInvoiceAmount - $totalPaidAmount;
+        // Calculate outstanding balance, less anything credited back
+        $outstandingBalance = $totalInvoiceAmount - $customer->getTotalCreditedAmount() - $totalPaidAmount;
         
         // Calculate credit utilization
         $creditUtilization = $customer->credit_limit > 0 
@@ -372,26 +391,212 @@ public function getCustomersWithOutstandingBalance(int $companyId): Collection
     }
 
     /**
-     * Import customers from CSV
+     * Check mapped CSV rows without saving anything: validation errors and the existing customer each row would duplicate
      */
-    public function importCustomersFromCsv(array $csvData, int $companyId): array
+    public function previewCustomerImport(array $rows, int $companyId): array
     {
-        $imported = 0;
-        $errors = [];
-        
-        foreach ($csvData as $index => $row) {
+        return collect($rows)->values()->map(function ($row, $index) use ($companyId) {
+            $data = $this->normalizeImportRow($row);
+            $duplicate = $this->findDuplicateCustomer($data, $companyId);
+
+            return [
+                'row_number' => (int) ($row['row_number'] ?? $index + 2),
+                'errors' => $this->validateImportRow($data, $duplicate['customer'] ?? null),
+                'duplicate' => $duplicate ? [
+                    'id' => $duplicate['customer']->id,
+                    'name' => $duplicate['customer']->name,
+                    'customer_code' => $duplicate['customer']->customer_code,
+                    'matched_on' => $duplicate['matched_on'],
+                ] : null,
+            ];
+        })->all();
+    }
+
+    /**
+     * Import mapped CSV rows one by one, so a bad row never stops the rest.
+     * Rows matching an existing customer are skipped, or update that customer when $duplicateMode is 'update'.
+     */
+    public function importCustomersFromCsv(array $csvData, int $companyId, string $duplicateMode = 'skip', ?int $branchId = null): array
+    {
+        $results = [];
+
+        foreach (array_values($csvData) as $index => $row) {
+            $rowNumber = (int) ($row['row_number'] ?? $index + 2);
+            $data = $this->normalizeImportRow($row);
+
             try {
-                $this->createCustomer($row, $companyId);
-                $imported++;
+                $duplicate = $this->findDuplicateCustomer($data, $companyId);
+                $errors = $this->validateImportRow($data, $duplicate['customer'] ?? null);
+
+                if (!empty($errors)) {
+                    $results[] = $this->importResult($rowNumber, 'failed', $data, implode(' ', $errors));
+                    continue;
+                }
+
+                if ($duplicate && $duplicateMode !== 'update') {
+                    $results[] = $this->importResult($rowNumber, 'skipped', $duplicate['customer']->toArray(),
+                        "Matches existing customer {$duplicate['customer']->customer_code} by {$duplicate['matched_on']}.");
+                    continue;
+                }
+
+                if ($duplicate) {
+                    // Blank cells leave the existing values alone
+                    $changes = array_filter($data, fn($value) => $value !== null);
+                    unset($changes['customer_code']);
+                    $duplicate['customer']->update($changes);
+
+                    $results[] = $this->importResult($rowNumber, 'updated', $duplicate['customer']->toArray(),
+                        "Updated existing customer matched by {$duplicate['matched_on']}.");
+                    continue;
+                }
+
+                $customer = $this->createCustomer(
+                    array_merge(self::IMPORT_DEFAULTS, ['branch_id' => $branchId], array_filter($data, fn($value) => $value !== null)),
+                    $companyId
+                );
+
+                $results[] = $this->importResult($rowNumber, 'created', $customer->toArray(), 'Created.');
             } catch (\Exception $e) {
-                $errors[] = "Row " . ($index + 2) . ": " . $e->getMessage();
+                \Log::warning('Customer import row failed', ['row' => $rowNumber, 'error' => $e->getMessage()]);
+
+                $results[] = $this->importResult($rowNumber, 'failed', $data, 'Could not be saved: ' . $e->getMessage());
             }
         }
-        
+
+        $counts = collect($results)->countBy('status');
+
+        return [
+            'total_rows' => count($results),
+            'created' => $counts->get('created', 0),
+            'updated' => $counts->get('updated', 0),
+            'skipped' => $counts->get('skipped', 0),
+            'failed' => $counts->get('failed', 0),
+            'results' => $results,
+        ];
+    }
+
+    /**
+     * Trim the mapped values and coerce them into the formats the customer form stores
+     */
+    private function normalizeImportRow(array $row): array
+    {
+        $data = collect(self::IMPORT_FIELDS)
+            ->mapWithKeys(function ($field) use ($row) {
+                $value = isset($row[$field]) ? trim((string) $row[$field]) : '';
+
+                return [$field => $value === '' ? null : $value];
+            })
+            ->all();
+
+        if ($data['phone']) {
+            $data['phone'] = Customer::normalizePhone($data['phone']);
+        }
+
+        foreach (['contact_person_phone', 'emergency_contact_phone'] as $phoneField) {
+            if ($data[$phoneField]) {
+                $data[$phoneField] = Customer::normalizePhone($data[$phoneField]);
+            }
+        }
+
+        foreach (['email', 'contact_person_email'] as $emailField) {
+            if ($data[$emailField]) {
+                $data[$emailField] = strtolower($data[$emailField]);
+            }
+        }
+
+        foreach (['customer_code', 'tax_number', 'company_registration'] as $codeField) {
+            if ($data[$codeField]) {
+                $data[$codeField] = strtoupper($data[$codeField]);
+            }
+        }
+
+        // "Business", "BUSINESS" and "Western Province" all map onto the stored option values
+        foreach (['customer_type', 'status'] as $optionField) {
+            if ($data[$optionField]) {
+                $data[$optionField] = strtolower($data[$optionField]);
+            }
+        }
+
+        if ($data['province']) {
+            $data['province'] = str_replace([' ', '-'], '_', trim(preg_replace('/\s*province$/i', '', strtolower($data['province']))));
+        }
+
+        if ($data['credit_limit'] !== null) {
+            // Accept "Rs. 25,000.00"
+            $amount = preg_replace('/[^\d.\-]/', '', $data['credit_limit']);
+            $data['credit_limit'] = is_numeric($amount) ? $amount : $data['credit_limit'];
+        }
+
+        if ($data['date_of_birth']) {
+            try {
+                $data['date_of_birth'] = \Carbon\Carbon::parse($data['date_of_birth'])->toDateString();
+            } catch (\Exception $e) {
+                // Left as typed so validation reports it
+            }
+        }
+
+        return $data;
+    }
+
+    /**
+     * Validate a normalized row with the same rules as the customer form.
+     * Blank cells fall back to the matched customer's values, then to the import defaults.
+     */
+    private function validateImportRow(array $data, ?Customer $duplicate = null): array
+    {
+        $record = array_merge(
+            self::IMPORT_DEFAULTS,
+            $duplicate ? array_filter($duplicate->only(self::IMPORT_FIELDS), fn($value) => $value !== null) : [],
+            array_filter($data, fn($value) => $value !== null)
+        );
+
+        $errors = Validator::make($record, CreateCustomerRequest::customerRules($record['customer_type']))->errors()->all();
+
+        // Codes, emails and tax numbers are unique across every company, so a clash outside the matched customer blocks the row
+        foreach (['customer_code' => 'customer code', 'email' => 'email', 'tax_number' => 'tax number'] as $field => $label) {
+            if ($data[$field] && Customer::withTrashed()
+                    ->where($field, $data[$field])
+                    ->when($duplicate, fn($query) => $query->where('id', '!=', $duplicate->id))
+                    ->exists()) {
+                $errors[] = "The {$label} {$data[$field]} is already used by another customer.";
+            }
+        }
+
+        return $errors;
+    }
+
+    /**
+     * Find the company's existing customer a row refers to, by customer code, then email, then phone
+     */
+    private function findDuplicateCustomer(array $data, int $companyId): ?array
+    {
+        foreach (['customer_code', 'email', 'phone'] as $field) {
+            if (empty($data[$field])) {
+                continue;
+            }
+
+            $customer = $this->customerRepository->getModel()
+                ->where('company_id', $companyId)
+                ->where($field, $data[$field])
+                ->first();
+
+            if ($customer) {
+                return ['customer' => $customer, 'matched_on' => str_replace('_', ' ', $field)];
+            }
+        }
+
+        return null;
+    }
+
+    private function importResult(int $rowNumber, string $status, array $customer, string $message): array
+    {
         return [
-            'imported' => $imported,
-            'errors' => $errors,
-            'total_rows' => count($csvData),
+            'row_number' => $rowNumber,
+            'status' => $status,
+            'customer_id' => $status === 'failed' ? null : ($customer['id'] ?? null),
+            'customer_code' => $customer['customer_code'] ?? null,
+            'name' => $customer['name'] ?? null,
+            'message' => $message,
         ];
     }
 
@@ -0,0 +1,285 @@
+<?php
+// app/Services/DeliveryService.php
+
+namespace App\Services;
+
+use App\Models\Delivery;
+use App\Models\Invoice;
+use App\Models\PrintJob;
+use App\Models\User;
+use App\Repositories\DeliveryRepository;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Storage;
+
+class DeliveryService extends BaseService
+{
+    /**
+     * Status changes a rider or coordinator may make from each status
+     */
+    public const TRANSITIONS = [
+        'pending' => ['assigned', 'cancelled'],
+        'assigned' => ['picked_up', 'cancelled'],
+        'picked_up' => ['in_transit', 'out_for_delivery', 'returned'],
+        'in_transit' => ['out_for_delivery', 'failed', 'returned'],
+        'out_for_delivery' => ['delivered', 'failed'],
+        'failed' => ['out_for_delivery', 'returned', 'cancelled'],
+        'delivered' => [],
+        'returned' => [],
+        'cancelled' => [],
+    ];
+
+    public function __construct(DeliveryRepository $repository)
+    {
+        parent::__construct($repository);
+    }
+
+    /**
+     * Create a delivery for a completed print job or an invoice
+     */
+    public function createDelivery(array $data, int $userId): Delivery
+    {
+        try {
+            return DB::transaction(function () use ($data, $userId) {
+                $printJob = !empty($data['print_job_id']) ? PrintJob::with('invoice')->findOrFail($data['print_job_id']) : null;
+                $invoice = $printJob?->invoice ?? (!empty($data['invoice_id']) ? Invoice::findOrFail($data['invoice_id']) : null);
+
+                if (!$printJob && !$invoice) {
+                    throw new \Exception('Choose a print job or an invoice to deliver');
+                }
+
+                if ($printJob && $printJob->production_status !== 'completed') {
+                    throw new \Exception('Only completed print jobs can be delivered');
+                }
+
+                if ($this->repository->hasActiveDelivery($invoice?->id, $printJob?->id)) {
+                    throw new \Exception('This job already has a delivery on its way or delivered');
+                }
+
+                $delivery = $this->repository->create([
+                    'company_id' => $printJob->company_id ?? $invoice->company_id,
+                    'branch_id' => $printJob->branch_id ?? $invoice->branch_id,
+                    'invoice_id' => $invoice?->id,
+                    'print_job_id' => $printJob?->id,
+                    'customer_id' => $printJob?->customer_id ?? $invoice?->customer_id,
+                    'delivery_address' => $data['delivery_address'],
+                    'contact_person' => $data['contact_person'],
+                    'contact_phone' => $data['contact_phone'],
+                    'delivery_method' => $data['delivery_method'],
+                    'delivery_provider' => $data['delivery_provider'] ?? null,
+                    'external_tracking_id' => $data['external_tracking_id'] ?? null,
+                    'delivery_cost' => $data['delivery_cost'] ?? 0,
+                    'estimated_delivery_date' => $data['estimated_delivery_date'] ?? null,
+                    'delivery_notes' => $data['delivery_notes'] ?? null,
+                    'created_by' => $userId,
+                ]);
+
+                $delivery->statusHistory()->create([
+                    'status' => 'pending',
+                    'updated_by' => $userId,
+                    'notes' => 'Delivery created',
+                    'status_datetime' => now(),
+                ]);
+
+                if (!empty($data['assigned_to'])) {
+                    $this->assignRider($delivery, (int) $data['assigned_to'], $userId);
+                }
+
+                return $delivery->fresh();
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'delivery creation');
+            throw $e;
+        }
+    }
+
+    /**
+     * Assign or reassign the rider taking a delivery out
+     */
+    public function assignRider(Delivery $delivery, int $riderId, int $userId, ?string $notes = null): bool
+    {
+        try {
+            if (!in_array($delivery->status, ['pending', 'assigned', 'failed'])) {
+                throw new \Exception('A rider cannot be assigned once the delivery has been picked up');
+            }
+
+            return DB::transaction(function () use ($delivery, $riderId, $userId, $notes) {
+                $previousRider = (int) $delivery->assigned_to !== $riderId ? $delivery->assignedTo?->name : null;
+
+                $delivery->update(['assigned_to' => $riderId]);
+                $rider = $delivery->load('assignedTo')->assignedTo;
+
+                $note = $previousRider
+                    ? "Reassigned from {$previousRider} to {$rider?->name}"
+                    : "Assigned to {$rider?->name}";
+
+                return $delivery->updateStatus('assigned', $userId, trim($note . ($notes ? ' - ' . $notes : '')));
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'delivery assignment');
+            throw $e;
+        }
+    }
+
+    /**
+     * Move a delivery to its next status and record it in the status history
+     */
+    public function changeStatus(Delivery $delivery, string $status, int $userId, ?string $notes = null, ?array $location = null, ?UploadedFile $image = null): bool
+    {
+        try {
+            if (!in_array($status, $this->allowedTransitions($delivery))) {
+                throw new \Exception("A delivery cannot move from {$delivery->status_label} to " . str_replace('_', ' ', $status));
+            }
+
+            if ($status === 'assigned' && !$delivery->assigned_to) {
+                throw new \Exception('Assign a rider before marking the delivery as assigned');
+            }
+
+            if ($status === 'failed' && empty($notes)) {
+                throw new \Exception('Please record why the delivery attempt failed');
+            }
+
+            return DB::transaction(function () use ($delivery, $status, $userId, $notes, $location, $image) {
+                if ($location) {
+                    $location['recorded_at'] = now()->toISOString();
+                }
+
+                $updated = $delivery->updateStatus($status, $userId, $notes, $location);
+
+                if (!$updated) {
+                    return false;
+                }
+
+                if ($location) {
+                    $delivery->update([
+                        'latitude' => $location['latitude'],
+                        'longitude' => $location['longitude'],
+                    ]);
+                }
+
+                if ($image) {
+                    $delivery->statusHistory()->reorder()->latest('id')->first()?->update([
+                        'image_path' => $image->store("deliveries/{$delivery->id}/status", 'public'),
+                    ]);
+                }
+
+                return true;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'delivery status update');
+            throw $e;
+        }
+    }
+
+    /**
+     * Mark a delivery as delivered with the recipient's signature, a photo and the rider's location
+     */
+    public function completeWithProof(Delivery $delivery, array $data, int $userId, ?UploadedFile $photo = null): bool
+    {
+        $storedFiles = [];
+
+        try {
+            if (!in_array('delivered', $this->allowedTransitions($delivery))) {
+                throw new \Exception("A delivery cannot be completed while it is {$delivery->status_label}");
+            }
+
+            $directory = "deliveries/{$delivery->id}/proof";
+            $signaturePath = $directory . '/signature-' . now()->format('YmdHis') . '.png';
+            Storage::disk('public')->put($signaturePath, $this->decodeSignature($data['signature']));
+            $storedFiles[] = $signaturePath;
+
+            $photoPath = $photo?->store($directory, 'public');
+            if ($photoPath) {
+                $storedFiles[] = $photoPath;
+            }
+
+            $location = isset($data['latitude'], $data['longitude']) ? [
+                'latitude' => (float) $data['latitude'],
+                'longitude' => (float) $data['longitude'],
+                'recorded_at' => now()->toISOString(),
+            ] : null;
+
+            return DB::transaction(function () use ($delivery, $data, $userId, $signaturePath, $photoPath, $location) {
+                $delivery->update([
+                    'delivery_proof' => [
+                        'signature_path' => $signaturePath,
+                        'recipient_name' => $data['recipient_name'] ?? null,
+                        'accuracy' => isset($data['accuracy']) ? round((float) $data['accuracy'], 1) : null,
+                        'captured_at' => now()->toISOString(),
+                        'captured_by' => $userId,
+                        'captured_by_name' => User::find($userId)?->name,
+                    ],
+                    'delivery_image' => $photoPath ?? $delivery->delivery_image,
+                    'latitude' => $location['latitude'] ?? $delivery->latitude,
+                    'longitude' => $location['longitude'] ?? $delivery->longitude,
+                    'customer_feedback' => $data['customer_feedback'] ?? null,
+                ]);
+
+                $notes = !empty($data['recipient_name']) ? "Received by {$data['recipient_name']}" : 'Delivered';
+                if (!empty($data['notes'])) {
+                    $notes .= ' - ' . $data['notes'];
+                }
+
+                $updated = $delivery->updateStatus('delivered', $userId, $notes, $location);
+
+                if ($updated && $photoPath) {
+                    $delivery->statusHistory()->reorder()->latest('id')->first()?->update(['image_path' => $photoPath]);
+                }
+
+                return $updated;
+            });
+        } catch (\Exception $e) {
+            Storage::disk('public')->delete($storedFiles);
+            $this->handleException($e, 'delivery completion');
+            throw $e;
+        }
+    }
+
+    /**
+     * Statuses a delivery may move to next
+     */
+    public function allowedTransitions(Delivery $delivery): array
+    {
+        // Customers collecting at the counter skip the rider steps entirely
+        if ($delivery->delivery_method === 'pickup' && in_array($delivery->status, ['pending', 'assigned'])) {
+            return ['delivered', 'cancelled'];
+        }
+
+        return self::TRANSITIONS[$delivery->status] ?? [];
+    }
+
+    /**
+     * Remove a delivery that has not left the branch yet
+     */
+    public function deleteDelivery(Delivery $delivery): bool
+    {
+        try {
+            if (!in_array($delivery->status, ['pending', 'assigned', 'cancelled'])) {
+                throw new \Exception('Only deliveries that have not been picked up can be deleted');
+            }
+
+            return $this->delete($delivery->id);
+        } catch (\Exception $e) {
+            $this->handleException($e, 'delivery deletion');
+            throw $e;
+        }
+    }
+
+    /**
+     * Turn the signature pad's PNG data URL back into image bytes
+     */
+    private function decodeSignature(string $dataUrl): string
+    {
+        if (!preg_match('/^data:image\/png;base64,([A-Za-z0-9+\/=]+)$/', $dataUrl, $matches)) {
+            throw new \Exception('The signature could not be read, please sign again');
+        }
+
+        $binary = base64_decode($matches[1], true);
+
+        if ($binary === false || !str_starts_with($binary, "\x89PNG")) {
+            throw new \Exception('The signature could not be read, please sign again');
+        }
+
+        return $binary;
+    }
+}
@@ -2,9 +2,12 @@
 
 namespace App\Services;
 
+use App\Events\ExpenseBudgetThresholdReached;
 use App\Models\ExpenseBudget;
 use App\Repositories\ExpenseBudgetRepository;
 use Illuminate\Database\Eloquent\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
 use Carbon\Carbon;
 
 class ExpenseBudgetService extends BaseService
@@ -21,24 +24,15 @@ public function __construct(
     public function createBudget(array $data, int $companyId): ExpenseBudget
     {
         try {
+            $data = $this->normalisePeriod($data);
             $data['company_id'] = $companyId;
             $data['created_by'] = auth()->id();
 
-            // Check for existing budget
-            $existing = $this->budgetRepository->findBudget(
-                $companyId,
-                $data['category_id'],
-                $data['budget_period'],
-                $data['budget_year'],
-                $data['branch_id'] ?? null
-            );
-
-            $this->validateBusinessRules([
-                'budget_not_exists' => !$existing
-            ]);
+            $this->assertNoDuplicate($data, $companyId);
 
             return $this->createWithTransaction($data, function ($budget) {
                 $this->budgetRepository->updateBudgetSpentAmount($budget);
+                $this->checkAlertThreshold($budget);
             });
 
         } catch (\Exception $e) {
@@ -53,12 +47,56 @@ public function createBudget(array $data, int $companyId): ExpenseBudget
     public function updateBudget(ExpenseBudget $budget, array $data): bool
     {
         try {
-            return $this->updateWithTransaction($budget, $data, function ($budget) {
-                $this->budgetRepository->updateBudgetSpentAmount($budget);
+            if (isset($data['budget_period'])) {
+                $data = $this->normalisePeriod($data);
+                $this->assertNoDuplicate($data, $budget->company_id, $budget->id);
+            }
+
+            return DB::transaction(function () use ($budget, $data) {
+                $updated = $budget->update($data);
+
+                $this->budgetRepository->updateBudgetSpentAmount($budget->refresh());
+                $this->checkAlertThreshold($budget);
+
+                return $updated;
             });
 
         } catch (\Exception $e) {
-            $this->handleException($e, 'update budget', $budget);
+            $this->handleException($e, 'update budget');
+            throw $e;
+        }
+    }
+
+    /**
+     * Delete budget
+     */
+    public function deleteBudget(ExpenseBudget $budget): bool
+    {
+        try {
+            return DB::transaction(fn () => (bool) $budget->delete());
+
+        } catch (\Exception $e) {
+            $this->handleException($e, 'delete budget');
+            throw $e;
+        }
+    }
+
+    /**
+     * Activate or deactivate budget tracking
+     */
+    public function setActive(ExpenseBudget $budget, bool $active): bool
+    {
+        try {
+            if (!$active) {
+                return $budget->update(['status' => 'inactive']);
+            }
+
+            $budget->update(['status' => 'active']);
+
+            return $this->budgetRepository->updateBudgetSpentAmount($budget);
+
+        } catch (\Exception $e) {
+            $this->handleException($e, 'change budget status');
             throw $e;
         }
     }
@@ -80,15 +118,50 @@ public function getCurrentPeriodBudgets(int $companyId, int $branchId = null): C
     }
 
     /**
-     * Update all budgets spending amounts
+     * Tracked budgets around today, so the expense form can warn before a budget is overspent
+     */
+    public function getBudgetsForExpenseForm(int $companyId): array
+    {
+        return $this->budgetRepository
+            ->getBudgetsCoveringDate($companyId, now()->subMonths(3)->startOfMonth(), now()->addMonths(3)->endOfMonth())
+            ->map(fn (ExpenseBudget $budget) => [
+                'id' => $budget->id,
+                'budget_name' => $budget->budget_name,
+                'category_id' => $budget->category_id,
+                'branch_id' => $budget->branch_id,
+                'start_date' => $budget->start_date->toDateString(),
+                'end_date' => $budget->end_date->toDateString(),
+                'budget_amount' => (float) $budget->budget_amount,
+                'spent_amount' => (float) $budget->spent_amount,
+                'alert_threshold' => (float) $budget->alert_threshold,
+            ])
+            ->values()
+            ->all();
+    }
+
+    /**
+     * Update all budgets spending amounts and raise alerts for budgets that crossed their threshold
+     *
+     * @return array<int, array{budget_id: int, budget_name: string, level: string, spent_percentage: float}>
      */
-    public function updateAllBudgetsSpending(int $companyId): void
+    public function updateAllBudgetsSpending(int $companyId = null): array
     {
-        $budgets = $this->budgetRepository->getCompanyBudgets($companyId, ['status' => 'active']);
-        
-        foreach ($budgets as $budget) {
+        $alerts = [];
+
+        foreach ($this->budgetRepository->getTrackedBudgets($companyId) as $budget) {
             $this->budgetRepository->updateBudgetSpentAmount($budget);
+
+            if ($level = $this->checkAlertThreshold($budget)) {
+                $alerts[] = [
+                    'budget_id' => $budget->id,
+                    'budget_name' => $budget->budget_name,
+                    'level' => $level,
+                    'spent_percentage' => $budget->spent_percentage,
+                ];
+            }
         }
+
+        return $alerts;
     }
 
     /**
@@ -99,7 +172,7 @@ public function extendBudget(ExpenseBudget $budget, float $additionalAmount, str
         try {
             $newBudgetAmount = $budget->budget_amount + $additionalAmount;
             $newRemainingAmount = $newBudgetAmount - $budget->spent_amount;
-            
+
             $metadata = $budget->metadata ?? [];
             $metadata['extensions'] = $metadata['extensions'] ?? [];
             $metadata['extensions'][] = [
@@ -108,17 +181,174 @@ public function extendBudget(ExpenseBudget $budget, float $additionalAmount, str
                 'extended_at' => now()->toISOString(),
                 'extended_by' => auth()->id(),
             ];
-            
+
             return $this->updateBudget($budget, [
                 'budget_amount' => $newBudgetAmount,
-                'remaining_amount' => $newRemainingAmount,
+                'remaining_amount' => max(0, $newRemainingAmount),
                 'metadata' => $metadata,
                 'status' => $budget->spent_amount <= $newBudgetAmount ? 'active' : 'exceeded',
             ]);
 
         } catch (\Exception $e) {
-            $this->handleException($e, 'extend budget', $budget);
+            $this->handleException($e, 'extend budget');
             throw $e;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Budget against actual approved/paid spending, grouped per category and branch
+     */
+    public function getBudgetVsActual(int $companyId, array $filters = []): array
+    {
+        $budgets = $this->budgetRepository->getCompanyBudgets($companyId, $filters)
+            ->where('status', '!=', 'inactive');
+
+        $rows = $budgets
+            ->groupBy(fn (ExpenseBudget $budget) => $budget->category_id . '-' . ($budget->branch_id ?? 'all'))
+            ->map(function (Collection $group) {
+                $first = $group->first();
+                $budgeted = (float) $group->sum('budget_amount');
+                $actual = (float) $group->sum('spent_amount');
+
+                return [
+                    'category_id' => $first->category_id,
+                    'category_name' => $first->category?->name,
+                    'category_color' => $first->category?->color,
+                    'branch_id' => $first->branch_id,
+                    'branch_name' => $first->branch?->name,
+                    'budgets_count' => $group->count(),
+                    'budgeted' => $budgeted,
+                    'actual' => $actual,
+                    'variance' => $budgeted - $actual,
+                    'spent_percentage' => $budgeted > 0 ? round($actual / $budgeted * 100, 2) : 0,
+                    'alert_threshold' => (float) $group->min('alert_threshold'),
+                    'exceeded_count' => $group->where('status', 'exceeded')->count(),
+                ];
+            })
+            ->sortByDesc('spent_percentage')
+            ->values();
+
+        $totalBudgeted = (float) $rows->sum('budgeted');
+        $totalActual = (float) $rows->sum('actual');
+
+        return [
+            'rows' => $rows->all(),
+            'totals' => [
+                'budgeted' => $totalBudgeted,
+                'actual' => $totalActual,
+                'variance' => $totalBudgeted - $totalActual,
+                'spent_percentage' => $totalBudgeted > 0 ? round($totalActual / $totalBudgeted * 100, 2) : 0,
+                'exceeded_count' => $rows->sum('exceeded_count'),
+            ],
+        ];
+    }
+
+    /**
+     * Record and broadcast an alert the first time a budget passes its threshold or its amount
+     *
+     * Returns the level alerted, or null when nothing new was crossed.
+     */
+    private function checkAlertThreshold(ExpenseBudget $budget): ?string
+    {
+        $percentage = $budget->spent_percentage;
+        $level = match (true) {
+            $percentage > 100 => 'exceeded',
+            $percentage >= (float) $budget->alert_threshold => 'threshold',
+            default => null,
+        };
+
+        $settings = $budget->alert_settings ?? [];
+        $lastLevel = $settings['last_alert_level'] ?? null;
+
+        // Spending fell back under the threshold (e.g. after an extension), so allow alerting again
+        if ($level === null) {
+            if ($lastLevel !== null) {
+                $settings['last_alert_level'] = null;
+                $budget->update(['alert_settings' => $settings]);
+            }
+            return null;
+        }
+
+        if ($lastLevel === $level || ($lastLevel === 'exceeded' && $level === 'threshold')) {
+            return null;
+        }
+
+        $settings['last_alert_level'] = $level;
+
+        $metadata = $budget->metadata ?? [];
+        $metadata['alerts'] = $metadata['alerts'] ?? [];
+        $metadata['alerts'][] = [
+            'level' => $level,
+            'spent_amount' => (float) $budget->spent_amount,
+            'spent_percentage' => $percentage,
+            'alerted_at' => now()->toISOString(),
+        ];
+
+        $budget->update(['alert_settings' => $settings, 'metadata' => $metadata]);
+
+        if ($budget->send_alerts) {
+            Log::warning('Expense budget alert', [
+                'budget_id' => $budget->id,
+                'company_id' => $budget->company_id,
+                'level' => $level,
+                'spent_percentage' => $percentage,
+            ]);
+
+            event(new ExpenseBudgetThresholdReached($budget, $level));
+        }
+
+        return $level;
+    }
+
+    /**
+     * Fill month/quarter and the period date range from the budget period and year
+     */
+    private function normalisePeriod(array $data): array
+    {
+        $year = (int) $data['budget_year'];
+
+        switch ($data['budget_period']) {
+            case 'monthly':
+                $start = Carbon::create($year, (int) $data['budget_month'], 1)->startOfDay();
+                $end = $start->copy()->endOfMonth();
+                $data['budget_quarter'] = null;
+                break;
+            case 'quarterly':
+                $start = Carbon::create($year, ((int) $data['budget_quarter'] - 1) * 3 + 1, 1)->startOfDay();
+                $end = $start->copy()->endOfQuarter();
+                $data['budget_month'] = null;
+                break;
+            default:
+                $start = Carbon::create($year, 1, 1)->startOfDay();
+                $end = $start->copy()->endOfYear();
+                $data['budget_month'] = null;
+                $data['budget_quarter'] = null;
+        }
+
+        $data['start_date'] = $start->toDateString();
+        $data['end_date'] = $end->toDateString();
+
+        return $data;
+    }
+
+    /**
+     * Only one budget may cover a category, branch and period
+     */
+    private function assertNoDuplicate(array $data, int $companyId, int $ignoreId = null): void
+    {
+        $existing = $this->budgetRepository->findBudget(
+            $companyId,
+            $data['category_id'],
+            $data['budget_period'],
+            $data['budget_year'],
+            $data['branch_id'] ?? null,
+            $data['budget_month'] ?? null,
+            $data['budget_quarter'] ?? null,
+            $ignoreId
+        );
+
+        if ($existing) {
+            throw new \InvalidArgumentException('A budget already exists for this category, branch and period');
+        }
+    }
+}
@@ -10,6 +10,7 @@
 use Illuminate\Database\Eloquent\Collection;
 use Illuminate\Pagination\LengthAwarePaginator;
 use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
 
 class ExpenseService extends BaseService
 {
@@ -133,51 +134,146 @@ public function updateExpense(Expense $expense, array $data, User $user): bool
 private function calculateNextDueDate(Carbon $currentDate, string $period): Carbon
 {
     return match($period) {
-        'weekly' => $currentDate->addWeek(),
-        'monthly' => $currentDate->addMonth(),
-        'quarterly' => $currentDate->addQuarter(),
-        'yearly' => $currentDate->addYear(),
-        default => $currentDate->addMonth(),
+        'weekly' => $currentDate->copy()->addWeek(),
+        'monthly' => $currentDate->copy()->addMonthNoOverflow(),
+        'quarterly' => $currentDate->copy()->addQuarterNoOverflow(),
+        'yearly' => $currentDate->copy()->addYearNoOverflow(),
+        default => $currentDate->copy()->addMonthNoOverflow(),
     };
 }
 
 /**
- * Generate next recurring expense
+ * Clone the series original into the occurrence due on its next_due_date and move the schedule on
  */
-private function generateNextRecurringExpense(Expense $expense): ?Expense
+public function generateRecurringOccurrence(Expense $expense): Expense
 {
-    if (!$expense->is_recurring || !$expense->next_due_date) {
-        return null;
+    if (!$expense->isRecurringSeriesActive()) {
+        throw new \InvalidArgumentException('Only active recurring expenses can generate occurrences');
     }
 
     try {
-        $nextExpenseData = [
-            'company_id' => $expense->company_id,
-            'branch_id' => $expense->branch_id,
-            'category_id' => $expense->category_id,
-            'created_by' => $expense->created_by,
-            'expense_number' => $this->expenseRepository->generateExpenseNumber($expense->branch_id),
-            'expense_date' => $expense->next_due_date,
-            'amount' => $expense->amount,
-            'description' => $expense->description . ' (Recurring)',
-            'vendor_name' => $expense->vendor_name,
-            'payment_method' => $expense->payment_method,
-            'priority' => $expense->priority,
-            'is_recurring' => true,
-            'recurring_period' => $expense->recurring_period,
-            'next_due_date' => $this->calculateNextDueDate(
-                Carbon::parse($expense->next_due_date),
-                $expense->recurring_period
-            ),
-            'status' => 'draft',
-        ];
-
-        return $this->createWithTransaction($nextExpenseData);
+        return DB::transaction(function () use ($expense) {
+            $dueDate = $expense->next_due_date->copy();
+
+            $occurrence = $this->repository->create([
+                'company_id' => $expense->company_id,
+                'branch_id' => $expense->branch_id,
+                'category_id' => $expense->category_id,
+                'created_by' => $expense->created_by,
+                'expense_number' => Expense::generateExpenseNumber($expense->company_id, $expense->branch_id),
+                'expense_date' => $dueDate->toDateString(),
+                'amount' => $expense->amount,
+                'description' => $expense->description,
+                'vendor_name' => $expense->vendor_name,
+                'vendor_address' => $expense->vendor_address,
+                'vendor_phone' => $expense->vendor_phone,
+                'vendor_email' => $expense->vendor_email,
+                'payment_method' => $expense->payment_method,
+                'priority' => $expense->priority,
+                'notes' => $expense->notes,
+                'is_recurring' => false,
+                'recurring_period' => $expense->recurring_period,
+                'recurring_parent_id' => $expense->id,
+                'status' => $expense->recurring_auto_submit ? 'pending_approval' : 'draft',
+            ]);
+
+            $expense->update([
+                'next_due_date' => $this->calculateNextDueDate($dueDate, $expense->recurring_period)->toDateString(),
+            ]);
 
+            return $occurrence;
+        });
     } catch (\Exception $e) {
         $this->handleException($e, 'generate recurring expense', $expense);
+        throw $e;
+    }
+}
+
+/**
+ * Generate every recurring expense occurrence due on or before the given date.
+ * Cancelled series are skipped; a failing series is logged and the rest still run.
+ */
+public function generateDueRecurringExpenses(?Carbon $date = null, bool $dryRun = false): array
+{
+    $date = ($date ?? today())->toDateString();
+    $results = ['generated' => [], 'failed' => []];
+
+    $series = Expense::recurringDue($date)->orderBy('next_due_date')->get();
+
+    foreach ($series as $expense) {
+        $runs = 0;
+
+        // Catch up missed periods, but never more than a year of weekly runs in one pass
+        while ($expense->next_due_date && $expense->next_due_date->toDateString() <= $date && $runs < 52) {
+            $runs++;
+            $dueDate = $expense->next_due_date->toDateString();
+
+            if ($dryRun) {
+                $results['generated'][] = ['series' => $expense->expense_number, 'due_date' => $dueDate, 'expense_number' => null];
+                $expense->next_due_date = $this->calculateNextDueDate($expense->next_due_date, $expense->recurring_period);
+                continue;
+            }
+
+            try {
+                $occurrence = $this->generateRecurringOccurrence($expense);
+                $results['generated'][] = ['series' => $expense->expense_number, 'due_date' => $dueDate, 'expense_number' => $occurrence->expense_number];
+            } catch (\Exception $e) {
+                $results['failed'][] = ['series' => $expense->expense_number, 'error' => $e->getMessage()];
+                break;
+            }
+        }
+    }
+
+    return $results;
+}
+
+/**
+ * Stop a recurring series; occurrences already generated are kept
+ */
+public function stopRecurringSeries(Expense $expense): bool
+{
+    $root = $expense->recurringSeriesRoot();
+
+    if (!$root || !$root->isRecurringSeriesActive()) {
+        throw new \InvalidArgumentException('This expense is not part of an active recurring series');
+    }
+
+    return $root->update(['next_due_date' => null]);
+}
+
+/**
+ * The original and every generated occurrence of the series an expense belongs to
+ */
+public function getRecurringSeries(Expense $expense): ?array
+{
+    $root = $expense->recurringSeriesRoot();
+
+    if (!$root) {
         return null;
     }
+
+    $occurrences = Expense::where(fn ($query) => $query->where('id', $root->id)->orWhere('recurring_parent_id', $root->id))
+        ->orderByDesc('expense_date')
+        ->orderByDesc('id')
+        ->get(['id', 'expense_number', 'expense_date', 'amount', 'status', 'recurring_parent_id']);
+
+    return [
+        'root_id' => $root->id,
+        'root_number' => $root->expense_number,
+        'recurring_period' => $root->recurring_period,
+        'next_due_date' => $root->next_due_date?->toDateString(),
+        'auto_submit' => $root->recurring_auto_submit,
+        'is_active' => $root->isRecurringSeriesActive(),
+        'occurrences' => $occurrences->map(fn (Expense $occurrence) => [
+            'id' => $occurrence->id,
+            'expense_number' => $occurrence->expense_number,
+            'expense_date' => $occurrence->expense_date?->toDateString(),
+            'amount' => (float) $occurrence->amount,
+            'status' => $occurrence->status,
+            'is_original' => $occurrence->recurring_parent_id === null,
+        ])->values()->all(),
+        'total_amount' => (float) $occurrences->whereIn('status', ['approved', 'paid'])->sum('amount'),
+    ];
 }
     /**
      * Create new expense
@@ -230,13 +326,8 @@ public function markAsPaid(Expense $expense, string $notes = null): bool
                 'expense_approved' => $expense->status === 'approved'
             ]);
 
-            $marked = $expense->markAsPaid($notes);
-
-            if ($marked && $expense->is_recurring) {
-                $this->generateNextRecurringExpense($expense);
-            }
-
-            return $marked;
+            // The next occurrence of a recurring expense comes from the scheduled expenses:generate-recurring run
+            return $expense->markAsPaid($notes);
 
         } catch (\Exception $e) {
             $this->handleException($e, 'mark as paid', $expense);
@@ -0,0 +1,151 @@
+<?php
+// app/Services/InvoiceEmailService.php
+
+namespace App\Services;
+
+use App\Mail\InvoiceMail;
+use App\Models\Company;
+use App\Models\Invoice;
+use App\Models\InvoiceEmail;
+use App\Repositories\InvoiceEmailRepository;
+use Illuminate\Support\Facades\Mail;
+
+class InvoiceEmailService extends BaseService
+{
+    // Placeholders the company template may use, with what they are replaced by
+    public const PLACEHOLDERS = [
+        '{customer_name}' => 'Customer name',
+        '{invoice_number}' => 'Invoice number',
+        '{invoice_date}' => 'Invoice date',
+        '{due_date}' => 'Due date',
+        '{total}' => 'Invoice total',
+        '{balance}' => 'Balance due',
+        '{company_name}' => 'Your company name',
+        '{pay_online_link}' => 'PayHere link to pay the balance online',
+    ];
+
+    public const DEFAULT_TEMPLATE = [
+        'subject' => 'Invoice {invoice_number} from {company_name}',
+        'body' => "Dear {customer_name},\n\n"
+            . "Please find attached invoice {invoice_number} dated {invoice_date} for Rs. {total}.\n\n"
+            . "The balance of Rs. {balance} is due on {due_date}.\n\n"
+            . "Thank you for your business.\n"
+            . '{company_name}',
+    ];
+
+    public function __construct(
+        InvoiceEmailRepository $repository,
+        private PayHereService $payHereService
+    ) {
+        parent::__construct($repository);
+    }
+
+    /**
+     * The company's invoice email template, falling back to the default for missing parts
+     */
+    public function getTemplate(Company $company): array
+    {
+        $template = $company->settings['invoice_email'] ?? [];
+
+        return [
+            'subject' => ($template['subject'] ?? null) ?: self::DEFAULT_TEMPLATE['subject'],
+            'body' => ($template['body'] ?? null) ?: self::DEFAULT_TEMPLATE['body'],
+        ];
+    }
+
+    /**
+     * Save the template into the company settings, leaving other settings as they are
+     */
+    public function updateTemplate(Company $company, array $template): Company
+    {
+        $settings = $company->settings ?? [];
+        $settings['invoice_email'] = [
+            'subject' => $template['subject'],
+            'body' => $template['body'],
+        ];
+
+        $company->update(['settings' => $settings]);
+
+        return $company;
+    }
+
+    /**
+     * Subject and body of the company template filled in for an invoice
+     */
+    public function render(Invoice $invoice, ?array $template = null): array
+    {
+        $invoice->loadMissing(['company', 'customer']);
+        $template ??= $this->getTemplate($invoice->company);
+
+        $values = [
+            '{customer_name}' => $invoice->customer->name,
+            '{invoice_number}' => $invoice->invoice_number,
+            '{invoice_date}' => $invoice->invoice_date->format('d M Y'),
+            '{due_date}' => $invoice->due_date->format('d M Y'),
+            '{total}' => number_format((float) $invoice->total_amount, 2),
+            '{balance}' => number_format($invoice->remaining_amount, 2),
+            '{company_name}' => $invoice->company->name,
+            // Left empty when the invoice cannot be paid online, e.g. once it is settled
+            '{pay_online_link}' => $this->payHereService->canPayOnline($invoice) ? $this->payHereService->payLink($invoice) : '',
+        ];
+
+        return [
+            'subject' => strtr($template['subject'], $values),
+            'body' => strtr($template['body'], $values),
+        ];
+    }
+
+    /**
+     * Log the email and queue it with the invoice PDF attached. Subject and body
+     * default to the rendered company template.
+     */
+    public function sendInvoice(
+        Invoice $invoice,
+        string $recipient,
+        ?int $userId,
+        ?string $subject = null,
+        ?string $body = null,
+        ?InvoiceEmail $resentFrom = null
+    ): InvoiceEmail {
+        if ($invoice->status === 'cancelled') {
+            throw new \Exception('Cancelled invoices cannot be emailed.');
+        }
+
+        try {
+            $rendered = $this->render($invoice);
+
+            /** @var InvoiceEmail $invoiceEmail */
+            $invoiceEmail = $this->repository->create([
+                'invoice_id' => $invoice->id,
+                'company_id' => $invoice->company_id,
+                'sent_by' => $userId,
+                'resent_from_id' => $resentFrom?->id,
+                'recipient' => $recipient,
+                'subject' => $subject ?: $rendered['subject'],
+                'body' => $body ?: $rendered['body'],
+                'status' => 'queued',
+            ]);
+
+            Mail::to($recipient)->queue(new InvoiceMail($invoiceEmail));
+
+            return $invoiceEmail;
+        } catch (\Exception $e) {
+            $this->handleException($e, 'invoice email sending');
+            throw $e;
+        }
+    }
+
+    /**
+     * Send an earlier email again to the same recipient. The template is filled in
+     * afresh so the balance and due date are current.
+     */
+    public function resend(InvoiceEmail $invoiceEmail, ?int $userId): InvoiceEmail
+    {
+        return $this->sendInvoice(
+            $invoiceEmail->invoice,
+            $invoiceEmail->recipient,
+            $userId,
+            resentFrom: $invoiceEmail
+        );
+    }
+}
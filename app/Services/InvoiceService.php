@@ -4,30 +4,53 @@
 
 use App\Models\Invoice;
 use App\Models\InvoiceItem;
+use App\Models\InvoiceRevision;
 use App\Repositories\InvoiceRepository;
 use App\Repositories\CustomerRepository;
 use App\Repositories\ProductRepository;
 use App\Repositories\BranchRepository;
+use App\Repositories\WeightPricingTierRepository;
+use App\Repositories\PriceListRepository;
+use Barryvdh\DomPDF\Facade\Pdf;
+use Illuminate\Support\Arr;
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Log;
 use Carbon\Carbon;
 
 class InvoiceService extends BaseService
 {
+    // Invoice fields compared between revisions, besides the line items
+    private const REVISION_FIELDS = [
+        'due_date', 'status', 'discount_amount', 'notes', 'terms_conditions',
+        'subtotal', 'weight_charge', 'tax_amount', 'total_amount',
+    ];
+
+    // 80mm thermal paper in points
+    private const THERMAL_WIDTH_PT = 226.77;
+
     protected CustomerRepository $customerRepository;
     protected ProductRepository $productRepository;
     protected BranchRepository $branchRepository;
+    protected WeightPricingTierRepository $pricingTierRepository;
+    protected ProductPricingService $productPricingService;
+    protected PriceListRepository $priceListRepository;
 
     public function __construct(
         InvoiceRepository $repository,
         CustomerRepository $customerRepository,
         ProductRepository $productRepository,
-        BranchRepository $branchRepository
+        BranchRepository $branchRepository,
+        WeightPricingTierRepository $pricingTierRepository,
+        ProductPricingService $productPricingService,
+        PriceListRepository $priceListRepository
     ) {
         parent::__construct($repository);
         $this->customerRepository = $customerRepository;
         $this->productRepository = $productRepository;
         $this->branchRepository = $branchRepository;
+        $this->pricingTierRepository = $pricingTierRepository;
+        $this->productPricingService = $productPricingService;
+        $this->priceListRepository = $priceListRepository;
     }
 
     /**
@@ -90,12 +113,13 @@ public function createInvoice(array $data, int $companyId, int $userId): Invoice
     }
 
     /**
-     * Update invoice
+     * Update invoice and record what changed as a revision.
+     * Invoices past draft and pending, or with payments, are only updated with $overrideLock.
      */
-    public function updateInvoice(int $invoiceId, array $data, int $companyId): Invoice
+    public function updateInvoice(int $invoiceId, array $data, int $companyId, ?int $userId = null, bool $overrideLock = false): Invoice
     {
         try {
-            return DB::transaction(function () use ($invoiceId, $data, $companyId) {
+            return DB::transaction(function () use ($invoiceId, $data, $companyId, $userId, $overrideLock) {
                 $invoice = $this->repository->findOrFail($invoiceId);
                 
                 // Verify invoice belongs to company
@@ -104,10 +128,13 @@ public function updateInvoice(int $invoiceId, array $data, int $companyId): Invo
                 }
 
                 // Check if invoice can be modified
-                if (!$this->repository->canBeModified($invoiceId)) {
+                if (!$this->repository->canBeModified($invoiceId, $overrideLock)) {
                     throw new \Exception('Invoice cannot be modified at this time.');
                 }
 
+                $lockReason = $invoice->getEditLockReason();
+                $before = $this->snapshotInvoice($invoice);
+
                 // Update invoice data
                 $updateData = array_intersect_key($data, array_flip([
                     'due_date', 'notes', 'terms_conditions', 'discount_amount', 'status'
@@ -124,6 +151,13 @@ public function updateInvoice(int $invoiceId, array $data, int $companyId): Invo
                 $invoice->refresh();
                 $this->calculateInvoiceTotals($invoice);
 
+                // A new total can change how much of it the recorded payments cover
+                if ($invoice->payments()->exists()) {
+                    $invoice->updatePaymentStatus();
+                }
+
+                $this->recordRevision($invoice, $before, $userId, $lockReason, $data['revision_note'] ?? null);
+
                 return $invoice->load(['customer', 'branch', 'items.product', 'creator']);
             });
         } catch (\Exception $e) {
@@ -132,6 +166,101 @@ public function updateInvoice(int $invoiceId, array $data, int $companyId): Invo
         }
     }
 
+    /**
+     * Invoice fields and line items as they stand, for comparing before and after an edit
+     */
+    private function snapshotInvoice(Invoice $invoice): array
+    {
+        $invoice->load('items');
+
+        $fields = [];
+        foreach (self::REVISION_FIELDS as $field) {
+            $value = $invoice->getAttribute($field);
+            $fields[$field] = $value instanceof Carbon ? $value->toDateString() : $value;
+        }
+
+        return [
+            'fields' => $fields,
+            'items' => $invoice->items->map(fn(InvoiceItem $item) => [
+                'product_id' => $item->product_id,
+                'item_description' => $item->item_description,
+                'quantity' => (float) $item->quantity,
+                'unit_price' => (float) $item->unit_price,
+                'line_total' => (float) $item->line_total,
+            ])->all(),
+        ];
+    }
+
+    /**
+     * Store the differences between $before and the saved invoice; nothing is stored when nothing changed
+     */
+    private function recordRevision(Invoice $invoice, array $before, ?int $userId, ?string $lockReason, ?string $note): ?InvoiceRevision
+    {
+        $after = $this->snapshotInvoice($invoice);
+
+        $changes = [];
+        foreach ($before['fields'] as $field => $from) {
+            $to = $after['fields'][$field];
+            $isNumeric = is_numeric($from) && is_numeric($to);
+
+            if ($isNumeric ? round((float) $from, 2) !== round((float) $to, 2) : (string) $from !== (string) $to) {
+                $changes[$field] = ['from' => $from, 'to' => $to];
+            }
+        }
+
+        $itemChanges = $this->diffItems($before['items'], $after['items']);
+
+        if (empty($changes) && empty($itemChanges)) {
+            return null;
+        }
+
+        return InvoiceRevision::create([
+            'invoice_id' => $invoice->id,
+            'user_id' => $userId,
+            'revision_number' => (int) $invoice->revisions()->max('revision_number') + 1,
+            'changes' => $changes,
+            'item_changes' => $itemChanges,
+            'old_total' => $before['fields']['total_amount'],
+            'new_total' => $after['fields']['total_amount'],
+            'lock_reason' => $lockReason,
+            'note' => $note,
+        ]);
+    }
+
+    /**
+     * Lines are replaced on every save, so old and new lines are paired by product in their original order
+     */
+    private function diffItems(array $oldItems, array $newItems): array
+    {
+        $oldByProduct = collect($oldItems)->groupBy('product_id');
+        $newByProduct = collect($newItems)->groupBy('product_id');
+        $changes = [];
+
+        foreach ($oldByProduct->keys()->merge($newByProduct->keys())->unique() as $productId) {
+            $old = $oldByProduct->get($productId, collect())->values();
+            $new = $newByProduct->get($productId, collect())->values();
+
+            for ($i = 0; $i < max($old->count(), $new->count()); $i++) {
+                $from = $old->get($i);
+                $to = $new->get($i);
+
+                if ($from && $to && $from === $to) {
+                    continue;
+                }
+
+                $changes[] = [
+                    'action' => !$from ? 'added' : (!$to ? 'removed' : 'changed'),
+                    'product_id' => (int) $productId,
+                    'item_description' => ($to ?? $from)['item_description'],
+                    'from' => $from ? Arr::only($from, ['quantity', 'unit_price', 'line_total']) : null,
+                    'to' => $to ? Arr::only($to, ['quantity', 'unit_price', 'line_total']) : null,
+                ];
+            }
+        }
+
+        return $changes;
+    }
+
     /**
      * Add items to invoice
      */
@@ -146,7 +275,9 @@ protected function addInvoiceItems(Invoice $invoice, array $items): void
 
             // Calculate item totals
             $quantity = $itemData['quantity'];
-            $unitPrice = $itemData['unit_price'] ?? $product->base_price;
+            // Lines without a price entered get the customer's price list or quantity break rate
+            $unitPrice = $itemData['unit_price']
+                ?? $this->productPricingService->resolveUnitPrice($product, (float) $quantity, $invoice->customer)['unit_price'];
             $unitWeight = $itemData['unit_weight'] ?? $product->weight_per_unit;
             
             $lineTotal = $quantity * $unitPrice;
@@ -212,39 +343,102 @@ protected function calculateInvoiceTotals(Invoice $invoice): void
     }
 
     /**
-     * Calculate weight-based delivery charge
+     * Calculate weight-based delivery charge from the company's active pricing tiers.
+     * Invoices whose weight falls outside every tier carry no weight charge.
      */
-    protected function calculateWeightCharge(float $weight, int $companyId): float
+    public function calculateWeightCharge(float $weight, int $companyId): float
     {
-        // Check if company has custom weight pricing tiers
-        $weightTier = \App\Models\WeightPricingTier::where('company_id', $companyId)
-            ->where('status', 'active')
-            ->where('min_weight', '<=', $weight)
-            ->where(function($query) use ($weight) {
-                $query->where('max_weight', '>=', $weight)
-                      ->orWhereNull('max_weight');
-            })
-            ->orderBy('min_weight', 'desc')
-            ->first();
-
-        if ($weightTier) {
-            $basePrice = $weightTier->base_price;
-            $extraWeight = max(0, $weight - $weightTier->min_weight);
-            return $basePrice + ($extraWeight * $weightTier->price_per_kg);
-        }
+        $calculation = $this->pricingTierRepository->calculateDeliveryPrice($companyId, $weight);
 
-        // Default weight-based pricing
-        if ($weight <= 1) {
-            return 200; // Light (0-1kg): Rs. 200 flat rate
-        } elseif ($weight <= 3) {
-            return 300; // Medium (1-3kg): Rs. 300 flat rate
-        } elseif ($weight <= 5) {
-            return 400; // Heavy (3-5kg): Rs. 400 flat rate
-        } elseif ($weight <= 10) {
-            return 500 + (($weight - 5) * 50); // Extra Heavy (5-10kg)
-        } else {
-            return 750 + (($weight - 10) * 75); // Bulk (10kg+)
-        }
+        return round((float) $calculation['price'], 2);
+    }
+
+    /**
+     * Customers, products, branches and pricing rules for the invoice and quotation forms
+     */
+    public function getFormOptions(int $companyId): array
+    {
+        // Get raw data from repositories
+        $customersData = $this->customerRepository->getForDropdown($companyId);
+        $productsData = $this->productRepository->getForDropdown($companyId);
+        $branchesData = $this->branchRepository->getForDropdown($companyId);
+
+        // Transform customers data for frontend
+        $customers = $customersData->map(function ($customer) {
+            return [
+                'value' => $customer->id,
+                'label' => $customer->name . ' (' . ($customer->customer_code ?? '') . ')',
+                'display_name' => $customer->name,
+                'credit_limit' => $customer->credit_limit ?? 0,
+                'current_balance' => $customer->current_balance ?? 0,
+                'phone' => $customer->phone ?? '',
+                'email' => $customer->email ?? '',
+                'customer_type' => $customer->customer_type,
+                'price_list_id' => $customer->price_list_id,
+            ];
+        })->toArray();
+
+        // Transform products data for frontend
+        $products = $productsData->map(function ($product) {
+            return [
+                'value' => $product->id,
+                'label' => $product->name . ' - Rs. ' . number_format($product->base_price ?? 0, 2),
+                'name' => $product->name,
+                'base_price' => $product->base_price ?? 0,
+                'weight_per_unit' => $product->weight_per_unit ?? 0,
+                'weight_unit' => $product->weight_unit ?? 'kg',
+                'tax_rate' => $product->tax_rate ?? 0,
+                'unit_type' => $product->unit_type ?? 'piece',
+                'pricing_tiers' => $product->pricing_tiers ?? [],
+            ];
+        })->toArray();
+
+        // Transform branches data for frontend
+        $branches = $branchesData->map(function ($branch) {
+            return [
+                'value' => $branch->id,
+                'label' => $branch->name . ' (' . ($branch->code ?? '') . ')',
+                'name' => $branch->name,
+                'code' => $branch->code ?? '',
+            ];
+        })->toArray();
+
+        // Active delivery tiers, so the form prices weight exactly like calculateWeightCharge
+        $weightPricingTiers = $this->pricingTierRepository->getForCompany($companyId)
+            ->map(fn($tier) => [
+                'id' => $tier->id,
+                'tier_name' => $tier->tier_name,
+                'min_weight' => (float) $tier->min_weight,
+                'max_weight' => $tier->max_weight !== null ? (float) $tier->max_weight : null,
+                'base_price' => (float) $tier->base_price,
+                'price_per_kg' => (float) $tier->price_per_kg,
+                'weight_range' => $tier->weight_range,
+            ])
+            ->values()
+            ->toArray();
+
+        // Price lists in effect today, so lines pick up customer rates like ProductPricingService
+        $priceLists = $this->priceListRepository->getCurrentForCompany($companyId)
+            ->map(fn($priceList) => [
+                'id' => $priceList->id,
+                'name' => $priceList->name,
+                'customer_type' => $priceList->customer_type,
+                'items' => $priceList->items->map(fn($item) => [
+                    'product_id' => $item->product_id,
+                    'min_quantity' => $item->min_quantity,
+                    'unit_price' => (float) $item->unit_price,
+                ])->values(),
+            ])
+            ->values()
+            ->toArray();
+
+        return [
+            'customers' => $customers,
+            'products' => $products,
+            'branches' => $branches,
+            'weight_pricing_tiers' => $weightPricingTiers,
+            'price_lists' => $priceLists,
+        ];
     }
 
     /**
@@ -305,19 +499,46 @@ public function updatePaymentStatus(int $invoiceId): void
 
     /**
      * Generate invoice PDF
+     *
+     * The A4 layout is the full invoice; the thermal layout is an 80mm receipt-printer slip of the same figures.
      */
-    public function generatePDF(int $invoiceId, int $companyId): string
+    public function generatePDF(int $invoiceId, int $companyId, string $layout = 'a4'): string
     {
         $invoice = $this->repository->findWithDetails($invoiceId);
-        
+
         if (!$invoice || $invoice->company_id !== $companyId) {
             throw new \Exception('Invoice not found.');
         }
 
-        // Here you would implement PDF generation logic
-        // Using something like Laravel DomPDF or similar
-        
-        return "PDF generation logic here";
+        $data = [
+            'invoice' => $invoice,
+            'company' => $invoice->company,
+            'branch' => $invoice->branch,
+            'payments' => $invoice->payments->where('status', 'completed')->sortBy('payment_date')->values(),
+            'totalPaid' => $invoice->total_paid,
+            'totalCredited' => $invoice->total_credited,
+            'balanceDue' => $invoice->remaining_amount,
+        ];
+
+        if ($layout === 'thermal') {
+            return Pdf::loadView('pdf.invoice-thermal', $data)
+                ->setPaper([0, 0, self::THERMAL_WIDTH_PT, $this->thermalPaperHeight($invoice)])
+                ->output();
+        }
+
+        return Pdf::loadView('pdf.invoice', $data)
+            ->setPaper('a4')
+            ->output();
+    }
+
+    /**
+     * Receipt rolls are continuous, so size the page to the content instead of splitting it
+     */
+    private function thermalPaperHeight(Invoice $invoice): float
+    {
+        $lines = $invoice->items->sum(fn (InvoiceItem $item) => 2 + count($item->specifications ?? []));
+
+        return 360 + ($lines * 12) + ($invoice->payments->count() * 12) + ($invoice->notes ? 36 : 0);
     }
 
     /**
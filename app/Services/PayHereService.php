@@ -0,0 +1,232 @@
+<?php
+// app/Services/PayHereService.php
+
+namespace App\Services;
+
+use App\Models\Invoice;
+use App\Models\Payment;
+use App\Repositories\InvoiceRepository;
+use App\Repositories\PaymentRepository;
+use Illuminate\Database\UniqueConstraintViolationException;
+use Illuminate\Support\Arr;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\URL;
+
+class PayHereService extends BaseService
+{
+    // status_code values PayHere sends to the notify URL
+    public const STATUS_SUCCESS = 2;
+    public const STATUS_PENDING = 0;
+    public const STATUS_CANCELLED = -1;
+    public const STATUS_FAILED = -2;
+    public const STATUS_CHARGEDBACK = -3;
+
+    // Notification fields kept on the payment as payment_metadata
+    private const METADATA_FIELDS = [
+        'payment_id',
+        'order_id',
+        'payhere_amount',
+        'payhere_currency',
+        'status_code',
+        'status_message',
+        'method',
+        'card_holder_name',
+        'card_no',
+        'card_expiry',
+    ];
+
+    public function __construct(
+        PaymentRepository $repository,
+        private PaymentService $paymentService,
+        private InvoiceRepository $invoiceRepository
+    ) {
+        parent::__construct($repository);
+    }
+
+    public function isConfigured(): bool
+    {
+        return filled(config('services.payhere.merchant_id')) && filled(config('services.payhere.merchant_secret'));
+    }
+
+    public function usesFakeCheckout(): bool
+    {
+        return (bool) config('services.payhere.fake') && !app()->isProduction();
+    }
+
+    public function checkoutUrl(): string
+    {
+        return $this->usesFakeCheckout()
+            ? route('webhook.payhere.fake-checkout')
+            : config('services.payhere.checkout_url');
+    }
+
+    /**
+     * Whether the invoice can be paid online at all
+     */
+    public function canPayOnline(Invoice $invoice): bool
+    {
+        return $this->isConfigured()
+            && !in_array($invoice->status, ['draft', 'cancelled'])
+            && $invoice->remaining_amount > 0;
+    }
+
+    /**
+     * Public link the customer opens to pay the invoice. It carries a signature instead of a login.
+     */
+    public function payLink(Invoice $invoice, array $query = []): string
+    {
+        return URL::signedRoute('payhere.checkout', ['id' => $invoice->id, ...$query]);
+    }
+
+    /**
+     * Hidden fields for the form that posts the customer to the PayHere checkout
+     */
+    public function checkoutFields(Invoice $invoice): array
+    {
+        $invoice->loadMissing(['customer', 'company']);
+
+        $customer = $invoice->customer;
+        $amount = $this->formatAmount($invoice->remaining_amount);
+        $currency = config('services.payhere.currency');
+        [$firstName, $lastName] = array_pad(explode(' ', trim($customer->name), 2), 2, '');
+
+        return [
+            'merchant_id' => config('services.payhere.merchant_id'),
+            'return_url' => $this->payLink($invoice, ['result' => 'returned']),
+            'cancel_url' => $this->payLink($invoice, ['result' => 'cancelled']),
+            'notify_url' => route('webhook.payhere'),
+            'order_id' => $invoice->invoice_number,
+            'items' => 'Invoice ' . $invoice->invoice_number,
+            'currency' => $currency,
+            'amount' => $amount,
+            'first_name' => $firstName,
+            'last_name' => $lastName,
+            'email' => $customer->email ?? '',
+            'phone' => $customer->phone ?? '',
+            'address' => $customer->billing_address ?? '',
+            'city' => $customer->city ?? '',
+            'country' => 'Sri Lanka',
+            'custom_1' => (string) $invoice->id,
+            'hash' => $this->checkoutHash($invoice->invoice_number, $amount, $currency),
+        ];
+    }
+
+    public function checkoutHash(string $orderId, string $amount, string $currency): string
+    {
+        return strtoupper(md5(
+            config('services.payhere.merchant_id') . $orderId . $amount . $currency . $this->hashedSecret()
+        ));
+    }
+
+    public function notificationSignature(string $orderId, string $amount, string $currency, int|string $statusCode): string
+    {
+        return strtoupper(md5(
+            config('services.payhere.merchant_id') . $orderId . $amount . $currency . $statusCode . $this->hashedSecret()
+        ));
+    }
+
+    /**
+     * Check the md5sig PayHere puts on every notification. custom_1 is not covered by it,
+     * so the invoice is always looked up by the signed order_id.
+     */
+    public function hasValidSignature(array $payload): bool
+    {
+        if (!$this->isConfigured() || ($payload['merchant_id'] ?? null) !== (string) config('services.payhere.merchant_id')) {
+            return false;
+        }
+
+        $expected = $this->notificationSignature(
+            (string) ($payload['order_id'] ?? ''),
+            (string) ($payload['payhere_amount'] ?? ''),
+            (string) ($payload['payhere_currency'] ?? ''),
+            (string) ($payload['status_code'] ?? '')
+        );
+
+        return hash_equals($expected, strtoupper((string) ($payload['md5sig'] ?? '')));
+    }
+
+    /**
+     * Record a successful PayHere payment against its invoice. PayHere may send the same
+     * notification more than once, so a payment_id already on file returns that payment,
+     * including when a concurrent retry inserted it first.
+     * Returns null for notifications that do not move money (pending, cancelled, failed).
+     */
+    public function handleNotification(array $payload): ?Payment
+    {
+        if (!$this->hasValidSignature($payload)) {
+            throw new \InvalidArgumentException('Invalid PayHere signature.');
+        }
+
+        $invoice = $this->invoiceRepository->findByInvoiceNumber($payload['order_id']);
+
+        if (!$invoice || (isset($payload['custom_1']) && (int) $payload['custom_1'] !== $invoice->id)) {
+            throw new \InvalidArgumentException('Unknown PayHere order ' . $payload['order_id'] . '.');
+        }
+
+        if ($payload['payhere_currency'] !== config('services.payhere.currency')) {
+            throw new \InvalidArgumentException('Unexpected PayHere currency ' . $payload['payhere_currency'] . '.');
+        }
+
+        $statusCode = (int) $payload['status_code'];
+
+        if ($statusCode !== self::STATUS_SUCCESS) {
+            Log::info('PayHere notification without a payment', [
+                'invoice_id' => $invoice->id,
+                'payment_id' => $payload['payment_id'] ?? null,
+                'status_code' => $statusCode,
+                'status_message' => $payload['status_message'] ?? null,
+            ]);
+
+            return null;
+        }
+
+        try {
+            return DB::transaction(function () use ($invoice, $payload) {
+                // Serialises retries of the same notification arriving together
+                Invoice::whereKey($invoice->id)->lockForUpdate()->first();
+
+                $existing = $this->repository->getByGatewayReference($payload['payment_id']);
+
+                if ($existing) {
+                    $invoice->updatePaymentStatus();
+
+                    return $existing;
+                }
+
+                return $this->paymentService->processOnlinePayment([
+                    'invoice_id' => $invoice->id,
+                    'branch_id' => $invoice->branch_id,
+                    'customer_id' => $invoice->customer_id,
+                    // Nobody at the counter took this payment, so it goes on the invoice creator
+                    'received_by' => $invoice->created_by,
+                    'amount' => (float) $payload['payhere_amount'],
+                    'gateway_reference' => $payload['payment_id'],
+                    'transaction_id' => $payload['payment_id'],
+                    'metadata' => ['gateway' => 'payhere', ...Arr::only($payload, self::METADATA_FIELDS)],
+                ]);
+            });
+        } catch (UniqueConstraintViolationException $e) {
+            // The first notification for this payment_id was recorded while this one was being handled
+            $existing = $this->repository->getByGatewayReference($payload['payment_id']);
+
+            if (!$existing) {
+                $this->handleException($e, 'recording PayHere payment');
+            }
+
+            return $existing;
+        } catch (\Exception $e) {
+            $this->handleException($e, 'recording PayHere payment');
+        }
+    }
+
+    private function hashedSecret(): string
+    {
+        return strtoupper(md5((string) config('services.payhere.merchant_secret')));
+    }
+
+    private function formatAmount(float $amount): string
+    {
+        return number_format($amount, 2, '.', '');
+    }
+}
@@ -8,6 +8,7 @@
 use App\Models\PaymentNotification;
 use App\Repositories\PaymentRepository;
 use App\Repositories\PaymentVerificationRepository;
+use Barryvdh\DomPDF\Facade\Pdf;
 use Illuminate\Http\UploadedFile;
 use Illuminate\Support\Facades\Storage;
 use Illuminate\Support\Str;
@@ -18,6 +19,9 @@
 
 class PaymentService extends BaseService
 {
+    // 80mm roll, the same width the thermal invoice uses
+    private const THERMAL_WIDTH_PT = 226.77;
+
     protected PaymentVerificationRepository $verificationRepository;
 
     public function __construct(
@@ -232,9 +236,6 @@ public function processOnlinePayment(array $gatewayData): Payment
                 // Update invoice payment status
                 $this->updateInvoicePaymentStatus($payment->invoice_id);
 
-                // Fire payment created event
-                event(new PaymentCreated($payment));
-
                 return $payment;
             });
         } catch (\Exception $e) {
@@ -242,6 +243,55 @@ public function processOnlinePayment(array $gatewayData): Payment
         }
     }
 
+    /**
+     * Pay money back to the customer against an invoice, optionally for a credit note.
+     * Refunds are completed straight away and stored with a negative amount.
+     */
+    public function recordRefund(Invoice $invoice, array $data, ?int $creditNoteId = null): Payment
+    {
+        try {
+            return \DB::transaction(function () use ($invoice, $data, $creditNoteId) {
+                $amount = round(abs((float) $data['amount']), 2);
+                $refundable = $invoice->refundable_amount;
+
+                if ($amount <= 0) {
+                    throw new \Exception('Refund amount must be greater than zero');
+                }
+
+                if ($amount > $refundable) {
+                    throw new \Exception('Refund amount cannot exceed the refundable amount of Rs. ' . number_format($refundable, 2));
+                }
+
+                $payment = $this->repository->create([
+                    'invoice_id' => $invoice->id,
+                    'credit_note_id' => $creditNoteId,
+                    'branch_id' => $invoice->branch_id,
+                    'customer_id' => $invoice->customer_id,
+                    'received_by' => auth()->id(),
+                    'payment_reference' => $this->generatePaymentReference($invoice->branch_id),
+                    'amount' => -$amount,
+                    'payment_date' => now(),
+                    'payment_method' => $data['payment_method'],
+                    'payment_type' => 'refund',
+                    'bank_name' => $data['bank_name'] ?? null,
+                    'transaction_id' => $data['transaction_id'] ?? null,
+                    'cheque_number' => $data['cheque_number'] ?? null,
+                    'status' => 'completed',
+                    'verification_status' => 'verified',
+                    'verified_at' => now(),
+                    'verified_by' => auth()->id(),
+                    'notes' => $data['notes'] ?? null,
+                ]);
+
+                $this->updateInvoicePaymentStatus($invoice->id);
+
+                return $payment;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'recording refund');
+        }
+    }
+
     /**
      * Get payment summary for an invoice
      */
@@ -251,16 +301,22 @@ public function getInvoicePaymentSummary(int $invoiceId): array
         $payments = $this->repository->getByInvoiceId($invoiceId);
 
         $totalPaid = $this->repository->getTotalPaidForInvoice($invoiceId);
+        $totalCredited = $invoice->total_credited;
         $pendingAmount = $payments->where('status', 'pending')->sum('amount');
-        $remainingBalance = $invoice->total_amount - $totalPaid;
+        $remainingBalance = $invoice->total_amount - $totalCredited - $totalPaid;
 
         return [
             'invoice' => $invoice,
             'invoice_total' => $invoice->total_amount,
             'total_paid' => $totalPaid,
+            'total_credited' => $totalCredited,
+            'total_refunded' => abs($payments->where('payment_type', 'refund')->where('status', 'completed')->sum('amount')),
+            'refundable_amount' => max(0, round($totalPaid - ($invoice->total_amount - $totalCredited), 2)),
             'pending_amount' => $pendingAmount,
             'remaining_balance' => max(0, $remainingBalance),
-            'payment_status' => $this->determinePaymentStatus($invoice->total_amount, $totalPaid),
+            'payment_status' => in_array($invoice->payment_status, ['credited', 'refunded'])
+                ? $invoice->payment_status
+                : $this->determinePaymentStatus($invoice->total_amount - $totalCredited, $totalPaid),
             'payments' => $payments,
             'payment_history' => $payments->sortByDesc('payment_date'),
         ];
@@ -271,8 +327,8 @@ public function getInvoicePaymentSummary(int $invoiceId): array
      */
     public function getFilteredPayments(array $filters = [], int $perPage = 15)
     {
-        // Add branch filter for current user
-        if (!isset($filters['branch_id']) && auth()->user()->branch_id) {
+        // Add branch filter for current user, unless company-wide payments were asked for
+        if (!isset($filters['branch_id']) && !isset($filters['company_id']) && auth()->user()->branch_id) {
             $filters['branch_id'] = auth()->user()->branch_id;
         }
 
@@ -291,10 +347,11 @@ public function getPaymentsRequiringVerification(int $branchId = null)
     /**
      * Get payment statistics for dashboard
      */
-    public function getPaymentStatistics(int $branchId = null, Carbon $startDate = null, Carbon $endDate = null): array
+    public function getPaymentStatistics(int $branchId = null, Carbon $startDate = null, Carbon $endDate = null, ?int $companyId = null): array
     {
-        $branchId = $branchId ?? auth()->user()->branch_id;
-        return $this->repository->getPaymentStatistics($branchId, $startDate, $endDate);
+        // Company-wide figures are only asked for explicitly; otherwise stay on the user's branch
+        $branchId = $branchId ?? ($companyId ? null : auth()->user()->branch_id);
+        return $this->repository->getPaymentStatistics($branchId, $startDate, $endDate, $companyId);
     }
 
     /**
@@ -309,10 +366,107 @@ public function getRecentPayments(int $branchId = null, int $limit = 10)
     /**
      * Get daily payment summary
      */
-    public function getDailyPaymentSummary(Carbon $date, int $branchId = null): array
+    public function getDailyPaymentSummary(Carbon $date, int $branchId = null, ?int $companyId = null): array
     {
-        $branchId = $branchId ?? auth()->user()->branch_id;
-        return $this->repository->getDailyPaymentSummary($date, $branchId);
+        $branchId = $branchId ?? ($companyId ? null : auth()->user()->branch_id);
+        return $this->repository->getDailyPaymentSummary($date, $branchId, $companyId);
+    }
+
+    /**
+     * Generate a payment receipt PDF, as an A5 page or an 80mm thermal slip
+     */
+    public function generateReceipt(int $paymentId, int $companyId, string $layout = 'a5'): string
+    {
+        $payment = $this->repository->find($paymentId);
+
+        if (!$payment) {
+            throw new \Exception('Payment not found.');
+        }
+
+        $payment->load(['invoice.customer', 'invoice.company', 'branch', 'customer', 'receivedBy']);
+
+        if (!$payment->invoice || $payment->invoice->company_id !== $companyId) {
+            throw new \Exception('Payment not found.');
+        }
+
+        $invoice = $payment->invoice;
+
+        // The receipt is handed over before verification, so this payment counts towards the balance
+        $paidBefore = $this->repository->getTotalPaidBefore($payment);
+        $totalCredited = $invoice->total_credited;
+
+        $data = [
+            'payment' => $payment,
+            'invoice' => $invoice,
+            'customer' => $payment->customer ?? $invoice->customer,
+            'company' => $invoice->company,
+            'branch' => $payment->branch,
+            'amountInWords' => $this->amountInWords(abs($payment->amount)),
+            'paidBefore' => $paidBefore,
+            'totalCredited' => $totalCredited,
+            'balanceAfter' => max(0, $invoice->total_amount - $totalCredited - $paidBefore - $payment->amount),
+        ];
+
+        if ($layout === 'thermal') {
+            return Pdf::loadView('pdf.payment-receipt-thermal', $data)
+                ->setPaper([0, 0, self::THERMAL_WIDTH_PT, 420])
+                ->output();
+        }
+
+        return Pdf::loadView('pdf.payment-receipt', $data)
+            ->setPaper('a5', 'landscape')
+            ->output();
+    }
+
+    /**
+     * Spell out a rupee amount, e.g. "Rupees One Thousand Two Hundred and Fifty and Cents Fifty Only"
+     */
+    private function amountInWords(float $amount): string
+    {
+        $rupees = (int) floor(round($amount, 2));
+        $cents = (int) round(($amount - $rupees) * 100);
+
+        $words = 'Rupees ' . ($rupees > 0 ? $this->numberToWords($rupees) : 'Zero');
+
+        if ($cents > 0) {
+            $words .= ' and Cents ' . $this->numberToWords($cents);
+        }
+
+        return $words . ' Only';
+    }
+
+    private function numberToWords(int $number): string
+    {
+        $ones = [
+            '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+            'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+        ];
+        $tens = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+        if ($number < 20) {
+            return $ones[$number];
+        }
+
+        if ($number < 100) {
+            return trim($tens[intdiv($number, 10)] . ' ' . $ones[$number % 10]);
+        }
+
+        if ($number < 1000) {
+            $rest = $number % 100;
+
+            return $ones[intdiv($number, 100)] . ' Hundred' . ($rest ? ' and ' . $this->numberToWords($rest) : '');
+        }
+
+        foreach ([1000000000 => 'Billion', 1000000 => 'Million', 1000 => 'Thousand'] as $scale => $name) {
+            if ($number >= $scale) {
+                $rest = $number % $scale;
+
+                return $this->numberToWords(intdiv($number, $scale)) . ' ' . $name
+                    . ($rest ? ($rest < 100 ? ' and ' : ' ') . $this->numberToWords($rest) : '');
+            }
+        }
+
+        return '';
     }
 
     /**
@@ -365,12 +519,8 @@ private function uploadBankSlip(UploadedFile $file, int $invoiceId): string
      */
     private function updateInvoicePaymentStatus(int $invoiceId): void
     {
-        $invoice = Invoice::findOrFail($invoiceId);
-        $totalPaid = $this->repository->getTotalPaidForInvoice($invoiceId);
-
-        $paymentStatus = $this->determinePaymentStatus($invoice->total_amount, $totalPaid);
-        
-        $invoice->update(['payment_status' => $paymentStatus]);
+        // The invoice takes issued credit notes into account as well
+        Invoice::findOrFail($invoiceId)->updatePaymentStatus();
     }
 
     /**
@@ -0,0 +1,120 @@
+<?php
+// app/Services/PriceListService.php
+
+namespace App\Services;
+
+use App\Models\Customer;
+use App\Models\PriceList;
+use App\Repositories\PriceListRepository;
+use Illuminate\Support\Facades\DB;
+
+class PriceListService extends BaseService
+{
+    public function __construct(PriceListRepository $repository)
+    {
+        parent::__construct($repository);
+    }
+
+    /**
+     * Create a price list with its product rows and assigned customers
+     */
+    public function createPriceList(array $data, int $companyId): PriceList
+    {
+        try {
+            return DB::transaction(function () use ($data, $companyId) {
+                $priceList = $this->repository->create(array_merge($this->priceListAttributes($data), [
+                    'company_id' => $companyId,
+                    'created_by' => auth()->id(),
+                ]));
+
+                $this->syncItems($priceList, $data['items'] ?? []);
+                $this->syncCustomers($priceList, $data['customer_ids'] ?? []);
+
+                return $priceList;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'price list creation');
+            throw $e;
+        }
+    }
+
+    public function updatePriceList(PriceList $priceList, array $data): bool
+    {
+        try {
+            return DB::transaction(function () use ($priceList, $data) {
+                $priceList->update($this->priceListAttributes($data));
+
+                $this->syncItems($priceList, $data['items'] ?? []);
+                $this->syncCustomers($priceList, $data['customer_ids'] ?? []);
+
+                return true;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'price list update');
+            throw $e;
+        }
+    }
+
+    /**
+     * Delete a price list; its customers go back to standard pricing
+     */
+    public function deletePriceList(PriceList $priceList): bool
+    {
+        try {
+            return DB::transaction(function () use ($priceList) {
+                $priceList->customers()->update(['price_list_id' => null]);
+
+                return $priceList->delete();
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'price list deletion');
+            throw $e;
+        }
+    }
+
+    private function priceListAttributes(array $data): array
+    {
+        return [
+            'name' => $data['name'],
+            'description' => $data['description'] ?? null,
+            'customer_type' => $data['customer_type'] ?? null,
+            'valid_from' => $data['valid_from'] ?? null,
+            'valid_until' => $data['valid_until'] ?? null,
+            'is_active' => $data['is_active'] ?? true,
+        ];
+    }
+
+    /**
+     * Replace the list's rows; a repeated product and minimum quantity keeps the last price entered
+     */
+    private function syncItems(PriceList $priceList, array $items): void
+    {
+        $rows = collect($items)
+            ->keyBy(fn($item) => $item['product_id'] . ':' . (int) ($item['min_quantity'] ?? 1))
+            ->map(fn($item) => [
+                'product_id' => (int) $item['product_id'],
+                'min_quantity' => max(1, (int) ($item['min_quantity'] ?? 1)),
+                'unit_price' => round((float) $item['unit_price'], 2),
+            ])
+            ->values();
+
+        $priceList->items()->delete();
+        $priceList->items()->createMany($rows->all());
+    }
+
+    /**
+     * Assign exactly these customers to the list; a customer moves here from any other list
+     */
+    private function syncCustomers(PriceList $priceList, array $customerIds): void
+    {
+        Customer::where('price_list_id', $priceList->id)
+            ->whereNotIn('id', $customerIds)
+            ->update(['price_list_id' => null]);
+
+        if (!empty($customerIds)) {
+            Customer::where('company_id', $priceList->company_id)
+                ->whereIn('id', $customerIds)
+                ->update(['price_list_id' => $priceList->id]);
+        }
+    }
+}
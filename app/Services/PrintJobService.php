@@ -4,24 +4,31 @@
 namespace App\Services;
 
 use App\Models\PrintJob;
+use App\Models\PrintJobTemplate;
 use App\Models\Invoice;
 use App\Repositories\PrintJobRepository;
+use App\Repositories\PrintJobTemplateRepository;
 use App\Repositories\ProductionStageRepository;
 use App\Events\PrintJobCreated;
 use App\Events\ProductionStageUpdated;
+use Illuminate\Http\UploadedFile;
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Auth;
+use Illuminate\Support\Facades\Storage;
 
 class PrintJobService extends BaseService
 {
     protected ProductionStageRepository $stageRepository;
+    protected PrintJobTemplateRepository $templateRepository;
 
     public function __construct(
         PrintJobRepository $repository,
-        ProductionStageRepository $stageRepository
+        ProductionStageRepository $stageRepository,
+        PrintJobTemplateRepository $templateRepository
     ) {
         parent::__construct($repository);
         $this->stageRepository = $stageRepository;
+        $this->templateRepository = $templateRepository;
     }
 
     
@@ -114,12 +121,12 @@ public function startProduction(PrintJob $printJob): bool
 }
 
 /**
- * Create default production stages for print job
+ * Create production stages for print job, from a template's stage plan or the job type defaults
  */
-private function createProductionStages(PrintJob $printJob): void
+private function createProductionStages(PrintJob $printJob, ?array $stages = null): void
 {
     try {
-        $defaultStages = $this->getDefaultStagesForJobType($printJob->job_type);
+        $defaultStages = $stages ?: $this->getDefaultStagesForJobType($printJob->job_type);
         
         foreach ($defaultStages as $index => $stage) {
             $this->stageRepository->create([
@@ -243,33 +250,23 @@ public function createManualJob(array $data): PrintJob
  */
 public function createStandaloneJob(array $data): PrintJob
 {
+    if (!empty($data['template_id'])) {
+        // Values from the form win; the template fills in whatever was left empty
+        return $this->createFromTemplate(
+            (int) $data['template_id'],
+            array_filter($this->standaloneJobAttributes($data), fn($value) => $value !== null)
+        );
+    }
+
     try {
         return DB::transaction(function () use ($data) {
             $user = auth()->user();
-            $branchId = $data['branch_id'] ?? $user->branch_id;
-            $jobNumber = $this->generateJobNumber($branchId);
-            
-            $printJobData = [
-                'invoice_id' => null, // Standalone job
-                'branch_id' => $branchId,
-                'company_id' => $user->company_id,
-                'job_number' => $jobNumber,
-                'job_type' => $data['job_type'],
-                'job_title' => $data['job_title'] ?? null,
-                'job_description' => $data['description'] ?? null,
-                'specifications' => $this->formatManualSpecifications($data),
-                'production_status' => 'pending',
-                'priority' => $data['priority'] ?? 'normal',
-                'assigned_to' => $data['assigned_to'] ?? null,
-                'estimated_completion' => $data['estimated_completion'] 
-                    ? \Carbon\Carbon::parse($data['estimated_completion'])
-                    : $this->estimateCompletionForJobType($data['job_type']),
-                'customer_instructions' => $data['customer_instructions'] ?? null,
-                'estimated_cost' => $data['estimated_cost'] ?? null,
-                'customer_id' => $data['customer_id'] ?? null,
-                'design_files' => $data['design_files'] ?? null,
-                'created_by' => $user->id,
-            ];
+            $printJobData = $this->standaloneJobAttributes($data);
+
+            $printJobData['job_number'] = $this->generateJobNumber($printJobData['branch_id']);
+            $printJobData['company_id'] = $user->company_id;
+            $printJobData['production_status'] = 'pending';
+            $printJobData['estimated_completion'] ??= $this->estimateCompletionForJobType($data['job_type']);
 
             $printJob = $this->repository->create($printJobData);
 
@@ -287,6 +284,31 @@ public function createStandaloneJob(array $data): PrintJob
     }
 }
 
+/**
+ * Map the standalone job form onto print job columns
+ */
+private function standaloneJobAttributes(array $data): array
+{
+    return [
+        'invoice_id' => null, // Standalone job
+        'branch_id' => $data['branch_id'] ?? auth()->user()->branch_id,
+        'job_type' => $data['job_type'],
+        'job_title' => $data['job_title'] ?? null,
+        'job_description' => $data['description'] ?? null,
+        'specifications' => $this->formatManualSpecifications($data),
+        'priority' => $data['priority'] ?? 'normal',
+        'assigned_to' => $data['assigned_to'] ?? null,
+        'estimated_completion' => !empty($data['estimated_completion'])
+            ? \Carbon\Carbon::parse($data['estimated_completion'])
+            : null,
+        'customer_instructions' => $data['customer_instructions'] ?? null,
+        'estimated_cost' => $data['estimated_cost'] ?? null,
+        'customer_id' => $data['customer_id'] ?? null,
+        'design_files' => $this->storeDesignFiles($data['design_files'] ?? []),
+        'created_by' => auth()->id(),
+    ];
+}
+
 /**
  * Create print job from invoice with override data
  */
@@ -315,7 +337,7 @@ public function createFromInvoice(\App\Models\Invoice $invoice, array $overrideD
                     ? \Carbon\Carbon::parse($overrideData['estimated_completion'])
                     : $this->estimateCompletion($invoice),
                 'customer_instructions' => $overrideData['customer_instructions'] ?? $invoice->notes,
-                'design_files' => $overrideData['design_files'] ?? null,
+                'design_files' => $this->storeDesignFiles($overrideData['design_files'] ?? []),
                 'created_by' => auth()->id(),
             ];
 
@@ -516,19 +538,23 @@ public function createFromTemplate(int $templateId, array $overrideData = []): P
             $branchId = $overrideData['branch_id'] ?? $user->branch_id;
             $jobNumber = $this->generateJobNumber($branchId);
             
-            $printJobData = array_merge($template, [
+            $printJobData = array_merge($template->toPrintJobAttributes(), [
                 'job_number' => $jobNumber,
                 'branch_id' => $branchId,
                 'company_id' => $user->company_id,
                 'created_by' => $user->id,
                 'production_status' => 'pending',
-                'estimated_completion' => $this->estimateCompletionForJobType($template['job_type']),
+                'estimated_completion' => $template->estimated_hours
+                    ? now()->addHours($template->estimated_hours)
+                    : $this->estimateCompletionForJobType($overrideData['job_type'] ?? $template->job_type),
             ], $overrideData);
 
             $printJob = $this->repository->create($printJobData);
 
-            // Create production stages
-            $this->createProductionStages($printJob);
+            // Create production stages from the template's plan
+            $this->createProductionStages($printJob, $template->default_stages);
+
+            $template->markUsed();
 
             // Fire event
             event(new \App\Events\PrintJobCreated($printJob));
@@ -542,40 +568,13 @@ public function createFromTemplate(int $templateId, array $overrideData = []): P
 }
 
 /**
- * Get job template by ID
+ * Get an active job template from the user's company
  */
-private function getJobTemplate(int $templateId): ?array
+private function getJobTemplate(int $templateId): ?PrintJobTemplate
 {
-    // This could be stored in database or config
-    $templates = [
-        1 => [
-            'job_type' => 'business_cards',
-            'job_title' => 'Standard Business Cards',
-            'specifications' => [
-                'size' => '3.5" x 2"',
-                'material' => '350gsm Card Stock',
-                'finish' => 'Matte',
-                'colors' => 'Full Color (CMYK)',
-                'quantity' => 500,
-            ],
-            'priority' => 'normal',
-        ],
-        2 => [
-            'job_type' => 'flyers',
-            'job_title' => 'A4 Flyers',
-            'specifications' => [
-                'size' => 'A4 (210mm x 297mm)',
-                'material' => '150gsm Gloss Paper',
-                'finish' => 'Gloss',
-                'colors' => 'Full Color (CMYK)',
-                'sides' => 'Single sided',
-            ],
-            'priority' => 'normal',
-        ],
-        // Add more templates as needed
-    ];
-    
-    return $templates[$templateId] ?? null;
+    $template = $this->templateRepository->findForCompany($templateId, auth()->user()->company_id);
+
+    return $template && $template->is_active ? $template : null;
 }
 
 /**
@@ -624,6 +623,55 @@ public function duplicateJob(PrintJob $originalJob, array $overrideData = []): P
     }
 }
 
+    /**
+     * Update job details, adding uploaded design files and removing discarded ones
+     */
+    public function updateJob(PrintJob $printJob, array $data): bool
+    {
+        try {
+            return DB::transaction(function () use ($printJob, $data) {
+                $designFiles = collect($printJob->design_files ?? []);
+                // Only files already attached to this job may be removed
+                $removePaths = $designFiles->pluck('path')->intersect($data['remove_design_files'] ?? [])->values()->all();
+
+                if (!empty($removePaths)) {
+                    $designFiles = $designFiles->reject(fn($file) => in_array($file['path'] ?? null, $removePaths));
+                    Storage::disk('public')->delete($removePaths);
+                }
+
+                $newFiles = $this->storeDesignFiles($data['design_files'] ?? []) ?? [];
+
+                unset($data['design_files'], $data['remove_design_files']);
+                $data['design_files'] = $designFiles->values()->merge($newFiles)->all() ?: null;
+
+                return $this->repository->update($printJob->id, $data);
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'print job update');
+            throw $e;
+        }
+    }
+
+    /**
+     * Store uploaded design files in the same shape as PrintJob::addDesignFile
+     */
+    public function storeDesignFiles(array $files): ?array
+    {
+        $stored = collect($files)
+            ->filter(fn($file) => $file instanceof UploadedFile)
+            ->map(fn(UploadedFile $file) => [
+                'path' => $file->store('print-jobs/design-files', 'public'),
+                'name' => $file->getClientOriginalName(),
+                'size' => $file->getSize(),
+                'uploaded_at' => now()->toISOString(),
+                'uploaded_by' => Auth::id(),
+            ])
+            ->values()
+            ->all();
+
+        return empty($stored) ? null : $stored;
+    }
+
     /**
      * Assign print job to production staff
      */
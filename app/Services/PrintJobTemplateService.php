@@ -0,0 +1,152 @@
+<?php
+// app/Services/PrintJobTemplateService.php
+
+namespace App\Services;
+
+use App\Models\PrintJob;
+use App\Models\PrintJobTemplate;
+use App\Repositories\PrintJobTemplateRepository;
+use Illuminate\Support\Facades\DB;
+
+class PrintJobTemplateService extends BaseService
+{
+    public function __construct(PrintJobTemplateRepository $repository)
+    {
+        parent::__construct($repository);
+    }
+
+    /**
+     * Create a template from the library form
+     */
+    public function createTemplate(array $data, int $companyId): PrintJobTemplate
+    {
+        try {
+            return $this->create(array_merge($this->templateAttributes($data), [
+                'company_id' => $companyId,
+                'created_by' => auth()->id(),
+            ]));
+        } catch (\Exception $e) {
+            $this->handleException($e, 'print job template creation');
+            throw $e;
+        }
+    }
+
+    /**
+     * Save an existing job's setup, including its current stage plan, as a template
+     */
+    public function createFromPrintJob(PrintJob $printJob, array $data): PrintJobTemplate
+    {
+        try {
+            return DB::transaction(function () use ($printJob, $data) {
+                $printJob->loadMissing('productionStages');
+
+                $specifications = $printJob->specifications ?? [];
+                // Creation details recorded by the system belong to the job, not the template
+                unset($specifications['job_details']);
+
+                $stages = $printJob->productionStages
+                    ->reject(fn($stage) => $stage->stage_status === 'skipped')
+                    ->map(fn($stage) => [
+                        'name' => $stage->stage_name,
+                        'estimated_duration' => (int) $stage->estimated_duration,
+                        'requires_approval' => (bool) $stage->requires_customer_approval,
+                    ])
+                    ->values()
+                    ->all();
+
+                $estimatedHours = $printJob->started_at && $printJob->actual_completion
+                    ? max(1, (int) ceil($printJob->started_at->diffInMinutes($printJob->actual_completion) / 60))
+                    : null;
+
+                return $this->repository->create([
+                    'company_id' => $printJob->company_id,
+                    'customer_id' => !empty($data['keep_customer']) ? $printJob->customer_id : null,
+                    'name' => $data['name'],
+                    'job_type' => $printJob->job_type,
+                    'job_title' => $printJob->job_title,
+                    'job_description' => $printJob->job_description,
+                    'specifications' => $specifications ?: null,
+                    'material_requirements' => $printJob->material_requirements,
+                    'default_stages' => $stages ?: null,
+                    'priority' => $printJob->priority,
+                    'estimated_hours' => $estimatedHours,
+                    'estimated_cost' => $printJob->actual_cost ?? $printJob->estimated_cost,
+                    'special_instructions' => $printJob->special_instructions,
+                    'created_by' => auth()->id(),
+                ]);
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'saving print job as template');
+            throw $e;
+        }
+    }
+
+    /**
+     * Update a template from the library form
+     */
+    public function updateTemplate(PrintJobTemplate $template, array $data): bool
+    {
+        try {
+            return DB::transaction(function () use ($template, $data) {
+                // Go through the model so the json casts apply
+                return $template->update($this->templateAttributes($data));
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'print job template update');
+            throw $e;
+        }
+    }
+
+    /**
+     * Delete a template; jobs already created from it are unaffected
+     */
+    public function deleteTemplate(PrintJobTemplate $template): bool
+    {
+        try {
+            return $this->delete($template->id);
+        } catch (\Exception $e) {
+            $this->handleException($e, 'print job template deletion');
+            throw $e;
+        }
+    }
+
+    /**
+     * Map validated form input onto template columns
+     */
+    private function templateAttributes(array $data): array
+    {
+        return [
+            'name' => $data['name'],
+            'customer_id' => $data['customer_id'] ?? null,
+            'job_type' => $data['job_type'],
+            'job_title' => $data['job_title'] ?? null,
+            'job_description' => $data['job_description'] ?? null,
+            'specifications' => ($data['specifications'] ?? null) ?: null,
+            'material_requirements' => ($data['material_requirements'] ?? null) ?: null,
+            'default_stages' => $this->normalizeStages($data['default_stages'] ?? []),
+            'priority' => $data['priority'] ?? 'normal',
+            'estimated_hours' => $data['estimated_hours'] ?? null,
+            'estimated_cost' => $data['estimated_cost'] ?? null,
+            'special_instructions' => $data['special_instructions'] ?? null,
+            'is_active' => (bool) ($data['is_active'] ?? true),
+        ];
+    }
+
+    /**
+     * Keep the stage plan in the shape createProductionStages expects; an empty plan falls back to the job type defaults
+     */
+    private function normalizeStages(array $stages): ?array
+    {
+        $normalized = collect($stages)
+            ->filter(fn($stage) => !empty($stage['name']))
+            ->map(fn($stage) => [
+                'name' => $stage['name'],
+                'estimated_duration' => (int) ($stage['estimated_duration'] ?? 0),
+                'requires_approval' => filter_var($stage['requires_approval'] ?? false, FILTER_VALIDATE_BOOLEAN),
+            ])
+            ->values()
+            ->all();
+
+        return $normalized ?: null;
+    }
+}
@@ -3,17 +3,80 @@
 
 namespace App\Services;
 
+use App\Repositories\CustomerRepository;
 use App\Repositories\ProductRepository;
 use App\Repositories\ProductCategoryRepository;
 use App\Repositories\WeightPricingTierRepository;
 use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\Validator;
 
 class ProductCatalogService
 {
+    /**
+     * Product columns read from an import file
+     */
+    private const IMPORT_ATTRIBUTES = [
+        'product_code',
+        'name',
+        'description',
+        'category_id',
+        'base_price',
+        'unit_type',
+        'weight_per_unit',
+        'weight_unit',
+        'tax_rate',
+        'status',
+        'minimum_quantity',
+        'maximum_quantity',
+    ];
+
+    private const IMPORT_DEFAULTS = [
+        'unit_type' => 'piece',
+        'weight_unit' => 'kg',
+        'tax_rate' => 0,
+        'status' => 'active',
+        'minimum_quantity' => 1,
+    ];
+
+    private const IMPORT_HEADER_ALIASES = [
+        'code' => 'product_code',
+        'sku' => 'product_code',
+        'product_name' => 'name',
+        'price' => 'base_price',
+        'unit_price' => 'base_price',
+        'category_name' => 'category',
+        'category_id' => 'category',
+        'category_code' => 'category',
+        'weight' => 'weight_per_unit',
+        'tax' => 'tax_rate',
+        'min_quantity' => 'minimum_quantity',
+        'max_quantity' => 'maximum_quantity',
+    ];
+
+    private const WEIGHT_UNIT_ALIASES = [
+        'kgs' => 'kg',
+        'kilo' => 'kg',
+        'kilos' => 'kg',
+        'kilogram' => 'kg',
+        'kilograms' => 'kg',
+        'gm' => 'g',
+        'gms' => 'g',
+        'gr' => 'g',
+        'gram' => 'g',
+        'grams' => 'g',
+        'lbs' => 'lb',
+        'pound' => 'lb',
+        'pounds' => 'lb',
+        'ounce' => 'oz',
+        'ounces' => 'oz',
+    ];
+
     public function __construct(
         private ProductRepository $productRepository,
         private ProductCategoryRepository $categoryRepository,
-        private WeightPricingTierRepository $pricingTierRepository
+        private WeightPricingTierRepository $pricingTierRepository,
+        private CustomerRepository $customerRepository,
+        private ProductPricingService $productPricingService
     ) {}
 
     /**
@@ -33,9 +96,9 @@ public function getProductCatalog(int $companyId, array $filters = []): array
     }
 
     /**
-     * Calculate product pricing with delivery
+     * Calculate product pricing with delivery, at the customer's rate when one is given
      */
-    public function calculateProductPricing(int $productId, int $quantity, int $companyId): array
+    public function calculateProductPricing(int $productId, int $quantity, int $companyId, ?int $customerId = null): array
     {
         $product = $this->productRepository->findOrFail($productId);
         
@@ -43,8 +106,16 @@ public function calculateProductPricing(int $productId, int $quantity, int $comp
             throw new \Exception('Product not found in company catalog');
         }
 
+        $customer = $customerId ? $this->customerRepository->find($customerId) : null;
+
+        if ($customer && $customer->company_id !== $companyId) {
+            throw new \Exception('Customer not found in company');
+        }
+
+        $pricing = $this->productPricingService->resolveUnitPrice($product, $quantity, $customer);
+
         // Base product calculation
-        $baseCalculation = $product->calculatePrice($quantity);
+        $baseCalculation = $product->calculatePrice($quantity, $pricing['unit_price']);
         
         // Delivery calculation
         $deliveryCalculation = $this->pricingTierRepository->calculateDeliveryPrice(
@@ -61,7 +132,8 @@ public function calculateProductPricing(int $productId, int $quantity, int $comp
             'product' => [
                 'id' => $product->id,
                 'name' => $product->name,
-                'unit_price' => $product->base_price,
+                'unit_price' => $pricing['unit_price'],
+                'list_price' => $product->base_price,
                 'quantity' => $quantity,
                 'unit_weight' => $product->weight_per_unit,
             ],
@@ -74,6 +146,7 @@ public function calculateProductPricing(int $productId, int $quantity, int $comp
                 'delivery_tier' => $deliveryCalculation['tier']?->tier_name,
                 'total_amount' => $totalAmount,
             ],
+            'pricing_rule' => $pricing['rule'],
             'breakdown' => [
                 'product_total' => $baseCalculation['base_price'],
                 'tax_total' => $baseCalculation['tax_amount'],
@@ -178,47 +251,130 @@ private function getProductCatalogStats(int $companyId): array
     }
 
     /**
-     * Bulk import products from CSV
+     * Bulk import products from CSV, creating new product codes and updating existing ones.
+     * With $dryRun nothing is saved and each row reports the changes it would make.
      */
-    public function importProductsFromCsv(string $filePath, int $companyId): array
+    public function importProductsFromCsv(string $filePath, int $companyId, bool $dryRun = false): array
     {
-        $imported = 0;
-        $errors = [];
-        
         if (!file_exists($filePath)) {
             throw new \Exception('Import file not found');
         }
 
-        $csvData = array_map('str_getcsv', file($filePath));
-        $headers = array_shift($csvData);
-        
+        [$headers, $csvData] = $this->readCsv($filePath);
+
+        if (!in_array('product_code', $headers) && !in_array('name', $headers)) {
+            throw new \Exception('The file needs a "Product Code" or "Name" column.');
+        }
+
+        $categories = $this->categoryRepository->getForLookup($companyId);
+        $codeColumn = array_search('product_code', $headers);
+        $existing = $this->productRepository->getByCodes(
+            $codeColumn === false ? [] : collect($csvData)
+                ->map(fn($row) => $this->cleanProductCode($row[$codeColumn] ?? ''))
+                ->filter()
+                ->unique()
+                ->values()
+                ->all()
+        );
+
+        $seenCodes = [];
+        $rows = [];
+
         foreach ($csvData as $index => $row) {
-            try {
-                $data = array_combine($headers, $row);
-                $data['company_id'] = $companyId;
-                
-                // Generate product code if not provided
-                if (empty($data['product_code'])) {
-                    $data['product_code'] = $this->productRepository->generateUniqueCode($data['category_id']);
+            $rowNumber = $index + 2;
+            $data = $this->normalizeImportRow(array_combine($headers, array_pad(array_slice($row, 0, count($headers)), count($headers), '')));
+            $errors = [];
+
+            if (!empty($data['product_code']) && isset($seenCodes[$data['product_code']])) {
+                $errors[] = "Product code repeats row {$seenCodes[$data['product_code']]}.";
+            } elseif (!empty($data['product_code'])) {
+                $seenCodes[$data['product_code']] = $rowNumber;
+            }
+
+            $product = !empty($data['product_code']) ? $existing->get($data['product_code']) : null;
+
+            if ($product && ($product->company_id !== $companyId || $product->trashed())) {
+                $errors[] = 'Product code is already used by another or a deleted product.';
+                $product = null;
+            }
+
+            if (array_key_exists('category', $data)) {
+                $category = $this->matchCategory($categories, $data['category']);
+
+                if ($category && $category->status !== 'active' && $category->id !== $product?->category_id) {
+                    $errors[] = "Category \"{$category->name}\" is not active.";
+                } elseif ($category) {
+                    $data['category_id'] = $category->id;
+                } elseif ($data['category'] !== null) {
+                    $errors[] = "Category \"{$data['category']}\" was not found.";
                 }
-                
-                $this->productRepository->create($data);
-                $imported++;
-                
-            } catch (\Exception $e) {
-                $errors[] = "Row " . ($index + 2) . ": " . $e->getMessage();
+
+                unset($data['category']);
             }
+
+            // Blank cells leave existing values alone and fall back to defaults for new products
+            $changes = array_filter($data, fn($value) => $value !== null);
+            $attributes = $product
+                ? array_merge($product->only(self::IMPORT_ATTRIBUTES), $changes)
+                : array_merge(self::IMPORT_DEFAULTS, $changes);
+
+            if (empty($errors)) {
+                $errors = $this->validateImportRow($attributes);
+            }
+
+            $diff = $product ? $this->diffProduct($product, $changes) : [];
+            $action = match (true) {
+                !empty($errors) => 'error',
+                !$product => 'create',
+                empty($diff) => 'unchanged',
+                default => 'update',
+            };
+
+            if (!$dryRun && in_array($action, ['create', 'update'])) {
+                try {
+                    if ($action === 'create') {
+                        $attributes['company_id'] = $companyId;
+
+                        if (empty($attributes['product_code'])) {
+                            $attributes['product_code'] = $this->productRepository->generateUniqueCode($attributes['category_id']);
+                        }
+
+                        $product = $this->productRepository->create($attributes);
+                    } else {
+                        $this->productRepository->update($product->id, array_intersect_key($attributes, $diff));
+                    }
+                } catch (\Exception $e) {
+                    $action = 'error';
+                    $errors[] = 'Could not be saved: ' . $e->getMessage();
+                }
+            }
+
+            $rows[] = [
+                'row_number' => $rowNumber,
+                'action' => $action,
+                'product_id' => $product?->id,
+                'product_code' => $product?->product_code ?? ($data['product_code'] ?? null),
+                'name' => $attributes['name'] ?? null,
+                'changes' => $action === 'create' ? $this->describeNewProduct($attributes, $categories) : $this->describeDiff($diff, $categories),
+                'errors' => $errors,
+            ];
         }
-        
+
+        $counts = collect($rows)->countBy('action');
+
         return [
-            'imported' => $imported,
-            'errors' => $errors,
-            'total_rows' => count($csvData),
+            'dry_run' => $dryRun,
+            'total_rows' => count($rows),
+            'created' => $counts->get('create', 0),
+            'updated' => $counts->get('update', 0),
+            'unchanged' => $counts->get('unchanged', 0),
+            'failed' => $counts->get('error', 0),
+            'rows' => $rows,
         ];
     }
 
     /**
-     * Export products to CSV
+     * Export products to CSV. The columns match what importProductsFromCsv reads back.
      */
     public function exportProductsToCsv(int $companyId, array $filters = []): string
     {
@@ -233,6 +389,9 @@ public function exportProductsToCsv(int $companyId, array $filters = []): string
         }
         
         $file = fopen($filePath, 'w');
+
+        // Byte order mark so Excel reads Sinhala and Tamil names as UTF-8
+        fwrite($file, "\xEF\xBB\xBF");
         
         // Write headers
         fputcsv($file, [
@@ -241,9 +400,12 @@ public function exportProductsToCsv(int $companyId, array $filters = []): string
             'Description',
             'Category',
             'Base Price',
+            'Unit Type',
             'Weight Per Unit',
             'Weight Unit',
             'Tax Rate',
+            'Minimum Quantity',
+            'Maximum Quantity',
             'Status',
             'Created At',
         ]);
@@ -254,11 +416,14 @@ public function exportProductsToCsv(int $companyId, array $filters = []): string
                 $product->product_code,
                 $product->name,
                 $product->description,
-                $product->category->name,
+                $product->category?->name,
                 $product->base_price,
+                $product->unit_type,
                 $product->weight_per_unit,
                 $product->weight_unit,
                 $product->tax_rate,
+                $product->minimum_quantity,
+                $product->maximum_quantity,
                 $product->status,
                 $product->created_at->format('Y-m-d H:i:s'),
             ]);
@@ -269,6 +434,159 @@ public function exportProductsToCsv(int $companyId, array $filters = []): string
         return $filePath;
     }
 
+    /**
+     * Read the header row as snake_case keys ("Base Price" becomes base_price) and the data rows
+     */
+    private function readCsv(string $filePath): array
+    {
+        $handle = fopen($filePath, 'r');
+        $headers = fgetcsv($handle) ?: [];
+        $rows = [];
+
+        while (($row = fgetcsv($handle)) !== false) {
+            if (count(array_filter($row, fn($cell) => trim((string) $cell) !== '')) > 0) {
+                $rows[] = $row;
+            }
+        }
+
+        fclose($handle);
+
+        $headers = array_map(function ($header) {
+            $key = trim(strtolower(preg_replace('/[^A-Za-z0-9]+/', '_', preg_replace('/^\xEF\xBB\xBF/', '', (string) $header))), '_');
+
+            return self::IMPORT_HEADER_ALIASES[$key] ?? $key;
+        }, $headers);
+
+        return [$headers, $rows];
+    }
+
+    private function normalizeImportRow(array $row): array
+    {
+        $data = [];
+
+        // Categories are matched by name or code so a raw category_id from another company can't slip in
+        foreach (array_merge(array_diff(self::IMPORT_ATTRIBUTES, ['category_id']), ['category']) as $field) {
+            if (!array_key_exists($field, $row)) {
+                continue;
+            }
+
+            $value = trim((string) $row[$field]);
+            $data[$field] = $value === '' ? null : $value;
+        }
+
+        if (isset($data['product_code'])) {
+            $data['product_code'] = $this->cleanProductCode($data['product_code']);
+        }
+
+        foreach (['base_price', 'weight_per_unit', 'tax_rate'] as $field) {
+            if (isset($data[$field])) {
+                $data[$field] = preg_replace('/^rs\.?\s*|,|%/i', '', $data[$field]);
+            }
+        }
+
+        if (isset($data['weight_unit'])) {
+            $unit = strtolower(rtrim($data['weight_unit'], '.'));
+            $data['weight_unit'] = self::WEIGHT_UNIT_ALIASES[$unit] ?? $unit;
+        }
+
+        foreach (['unit_type', 'status'] as $field) {
+            if (isset($data[$field])) {
+                $data[$field] = str_replace(' ', '_', strtolower($data[$field]));
+            }
+        }
+
+        return $data;
+    }
+
+    private function cleanProductCode(?string $code): string
+    {
+        return strtoupper(preg_replace('/[^A-Za-z0-9_-]/', '', trim((string) $code)));
+    }
+
+    /**
+     * Match a category cell against the company's category names and codes, ignoring case
+     */
+    private function matchCategory(Collection $categories, ?string $value): mixed
+    {
+        if ($value === null) {
+            return null;
+        }
+
+        $needle = mb_strtolower(trim($value));
+
+        return $categories->first(fn($category) => mb_strtolower($category->name) === $needle)
+            ?? $categories->first(fn($category) => mb_strtolower((string) $category->code) === $needle);
+    }
+
+    private function validateImportRow(array $attributes): array
+    {
+        $validator = Validator::make($attributes, [
+            'category_id' => 'required|integer',
+            'name' => 'required|string|min:2|max:255',
+            'description' => 'nullable|string|max:2000',
+            'base_price' => 'required|numeric|min:0.01|max:9999999.99',
+            'unit_type' => 'required|in:piece,sheet,roll,meter,square_meter,kilogram,gram,pound,liter,milliliter',
+            'weight_per_unit' => 'required|numeric|min:0.001|max:99999.999',
+            'weight_unit' => 'required|in:kg,g,lb,oz',
+            'tax_rate' => 'nullable|numeric|min:0|max:100',
+            'status' => 'required|in:active,inactive',
+            'minimum_quantity' => 'nullable|integer|min:1|max:999999',
+            'maximum_quantity' => 'nullable|integer|min:1|max:999999|gte:minimum_quantity',
+        ], [
+            'category_id.required' => 'Category is required for new products.',
+        ]);
+
+        return $validator->fails() ? $validator->errors()->all() : [];
+    }
+
+    /**
+     * Fields whose imported value differs from the product, compared as numbers where the column is numeric
+     */
+    private function diffProduct($product, array $changes): array
+    {
+        $diff = [];
+
+        foreach ($changes as $field => $value) {
+            if ($field === 'product_code') {
+                continue;
+            }
+
+            $current = $product->{$field};
+            $same = is_numeric($current) && is_numeric($value)
+                ? (float) $current === (float) $value
+                : (string) $current === (string) $value;
+
+            if (!$same) {
+                $diff[$field] = ['from' => $current, 'to' => $value];
+            }
+        }
+
+        return $diff;
+    }
+
+    private function describeDiff(array $diff, Collection $categories): array
+    {
+        if (isset($diff['category_id'])) {
+            $diff['category_id'] = [
+                'from' => $categories->firstWhere('id', $diff['category_id']['from'])?->name,
+                'to' => $categories->firstWhere('id', $diff['category_id']['to'])?->name,
+            ];
+        }
+
+        return $diff;
+    }
+
+    private function describeNewProduct(array $attributes, Collection $categories): array
+    {
+        $attributes['category_id'] = $categories->firstWhere('id', $attributes['category_id'] ?? null)?->name;
+
+        return collect($attributes)
+            ->except(['product_code'])
+            ->filter(fn($value) => $value !== null)
+            ->map(fn($value) => ['from' => null, 'to' => $value])
+            ->all();
+    }
+
     /**
      * Get category tree with product counts
      */
@@ -0,0 +1,111 @@
+<?php
+// app/Services/ProductPricingService.php
+
+namespace App\Services;
+
+use App\Models\Customer;
+use App\Models\PriceList;
+use App\Models\Product;
+use App\Repositories\PriceListRepository;
+use Illuminate\Support\Collection;
+
+/**
+ * Works out the unit price for a product line. The first rule that covers the product wins:
+ * the customer's own price list, then lists for the customer's type, then the product's
+ * quantity breaks, then its base price. resources/js/lib/product-pricing.ts mirrors this.
+ */
+class ProductPricingService
+{
+    /** @var array<int, Collection> current price lists per company, loaded once per request */
+    private array $currentLists = [];
+
+    public function __construct(
+        private PriceListRepository $priceListRepository
+    ) {}
+
+    /**
+     * @return array{unit_price: float, rule: array{type: string, label: string, price_list_id: int|null}}
+     */
+    public function resolveUnitPrice(Product $product, float $quantity, ?Customer $customer = null): array
+    {
+        if ($customer) {
+            $lists = $this->currentLists($product->company_id);
+
+            $assigned = $customer->price_list_id ? $lists->firstWhere('id', $customer->price_list_id) : null;
+            $item = $assigned?->itemFor($product->id, $quantity);
+
+            if ($item) {
+                return $this->result($item->unit_price, 'customer_price_list', $this->listLabel($assigned, $item->min_quantity), $assigned->id);
+            }
+
+            // Several lists can cover a customer type; the customer gets the lowest of their prices
+            $groupMatch = $lists
+                ->filter(fn(PriceList $list) => $list->customer_type && $list->customer_type === $customer->customer_type)
+                ->map(fn(PriceList $list) => ['list' => $list, 'item' => $list->itemFor($product->id, $quantity)])
+                ->filter(fn($match) => $match['item'] !== null)
+                ->sortBy(fn($match) => (float) $match['item']->unit_price)
+                ->first();
+
+            if ($groupMatch) {
+                return $this->result(
+                    $groupMatch['item']->unit_price,
+                    'group_price_list',
+                    $this->listLabel($groupMatch['list'], $groupMatch['item']->min_quantity),
+                    $groupMatch['list']->id
+                );
+            }
+        }
+
+        $break = $product->getPriceBreakFor($quantity);
+
+        if ($break) {
+            return $this->result($break['unit_price'], 'quantity_break', "Quantity break: {$break['min_quantity']}+ units");
+        }
+
+        return $this->result($product->base_price, 'base_price', 'Base price');
+    }
+
+    /**
+     * Normalise quantity breaks into the products.pricing_tiers shape; each break runs up to the next one
+     */
+    public function normalizePriceBreaks(array $breaks): ?array
+    {
+        $sorted = collect($breaks)
+            ->map(fn($break) => [
+                'min_quantity' => (int) $break['min_quantity'],
+                'unit_price' => round((float) $break['unit_price'], 2),
+            ])
+            ->sortBy('min_quantity')
+            ->values();
+
+        $tiers = $sorted->map(fn($break, $index) => [
+            'min_quantity' => $break['min_quantity'],
+            'max_quantity' => isset($sorted[$index + 1]) ? $sorted[$index + 1]['min_quantity'] - 1 : null,
+            'unit_price' => $break['unit_price'],
+        ]);
+
+        return $tiers->isEmpty() ? null : $tiers->all();
+    }
+
+    private function currentLists(int $companyId): Collection
+    {
+        return $this->currentLists[$companyId] ??= $this->priceListRepository->getCurrentForCompany($companyId)->toBase();
+    }
+
+    private function listLabel(PriceList $priceList, int $minQuantity): string
+    {
+        return $minQuantity > 1 ? "{$priceList->name} ({$minQuantity}+ units)" : $priceList->name;
+    }
+
+    private function result(mixed $unitPrice, string $type, string $label, ?int $priceListId = null): array
+    {
+        return [
+            'unit_price' => round((float) $unitPrice, 2),
+            'rule' => [
+                'type' => $type,
+                'label' => $label,
+                'price_list_id' => $priceListId,
+            ],
+        ];
+    }
+}
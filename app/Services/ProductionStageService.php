@@ -8,10 +8,17 @@
 use App\Repositories\ProductionStageRepository;
 use App\Events\ProductionStageUpdated;
 use App\Events\PrintJobCompleted;
+use Illuminate\Http\UploadedFile;
 use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\URL;
 
 class ProductionStageService extends BaseService
 {
+    /**
+     * Days a customer approval link stays valid
+     */
+    public const CUSTOMER_LINK_DAYS = 14;
+
     public function __construct(ProductionStageRepository $repository)
     {
         parent::__construct($repository);
@@ -47,6 +54,8 @@ public function completeStage(ProductionStage $stage, int $userId, ?string $note
             $updated = $this->repository->update($stage->id, $updateData);
 
             if ($updated) {
+                $this->broadcastStageUpdate($stage);
+
                 // Auto-advance to next stage
                 $this->advanceToNextStage($stage->fresh(), $userId);
                 
@@ -65,7 +74,7 @@ public function completeStage(ProductionStage $stage, int $userId, ?string $note
 /**
  * Approve stage with auto-advance
  */
-public function approveStage(ProductionStage $stage, int $userId, ?string $notes = null): bool
+public function approveStage(ProductionStage $stage, ?int $userId, ?string $notes = null): bool
 {
     try {
         return DB::transaction(function () use ($stage, $userId, $notes) {
@@ -91,6 +100,8 @@ public function approveStage(ProductionStage $stage, int $userId, ?string $notes
             $updated = $this->repository->update($stage->id, $updateData);
 
             if ($updated) {
+                $this->broadcastStageUpdate($stage);
+
                 // Auto-advance to next stage after approval
                 $this->advanceToNextStage($stage->fresh(), $userId);
                 
@@ -109,7 +120,7 @@ public function approveStage(ProductionStage $stage, int $userId, ?string $notes
 /**
  * Enhanced auto-advance to next stage
  */
-private function advanceToNextStage(ProductionStage $currentStage, int $userId): void
+private function advanceToNextStage(ProductionStage $currentStage, ?int $userId): void
 {
     try {
         $nextStage = $this->repository->getNextStage(
@@ -154,6 +165,21 @@ private function advanceToNextStage(ProductionStage $currentStage, int $userId):
     }
 }
 
+/**
+ * Broadcast the stage's new state to the production channels
+ */
+private function broadcastStageUpdate(ProductionStage $stage): void
+{
+    try {
+        event(new ProductionStageUpdated($stage->fresh()));
+    } catch (\Exception $e) {
+        \Log::warning('Failed to fire ProductionStageUpdated event', [
+            'stage_id' => $stage->id,
+            'error' => $e->getMessage()
+        ]);
+    }
+}
+
 /**
  * Check if print job is completed
  */
@@ -226,7 +252,13 @@ public function startStage(ProductionStage $stage, int $userId, ?string $notes =
             $updateData['notes'] = ($stage->notes ?? '') . "\n" . now()->format('Y-m-d H:i:s') . ": Started - " . $notes;
         }
 
-        return $this->repository->update($stage->id, $updateData);
+        $updated = $this->repository->update($stage->id, $updateData);
+
+        if ($updated) {
+            $this->broadcastStageUpdate($stage);
+        }
+
+        return $updated;
     } catch (\Exception $e) {
         $this->handleException($e, 'stage start');
         throw $e;
@@ -348,7 +380,7 @@ public function getStageAnalytics(int $companyId, ?int $branchId = null, ?string
     /**
      * Reject stage
      */
-    public function rejectStage(ProductionStage $stage, int $userId, string $reason): bool
+    public function rejectStage(ProductionStage $stage, ?int $userId, string $reason): bool
     {
         try {
             if (!in_array($stage->stage_status, ['in_progress', 'requires_approval'])) {
@@ -357,12 +389,19 @@ public function rejectStage(ProductionStage $stage, int $userId, string $reason)
 
             $updateData = [
                 'stage_status' => 'rejected',
+                'approval_status' => 'rejected',
                 'rejection_reason' => $reason,
                 'updated_by' => $userId,
                 'notes' => $stage->notes . "\n" . now()->format('Y-m-d H:i:s') . ": Rejected - " . $reason
             ];
 
-            return $this->repository->update($stage->id, $updateData);
+            $updated = $this->repository->update($stage->id, $updateData);
+
+            if ($updated) {
+                $this->broadcastStageUpdate($stage);
+            }
+
+            return $updated;
         } catch (\Exception $e) {
             $this->handleException($e, 'stage rejection');
             throw $e;
@@ -375,7 +414,7 @@ public function rejectStage(ProductionStage $stage, int $userId, string $reason)
     public function holdStage(ProductionStage $stage, int $userId, string $reason): bool
     {
         try {
-            if (!in_array($stage->stage_status, ['pending', 'in_progress'])) {
+            if (!in_array($stage->stage_status, ['pending', 'ready', 'in_progress'])) {
                 throw new \Exception('Cannot put stage on hold in current status');
             }
 
@@ -385,7 +424,13 @@ public function holdStage(ProductionStage $stage, int $userId, string $reason):
                 'notes' => $stage->notes . "\n" . now()->format('Y-m-d H:i:s') . ": Put on hold - " . $reason
             ];
 
-            return $this->repository->update($stage->id, $updateData);
+            $updated = $this->repository->update($stage->id, $updateData);
+
+            if ($updated) {
+                $this->broadcastStageUpdate($stage);
+            }
+
+            return $updated;
         } catch (\Exception $e) {
             $this->handleException($e, 'stage hold');
             throw $e;
@@ -413,10 +458,113 @@ public function resumeStage(ProductionStage $stage, int $userId, ?string $notes
                 $updateData['notes'] = $stage->notes . "\n" . now()->format('Y-m-d H:i:s') . ": Resumed - " . $notes;
             }
 
-            return $this->repository->update($stage->id, $updateData);
+            $updated = $this->repository->update($stage->id, $updateData);
+
+            if ($updated) {
+                $this->broadcastStageUpdate($stage);
+            }
+
+            return $updated;
         } catch (\Exception $e) {
             $this->handleException($e, 'stage resume');
             throw $e;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Attach proof files to a stage; a stage the customer sent back goes out for approval again
+     */
+    public function addProofs(ProductionStage $stage, array $files, int $userId): bool
+    {
+        try {
+            return DB::transaction(function () use ($stage, $files, $userId) {
+                $attachments = $stage->attachments ?? [];
+
+                foreach ($files as $file) {
+                    /** @var UploadedFile $file */
+                    $attachments[] = [
+                        'path' => $file->store('production-stages/attachments', 'public'),
+                        'original_name' => $file->getClientOriginalName(),
+                        'size' => $file->getSize(),
+                        'mime_type' => $file->getClientMimeType(),
+                        'type' => 'proof',
+                        'uploaded_at' => now()->toISOString(),
+                        'uploaded_by' => $userId,
+                    ];
+                }
+
+                $updateData = [
+                    'attachments' => $attachments,
+                    'updated_by' => $userId,
+                ];
+
+                if ($stage->requires_customer_approval && $stage->stage_status === 'rejected') {
+                    $updateData['stage_status'] = 'requires_approval';
+                    $updateData['approval_status'] = null;
+                    $updateData['notes'] = ($stage->notes ?? '') . "\n" . now()->format('Y-m-d H:i:s') . ": New proof sent for approval";
+                }
+
+                $updated = $this->repository->update($stage->id, $updateData);
+
+                if ($updated) {
+                    $this->broadcastStageUpdate($stage);
+                }
+
+                return $updated;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'proof upload');
+            throw $e;
+        }
+    }
+
+    /**
+     * Record a customer's answer from the approval link and run the matching approve/reject action
+     */
+    public function recordCustomerResponse(ProductionStage $stage, string $decision, ?string $comments, ?string $respondentName, ?string $ipAddress): bool
+    {
+        try {
+            return DB::transaction(function () use ($stage, $decision, $comments, $respondentName, $ipAddress) {
+                if (!$stage->requires_customer_approval || $stage->stage_status !== 'requires_approval') {
+                    throw new \Exception('This stage is not waiting for your approval');
+                }
+
+                $this->repository->update($stage->id, [
+                    'stage_data' => array_merge($stage->stage_data ?? [], [
+                        'customer_response' => [
+                            'decision' => $decision,
+                            'comments' => $comments,
+                            'name' => $respondentName,
+                            'ip_address' => $ipAddress,
+                            'responded_at' => now()->toISOString(),
+                        ],
+                    ]),
+                ]);
+
+                $stage->refresh();
+                $by = $respondentName ? "Customer ({$respondentName})" : 'Customer';
+
+                if ($decision === 'approve') {
+                    return $this->approveStage($stage, null, $comments ? "{$by}: {$comments}" : $by);
+                }
+
+                return $this->rejectStage($stage, null, "{$by} requested changes: {$comments}");
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'customer approval response');
+            throw $e;
+        }
+    }
+
+    /**
+     * Signed, login-free link the customer uses to review a stage's proofs
+     */
+    public function customerApprovalUrl(ProductionStage $stage): string
+    {
+        return URL::temporarySignedRoute(
+            'customer-approvals.show',
+            now()->addDays(self::CUSTOMER_LINK_DAYS),
+            ['stage' => $stage->id]
+        );
+    }
+}
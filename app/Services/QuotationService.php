@@ -0,0 +1,274 @@
+<?php
+// app/Services/QuotationService.php
+
+namespace App\Services;
+
+use App\Models\Invoice;
+use App\Models\Quotation;
+use App\Models\QuotationItem;
+use App\Repositories\BranchRepository;
+use App\Repositories\CustomerRepository;
+use App\Repositories\ProductRepository;
+use App\Repositories\QuotationRepository;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+
+class QuotationService extends BaseService
+{
+    public function __construct(
+        QuotationRepository $repository,
+        private CustomerRepository $customerRepository,
+        private BranchRepository $branchRepository,
+        private ProductRepository $productRepository,
+        private ProductPricingService $productPricingService,
+        private InvoiceService $invoiceService
+    ) {
+        parent::__construct($repository);
+    }
+
+    /**
+     * Create a quotation with its line items
+     */
+    public function createQuotation(array $data, int $companyId, int $userId): Quotation
+    {
+        try {
+            return DB::transaction(function () use ($data, $companyId, $userId) {
+                $customer = $this->customerRepository->findOrFail($data['customer_id']);
+                if ($customer->company_id !== $companyId) {
+                    throw new \Exception('Customer not found in company.');
+                }
+
+                $branch = $this->branchRepository->findOrFail($data['branch_id']);
+                if ($branch->company_id !== $companyId) {
+                    throw new \Exception('Branch not found in company.');
+                }
+
+                $quotationDate = $data['quotation_date'] ?? now()->toDateString();
+
+                $quotation = $this->repository->create([
+                    'company_id' => $companyId,
+                    'branch_id' => $data['branch_id'],
+                    'customer_id' => $data['customer_id'],
+                    'created_by' => $userId,
+                    'quotation_number' => $this->repository->generateQuotationNumber($data['branch_id']),
+                    'quotation_date' => $quotationDate,
+                    'valid_until' => $data['valid_until'] ?? Carbon::parse($quotationDate)->addDays(14)->toDateString(),
+                    'discount_amount' => $data['discount_amount'] ?? 0,
+                    'notes' => $data['notes'] ?? null,
+                    'terms_conditions' => $data['terms_conditions'] ?? null,
+                ]);
+
+                $this->addItems($quotation, $data['items'] ?? []);
+                $this->calculateTotals($quotation);
+
+                return $quotation;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'quotation creation');
+            throw $e;
+        }
+    }
+
+    /**
+     * Update an open quotation; its lines are replaced
+     */
+    public function updateQuotation(Quotation $quotation, array $data): Quotation
+    {
+        if (!$quotation->canBeModified()) {
+            throw new \Exception('Only draft and sent quotations can be edited.');
+        }
+
+        try {
+            return DB::transaction(function () use ($quotation, $data) {
+                $quotation->update(array_intersect_key($data, array_flip([
+                    'valid_until', 'discount_amount', 'notes', 'terms_conditions',
+                ])));
+
+                if (isset($data['items'])) {
+                    $quotation->items()->delete();
+                    $this->addItems($quotation, $data['items']);
+                }
+
+                $this->calculateTotals($quotation->refresh());
+
+                return $quotation;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'quotation update');
+            throw $e;
+        }
+    }
+
+    public function deleteQuotation(Quotation $quotation): bool
+    {
+        if (!$quotation->canBeDeleted()) {
+            throw new \Exception('Converted quotations cannot be deleted.');
+        }
+
+        return (bool) $quotation->delete();
+    }
+
+    public function markAsSent(Quotation $quotation): Quotation
+    {
+        if (!$quotation->canBeModified()) {
+            throw new \Exception('Only draft and sent quotations can be sent.');
+        }
+
+        $quotation->update(['status' => 'sent', 'sent_at' => now()]);
+
+        return $quotation;
+    }
+
+    public function accept(Quotation $quotation): Quotation
+    {
+        if (!$quotation->canBeAccepted()) {
+            throw new \Exception($quotation->is_expired
+                ? 'This quotation has expired. Extend its validity date before accepting it.'
+                : 'Only draft and sent quotations can be accepted.');
+        }
+
+        $quotation->update([
+            'status' => 'accepted',
+            'accepted_at' => now(),
+            'declined_at' => null,
+            'decline_reason' => null,
+        ]);
+
+        return $quotation;
+    }
+
+    public function decline(Quotation $quotation, ?string $reason = null): Quotation
+    {
+        if (!$quotation->canBeDeclined()) {
+            throw new \Exception('This quotation can no longer be declined.');
+        }
+
+        $quotation->update([
+            'status' => 'declined',
+            'declined_at' => now(),
+            'decline_reason' => $reason,
+        ]);
+
+        return $quotation;
+    }
+
+    /**
+     * Re-open a declined or expired quotation as a draft with a new validity date
+     */
+    public function reopen(Quotation $quotation, string $validUntil): Quotation
+    {
+        if (!in_array($quotation->effective_status, ['declined', 'expired'])) {
+            throw new \Exception('Only declined or expired quotations can be re-opened.');
+        }
+
+        $quotation->update([
+            'status' => 'draft',
+            'valid_until' => $validUntil,
+            'declined_at' => null,
+            'decline_reason' => null,
+        ]);
+
+        return $quotation;
+    }
+
+    /**
+     * Create an invoice carrying the quotation's lines, specifications, discount and terms at the quoted prices
+     */
+    public function convertToInvoice(Quotation $quotation, int $userId, array $options = []): Invoice
+    {
+        if (!$quotation->canBeConverted()) {
+            throw new \Exception($quotation->invoice_id
+                ? 'This quotation has already been converted.'
+                : 'Only accepted quotations that have not expired can be converted.');
+        }
+
+        try {
+            return DB::transaction(function () use ($quotation, $userId, $options) {
+                $quotation->load('items');
+
+                $invoice = $this->invoiceService->createInvoice([
+                    'customer_id' => $quotation->customer_id,
+                    'branch_id' => $quotation->branch_id,
+                    'invoice_date' => $options['invoice_date'] ?? now()->toDateString(),
+                    'due_date' => $options['due_date'] ?? null,
+                    'status' => $options['status'] ?? 'pending',
+                    'discount_amount' => $quotation->discount_amount,
+                    'notes' => $quotation->notes,
+                    'terms_conditions' => $quotation->terms_conditions,
+                    'items' => $quotation->items->map(fn (QuotationItem $item) => [
+                        'product_id' => $item->product_id,
+                        'item_description' => $item->item_description,
+                        'quantity' => (float) $item->quantity,
+                        'unit_price' => (float) $item->unit_price,
+                        'unit_weight' => (float) $item->unit_weight,
+                        'specifications' => $item->specifications,
+                    ])->all(),
+                ], $quotation->company_id, $userId);
+
+                $quotation->update([
+                    'status' => 'converted',
+                    'accepted_at' => $quotation->accepted_at ?? now(),
+                    'invoice_id' => $invoice->id,
+                    'converted_at' => now(),
+                ]);
+
+                return $invoice;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'quotation conversion');
+            throw $e;
+        }
+    }
+
+    /**
+     * Priced the same way as invoice lines, so the quote matches the invoice it becomes
+     */
+    private function addItems(Quotation $quotation, array $items): void
+    {
+        foreach ($items as $itemData) {
+            $product = $this->productRepository->findOrFail($itemData['product_id']);
+            if ($product->company_id !== $quotation->company_id) {
+                throw new \Exception("Product {$product->name} not found in company.");
+            }
+
+            $quantity = (float) $itemData['quantity'];
+            $unitPrice = $itemData['unit_price']
+                ?? $this->productPricingService->resolveUnitPrice($product, $quantity, $quotation->customer)['unit_price'];
+            $unitWeight = $itemData['unit_weight'] ?? $product->weight_per_unit ?? 0;
+            $lineTotal = $quantity * $unitPrice;
+
+            QuotationItem::create([
+                'quotation_id' => $quotation->id,
+                'product_id' => $product->id,
+                'item_description' => $itemData['item_description'] ?? $product->name,
+                'quantity' => $quantity,
+                'unit_price' => $unitPrice,
+                'unit_weight' => $unitWeight,
+                'line_total' => $lineTotal,
+                'line_weight' => $quantity * $unitWeight,
+                'tax_amount' => $lineTotal * ($product->tax_rate / 100),
+                'specifications' => $itemData['specifications'] ?? null,
+            ]);
+        }
+    }
+
+    private function calculateTotals(Quotation $quotation): void
+    {
+        $quotation->load(['items', 'company']);
+
+        $subtotal = $quotation->items->sum('line_total');
+        $totalWeight = $quotation->items->sum('line_weight');
+        $weightCharge = $this->invoiceService->calculateWeightCharge((float) $totalWeight, $quotation->company_id);
+
+        $taxableAmount = $subtotal + $weightCharge - $quotation->discount_amount;
+        $taxAmount = $taxableAmount * ($quotation->company->tax_rate ?? 0.12);
+
+        $quotation->update([
+            'subtotal' => $subtotal,
+            'total_weight' => $totalWeight,
+            'weight_charge' => $weightCharge,
+            'tax_amount' => $taxAmount,
+            'total_amount' => $subtotal + $weightCharge + $taxAmount - $quotation->discount_amount,
+        ]);
+    }
+}
@@ -0,0 +1,331 @@
+<?php
+// app/Services/RecurringInvoiceService.php
+
+namespace App\Services;
+
+use App\Models\Invoice;
+use App\Models\RecurringInvoiceProfile;
+use App\Models\RecurringInvoiceProfileItem;
+use App\Repositories\BranchRepository;
+use App\Repositories\CustomerRepository;
+use App\Repositories\ProductRepository;
+use App\Repositories\RecurringInvoiceProfileRepository;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+class RecurringInvoiceService extends BaseService
+{
+    // Missed runs generated for one profile in a single pass, so a long outage can't flood a customer
+    private const MAX_CATCH_UP_RUNS = 12;
+
+    public function __construct(
+        RecurringInvoiceProfileRepository $repository,
+        private CustomerRepository $customerRepository,
+        private BranchRepository $branchRepository,
+        private ProductRepository $productRepository,
+        private InvoiceService $invoiceService,
+        private InvoiceEmailService $invoiceEmailService
+    ) {
+        parent::__construct($repository);
+    }
+
+    /**
+     * Create a recurring invoice profile with its line items
+     */
+    public function createProfile(array $data, int $companyId, int $userId): RecurringInvoiceProfile
+    {
+        try {
+            return DB::transaction(function () use ($data, $companyId, $userId) {
+                $this->assertBelongsToCompany($data, $companyId);
+
+                $profile = $this->repository->create([
+                    'company_id' => $companyId,
+                    'branch_id' => $data['branch_id'],
+                    'customer_id' => $data['customer_id'],
+                    'created_by' => $userId,
+                    'name' => $data['name'],
+                    'recurring_period' => $data['recurring_period'],
+                    'start_date' => $data['start_date'],
+                    'end_date' => $data['end_date'] ?? null,
+                    'next_run_date' => $data['start_date'],
+                    'payment_terms_days' => $data['payment_terms_days'] ?? 30,
+                    'discount_amount' => $data['discount_amount'] ?? 0,
+                    'notes' => $data['notes'] ?? null,
+                    'terms_conditions' => $data['terms_conditions'] ?? null,
+                    'auto_send' => $data['auto_send'] ?? false,
+                ]);
+
+                $this->replaceItems($profile, $data['items']);
+
+                return $profile;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'recurring invoice profile creation');
+            throw $e;
+        }
+    }
+
+    /**
+     * Update a profile; its lines are replaced. Moving the start date of a profile
+     * that has not run yet moves its first run with it.
+     */
+    public function updateProfile(RecurringInvoiceProfile $profile, array $data, int $companyId): RecurringInvoiceProfile
+    {
+        if ($profile->status === 'ended') {
+            throw new \Exception('Ended profiles cannot be edited.');
+        }
+
+        try {
+            return DB::transaction(function () use ($profile, $data, $companyId) {
+                $this->assertBelongsToCompany($data, $companyId);
+
+                $updates = collect($data)->only([
+                    'branch_id', 'customer_id', 'name', 'recurring_period', 'start_date', 'end_date',
+                    'payment_terms_days', 'discount_amount', 'notes', 'terms_conditions', 'auto_send',
+                ])->all();
+
+                if (!$profile->last_run_at && isset($data['start_date'])) {
+                    if (Carbon::parse($data['start_date'])->lt(today())) {
+                        throw new \Exception('Start date cannot be in the past.');
+                    }
+
+                    $updates['next_run_date'] = $data['start_date'];
+                }
+
+                $profile->update($updates);
+
+                if ($profile->end_date && $profile->next_run_date && $profile->next_run_date->gt($profile->end_date)) {
+                    $profile->update(['next_run_date' => null, 'status' => 'ended']);
+                }
+
+                if (isset($data['items'])) {
+                    $this->replaceItems($profile, $data['items']);
+                }
+
+                return $profile->fresh(['items']);
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'recurring invoice profile update');
+            throw $e;
+        }
+    }
+
+    public function pause(RecurringInvoiceProfile $profile): RecurringInvoiceProfile
+    {
+        if (!$profile->canBePaused()) {
+            throw new \Exception('Only active profiles can be paused.');
+        }
+
+        $profile->update(['status' => 'paused']);
+
+        return $profile;
+    }
+
+    /**
+     * Resume a paused profile. Runs missed while paused are skipped, not back-billed.
+     */
+    public function resume(RecurringInvoiceProfile $profile): RecurringInvoiceProfile
+    {
+        if (!$profile->canBeResumed()) {
+            throw new \Exception('Only paused profiles can be resumed.');
+        }
+
+        $nextRun = $profile->next_run_date?->copy();
+        while ($nextRun && $nextRun->lt(today())) {
+            $nextRun = $profile->nextRunAfter($nextRun);
+        }
+
+        $profile->update([
+            'status' => $nextRun ? 'active' : 'ended',
+            'next_run_date' => $nextRun?->toDateString(),
+            'last_error' => null,
+        ]);
+
+        return $profile;
+    }
+
+    /**
+     * Generate the invoice for the profile's next run and move the schedule on
+     */
+    public function generateInvoice(RecurringInvoiceProfile $profile): Invoice
+    {
+        if ($profile->status !== 'active' || !$profile->next_run_date) {
+            throw new \Exception('Only active profiles with a scheduled run can generate invoices.');
+        }
+
+        $profile->loadMissing('items');
+
+        if ($profile->items->isEmpty()) {
+            throw new \Exception('The profile has no items to invoice.');
+        }
+
+        try {
+            $invoice = DB::transaction(function () use ($profile) {
+                $runDate = $profile->next_run_date->copy();
+
+                $invoice = $this->invoiceService->createInvoice([
+                    'customer_id' => $profile->customer_id,
+                    'branch_id' => $profile->branch_id,
+                    'invoice_date' => $runDate->toDateString(),
+                    'due_date' => $runDate->copy()->addDays($profile->payment_terms_days)->toDateString(),
+                    'discount_amount' => $profile->discount_amount,
+                    'notes' => $profile->notes,
+                    'terms_conditions' => $profile->terms_conditions,
+                    'status' => $profile->auto_send ? 'pending' : 'draft',
+                    'items' => $profile->items->map(fn (RecurringInvoiceProfileItem $item) => array_filter([
+                        'product_id' => $item->product_id,
+                        'item_description' => $item->item_description,
+                        'quantity' => (float) $item->quantity,
+                        'unit_price' => $item->unit_price !== null ? (float) $item->unit_price : null,
+                        'specifications' => $item->specifications,
+                    ], fn ($value) => $value !== null))->all(),
+                ], $profile->company_id, $profile->created_by);
+
+                $invoice->update(['recurring_invoice_profile_id' => $profile->id]);
+
+                $nextRun = $profile->nextRunAfter($runDate);
+
+                $profile->update([
+                    'next_run_date' => $nextRun?->toDateString(),
+                    'status' => $nextRun ? 'active' : 'ended',
+                    'last_run_at' => now(),
+                    'last_error' => null,
+                ]);
+
+                return $invoice;
+            });
+        } catch (\Exception $e) {
+            $this->handleException($e, 'recurring invoice generation');
+            throw $e;
+        }
+
+        if ($profile->auto_send) {
+            $this->emailGeneratedInvoice($profile, $invoice);
+        }
+
+        return $invoice;
+    }
+
+    /**
+     * Email an auto-send invoice to the customer. The invoice is already issued, so a
+     * customer without an email or a mail failure is logged rather than failing the run.
+     */
+    private function emailGeneratedInvoice(RecurringInvoiceProfile $profile, Invoice $invoice): void
+    {
+        $recipient = $invoice->customer?->email;
+
+        if (!$recipient) {
+            Log::warning('Recurring invoice not emailed, customer has no email address', [
+                'profile_id' => $profile->id,
+                'invoice_id' => $invoice->id,
+            ]);
+
+            return;
+        }
+
+        try {
+            $this->invoiceEmailService->sendInvoice($invoice, $recipient, null);
+        } catch (\Exception $e) {
+            Log::warning('Recurring invoice email could not be queued', [
+                'profile_id' => $profile->id,
+                'invoice_id' => $invoice->id,
+                'error' => $e->getMessage(),
+            ]);
+        }
+    }
+
+    /**
+     * Generate every invoice due on or before the given date across all companies.
+     * A failing profile is recorded on the profile and skipped so the rest still run.
+     */
+    public function generateDueInvoices(?Carbon $date = null, bool $dryRun = false): array
+    {
+        $date = ($date ?? today())->toDateString();
+        $results = ['generated' => [], 'failed' => []];
+
+        $profiles = RecurringInvoiceProfile::due($date)->with('items')->orderBy('next_run_date')->get();
+
+        foreach ($profiles as $profile) {
+            $runs = 0;
+
+            while ($profile->status === 'active' && $profile->next_run_date
+                && $profile->next_run_date->toDateString() <= $date
+                && $runs < self::MAX_CATCH_UP_RUNS) {
+                $runs++;
+
+                if ($dryRun) {
+                    $results['generated'][] = ['profile' => $profile->name, 'run_date' => $profile->next_run_date->toDateString(), 'invoice_number' => null];
+                    $nextRun = $profile->nextRunAfter($profile->next_run_date);
+                    $profile->next_run_date = $nextRun;
+                    continue;
+                }
+
+                try {
+                    $runDate = $profile->next_run_date->toDateString();
+                    $invoice = $this->generateInvoice($profile);
+                    $results['generated'][] = ['profile' => $profile->name, 'run_date' => $runDate, 'invoice_number' => $invoice->invoice_number];
+                } catch (\Exception $e) {
+                    $profile->update(['last_error' => mb_substr($e->getMessage(), 0, 500)]);
+                    $results['failed'][] = ['profile' => $profile->name, 'error' => $e->getMessage()];
+
+                    Log::warning('Recurring invoice generation failed', [
+                        'profile_id' => $profile->id,
+                        'error' => $e->getMessage(),
+                    ]);
+                    break;
+                }
+            }
+        }
+
+        return $results;
+    }
+
+    /**
+     * Estimated value of one run: fixed line prices, or the product's base price where the line follows current pricing
+     */
+    public function estimateRunValue(RecurringInvoiceProfile $profile): float
+    {
+        $profile->loadMissing('items.product');
+
+        $subtotal = $profile->items->sum(fn (RecurringInvoiceProfileItem $item) => (float) $item->quantity
+            * (float) ($item->unit_price ?? $item->product?->base_price ?? 0));
+
+        return max(0, round($subtotal - (float) $profile->discount_amount, 2));
+    }
+
+    /**
+     * Replace the profile's lines
+     */
+    private function replaceItems(RecurringInvoiceProfile $profile, array $items): void
+    {
+        $profile->items()->delete();
+
+        foreach ($items as $item) {
+            $product = $this->productRepository->findOrFail($item['product_id']);
+
+            RecurringInvoiceProfileItem::create([
+                'recurring_invoice_profile_id' => $profile->id,
+                'product_id' => $product->id,
+                'item_description' => $item['item_description'] ?? $product->name,
+                'quantity' => $item['quantity'],
+                'unit_price' => isset($item['unit_price']) && $item['unit_price'] !== '' ? $item['unit_price'] : null,
+                'specifications' => $item['specifications'] ?? null,
+            ]);
+        }
+    }
+
+    /**
+     * Make sure the chosen customer and branch belong to the company
+     */
+    private function assertBelongsToCompany(array $data, int $companyId): void
+    {
+        if (isset($data['customer_id']) && $this->customerRepository->findOrFail($data['customer_id'])->company_id !== $companyId) {
+            throw new \Exception('Customer not found in company.');
+        }
+
+        if (isset($data['branch_id']) && $this->branchRepository->findOrFail($data['branch_id'])->company_id !== $companyId) {
+            throw new \Exception('Branch not found in company.');
+        }
+    }
+}
@@ -0,0 +1,316 @@
+<?php
+// app/Services/ReportService.php
+
+namespace App\Services;
+
+use App\Repositories\DeliveryRepository;
+use App\Repositories\ExpenseRepository;
+use App\Repositories\InvoiceRepository;
+use App\Repositories\PaymentRepository;
+use App\Repositories\PrintJobRepository;
+use Carbon\Carbon;
+use Carbon\CarbonPeriod;
+
+class ReportService
+{
+    public function __construct(
+        private InvoiceService $invoiceService,
+        private PaymentService $paymentService,
+        private InvoiceRepository $invoiceRepository,
+        private PaymentRepository $paymentRepository,
+        private PrintJobRepository $printJobRepository,
+        private DeliveryRepository $deliveryRepository,
+        private ExpenseRepository $expenseRepository
+    ) {}
+
+    /**
+     * Headline figures for the reports landing page
+     */
+    public function getOverview(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null, bool $includeFinancial = false): array
+    {
+        $sales = $this->invoiceRepository->getSalesSummary($companyId, $startDate, $endDate, $branchId);
+        $collections = $this->paymentRepository->getDailyCollections($companyId, $startDate, $endDate, $branchId);
+        $deliveries = $this->deliveryRepository->getDeliveriesCreatedBetween($companyId, $startDate, $endDate, $branchId);
+        $collected = array_sum(array_column($collections, 'total_amount'));
+
+        $overview = [
+            'sales' => [
+                'total_sales' => $sales['total_sales'],
+                'invoice_count' => $sales['invoice_count'],
+            ],
+            'payments' => [
+                'total_collected' => $collected,
+                'payment_count' => array_sum(array_column($collections, 'payment_count')),
+            ],
+            'production' => [
+                'jobs_created' => $this->printJobRepository->getJobsCreatedBetween($companyId, $startDate, $endDate, $branchId)->count(),
+                'jobs_completed' => $this->printJobRepository->getJobsCompletedBetween($companyId, $startDate, $endDate, $branchId)->count(),
+            ],
+            'delivery' => [
+                'total' => $deliveries->count(),
+                'delivered' => $deliveries->where('status', 'delivered')->count(),
+            ],
+            'financial' => null,
+        ];
+
+        if ($includeFinancial) {
+            $expenses = array_sum($this->expenseRepository->getMonthlyTotals($companyId, $startDate, $endDate, $branchId));
+
+            $overview['financial'] = [
+                'expenses' => $expenses,
+                'net_cash_flow' => round($collected - $expenses, 2),
+            ];
+        }
+
+        return $overview;
+    }
+
+    /**
+     * Invoiced sales, paid income and best customers and products
+     */
+    public function getSalesReport(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        $daily = collect($this->invoiceRepository->getDailySales($companyId, $startDate, $endDate, $branchId))->keyBy('date')->all();
+
+        return [
+            'summary' => $this->invoiceRepository->getSalesSummary($companyId, $startDate, $endDate, $branchId),
+            'trend' => $this->dailySeries($startDate, $endDate, fn (string $date) => [
+                'invoice_count' => $daily[$date]['invoice_count'] ?? 0,
+                'total_sales' => $daily[$date]['total_sales'] ?? 0,
+            ]),
+            'dailyIncome' => $this->invoiceService->getDailyIncomeReport($companyId, $startDate, $endDate, $branchId),
+            'weeklyIncome' => array_reverse($this->invoiceService->getWeeklyIncomeSummary($companyId, $branchId)),
+            'topCustomers' => $this->invoiceRepository->getTopCustomers($companyId, $startDate, $endDate, $branchId),
+            'topProducts' => $this->invoiceRepository->getTopProducts($companyId, $startDate, $endDate, $branchId),
+            'byBranch' => $branchId ? [] : $this->invoiceRepository->getSalesByBranch($companyId, $startDate, $endDate),
+        ];
+    }
+
+    /**
+     * Money received, how it was paid and what is still waiting for verification
+     */
+    public function getPaymentsReport(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        $daily = collect($this->paymentRepository->getDailyCollections($companyId, $startDate, $endDate, $branchId))->keyBy('date')->all();
+
+        $payments = $this->paymentRepository
+            ->getPaymentsForReport($companyId, $startDate, $endDate, $branchId)
+            ->map(fn ($payment) => [
+                'id' => $payment->id,
+                'payment_reference' => $payment->payment_reference,
+                'payment_date' => $payment->payment_date?->toISOString(),
+                'amount' => (float) $payment->amount,
+                'payment_method' => $payment->payment_method,
+                'status' => $payment->status,
+                'verification_status' => $payment->verification_status,
+                'invoice' => $payment->invoice?->only(['id', 'invoice_number']),
+                'customer' => $payment->customer?->name,
+                'branch' => $payment->branch?->name,
+            ]);
+
+        return [
+            'statistics' => $this->paymentService->getPaymentStatistics($branchId, $startDate, $endDate, $companyId),
+            'today' => $this->paymentService->getDailyPaymentSummary(now(), $branchId, $companyId),
+            'trend' => $this->dailySeries($startDate, $endDate, fn (string $date) => [
+                'payment_count' => $daily[$date]['payment_count'] ?? 0,
+                'total_amount' => $daily[$date]['total_amount'] ?? 0,
+            ]),
+            'byMethod' => $this->paymentRepository->getCollectionsByMethod($companyId, $startDate, $endDate, $branchId),
+            'payments' => $payments,
+        ];
+    }
+
+    /**
+     * Job volume, turnaround and on-time completion per production staff member
+     */
+    public function getProductionReport(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        $created = $this->printJobRepository->getJobsCreatedBetween($companyId, $startDate, $endDate, $branchId);
+        $completed = $this->printJobRepository->getJobsCompletedBetween($companyId, $startDate, $endDate, $branchId)
+            ->each(function ($job) {
+                $job->turnaround_hours = round(($job->started_at ?? $job->created_at)->diffInMinutes($job->actual_completion) / 60, 1);
+                $job->on_time = $job->estimated_completion ? $job->actual_completion->lte($job->estimated_completion) : null;
+            });
+
+        $completedPerDay = $completed->countBy(fn ($job) => $job->actual_completion->toDateString());
+
+        $byStaff = $completed
+            ->groupBy(fn ($job) => $job->assigned_to ?? 0)
+            ->map(fn ($jobs) => [
+                'name' => $jobs->first()->assignedTo?->name ?? 'Unassigned',
+                'completed' => $jobs->count(),
+                'quantity' => (int) $jobs->sum('quantity'),
+                'average_hours' => round($jobs->avg('turnaround_hours'), 1),
+                'on_time_rate' => $this->onTimeRate($jobs),
+            ])
+            ->sortByDesc('completed')
+            ->values();
+
+        return [
+            'summary' => [
+                'jobs_created' => $created->count(),
+                'jobs_completed' => $completed->count(),
+                'cancelled' => $created->where('production_status', 'cancelled')->count(),
+                'currently_overdue' => $this->printJobRepository->getStats($companyId, $branchId)['overdue'],
+                'average_turnaround_hours' => $completed->isEmpty() ? null : round($completed->avg('turnaround_hours'), 1),
+                'on_time_rate' => $this->onTimeRate($completed),
+                'estimated_cost' => (float) $created->sum('estimated_cost'),
+                'actual_cost' => (float) $created->sum('actual_cost'),
+            ],
+            'trend' => $this->dailySeries($startDate, $endDate, fn (string $date) => [
+                'completed' => $completedPerDay[$date] ?? 0,
+            ]),
+            'byStatus' => $created->countBy('production_status'),
+            'byType' => $created->countBy('job_type')->sortDesc(),
+            'byPriority' => $created->countBy('priority'),
+            'byStaff' => $byStaff,
+            'recentCompleted' => $completed
+                ->sortByDesc('actual_completion')
+                ->take(20)
+                ->map(fn ($job) => [
+                    'id' => $job->id,
+                    'job_number' => $job->job_number,
+                    'job_title' => $job->job_title,
+                    'job_type' => $job->job_type,
+                    'assigned_to' => $job->assignedTo?->name,
+                    'actual_completion' => $job->actual_completion->toISOString(),
+                    'turnaround_hours' => $job->turnaround_hours,
+                    'on_time' => $job->on_time,
+                ])
+                ->values(),
+        ];
+    }
+
+    /**
+     * Delivery outcomes, on-time rate and rider performance
+     */
+    public function getDeliveryReport(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        $deliveries = $this->deliveryRepository
+            ->getDeliveriesCreatedBetween($companyId, $startDate, $endDate, $branchId)
+            ->each(function ($delivery) {
+                $delivery->on_time = $delivery->status === 'delivered' && $delivery->estimated_delivery_date && $delivery->actual_delivery_datetime
+                    ? $delivery->actual_delivery_datetime->toDateString() <= $delivery->estimated_delivery_date->toDateString()
+                    : null;
+            });
+
+        $createdPerDay = $deliveries->countBy(fn ($delivery) => $delivery->created_at->toDateString());
+        $deliveredPerDay = $deliveries
+            ->where('status', 'delivered')
+            ->countBy(fn ($delivery) => $delivery->created_at->toDateString());
+
+        $byRider = $deliveries
+            ->whereNotNull('assigned_to')
+            ->groupBy('assigned_to')
+            ->map(fn ($assigned) => [
+                'name' => $assigned->first()->assignedTo?->name ?? 'Unknown',
+                'assigned' => $assigned->count(),
+                'delivered' => $assigned->where('status', 'delivered')->count(),
+                'failed' => $assigned->whereIn('status', ['failed', 'returned'])->count(),
+                'attempts' => (int) $assigned->sum('delivery_attempts'),
+                'success_rate' => $this->successRate($assigned),
+                'on_time_rate' => $this->onTimeRate($assigned),
+            ])
+            ->sortByDesc('delivered')
+            ->values();
+
+        return [
+            'summary' => [
+                'total' => $deliveries->count(),
+                'delivered' => $deliveries->where('status', 'delivered')->count(),
+                'failed' => $deliveries->whereIn('status', ['failed', 'returned'])->count(),
+                'cancelled' => $deliveries->where('status', 'cancelled')->count(),
+                'in_progress' => $deliveries->whereNotIn('status', ['delivered', 'failed', 'returned', 'cancelled'])->count(),
+                'success_rate' => $this->successRate($deliveries),
+                'on_time_rate' => $this->onTimeRate($deliveries),
+                'failed_attempts' => (int) $deliveries->sum('delivery_attempts'),
+                'delivery_cost' => (float) $deliveries->where('status', '!=', 'cancelled')->sum('delivery_cost'),
+            ],
+            'trend' => $this->dailySeries($startDate, $endDate, fn (string $date) => [
+                'created' => $createdPerDay[$date] ?? 0,
+                'delivered' => $deliveredPerDay[$date] ?? 0,
+            ]),
+            'byStatus' => $deliveries->countBy('status'),
+            'byMethod' => $deliveries->countBy('delivery_method'),
+            'byRider' => $byRider,
+        ];
+    }
+
+    /**
+     * Invoiced, collected and spent per month with receivables and expense breakdown
+     */
+    public function getFinancialReport(int $companyId, Carbon $startDate, Carbon $endDate, ?int $branchId = null): array
+    {
+        $invoiced = $this->invoiceRepository->getMonthlySales($companyId, $startDate, $endDate, $branchId);
+        $collected = $this->paymentRepository->getMonthlyCollections($companyId, $startDate, $endDate, $branchId);
+        $expenses = $this->expenseRepository->getMonthlyTotals($companyId, $startDate, $endDate, $branchId);
+        $sales = $this->invoiceRepository->getSalesSummary($companyId, $startDate, $endDate, $branchId);
+
+        $months = collect(CarbonPeriod::create($startDate->copy()->startOfMonth(), '1 month', $endDate))
+            ->map(function (Carbon $month) use ($invoiced, $collected, $expenses) {
+                $key = $month->format('Y-m');
+                $monthCollected = $collected[$key] ?? 0;
+                $monthExpenses = $expenses[$key] ?? 0;
+
+                return [
+                    'month' => $key,
+                    'label' => $month->format('M Y'),
+                    'invoiced' => $invoiced[$key] ?? 0,
+                    'collected' => $monthCollected,
+                    'expenses' => $monthExpenses,
+                    'net' => round($monthCollected - $monthExpenses, 2),
+                ];
+            })
+            ->values();
+
+        $totalCollected = $months->sum('collected');
+        $totalExpenses = $months->sum('expenses');
+        $net = round($totalCollected - $totalExpenses, 2);
+
+        return [
+            'summary' => [
+                'invoiced' => $months->sum('invoiced'),
+                'collected' => $totalCollected,
+                'expenses' => $totalExpenses,
+                'net_cash_flow' => $net,
+                'margin' => $totalCollected > 0 ? round($net / $totalCollected * 100, 1) : null,
+                'tax_invoiced' => $sales['tax_amount'],
+                'discounts_given' => $sales['discount_amount'],
+            ],
+            'months' => $months,
+            'receivables' => $this->invoiceRepository->getReceivables($companyId, $branchId),
+            'expensesByCategory' => $this->expenseRepository->getTotalsByCategory($companyId, $startDate, $endDate, $branchId),
+        ];
+    }
+
+    /**
+     * One row per day in the period so charts show the quiet days too
+     */
+    private function dailySeries(Carbon $startDate, Carbon $endDate, callable $values): array
+    {
+        return collect(CarbonPeriod::create($startDate->copy()->startOfDay(), $endDate))
+            ->map(fn (Carbon $day) => ['date' => $day->toDateString()] + $values($day->toDateString()))
+            ->values()
+            ->toArray();
+    }
+
+    /**
+     * Share of finished items that met their promised date, ignoring items without one
+     */
+    private function onTimeRate($items): ?float
+    {
+        $measured = $items->whereNotNull('on_time');
+
+        return $measured->isEmpty() ? null : round($measured->where('on_time', true)->count() / $measured->count() * 100, 1);
+    }
+
+    /**
+     * Share of deliveries that reached the customer out of those that reached an outcome
+     */
+    private function successRate($deliveries): ?float
+    {
+        $finished = $deliveries->whereIn('status', ['delivered', 'failed', 'returned'])->count();
+
+        return $finished === 0 ? null : round($deliveries->where('status', 'delivered')->count() / $finished * 100, 1);
+    }
+}
@@ -185,8 +185,10 @@ public function generateSamplePricingTable(int $companyId): array
             
             $pricingTable[] = [
                 'weight' => $weight . 'kg',
+                'weight_value' => $weight,
                 'tier' => $calculation['tier']?->tier_name ?? 'No tier',
                 'price' => 'Rs. ' . number_format($calculation['price'], 2),
+                'price_value' => round((float) $calculation['price'], 2),
                 'base_price' => $calculation['breakdown']['base_price'] ?? 0,
                 'additional_price' => $calculation['breakdown']['additional_price'] ?? 0,
             ];
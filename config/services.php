@@ -28,6 +28,15 @@
         'key' => env('RESEND_KEY'),
     ],
 
+    'payhere' => [
+        'merchant_id' => env('PAYHERE_MERCHANT_ID'),
+        'merchant_secret' => env('PAYHERE_MERCHANT_SECRET'),
+        'currency' => env('PAYHERE_CURRENCY', 'LKR'),
+        'checkout_url' => env('PAYHERE_CHECKOUT_URL', 'https://sandbox.payhere.lk/pay/checkout'),
+        // Serves a local stand-in for the PayHere checkout instead of the real one (never in production)
+        'fake' => env('PAYHERE_FAKE', false),
+    ],
+
     'slack' => [
         'notifications' => [
             'bot_user_oauth_token' => env('SLACK_BOT_USER_OAUTH_TOKEN'),
@@ -0,0 +1,31 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Company;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Branch>
+ */
+class BranchFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'company_id' => Company::factory(),
+            'name' => fake()->city() . ' Branch',
+            'code' => strtoupper(fake()->unique()->lexify('???')),
+            'address' => fake()->address(),
+            'phone' => fake()->numerify('07########'),
+            'email' => fake()->unique()->safeEmail(),
+            'is_main_branch' => false,
+            'status' => 'active',
+        ];
+    }
+}
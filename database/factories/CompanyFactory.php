@@ -0,0 +1,28 @@
+<?php
+
+namespace Database\Factories;
+
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Company>
+ */
+class CompanyFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'name' => fake()->company(),
+            'address' => fake()->address(),
+            'phone' => fake()->numerify('07########'),
+            'email' => fake()->unique()->companyEmail(),
+            'status' => 'active',
+            'tax_rate' => 0,
+        ];
+    }
+}
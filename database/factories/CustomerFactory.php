@@ -0,0 +1,35 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Branch;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Customer>
+ */
+class CustomerFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'branch_id' => Branch::factory(),
+            'company_id' => fn (array $attributes) => Branch::find($attributes['branch_id'])->company_id,
+            'customer_code' => fake()->unique()->bothify('CUS-#####'),
+            'name' => fake()->name(),
+            'email' => fake()->unique()->safeEmail(),
+            'phone' => fake()->numerify('07########'),
+            'billing_address' => fake()->streetAddress(),
+            'city' => fake()->city(),
+            'credit_limit' => 0,
+            'current_balance' => 0,
+            'status' => 'active',
+            'customer_type' => 'individual',
+        ];
+    }
+}
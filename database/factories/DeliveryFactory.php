@@ -0,0 +1,39 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Branch;
+use App\Models\PrintJob;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * Deliveries carry a completed standalone print job unless told otherwise.
+ *
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Delivery>
+ */
+class DeliveryFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'branch_id' => Branch::factory(),
+            'company_id' => fn (array $attributes) => Branch::find($attributes['branch_id'])->company_id,
+            'print_job_id' => fn (array $attributes) => PrintJob::factory()->state([
+                'branch_id' => $attributes['branch_id'],
+                'company_id' => $attributes['company_id'],
+                'production_status' => 'completed',
+            ]),
+            'customer_id' => fn (array $attributes) => PrintJob::find($attributes['print_job_id'])->customer_id,
+            'delivery_address' => fake()->streetAddress(),
+            'contact_person' => fake()->name(),
+            'contact_phone' => fake()->numerify('07########'),
+            'delivery_method' => 'internal',
+            'status' => 'pending',
+        ];
+    }
+}
@@ -0,0 +1,29 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Company;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\ExpenseCategory>
+ */
+class ExpenseCategoryFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'company_id' => Company::factory(),
+            'name' => ucfirst(fake()->unique()->word()),
+            'code' => fake()->unique()->bothify('EXC-#####'),
+            'status' => 'active',
+            'sort_order' => 0,
+            'is_system_category' => false,
+        ];
+    }
+}
@@ -0,0 +1,53 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Branch;
+use App\Models\ExpenseCategory;
+use App\Models\User;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Expense>
+ */
+class ExpenseFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'branch_id' => Branch::factory(),
+            'company_id' => fn (array $attributes) => Branch::find($attributes['branch_id'])->company_id,
+            'category_id' => fn (array $attributes) => ExpenseCategory::factory()->state([
+                'company_id' => $attributes['company_id'],
+            ]),
+            'created_by' => fn (array $attributes) => User::factory()->state([
+                'branch_id' => $attributes['branch_id'],
+                'company_id' => $attributes['company_id'],
+            ]),
+            'expense_number' => fake()->unique()->numerify('EXP-TEST-######'),
+            'expense_date' => now()->toDateString(),
+            'amount' => 5000,
+            'description' => ucfirst(fake()->words(4, true)),
+            'payment_method' => 'cash',
+            'status' => 'draft',
+            'priority' => 'medium',
+        ];
+    }
+
+    /**
+     * Indicate that the expense starts a recurring series due on the given date.
+     */
+    public function recurring(string $period, string $nextDueDate): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'is_recurring' => true,
+            'recurring_period' => $period,
+            'next_due_date' => $nextDueDate,
+        ]);
+    }
+}
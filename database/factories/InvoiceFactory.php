@@ -0,0 +1,52 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Branch;
+use App\Models\Customer;
+use App\Models\User;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * Totals are calculated by the model from its items, so give the invoice
+ * InvoiceItem factories (->has(InvoiceItem::factory(), 'items')) for an amount due.
+ *
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Invoice>
+ */
+class InvoiceFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'branch_id' => Branch::factory(),
+            'company_id' => fn (array $attributes) => Branch::find($attributes['branch_id'])->company_id,
+            'customer_id' => fn (array $attributes) => Customer::factory()->state([
+                'branch_id' => $attributes['branch_id'],
+                'company_id' => $attributes['company_id'],
+            ]),
+            'created_by' => fn (array $attributes) => User::factory()->state([
+                'branch_id' => $attributes['branch_id'],
+                'company_id' => $attributes['company_id'],
+            ]),
+            'invoice_date' => now()->toDateString(),
+            'due_date' => now()->addDays(30)->toDateString(),
+            'status' => 'pending',
+            'payment_status' => 'pending',
+        ];
+    }
+
+    /**
+     * Indicate that the invoice has not been issued yet.
+     */
+    public function draft(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'status' => 'draft',
+        ]);
+    }
+}
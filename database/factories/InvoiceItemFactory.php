@@ -0,0 +1,32 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Invoice;
+use App\Models\Product;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\InvoiceItem>
+ */
+class InvoiceItemFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'invoice_id' => Invoice::factory(),
+            'product_id' => fn (array $attributes) => Product::factory()->state([
+                'company_id' => Invoice::find($attributes['invoice_id'])->company_id,
+            ]),
+            'item_description' => ucfirst(fake()->words(3, true)),
+            'quantity' => 1,
+            'unit_price' => 1000,
+            'unit_weight' => 0,
+        ];
+    }
+}
@@ -0,0 +1,46 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Invoice;
+use App\Models\Payment;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * Payments only move their invoice's payment status when they are updated,
+ * so the factory settles the invoice after creating the payment, as PaymentService does.
+ *
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Payment>
+ */
+class PaymentFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'invoice_id' => Invoice::factory(),
+            'branch_id' => fn (array $attributes) => Invoice::find($attributes['invoice_id'])->branch_id,
+            'customer_id' => fn (array $attributes) => Invoice::find($attributes['invoice_id'])->customer_id,
+            'received_by' => fn (array $attributes) => Invoice::find($attributes['invoice_id'])->created_by,
+            'amount' => 1000,
+            'payment_date' => now(),
+            'payment_method' => 'cash',
+            'status' => 'completed',
+            'verification_status' => 'verified',
+        ];
+    }
+
+    /**
+     * Configure the model factory.
+     */
+    public function configure(): static
+    {
+        return $this->afterCreating(function (Payment $payment) {
+            $payment->invoice->updatePaymentStatus();
+        });
+    }
+}
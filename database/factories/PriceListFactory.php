@@ -0,0 +1,47 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Company;
+use App\Models\PriceList;
+use App\Models\Product;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\PriceList>
+ */
+class PriceListFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'company_id' => Company::factory(),
+            'name' => ucfirst(fake()->words(2, true)),
+            'is_active' => true,
+        ];
+    }
+
+    /**
+     * List prices for a product, keyed by the minimum quantity they start at.
+     *
+     * @param  array<int, float>  $prices
+     */
+    public function withPrices(Product $product, array $prices): static
+    {
+        return $this->state(['company_id' => $product->company_id])
+            ->afterCreating(function (PriceList $priceList) use ($product, $prices) {
+                foreach ($prices as $minQuantity => $unitPrice) {
+                    $priceList->items()->create([
+                        'product_id' => $product->id,
+                        'min_quantity' => $minQuantity,
+                        'unit_price' => $unitPrice,
+                    ]);
+                }
+            });
+    }
+}
@@ -0,0 +1,38 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Branch;
+use App\Models\Customer;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * Jobs are standalone (no invoice) unless an invoice_id is given.
+ *
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\PrintJob>
+ */
+class PrintJobFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'branch_id' => Branch::factory(),
+            'company_id' => fn (array $attributes) => Branch::find($attributes['branch_id'])->company_id,
+            'customer_id' => fn (array $attributes) => Customer::factory()->state([
+                'branch_id' => $attributes['branch_id'],
+                'company_id' => $attributes['company_id'],
+            ]),
+            'job_number' => fake()->unique()->bothify('PJ-TEST-#####'),
+            'job_type' => 'business_cards',
+            'job_title' => 'Business cards',
+            'production_status' => 'pending',
+            'priority' => 'normal',
+            'quantity' => 1,
+        ];
+    }
+}
@@ -0,0 +1,33 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Company;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\PrintJobTemplate>
+ */
+class PrintJobTemplateFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'company_id' => Company::factory(),
+            'name' => ucfirst(fake()->words(2, true)),
+            'job_type' => 'flyers',
+            'job_title' => 'A5 flyers',
+            'default_stages' => [
+                ['name' => 'design_review', 'estimated_duration' => 60, 'requires_approval' => false],
+                ['name' => 'printing_process', 'estimated_duration' => 120, 'requires_approval' => false],
+            ],
+            'priority' => 'normal',
+            'is_active' => true,
+        ];
+    }
+}
@@ -0,0 +1,36 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Company;
+use App\Models\ProductCategory;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\Product>
+ */
+class ProductFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'company_id' => Company::factory(),
+            'category_id' => fn (array $attributes) => ProductCategory::factory()->state(['company_id' => $attributes['company_id']]),
+            'product_code' => fake()->unique()->bothify('PRD-#####'),
+            'name' => ucfirst(fake()->words(2, true)),
+            'base_price' => 1000,
+            'unit_type' => 'piece',
+            'weight_per_unit' => 0,
+            'weight_unit' => 'kg',
+            'tax_rate' => 0,
+            'status' => 'active',
+            'minimum_quantity' => 1,
+            'requires_customization' => false,
+        ];
+    }
+}
@@ -0,0 +1,41 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\PrintJob;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\ProductionStage>
+ */
+class ProductionStageFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'print_job_id' => PrintJob::factory(),
+            'stage_name' => 'design_review',
+            'stage_status' => 'pending',
+            // Zero lets the model append the stage after the job's existing ones
+            'stage_order' => 0,
+            'requires_customer_approval' => false,
+        ];
+    }
+
+    /**
+     * Indicate that the stage is waiting for the customer to approve a proof.
+     */
+    public function awaitingCustomerApproval(): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'stage_name' => 'customer_proof_approval',
+            'stage_status' => 'requires_approval',
+            'requires_customer_approval' => true,
+        ]);
+    }
+}
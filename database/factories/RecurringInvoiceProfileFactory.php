@@ -0,0 +1,40 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Customer;
+use App\Models\User;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * Profiles bill nothing without lines, so give them
+ * RecurringInvoiceProfileItem factories (->has(RecurringInvoiceProfileItem::factory(), 'items')).
+ *
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\RecurringInvoiceProfile>
+ */
+class RecurringInvoiceProfileFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'customer_id' => Customer::factory(),
+            'company_id' => fn (array $attributes) => Customer::find($attributes['customer_id'])->company_id,
+            'branch_id' => fn (array $attributes) => Customer::find($attributes['customer_id'])->branch_id,
+            'created_by' => fn (array $attributes) => User::factory()->state([
+                'branch_id' => $attributes['branch_id'],
+                'company_id' => $attributes['company_id'],
+            ]),
+            'name' => 'Monthly ' . fake()->word(),
+            'recurring_period' => 'monthly',
+            'start_date' => '2026-01-01',
+            'next_run_date' => fn (array $attributes) => $attributes['start_date'],
+            'payment_terms_days' => 30,
+            'status' => 'active',
+        ];
+    }
+}
@@ -0,0 +1,31 @@
+<?php
+
+namespace Database\Factories;
+
+use App\Models\Product;
+use App\Models\RecurringInvoiceProfile;
+use Illuminate\Database\Eloquent\Factories\Factory;
+
+/**
+ * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\RecurringInvoiceProfileItem>
+ */
+class RecurringInvoiceProfileItemFactory extends Factory
+{
+    /**
+     * Define the model's default state.
+     *
+     * @return array<string, mixed>
+     */
+    public function definition(): array
+    {
+        return [
+            'recurring_invoice_profile_id' => RecurringInvoiceProfile::factory(),
+            'product_id' => fn (array $attributes) => Product::factory()->state([
+                'company_id' => RecurringInvoiceProfile::find($attributes['recurring_invoice_profile_id'])->company_id,
+            ]),
+            'item_description' => ucfirst(fake()->words(3, true)),
+            'quantity' => 1,
+            'unit_price' => 1500,
+        ];
+    }
+}
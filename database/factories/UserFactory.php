@@ -2,9 +2,12 @@
 
 namespace Database\Factories;
 
+use App\Models\Branch;
+use App\Models\User;
 use Illuminate\Database\Eloquent\Factories\Factory;
 use Illuminate\Support\Facades\Hash;
 use Illuminate\Support\Str;
+use Spatie\Permission\Models\Permission;
 
 /**
  * @extends \Illuminate\Database\Eloquent\Factories\Factory<\App\Models\User>
@@ -23,8 +26,13 @@ class UserFactory extends Factory
      */
     public function definition(): array
     {
+        $firstName = fake()->firstName();
+        $lastName = fake()->lastName();
+
         return [
-            'name' => fake()->name(),
+            'name' => $firstName . ' ' . $lastName,
+            'first_name' => $firstName,
+            'last_name' => $lastName,
             'email' => fake()->unique()->safeEmail(),
             'email_verified_at' => now(),
             'password' => static::$password ??= Hash::make('password'),
@@ -41,4 +49,29 @@ public function unverified(): static
             'email_verified_at' => null,
         ]);
     }
+
+    /**
+     * Place the user in the given branch and its company.
+     */
+    public function forBranch(Branch $branch): static
+    {
+        return $this->state(fn (array $attributes) => [
+            'company_id' => $branch->company_id,
+            'branch_id' => $branch->id,
+        ]);
+    }
+
+    /**
+     * Grant the user the given permissions, creating any the test database does not have yet.
+     */
+    public function withPermissions(string ...$permissions): static
+    {
+        return $this->afterCreating(function (User $user) use ($permissions) {
+            foreach ($permissions as $permission) {
+                Permission::findOrCreate($permission, 'web');
+            }
+
+            $user->givePermissionTo($permissions);
+        });
+    }
 }
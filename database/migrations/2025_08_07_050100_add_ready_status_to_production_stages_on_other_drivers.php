@@ -0,0 +1,52 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+/**
+ * Adds the 'ready' stage status on databases without MODIFY COLUMN (sqlite in
+ * the test suite), which skip 2025_08_07_050037. MySQL already has it from there.
+ */
+return new class extends Migration
+{
+    public function up(): void
+    {
+        if (DB::getDriverName() === 'mysql') {
+            return;
+        }
+
+        Schema::table('production_stages', function (Blueprint $table) {
+            $table->enum('stage_status', [
+                'pending',
+                'ready',
+                'in_progress',
+                'completed',
+                'on_hold',
+                'requires_approval',
+                'rejected',
+                'skipped',
+            ])->default('pending')->change();
+        });
+    }
+
+    public function down(): void
+    {
+        if (DB::getDriverName() === 'mysql') {
+            return;
+        }
+
+        Schema::table('production_stages', function (Blueprint $table) {
+            $table->enum('stage_status', [
+                'pending',
+                'in_progress',
+                'completed',
+                'on_hold',
+                'requires_approval',
+                'rejected',
+                'skipped',
+            ])->default('pending')->change();
+        });
+    }
+};
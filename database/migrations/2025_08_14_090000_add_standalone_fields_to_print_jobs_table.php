@@ -0,0 +1,64 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    private const ORIGINAL_JOB_TYPES = [
+        'business_cards', 'brochures', 'flyers', 'posters', 'banners', 'stickers', 'letterheads',
+        'envelopes', 'books', 'magazines', 'packaging', 'labels', 'custom',
+    ];
+
+    public function up(): void
+    {
+        Schema::table('print_jobs', function (Blueprint $table) {
+            // Standalone jobs are created without an invoice
+            $table->dropForeign(['invoice_id']);
+            $table->foreignId('invoice_id')->nullable()->change();
+            $table->foreign('invoice_id')->references('id')->on('invoices')->onDelete('cascade');
+
+            $table->foreignId('company_id')->nullable()->after('branch_id')->constrained()->onDelete('cascade');
+            $table->foreignId('customer_id')->nullable()->after('company_id')->constrained()->onDelete('set null');
+            $table->string('job_title', 200)->nullable()->after('job_type');
+            $table->text('job_description')->nullable()->after('job_title');
+            $table->text('customer_instructions')->nullable()->after('special_instructions');
+            $table->foreignId('created_by')->nullable()->after('material_requirements')->constrained('users')->onDelete('set null');
+
+            $table->index(['company_id', 'production_status']);
+
+            // Job types offered in the UI are wider than the original list
+            $table->string('job_type', 100)->default('custom')->change();
+            $table->enum('priority', ['low', 'normal', 'medium', 'high', 'urgent'])->default('normal')->change();
+        });
+
+        DB::statement('UPDATE print_jobs SET company_id = (SELECT company_id FROM branches WHERE branches.id = print_jobs.branch_id)');
+    }
+
+    public function down(): void
+    {
+        // The original table has no room for jobs without an invoice or for the wider job types and priorities
+        DB::table('print_jobs')->whereNull('invoice_id')->delete();
+        DB::table('print_jobs')->where('priority', 'medium')->update(['priority' => 'normal']);
+        DB::table('print_jobs')->whereNotIn('job_type', self::ORIGINAL_JOB_TYPES)->update(['job_type' => 'custom']);
+
+        Schema::table('print_jobs', function (Blueprint $table) {
+            $table->dropIndex(['company_id', 'production_status']);
+            $table->dropConstrainedForeignId('created_by');
+            $table->dropConstrainedForeignId('customer_id');
+            $table->dropConstrainedForeignId('company_id');
+            $table->dropColumn(['job_title', 'job_description', 'customer_instructions']);
+        });
+
+        Schema::table('print_jobs', function (Blueprint $table) {
+            $table->dropForeign(['invoice_id']);
+            $table->foreignId('invoice_id')->nullable(false)->change();
+            $table->foreign('invoice_id')->references('id')->on('invoices')->onDelete('cascade');
+
+            $table->enum('job_type', self::ORIGINAL_JOB_TYPES)->default('custom')->change();
+            $table->enum('priority', ['low', 'normal', 'high', 'urgent'])->default('normal')->change();
+        });
+    }
+};
@@ -0,0 +1,40 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('deliveries', function (Blueprint $table) {
+            // Standalone print jobs are delivered without an invoice
+            $table->dropForeign(['invoice_id']);
+            $table->foreignId('invoice_id')->nullable()->change();
+            $table->foreign('invoice_id')->references('id')->on('invoices')->onDelete('cascade');
+
+            $table->foreignId('company_id')->nullable()->after('id')->constrained()->onDelete('cascade');
+            $table->foreignId('print_job_id')->nullable()->after('invoice_id')->constrained()->onDelete('set null');
+            $table->foreignId('customer_id')->nullable()->after('print_job_id')->constrained()->onDelete('set null');
+            $table->foreignId('created_by')->nullable()->after('last_attempt_at')->constrained('users')->onDelete('set null');
+
+            $table->index(['company_id', 'status']);
+        });
+
+        DB::statement('UPDATE deliveries SET company_id = (SELECT company_id FROM branches WHERE branches.id = deliveries.branch_id)');
+        DB::statement('UPDATE deliveries SET customer_id = (SELECT customer_id FROM invoices WHERE invoices.id = deliveries.invoice_id)');
+    }
+
+    public function down(): void
+    {
+        Schema::table('deliveries', function (Blueprint $table) {
+            $table->dropIndex(['company_id', 'status']);
+            $table->dropConstrainedForeignId('created_by');
+            $table->dropConstrainedForeignId('customer_id');
+            $table->dropConstrainedForeignId('print_job_id');
+            $table->dropConstrainedForeignId('company_id');
+        });
+    }
+};
@@ -0,0 +1,43 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('print_job_templates', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('company_id')->constrained()->onDelete('cascade');
+            $table->foreignId('customer_id')->nullable()->constrained()->onDelete('set null');
+            $table->string('name', 150);
+            $table->string('job_type', 100);
+            $table->string('job_title', 200)->nullable();
+            $table->text('job_description')->nullable();
+            $table->json('specifications')->nullable();
+            $table->json('material_requirements')->nullable();
+            // [{name, estimated_duration (minutes), requires_approval}] in production order
+            $table->json('default_stages')->nullable();
+            $table->enum('priority', ['low', 'normal', 'medium', 'high', 'urgent'])->default('normal');
+            $table->unsignedInteger('estimated_hours')->nullable();
+            $table->decimal('estimated_cost', 10, 2)->nullable();
+            $table->text('special_instructions')->nullable();
+            $table->boolean('is_active')->default(true);
+            $table->unsignedInteger('usage_count')->default(0);
+            $table->timestamp('last_used_at')->nullable();
+            $table->foreignId('created_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamps();
+            $table->softDeletes();
+
+            $table->index(['company_id', 'is_active']);
+            $table->index(['company_id', 'job_type']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('print_job_templates');
+    }
+};
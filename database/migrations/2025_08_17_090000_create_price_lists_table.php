@@ -0,0 +1,56 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('price_lists', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('company_id')->constrained()->onDelete('cascade');
+            $table->string('name', 150);
+            $table->text('description')->nullable();
+            // Set to apply the list to every customer of that type; assigned customers always get it
+            $table->enum('customer_type', ['individual', 'business'])->nullable();
+            $table->date('valid_from')->nullable();
+            $table->date('valid_until')->nullable();
+            $table->boolean('is_active')->default(true);
+            $table->foreignId('created_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->timestamps();
+            $table->softDeletes();
+
+            $table->index(['company_id', 'is_active']);
+            $table->index(['company_id', 'customer_type']);
+        });
+
+        Schema::create('price_list_items', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('price_list_id')->constrained()->onDelete('cascade');
+            $table->foreignId('product_id')->constrained()->onDelete('cascade');
+            // The unit price applies from this quantity up to the next row's minimum
+            $table->unsignedInteger('min_quantity')->default(1);
+            $table->decimal('unit_price', 10, 2);
+            $table->timestamps();
+
+            $table->unique(['price_list_id', 'product_id', 'min_quantity']);
+            $table->index('product_id');
+        });
+
+        Schema::table('customers', function (Blueprint $table) {
+            $table->foreignId('price_list_id')->nullable()->after('customer_type')->constrained()->onDelete('set null');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('customers', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('price_list_id');
+        });
+
+        Schema::dropIfExists('price_list_items');
+        Schema::dropIfExists('price_lists');
+    }
+};
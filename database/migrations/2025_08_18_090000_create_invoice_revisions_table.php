@@ -0,0 +1,35 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('invoice_revisions', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('invoice_id')->constrained()->onDelete('cascade');
+            $table->foreignId('user_id')->nullable()->constrained()->onDelete('set null');
+            $table->unsignedInteger('revision_number');
+            // {field: {from, to}} for invoice fields and totals
+            $table->json('changes')->nullable();
+            // Lines added, removed or changed: [{action, product_id, item_description, from, to}]
+            $table->json('item_changes')->nullable();
+            $table->decimal('old_total', 12, 2);
+            $table->decimal('new_total', 12, 2);
+            // Set when a paid or in-production invoice was edited with the override permission
+            $table->string('lock_reason')->nullable();
+            $table->text('note')->nullable();
+            $table->timestamps();
+
+            $table->unique(['invoice_id', 'revision_number']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('invoice_revisions');
+    }
+};
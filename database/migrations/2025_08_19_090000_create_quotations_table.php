@@ -0,0 +1,75 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('quotations', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('company_id')->constrained()->onDelete('cascade');
+            $table->foreignId('branch_id')->constrained()->onDelete('cascade');
+            $table->foreignId('customer_id')->constrained()->onDelete('cascade');
+            $table->foreignId('created_by')->constrained('users')->onDelete('cascade');
+
+            $table->string('quotation_number')->unique();
+            $table->date('quotation_date');
+            $table->date('valid_until');
+
+            $table->decimal('subtotal', 12, 2)->default(0.00);
+            $table->decimal('weight_charge', 10, 2)->default(0.00);
+            $table->decimal('tax_amount', 10, 2)->default(0.00);
+            $table->decimal('discount_amount', 10, 2)->default(0.00);
+            $table->decimal('total_amount', 12, 2)->default(0.00);
+            $table->decimal('total_weight', 8, 3)->default(0.000);
+
+            // 'expired' is derived from valid_until for open quotations, see Quotation::getEffectiveStatusAttribute
+            $table->enum('status', ['draft', 'sent', 'accepted', 'declined', 'converted'])->default('draft');
+            $table->timestamp('sent_at')->nullable();
+            $table->timestamp('accepted_at')->nullable();
+            $table->timestamp('declined_at')->nullable();
+            $table->string('decline_reason', 500)->nullable();
+
+            // Invoice created from this quotation
+            $table->foreignId('invoice_id')->nullable()->constrained()->onDelete('set null');
+            $table->timestamp('converted_at')->nullable();
+
+            $table->text('notes')->nullable();
+            $table->text('terms_conditions')->nullable();
+
+            $table->timestamps();
+            $table->softDeletes();
+
+            $table->index(['company_id', 'status']);
+            $table->index(['branch_id', 'quotation_date']);
+            $table->index(['customer_id', 'status']);
+            $table->index('valid_until');
+        });
+
+        Schema::create('quotation_items', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('quotation_id')->constrained()->onDelete('cascade');
+            $table->foreignId('product_id')->constrained()->onDelete('cascade');
+            $table->string('item_description', 500);
+            $table->decimal('quantity', 8, 2);
+            $table->decimal('unit_price', 10, 2);
+            $table->decimal('unit_weight', 8, 3)->default(0.000);
+            $table->decimal('line_total', 10, 2);
+            $table->decimal('line_weight', 8, 3)->default(0.000);
+            $table->decimal('tax_amount', 10, 2)->default(0.00);
+            $table->json('specifications')->nullable();
+            $table->timestamps();
+
+            $table->index('quotation_id');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('quotation_items');
+        Schema::dropIfExists('quotations');
+    }
+};
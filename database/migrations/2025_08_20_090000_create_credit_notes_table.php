@@ -0,0 +1,75 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('credit_notes', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('company_id')->constrained()->onDelete('cascade');
+            $table->foreignId('branch_id')->constrained()->onDelete('cascade');
+            $table->foreignId('invoice_id')->constrained()->onDelete('cascade');
+            $table->foreignId('customer_id')->constrained()->onDelete('cascade');
+            $table->foreignId('created_by')->constrained('users')->onDelete('cascade');
+
+            $table->string('credit_note_number')->unique();
+            $table->date('credit_date');
+            $table->string('reason', 500);
+
+            $table->decimal('subtotal', 12, 2)->default(0.00);
+            $table->decimal('tax_amount', 10, 2)->default(0.00);
+            $table->decimal('amount', 12, 2)->default(0.00);
+            // Part of the credit that reduced the customer's current_balance (the rest was already paid)
+            $table->decimal('balance_adjustment', 12, 2)->default(0.00);
+
+            $table->enum('status', ['issued', 'void'])->default('issued');
+            $table->timestamp('voided_at')->nullable();
+            $table->foreignId('voided_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->string('void_reason', 500)->nullable();
+
+            $table->text('notes')->nullable();
+            $table->timestamps();
+
+            $table->index(['company_id', 'status']);
+            $table->index(['invoice_id', 'status']);
+            $table->index(['customer_id', 'credit_date']);
+        });
+
+        Schema::create('credit_note_items', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('credit_note_id')->constrained()->onDelete('cascade');
+            $table->foreignId('invoice_item_id')->nullable()->constrained()->onDelete('set null');
+            $table->string('item_description', 500);
+            $table->decimal('quantity', 8, 2);
+            $table->decimal('unit_price', 10, 2);
+            $table->decimal('line_total', 10, 2);
+            $table->timestamps();
+
+            $table->index('credit_note_id');
+        });
+
+        Schema::table('payments', function (Blueprint $table) {
+            // Refunds are stored with a negative amount so invoice and report totals net them out
+            $table->enum('payment_type', ['payment', 'refund'])->default('payment')->after('payment_method');
+            $table->foreignId('credit_note_id')->nullable()->after('invoice_id')->constrained()->onDelete('set null');
+
+            $table->index(['invoice_id', 'payment_type']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('payments', function (Blueprint $table) {
+            $table->dropIndex(['invoice_id', 'payment_type']);
+            $table->dropConstrainedForeignId('credit_note_id');
+            $table->dropColumn('payment_type');
+        });
+
+        Schema::dropIfExists('credit_note_items');
+        Schema::dropIfExists('credit_notes');
+    }
+};
@@ -0,0 +1,72 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('recurring_invoice_profiles', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('company_id')->constrained()->onDelete('cascade');
+            $table->foreignId('branch_id')->constrained()->onDelete('cascade');
+            $table->foreignId('customer_id')->constrained()->onDelete('cascade');
+            $table->foreignId('created_by')->constrained('users')->onDelete('cascade');
+
+            $table->string('name', 150);
+            $table->enum('recurring_period', ['weekly', 'monthly', 'quarterly', 'yearly'])->default('monthly');
+            $table->date('start_date');
+            $table->date('end_date')->nullable();
+            // Null once the profile has ended
+            $table->date('next_run_date')->nullable();
+            $table->unsignedSmallInteger('payment_terms_days')->default(30);
+
+            $table->decimal('discount_amount', 10, 2)->default(0.00);
+            $table->text('notes')->nullable();
+            $table->text('terms_conditions')->nullable();
+
+            // Generated invoices are issued straight away instead of waiting in draft
+            $table->boolean('auto_send')->default(false);
+            $table->enum('status', ['active', 'paused', 'ended'])->default('active');
+            $table->timestamp('last_run_at')->nullable();
+            $table->string('last_error', 500)->nullable();
+
+            $table->timestamps();
+            $table->softDeletes();
+
+            $table->index(['company_id', 'status']);
+            $table->index(['status', 'next_run_date']);
+            $table->index('customer_id');
+        });
+
+        Schema::create('recurring_invoice_profile_items', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('recurring_invoice_profile_id')->constrained()->onDelete('cascade');
+            $table->foreignId('product_id')->constrained()->onDelete('cascade');
+            $table->string('item_description', 500);
+            $table->decimal('quantity', 8, 2);
+            // Null uses the customer's price at the time each invoice is generated
+            $table->decimal('unit_price', 10, 2)->nullable();
+            $table->json('specifications')->nullable();
+            $table->timestamps();
+
+            $table->index('recurring_invoice_profile_id');
+        });
+
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->foreignId('recurring_invoice_profile_id')->nullable()->after('customer_id')->constrained()->onDelete('set null');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('recurring_invoice_profile_id');
+        });
+
+        Schema::dropIfExists('recurring_invoice_profile_items');
+        Schema::dropIfExists('recurring_invoice_profiles');
+    }
+};
@@ -0,0 +1,26 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('expenses', function (Blueprint $table) {
+            // The expense a generated occurrence was cloned from; null on the original of a series
+            $table->foreignId('recurring_parent_id')->nullable()->after('next_due_date')->constrained('expenses')->onDelete('set null');
+            // Generated occurrences go straight to pending_approval instead of draft
+            $table->boolean('recurring_auto_submit')->default(false)->after('recurring_parent_id');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('expenses', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('recurring_parent_id');
+            $table->dropColumn('recurring_auto_submit');
+        });
+    }
+};
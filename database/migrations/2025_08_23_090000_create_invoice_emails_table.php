@@ -0,0 +1,37 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::create('invoice_emails', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('invoice_id')->constrained()->onDelete('cascade');
+            $table->foreignId('company_id')->constrained()->onDelete('cascade');
+            // Null when sent by the scheduler for an auto-send recurring profile
+            $table->foreignId('sent_by')->nullable()->constrained('users')->onDelete('set null');
+            $table->foreignId('resent_from_id')->nullable()->constrained('invoice_emails')->onDelete('set null');
+
+            $table->string('recipient');
+            $table->string('subject');
+            // Body after placeholders were filled in, as it went out
+            $table->text('body');
+            $table->enum('status', ['queued', 'sent', 'failed'])->default('queued');
+            $table->string('error', 500)->nullable();
+            $table->timestamp('sent_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['invoice_id', 'created_at']);
+            $table->index(['company_id', 'status']);
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::dropIfExists('invoice_emails');
+    }
+};
@@ -0,0 +1,27 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        // Blank references would collide with each other; null ones do not
+        DB::table('payments')->where('gateway_reference', '')->update(['gateway_reference' => null]);
+
+        Schema::table('payments', function (Blueprint $table) {
+            // A gateway payment is recorded once, even when its notification arrives twice at the same time
+            $table->unique('gateway_reference');
+        });
+    }
+
+    public function down(): void
+    {
+        Schema::table('payments', function (Blueprint $table) {
+            $table->dropUnique(['gateway_reference']);
+        });
+    }
+};
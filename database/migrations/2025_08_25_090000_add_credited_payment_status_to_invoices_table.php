@@ -0,0 +1,37 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    public function up(): void
+    {
+        Schema::table('invoices', function (Blueprint $table) {
+            // Fully credited invoices that were never paid are settled by the credit notes, not refunded
+            $table->enum('payment_status', ['pending', 'partially_paid', 'paid', 'credited', 'refunded'])->default('pending')->change();
+        });
+
+        // Rows marked refunded with no money ever taken were only credited
+        DB::table('invoices')
+            ->where('payment_status', 'refunded')
+            ->whereNotExists(function ($query) {
+                $query->select(DB::raw(1))
+                    ->from('payments')
+                    ->whereColumn('payments.invoice_id', 'invoices.id')
+                    ->where('payments.status', 'completed');
+            })
+            ->update(['payment_status' => 'credited']);
+    }
+
+    public function down(): void
+    {
+        DB::table('invoices')->where('payment_status', 'credited')->update(['payment_status' => 'refunded']);
+
+        Schema::table('invoices', function (Blueprint $table) {
+            $table->enum('payment_status', ['pending', 'partially_paid', 'paid', 'refunded'])->default('pending')->change();
+        });
+    }
+};
@@ -41,6 +41,18 @@ public function run(): void
             'delete products',
             'manage pricing',
             
+            // Product Categories
+            'view product categories',
+            'create product categories',
+            'edit product categories',
+            'delete product categories',
+            
+            // Weight Pricing
+            'view weight pricing',
+            'create weight pricing',
+            'edit weight pricing',
+            'delete weight pricing',
+            
             // Order Management
             'view orders',
             'create orders',
@@ -48,12 +60,26 @@ public function run(): void
             'delete orders',
             'cancel orders',
             
+            // Quotations
+            'view quotations',
+            'create quotations',
+            'edit quotations',
+            'delete quotations',
+            'convert quotations',
+            
             // Invoice Management
             'view invoices',
             'create invoices',
             'edit invoices',
             'delete invoices',
             'download invoices',
+            'override invoice lock',
+            'override item prices',
+            'issue credit notes',
+            'manage recurring invoices',
+            
+            // Expense Budgets
+            'manage expense_budgets',
             
             // Payment Management
             'view payments',
@@ -66,6 +92,15 @@ public function run(): void
             'manage production',
             'update production status',
             'assign production jobs',
+            'view production queue',
+            'view production approvals',
+            'approve production stages',
+            'reject production stages',
+            'view print jobs',
+            'create print jobs',
+            'create standalone print jobs',
+            'edit print jobs',
+            'delete print jobs',
             
             // Delivery Management
             'view deliveries',
@@ -101,6 +136,7 @@ public function run(): void
         $this->createCashierRole();
         $this->createProductionStaffRole();
         $this->createDeliveryCoordinatorRole();
+        $this->createDeliveryRiderRole();
     }
 
     private function createSuperAdminRole()
@@ -125,17 +161,31 @@ private function createCompanyAdminRole()
             // Product Management
             'view products', 'create products', 'edit products', 'delete products', 'manage pricing',
             
+            // Product Categories
+            'view product categories', 'create product categories', 'edit product categories', 'delete product categories',
+            
+            // Weight Pricing
+            'view weight pricing', 'create weight pricing', 'edit weight pricing', 'delete weight pricing',
+            
             // Order Management
             'view orders', 'create orders', 'edit orders', 'delete orders', 'cancel orders',
             
+            // Quotations
+            'view quotations', 'create quotations', 'edit quotations', 'delete quotations', 'convert quotations',
+            
             // Invoice Management
-            'view invoices', 'create invoices', 'edit invoices', 'delete invoices', 'download invoices',
+            'view invoices', 'create invoices', 'edit invoices', 'delete invoices', 'download invoices', 'override invoice lock', 'override item prices', 'issue credit notes', 'manage recurring invoices',
+            
+            // Expense Budgets
+            'manage expense_budgets',
             
             // Payment Management
             'view payments', 'process payments', 'verify payments', 'refund payments',
             
             // Production Management
             'view production', 'manage production', 'update production status', 'assign production jobs',
+            'view production queue', 'view print jobs', 'create print jobs', 'create standalone print jobs', 'edit print jobs', 'delete print jobs',
+            'view production approvals', 'approve production stages', 'reject production stages',
             
             // Delivery Management
             'view deliveries', 'manage deliveries', 'assign deliveries', 'update delivery status',
@@ -164,17 +214,28 @@ private function createBranchManagerRole()
             // Product Management
             'view products', 'create products', 'edit products',
             
+            // Product Categories
+            'view product categories', 'create product categories', 'edit product categories',
+            
+            // Weight Pricing
+            'view weight pricing', 'create weight pricing', 'edit weight pricing',
+            
             // Order Management
             'view orders', 'create orders', 'edit orders', 'cancel orders',
             
+            // Quotations
+            'view quotations', 'create quotations', 'edit quotations', 'convert quotations',
+            
             // Invoice Management
-            'view invoices', 'create invoices', 'edit invoices', 'download invoices',
+            'view invoices', 'create invoices', 'edit invoices', 'download invoices', 'issue credit notes', 'manage recurring invoices',
             
             // Payment Management
             'view payments', 'process payments', 'verify payments',
             
             // Production Management
             'view production', 'manage production', 'update production status', 'assign production jobs',
+            'view production queue', 'view print jobs', 'create print jobs', 'create standalone print jobs', 'edit print jobs',
+            'view production approvals', 'approve production stages', 'reject production stages',
             
             // Delivery Management
             'view deliveries', 'manage deliveries', 'assign deliveries', 'update delivery status',
@@ -200,6 +261,9 @@ private function createCashierRole()
             // Order Management
             'view orders', 'create orders', 'edit orders',
             
+            // Quotations
+            'view quotations', 'create quotations', 'edit quotations',
+            
             // Invoice Management
             'view invoices', 'create invoices', 'download invoices',
             
@@ -210,7 +274,7 @@ private function createCashierRole()
             'view customers', 'create customers', 'edit customers',
             
             // Product Management (view only)
-            'view products',
+            'view products', 'view product categories',
         ];
         
         $role->givePermissionTo($permissions);
@@ -222,7 +286,7 @@ private function createProductionStaffRole()
         
         $permissions = [
             // Production Management
-            'view production', 'update production status',
+            'view production', 'update production status', 'view production queue', 'view print jobs',
             
             // Order Management (view only)
             'view orders',
@@ -251,4 +315,16 @@ private function createDeliveryCoordinatorRole()
         
         $role->givePermissionTo($permissions);
     }
-}
\ No newline at end of file
+
+    private function createDeliveryRiderRole()
+    {
+        $role = Role::firstOrCreate(['name' => 'Delivery Rider']);
+
+        $permissions = [
+            // Delivery Management (own deliveries only)
+            'view deliveries', 'update delivery status',
+        ];
+
+        $role->givePermissionTo($permissions);
+    }
+}
@@ -4,7 +4,29 @@ import { NavUser } from '@/components/nav-user';
 import { Sidebar, SidebarContent, SidebarFooter, SidebarHeader, SidebarMenu, SidebarMenuButton, SidebarMenuItem } from '@/components/ui/sidebar';
 import { type NavItem } from '@/types';
 import { Link } from '@inertiajs/react';
-import { BookOpen, Building, Folder, LayoutGrid, Monitor, PackageCheckIcon, Paperclip, Users, Users2 } from 'lucide-react';
+import {
+    BarChart3,
+    BookOpen,
+    Building,
+    ClipboardCheck,
+    Columns3,
+    Factory,
+    FileSignature,
+    Folder,
+    FolderTree,
+    LayoutGrid,
+    Monitor,
+    PackageCheckIcon,
+    Paperclip,
+    PiggyBank,
+    Repeat,
+    Tags,
+    Truck,
+    Users,
+    Users2,
+    Wallet,
+    Weight,
+} from 'lucide-react';
 import AppLogo from './app-logo';
 
 const mainNavItems: NavItem[] = [
@@ -18,7 +40,7 @@ const mainNavItems: NavItem[] = [
         href: '/users',
         icon: Users,
     },
-     {
+    {
         title: 'Company Management',
         href: '/companies',
         icon: Building,
@@ -34,25 +56,92 @@ const mainNavItems: NavItem[] = [
         href: '/products',
         icon: PackageCheckIcon,
     },
-     {
+    {
+        title: 'Product Categories',
+        href: '/product-categories',
+        icon: FolderTree,
+    },
+    {
+        title: 'Weight Pricing',
+        href: '/weight-pricing',
+        icon: Weight,
+    },
+    {
+        title: 'Price Lists',
+        href: '/price-lists',
+        icon: Tags,
+    },
+    {
         title: 'Customers Management',
         href: '/customers',
         icon: Users2,
     },
 
+    {
+        title: 'Quotations',
+        href: '/quotations',
+        icon: FileSignature,
+    },
+
     {
         title: 'Invoice Management',
         href: '/invoices',
         icon: Paperclip,
     },
 
+    {
+        title: 'Recurring Invoices',
+        href: '/recurring-invoices',
+        icon: Repeat,
+    },
+
+    {
+        title: 'Payments',
+        href: '/payments',
+        icon: Wallet,
+    },
+
+    {
+        title: 'Print Jobs',
+        href: '/production/print-jobs',
+        icon: Factory,
+    },
+
+    {
+        title: 'Production Board',
+        href: '/production/stages/kanban',
+        icon: Columns3,
+    },
+
+    {
+        title: 'Approvals',
+        href: '/production/stages/approvals',
+        icon: ClipboardCheck,
+    },
+
+    {
+        title: 'Deliveries',
+        href: '/deliveries',
+        icon: Truck,
+    },
+
     {
         title: 'Expense Management',
         href: '/expenses',
         icon: Monitor,
     },
 
-    
+    {
+        title: 'Expense Budgets',
+        href: '/expense-budgets',
+        icon: PiggyBank,
+    },
+
+    {
+        title: 'Reports',
+        href: '/reports',
+        icon: BarChart3,
+    },
 ];
 
 const footerNavItems: NavItem[] = [
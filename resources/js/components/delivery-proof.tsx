@@ -0,0 +1,71 @@
+import { mapsUrl } from '@/lib/deliveries';
+import { MapPin } from 'lucide-react';
+
+export interface DeliveryProofDetails {
+    recipient_name: string | null;
+    signature_url: string | null;
+    photo_url: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    accuracy: number | null;
+    captured_at: string | null;
+    captured_by: string | null;
+    customer_feedback: string | null;
+}
+
+/**
+ * Signature, photo and location captured when a delivery was handed over
+ */
+export default function DeliveryProof({ proof }: { proof: DeliveryProofDetails }) {
+    return (
+        <div className="space-y-4 text-sm">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+                <dt className="text-muted-foreground">Received by</dt>
+                <dd>{proof.recipient_name ?? '—'}</dd>
+                {proof.captured_at && (
+                    <>
+                        <dt className="text-muted-foreground">Recorded</dt>
+                        <dd>
+                            {new Date(proof.captured_at).toLocaleString()}
+                            {proof.captured_by && ` by ${proof.captured_by}`}
+                        </dd>
+                    </>
+                )}
+                {proof.latitude !== null && proof.longitude !== null && (
+                    <>
+                        <dt className="text-muted-foreground">Location</dt>
+                        <dd>
+                            <a
+                                href={mapsUrl(proof.latitude, proof.longitude)}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                            >
+                                <MapPin className="h-3 w-3" />
+                                {proof.latitude.toFixed(5)}, {proof.longitude.toFixed(5)}
+                            </a>
+                            {proof.accuracy !== null && <span className="text-xs text-muted-foreground"> (±{Math.round(proof.accuracy)} m)</span>}
+                        </dd>
+                    </>
+                )}
+            </dl>
+
+            {proof.customer_feedback && <p className="rounded-md bg-muted p-3 whitespace-pre-line">“{proof.customer_feedback}”</p>}
+
+            <div className="grid grid-cols-2 gap-4">
+                {proof.signature_url && (
+                    <div>
+                        <p className="mb-1 text-xs text-muted-foreground">Signature</p>
+                        <img src={proof.signature_url} alt="Recipient signature" className="w-full rounded-md border bg-white" />
+                    </div>
+                )}
+                {proof.photo_url && (
+                    <a href={proof.photo_url} target="_blank" rel="noreferrer">
+                        <p className="mb-1 text-xs text-muted-foreground">Photo</p>
+                        <img src={proof.photo_url} alt="Delivery photo" className="aspect-square w-full rounded-md border object-cover" />
+                    </a>
+                )}
+            </div>
+        </div>
+    );
+}
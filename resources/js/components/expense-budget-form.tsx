@@ -0,0 +1,280 @@
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MONTHS, type BudgetPeriod, type ExpenseBudget, type ExpenseBudgetFormOptions } from '@/lib/expense-budgets';
+import { Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, Loader2, Save } from 'lucide-react';
+import { FormEvent } from 'react';
+
+interface Props extends ExpenseBudgetFormOptions {
+    budget?: ExpenseBudget & { description: string | null };
+}
+
+type ExpenseBudgetFormData = {
+    budget_name: string;
+    description: string;
+    category_id: number | '';
+    branch_id: number | '';
+    budget_period: BudgetPeriod;
+    budget_year: string;
+    budget_month: string;
+    budget_quarter: string;
+    budget_amount: string;
+    alert_threshold: string;
+    send_alerts: boolean;
+};
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+/**
+ * Category, branch, period and alert settings for an expense budget
+ */
+export default function ExpenseBudgetForm({ categories, branches, periods, budget }: Props) {
+    const today = new Date();
+
+    const { data, setData, post, put, transform, processing, errors } = useForm<ExpenseBudgetFormData>({
+        budget_name: budget?.budget_name ?? '',
+        description: budget?.description ?? '',
+        category_id: budget?.category_id ?? '',
+        branch_id: budget?.branch_id ?? '',
+        budget_period: budget?.budget_period ?? 'monthly',
+        budget_year: String(budget?.budget_year ?? today.getFullYear()),
+        budget_month: String(budget?.budget_month ?? today.getMonth() + 1),
+        budget_quarter: String(budget?.budget_quarter ?? Math.floor(today.getMonth() / 3) + 1),
+        budget_amount: budget ? String(budget.budget_amount) : '',
+        alert_threshold: String(budget?.alert_threshold ?? 80),
+        send_alerts: budget?.send_alerts ?? true,
+    });
+
+    const formErrors = errors as Record<string, string>;
+
+    const submit = (e: FormEvent) => {
+        e.preventDefault();
+
+        transform((formData) => ({
+            ...formData,
+            branch_id: formData.branch_id || null,
+            budget_month: formData.budget_period === 'monthly' ? Number(formData.budget_month) : null,
+            budget_quarter: formData.budget_period === 'quarterly' ? Number(formData.budget_quarter) : null,
+        }));
+
+        if (budget) {
+            put(route('expense-budgets.update', budget.id), { preserveScroll: true });
+        } else {
+            post(route('expense-budgets.store'), { preserveScroll: true });
+        }
+    };
+
+    return (
+        <form onSubmit={submit} className="space-y-6">
+            {formErrors.error && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{formErrors.error}</AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Budget</CardTitle>
+                    <CardDescription>Approved and paid expenses in the category and period count against the budget.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div className="grid gap-1 md:col-span-2">
+                        <Label htmlFor="budget_name">Name *</Label>
+                        <Input
+                            id="budget_name"
+                            value={data.budget_name}
+                            maxLength={255}
+                            placeholder="e.g. Printing supplies – Colombo"
+                            onChange={(e) => setData('budget_name', e.target.value)}
+                        />
+                        <InputError message={errors.budget_name} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="category_id">Category *</Label>
+                        <select
+                            id="category_id"
+                            value={data.category_id}
+                            onChange={(e) => setData('category_id', e.target.value ? Number(e.target.value) : '')}
+                            className={selectClass}
+                        >
+                            <option value="">Select category</option>
+                            {categories.map((category) => (
+                                <option key={category.id} value={category.id}>
+                                    {category.name}
+                                    {category.code ? ` (${category.code})` : ''}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.category_id} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="branch_id">Branch</Label>
+                        <select
+                            id="branch_id"
+                            value={data.branch_id}
+                            onChange={(e) => setData('branch_id', e.target.value ? Number(e.target.value) : '')}
+                            className={selectClass}
+                        >
+                            <option value="">All branches</option>
+                            {branches.map((branch) => (
+                                <option key={branch.id} value={branch.id}>
+                                    {branch.name}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.branch_id} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="budget_period">Period *</Label>
+                        <select
+                            id="budget_period"
+                            value={data.budget_period}
+                            onChange={(e) => setData('budget_period', e.target.value as BudgetPeriod)}
+                            className={selectClass}
+                        >
+                            {Object.entries(periods).map(([value, label]) => (
+                                <option key={value} value={value}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.budget_period} />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="grid gap-1">
+                            <Label htmlFor="budget_year">Year *</Label>
+                            <Input
+                                id="budget_year"
+                                type="number"
+                                min="2000"
+                                max="2100"
+                                value={data.budget_year}
+                                onChange={(e) => setData('budget_year', e.target.value)}
+                            />
+                            <InputError message={errors.budget_year} />
+                        </div>
+
+                        {data.budget_period === 'monthly' && (
+                            <div className="grid gap-1">
+                                <Label htmlFor="budget_month">Month *</Label>
+                                <select
+                                    id="budget_month"
+                                    value={data.budget_month}
+                                    onChange={(e) => setData('budget_month', e.target.value)}
+                                    className={selectClass}
+                                >
+                                    {MONTHS.map((month, index) => (
+                                        <option key={month} value={index + 1}>
+                                            {month}
+                                        </option>
+                                    ))}
+                                </select>
+                                <InputError message={errors.budget_month} />
+                            </div>
+                        )}
+
+                        {data.budget_period === 'quarterly' && (
+                            <div className="grid gap-1">
+                                <Label htmlFor="budget_quarter">Quarter *</Label>
+                                <select
+                                    id="budget_quarter"
+                                    value={data.budget_quarter}
+                                    onChange={(e) => setData('budget_quarter', e.target.value)}
+                                    className={selectClass}
+                                >
+                                    {[1, 2, 3, 4].map((quarter) => (
+                                        <option key={quarter} value={quarter}>
+                                            Q{quarter}
+                                        </option>
+                                    ))}
+                                </select>
+                                <InputError message={errors.budget_quarter} />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="budget_amount">Amount (Rs.) *</Label>
+                        <Input
+                            id="budget_amount"
+                            type="number"
+                            min="0.01"
+                            step="0.01"
+                            value={data.budget_amount}
+                            placeholder="0.00"
+                            onChange={(e) => setData('budget_amount', e.target.value)}
+                        />
+                        <InputError message={errors.budget_amount} />
+                    </div>
+
+                    <div className="grid gap-1 md:col-span-2">
+                        <Label htmlFor="description">Description</Label>
+                        <Textarea
+                            id="description"
+                            rows={3}
+                            maxLength={1000}
+                            value={data.description}
+                            onChange={(e) => setData('description', e.target.value)}
+                        />
+                        <InputError message={errors.description} />
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Alerts</CardTitle>
+                    <CardDescription>Alert once when spending passes the threshold, and again if it goes over the budget.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div className="grid gap-1">
+                        <Label htmlFor="alert_threshold">Alert at (% of budget) *</Label>
+                        <Input
+                            id="alert_threshold"
+                            type="number"
+                            min="1"
+                            max="100"
+                            step="0.01"
+                            value={data.alert_threshold}
+                            onChange={(e) => setData('alert_threshold', e.target.value)}
+                        />
+                        <InputError message={errors.alert_threshold} />
+                    </div>
+
+                    <div className="flex items-start gap-2 pt-6">
+                        <Checkbox
+                            id="send_alerts"
+                            checked={data.send_alerts}
+                            onCheckedChange={(checked) => setData('send_alerts', checked === true)}
+                        />
+                        <div className="grid gap-1">
+                            <Label htmlFor="send_alerts">Send alerts</Label>
+                            <p className="text-xs text-muted-foreground">Notify the company when this budget passes its threshold.</p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" asChild>
+                    <Link href={budget ? route('expense-budgets.show', budget.id) : route('expense-budgets.index')}>Cancel</Link>
+                </Button>
+                <Button type="submit" disabled={processing}>
+                    {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    {budget ? 'Save Changes' : 'Create Budget'}
+                </Button>
+            </div>
+        </form>
+    );
+}
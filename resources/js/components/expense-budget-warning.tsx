@@ -0,0 +1,74 @@
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { money } from '@/lib/expense-budgets';
+import { AlertTriangle } from 'lucide-react';
+
+export interface ExpenseFormBudget {
+    id: number;
+    budget_name: string;
+    category_id: number;
+    branch_id: number | null;
+    start_date: string;
+    end_date: string;
+    budget_amount: number;
+    spent_amount: number;
+    alert_threshold: number;
+}
+
+interface Props {
+    budgets: ExpenseFormBudget[];
+    categoryId: string;
+    branchId: string;
+    expenseDate: string;
+    amount: string;
+}
+
+/**
+ * Warns while an expense is being entered if it would take a budget covering it past its threshold or amount
+ */
+export default function ExpenseBudgetWarning({ budgets, categoryId, branchId, expenseDate, amount }: Props) {
+    const value = parseFloat(amount) || 0;
+
+    if (!categoryId || !expenseDate || value <= 0) {
+        return null;
+    }
+
+    const warnings = budgets
+        .filter(
+            (budget) =>
+                String(budget.category_id) === categoryId &&
+                (budget.branch_id === null || String(budget.branch_id) === branchId) &&
+                budget.start_date <= expenseDate &&
+                budget.end_date >= expenseDate,
+        )
+        .map((budget) => {
+            const projected = Number(budget.spent_amount) + value;
+            const percentage = budget.budget_amount > 0 ? (projected / budget.budget_amount) * 100 : 0;
+
+            return { budget, projected, percentage };
+        })
+        .filter(({ percentage, budget }) => percentage >= budget.alert_threshold);
+
+    if (warnings.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-2">
+            {warnings.map(({ budget, projected, percentage }) => {
+                const exceeds = projected > budget.budget_amount;
+
+                return (
+                    <Alert key={budget.id} variant={exceeds ? 'destructive' : 'default'}>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                            {exceeds
+                                ? `This expense would exceed the "${budget.budget_name}" budget by ${money(projected - budget.budget_amount)}`
+                                : `This expense would bring the "${budget.budget_name}" budget to ${percentage.toFixed(0)}% of ${money(budget.budget_amount)}`}{' '}
+                            ({money(budget.spent_amount)} already approved or paid).
+                        </AlertDescription>
+                    </Alert>
+                );
+            })}
+        </div>
+    );
+}
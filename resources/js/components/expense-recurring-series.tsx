@@ -0,0 +1,134 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Link, router } from '@inertiajs/react';
+import { CalendarClock, Loader2, Repeat, StopCircle } from 'lucide-react';
+import { useState } from 'react';
+
+export interface RecurringExpenseOccurrence {
+    id: number;
+    expense_number: string;
+    expense_date: string;
+    amount: number;
+    status: string;
+    is_original: boolean;
+}
+
+export interface RecurringExpenseSeries {
+    root_id: number;
+    root_number: string;
+    recurring_period: string;
+    next_due_date: string | null;
+    auto_submit: boolean;
+    is_active: boolean;
+    occurrences: RecurringExpenseOccurrence[];
+    total_amount: number;
+}
+
+interface Props {
+    series: RecurringExpenseSeries;
+    currentExpenseId: number;
+    canStop: boolean;
+}
+
+const statusClass: Record<string, string> = {
+    draft: 'bg-gray-100 text-gray-800',
+    pending_approval: 'bg-yellow-100 text-yellow-800',
+    approved: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800',
+    paid: 'bg-blue-100 text-blue-800',
+    cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const money = (value: number) => `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+/**
+ * Every expense generated from the same recurring original, with the next scheduled date
+ */
+export default function ExpenseRecurringSeries({ series, currentExpenseId, canStop }: Props) {
+    const [stopping, setStopping] = useState(false);
+
+    const stop = () => {
+        if (confirm(`Stop the recurring series ${series.root_number}? Expenses already created are kept.`)) {
+            router.post(
+                route('expenses.stop-recurring', series.root_id),
+                {},
+                { preserveScroll: true, onStart: () => setStopping(true), onFinish: () => setStopping(false) },
+            );
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Repeat className="h-5 w-5" />
+                            Recurring Series
+                        </CardTitle>
+                        <CardDescription className="capitalize">
+                            {series.recurring_period} · {series.occurrences.length} {series.occurrences.length === 1 ? 'expense' : 'expenses'} ·{' '}
+                            {money(series.total_amount)} approved or paid
+                        </CardDescription>
+                    </div>
+                    {canStop && series.is_active && (
+                        <Button variant="outline" size="sm" onClick={stop} disabled={stopping}>
+                            {stopping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <StopCircle className="mr-2 h-4 w-4" />}
+                            Stop Series
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex items-center gap-2 rounded-md bg-muted/50 p-3 text-sm">
+                    <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                    {series.is_active && series.next_due_date ? (
+                        <span>
+                            Next expense on <span className="font-medium">{formatDate(series.next_due_date)}</span>, created as{' '}
+                            {series.auto_submit ? 'pending approval' : 'a draft'}
+                        </span>
+                    ) : (
+                        <span className="text-muted-foreground">This series has stopped; no further expenses will be created.</span>
+                    )}
+                </div>
+
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                            <th className="py-2">Expense #</th>
+                            <th className="py-2">Date</th>
+                            <th className="py-2">Status</th>
+                            <th className="py-2 text-right">Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {series.occurrences.map((occurrence) => (
+                            <tr key={occurrence.id} className={`border-b last:border-b-0 ${occurrence.id === currentExpenseId ? 'bg-muted/40' : ''}`}>
+                                <td className="py-2">
+                                    {occurrence.id === currentExpenseId ? (
+                                        <span className="font-mono font-medium">{occurrence.expense_number}</span>
+                                    ) : (
+                                        <Link href={route('expenses.show', occurrence.id)} className="font-mono hover:underline">
+                                            {occurrence.expense_number}
+                                        </Link>
+                                    )}
+                                    {occurrence.is_original && <span className="ml-2 text-xs text-muted-foreground">original</span>}
+                                </td>
+                                <td className="py-2">{formatDate(occurrence.expense_date)}</td>
+                                <td className="py-2">
+                                    <Badge className={statusClass[occurrence.status] ?? statusClass.draft}>
+                                        {occurrence.status.replace('_', ' ')}
+                                    </Badge>
+                                </td>
+                                <td className="py-2 text-right font-medium">{money(occurrence.amount)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </CardContent>
+        </Card>
+    );
+}
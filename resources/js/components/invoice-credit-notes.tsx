@@ -0,0 +1,504 @@
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { router, useForm } from '@inertiajs/react';
+import { AlertTriangle, Ban, Loader2, ReceiptText, Undo2 } from 'lucide-react';
+import { useState } from 'react';
+
+export interface InvoiceCreditNote {
+    id: number;
+    credit_note_number: string;
+    credit_date: string;
+    reason: string;
+    subtotal: number;
+    tax_amount: number;
+    amount: number;
+    status: 'issued' | 'void';
+    status_label: string;
+    created_by: string | null;
+    void_reason: string | null;
+    voided_by: string | null;
+    can_void: boolean;
+    items: { id: number; item_description: string; quantity: number; unit_price: number; line_total: number }[];
+    refunded_amount: number;
+}
+
+export interface CreditableItem {
+    id: number;
+    item_description: string;
+    quantity: number;
+    unit_price: number;
+    credited_quantity: number;
+    available_quantity: number;
+}
+
+interface Props {
+    invoice: { id: number; subtotal: number; weight_charge: number; discount_amount: number; tax_amount: number; total_amount: number };
+    creditNotes: InvoiceCreditNote[];
+    creditableItems: CreditableItem[];
+    refundableAmount: number;
+    paymentMethods: Record<string, string>;
+    canIssue: boolean;
+    canRefund: boolean;
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const money = (value: number) => `Rs. ${Number(value).toFixed(2)}`;
+
+/**
+ * Credit notes issued against an invoice, with dialogs to credit lines or an amount and to refund overpayments
+ */
+export default function InvoiceCreditNotes({ invoice, creditNotes, creditableItems, refundableAmount, paymentMethods, canIssue, canRefund }: Props) {
+    const [creditOpen, setCreditOpen] = useState(false);
+    const [refundOpen, setRefundOpen] = useState(false);
+    const [mode, setMode] = useState<'items' | 'amount'>('items');
+    const [quantities, setQuantities] = useState<Record<number, string>>({});
+
+    const totalCredited = creditNotes.filter((note) => note.status === 'issued').reduce((sum, note) => sum + note.amount, 0);
+    // Decimal columns arrive as strings
+    const creditable = Math.max(0, Math.round((Number(invoice.total_amount) - totalCredited) * 100) / 100);
+    const taxable = Number(invoice.subtotal) + Number(invoice.weight_charge) - Number(invoice.discount_amount);
+    const taxRate = taxable > 0 ? Number(invoice.tax_amount) / taxable : 0;
+
+    const creditForm = useForm({
+        reason: '',
+        notes: '',
+        amount: '',
+        refund: false as boolean,
+        refund_method: 'cash',
+        refund_reference: '',
+    });
+
+    const refundForm = useForm({
+        amount: '',
+        payment_method: 'cash',
+        transaction_id: '',
+        credit_note_id: '',
+        notes: '',
+    });
+
+    const itemsSubtotal = creditableItems.reduce((sum, item) => sum + (Number(quantities[item.id]) || 0) * item.unit_price, 0);
+    const estimatedCredit = mode === 'items' ? itemsSubtotal * (1 + taxRate) : Number(creditForm.data.amount) || 0;
+
+    const openCredit = () => {
+        creditForm.reset();
+        creditForm.clearErrors();
+        setQuantities({});
+        setMode(creditableItems.some((item) => item.available_quantity > 0) ? 'items' : 'amount');
+        setCreditOpen(true);
+    };
+
+    const openRefund = (creditNoteId?: number) => {
+        refundForm.reset();
+        refundForm.clearErrors();
+        refundForm.setData((data) => ({
+            ...data,
+            amount: refundableAmount.toFixed(2),
+            credit_note_id: creditNoteId ? String(creditNoteId) : '',
+        }));
+        setRefundOpen(true);
+    };
+
+    const submitCredit = () => {
+        creditForm.transform((data) => ({
+            ...data,
+            amount: mode === 'amount' ? data.amount : null,
+            items:
+                mode === 'items'
+                    ? creditableItems
+                          .filter((item) => Number(quantities[item.id]) > 0)
+                          .map((item) => ({ invoice_item_id: item.id, quantity: Number(quantities[item.id]) }))
+                    : [],
+        }));
+        creditForm.post(route('invoices.credit-notes.store', invoice.id), {
+            preserveScroll: true,
+            onSuccess: () => setCreditOpen(false),
+        });
+    };
+
+    const submitRefund = () => {
+        refundForm.post(route('invoices.refunds.store', invoice.id), {
+            preserveScroll: true,
+            onSuccess: () => setRefundOpen(false),
+        });
+    };
+
+    const voidCreditNote = (creditNote: InvoiceCreditNote) => {
+        const reason = prompt(`Why is ${creditNote.credit_note_number} being voided?`);
+
+        if (reason) {
+            router.patch(route('credit-notes.void', creditNote.id), { void_reason: reason }, { preserveScroll: true });
+        }
+    };
+
+    const creditErrors = creditForm.errors as Record<string, string>;
+    const refundErrors = refundForm.errors as Record<string, string>;
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                    <div>
+                        <CardTitle className="flex items-center">
+                            <ReceiptText className="mr-2 h-5 w-5" />
+                            Credit Notes & Refunds
+                        </CardTitle>
+                        <CardDescription>
+                            {totalCredited > 0
+                                ? `${money(totalCredited)} credited of ${money(Number(invoice.total_amount))}`
+                                : 'Nothing credited on this invoice.'}
+                        </CardDescription>
+                    </div>
+                    <div className="flex gap-2">
+                        {canIssue && creditable > 0 && (
+                            <Button size="sm" variant="outline" onClick={openCredit}>
+                                Credit
+                            </Button>
+                        )}
+                        {canRefund && refundableAmount > 0 && (
+                            <Button size="sm" variant="outline" onClick={() => openRefund()}>
+                                <Undo2 className="mr-1 h-4 w-4" />
+                                Refund
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {refundableAmount > 0 && (
+                    <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{money(refundableAmount)} has been paid beyond what is owed and can be refunded.</AlertDescription>
+                    </Alert>
+                )}
+
+                {creditNotes.map((creditNote) => (
+                    <div key={creditNote.id} className={`rounded-lg border p-3 text-sm ${creditNote.status === 'void' ? 'opacity-60' : ''}`}>
+                        <div className="flex items-start justify-between gap-2">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="font-mono font-medium">{creditNote.credit_note_number}</span>
+                                    <Badge className={creditNote.status === 'void' ? 'bg-gray-100 text-gray-800' : 'bg-purple-100 text-purple-800'}>
+                                        {creditNote.status_label}
+                                    </Badge>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    {new Date(creditNote.credit_date).toLocaleDateString()}
+                                    {creditNote.created_by && ` by ${creditNote.created_by}`}
+                                </p>
+                            </div>
+                            <span className={`font-semibold ${creditNote.status === 'void' ? 'line-through' : ''}`}>-{money(creditNote.amount)}</span>
+                        </div>
+
+                        <p className="mt-2">{creditNote.reason}</p>
+
+                        {creditNote.items.length > 0 && (
+                            <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                                {creditNote.items.map((item) => (
+                                    <li key={item.id} className="flex justify-between">
+                                        <span>
+                                            {item.quantity} × {item.item_description}
+                                        </span>
+                                        <span>{money(item.line_total)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {creditNote.refunded_amount > 0 && (
+                            <p className="mt-2 text-xs text-green-700">Refunded {money(creditNote.refunded_amount)}</p>
+                        )}
+                        {creditNote.void_reason && (
+                            <p className="mt-2 text-xs text-muted-foreground">
+                                Voided{creditNote.voided_by && ` by ${creditNote.voided_by}`}: {creditNote.void_reason}
+                            </p>
+                        )}
+
+                        {creditNote.status === 'issued' && (
+                            <div className="mt-2 flex gap-2">
+                                {canRefund && refundableAmount > 0 && (
+                                    <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => openRefund(creditNote.id)}>
+                                        <Undo2 className="mr-1 h-3 w-3" />
+                                        Refund
+                                    </Button>
+                                )}
+                                {canIssue && creditNote.can_void && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-7 px-2 text-xs text-red-600"
+                                        onClick={() => voidCreditNote(creditNote)}
+                                    >
+                                        <Ban className="mr-1 h-3 w-3" />
+                                        Void
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </CardContent>
+
+            <Dialog open={creditOpen} onOpenChange={setCreditOpen}>
+                <DialogContent className="sm:max-w-xl">
+                    <DialogHeader>
+                        <DialogTitle>Issue Credit Note</DialogTitle>
+                        <DialogDescription>Up to {money(creditable)} of this invoice can still be credited.</DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        {creditErrors.error && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>{creditErrors.error}</AlertDescription>
+                            </Alert>
+                        )}
+
+                        <div className="flex gap-2">
+                            <Button size="sm" variant={mode === 'items' ? 'default' : 'outline'} onClick={() => setMode('items')}>
+                                Credit items
+                            </Button>
+                            <Button size="sm" variant={mode === 'amount' ? 'default' : 'outline'} onClick={() => setMode('amount')}>
+                                Credit an amount
+                            </Button>
+                        </div>
+
+                        {mode === 'items' ? (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-xs text-muted-foreground">
+                                        <th className="py-1">Item</th>
+                                        <th className="py-1 text-right">Unit price</th>
+                                        <th className="w-28 py-1 text-right">Quantity</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {creditableItems.map((item) => (
+                                        <tr key={item.id} className="border-b last:border-0">
+                                            <td className="py-2">
+                                                {item.item_description}
+                                                <span className="block text-xs text-muted-foreground">
+                                                    {item.available_quantity} of {item.quantity} left to credit
+                                                </span>
+                                            </td>
+                                            <td className="py-2 text-right">{money(item.unit_price)}</td>
+                                            <td className="py-2">
+                                                <Input
+                                                    type="number"
+                                                    min="0"
+                                                    max={item.available_quantity}
+                                                    step="0.01"
+                                                    className="text-right"
+                                                    disabled={item.available_quantity <= 0}
+                                                    value={quantities[item.id] ?? ''}
+                                                    onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                                                />
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <div className="grid gap-2">
+                                <Label htmlFor="credit_amount">Amount (including tax)</Label>
+                                <Input
+                                    id="credit_amount"
+                                    type="number"
+                                    min="0.01"
+                                    max={creditable}
+                                    step="0.01"
+                                    value={creditForm.data.amount}
+                                    onChange={(e) => creditForm.setData('amount', e.target.value)}
+                                />
+                            </div>
+                        )}
+                        <InputError message={creditErrors.amount} />
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="credit_reason">Reason</Label>
+                            <Input
+                                id="credit_reason"
+                                value={creditForm.data.reason}
+                                onChange={(e) => creditForm.setData('reason', e.target.value)}
+                                placeholder="Misprint, damaged in delivery, goodwill..."
+                            />
+                            <InputError message={creditErrors.reason} />
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label htmlFor="credit_notes">Notes</Label>
+                            <Textarea
+                                id="credit_notes"
+                                rows={2}
+                                value={creditForm.data.notes}
+                                onChange={(e) => creditForm.setData('notes', e.target.value)}
+                            />
+                        </div>
+
+                        {canRefund && (
+                            <div className="space-y-3 rounded-lg border p-3">
+                                <div className="flex items-center gap-2">
+                                    <Checkbox
+                                        id="credit_refund"
+                                        checked={creditForm.data.refund}
+                                        onCheckedChange={(checked) => creditForm.setData('refund', checked === true)}
+                                    />
+                                    <Label htmlFor="credit_refund">Refund any overpayment to the customer now</Label>
+                                </div>
+                                {creditForm.data.refund && (
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div className="grid gap-1">
+                                            <Label htmlFor="refund_method">Refund method</Label>
+                                            <select
+                                                id="refund_method"
+                                                className={selectClass}
+                                                value={creditForm.data.refund_method}
+                                                onChange={(e) => creditForm.setData('refund_method', e.target.value)}
+                                            >
+                                                {Object.entries(paymentMethods).map(([value, label]) => (
+                                                    <option key={value} value={value}>
+                                                        {label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={creditErrors.refund_method} />
+                                        </div>
+                                        <div className="grid gap-1">
+                                            <Label htmlFor="refund_reference">Reference</Label>
+                                            <Input
+                                                id="refund_reference"
+                                                value={creditForm.data.refund_reference}
+                                                onChange={(e) => creditForm.setData('refund_reference', e.target.value)}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="flex justify-between rounded-lg bg-muted/50 p-3 text-sm">
+                            <span>Credit{mode === 'items' && taxRate > 0 ? ' incl. tax' : ''}</span>
+                            <span className={`font-semibold ${estimatedCredit > creditable ? 'text-red-600' : ''}`}>{money(estimatedCredit)}</span>
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setCreditOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={submitCredit} disabled={creditForm.processing || estimatedCredit <= 0}>
+                            {creditForm.processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Issue Credit Note
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={refundOpen} onOpenChange={setRefundOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Refund Customer</DialogTitle>
+                        <DialogDescription>Up to {money(refundableAmount)} can be paid back on this invoice.</DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        {refundErrors.error && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>{refundErrors.error}</AlertDescription>
+                            </Alert>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="grid gap-1">
+                                <Label htmlFor="refund_amount">Amount</Label>
+                                <Input
+                                    id="refund_amount"
+                                    type="number"
+                                    min="0.01"
+                                    max={refundableAmount}
+                                    step="0.01"
+                                    value={refundForm.data.amount}
+                                    onChange={(e) => refundForm.setData('amount', e.target.value)}
+                                />
+                                <InputError message={refundErrors.amount} />
+                            </div>
+                            <div className="grid gap-1">
+                                <Label htmlFor="refund_payment_method">Method</Label>
+                                <select
+                                    id="refund_payment_method"
+                                    className={selectClass}
+                                    value={refundForm.data.payment_method}
+                                    onChange={(e) => refundForm.setData('payment_method', e.target.value)}
+                                >
+                                    {Object.entries(paymentMethods).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                                <InputError message={refundErrors.payment_method} />
+                            </div>
+                        </div>
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="refund_credit_note">For credit note</Label>
+                            <select
+                                id="refund_credit_note"
+                                className={selectClass}
+                                value={refundForm.data.credit_note_id}
+                                onChange={(e) => refundForm.setData('credit_note_id', e.target.value)}
+                            >
+                                <option value="">Overpayment (no credit note)</option>
+                                {creditNotes
+                                    .filter((note) => note.status === 'issued')
+                                    .map((note) => (
+                                        <option key={note.id} value={note.id}>
+                                            {note.credit_note_number} ({money(note.amount)})
+                                        </option>
+                                    ))}
+                            </select>
+                        </div>
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="refund_transaction">Transaction reference</Label>
+                            <Input
+                                id="refund_transaction"
+                                value={refundForm.data.transaction_id}
+                                onChange={(e) => refundForm.setData('transaction_id', e.target.value)}
+                            />
+                        </div>
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="refund_notes">Notes</Label>
+                            <Textarea
+                                id="refund_notes"
+                                rows={2}
+                                value={refundForm.data.notes}
+                                onChange={(e) => refundForm.setData('notes', e.target.value)}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setRefundOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={submitRefund} disabled={refundForm.processing}>
+                            {refundForm.processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Record Refund
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,213 @@
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { router, useForm } from '@inertiajs/react';
+import { AlertTriangle, Loader2, Mail, RotateCw, Send } from 'lucide-react';
+import { useState } from 'react';
+
+export type InvoiceEmailStatus = 'queued' | 'sent' | 'failed';
+
+export interface InvoiceEmail {
+    id: number;
+    recipient: string;
+    subject: string;
+    status: InvoiceEmailStatus;
+    status_label: string;
+    error: string | null;
+    sent_by: string | null;
+    is_resend: boolean;
+    created_at: string;
+    sent_at: string | null;
+}
+
+export type InvoiceEmailDraft = {
+    recipient: string;
+    subject: string;
+    body: string;
+};
+
+interface Props {
+    invoiceId: number;
+    emails: InvoiceEmail[];
+    draft: InvoiceEmailDraft;
+    canSend: boolean;
+}
+
+const statusStyles: Record<InvoiceEmailStatus, string> = {
+    queued: 'bg-yellow-100 text-yellow-800',
+    sent: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Send log of an invoice, with a dialog to email the PDF and a resend action per entry
+ */
+export default function InvoiceEmails({ invoiceId, emails, draft, canSend }: Props) {
+    const [open, setOpen] = useState(false);
+    const [resendingId, setResendingId] = useState<number | null>(null);
+
+    const form = useForm<InvoiceEmailDraft>(draft);
+    const formErrors = form.errors as Record<string, string>;
+
+    const openSend = () => {
+        form.setData(draft);
+        form.clearErrors();
+        setOpen(true);
+    };
+
+    const submit = () => {
+        form.post(route('invoices.send', invoiceId), {
+            preserveScroll: true,
+            onSuccess: () => setOpen(false),
+        });
+    };
+
+    const resend = (email: InvoiceEmail) => {
+        if (!confirm(`Send this invoice to ${email.recipient} again?`)) {
+            return;
+        }
+
+        setResendingId(email.id);
+        router.post(
+            route('invoices.emails.resend', { id: invoiceId, emailId: email.id }),
+            {},
+            {
+                preserveScroll: true,
+                onFinish: () => setResendingId(null),
+            },
+        );
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                    <div>
+                        <CardTitle className="flex items-center">
+                            <Mail className="mr-2 h-5 w-5" />
+                            Emails
+                        </CardTitle>
+                        <CardDescription>
+                            {emails.length > 0 ? `Emailed ${emails.length} time${emails.length === 1 ? '' : 's'}` : 'Not emailed yet.'}
+                        </CardDescription>
+                    </div>
+                    {canSend && (
+                        <Button size="sm" variant="outline" onClick={openSend}>
+                            <Send className="mr-1 h-4 w-4" />
+                            Email
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            {emails.length > 0 && (
+                <CardContent className="space-y-3">
+                    {emails.map((email) => (
+                        <div key={email.id} className="rounded-lg border p-3 text-sm">
+                            <div className="flex items-start justify-between gap-2">
+                                <div className="min-w-0">
+                                    <p className="truncate font-medium">{email.recipient}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {new Date(email.sent_at ?? email.created_at).toLocaleString()}
+                                        {email.sent_by ? ` by ${email.sent_by}` : ' automatically'}
+                                        {email.is_resend && ' · resend'}
+                                    </p>
+                                </div>
+                                <Badge className={statusStyles[email.status]}>{email.status_label}</Badge>
+                            </div>
+
+                            <p className="mt-2 truncate text-xs text-muted-foreground">{email.subject}</p>
+
+                            {email.error && <p className="mt-2 text-xs text-red-600">{email.error}</p>}
+
+                            {canSend && email.status !== 'queued' && (
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="mt-2 h-7 px-2 text-xs"
+                                    disabled={resendingId !== null}
+                                    onClick={() => resend(email)}
+                                >
+                                    {resendingId === email.id ? (
+                                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                                    ) : (
+                                        <RotateCw className="mr-1 h-3 w-3" />
+                                    )}
+                                    Resend
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                </CardContent>
+            )}
+
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent className="sm:max-w-xl">
+                    <DialogHeader>
+                        <DialogTitle>Email Invoice</DialogTitle>
+                        <DialogDescription>The invoice PDF is attached to the email.</DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        {formErrors.error && (
+                            <Alert variant="destructive">
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>{formErrors.error}</AlertDescription>
+                            </Alert>
+                        )}
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="email_recipient">To *</Label>
+                            <Input
+                                id="email_recipient"
+                                type="email"
+                                value={form.data.recipient}
+                                placeholder="customer@example.com"
+                                onChange={(e) => form.setData('recipient', e.target.value)}
+                            />
+                            <InputError message={form.errors.recipient} />
+                        </div>
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="email_subject">Subject</Label>
+                            <Input
+                                id="email_subject"
+                                value={form.data.subject}
+                                maxLength={255}
+                                onChange={(e) => form.setData('subject', e.target.value)}
+                            />
+                            <InputError message={form.errors.subject} />
+                        </div>
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="email_body">Message</Label>
+                            <Textarea
+                                id="email_body"
+                                rows={8}
+                                maxLength={5000}
+                                value={form.data.body}
+                                onChange={(e) => form.setData('body', e.target.value)}
+                            />
+                            <InputError message={form.errors.body} />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={submit} disabled={form.processing || !form.data.recipient}>
+                            {form.processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                            Send
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,162 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChevronDown, ChevronRight, History, ShieldAlert } from 'lucide-react';
+import { useState } from 'react';
+
+type FieldValue = string | number | null;
+
+type LineValues = { quantity: number; unit_price: number; line_total: number };
+
+export interface InvoiceRevision {
+    id: number;
+    revision_number: number;
+    user: string | null;
+    created_at: string;
+    changes: Record<string, { from: FieldValue; to: FieldValue }>;
+    item_changes: {
+        action: 'added' | 'removed' | 'changed';
+        product_id: number;
+        item_description: string;
+        from: LineValues | null;
+        to: LineValues | null;
+    }[];
+    old_total: number;
+    new_total: number;
+    lock_reason: string | null;
+    note: string | null;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    due_date: 'Due date',
+    status: 'Status',
+    discount_amount: 'Discount',
+    notes: 'Notes',
+    terms_conditions: 'Terms & conditions',
+    subtotal: 'Subtotal',
+    weight_charge: 'Weight charge',
+    tax_amount: 'Tax',
+    total_amount: 'Total',
+};
+
+const MONEY_FIELDS = ['discount_amount', 'subtotal', 'weight_charge', 'tax_amount', 'total_amount'];
+
+const actionStyles = {
+    added: 'bg-green-100 text-green-800',
+    removed: 'bg-red-100 text-red-800',
+    changed: 'bg-blue-100 text-blue-800',
+};
+
+const money = (value: number) => `Rs. ${Number(value).toFixed(2)}`;
+
+const displayField = (field: string, value: FieldValue) => {
+    if (value === null || value === '') {
+        return '—';
+    }
+
+    return MONEY_FIELDS.includes(field) ? money(Number(value)) : String(value);
+};
+
+const displayLine = (line: LineValues) => `${line.quantity} × ${money(line.unit_price)} = ${money(line.line_total)}`;
+
+/**
+ * Saved edits to an invoice, newest first, each expandable to the fields and lines it changed
+ */
+export default function InvoiceRevisionHistory({ revisions }: { revisions: InvoiceRevision[] }) {
+    const [expanded, setExpanded] = useState<number | null>(revisions[0]?.id ?? null);
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center">
+                    <History className="mr-2 h-5 w-5" />
+                    Revision History
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {revisions.map((revision) => {
+                    const difference = revision.new_total - revision.old_total;
+                    const isOpen = expanded === revision.id;
+
+                    return (
+                        <div key={revision.id} className="rounded-lg border">
+                            <Button
+                                variant="ghost"
+                                className="flex h-auto w-full items-start justify-between gap-2 p-3 text-left"
+                                onClick={() => setExpanded(isOpen ? null : revision.id)}
+                            >
+                                <span className="flex items-start gap-2">
+                                    {isOpen ? <ChevronDown className="mt-0.5 h-4 w-4" /> : <ChevronRight className="mt-0.5 h-4 w-4" />}
+                                    <span>
+                                        <span className="block font-medium">Revision {revision.revision_number}</span>
+                                        <span className="block text-xs font-normal text-muted-foreground">
+                                            {new Date(revision.created_at).toLocaleString()}
+                                            {revision.user && ` by ${revision.user}`}
+                                        </span>
+                                    </span>
+                                </span>
+                                <span className="text-right text-sm">
+                                    <span className="block">
+                                        {money(revision.old_total)} → {money(revision.new_total)}
+                                    </span>
+                                    {difference !== 0 && (
+                                        <span className={`block text-xs ${difference > 0 ? 'text-green-700' : 'text-red-600'}`}>
+                                            {difference > 0 ? '+' : '-'}
+                                            {money(Math.abs(difference))}
+                                        </span>
+                                    )}
+                                </span>
+                            </Button>
+
+                            {isOpen && (
+                                <div className="space-y-3 border-t p-3 text-sm">
+                                    {revision.lock_reason && (
+                                        <div className="flex items-center gap-2 text-amber-700">
+                                            <ShieldAlert className="h-4 w-4" />
+                                            Edited with lock override: {revision.lock_reason}
+                                        </div>
+                                    )}
+                                    {revision.note && <p className="text-muted-foreground italic">"{revision.note}"</p>}
+
+                                    {Object.keys(revision.changes).length > 0 && (
+                                        <table className="w-full">
+                                            <tbody>
+                                                {Object.entries(revision.changes).map(([field, change]) => (
+                                                    <tr key={field} className="border-b align-top last:border-0">
+                                                        <td className="py-1 pr-2 text-muted-foreground">{FIELD_LABELS[field] ?? field}</td>
+                                                        <td className="py-1">
+                                                            <span className="text-red-600 line-through">{displayField(field, change.from)}</span>{' '}
+                                                            <span className="text-green-700">{displayField(field, change.to)}</span>
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+
+                                    {revision.item_changes.length > 0 && (
+                                        <div className="space-y-1">
+                                            <p className="text-xs font-medium text-muted-foreground uppercase">Line items</p>
+                                            {revision.item_changes.map((change, index) => (
+                                                <div key={index} className="flex flex-wrap items-center gap-2">
+                                                    <Badge className={actionStyles[change.action]}>{change.action}</Badge>
+                                                    <span className="font-medium">{change.item_description}</span>
+                                                    {change.from && (
+                                                        <span className={change.to ? 'text-red-600 line-through' : 'text-red-600'}>
+                                                            {displayLine(change.from)}
+                                                        </span>
+                                                    )}
+                                                    {change.to && <span className="text-green-700">{displayLine(change.to)}</span>}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,221 @@
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { money, needsBankName, needsChequeNumber, needsGatewayReference } from '@/lib/payments';
+import { Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, Loader2, Save } from 'lucide-react';
+import { FormEvent } from 'react';
+
+export interface EditablePayment {
+    id: number;
+    payment_reference: string;
+    payment_date: string;
+    amount: number;
+    payment_method: string;
+    bank_name: string | null;
+    transaction_id: string | null;
+    gateway_reference: string | null;
+    cheque_number: string | null;
+    notes: string | null;
+    has_receipt: boolean;
+}
+
+interface Props {
+    paymentMethods: Record<string, string>;
+    invoiceId?: number;
+    // Remaining balance of the invoice, when recording a new payment
+    maxAmount?: number;
+    payment?: EditablePayment;
+}
+
+type PaymentFormData = {
+    invoice_id: number | '';
+    amount: string;
+    payment_date: string;
+    payment_method: string;
+    bank_name: string;
+    transaction_id: string;
+    gateway_reference: string;
+    cheque_number: string;
+    notes: string;
+    receipt_image: File | null;
+};
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+/**
+ * Amount, method details and receipt upload for recording or correcting a payment
+ */
+export default function PaymentForm({ paymentMethods, invoiceId, maxAmount, payment }: Props) {
+    const { data, setData, post, transform, processing, errors } = useForm<PaymentFormData>({
+        invoice_id: invoiceId ?? '',
+        amount: payment ? String(payment.amount) : maxAmount ? maxAmount.toFixed(2) : '',
+        payment_date: payment?.payment_date ?? new Date().toISOString().split('T')[0],
+        payment_method: payment?.payment_method ?? 'cash',
+        bank_name: payment?.bank_name ?? '',
+        transaction_id: payment?.transaction_id ?? '',
+        gateway_reference: payment?.gateway_reference ?? '',
+        cheque_number: payment?.cheque_number ?? '',
+        notes: payment?.notes ?? '',
+        receipt_image: null,
+    });
+
+    const formErrors = errors as Record<string, string>;
+
+    const submit = (e: FormEvent) => {
+        e.preventDefault();
+
+        if (payment) {
+            // Files only go up with POST, so the update is spoofed as PUT
+            transform((formData) => ({ ...formData, _method: 'put' }));
+            post(route('payments.update', payment.id), { forceFormData: true, preserveScroll: true });
+        } else {
+            post(route('payments.store'), { forceFormData: true, preserveScroll: true });
+        }
+    };
+
+    return (
+        <form onSubmit={submit} className="space-y-6">
+            {formErrors.error && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{formErrors.error}</AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Payment</CardTitle>
+                    <CardDescription>
+                        {maxAmount !== undefined
+                            ? `Up to ${money(maxAmount)} is still owed on this invoice.`
+                            : 'Only pending payments can be changed.'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    <div className="grid gap-1">
+                        <Label htmlFor="amount">Amount (Rs.) *</Label>
+                        <Input
+                            id="amount"
+                            type="number"
+                            min="0.01"
+                            step="0.01"
+                            max={maxAmount}
+                            value={data.amount}
+                            onChange={(e) => setData('amount', e.target.value)}
+                        />
+                        <InputError message={errors.amount} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="payment_date">Payment date *</Label>
+                        <Input
+                            id="payment_date"
+                            type="date"
+                            max={new Date().toISOString().split('T')[0]}
+                            value={data.payment_date}
+                            onChange={(e) => setData('payment_date', e.target.value)}
+                        />
+                        <InputError message={errors.payment_date} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="payment_method">Method *</Label>
+                        <select
+                            id="payment_method"
+                            value={data.payment_method}
+                            onChange={(e) => setData('payment_method', e.target.value)}
+                            className={selectClass}
+                        >
+                            {Object.entries(paymentMethods).map(([value, label]) => (
+                                <option key={value} value={value}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.payment_method} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="transaction_id">Transaction ID</Label>
+                        <Input
+                            id="transaction_id"
+                            value={data.transaction_id}
+                            maxLength={100}
+                            onChange={(e) => setData('transaction_id', e.target.value)}
+                        />
+                        <InputError message={errors.transaction_id} />
+                    </div>
+
+                    {needsBankName(data.payment_method) && (
+                        <div className="grid gap-1">
+                            <Label htmlFor="bank_name">Bank *</Label>
+                            <Input id="bank_name" value={data.bank_name} maxLength={100} onChange={(e) => setData('bank_name', e.target.value)} />
+                            <InputError message={errors.bank_name} />
+                        </div>
+                    )}
+
+                    {needsChequeNumber(data.payment_method) && (
+                        <div className="grid gap-1">
+                            <Label htmlFor="cheque_number">Cheque number *</Label>
+                            <Input
+                                id="cheque_number"
+                                value={data.cheque_number}
+                                maxLength={50}
+                                onChange={(e) => setData('cheque_number', e.target.value)}
+                            />
+                            <InputError message={errors.cheque_number} />
+                        </div>
+                    )}
+
+                    {needsGatewayReference(data.payment_method) && (
+                        <div className="grid gap-1">
+                            <Label htmlFor="gateway_reference">Gateway reference *</Label>
+                            <Input
+                                id="gateway_reference"
+                                value={data.gateway_reference}
+                                maxLength={200}
+                                onChange={(e) => setData('gateway_reference', e.target.value)}
+                            />
+                            <InputError message={errors.gateway_reference} />
+                        </div>
+                    )}
+
+                    <div className="grid gap-1 md:col-span-2">
+                        <Label htmlFor="receipt_image">Receipt / bank slip</Label>
+                        <Input
+                            id="receipt_image"
+                            type="file"
+                            accept="image/jpeg,image/png"
+                            onChange={(e) => setData('receipt_image', e.target.files?.[0] ?? null)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            JPEG or PNG, up to 5MB.{payment?.has_receipt && ' Uploading a new file replaces the current receipt.'}
+                        </p>
+                        <InputError message={errors.receipt_image} />
+                    </div>
+
+                    <div className="grid gap-1 md:col-span-2">
+                        <Label htmlFor="notes">Notes</Label>
+                        <Textarea id="notes" rows={3} maxLength={1000} value={data.notes} onChange={(e) => setData('notes', e.target.value)} />
+                        <InputError message={errors.notes} />
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" asChild>
+                    <Link href={payment ? route('payments.show', payment.id) : route('payments.index')}>Cancel</Link>
+                </Button>
+                <Button type="submit" disabled={processing || (!payment && !data.invoice_id)}>
+                    {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                    {payment ? 'Save Changes' : 'Record Payment'}
+                </Button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,231 @@
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { HttpError, requestJson } from '@/lib/http';
+import { type PriceBreak } from '@/lib/product-pricing';
+import { Link } from '@inertiajs/react';
+import { AlertTriangle, Layers, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+export interface ProductPriceList {
+    id: number;
+    name: string;
+    customer_type: 'individual' | 'business' | null;
+    customers_count: number;
+    items: { min_quantity: number; unit_price: number }[];
+}
+
+interface Props {
+    productId: number;
+    basePrice: number;
+    priceBreaks: PriceBreak[];
+    priceLists: ProductPriceList[];
+    canEdit: boolean;
+    onSaved: (priceBreaks: PriceBreak[]) => void;
+}
+
+type DraftRow = { min_quantity: string; unit_price: string };
+
+const money = (value: number) => `Rs. ${Number(value).toFixed(2)}`;
+
+const rangeLabel = (tier: PriceBreak) => (tier.max_quantity ? `${tier.min_quantity} – ${tier.max_quantity} units` : `${tier.min_quantity}+ units`);
+
+const audienceLabel = (list: ProductPriceList) => {
+    if (list.customer_type) {
+        return `All ${list.customer_type} customers`;
+    }
+
+    return `${list.customers_count} assigned ${list.customers_count === 1 ? 'customer' : 'customers'}`;
+};
+
+/**
+ * Quantity price breaks for a product, with the customer price lists that override them
+ */
+export default function PriceBreaksCard({ productId, basePrice, priceBreaks, priceLists, canEdit, onSaved }: Props) {
+    const [editing, setEditing] = useState(false);
+    const [rows, setRows] = useState<DraftRow[]>([]);
+    const [processing, setProcessing] = useState(false);
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const startEditing = () => {
+        setRows(priceBreaks.map((tier) => ({ min_quantity: String(tier.min_quantity), unit_price: String(tier.unit_price) })));
+        setErrors([]);
+        setEditing(true);
+    };
+
+    const updateRow = (index: number, field: keyof DraftRow, value: string) => {
+        setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    };
+
+    const save = async () => {
+        setProcessing(true);
+        setErrors([]);
+
+        try {
+            const response = await requestJson<{ price_breaks: PriceBreak[] }>(route('products.price-breaks', productId), 'PUT', {
+                price_breaks: rows.map((row) => ({ min_quantity: Number(row.min_quantity), unit_price: Number(row.unit_price) })),
+            });
+
+            onSaved(response.price_breaks);
+            setEditing(false);
+        } catch (e) {
+            const fieldErrors = e instanceof HttpError ? (e.payload.errors as Record<string, string[]> | undefined) : undefined;
+
+            if (fieldErrors) {
+                setErrors([...new Set(Object.values(fieldErrors).flat())]);
+            } else {
+                setErrors([e instanceof Error ? e.message : 'Price breaks could not be saved.']);
+            }
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                    <div>
+                        <CardTitle className="flex items-center">
+                            <Layers className="mr-2 h-5 w-5" />
+                            Quantity Pricing
+                        </CardTitle>
+                        <CardDescription>Unit price drops as the ordered quantity grows. Customer price lists take priority.</CardDescription>
+                    </div>
+                    {canEdit && (
+                        <Button variant="outline" size="sm" onClick={startEditing}>
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit Breaks
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                        <span>Base price</span>
+                        <span className="font-medium">{money(basePrice)}</span>
+                    </div>
+                    {priceBreaks.map((tier) => (
+                        <div key={tier.min_quantity} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                            <Badge variant="outline">{rangeLabel(tier)}</Badge>
+                            <span className="font-medium">
+                                {money(tier.unit_price)}
+                                {basePrice > 0 && (
+                                    <span className="ml-2 text-xs text-green-700">
+                                        -{Math.round((1 - Number(tier.unit_price) / basePrice) * 100)}%
+                                    </span>
+                                )}
+                            </span>
+                        </div>
+                    ))}
+                    {priceBreaks.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No quantity breaks; every unit is charged the base price.</p>
+                    )}
+                </div>
+
+                {priceLists.length > 0 && (
+                    <div className="space-y-2">
+                        <h4 className="text-sm font-medium">Customer price lists</h4>
+                        {priceLists.map((list) => (
+                            <div key={list.id} className="rounded-lg border p-3 text-sm">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium">{list.name}</span>
+                                    <span className="text-xs text-muted-foreground">{audienceLabel(list)}</span>
+                                </div>
+                                <div className="mt-1 flex flex-wrap gap-2">
+                                    {list.items.map((item) => (
+                                        <Badge key={item.min_quantity} variant="secondary">
+                                            {item.min_quantity > 1 ? `${item.min_quantity}+: ` : ''}
+                                            {money(item.unit_price)}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <Link href={route('price-lists.index')} className="text-sm text-primary hover:underline">
+                    Manage customer price lists
+                </Link>
+            </CardContent>
+
+            <Dialog open={editing} onOpenChange={setEditing}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Quantity Price Breaks</DialogTitle>
+                        <DialogDescription>
+                            Each break applies from its starting quantity up to the next break. Quantities below the first break use the base price of{' '}
+                            {money(basePrice)}.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {errors.length > 0 && (
+                        <Alert variant="destructive">
+                            <AlertTriangle className="h-4 w-4" />
+                            <AlertDescription>
+                                {errors.map((message) => (
+                                    <div key={message}>{message}</div>
+                                ))}
+                            </AlertDescription>
+                        </Alert>
+                    )}
+
+                    <div className="space-y-2">
+                        {rows.length > 0 && (
+                            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+                                <Label>From quantity</Label>
+                                <Label>Unit price (Rs.)</Label>
+                                <span className="w-9" />
+                            </div>
+                        )}
+                        {rows.map((row, index) => (
+                            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                                <Input
+                                    type="number"
+                                    min="2"
+                                    value={row.min_quantity}
+                                    onChange={(e) => updateRow(index, 'min_quantity', e.target.value)}
+                                />
+                                <Input
+                                    type="number"
+                                    min="0.01"
+                                    step="0.01"
+                                    value={row.unit_price}
+                                    onChange={(e) => updateRow(index, 'unit_price', e.target.value)}
+                                />
+                                <Button variant="ghost" size="icon" onClick={() => setRows(rows.filter((_, i) => i !== index))}>
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={rows.length >= 10}
+                            onClick={() => setRows([...rows, { min_quantity: '', unit_price: '' }])}
+                        >
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add Break
+                        </Button>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditing(false)} disabled={processing}>
+                            Cancel
+                        </Button>
+                        <Button onClick={save} disabled={processing}>
+                            {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Save Breaks
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,268 @@
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { downloadCsv } from '@/lib/csv';
+import { requestJson } from '@/lib/http';
+import { router } from '@inertiajs/react';
+import { AlertTriangle, Download, Loader2, Upload } from 'lucide-react';
+import { useState } from 'react';
+
+type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+interface ImportRow {
+    row_number: number;
+    action: ImportAction;
+    product_id: number | null;
+    product_code: string | null;
+    name: string | null;
+    changes: Record<string, { from: string | number | null; to: string | number | null }>;
+    errors: string[];
+}
+
+interface ImportResult {
+    dry_run: boolean;
+    total_rows: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    failed: number;
+    rows: ImportRow[];
+}
+
+interface Props {
+    open: boolean;
+    onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    name: 'Name',
+    description: 'Description',
+    category_id: 'Category',
+    base_price: 'Base Price',
+    unit_type: 'Unit Type',
+    weight_per_unit: 'Weight',
+    weight_unit: 'Weight Unit',
+    tax_rate: 'Tax Rate',
+    status: 'Status',
+    minimum_quantity: 'Min Qty',
+    maximum_quantity: 'Max Qty',
+};
+
+const actionStyles: Record<ImportAction, { label: string; className: string }> = {
+    create: { label: 'New', className: 'bg-green-100 text-green-800' },
+    update: { label: 'Update', className: 'bg-blue-100 text-blue-800' },
+    unchanged: { label: 'No change', className: 'bg-gray-100 text-gray-800' },
+    error: { label: 'Error', className: 'bg-red-100 text-red-800' },
+};
+
+const display = (value: string | number | null) => (value === null || value === '' ? '—' : String(value));
+
+/**
+ * Upload a product CSV, preview the creates and updates it would make, then apply them
+ */
+export default function ProductImportDialog({ open, onClose }: Props) {
+    const [file, setFile] = useState<File | null>(null);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const reset = () => {
+        setFile(null);
+        setResult(null);
+        setError(null);
+    };
+
+    const close = () => {
+        if (result && !result.dry_run) {
+            router.reload({ only: ['products', 'stats'] });
+        }
+
+        reset();
+        onClose();
+    };
+
+    const submit = async (dryRun: boolean) => {
+        if (!file) {
+            return;
+        }
+
+        const body = new FormData();
+        body.append('file', file);
+        body.append('dry_run', dryRun ? '1' : '0');
+
+        setProcessing(true);
+        setError(null);
+
+        try {
+            setResult(await requestJson<ImportResult>(route('products.import'), 'POST', body));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Product import failed.');
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const downloadReport = () => {
+        if (!result) {
+            return;
+        }
+
+        downloadCsv(`product-import-${result.dry_run ? 'preview' : 'report'}-${new Date().toISOString().slice(0, 10)}.csv`, [
+            ['Row', 'Action', 'Product Code', 'Name', 'Changes', 'Errors'],
+            ...result.rows.map((row) => [
+                row.row_number,
+                actionStyles[row.action].label,
+                row.product_code,
+                row.name,
+                Object.entries(row.changes)
+                    .map(([field, change]) => `${FIELD_LABELS[field] ?? field}: ${display(change.from)} -> ${display(change.to)}`)
+                    .join('; '),
+                row.errors.join(' '),
+            ]),
+        ]);
+    };
+
+    const pending = result ? result.created + result.updated : 0;
+    const visibleRows = result?.rows.filter((row) => showUnchanged || row.action !== 'unchanged') ?? [];
+
+    return (
+        <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle>{result && !result.dry_run ? 'Import Complete' : 'Import Products'}</DialogTitle>
+                    <DialogDescription>
+                        Rows with an existing product code update that product; other rows create new products. Categories are matched by name or code
+                        and blank cells keep the current value.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {!result && (
+                    <div className="space-y-2">
+                        <Label htmlFor="product-import-file">CSV file</Label>
+                        <input
+                            id="product-import-file"
+                            type="file"
+                            accept=".csv,text/csv"
+                            className="block w-full text-sm file:mr-3 file:rounded-md file:border-0 file:bg-muted file:px-3 file:py-1.5"
+                            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            Use the Export file as a starting point. Columns: Product Code, Name, Description, Category, Base Price, Unit Type, Weight
+                            Per Unit, Weight Unit, Tax Rate, Minimum Quantity, Maximum Quantity, Status.
+                        </p>
+                    </div>
+                )}
+
+                {result && (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap gap-2 text-sm">
+                            <Badge className={actionStyles.create.className}>
+                                {result.created} {result.dry_run ? 'to create' : 'created'}
+                            </Badge>
+                            <Badge className={actionStyles.update.className}>
+                                {result.updated} {result.dry_run ? 'to update' : 'updated'}
+                            </Badge>
+                            <Badge className={actionStyles.unchanged.className}>{result.unchanged} unchanged</Badge>
+                            <Badge className={actionStyles.error.className}>{result.failed} with errors</Badge>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <Checkbox id="show-unchanged" checked={showUnchanged} onCheckedChange={(checked) => setShowUnchanged(checked === true)} />
+                            <Label htmlFor="show-unchanged" className="text-sm font-normal">
+                                Show unchanged rows
+                            </Label>
+                        </div>
+
+                        {visibleRows.length === 0 ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">Every product already matches the file</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2 font-medium">Row</th>
+                                            <th className="py-2 font-medium">Product</th>
+                                            <th className="py-2 font-medium">Action</th>
+                                            <th className="py-2 font-medium">Changes</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {visibleRows.map((row) => (
+                                            <tr key={row.row_number} className="border-b align-top last:border-0">
+                                                <td className="py-2">{row.row_number}</td>
+                                                <td className="py-2">
+                                                    <div>{row.name ?? '—'}</div>
+                                                    <div className="font-mono text-xs text-muted-foreground">
+                                                        {row.product_code ?? 'code generated on import'}
+                                                    </div>
+                                                </td>
+                                                <td className="py-2">
+                                                    <Badge className={actionStyles[row.action].className}>{actionStyles[row.action].label}</Badge>
+                                                </td>
+                                                <td className="space-y-0.5 py-2">
+                                                    {row.errors.map((message) => (
+                                                        <div key={message} className="text-red-600">
+                                                            {message}
+                                                        </div>
+                                                    ))}
+                                                    {row.errors.length === 0 &&
+                                                        Object.entries(row.changes).map(([field, change]) => (
+                                                            <div key={field}>
+                                                                <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}: </span>
+                                                                {row.action === 'update' && (
+                                                                    <span className="text-red-600 line-through">{display(change.from)}</span>
+                                                                )}{' '}
+                                                                <span className="text-green-700">{display(change.to)}</span>
+                                                            </div>
+                                                        ))}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <DialogFooter className="gap-2">
+                    {result && (
+                        <Button variant="outline" onClick={downloadReport}>
+                            <Download className="mr-2 h-4 w-4" />
+                            Download Report
+                        </Button>
+                    )}
+                    {!result && (
+                        <Button onClick={() => submit(true)} disabled={!file || processing}>
+                            {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Preview Changes
+                        </Button>
+                    )}
+                    {result?.dry_run && (
+                        <>
+                            <Button variant="outline" onClick={reset} disabled={processing}>
+                                Choose Another File
+                            </Button>
+                            <Button onClick={() => submit(false)} disabled={pending === 0 || processing}>
+                                {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                                Apply {pending} Changes
+                            </Button>
+                        </>
+                    )}
+                    {result && !result.dry_run && <Button onClick={close}>Done</Button>}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
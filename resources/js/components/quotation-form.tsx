@@ -0,0 +1,534 @@
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { resolveUnitPrice, type CurrentPriceList, type PriceBreak, type PricingRule } from '@/lib/product-pricing';
+import { type QuotationDetails } from '@/lib/quotations';
+import { calculateWeightCharge, type WeightPricingTier } from '@/lib/weight-pricing';
+import { Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, Loader2, Package, Plus, Save, Trash2 } from 'lucide-react';
+import { FormEvent, useMemo, useState } from 'react';
+
+export interface QuotationFormCustomer {
+    value: number;
+    label: string;
+    display_name: string;
+    phone?: string;
+    customer_type?: string;
+    price_list_id?: number | null;
+}
+
+export interface QuotationFormProduct {
+    value: number;
+    label: string;
+    name: string;
+    base_price: number;
+    weight_per_unit: number;
+    weight_unit: string;
+    tax_rate: number;
+    unit_type: string;
+    pricing_tiers?: PriceBreak[];
+}
+
+export interface QuotationFormOptions {
+    customers: QuotationFormCustomer[];
+    products: QuotationFormProduct[];
+    branches: { value: number; label: string }[];
+    weight_pricing_tiers: WeightPricingTier[];
+    price_lists: CurrentPriceList[];
+}
+
+interface Props extends QuotationFormOptions {
+    quotation?: QuotationDetails;
+    defaultBranchId?: number | null;
+    defaultCustomerId?: number | null;
+    defaultValidUntil?: string;
+}
+
+interface Line {
+    key: string;
+    product_id: number | '';
+    item_description: string;
+    quantity: string;
+    unit_price: string;
+    unit_weight: string;
+    notes: string;
+    // Other specification keys carried over from the saved line
+    specifications: Record<string, unknown>;
+    // Rule behind the unit price; null once the price is typed in by hand
+    pricing_rule: PricingRule | null;
+    // Price already on the quotation being edited, kept until the line changes
+    saved_price: boolean;
+}
+
+type QuotationFormData = {
+    customer_id: number | '';
+    branch_id: number | '';
+    quotation_date: string;
+    valid_until: string;
+    discount_amount: string;
+    notes: string;
+    terms_conditions: string;
+};
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const money = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+const WEIGHT_TO_KG: Record<string, number> = { g: 0.001, grams: 0.001, lb: 0.453592, oz: 0.0283495 };
+
+const weightInKg = (product: QuotationFormProduct) => (Number(product.weight_per_unit) || 0) * (WEIGHT_TO_KG[product.weight_unit] ?? 1);
+
+let lineCounter = 0;
+const nextKey = () => `new-${++lineCounter}`;
+
+const emptyLine = (): Line => ({
+    key: nextKey(),
+    product_id: '',
+    item_description: '',
+    quantity: '1',
+    unit_price: '0',
+    unit_weight: '0',
+    notes: '',
+    specifications: {},
+    pricing_rule: null,
+    saved_price: false,
+});
+
+/**
+ * Customer, validity and priced line items for creating or editing a quotation
+ */
+export default function QuotationForm({
+    customers,
+    products,
+    branches,
+    weight_pricing_tiers,
+    price_lists,
+    quotation,
+    defaultBranchId,
+    defaultCustomerId,
+    defaultValidUntil,
+}: Props) {
+    const isEditing = quotation !== undefined;
+
+    const [lines, setLines] = useState<Line[]>(() =>
+        quotation
+            ? quotation.items.map((item) => {
+                  const { notes, ...specifications } = item.specifications ?? {};
+
+                  return {
+                      key: `saved-${item.id}`,
+                      product_id: item.product_id,
+                      item_description: item.item_description,
+                      quantity: String(item.quantity),
+                      unit_price: String(item.unit_price),
+                      unit_weight: String(item.unit_weight),
+                      notes: typeof notes === 'string' ? notes : '',
+                      specifications,
+                      pricing_rule: null,
+                      saved_price: true,
+                  };
+              })
+            : [emptyLine()],
+    );
+    const [lineError, setLineError] = useState<string | null>(null);
+
+    const { data, setData, post, put, transform, processing, errors } = useForm<QuotationFormData>({
+        customer_id: quotation?.customer_id ?? defaultCustomerId ?? '',
+        branch_id: quotation?.branch_id ?? defaultBranchId ?? '',
+        quotation_date: quotation?.quotation_date ?? new Date().toISOString().split('T')[0],
+        valid_until: quotation?.valid_until ?? defaultValidUntil ?? '',
+        discount_amount: quotation ? String(quotation.discount_amount) : '0',
+        notes: quotation?.notes ?? '',
+        terms_conditions: quotation?.terms_conditions ?? '',
+    });
+
+    const formErrors = errors as Record<string, string | undefined>;
+    const customer = customers.find((c) => c.value === Number(data.customer_id)) ?? null;
+
+    const priceLine = (line: Line, forCustomer: QuotationFormCustomer | null): Line => {
+        const product = products.find((p) => p.value === Number(line.product_id));
+        if (!product) {
+            return line;
+        }
+
+        const { unitPrice, rule } = resolveUnitPrice(product, parseFloat(line.quantity) || 0, forCustomer, price_lists);
+
+        return { ...line, unit_price: unitPrice.toString(), pricing_rule: rule, saved_price: false };
+    };
+
+    const updateLine = (key: string, changes: Partial<Line>) => {
+        setLines((current) =>
+            current.map((line) => {
+                if (line.key !== key) {
+                    return line;
+                }
+
+                const updated = { ...line, ...changes };
+
+                if (changes.product_id !== undefined) {
+                    const product = products.find((p) => p.value === Number(changes.product_id));
+                    updated.item_description = product?.name ?? '';
+                    updated.unit_weight = product ? weightInKg(product).toString() : '0';
+                    updated.specifications = {};
+
+                    return priceLine(updated, customer);
+                }
+
+                if (changes.unit_price !== undefined) {
+                    return { ...updated, pricing_rule: null, saved_price: false };
+                }
+
+                // Quantity changes can cross a price break, unless the price was set by hand
+                if (changes.quantity !== undefined && line.pricing_rule) {
+                    return priceLine(updated, customer);
+                }
+
+                return updated;
+            }),
+        );
+    };
+
+    const handleCustomerChange = (value: string) => {
+        const selected = customers.find((c) => c.value === Number(value)) ?? null;
+        setData('customer_id', value ? Number(value) : '');
+        setLines((current) => current.map((line) => (line.pricing_rule ? priceLine(line, selected) : line)));
+    };
+
+    const totals = useMemo(() => {
+        let subtotal = 0;
+        let totalWeight = 0;
+        let taxAmount = 0;
+
+        lines.forEach((line) => {
+            const product = products.find((p) => p.value === Number(line.product_id));
+            const lineTotal = (parseFloat(line.quantity) || 0) * (parseFloat(line.unit_price) || 0);
+
+            subtotal += lineTotal;
+            totalWeight += (parseFloat(line.quantity) || 0) * (parseFloat(line.unit_weight) || 0);
+            taxAmount += lineTotal * ((Number(product?.tax_rate) || 0) / 100);
+        });
+
+        const { tier, total: weightCharge } = calculateWeightCharge(weight_pricing_tiers, totalWeight);
+        const discount = parseFloat(data.discount_amount) || 0;
+
+        return { subtotal, totalWeight, weightCharge, tier, taxAmount, discount, total: subtotal + weightCharge + taxAmount - discount };
+    }, [lines, products, weight_pricing_tiers, data.discount_amount]);
+
+    const submit = (e: FormEvent) => {
+        e.preventDefault();
+
+        const filled = lines.filter((line) => line.product_id !== '');
+        if (filled.length === 0) {
+            setLineError('Add at least one product to the quotation.');
+            return;
+        }
+        if (filled.some((line) => (parseFloat(line.quantity) || 0) <= 0)) {
+            setLineError('Every line needs a quantity greater than zero.');
+            return;
+        }
+        setLineError(null);
+
+        transform((formData) => ({
+            ...formData,
+            items: filled.map((line) => ({
+                product_id: Number(line.product_id),
+                item_description: line.item_description,
+                quantity: parseFloat(line.quantity),
+                unit_price: parseFloat(line.unit_price) || 0,
+                unit_weight: parseFloat(line.unit_weight) || 0,
+                specifications: { ...line.specifications, ...(line.notes.trim() ? { notes: line.notes.trim() } : {}) },
+            })),
+        }));
+
+        if (quotation) {
+            put(route('quotations.update', quotation.id), { preserveScroll: true });
+        } else {
+            post(route('quotations.store'), { preserveScroll: true });
+        }
+    };
+
+    const firstItemError = Object.entries(formErrors).find(([field]) => field.startsWith('items'))?.[1];
+
+    return (
+        <form onSubmit={submit} className="space-y-6">
+            {(formErrors.error || lineError || firstItemError) && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{formErrors.error ?? lineError ?? firstItemError}</AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Quotation Details</CardTitle>
+                    <CardDescription>
+                        {isEditing
+                            ? 'Customer and branch are fixed once a quotation is numbered.'
+                            : 'Prices follow the customer’s price list and quantity breaks, like invoices.'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                    <div className="grid gap-1 lg:col-span-2">
+                        <Label htmlFor="customer_id">Customer *</Label>
+                        <select
+                            id="customer_id"
+                            value={data.customer_id}
+                            onChange={(e) => handleCustomerChange(e.target.value)}
+                            disabled={isEditing}
+                            className={selectClass}
+                        >
+                            <option value="">Select customer</option>
+                            {customers.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.customer_id} />
+                    </div>
+
+                    <div className="grid gap-1 lg:col-span-2">
+                        <Label htmlFor="branch_id">Branch *</Label>
+                        <select
+                            id="branch_id"
+                            value={data.branch_id}
+                            onChange={(e) => setData('branch_id', e.target.value ? Number(e.target.value) : '')}
+                            disabled={isEditing}
+                            className={selectClass}
+                        >
+                            <option value="">Select branch</option>
+                            {branches.map((branch) => (
+                                <option key={branch.value} value={branch.value}>
+                                    {branch.label}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.branch_id} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="quotation_date">Quotation date</Label>
+                        <Input
+                            id="quotation_date"
+                            type="date"
+                            value={data.quotation_date}
+                            onChange={(e) => setData('quotation_date', e.target.value)}
+                            disabled={isEditing}
+                        />
+                        <InputError message={errors.quotation_date} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="valid_until">Valid until *</Label>
+                        <Input id="valid_until" type="date" value={data.valid_until} onChange={(e) => setData('valid_until', e.target.value)} />
+                        <InputError message={errors.valid_until} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="discount_amount">Discount (Rs.)</Label>
+                        <Input
+                            id="discount_amount"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={data.discount_amount}
+                            onChange={(e) => setData('discount_amount', e.target.value)}
+                        />
+                        <InputError message={errors.discount_amount} />
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <div className="flex items-center justify-between">
+                        <CardTitle className="flex items-center">
+                            <Package className="mr-2 h-5 w-5" />
+                            Line Items
+                        </CardTitle>
+                        <Button type="button" variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine()])}>
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add Line
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {lines.map((line, index) => {
+                        const lineTotal = (parseFloat(line.quantity) || 0) * (parseFloat(line.unit_price) || 0);
+
+                        return (
+                            <div key={line.key} className="space-y-3 rounded-lg border p-4">
+                                <div className="grid grid-cols-1 gap-3 md:grid-cols-12">
+                                    <div className="grid gap-1 md:col-span-4">
+                                        <Label>Product</Label>
+                                        <select
+                                            value={line.product_id}
+                                            onChange={(e) => updateLine(line.key, { product_id: e.target.value ? Number(e.target.value) : '' })}
+                                            className={selectClass}
+                                        >
+                                            <option value="">Select product</option>
+                                            {products.map((product) => (
+                                                <option key={product.value} value={product.value}>
+                                                    {product.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <InputError message={formErrors[`items.${index}.product_id`]} />
+                                    </div>
+
+                                    <div className="grid gap-1 md:col-span-4">
+                                        <Label>Description</Label>
+                                        <Input
+                                            value={line.item_description}
+                                            maxLength={500}
+                                            onChange={(e) => updateLine(line.key, { item_description: e.target.value })}
+                                        />
+                                    </div>
+
+                                    <div className="grid gap-1 md:col-span-1">
+                                        <Label>Qty</Label>
+                                        <Input
+                                            type="number"
+                                            min="0.01"
+                                            step="0.01"
+                                            value={line.quantity}
+                                            onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                                        />
+                                    </div>
+
+                                    <div className="grid gap-1 md:col-span-2">
+                                        <Label>Unit price (Rs.)</Label>
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={line.unit_price}
+                                            onChange={(e) => updateLine(line.key, { unit_price: e.target.value })}
+                                        />
+                                    </div>
+
+                                    <div className="flex items-end justify-end md:col-span-1">
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            disabled={lines.length === 1}
+                                            onClick={() => setLines(lines.filter((l) => l.key !== line.key))}
+                                        >
+                                            <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-1 gap-3 md:grid-cols-12">
+                                    <div className="md:col-span-8">
+                                        <Input
+                                            value={line.notes}
+                                            placeholder="Specifications (size, paper, finish...) shown on the quotation and carried to the invoice"
+                                            onChange={(e) => updateLine(line.key, { notes: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="flex items-center justify-end gap-3 text-sm md:col-span-4">
+                                        {line.product_id !== '' && (
+                                            <span className="text-xs text-muted-foreground">
+                                                {line.pricing_rule ? (
+                                                    line.pricing_rule.label
+                                                ) : (
+                                                    <>
+                                                        {line.saved_price ? 'Quoted price' : 'Manual price'} ·{' '}
+                                                        <button
+                                                            type="button"
+                                                            className="text-primary hover:underline"
+                                                            onClick={() =>
+                                                                setLines(lines.map((l) => (l.key === line.key ? priceLine(l, customer) : l)))
+                                                            }
+                                                        >
+                                                            use list price
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </span>
+                                        )}
+                                        <span className="font-medium">{money(lineTotal)}</span>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                <Card className="lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle>Notes & Terms</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-1">
+                            <Label htmlFor="notes">Notes</Label>
+                            <Textarea id="notes" rows={3} value={data.notes} onChange={(e) => setData('notes', e.target.value)} />
+                            <InputError message={errors.notes} />
+                        </div>
+                        <div className="grid gap-1">
+                            <Label htmlFor="terms_conditions">Terms & conditions</Label>
+                            <Textarea
+                                id="terms_conditions"
+                                rows={4}
+                                value={data.terms_conditions}
+                                onChange={(e) => setData('terms_conditions', e.target.value)}
+                            />
+                            <InputError message={errors.terms_conditions} />
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Summary</CardTitle>
+                        <CardDescription>Final totals are recalculated when the quotation is saved.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                        <div className="flex justify-between">
+                            <span>Subtotal</span>
+                            <span>{money(totals.subtotal)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span>
+                                Weight charge ({totals.totalWeight.toFixed(2)} kg{totals.tier ? ` · ${totals.tier.tier_name}` : ''})
+                            </span>
+                            <span>{money(totals.weightCharge)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span>Tax (est.)</span>
+                            <span>{money(totals.taxAmount)}</span>
+                        </div>
+                        {totals.discount > 0 && (
+                            <div className="flex justify-between text-green-700">
+                                <span>Discount</span>
+                                <span>-{money(totals.discount)}</span>
+                            </div>
+                        )}
+                        <div className="flex justify-between border-t pt-2 text-base font-semibold">
+                            <span>Total</span>
+                            <span>{money(totals.total)}</span>
+                        </div>
+
+                        <div className="flex gap-2 pt-4">
+                            <Button type="button" variant="outline" className="flex-1" asChild>
+                                <Link href={quotation ? route('quotations.show', quotation.id) : route('quotations.index')}>Cancel</Link>
+                            </Button>
+                            <Button type="submit" className="flex-1" disabled={processing}>
+                                {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                                {isEditing ? 'Save Changes' : 'Create Quotation'}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </form>
+    );
+}
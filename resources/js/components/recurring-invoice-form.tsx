@@ -0,0 +1,465 @@
+import InputError from '@/components/input-error';
+import { type QuotationFormCustomer, type QuotationFormOptions } from '@/components/quotation-form';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { resolveUnitPrice } from '@/lib/product-pricing';
+import { type RecurringInvoiceDetails, type RecurringPeriod } from '@/lib/recurring-invoices';
+import { Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, Loader2, Package, Plus, Save, Trash2 } from 'lucide-react';
+import { FormEvent, useState } from 'react';
+
+// Recurring invoices are built from the same customer, product and branch options as invoices
+export type RecurringInvoiceFormOptions = QuotationFormOptions & {
+    periods: Record<RecurringPeriod, string>;
+};
+
+interface Props extends RecurringInvoiceFormOptions {
+    profile?: RecurringInvoiceDetails & { has_run: boolean };
+    defaultBranchId?: number | null;
+    defaultCustomerId?: number | null;
+}
+
+interface Line {
+    key: string;
+    product_id: number | '';
+    item_description: string;
+    quantity: string;
+    // Empty follows the customer's price on each run
+    unit_price: string;
+    notes: string;
+    specifications: Record<string, unknown>;
+}
+
+type RecurringInvoiceFormData = {
+    name: string;
+    customer_id: number | '';
+    branch_id: number | '';
+    recurring_period: RecurringPeriod;
+    start_date: string;
+    end_date: string;
+    payment_terms_days: string;
+    discount_amount: string;
+    auto_send: boolean;
+    notes: string;
+    terms_conditions: string;
+};
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const money = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+let lineCounter = 0;
+const nextKey = () => `new-${++lineCounter}`;
+
+const emptyLine = (): Line => ({
+    key: nextKey(),
+    product_id: '',
+    item_description: '',
+    quantity: '1',
+    unit_price: '',
+    notes: '',
+    specifications: {},
+});
+
+/**
+ * Schedule, customer and line items for a recurring invoice profile
+ */
+export default function RecurringInvoiceForm({
+    customers,
+    products,
+    branches,
+    price_lists,
+    periods,
+    profile,
+    defaultBranchId,
+    defaultCustomerId,
+}: Props) {
+    const isEditing = profile !== undefined;
+
+    const [lines, setLines] = useState<Line[]>(() =>
+        profile
+            ? profile.items.map((item) => {
+                  const { notes, ...specifications } = item.specifications ?? {};
+
+                  return {
+                      key: `saved-${item.id}`,
+                      product_id: item.product_id,
+                      item_description: item.item_description,
+                      quantity: String(item.quantity),
+                      unit_price: item.unit_price === null ? '' : String(item.unit_price),
+                      notes: typeof notes === 'string' ? notes : '',
+                      specifications,
+                  };
+              })
+            : [emptyLine()],
+    );
+    const [lineError, setLineError] = useState<string | null>(null);
+
+    const { data, setData, post, put, transform, processing, errors } = useForm<RecurringInvoiceFormData>({
+        name: profile?.name ?? '',
+        customer_id: profile?.customer_id ?? defaultCustomerId ?? '',
+        branch_id: profile?.branch_id ?? defaultBranchId ?? '',
+        recurring_period: profile?.recurring_period ?? 'monthly',
+        start_date: profile?.start_date ?? new Date().toISOString().split('T')[0],
+        end_date: profile?.end_date ?? '',
+        payment_terms_days: String(profile?.payment_terms_days ?? 30),
+        discount_amount: profile ? String(profile.discount_amount) : '0',
+        auto_send: profile?.auto_send ?? false,
+        notes: profile?.notes ?? '',
+        terms_conditions: profile?.terms_conditions ?? '',
+    });
+
+    const formErrors = errors as Record<string, string | undefined>;
+    const customer: QuotationFormCustomer | null = customers.find((c) => c.value === Number(data.customer_id)) ?? null;
+
+    // What the customer would be charged today for a line left on current pricing
+    const currentPrice = (line: Line) => {
+        const product = products.find((p) => p.value === Number(line.product_id));
+
+        return product ? resolveUnitPrice(product, parseFloat(line.quantity) || 0, customer, price_lists).unitPrice : 0;
+    };
+
+    const updateLine = (key: string, changes: Partial<Line>) => {
+        setLines((current) =>
+            current.map((line) => {
+                if (line.key !== key) {
+                    return line;
+                }
+
+                if (changes.product_id !== undefined) {
+                    const product = products.find((p) => p.value === Number(changes.product_id));
+
+                    return { ...line, ...changes, item_description: product?.name ?? '', specifications: {} };
+                }
+
+                return { ...line, ...changes };
+            }),
+        );
+    };
+
+    const runTotal =
+        lines.reduce((sum, line) => {
+            const unitPrice = line.unit_price === '' ? currentPrice(line) : parseFloat(line.unit_price) || 0;
+
+            return sum + (parseFloat(line.quantity) || 0) * unitPrice;
+        }, 0) - (parseFloat(data.discount_amount) || 0);
+
+    const submit = (e: FormEvent) => {
+        e.preventDefault();
+
+        const filled = lines.filter((line) => line.product_id !== '');
+        if (filled.length === 0) {
+            setLineError('Add at least one product to bill on each run.');
+            return;
+        }
+        if (filled.some((line) => (parseFloat(line.quantity) || 0) <= 0)) {
+            setLineError('Every line needs a quantity greater than zero.');
+            return;
+        }
+        setLineError(null);
+
+        transform((formData) => ({
+            ...formData,
+            end_date: formData.end_date || null,
+            payment_terms_days: parseInt(formData.payment_terms_days) || 0,
+            items: filled.map((line) => ({
+                product_id: Number(line.product_id),
+                item_description: line.item_description,
+                quantity: parseFloat(line.quantity),
+                unit_price: line.unit_price === '' ? null : parseFloat(line.unit_price) || 0,
+                specifications: { ...line.specifications, ...(line.notes.trim() ? { notes: line.notes.trim() } : {}) },
+            })),
+        }));
+
+        if (profile) {
+            put(route('recurring-invoices.update', profile.id), { preserveScroll: true });
+        } else {
+            post(route('recurring-invoices.store'), { preserveScroll: true });
+        }
+    };
+
+    const firstItemError = Object.entries(formErrors).find(([field]) => field.startsWith('items'))?.[1];
+
+    return (
+        <form onSubmit={submit} className="space-y-6">
+            {(formErrors.error || lineError || firstItemError) && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{formErrors.error ?? lineError ?? firstItemError}</AlertDescription>
+                </Alert>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Schedule</CardTitle>
+                    <CardDescription>An invoice is generated on the start date and then once every period until the end date.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                    <div className="grid gap-1 lg:col-span-2">
+                        <Label htmlFor="name">Name *</Label>
+                        <Input
+                            id="name"
+                            value={data.name}
+                            maxLength={150}
+                            placeholder="e.g. Monthly letterhead contract"
+                            onChange={(e) => setData('name', e.target.value)}
+                        />
+                        <InputError message={errors.name} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="recurring_period">Bill every *</Label>
+                        <select
+                            id="recurring_period"
+                            value={data.recurring_period}
+                            onChange={(e) => setData('recurring_period', e.target.value as RecurringPeriod)}
+                            className={selectClass}
+                        >
+                            {Object.entries(periods).map(([value, label]) => (
+                                <option key={value} value={value}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.recurring_period} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="payment_terms_days">Payment terms (days)</Label>
+                        <Input
+                            id="payment_terms_days"
+                            type="number"
+                            min="0"
+                            max="365"
+                            value={data.payment_terms_days}
+                            onChange={(e) => setData('payment_terms_days', e.target.value)}
+                        />
+                        <InputError message={errors.payment_terms_days} />
+                    </div>
+
+                    <div className="grid gap-1 lg:col-span-2">
+                        <Label htmlFor="customer_id">Customer *</Label>
+                        <select
+                            id="customer_id"
+                            value={data.customer_id}
+                            onChange={(e) => setData('customer_id', e.target.value ? Number(e.target.value) : '')}
+                            className={selectClass}
+                        >
+                            <option value="">Select customer</option>
+                            {customers.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.customer_id} />
+                    </div>
+
+                    <div className="grid gap-1 lg:col-span-2">
+                        <Label htmlFor="branch_id">Branch *</Label>
+                        <select
+                            id="branch_id"
+                            value={data.branch_id}
+                            onChange={(e) => setData('branch_id', e.target.value ? Number(e.target.value) : '')}
+                            className={selectClass}
+                        >
+                            <option value="">Select branch</option>
+                            {branches.map((branch) => (
+                                <option key={branch.value} value={branch.value}>
+                                    {branch.label}
+                                </option>
+                            ))}
+                        </select>
+                        <InputError message={errors.branch_id} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="start_date">First invoice on *</Label>
+                        <Input
+                            id="start_date"
+                            type="date"
+                            value={data.start_date}
+                            onChange={(e) => setData('start_date', e.target.value)}
+                            disabled={profile?.has_run}
+                        />
+                        <InputError message={errors.start_date} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="end_date">End date</Label>
+                        <Input id="end_date" type="date" value={data.end_date} onChange={(e) => setData('end_date', e.target.value)} />
+                        <p className="text-xs text-muted-foreground">Leave empty to keep billing until paused.</p>
+                        <InputError message={errors.end_date} />
+                    </div>
+
+                    <div className="grid gap-1">
+                        <Label htmlFor="discount_amount">Discount per invoice (Rs.)</Label>
+                        <Input
+                            id="discount_amount"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={data.discount_amount}
+                            onChange={(e) => setData('discount_amount', e.target.value)}
+                        />
+                        <InputError message={errors.discount_amount} />
+                    </div>
+
+                    <div className="flex items-start gap-2 pt-6">
+                        <Checkbox id="auto_send" checked={data.auto_send} onCheckedChange={(checked) => setData('auto_send', checked === true)} />
+                        <div className="grid gap-1">
+                            <Label htmlFor="auto_send">Auto-send</Label>
+                            <p className="text-xs text-muted-foreground">Issue generated invoices straight away and email them to the customer instead of leaving them in draft.</p>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <CardTitle className="flex items-center">
+                                <Package className="mr-2 h-5 w-5" />
+                                Items Billed Each Run
+                            </CardTitle>
+                            <CardDescription>Leave the unit price empty to charge the customer’s price at the time of each run.</CardDescription>
+                        </div>
+                        <Button type="button" variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine()])}>
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add Line
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {lines.map((line, index) => (
+                        <div key={line.key} className="space-y-3 rounded-lg border p-4">
+                            <div className="grid grid-cols-1 gap-3 md:grid-cols-12">
+                                <div className="grid gap-1 md:col-span-4">
+                                    <Label>Product</Label>
+                                    <select
+                                        value={line.product_id}
+                                        onChange={(e) => updateLine(line.key, { product_id: e.target.value ? Number(e.target.value) : '' })}
+                                        className={selectClass}
+                                    >
+                                        <option value="">Select product</option>
+                                        {products.map((product) => (
+                                            <option key={product.value} value={product.value}>
+                                                {product.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <InputError message={formErrors[`items.${index}.product_id`]} />
+                                </div>
+
+                                <div className="grid gap-1 md:col-span-4">
+                                    <Label>Description</Label>
+                                    <Input
+                                        value={line.item_description}
+                                        maxLength={500}
+                                        onChange={(e) => updateLine(line.key, { item_description: e.target.value })}
+                                    />
+                                </div>
+
+                                <div className="grid gap-1 md:col-span-1">
+                                    <Label>Qty</Label>
+                                    <Input
+                                        type="number"
+                                        min="0.01"
+                                        step="0.01"
+                                        value={line.quantity}
+                                        onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                                    />
+                                </div>
+
+                                <div className="grid gap-1 md:col-span-2">
+                                    <Label>Unit price (Rs.)</Label>
+                                    <Input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={line.unit_price}
+                                        placeholder={line.product_id !== '' ? `Current: ${currentPrice(line).toFixed(2)}` : 'Current price'}
+                                        onChange={(e) => updateLine(line.key, { unit_price: e.target.value })}
+                                    />
+                                </div>
+
+                                <div className="flex items-end justify-end md:col-span-1">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        disabled={lines.length === 1}
+                                        onClick={() => setLines(lines.filter((l) => l.key !== line.key))}
+                                    >
+                                        <Trash2 className="h-4 w-4 text-red-600" />
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <Input
+                                value={line.notes}
+                                placeholder="Specifications (size, paper, finish...) copied onto every generated invoice"
+                                onChange={(e) => updateLine(line.key, { notes: e.target.value })}
+                            />
+                        </div>
+                    ))}
+                </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                <Card className="lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle>Notes & Terms</CardTitle>
+                        <CardDescription>Copied onto every generated invoice.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-1">
+                            <Label htmlFor="notes">Notes</Label>
+                            <Textarea id="notes" rows={3} value={data.notes} onChange={(e) => setData('notes', e.target.value)} />
+                            <InputError message={errors.notes} />
+                        </div>
+                        <div className="grid gap-1">
+                            <Label htmlFor="terms_conditions">Terms & conditions</Label>
+                            <Textarea
+                                id="terms_conditions"
+                                rows={4}
+                                value={data.terms_conditions}
+                                onChange={(e) => setData('terms_conditions', e.target.value)}
+                            />
+                            <InputError message={errors.terms_conditions} />
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Each Run</CardTitle>
+                        <CardDescription>Before weight charges and tax, which are worked out when each invoice is generated.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2 text-sm">
+                        <div className="flex justify-between border-b pb-2 text-base font-semibold">
+                            <span>Estimated amount</span>
+                            <span>{money(Math.max(0, runTotal))}</span>
+                        </div>
+
+                        <div className="flex gap-2 pt-4">
+                            <Button type="button" variant="outline" className="flex-1" asChild>
+                                <Link href={profile ? route('recurring-invoices.show', profile.id) : route('recurring-invoices.index')}>Cancel</Link>
+                            </Button>
+                            <Button type="submit" className="flex-1" disabled={processing}>
+                                {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                                {isEditing ? 'Save Changes' : 'Create Profile'}
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,85 @@
+interface ChartSeries {
+    key: string;
+    label: string;
+    color: string;
+}
+
+interface ReportBarChartProps {
+    data: Record<string, string | number>[];
+    // Field on each row used for the x-axis label
+    labelKey: string;
+    series: ChartSeries[];
+    formatLabel?: (label: string) => string;
+    formatValue?: (value: number) => string;
+    height?: number;
+}
+
+/**
+ * Column chart for report trends, one group of bars per row.
+ * Only every few x-axis labels are drawn once a period gets long enough to crowd them.
+ */
+export default function ReportBarChart({
+    data,
+    labelKey,
+    series,
+    formatLabel = (label) => label,
+    formatValue = (value) => value.toLocaleString(),
+    height = 200,
+}: ReportBarChartProps) {
+    const maxValue = Math.max(0, ...data.flatMap((row) => series.map((s) => Number(row[s.key]) || 0)));
+    const labelEvery = Math.max(1, Math.ceil(data.length / 12));
+
+    if (data.length === 0 || maxValue === 0) {
+        return (
+            <div className="flex items-center justify-center text-sm text-muted-foreground" style={{ height }}>
+                No data for this period
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-end gap-px border-b" style={{ height }}>
+                {data.map((row, index) => {
+                    const label = formatLabel(String(row[labelKey]));
+
+                    return (
+                        <div key={index} className="flex h-full min-w-0 flex-1 items-end justify-center gap-px">
+                            {series.map((s) => {
+                                const value = Number(row[s.key]) || 0;
+
+                                return (
+                                    <div
+                                        key={s.key}
+                                        className="w-full max-w-8 rounded-t-sm transition-opacity hover:opacity-75"
+                                        style={{ height: `${(value / maxValue) * 100}%`, backgroundColor: s.color }}
+                                        title={`${label} · ${s.label}: ${formatValue(value)}`}
+                                    />
+                                );
+                            })}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="flex gap-px">
+                {data.map((row, index) => (
+                    <div key={index} className="min-w-0 flex-1 truncate text-center text-[10px] text-muted-foreground">
+                        {index % labelEvery === 0 ? formatLabel(String(row[labelKey])) : ''}
+                    </div>
+                ))}
+            </div>
+
+            {series.length > 1 && (
+                <div className="flex flex-wrap justify-center gap-4 text-xs">
+                    {series.map((s) => (
+                        <span key={s.key} className="flex items-center gap-1">
+                            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: s.color }} />
+                            {s.label}
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+interface BreakdownItem {
+    label: string;
+    value: number;
+    // Secondary text shown under the label, e.g. a count next to an amount
+    detail?: string;
+    color?: string;
+}
+
+interface ReportBreakdownProps {
+    items: BreakdownItem[];
+    formatValue?: (value: number) => string;
+    emptyMessage?: string;
+}
+
+/**
+ * Horizontal bars showing each item's share of the total
+ */
+export default function ReportBreakdown({
+    items,
+    formatValue = (value) => value.toLocaleString(),
+    emptyMessage = 'No data for this period',
+}: ReportBreakdownProps) {
+    const total = items.reduce((sum, item) => sum + item.value, 0);
+
+    if (items.length === 0 || total === 0) {
+        return <p className="py-6 text-center text-sm text-muted-foreground">{emptyMessage}</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            {items.map((item) => {
+                const share = (item.value / total) * 100;
+
+                return (
+                    <div key={item.label} className="space-y-1">
+                        <div className="flex items-baseline justify-between gap-2 text-sm">
+                            <span className="truncate">
+                                {item.label}
+                                {item.detail && <span className="ml-2 text-xs text-muted-foreground">{item.detail}</span>}
+                            </span>
+                            <span className="shrink-0 font-medium">
+                                {formatValue(item.value)}
+                                <span className="ml-2 text-xs text-muted-foreground">{share.toFixed(1)}%</span>
+                            </span>
+                        </div>
+                        <div className="h-2 rounded-full bg-muted">
+                            <div className="h-2 rounded-full" style={{ width: `${share}%`, backgroundColor: item.color ?? '#3B82F6' }} />
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,88 @@
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { dateRangePresets, type ReportFilters as Filters, type ReportBranch } from '@/lib/reports';
+import { router } from '@inertiajs/react';
+import { Filter } from 'lucide-react';
+import { useState } from 'react';
+
+interface ReportFiltersProps {
+    // Route the filters reload, e.g. 'reports.sales'
+    routeName: string;
+    filters: Filters;
+    branches: ReportBranch[];
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+/**
+ * Date range and branch picker shared by the report pages.
+ * The branch select only shows for users who can see every branch; the server pins everyone else to their own.
+ */
+export default function ReportFilters({ routeName, filters, branches }: ReportFiltersProps) {
+    const [startDate, setStartDate] = useState(filters.start_date);
+    const [endDate, setEndDate] = useState(filters.end_date);
+    const [branchId, setBranchId] = useState(filters.branch_id ? String(filters.branch_id) : '');
+
+    const apply = (range: { start_date: string; end_date: string } = { start_date: startDate, end_date: endDate }) => {
+        setStartDate(range.start_date);
+        setEndDate(range.end_date);
+
+        router.get(route(routeName), { ...range, branch_id: branchId || undefined }, { preserveState: true, preserveScroll: true });
+    };
+
+    return (
+        <Card>
+            <CardContent className="space-y-4 p-4">
+                <div className="flex flex-wrap gap-2">
+                    {dateRangePresets().map((preset) => (
+                        <Button
+                            key={preset.label}
+                            type="button"
+                            size="sm"
+                            variant={preset.start_date === filters.start_date && preset.end_date === filters.end_date ? 'default' : 'outline'}
+                            onClick={() => apply(preset)}
+                        >
+                            {preset.label}
+                        </Button>
+                    ))}
+                </div>
+
+                <form
+                    className="grid grid-cols-1 items-end gap-4 md:grid-cols-4"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        apply();
+                    }}
+                >
+                    <div className="grid gap-2">
+                        <Label htmlFor="start_date">From</Label>
+                        <Input id="start_date" type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+                    </div>
+                    <div className="grid gap-2">
+                        <Label htmlFor="end_date">To</Label>
+                        <Input id="end_date" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+                    </div>
+                    {branches.length > 0 && (
+                        <div className="grid gap-2">
+                            <Label htmlFor="branch_id">Branch</Label>
+                            <select id="branch_id" className={selectClass} value={branchId} onChange={(e) => setBranchId(e.target.value)}>
+                                <option value="">All Branches</option>
+                                {branches.map((branch) => (
+                                    <option key={branch.id} value={branch.id}>
+                                        {branch.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    <Button type="submit">
+                        <Filter className="mr-2 h-4 w-4" />
+                        Apply
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
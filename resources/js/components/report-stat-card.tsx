@@ -0,0 +1,25 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { type LucideIcon } from 'lucide-react';
+
+interface ReportStatCardProps {
+    title: string;
+    value: string | number;
+    description?: string;
+    icon: LucideIcon;
+    iconClassName?: string;
+}
+
+export default function ReportStatCard({ title, value, description, icon: Icon, iconClassName = 'text-blue-600' }: ReportStatCardProps) {
+    return (
+        <Card>
+            <CardContent className="flex items-start justify-between p-4">
+                <div className="min-w-0 space-y-1">
+                    <p className="text-sm text-muted-foreground">{title}</p>
+                    <p className="truncate text-2xl font-bold">{value}</p>
+                    {description && <p className="text-xs text-muted-foreground">{description}</p>}
+                </div>
+                <Icon className={`h-5 w-5 shrink-0 ${iconClassName}`} />
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,153 @@
+import { Button } from '@/components/ui/button';
+import { Eraser } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface SignaturePadProps {
+    // Called with a PNG data URL after each stroke, or null once cleared
+    onChange: (signature: string | null) => void;
+    height?: number;
+    disabled?: boolean;
+}
+
+/**
+ * Finger, stylus or mouse signature capture on a canvas.
+ * The canvas is sized to the device pixel ratio so strokes stay sharp on phones.
+ */
+export default function SignaturePad({ onChange, height = 200, disabled = false }: SignaturePadProps) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const drawing = useRef(false);
+    const lastPoint = useRef<{ x: number; y: number } | null>(null);
+    const [isEmpty, setIsEmpty] = useState(true);
+
+    // Kept in a ref so a new callback each render does not re-run the resize effect and wipe the canvas
+    const onChangeRef = useRef(onChange);
+    useEffect(() => {
+        onChangeRef.current = onChange;
+    });
+
+    const context = () => canvasRef.current?.getContext('2d') ?? null;
+
+    const resize = useCallback(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+
+        if (!canvas || !ctx) {
+            return;
+        }
+
+        // Mobile browsers fire resize while the address bar slides away; only a real width change needs a redraw
+        const ratio = window.devicePixelRatio || 1;
+        if (canvas.width === canvas.offsetWidth * ratio && canvas.height === height * ratio) {
+            return;
+        }
+
+        // Resizing wipes the canvas, so any signature so far has to be captured again
+        canvas.width = canvas.offsetWidth * ratio;
+        canvas.height = height * ratio;
+        ctx.scale(ratio, ratio);
+        ctx.lineWidth = 2.5;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = '#111827';
+
+        setIsEmpty(true);
+        onChangeRef.current(null);
+    }, [height]);
+
+    useEffect(() => {
+        resize();
+        window.addEventListener('resize', resize);
+
+        return () => window.removeEventListener('resize', resize);
+    }, [resize]);
+
+    const pointFrom = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        if (disabled) {
+            return;
+        }
+
+        event.currentTarget.setPointerCapture(event.pointerId);
+        drawing.current = true;
+        lastPoint.current = pointFrom(event);
+
+        // A tap without movement still leaves a dot
+        const ctx = context();
+        if (ctx) {
+            ctx.beginPath();
+            ctx.arc(lastPoint.current.x, lastPoint.current.y, ctx.lineWidth / 2, 0, Math.PI * 2);
+            ctx.fillStyle = ctx.strokeStyle;
+            ctx.fill();
+        }
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = context();
+
+        if (!drawing.current || !ctx || !lastPoint.current) {
+            return;
+        }
+
+        const point = pointFrom(event);
+        ctx.beginPath();
+        ctx.moveTo(lastPoint.current.x, lastPoint.current.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPoint.current = point;
+    };
+
+    const handlePointerUp = () => {
+        if (!drawing.current) {
+            return;
+        }
+
+        drawing.current = false;
+        lastPoint.current = null;
+        setIsEmpty(false);
+        onChangeRef.current(canvasRef.current?.toDataURL('image/png') ?? null);
+    };
+
+    const clear = () => {
+        const canvas = canvasRef.current;
+        const ctx = context();
+
+        if (canvas && ctx) {
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+        }
+
+        setIsEmpty(true);
+        onChangeRef.current(null);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="relative rounded-md border bg-white">
+                <canvas
+                    ref={canvasRef}
+                    style={{ height, touchAction: 'none' }}
+                    className="block w-full cursor-crosshair"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerLeave={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                />
+                {isEmpty && (
+                    <span className="pointer-events-none absolute inset-0 flex items-center justify-center text-sm text-gray-400">Sign here</span>
+                )}
+                <span className="pointer-events-none absolute right-4 bottom-8 left-4 border-b border-dashed border-gray-300" />
+            </div>
+            <div className="flex justify-end">
+                <Button type="button" variant="ghost" size="sm" onClick={clear} disabled={disabled || isEmpty}>
+                    <Eraser className="mr-2 h-4 w-4" />
+                    Clear
+                </Button>
+            </div>
+        </div>
+    );
+}
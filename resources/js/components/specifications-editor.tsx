@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, X } from 'lucide-react';
+import { useState } from 'react';
+
+type SpecificationValue = string | number | boolean | null | SpecificationValue[] | { [key: string]: SpecificationValue };
+
+export type Specifications = { [key: string]: SpecificationValue };
+
+interface Row {
+    key: string;
+    value: string;
+}
+
+const isScalar = (value: unknown) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+// Edits the flat key/value part of a specifications object; nested entries recorded by the system are kept as they are
+export default function SpecificationsEditor({ value, onChange }: { value: Specifications; onChange: (value: Specifications) => void }) {
+    const [rows, setRows] = useState<Row[]>(() =>
+        Object.entries(value ?? {})
+            .filter(([, entry]) => isScalar(entry))
+            .map(([key, entry]) => ({ key, value: entry === null ? '' : String(entry) })),
+    );
+
+    const nestedKeys = Object.keys(value ?? {}).filter((key) => !isScalar(value[key]));
+
+    const update = (nextRows: Row[]) => {
+        setRows(nextRows);
+
+        const nested = Object.fromEntries(nestedKeys.map((key) => [key, value[key]]));
+        const flat = Object.fromEntries(nextRows.filter((row) => row.key.trim() !== '').map((row) => [row.key.trim(), row.value]));
+        onChange({ ...nested, ...flat });
+    };
+
+    return (
+        <div className="space-y-2">
+            {rows.map((row, index) => (
+                <div key={index} className="flex gap-2">
+                    <Input
+                        placeholder="e.g., paper_type"
+                        value={row.key}
+                        onChange={(e) => update(rows.map((r, i) => (i === index ? { ...r, key: e.target.value } : r)))}
+                    />
+                    <Input
+                        placeholder="e.g., 300gsm matte"
+                        value={row.value}
+                        onChange={(e) => update(rows.map((r, i) => (i === index ? { ...r, value: e.target.value } : r)))}
+                    />
+                    <Button type="button" variant="ghost" size="sm" onClick={() => update(rows.filter((_, i) => i !== index))}>
+                        <X className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+
+            <Button type="button" variant="outline" size="sm" onClick={() => setRows([...rows, { key: '', value: '' }])}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Specification
+            </Button>
+
+            {nestedKeys.length > 0 && <p className="text-xs text-muted-foreground">Also keeps recorded details: {nestedKeys.join(', ')}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+import { getEcho } from '@/lib/echo';
+import { useEffect, useRef } from 'react';
+
+export type ChannelListeners = Record<string, (payload: never) => void>;
+
+// Components subscribed per channel, so one unmounting does not leave a channel another still uses
+const subscribers = new Map<string, number>();
+
+/**
+ * Subscribes to a broadcast channel while the component is mounted.
+ * Event names are the `broadcastAs` names, e.g. `print-job.created`; listeners may change
+ * between renders without resubscribing.
+ */
+export function useChannel(name: string | null, listeners: ChannelListeners, visibility: 'private' | 'public' = 'private') {
+    const listenersRef = useRef(listeners);
+
+    useEffect(() => {
+        listenersRef.current = listeners;
+    });
+
+    const eventNames = Object.keys(listeners).sort().join(',');
+
+    useEffect(() => {
+        const echo = getEcho();
+
+        if (!echo || !name) {
+            return;
+        }
+
+        const channel = visibility === 'private' ? echo.private(name) : echo.channel(name);
+        const key = `${visibility}:${name}`;
+        subscribers.set(key, (subscribers.get(key) ?? 0) + 1);
+
+        const handlers = eventNames
+            .split(',')
+            .filter(Boolean)
+            .map((event) => {
+                const handler = (payload: never) => listenersRef.current[event]?.(payload);
+                channel.listen(`.${event}`, handler);
+
+                return [event, handler] as const;
+            });
+
+        return () => {
+            handlers.forEach(([event, handler]) => channel.stopListening(`.${event}`, handler));
+
+            const remaining = (subscribers.get(key) ?? 1) - 1;
+            subscribers.set(key, remaining);
+
+            if (remaining === 0) {
+                subscribers.delete(key);
+                echo.leaveChannel(visibility === 'private' ? `private-${name}` : name);
+            }
+        };
+    }, [name, visibility, eventNames]);
+}
@@ -0,0 +1,105 @@
+import { useChannel } from '@/hooks/use-channel';
+import { type SharedData } from '@/types';
+import { router, usePage } from '@inertiajs/react';
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+
+interface PrintJobPayload {
+    id: number;
+    job_number: string;
+    production_status: string;
+}
+
+export interface PrintJobCreatedEvent {
+    print_job: PrintJobPayload;
+    message: string;
+}
+
+export interface ProductionStageUpdatedEvent {
+    stage: { id: number; stage_name: string; stage_name_label: string; stage_status: string };
+    print_job: PrintJobPayload;
+    message: string;
+}
+
+export interface PrintJobCompletedEvent {
+    print_job: PrintJobPayload;
+    message: string;
+}
+
+interface ProductionUpdateOptions {
+    // Page props to reload when an update arrives; omit to reload the whole page
+    only?: string[];
+    // Only react to updates about this print job
+    printJobId?: number;
+    // Which events refresh the page and raise a toast
+    events?: Array<'created' | 'stage' | 'completed'>;
+}
+
+const RELOAD_DELAY = 400;
+
+/**
+ * Listens on the user's production channel (their branch, or the whole company when they may view
+ * all branches), shows a toast for each update and reloads the page props in place.
+ */
+export function useProductionUpdates({ only, printJobId, events = ['created', 'stage', 'completed'] }: ProductionUpdateOptions = {}) {
+    const { auth } = usePage<SharedData>().props;
+    const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const onlyKey = only?.join(',');
+
+    useEffect(
+        () => () => {
+            if (reloadTimer.current) {
+                clearTimeout(reloadTimer.current);
+            }
+        },
+        [],
+    );
+
+    // A completed stage also advances the next one, so bursts of events are folded into one reload
+    const scheduleReload = () => {
+        if (reloadTimer.current) {
+            clearTimeout(reloadTimer.current);
+        }
+
+        reloadTimer.current = setTimeout(() => {
+            reloadTimer.current = null;
+            router.reload(onlyKey ? { only: onlyKey.split(',') } : {});
+        }, RELOAD_DELAY);
+    };
+
+    const concerns = (job: PrintJobPayload) => printJobId === undefined || job.id === printJobId;
+
+    const viewAction = (job: PrintJobPayload) =>
+        printJobId === undefined ? { label: 'View', onClick: () => router.visit(route('production.print-jobs.show', job.id)) } : undefined;
+
+    useChannel(auth.production_channel, {
+        ...(events.includes('created') && {
+            'print-job.created': (event: PrintJobCreatedEvent) => {
+                if (!concerns(event.print_job)) {
+                    return;
+                }
+                toast.info(event.message, { action: viewAction(event.print_job) });
+                scheduleReload();
+            },
+        }),
+        ...(events.includes('stage') && {
+            'production-stage.updated': (event: ProductionStageUpdatedEvent) => {
+                if (!concerns(event.print_job)) {
+                    return;
+                }
+                const notify = ['on_hold', 'rejected'].includes(event.stage.stage_status) ? toast.warning : toast;
+                notify(event.message, { action: viewAction(event.print_job) });
+                scheduleReload();
+            },
+        }),
+        ...(events.includes('completed') && {
+            'print-job.completed': (event: PrintJobCompletedEvent) => {
+                if (!concerns(event.print_job)) {
+                    return;
+                }
+                toast.success(event.message, { action: viewAction(event.print_job) });
+                scheduleReload();
+            },
+        }),
+    });
+}
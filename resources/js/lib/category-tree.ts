@@ -0,0 +1,59 @@
+// Helpers for categories delivered as a flat list with parent_id links
+
+export interface TreeCategory {
+    id: number;
+    name: string;
+    parent_id: number | null;
+    sort_order?: number;
+}
+
+export interface CategoryOption {
+    id: number;
+    name: string;
+    depth: number;
+}
+
+const bySortOrder = (a: TreeCategory, b: TreeCategory) => (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.name.localeCompare(b.name);
+
+export function getChildren<T extends TreeCategory>(categories: T[], parentId: number | null): T[] {
+    return categories.filter((category) => (category.parent_id ?? null) === parentId).sort(bySortOrder);
+}
+
+export function getDescendantIds(categories: TreeCategory[], categoryId: number): number[] {
+    const descendants: number[] = [];
+    let parentIds = [categoryId];
+
+    while (parentIds.length > 0) {
+        const childIds = categories.filter((category) => category.parent_id !== null && parentIds.includes(category.parent_id)).map((c) => c.id);
+        descendants.push(...childIds);
+        parentIds = childIds;
+    }
+
+    return descendants;
+}
+
+// Depth-first list for parent pickers; excluding a category also drops everything nested below it
+export function buildCategoryOptions(categories: TreeCategory[], excludeId?: number): CategoryOption[] {
+    const excluded = excludeId ? new Set([excludeId, ...getDescendantIds(categories, excludeId)]) : new Set<number>();
+    const knownIds = new Set(categories.map((category) => category.id));
+    const options: CategoryOption[] = [];
+
+    const walk = (parentId: number | null, depth: number) => {
+        categories
+            .filter((category) =>
+                parentId === null ? category.parent_id === null || !knownIds.has(category.parent_id) : category.parent_id === parentId,
+            )
+            .sort(bySortOrder)
+            .forEach((category) => {
+                if (excluded.has(category.id)) {
+                    return;
+                }
+                options.push({ id: category.id, name: category.name, depth });
+                walk(category.id, depth + 1);
+            });
+    };
+
+    walk(null, 0);
+
+    return options;
+}
@@ -0,0 +1,79 @@
+// CSV reading and writing for the import wizards and downloadable reports
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with commas, quotes and line breaks,
+ * CRLF line endings and the byte order mark Excel adds. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+const escapeCell = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : String(value);
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: unknown[][]): string {
+    return rows.map((row) => row.map(escapeCell).join(',')).join('\r\n');
+}
+
+/**
+ * Offer rows as a CSV download; the byte order mark keeps Sinhala and Tamil text intact in Excel
+ */
+export function downloadCsv(filename: string, rows: unknown[][]): void {
+    const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Reduce a header to letters and digits so "E-mail", "email_address " and "Email Address" compare equal
+ */
+export const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -0,0 +1,78 @@
+export type DeliveryStatus =
+    | 'pending'
+    | 'assigned'
+    | 'picked_up'
+    | 'in_transit'
+    | 'out_for_delivery'
+    | 'delivered'
+    | 'failed'
+    | 'returned'
+    | 'cancelled';
+
+export interface DeliveryHistoryEntry {
+    id: number;
+    status: DeliveryStatus;
+    status_label: string;
+    notes: string | null;
+    status_datetime: string | null;
+    updated_by: string | null;
+    location: { lat: number; lng: number; address: string | null } | null;
+    image_url: string | null;
+}
+
+export interface DeliveryAttempt {
+    // 0 holds everything before the first run, later numbers are runs out to the customer
+    number: number;
+    entries: DeliveryHistoryEntry[];
+    outcome: 'delivered' | 'failed' | 'returned' | 'cancelled' | 'in_progress';
+}
+
+export const statusBadgeClass = (status: string) => {
+    switch (status) {
+        case 'delivered':
+            return 'bg-green-100 text-green-800';
+        case 'failed':
+        case 'returned':
+            return 'bg-red-100 text-red-800';
+        case 'cancelled':
+            return 'bg-gray-100 text-gray-600';
+        case 'pending':
+            return 'bg-yellow-100 text-yellow-800';
+        case 'out_for_delivery':
+            return 'bg-orange-100 text-orange-800';
+        default:
+            return 'bg-blue-100 text-blue-800';
+    }
+};
+
+const OUTCOMES: DeliveryAttempt['outcome'][] = ['delivered', 'failed', 'returned', 'cancelled'];
+
+/**
+ * Splits a chronological status history into delivery attempts. Each trip out to the customer
+ * (out for delivery, or a pickup after a failed attempt) opens a new attempt; the attempt closes
+ * when it is delivered, fails, or the parcel comes back.
+ */
+export function groupAttempts(history: DeliveryHistoryEntry[]): DeliveryAttempt[] {
+    const attempts: DeliveryAttempt[] = [{ number: 0, entries: [], outcome: 'in_progress' }];
+
+    history.forEach((entry) => {
+        let current = attempts[attempts.length - 1];
+        const startsTrip = entry.status === 'out_for_delivery' || entry.status === 'picked_up';
+        const tripOpen = current.number > 0 && current.outcome === 'in_progress';
+
+        if (startsTrip && !tripOpen) {
+            current = { number: current.number + 1, entries: [], outcome: 'in_progress' };
+            attempts.push(current);
+        }
+
+        current.entries.push(entry);
+
+        if ((OUTCOMES as string[]).includes(entry.status)) {
+            current.outcome = entry.status as DeliveryAttempt['outcome'];
+        }
+    });
+
+    return attempts.filter((attempt) => attempt.entries.length > 0);
+}
+
+export const mapsUrl = (lat: number, lng: number) => `https://www.google.com/maps?q=${lat},${lng}`;
@@ -0,0 +1,34 @@
+// Shared Echo client for Reverb; stays disconnected when the app is built without Reverb settings
+
+import { xsrfToken } from '@/lib/http';
+import Echo from 'laravel-echo';
+import Pusher from 'pusher-js';
+
+let echo: Echo<'reverb'> | null = null;
+
+export function getEcho(): Echo<'reverb'> | null {
+    if (typeof window === 'undefined' || !import.meta.env.VITE_REVERB_APP_KEY) {
+        return null;
+    }
+
+    if (!echo) {
+        const scheme = import.meta.env.VITE_REVERB_SCHEME ?? 'https';
+        const port = Number(import.meta.env.VITE_REVERB_PORT ?? (scheme === 'https' ? 443 : 80));
+
+        echo = new Echo({
+            broadcaster: 'reverb',
+            Pusher,
+            key: import.meta.env.VITE_REVERB_APP_KEY,
+            wsHost: import.meta.env.VITE_REVERB_HOST ?? window.location.hostname,
+            wsPort: port,
+            wssPort: port,
+            forceTLS: scheme === 'https',
+            enabledTransports: ['ws', 'wss'],
+            auth: {
+                headers: { 'X-XSRF-TOKEN': xsrfToken() },
+            },
+        });
+    }
+
+    return echo;
+}
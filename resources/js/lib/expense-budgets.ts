@@ -0,0 +1,70 @@
+export type BudgetPeriod = 'monthly' | 'quarterly' | 'yearly';
+
+export type BudgetStatus = 'active' | 'exceeded' | 'inactive' | 'completed';
+
+export interface ExpenseBudget {
+    id: number;
+    budget_name: string;
+    category_id: number;
+    branch_id: number | null;
+    category: { id: number; name: string; color: string | null } | null;
+    branch: { id: number; name: string } | null;
+    budget_period: BudgetPeriod;
+    budget_year: number;
+    budget_month: number | null;
+    budget_quarter: number | null;
+    start_date: string;
+    end_date: string;
+    budget_amount: number;
+    spent_amount: number;
+    remaining_amount: number;
+    spent_percentage: number;
+    alert_threshold: number;
+    send_alerts: boolean;
+    status: BudgetStatus;
+}
+
+export interface ExpenseBudgetFormOptions {
+    categories: { id: number; name: string; code: string | null; color: string | null }[];
+    branches: { id: number; name: string }[];
+    periods: Record<BudgetPeriod, string>;
+}
+
+export const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+export const money = (value: number) => `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const periodLabel = (budget: Pick<ExpenseBudget, 'budget_period' | 'budget_year' | 'budget_month' | 'budget_quarter'>) => {
+    switch (budget.budget_period) {
+        case 'monthly':
+            return `${MONTHS[(budget.budget_month ?? 1) - 1]} ${budget.budget_year}`;
+        case 'quarterly':
+            return `Q${budget.budget_quarter} ${budget.budget_year}`;
+        default:
+            return `${budget.budget_year}`;
+    }
+};
+
+export const statusBadgeClass = (status: string) => {
+    switch (status) {
+        case 'active':
+            return 'bg-green-100 text-green-800';
+        case 'exceeded':
+            return 'bg-red-100 text-red-800';
+        case 'completed':
+            return 'bg-blue-100 text-blue-800';
+        default:
+            return 'bg-gray-100 text-gray-800';
+    }
+};
+
+// Bar colour follows the budget's own alert threshold rather than a fixed percentage
+export const progressClass = (percentage: number, threshold: number) => {
+    if (percentage > 100) {
+        return '[&>div]:bg-red-600';
+    }
+    if (percentage >= threshold) {
+        return '[&>div]:bg-yellow-500';
+    }
+    return '[&>div]:bg-green-600';
+};
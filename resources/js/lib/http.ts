@@ -0,0 +1,46 @@
+// JSON requests for controller endpoints that return JsonResponse instead of an Inertia page
+
+export function xsrfToken(): string {
+    const match = document.cookie.match(/(?:^|;\s*)XSRF-TOKEN=([^;]*)/);
+
+    return match ? decodeURIComponent(match[1]) : '';
+}
+
+export class HttpError extends Error {
+    constructor(
+        message: string,
+        public status: number,
+        public payload: Record<string, unknown> = {},
+    ) {
+        super(message);
+    }
+}
+
+export async function requestJson<T = Record<string, unknown>>(
+    url: string,
+    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' = 'GET',
+    body?: Record<string, unknown> | FormData,
+): Promise<T> {
+    // File uploads go as multipart; the browser sets the boundary in Content-Type itself
+    const isForm = body instanceof FormData;
+
+    const response = await fetch(url, {
+        method,
+        credentials: 'same-origin',
+        headers: {
+            Accept: 'application/json',
+            ...(isForm ? {} : { 'Content-Type': 'application/json' }),
+            'X-Requested-With': 'XMLHttpRequest',
+            'X-XSRF-TOKEN': xsrfToken(),
+        },
+        body: body && method !== 'GET' ? (isForm ? body : JSON.stringify(body)) : undefined,
+    });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok || payload.success === false) {
+        throw new HttpError(payload.error || payload.message || `Request failed (${response.status})`, response.status, payload);
+    }
+
+    return payload as T;
+}
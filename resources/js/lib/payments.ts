@@ -0,0 +1,49 @@
+export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'refunded';
+
+export type VerificationStatus = 'pending' | 'verified' | 'rejected';
+
+export interface InvoicePaymentSummary {
+    invoice_total: number;
+    total_paid: number;
+    total_credited: number;
+    pending_amount: number;
+    remaining_balance: number;
+    payment_status: string;
+}
+
+export const money = (value: number) => `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const statusBadgeClass = (status: string) => {
+    switch (status) {
+        case 'completed':
+            return 'bg-green-100 text-green-800';
+        case 'processing':
+            return 'bg-blue-100 text-blue-800';
+        case 'failed':
+            return 'bg-red-100 text-red-800';
+        case 'refunded':
+            return 'bg-purple-100 text-purple-800';
+        case 'cancelled':
+            return 'bg-gray-100 text-gray-600';
+        default:
+            return 'bg-yellow-100 text-yellow-800';
+    }
+};
+
+export const verificationBadgeClass = (status: string) => {
+    switch (status) {
+        case 'verified':
+            return 'bg-green-100 text-green-800';
+        case 'rejected':
+            return 'bg-red-100 text-red-800';
+        default:
+            return 'bg-yellow-100 text-yellow-800';
+    }
+};
+
+// Methods that need a bank name, a cheque number or a gateway reference, matching the request rules
+export const needsBankName = (method: string) => method === 'bank_transfer' || method === 'cheque';
+
+export const needsChequeNumber = (method: string) => method === 'cheque';
+
+export const needsGatewayReference = (method: string) => method === 'online';
@@ -0,0 +1,113 @@
+// Unit price rules for invoice lines; mirrors App\Services\ProductPricingService
+
+export interface PriceBreak {
+    min_quantity: number;
+    max_quantity: number | null;
+    unit_price: number;
+}
+
+export interface PriceListRow {
+    product_id: number;
+    min_quantity: number;
+    unit_price: number;
+}
+
+export interface CurrentPriceList {
+    id: number;
+    name: string;
+    customer_type: 'individual' | 'business' | null;
+    items: PriceListRow[];
+}
+
+export type PricingRuleType = 'customer_price_list' | 'group_price_list' | 'quantity_break' | 'base_price';
+
+export interface PricingRule {
+    type: PricingRuleType;
+    label: string;
+    price_list_id: number | null;
+}
+
+export interface PricedUnit {
+    unitPrice: number;
+    rule: PricingRule;
+}
+
+interface PricedProduct {
+    value: number;
+    base_price: number | string;
+    pricing_tiers?: PriceBreak[] | null;
+}
+
+interface PricedCustomer {
+    customer_type?: string | null;
+    price_list_id?: number | null;
+}
+
+export function priceBreakFor(breaks: PriceBreak[] | null | undefined, quantity: number): PriceBreak | null {
+    return (
+        [...(breaks ?? [])]
+            .sort((a, b) => Number(b.min_quantity) - Number(a.min_quantity))
+            .find(
+                (tier) =>
+                    quantity >= Number(tier.min_quantity) &&
+                    (tier.max_quantity === null || tier.max_quantity === undefined || quantity <= Number(tier.max_quantity)),
+            ) ?? null
+    );
+}
+
+function listRowFor(list: CurrentPriceList, productId: number, quantity: number): PriceListRow | null {
+    return (
+        list.items
+            .filter((row) => row.product_id === productId && Number(row.min_quantity) <= quantity)
+            .sort((a, b) => Number(b.min_quantity) - Number(a.min_quantity))[0] ?? null
+    );
+}
+
+const listLabel = (list: CurrentPriceList, row: PriceListRow) =>
+    Number(row.min_quantity) > 1 ? `${list.name} (${row.min_quantity}+ units)` : list.name;
+
+/**
+ * The customer's own list, then lists for their customer type (lowest price wins), then quantity breaks, then the base price
+ */
+export function resolveUnitPrice(
+    product: PricedProduct,
+    quantity: number,
+    customer: PricedCustomer | null,
+    priceLists: CurrentPriceList[],
+): PricedUnit {
+    if (customer) {
+        const assigned = customer.price_list_id ? priceLists.find((list) => list.id === customer.price_list_id) : undefined;
+        const assignedRow = assigned ? listRowFor(assigned, product.value, quantity) : null;
+
+        if (assigned && assignedRow) {
+            return {
+                unitPrice: Number(assignedRow.unit_price),
+                rule: { type: 'customer_price_list', label: listLabel(assigned, assignedRow), price_list_id: assigned.id },
+            };
+        }
+
+        const groupMatch = priceLists
+            .filter((list) => list.customer_type !== null && list.customer_type === customer.customer_type)
+            .map((list) => ({ list, row: listRowFor(list, product.value, quantity) }))
+            .filter((match): match is { list: CurrentPriceList; row: PriceListRow } => match.row !== null)
+            .sort((a, b) => Number(a.row.unit_price) - Number(b.row.unit_price))[0];
+
+        if (groupMatch) {
+            return {
+                unitPrice: Number(groupMatch.row.unit_price),
+                rule: { type: 'group_price_list', label: listLabel(groupMatch.list, groupMatch.row), price_list_id: groupMatch.list.id },
+            };
+        }
+    }
+
+    const priceBreak = priceBreakFor(product.pricing_tiers, quantity);
+
+    if (priceBreak) {
+        return {
+            unitPrice: Number(priceBreak.unit_price),
+            rule: { type: 'quantity_break', label: `Quantity break: ${priceBreak.min_quantity}+ units`, price_list_id: null },
+        };
+    }
+
+    return { unitPrice: Number(product.base_price) || 0, rule: { type: 'base_price', label: 'Base price', price_list_id: null } };
+}
@@ -0,0 +1,143 @@
+// Placement and stage transitions for the production kanban board; mirrors ProductionStageService rules
+
+export type StageStatus = 'pending' | 'ready' | 'in_progress' | 'requires_approval' | 'on_hold' | 'completed' | 'rejected' | 'skipped';
+
+export type StageAction = 'start' | 'complete' | 'hold' | 'resume';
+
+export interface KanbanStage {
+    id: number;
+    stage_name: string;
+    stage_status: StageStatus;
+    stage_order: number;
+    requires_customer_approval: boolean;
+    started_at: string | null;
+}
+
+export interface KanbanJob {
+    id: number;
+    job_number: string;
+    job_title: string | null;
+    job_type: string;
+    customer: string | null;
+    priority: string;
+    priority_label: string;
+    production_status: string;
+    assigned_to: string | null;
+    estimated_completion: string | null;
+    is_overdue: boolean;
+    stages: KanbanStage[];
+}
+
+export type Lane = 'queued' | 'in_progress';
+
+// A drop target: a lane inside a stage column, or one of the two special columns
+export type KanbanTarget = { column: string; lane: Lane } | { column: 'on_hold' } | { column: 'completed' };
+
+const isFinished = (stage: KanbanStage) => stage.stage_status === 'completed' || stage.stage_status === 'skipped';
+
+// The stage a job is currently at: the first one that has not been completed or skipped
+export function currentStage(job: KanbanJob): KanbanStage | null {
+    return job.stages.find((stage) => !isFinished(stage)) ?? null;
+}
+
+export function placement(job: KanbanJob): KanbanTarget {
+    const stage = currentStage(job);
+
+    if (!stage) {
+        return { column: 'completed' };
+    }
+
+    if (stage.stage_status === 'on_hold') {
+        return { column: 'on_hold' };
+    }
+
+    return { column: stage.stage_name, lane: stage.stage_status === 'in_progress' ? 'in_progress' : 'queued' };
+}
+
+/**
+ * Works out which stage action a drop stands for, or why it is not allowed.
+ * Starting moves a card across lanes of its column, completing moves it to the next column,
+ * and the On Hold column holds or resumes the current stage.
+ */
+export function resolveDrop(job: KanbanJob, target: KanbanTarget): { action: StageAction; stage: KanbanStage } | { error: string } | null {
+    const stage = currentStage(job);
+    const from = placement(job);
+
+    if (!stage) {
+        return { error: 'This job has finished every stage' };
+    }
+
+    if (from.column === target.column && ('lane' in from ? from.lane : null) === ('lane' in target ? target.lane : null)) {
+        return null;
+    }
+
+    if (target.column === 'on_hold') {
+        if (!['pending', 'ready', 'in_progress'].includes(stage.stage_status)) {
+            return { error: 'Only queued or running stages can be put on hold' };
+        }
+
+        return { action: 'hold', stage };
+    }
+
+    if (stage.stage_status === 'on_hold') {
+        if (target.column !== stage.stage_name) {
+            return { error: `Resume this job in the ${stage.stage_name.replace(/_/g, ' ')} column` };
+        }
+
+        return { action: 'resume', stage };
+    }
+
+    if (target.column === stage.stage_name && 'lane' in target && target.lane === 'in_progress') {
+        if (!['pending', 'ready'].includes(stage.stage_status)) {
+            return { error: stage.stage_status === 'requires_approval' ? 'This stage is waiting for approval' : 'This stage cannot be started' };
+        }
+
+        return { action: 'start', stage };
+    }
+
+    const nextStage = job.stages.find((candidate) => candidate.stage_order > stage.stage_order && !isFinished(candidate));
+    const completesStage = nextStage ? target.column === nextStage.stage_name : target.column === 'completed';
+
+    if (completesStage) {
+        if (stage.stage_status !== 'in_progress') {
+            return { error: 'Start this stage before completing it' };
+        }
+
+        return { action: 'complete', stage };
+    }
+
+    return { error: 'Jobs move one stage at a time' };
+}
+
+// The job as it will look once the server has applied the action
+export function applyAction(job: KanbanJob, stageId: number, action: StageAction): KanbanJob {
+    const now = new Date().toISOString();
+    const index = job.stages.findIndex((stage) => stage.id === stageId);
+    const stages = job.stages.map((stage) => ({ ...stage }));
+    const stage = stages[index];
+
+    switch (action) {
+        case 'start':
+            stage.stage_status = 'in_progress';
+            stage.started_at = now;
+            break;
+        case 'hold':
+            stage.stage_status = 'on_hold';
+            break;
+        case 'resume':
+            stage.stage_status = stage.started_at ? 'in_progress' : 'pending';
+            break;
+        case 'complete': {
+            stage.stage_status = 'completed';
+            const next = stages[index + 1];
+            if (next && next.stage_status === 'pending') {
+                next.stage_status = next.requires_customer_approval ? 'requires_approval' : 'ready';
+            }
+            break;
+        }
+    }
+
+    const finished = stages.every(isFinished);
+
+    return { ...job, stages, production_status: finished ? 'completed' : job.production_status };
+}
@@ -0,0 +1,63 @@
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'declined' | 'expired' | 'converted';
+
+export interface QuotationLine {
+    id: number;
+    product_id: number;
+    product_name: string | null;
+    unit_type: string | null;
+    item_description: string;
+    quantity: number;
+    unit_price: number;
+    unit_weight: number;
+    line_total: number;
+    line_weight: number;
+    tax_amount: number;
+    specifications: Record<string, unknown> | null;
+}
+
+// Quotation fields shared by the detail page and the edit form
+export interface QuotationDetails {
+    id: number;
+    quotation_number: string;
+    customer_id: number;
+    branch_id: number;
+    quotation_date: string;
+    valid_until: string;
+    status: QuotationStatus;
+    subtotal: number;
+    weight_charge: number;
+    tax_amount: number;
+    discount_amount: number;
+    total_amount: number;
+    total_weight: number;
+    notes: string | null;
+    terms_conditions: string | null;
+    items: QuotationLine[];
+}
+
+export const statusBadgeClass = (status: string) => {
+    switch (status) {
+        case 'sent':
+            return 'bg-blue-100 text-blue-800';
+        case 'accepted':
+            return 'bg-green-100 text-green-800';
+        case 'converted':
+            return 'bg-purple-100 text-purple-800';
+        case 'declined':
+            return 'bg-red-100 text-red-800';
+        case 'expired':
+            return 'bg-orange-100 text-orange-800';
+        default:
+            return 'bg-gray-100 text-gray-800';
+    }
+};
+
+/**
+ * Whole days from today until the validity date; negative once it has passed
+ */
+export function daysUntil(date: string): number {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    return Math.round((new Date(`${date}T00:00:00`).getTime() - today.getTime()) / 86_400_000);
+}
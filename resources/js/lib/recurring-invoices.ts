@@ -0,0 +1,46 @@
+export type RecurringPeriod = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export type RecurringStatus = 'active' | 'paused' | 'ended';
+
+export interface RecurringInvoiceLine {
+    id: number;
+    product_id: number;
+    product_name: string | null;
+    unit_type: string | null;
+    item_description: string;
+    quantity: number;
+    // Null follows the customer's price when each invoice is generated
+    unit_price: number | null;
+    specifications: Record<string, unknown> | null;
+}
+
+// Profile fields shared by the detail page and the edit form
+export interface RecurringInvoiceDetails {
+    id: number;
+    name: string;
+    customer_id: number;
+    branch_id: number;
+    recurring_period: RecurringPeriod;
+    start_date: string;
+    end_date: string | null;
+    payment_terms_days: number;
+    discount_amount: number;
+    auto_send: boolean;
+    notes: string | null;
+    terms_conditions: string | null;
+    items: RecurringInvoiceLine[];
+}
+
+export const statusBadgeClass = (status: string) => {
+    switch (status) {
+        case 'active':
+            return 'bg-green-100 text-green-800';
+        case 'paused':
+            return 'bg-yellow-100 text-yellow-800';
+        default:
+            return 'bg-gray-100 text-gray-800';
+    }
+};
+
+export const formatRunDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
@@ -0,0 +1,64 @@
+export interface ReportFilters {
+    start_date: string;
+    end_date: string;
+    branch_id: number | null;
+}
+
+export interface ReportBranch {
+    id: number;
+    name: string;
+}
+
+export interface ReportPageProps {
+    filters: ReportFilters;
+    branches: ReportBranch[];
+}
+
+export interface DateRangePreset {
+    label: string;
+    start_date: string;
+    end_date: string;
+}
+
+const isoDate = (date: Date) => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export function dateRangePresets(today: Date = new Date()): DateRangePreset[] {
+    const year = today.getFullYear();
+    const month = today.getMonth();
+    const thirtyDaysAgo = new Date(year, month, today.getDate() - 29);
+
+    return [
+        { label: 'This Month', start_date: isoDate(new Date(year, month, 1)), end_date: isoDate(today) },
+        { label: 'Last Month', start_date: isoDate(new Date(year, month - 1, 1)), end_date: isoDate(new Date(year, month, 0)) },
+        { label: 'Last 30 Days', start_date: isoDate(thirtyDaysAgo), end_date: isoDate(today) },
+        { label: 'This Year', start_date: isoDate(new Date(year, 0, 1)), end_date: isoDate(today) },
+    ];
+}
+
+export const formatCurrency = (amount: number | string | null | undefined) =>
+    new Intl.NumberFormat('en-LK', { style: 'currency', currency: 'LKR', minimumFractionDigits: 2 })
+        .format(Number(amount ?? 0))
+        .replace('LKR', 'Rs.');
+
+export const formatPercent = (value: number | null | undefined) => (value === null || value === undefined ? '—' : `${value}%`);
+
+// "out_for_delivery" -> "Out For Delivery"
+export const humanize = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+// "2025-08-14" -> "14 Aug"; parsed as a local date so the label does not shift across time zones
+export function shortDate(date: string): string {
+    const [year, month, day] = date.split('-').map(Number);
+
+    return new Date(year, month - 1, day).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+}
+
+export function breakdownFromCounts(counts: Record<string, number>): { label: string; value: number }[] {
+    return Object.entries(counts)
+        .map(([key, value]) => ({ label: humanize(key), value }))
+        .sort((a, b) => b.value - a.value);
+}
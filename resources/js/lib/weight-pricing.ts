@@ -0,0 +1,98 @@
+export interface WeightPricingTier {
+    id: number;
+    tier_name: string;
+    min_weight: number;
+    max_weight: number | null;
+    base_price: number;
+    price_per_kg: number;
+    weight_range?: string;
+}
+
+export interface WeightChargeResult {
+    tier: WeightPricingTier | null;
+    basePrice: number;
+    additionalPrice: number;
+    total: number;
+}
+
+// Mirrors WeightPricingTierRepository::findTierForWeight - lowest matching min_weight wins
+export function findWeightPricingTier(tiers: WeightPricingTier[], weight: number): WeightPricingTier | null {
+    const sorted = [...tiers].sort((a, b) => Number(a.min_weight) - Number(b.min_weight));
+
+    return (
+        sorted.find((tier) => {
+            const minWeight = Number(tier.min_weight);
+            const maxWeight = tier.max_weight === null || tier.max_weight === undefined ? null : Number(tier.max_weight);
+
+            return weight >= minWeight && (maxWeight === null || weight <= maxWeight);
+        }) ?? null
+    );
+}
+
+// Mirrors WeightPricingTier::calculatePrice - base price plus per-kg charge above the tier minimum
+export function calculateWeightCharge(tiers: WeightPricingTier[], weight: number): WeightChargeResult {
+    const tier = findWeightPricingTier(tiers, weight);
+
+    if (!tier) {
+        return { tier: null, basePrice: 0, additionalPrice: 0, total: 0 };
+    }
+
+    const basePrice = Number(tier.base_price) || 0;
+    const additionalPrice = Math.max(0, (weight - Number(tier.min_weight)) * (Number(tier.price_per_kg) || 0));
+    const total = Math.round((basePrice + additionalPrice) * 100) / 100;
+
+    return { tier, basePrice, additionalPrice, total };
+}
+
+export function formatWeightRange(tier: Pick<WeightPricingTier, 'min_weight' | 'max_weight'>): string {
+    return tier.max_weight === null || tier.max_weight === undefined
+        ? `${Number(tier.min_weight)}kg+`
+        : `${Number(tier.min_weight)}kg - ${Number(tier.max_weight)}kg`;
+}
+
+export interface TierRangeIssue {
+    type: 'overlap' | 'gap';
+    message: string;
+    tierIds: number[];
+}
+
+type TierRange = Pick<WeightPricingTier, 'id' | 'tier_name' | 'min_weight' | 'max_weight'>;
+
+const maxOf = (tier: TierRange) => (tier.max_weight === null || tier.max_weight === undefined ? Infinity : Number(tier.max_weight));
+
+// Same overlap rule as WeightPricingService::validateWeightRange - touching boundaries are allowed
+export function rangesOverlap(a: TierRange, b: TierRange): boolean {
+    return Number(a.min_weight) < maxOf(b) && maxOf(a) > Number(b.min_weight);
+}
+
+export function findTierRangeIssues(tiers: TierRange[]): TierRangeIssue[] {
+    const sorted = [...tiers].sort((a, b) => Number(a.min_weight) - Number(b.min_weight));
+    const issues: TierRangeIssue[] = [];
+
+    sorted.forEach((tier, index) => {
+        sorted.slice(index + 1).forEach((other) => {
+            if (rangesOverlap(tier, other)) {
+                issues.push({
+                    type: 'overlap',
+                    message: `"${tier.tier_name}" overlaps "${other.tier_name}"`,
+                    tierIds: [tier.id, other.id],
+                });
+            }
+        });
+    });
+
+    let coveredUpTo = 0;
+    sorted.forEach((tier) => {
+        const minWeight = Number(tier.min_weight);
+        if (minWeight > coveredUpTo) {
+            issues.push({
+                type: 'gap',
+                message: `No tier covers ${coveredUpTo}kg - ${minWeight}kg`,
+                tierIds: [tier.id],
+            });
+        }
+        coveredUpTo = Math.max(coveredUpTo, maxOf(tier));
+    });
+
+    return issues;
+}
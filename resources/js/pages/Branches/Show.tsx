@@ -392,9 +392,9 @@ export default function ShowBranch({ branch }: Props) {
                             </CardHeader>
                             <CardContent className="space-y-2">
                                 <Button size="sm" variant="outline" className="w-full" asChild>
-                                    <Link href={`/orders/create?branch_id=${branch.id}`}>
+                                    <Link href={`/quotations/create?branch_id=${branch.id}`}>
                                         <Plus className="h-4 w-4 mr-2" />
-                                        Create Order
+                                        Create Quotation
                                     </Link>
                                 </Button>
                                 <Button size="sm" variant="outline" className="w-full" asChild>
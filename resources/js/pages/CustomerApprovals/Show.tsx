@@ -0,0 +1,213 @@
+// resources/js/pages/CustomerApprovals/Show.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Head, useForm } from '@inertiajs/react';
+import { AlertTriangle, CheckCircle, Download, FileText, MessageSquare } from 'lucide-react';
+
+interface Attachment {
+    url: string;
+    name: string;
+    mime_type: string | null;
+}
+
+interface Props {
+    stage: {
+        id: number;
+        stage_name: string;
+        stage_status: string;
+        awaiting_response: boolean;
+        attachments: Attachment[];
+        customer_response: { decision: 'approve' | 'request_changes'; comments: string | null; responded_at: string } | null;
+    };
+    print_job: {
+        job_number: string;
+        job_title: string | null;
+        job_type: string;
+        specifications: Record<string, unknown> | null;
+        customer_instructions: string | null;
+    };
+    company: { name: string | null; phone: string | null; email: string | null };
+    customer_name: string | null;
+    respond_url: string;
+    expires_at: string;
+}
+
+const isImage = (attachment: Attachment) => attachment.mime_type?.startsWith('image/') ?? /\.(jpe?g|png)$/i.test(attachment.url);
+
+export default function CustomerApproval({ stage, print_job, company, customer_name, respond_url, expires_at }: Props) {
+    const { data, setData, post, transform, processing, errors } = useForm({
+        comments: '',
+        name: customer_name ?? '',
+    });
+
+    const fieldErrors = errors as Record<string, string>;
+    const specifications = Object.entries(print_job.specifications ?? {}).filter(([, value]) => value !== null && typeof value !== 'object');
+
+    const submit = (decision: 'approve' | 'request_changes') => {
+        transform((form) => ({ ...form, decision }));
+        post(respond_url, { preserveScroll: true });
+    };
+
+    const response = stage.customer_response;
+    const outcome =
+        stage.stage_status === 'completed'
+            ? 'This proof has been approved. Thank you!'
+            : stage.stage_status !== 'rejected'
+              ? 'This proof is not ready for review yet. Please check back later.'
+              : response?.decision === 'request_changes'
+                ? 'Your change request has been sent. We will share an updated proof on this link.'
+                : 'This proof is being revised. We will share an updated proof on this link.';
+
+    return (
+        <div className="min-h-svh bg-muted/40 px-4 py-10">
+            <Head title={`Proof approval · ${print_job.job_number}`} />
+
+            <div className="mx-auto max-w-3xl space-y-6">
+                <div className="text-center">
+                    {company.name && <p className="text-sm font-medium text-muted-foreground">{company.name}</p>}
+                    <h1 className="text-2xl font-bold tracking-tight">Please review your proof</h1>
+                    <p className="text-muted-foreground">
+                        {print_job.job_title ?? print_job.job_type} · Job {print_job.job_number} · {stage.stage_name}
+                    </p>
+                </div>
+
+                {fieldErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Proofs</CardTitle>
+                        <CardDescription>Open each file and check text, colours, sizes and layout carefully before approving.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {stage.attachments.length === 0 && <p className="text-sm text-muted-foreground">No proof files have been shared yet.</p>}
+                        {stage.attachments.map((attachment) =>
+                            isImage(attachment) ? (
+                                <a key={attachment.url} href={attachment.url} target="_blank" rel="noreferrer" className="block">
+                                    <img src={attachment.url} alt={attachment.name} className="w-full rounded-md border" />
+                                    <span className="mt-1 block text-xs text-muted-foreground">{attachment.name}</span>
+                                </a>
+                            ) : (
+                                <a
+                                    key={attachment.url}
+                                    href={attachment.url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="flex items-center justify-between rounded-md border p-3 text-sm hover:bg-muted"
+                                >
+                                    <span className="flex items-center gap-2">
+                                        <FileText className="h-5 w-5 text-muted-foreground" />
+                                        {attachment.name}
+                                    </span>
+                                    <Download className="h-4 w-4" />
+                                </a>
+                            ),
+                        )}
+                    </CardContent>
+                </Card>
+
+                {(specifications.length > 0 || print_job.customer_instructions) && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Job Details</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3 text-sm">
+                            {specifications.length > 0 && (
+                                <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+                                    {specifications.map(([key, value]) => (
+                                        <div key={key} className="contents">
+                                            <dt className="text-muted-foreground capitalize">{key.replace(/_/g, ' ')}</dt>
+                                            <dd>{String(value)}</dd>
+                                        </div>
+                                    ))}
+                                </dl>
+                            )}
+                            {print_job.customer_instructions && (
+                                <p className="whitespace-pre-line">
+                                    <span className="text-muted-foreground">Your instructions: </span>
+                                    {print_job.customer_instructions}
+                                </p>
+                            )}
+                        </CardContent>
+                    </Card>
+                )}
+
+                {stage.awaiting_response ? (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Your Decision</CardTitle>
+                            <CardDescription>
+                                Approving sends the job to production. This link expires on {new Date(expires_at).toLocaleDateString()}.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid gap-2">
+                                <Label htmlFor="name">Your Name</Label>
+                                <Input id="name" value={data.name} onChange={(e) => setData('name', e.target.value)} maxLength={100} />
+                                <InputError message={errors.name} />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="comments">Comments</Label>
+                                <Textarea
+                                    id="comments"
+                                    rows={4}
+                                    maxLength={1000}
+                                    value={data.comments}
+                                    onChange={(e) => setData('comments', e.target.value)}
+                                    placeholder="Required if you need changes, e.g. 'Please make the logo larger'"
+                                />
+                                <InputError message={errors.comments} />
+                                <InputError message={fieldErrors.decision} />
+                            </div>
+                            <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+                                <Button variant="outline" disabled={processing} onClick={() => submit('request_changes')}>
+                                    <MessageSquare className="mr-2 h-4 w-4" />
+                                    Request Changes
+                                </Button>
+                                <Button disabled={processing} onClick={() => submit('approve')}>
+                                    <CheckCircle className="mr-2 h-4 w-4" />
+                                    Approve Proof
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <Card>
+                        <CardContent className="flex items-start gap-3 p-6">
+                            {stage.stage_status !== 'completed' ? (
+                                <MessageSquare className="mt-0.5 h-5 w-5 text-amber-600" />
+                            ) : (
+                                <CheckCircle className="mt-0.5 h-5 w-5 text-green-600" />
+                            )}
+                            <div className="space-y-1 text-sm">
+                                <p className="font-medium">{outcome}</p>
+                                {response?.comments && <p className="whitespace-pre-line text-muted-foreground">“{response.comments}”</p>}
+                                {response?.responded_at && (
+                                    <p className="text-xs text-muted-foreground">Received {new Date(response.responded_at).toLocaleString()}</p>
+                                )}
+                            </div>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {(company.phone || company.email) && (
+                    <p className="text-center text-sm text-muted-foreground">
+                        Questions? Contact {company.name ?? 'us'}
+                        {company.phone && ` on ${company.phone}`}
+                        {company.email && ` or ${company.email}`}.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,680 @@
+// resources/js/pages/Customers/Import.tsx
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { downloadCsv, normalizeHeader, parseCsv } from '@/lib/csv';
+import { requestJson } from '@/lib/http';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, ArrowRight, CheckCircle, Download, FileSpreadsheet, Loader2, Upload, XCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+interface Props {
+    fields: string[];
+    branches: { value: number; label: string }[];
+    defaultBranchId: number | null;
+    maxRows: number;
+    permissions: {
+        canUpdateExisting: boolean;
+    };
+}
+
+type Step = 'upload' | 'map' | 'review' | 'results';
+
+type ImportRow = { row_number: number } & Record<string, string | number>;
+
+interface PreviewRow {
+    row_number: number;
+    errors: string[];
+    duplicate: { id: number; name: string; customer_code: string; matched_on: string } | null;
+}
+
+interface ImportResult {
+    row_number: number;
+    status: 'created' | 'updated' | 'skipped' | 'failed';
+    customer_id: number | null;
+    customer_code: string | null;
+    name: string | null;
+    message: string;
+}
+
+interface ImportSummary {
+    total_rows: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+    results: ImportResult[];
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Customers', href: '/customers' },
+    { title: 'Import', href: '/customers/import' },
+];
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+// Labels and the spreadsheet headings each field is recognised by when mapping columns automatically
+const FIELD_META: Record<string, { label: string; aliases?: string[] }> = {
+    customer_code: { label: 'Customer Code', aliases: ['code', 'customer_id', 'customer_no'] },
+    name: { label: 'Name', aliases: ['customer_name', 'full_name'] },
+    email: { label: 'Email', aliases: ['email_address', 'e_mail'] },
+    phone: { label: 'Phone', aliases: ['mobile', 'telephone', 'phone_number', 'contact_number'] },
+    billing_address: { label: 'Billing Address', aliases: ['address', 'address_line'] },
+    shipping_address: { label: 'Shipping Address', aliases: ['delivery_address'] },
+    city: { label: 'City', aliases: ['town'] },
+    postal_code: { label: 'Postal Code', aliases: ['postcode', 'zip', 'zip_code'] },
+    district: { label: 'District' },
+    province: { label: 'Province' },
+    tax_number: { label: 'Tax Number', aliases: ['tin', 'vat_number', 'vat_no'] },
+    credit_limit: { label: 'Credit Limit' },
+    status: { label: 'Status' },
+    customer_type: { label: 'Customer Type', aliases: ['type'] },
+    date_of_birth: { label: 'Date of Birth', aliases: ['dob', 'birthday'] },
+    company_name: { label: 'Company Name', aliases: ['company', 'business_name'] },
+    company_registration: { label: 'Company Registration', aliases: ['registration_number', 'br_number'] },
+    contact_person: { label: 'Contact Person' },
+    contact_person_phone: { label: 'Contact Person Phone' },
+    contact_person_email: { label: 'Contact Person Email' },
+    emergency_contact_name: { label: 'Emergency Contact Name' },
+    emergency_contact_phone: { label: 'Emergency Contact Phone' },
+    emergency_contact_relationship: { label: 'Emergency Contact Relationship' },
+    notes: { label: 'Notes', aliases: ['remarks', 'comments'] },
+};
+
+const REQUIRED_FIELDS = ['name', 'phone', 'billing_address', 'city'];
+const BUSINESS_FIELDS = ['company_name', 'contact_person'];
+
+// Columns checked for repeats within the file itself, mirroring the server's duplicate lookup
+const DUPLICATE_KEYS: { field: string; label: string; normalize: (value: string) => string }[] = [
+    { field: 'customer_code', label: 'customer code', normalize: (value) => value.trim().toUpperCase() },
+    { field: 'email', label: 'email', normalize: (value) => value.trim().toLowerCase() },
+    { field: 'phone', label: 'phone', normalize: (value) => value.replace(/\D/g, '').slice(-9) },
+];
+
+const fieldLabel = (field: string) => FIELD_META[field]?.label ?? field.replace(/_/g, ' ');
+
+const statusClasses: Record<ImportResult['status'], string> = {
+    created: 'bg-green-100 text-green-800',
+    updated: 'bg-blue-100 text-blue-800',
+    skipped: 'bg-gray-100 text-gray-800',
+    failed: 'bg-red-100 text-red-800',
+};
+
+function autoMap(fields: string[], headers: string[]): Record<string, string> {
+    const normalized = headers.map(normalizeHeader);
+
+    return Object.fromEntries(
+        fields.map((field) => {
+            const candidates = [field, FIELD_META[field]?.label ?? '', ...(FIELD_META[field]?.aliases ?? [])].map(normalizeHeader);
+            const index = normalized.findIndex((header) => header !== '' && candidates.includes(header));
+
+            return [field, index === -1 ? '' : String(index)];
+        }),
+    );
+}
+
+export default function CustomerImport({ fields, branches, defaultBranchId, maxRows, permissions }: Props) {
+    const [step, setStep] = useState<Step>('upload');
+    const [fileName, setFileName] = useState('');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [dataRows, setDataRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<Record<string, string>>({});
+    const [preview, setPreview] = useState<PreviewRow[]>([]);
+    const [filter, setFilter] = useState<'all' | 'errors' | 'duplicates'>('all');
+    const [duplicateMode, setDuplicateMode] = useState<'skip' | 'update'>('skip');
+    const [branchId, setBranchId] = useState(defaultBranchId ? String(defaultBranchId) : '');
+    const [summary, setSummary] = useState<ImportSummary | null>(null);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const mappedRows = useMemo<ImportRow[]>(
+        () =>
+            dataRows.map((cells, index) => {
+                const row: ImportRow = { row_number: index + 2 };
+
+                Object.entries(mapping).forEach(([field, column]) => {
+                    if (column !== '') {
+                        row[field] = cells[Number(column)]?.trim() ?? '';
+                    }
+                });
+
+                return row;
+            }),
+        [dataRows, mapping],
+    );
+
+    // Repeats within the file: later rows point at the first row that used the same value
+    const repeatedIn = useMemo(() => {
+        const repeats: Record<number, string> = {};
+
+        DUPLICATE_KEYS.forEach(({ field, label, normalize }) => {
+            const seen = new Map<string, number>();
+
+            mappedRows.forEach((row) => {
+                const value = row[field] ? normalize(String(row[field])) : '';
+
+                if (value === '') {
+                    return;
+                }
+
+                const first = seen.get(value);
+
+                if (first === undefined) {
+                    seen.set(value, row.row_number);
+                } else if (!repeats[row.row_number]) {
+                    repeats[row.row_number] = `Same ${label} as row ${first}`;
+                }
+            });
+        });
+
+        return repeats;
+    }, [mappedRows]);
+
+    const missingRequired = REQUIRED_FIELDS.filter((field) => !mapping[field]);
+    const businessUnmapped = BUSINESS_FIELDS.filter((field) => !mapping[field]);
+
+    const reviewRows = preview.map((result) => ({
+        ...result,
+        data: mappedRows[result.row_number - 2],
+        repeatOf: repeatedIn[result.row_number] ?? null,
+    }));
+
+    const errorCount = reviewRows.filter((row) => row.errors.length > 0).length;
+    const duplicateCount = reviewRows.filter((row) => row.errors.length === 0 && (row.duplicate || row.repeatOf)).length;
+    const readyCount = reviewRows.length - errorCount - duplicateCount;
+
+    const visibleRows = reviewRows.filter((row) => {
+        if (filter === 'errors') {
+            return row.errors.length > 0;
+        }
+
+        if (filter === 'duplicates') {
+            return row.duplicate !== null || row.repeatOf !== null;
+        }
+
+        return true;
+    });
+
+    const handleFile = async (file: File | undefined) => {
+        setError(null);
+
+        if (!file) {
+            return;
+        }
+
+        if (!file.name.toLowerCase().endsWith('.csv')) {
+            setError('Please choose a CSV file. Save Excel sheets as "CSV UTF-8" first.');
+            return;
+        }
+
+        const rows = parseCsv(await file.text());
+
+        if (rows.length < 2) {
+            setError('The file needs a header row and at least one customer row.');
+            return;
+        }
+
+        if (rows.length - 1 > maxRows) {
+            setError(`The file has ${rows.length - 1} rows. Split it into files of at most ${maxRows} rows.`);
+            return;
+        }
+
+        const [headerRow, ...rest] = rows;
+
+        setFileName(file.name);
+        setHeaders(headerRow.map((header) => header.trim()));
+        setDataRows(rest);
+        setMapping(autoMap(fields, headerRow));
+        setStep('map');
+    };
+
+    const downloadSample = () => {
+        downloadCsv('customer-import-sample.csv', [
+            fields,
+            fields.map(
+                (field) =>
+                    ({
+                        name: 'Nimal Perera',
+                        phone: '0771234567',
+                        email: 'nimal@example.com',
+                        billing_address: '12 Temple Road',
+                        city: 'Colombo',
+                        district: 'Colombo',
+                        province: 'western',
+                        customer_type: 'individual',
+                        status: 'active',
+                        credit_limit: '5000',
+                    })[field] ?? '',
+            ),
+        ]);
+    };
+
+    const runPreview = async () => {
+        setProcessing(true);
+        setError(null);
+
+        try {
+            const response = await requestJson<{ rows: PreviewRow[] }>(route('customers.import.preview'), 'POST', { rows: mappedRows });
+            setPreview(response.rows);
+            setFilter('all');
+            setStep('review');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Could not check the rows.');
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const runImport = async () => {
+        setProcessing(true);
+        setError(null);
+
+        try {
+            const response = await requestJson<ImportSummary>(route('customers.import.store'), 'POST', {
+                rows: mappedRows,
+                duplicate_mode: duplicateMode,
+                branch_id: branchId ? Number(branchId) : null,
+            });
+            setSummary(response);
+            setStep('results');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Customer import failed.');
+        } finally {
+            setProcessing(false);
+        }
+    };
+
+    const downloadReport = () => {
+        if (!summary) {
+            return;
+        }
+
+        downloadCsv(`customer-import-report-${new Date().toISOString().slice(0, 10)}.csv`, [
+            ['Row', 'Status', 'Customer Code', 'Name', 'Message'],
+            ...summary.results.map((result) => [result.row_number, result.status, result.customer_code, result.name, result.message]),
+        ]);
+    };
+
+    const startOver = () => {
+        setStep('upload');
+        setFileName('');
+        setHeaders([]);
+        setDataRows([]);
+        setMapping({});
+        setPreview([]);
+        setSummary(null);
+        setError(null);
+    };
+
+    const steps: { key: Step; label: string }[] = [
+        { key: 'upload', label: 'Upload' },
+        { key: 'map', label: 'Map Columns' },
+        { key: 'review', label: 'Review' },
+        { key: 'results', label: 'Results' },
+    ];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Import Customers" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold">Import Customers</h1>
+                        <p className="text-muted-foreground">Add customers in bulk from a CSV file</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('customers.index')}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to Customers
+                        </Link>
+                    </Button>
+                </div>
+
+                <ol className="flex flex-wrap gap-2 text-sm">
+                    {steps.map((item, index) => (
+                        <li
+                            key={item.key}
+                            className={`rounded-full px-3 py-1 ${
+                                item.key === step ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+                            }`}
+                        >
+                            {index + 1}. {item.label}
+                        </li>
+                    ))}
+                </ol>
+
+                {error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {step === 'upload' && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Choose a File</CardTitle>
+                            <CardDescription>
+                                CSV with a header row, up to {maxRows.toLocaleString()} customers. Phone numbers may be in 07X or +94 format.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <label className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 text-center hover:bg-muted/50">
+                                <Upload className="h-8 w-8 text-muted-foreground" />
+                                <span className="font-medium">Click to select a CSV file</span>
+                                <span className="text-sm text-muted-foreground">Nothing is saved until you confirm the import</span>
+                                <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+                            </label>
+                            <Button variant="outline" onClick={downloadSample}>
+                                <Download className="mr-2 h-4 w-4" />
+                                Download Sample CSV
+                            </Button>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {step === 'map' && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <FileSpreadsheet className="h-5 w-5" />
+                                {fileName}
+                            </CardTitle>
+                            <CardDescription>
+                                {dataRows.length} rows found. Match each customer field to a column in your file; unmatched fields are left blank.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                                {fields.map((field) => (
+                                    <div key={field} className="space-y-1">
+                                        <Label htmlFor={`map-${field}`}>
+                                            {fieldLabel(field)}
+                                            {REQUIRED_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                                        </Label>
+                                        <select
+                                            id={`map-${field}`}
+                                            className={selectClass}
+                                            value={mapping[field] ?? ''}
+                                            onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                                        >
+                                            <option value="">Not imported</option>
+                                            {headers.map((header, index) => (
+                                                <option key={index} value={String(index)}>
+                                                    {header || `Column ${index + 1}`}
+                                                    {dataRows[0]?.[index] ? ` (e.g. ${dataRows[0][index].slice(0, 30)})` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {missingRequired.length > 0 && (
+                                <Alert variant="destructive">
+                                    <AlertTriangle className="h-4 w-4" />
+                                    <AlertDescription>Map the required fields: {missingRequired.map(fieldLabel).join(', ')}.</AlertDescription>
+                                </Alert>
+                            )}
+                            {missingRequired.length === 0 && businessUnmapped.length > 0 && (
+                                <p className="text-sm text-muted-foreground">
+                                    Business customers also need {businessUnmapped.map(fieldLabel).join(' and ')}; those rows will be flagged if they
+                                    are not mapped.
+                                </p>
+                            )}
+
+                            <div className="flex justify-between">
+                                <Button variant="outline" onClick={startOver}>
+                                    <ArrowLeft className="mr-2 h-4 w-4" />
+                                    Choose Another File
+                                </Button>
+                                <Button onClick={runPreview} disabled={processing || missingRequired.length > 0}>
+                                    {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowRight className="mr-2 h-4 w-4" />}
+                                    Check Rows
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                )}
+
+                {step === 'review' && (
+                    <>
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                            <Card>
+                                <CardContent className="pt-6">
+                                    <div className="text-2xl font-bold text-green-600">{readyCount}</div>
+                                    <p className="text-sm text-muted-foreground">Ready to import</p>
+                                </CardContent>
+                            </Card>
+                            <Card>
+                                <CardContent className="pt-6">
+                                    <div className="text-2xl font-bold text-orange-600">{duplicateCount}</div>
+                                    <p className="text-sm text-muted-foreground">Possible duplicates</p>
+                                </CardContent>
+                            </Card>
+                            <Card>
+                                <CardContent className="pt-6">
+                                    <div className="text-2xl font-bold text-red-600">{errorCount}</div>
+                                    <p className="text-sm text-muted-foreground">Rows with errors (will not be imported)</p>
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        <Card>
+                            <CardHeader>
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <CardTitle>Preview</CardTitle>
+                                    <div className="flex gap-1">
+                                        {(['all', 'errors', 'duplicates'] as const).map((key) => (
+                                            <Button
+                                                key={key}
+                                                size="sm"
+                                                variant={filter === key ? 'default' : 'outline'}
+                                                onClick={() => setFilter(key)}
+                                            >
+                                                {key === 'all'
+                                                    ? `All (${reviewRows.length})`
+                                                    : key === 'errors'
+                                                      ? `Errors (${errorCount})`
+                                                      : 'Duplicates'}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </CardHeader>
+                            <CardContent className="overflow-x-auto">
+                                {visibleRows.length === 0 ? (
+                                    <p className="py-6 text-center text-sm text-muted-foreground">No rows to show</p>
+                                ) : (
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b text-left text-muted-foreground">
+                                                <th className="py-2 font-medium">Row</th>
+                                                <th className="py-2 font-medium">Name</th>
+                                                <th className="py-2 font-medium">Phone</th>
+                                                <th className="py-2 font-medium">Email</th>
+                                                <th className="py-2 font-medium">Issues</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {visibleRows.map((row) => (
+                                                <tr key={row.row_number} className="border-b align-top last:border-0">
+                                                    <td className="py-2">{row.row_number}</td>
+                                                    <td className="py-2">{row.data?.name || '—'}</td>
+                                                    <td className="py-2">{row.data?.phone || '—'}</td>
+                                                    <td className="py-2">{row.data?.email || '—'}</td>
+                                                    <td className="space-y-1 py-2">
+                                                        {row.errors.map((message) => (
+                                                            <div key={message} className="flex items-start gap-1 text-red-600">
+                                                                <XCircle className="mt-0.5 h-3 w-3 shrink-0" />
+                                                                {message}
+                                                            </div>
+                                                        ))}
+                                                        {row.duplicate && (
+                                                            <div className="flex items-start gap-1 text-orange-600">
+                                                                <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                                                                Matches {row.duplicate.name} ({row.duplicate.customer_code}) on{' '}
+                                                                {row.duplicate.matched_on}
+                                                            </div>
+                                                        )}
+                                                        {row.repeatOf && (
+                                                            <div className="flex items-start gap-1 text-orange-600">
+                                                                <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                                                                {row.repeatOf}
+                                                            </div>
+                                                        )}
+                                                        {row.errors.length === 0 && !row.duplicate && !row.repeatOf && (
+                                                            <span className="flex items-center gap-1 text-green-600">
+                                                                <CheckCircle className="h-3 w-3" />
+                                                                Ready
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Import Options</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                                    <div className="space-y-1">
+                                        <Label htmlFor="duplicate_mode">When a customer already exists</Label>
+                                        <select
+                                            id="duplicate_mode"
+                                            className={selectClass}
+                                            value={duplicateMode}
+                                            onChange={(e) => setDuplicateMode(e.target.value as 'skip' | 'update')}
+                                        >
+                                            <option value="skip">Skip the row</option>
+                                            {permissions.canUpdateExisting && <option value="update">Update the existing customer</option>}
+                                        </select>
+                                        {duplicateMode === 'update' && (
+                                            <p className="text-xs text-muted-foreground">
+                                                Filled-in cells overwrite the customer's details; blank cells and customer codes are left unchanged.
+                                            </p>
+                                        )}
+                                    </div>
+                                    {branches.length > 1 && (
+                                        <div className="space-y-1">
+                                            <Label htmlFor="branch_id">Branch for new customers</Label>
+                                            <select
+                                                id="branch_id"
+                                                className={selectClass}
+                                                value={branchId}
+                                                onChange={(e) => setBranchId(e.target.value)}
+                                            >
+                                                {branches.map((branch) => (
+                                                    <option key={branch.value} value={String(branch.value)}>
+                                                        {branch.label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="flex justify-between">
+                                    <Button variant="outline" onClick={() => setStep('map')} disabled={processing}>
+                                        <ArrowLeft className="mr-2 h-4 w-4" />
+                                        Back to Mapping
+                                    </Button>
+                                    <Button onClick={runImport} disabled={processing || readyCount + duplicateCount === 0}>
+                                        {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                                        Import {readyCount + duplicateCount} Rows
+                                    </Button>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    </>
+                )}
+
+                {step === 'results' && summary && (
+                    <>
+                        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                            {(['created', 'updated', 'skipped', 'failed'] as const).map((status) => (
+                                <Card key={status}>
+                                    <CardContent className="pt-6">
+                                        <div className="text-2xl font-bold">{summary[status]}</div>
+                                        <p className="text-sm text-muted-foreground capitalize">{status}</p>
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </div>
+
+                        <Card>
+                            <CardHeader>
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                    <div>
+                                        <CardTitle>Import Report</CardTitle>
+                                        <CardDescription>
+                                            {summary.total_rows} rows processed from {fileName}
+                                        </CardDescription>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button variant="outline" onClick={downloadReport}>
+                                            <Download className="mr-2 h-4 w-4" />
+                                            Download Report
+                                        </Button>
+                                        <Button variant="outline" onClick={startOver}>
+                                            <Upload className="mr-2 h-4 w-4" />
+                                            Import Another File
+                                        </Button>
+                                    </div>
+                                </div>
+                            </CardHeader>
+                            <CardContent className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2 font-medium">Row</th>
+                                            <th className="py-2 font-medium">Status</th>
+                                            <th className="py-2 font-medium">Customer</th>
+                                            <th className="py-2 font-medium">Message</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {summary.results.map((result) => (
+                                            <tr key={result.row_number} className="border-b align-top last:border-0">
+                                                <td className="py-2">{result.row_number}</td>
+                                                <td className="py-2">
+                                                    <Badge className={statusClasses[result.status]}>{result.status}</Badge>
+                                                </td>
+                                                <td className="py-2">
+                                                    {result.customer_id ? (
+                                                        <Link href={route('customers.show', result.customer_id)} className="hover:underline">
+                                                            {result.name}
+                                                        </Link>
+                                                    ) : (
+                                                        (result.name ?? '—')
+                                                    )}
+                                                    {result.customer_code && (
+                                                        <span className="ml-2 text-xs text-muted-foreground">{result.customer_code}</span>
+                                                    )}
+                                                </td>
+                                                <td className="py-2">{result.message}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </CardContent>
+                        </Card>
+                    </>
+                )}
+            </div>
+        </AppLayout>
+    );
+}
@@ -208,13 +208,21 @@ export default function CustomersIndex({ customers, branches = [], stats, filter
                             Manage your customer database and and  relationships
                         </p>
                     </div>
-                    <Button asChild>
-                        <Link href="/customers/create">
-                            <UserPlus className="h-4 w-4 mr-2" />
-                            Add Customer
-                    
-                        </Link>
-                    </Button>
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href={route('customers.import')}>
+                                <Upload className="h-4 w-4 mr-2" />
+                                Import
+                            </Link>
+                        </Button>
+                        <Button asChild>
+                            <Link href="/customers/create">
+                                <UserPlus className="h-4 w-4 mr-2" />
+                                Add Customer
+                        
+                            </Link>
+                        </Button>
+                    </div>
                 </div>
 
                 {/* Stats Cards */}
@@ -106,14 +106,37 @@ interface Statistics {
     outstanding_amount: number;
 }
 
+interface CreditNote {
+    id: number;
+    credit_note_number: string;
+    credit_date: string;
+    reason: string;
+    amount: number;
+    status: 'issued' | 'void';
+    status_label: string;
+    refunded_amount: number;
+    invoice: { id: number; invoice_number: string } | null;
+}
+
+interface Refund {
+    id: number;
+    payment_reference: string;
+    payment_date: string;
+    amount: number;
+    payment_method_label: string;
+    invoice: { id: number; invoice_number: string } | null;
+}
+
 interface Props {
     customer: Customer;
     recentInvoices: Invoice[];
     statistics: Statistics;
+    creditNotes: CreditNote[];
+    refunds: Refund[];
 }
 
 // Component
-export default function ShowCustomer({ customer, recentInvoices, statistics }: Props) {
+export default function ShowCustomer({ customer, recentInvoices, statistics, creditNotes = [], refunds = [] }: Props) {
     const [activeTab, setActiveTab] = useState('overview');
 
     const breadcrumbs: BreadcrumbItem[] = [
@@ -726,6 +749,71 @@ export default function ShowCustomer({ customer, recentInvoices, statistics }: P
                                 </CardContent>
                             </Card>
                         )}
+
+                        {/* Credit Notes & Refunds */}
+                        {(creditNotes.length > 0 || refunds.length > 0) && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Receipt className="h-5 w-5" />
+                                        Credit Notes & Refunds
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                    <div className="space-y-3">
+                                        <p className="text-sm text-muted-foreground">Credit Notes</p>
+                                        {creditNotes.map((creditNote) => (
+                                            <div key={creditNote.id} className={`flex items-start justify-between p-3 border rounded-lg ${creditNote.status === 'void' ? 'opacity-60' : ''}`}>
+                                                <div>
+                                                    <p className="font-semibold">
+                                                        {creditNote.credit_note_number}
+                                                        {creditNote.status === 'void' && (
+                                                            <Badge variant="secondary" className="ml-2 text-xs">{creditNote.status_label}</Badge>
+                                                        )}
+                                                    </p>
+                                                    <p className="text-sm text-muted-foreground">
+                                                        {formatDate(creditNote.credit_date)}
+                                                        {creditNote.invoice && (
+                                                            <>
+                                                                {' · '}
+                                                                <Link href={`/invoices/${creditNote.invoice.id}`} className="hover:underline">
+                                                                    {creditNote.invoice.invoice_number}
+                                                                </Link>
+                                                            </>
+                                                        )}
+                                                    </p>
+                                                    <p className="text-sm">{creditNote.reason}</p>
+                                                </div>
+                                                <div className="text-right">
+                                                    <p className="font-semibold text-purple-700">{formatCurrency(creditNote.amount)}</p>
+                                                    {creditNote.refunded_amount > 0 && (
+                                                        <p className="text-xs text-muted-foreground">Refunded {formatCurrency(creditNote.refunded_amount)}</p>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        ))}
+                                        {creditNotes.length === 0 && <p className="text-sm text-muted-foreground">No credit notes issued</p>}
+                                    </div>
+
+                                    <div className="space-y-3">
+                                        <p className="text-sm text-muted-foreground">Refunds</p>
+                                        {refunds.map((refund) => (
+                                            <div key={refund.id} className="flex items-start justify-between p-3 border rounded-lg">
+                                                <div>
+                                                    <p className="font-semibold">{refund.payment_reference}</p>
+                                                    <p className="text-sm text-muted-foreground">
+                                                        {formatDate(refund.payment_date)} · {refund.payment_method_label}
+                                                        {refund.invoice && ` · ${refund.invoice.invoice_number}`}
+                                                    </p>
+                                                </div>
+                                                <p className="font-semibold">{formatCurrency(refund.amount)}</p>
+                                            </div>
+                                        ))}
+                                        {refunds.length === 0 && <p className="text-sm text-muted-foreground">No refunds paid</p>}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        )}
                     </TabsContent>
 
                     {/* Recent Activity Tab */}
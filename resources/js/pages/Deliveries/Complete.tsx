@@ -0,0 +1,255 @@
+// resources/js/pages/Deliveries/Complete.tsx
+
+import InputError from '@/components/input-error';
+import SignaturePad from '@/components/signature-pad';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, Camera, CheckCircle, Crosshair, MapPin, PenLine, Phone } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+interface Props {
+    delivery: {
+        id: number;
+        tracking_number: string;
+        delivery_method: string;
+        delivery_address: string;
+        contact_person: string;
+        contact_phone: string;
+        delivery_notes: string | null;
+        customer_name: string | null;
+        reference: string | null;
+    };
+}
+
+type LocationState = 'idle' | 'locating' | 'found' | 'failed';
+
+interface Position {
+    latitude: string;
+    longitude: string;
+    accuracy: string;
+}
+
+export default function CompleteDelivery({ delivery }: Props) {
+    const [locationState, setLocationState] = useState<LocationState>('idle');
+    const [locationError, setLocationError] = useState<string | null>(null);
+    const [position, setPosition] = useState<Position | null>(null);
+    const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+
+    const { data, setData, post, transform, processing, errors } = useForm({
+        recipient_name: delivery.contact_person,
+        signature: null as string | null,
+        photo: null as File | null,
+        customer_feedback: '',
+        notes: '',
+    });
+
+    const fieldErrors = errors as Record<string, string>;
+    const isPickup = delivery.delivery_method === 'pickup';
+
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Deliveries', href: '/deliveries' },
+        { title: delivery.tracking_number, href: `/deliveries/${delivery.id}` },
+        { title: 'Complete', href: `/deliveries/${delivery.id}/complete` },
+    ];
+
+    const captureLocation = useCallback(() => {
+        if (!navigator.geolocation) {
+            setLocationState('failed');
+            setLocationError('This device cannot share its location');
+            return;
+        }
+
+        setLocationState('locating');
+        setLocationError(null);
+
+        navigator.geolocation.getCurrentPosition(
+            ({ coords }) => {
+                setLocationState('found');
+                setPosition({
+                    latitude: coords.latitude.toFixed(8),
+                    longitude: coords.longitude.toFixed(8),
+                    accuracy: coords.accuracy.toFixed(1),
+                });
+            },
+            (error) => {
+                setLocationState('failed');
+                setLocationError(error.message || 'Could not read the current location');
+            },
+            { enableHighAccuracy: true, timeout: 20000, maximumAge: 30000 },
+        );
+    }, []);
+
+    // Door-step deliveries record where the parcel was handed over without the rider having to ask
+    useEffect(() => {
+        if (!isPickup) {
+            captureLocation();
+        }
+    }, [isPickup, captureLocation]);
+
+    useEffect(
+        () => () => {
+            if (photoPreview) {
+                URL.revokeObjectURL(photoPreview);
+            }
+        },
+        [photoPreview],
+    );
+
+    const handlePhoto = (file: File | null) => {
+        setData('photo', file);
+        setPhotoPreview(file ? URL.createObjectURL(file) : null);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        transform((form) => ({ ...form, ...position }));
+        post(route('deliveries.proof', delivery.id), { forceFormData: true });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Complete ${delivery.tracking_number}`} />
+
+            <div className="mx-auto w-full max-w-xl space-y-4">
+                <div className="flex items-start justify-between gap-2">
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-tight">{isPickup ? 'Hand Over to Customer' : 'Complete Delivery'}</h1>
+                        <p className="font-mono text-sm text-muted-foreground">
+                            {delivery.tracking_number}
+                            {delivery.reference && ` · ${delivery.reference}`}
+                        </p>
+                    </div>
+                    <Button variant="outline" size="sm" asChild>
+                        <Link href={route('deliveries.show', delivery.id)}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back
+                        </Link>
+                    </Button>
+                </div>
+
+                {fieldErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <Card>
+                    <CardContent className="space-y-1 p-4 text-sm">
+                        {delivery.customer_name && <p className="font-medium">{delivery.customer_name}</p>}
+                        <p className="whitespace-pre-line text-muted-foreground">{delivery.delivery_address}</p>
+                        <a href={`tel:${delivery.contact_phone}`} className="inline-flex items-center gap-2 text-blue-600">
+                            <Phone className="h-4 w-4" />
+                            {delivery.contact_person} · {delivery.contact_phone}
+                        </a>
+                        {delivery.delivery_notes && <p className="rounded-md bg-muted p-2 whitespace-pre-line">{delivery.delivery_notes}</p>}
+                    </CardContent>
+                </Card>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-lg">
+                                <PenLine className="h-5 w-5" />
+                                Recipient
+                            </CardTitle>
+                            <CardDescription>Hand the device to the person receiving the order</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid gap-2">
+                                <Label htmlFor="recipient_name">Received by</Label>
+                                <Input
+                                    id="recipient_name"
+                                    value={data.recipient_name}
+                                    onChange={(e) => setData('recipient_name', e.target.value)}
+                                    autoComplete="off"
+                                    maxLength={255}
+                                />
+                                <InputError message={errors.recipient_name} />
+                            </div>
+
+                            <div className="grid gap-2">
+                                <Label>Signature *</Label>
+                                <SignaturePad onChange={(signature) => setData('signature', signature)} disabled={processing} />
+                                <InputError message={errors.signature} />
+                            </div>
+
+                            <div className="grid gap-2">
+                                <Label htmlFor="customer_feedback">Customer Feedback</Label>
+                                <Textarea
+                                    id="customer_feedback"
+                                    rows={2}
+                                    value={data.customer_feedback}
+                                    onChange={(e) => setData('customer_feedback', e.target.value)}
+                                    placeholder="Anything the customer wants us to know"
+                                />
+                                <InputError message={errors.customer_feedback} />
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-lg">
+                                <Camera className="h-5 w-5" />
+                                Photo
+                            </CardTitle>
+                            <CardDescription>The parcel at the door, or in the customer's hands</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {photoPreview && (
+                                <img src={photoPreview} alt="Delivery photo preview" className="max-h-64 w-full rounded-md border object-cover" />
+                            )}
+                            <Input type="file" accept="image/*" capture="environment" onChange={(e) => handlePhoto(e.target.files?.[0] ?? null)} />
+                            <InputError message={errors.photo} />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-lg">
+                                <MapPin className="h-5 w-5" />
+                                Location
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3 text-sm">
+                            {locationState === 'found' && position && (
+                                <p className="flex items-center gap-2 text-green-700">
+                                    <CheckCircle className="h-4 w-4" />
+                                    {position.latitude}, {position.longitude}
+                                    <span className="text-muted-foreground">(±{Math.round(Number(position.accuracy))} m)</span>
+                                </p>
+                            )}
+                            {locationState === 'locating' && <p className="text-muted-foreground">Finding your location...</p>}
+                            {locationState === 'idle' && <p className="text-muted-foreground">Location is optional for counter pickups.</p>}
+                            <InputError message={locationError ?? fieldErrors.latitude} />
+                            <Button type="button" variant="outline" size="sm" onClick={captureLocation} disabled={locationState === 'locating'}>
+                                <Crosshair className="mr-2 h-4 w-4" />
+                                {locationState === 'found' ? 'Refresh Location' : 'Use Current Location'}
+                            </Button>
+                        </CardContent>
+                    </Card>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="notes">Notes</Label>
+                        <Textarea id="notes" rows={2} value={data.notes} onChange={(e) => setData('notes', e.target.value)} />
+                        <InputError message={errors.notes} />
+                    </div>
+
+                    <Button type="submit" size="lg" className="w-full" disabled={processing || !data.signature}>
+                        <CheckCircle className="mr-2 h-5 w-5" />
+                        {processing ? 'Saving...' : 'Confirm Delivery'}
+                    </Button>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,378 @@
+// resources/js/pages/Deliveries/Create.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, MapPin, Package, Save, Truck } from 'lucide-react';
+
+interface Contact {
+    customer_name: string | null;
+    delivery_address: string | null;
+    contact_person: string | null;
+    contact_phone: string | null;
+}
+
+interface DeliverablePrintJob extends Contact {
+    id: number;
+    label: string;
+    completed_at: string | null;
+    invoice_number: string | null;
+}
+
+interface DeliverableInvoice extends Contact {
+    id: number;
+    label: string;
+    invoice_date: string | null;
+    total_amount: number;
+}
+
+interface Props {
+    printJobs: DeliverablePrintJob[];
+    invoices: DeliverableInvoice[];
+    riders: { id: number; name: string; phone: string | null }[];
+    deliveryMethods: Record<string, string>;
+    selected: { print_job_id: number | null; invoice_id: number | null };
+    can: { assign: boolean };
+}
+
+type Source = 'print_job' | 'invoice';
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Deliveries', href: '/deliveries' },
+    { title: 'Create', href: '/deliveries/create' },
+];
+
+export default function CreateDelivery({ printJobs, invoices, riders, deliveryMethods, selected, can }: Props) {
+    const initialSource: Source = selected.invoice_id && !selected.print_job_id ? 'invoice' : 'print_job';
+    const initialItem =
+        initialSource === 'invoice'
+            ? invoices.find((invoice) => invoice.id === selected.invoice_id)
+            : printJobs.find((job) => job.id === selected.print_job_id);
+
+    const { data, setData, post, processing, errors } = useForm({
+        source: initialSource as Source,
+        print_job_id: initialSource === 'print_job' && initialItem ? String(initialItem.id) : '',
+        invoice_id: initialSource === 'invoice' && initialItem ? String(initialItem.id) : '',
+        delivery_method: 'internal',
+        delivery_address: initialItem?.delivery_address ?? '',
+        contact_person: initialItem?.contact_person ?? '',
+        contact_phone: initialItem?.contact_phone ?? '',
+        delivery_provider: '',
+        external_tracking_id: '',
+        delivery_cost: '',
+        estimated_delivery_date: '',
+        delivery_notes: '',
+        assigned_to: '',
+    });
+
+    const fieldErrors = errors as Record<string, string>;
+    const options: Array<DeliverablePrintJob | DeliverableInvoice> = data.source === 'print_job' ? printJobs : invoices;
+    const sourceId = data.source === 'print_job' ? data.print_job_id : data.invoice_id;
+    const selectedItem = options.find((option) => String(option.id) === sourceId);
+    const needsProvider = ['courier', 'external'].includes(data.delivery_method);
+
+    // Picking a job fills in the customer's contact details, which can still be edited
+    const selectSource = (id: string) => {
+        const item = options.find((option) => String(option.id) === id);
+
+        setData((current) => ({
+            ...current,
+            print_job_id: current.source === 'print_job' ? id : '',
+            invoice_id: current.source === 'invoice' ? id : '',
+            delivery_address: item?.delivery_address ?? current.delivery_address,
+            contact_person: item?.contact_person ?? current.contact_person,
+            contact_phone: item?.contact_phone ?? current.contact_phone,
+        }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        post(route('deliveries.store'));
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="New Delivery" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">New Delivery</h1>
+                        <p className="text-muted-foreground">Send a finished print job or an invoice out to the customer</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('deliveries.index')}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back
+                        </Link>
+                    </Button>
+                </div>
+
+                {fieldErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <form onSubmit={handleSubmit}>
+                    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                        <div className="space-y-6 lg:col-span-2">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Package className="h-5 w-5" />
+                                        What is being delivered
+                                    </CardTitle>
+                                    <CardDescription>Completed print jobs and invoices that have not been sent out yet</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="flex gap-4 text-sm">
+                                        {(
+                                            [
+                                                ['print_job', `Print job (${printJobs.length})`],
+                                                ['invoice', `Invoice (${invoices.length})`],
+                                            ] as const
+                                        ).map(([value, label]) => (
+                                            <label key={value} className="flex items-center gap-2">
+                                                <input
+                                                    type="radio"
+                                                    name="source"
+                                                    checked={data.source === value}
+                                                    onChange={() =>
+                                                        setData((current) => ({ ...current, source: value, print_job_id: '', invoice_id: '' }))
+                                                    }
+                                                />
+                                                {label}
+                                            </label>
+                                        ))}
+                                    </div>
+
+                                    {options.length === 0 ? (
+                                        <p className="text-sm text-muted-foreground">
+                                            {data.source === 'print_job'
+                                                ? 'No completed print jobs are waiting for delivery.'
+                                                : 'No invoices are waiting for delivery.'}
+                                        </p>
+                                    ) : (
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="source_id">{data.source === 'print_job' ? 'Print Job *' : 'Invoice *'}</Label>
+                                            <select
+                                                id="source_id"
+                                                value={sourceId}
+                                                onChange={(e) => selectSource(e.target.value)}
+                                                className={selectClass}
+                                                required
+                                            >
+                                                <option value="">Select {data.source === 'print_job' ? 'print job' : 'invoice'}</option>
+                                                {options.map((option) => (
+                                                    <option key={option.id} value={option.id}>
+                                                        {option.label} — {option.customer_name ?? 'Unknown customer'}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={data.source === 'print_job' ? errors.print_job_id : errors.invoice_id} />
+                                        </div>
+                                    )}
+
+                                    {selectedItem && (
+                                        <div className="rounded-md border p-3 text-sm">
+                                            <div className="flex justify-between">
+                                                <span className="font-medium">{selectedItem.customer_name ?? 'Unknown customer'}</span>
+                                                {'total_amount' in selectedItem && <span>Rs. {Number(selectedItem.total_amount).toFixed(2)}</span>}
+                                            </div>
+                                            {'invoice_number' in selectedItem && selectedItem.invoice_number && (
+                                                <p className="text-muted-foreground">Invoice {selectedItem.invoice_number}</p>
+                                            )}
+                                            {'completed_at' in selectedItem && selectedItem.completed_at && (
+                                                <p className="text-muted-foreground">
+                                                    Completed {new Date(selectedItem.completed_at).toLocaleDateString()}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <MapPin className="h-5 w-5" />
+                                        Delivery Details
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="delivery_address">Address *</Label>
+                                        <Textarea
+                                            id="delivery_address"
+                                            rows={3}
+                                            value={data.delivery_address}
+                                            onChange={(e) => setData('delivery_address', e.target.value)}
+                                            required
+                                        />
+                                        <InputError message={errors.delivery_address} />
+                                    </div>
+
+                                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="contact_person">Contact Person *</Label>
+                                            <Input
+                                                id="contact_person"
+                                                value={data.contact_person}
+                                                onChange={(e) => setData('contact_person', e.target.value)}
+                                                required
+                                            />
+                                            <InputError message={errors.contact_person} />
+                                        </div>
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="contact_phone">Contact Phone *</Label>
+                                            <Input
+                                                id="contact_phone"
+                                                value={data.contact_phone}
+                                                onChange={(e) => setData('contact_phone', e.target.value)}
+                                                required
+                                            />
+                                            <InputError message={errors.contact_phone} />
+                                        </div>
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="delivery_notes">Notes for the Rider</Label>
+                                        <Textarea
+                                            id="delivery_notes"
+                                            rows={2}
+                                            value={data.delivery_notes}
+                                            onChange={(e) => setData('delivery_notes', e.target.value)}
+                                            placeholder="Landmarks, gate codes, opening hours..."
+                                        />
+                                        <InputError message={errors.delivery_notes} />
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        <div className="space-y-6">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Truck className="h-5 w-5" />
+                                        Shipping
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="delivery_method">Method *</Label>
+                                        <select
+                                            id="delivery_method"
+                                            value={data.delivery_method}
+                                            onChange={(e) => {
+                                                const method = e.target.value;
+                                                setData((current) => ({
+                                                    ...current,
+                                                    delivery_method: method,
+                                                    assigned_to: method === 'pickup' ? '' : current.assigned_to,
+                                                }));
+                                            }}
+                                            className={selectClass}
+                                        >
+                                            {Object.entries(deliveryMethods).map(([value, label]) => (
+                                                <option key={value} value={value}>
+                                                    {label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <InputError message={errors.delivery_method} />
+                                    </div>
+
+                                    {needsProvider && (
+                                        <>
+                                            <div className="grid gap-2">
+                                                <Label htmlFor="delivery_provider">Courier *</Label>
+                                                <Input
+                                                    id="delivery_provider"
+                                                    value={data.delivery_provider}
+                                                    onChange={(e) => setData('delivery_provider', e.target.value)}
+                                                    placeholder="e.g. Domex, Pronto"
+                                                />
+                                                <InputError message={errors.delivery_provider} />
+                                            </div>
+                                            <div className="grid gap-2">
+                                                <Label htmlFor="external_tracking_id">Courier Tracking ID</Label>
+                                                <Input
+                                                    id="external_tracking_id"
+                                                    value={data.external_tracking_id}
+                                                    onChange={(e) => setData('external_tracking_id', e.target.value)}
+                                                />
+                                                <InputError message={errors.external_tracking_id} />
+                                            </div>
+                                        </>
+                                    )}
+
+                                    {can.assign && data.delivery_method !== 'pickup' && (
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="assigned_to">Rider</Label>
+                                            <select
+                                                id="assigned_to"
+                                                value={data.assigned_to}
+                                                onChange={(e) => setData('assigned_to', e.target.value)}
+                                                className={selectClass}
+                                            >
+                                                <option value="">Assign later</option>
+                                                {riders.map((rider) => (
+                                                    <option key={rider.id} value={rider.id}>
+                                                        {rider.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={errors.assigned_to} />
+                                        </div>
+                                    )}
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="estimated_delivery_date">Deliver By</Label>
+                                        <Input
+                                            id="estimated_delivery_date"
+                                            type="date"
+                                            value={data.estimated_delivery_date}
+                                            onChange={(e) => setData('estimated_delivery_date', e.target.value)}
+                                        />
+                                        <InputError message={errors.estimated_delivery_date} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="delivery_cost">Delivery Cost (Rs.)</Label>
+                                        <Input
+                                            id="delivery_cost"
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={data.delivery_cost}
+                                            onChange={(e) => setData('delivery_cost', e.target.value)}
+                                        />
+                                        <InputError message={errors.delivery_cost} />
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Button type="submit" className="w-full" disabled={processing || options.length === 0}>
+                                <Save className="mr-2 h-4 w-4" />
+                                {processing ? 'Creating...' : 'Create Delivery'}
+                            </Button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,415 @@
+// resources/js/pages/Deliveries/Index.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { statusBadgeClass } from '@/lib/deliveries';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { AlertTriangle, CheckCircle, Clock, Eye, Filter, Plus, Search, Trash2, Truck, X, XCircle } from 'lucide-react';
+import { useState } from 'react';
+
+interface DeliveryRow {
+    id: number;
+    tracking_number: string;
+    status: string;
+    status_label: string;
+    delivery_method: string;
+    delivery_method_label: string;
+    contact_person: string;
+    contact_phone: string;
+    delivery_address: string;
+    estimated_delivery_date: string | null;
+    actual_delivery_datetime: string | null;
+    delivery_attempts: number;
+    is_overdue: boolean;
+    customer: { id: number; name: string } | null;
+    invoice: { id: number; invoice_number: string } | null;
+    print_job: { id: number; job_number: string } | null;
+    branch: { id: number; name: string } | null;
+    assigned_to: { id: number; name: string } | null;
+}
+
+interface Filters {
+    search?: string | null;
+    status?: string | null;
+    delivery_method?: string | null;
+    branch_id?: string | number | null;
+    assigned_to?: string | number | null;
+    date_from?: string | null;
+    date_to?: string | null;
+    overdue?: boolean;
+}
+
+interface Props {
+    deliveries: {
+        data: DeliveryRow[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+    };
+    filters: Filters;
+    stats: {
+        total: number;
+        pending: number;
+        in_progress: number;
+        delivered: number;
+        failed: number;
+        overdue: number;
+    };
+    branches: { id: number; name: string }[];
+    riders: { id: number; name: string }[];
+    statuses: Record<string, string>;
+    deliveryMethods: Record<string, string>;
+    permissions: {
+        create: boolean;
+        delete: boolean;
+        view_all_branches: boolean;
+        own_only: boolean;
+    };
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Deliveries', href: '/deliveries' },
+];
+
+export default function DeliveriesIndex({ deliveries, filters, stats, branches, riders, statuses, deliveryMethods, permissions }: Props) {
+    const [currentFilters, setCurrentFilters] = useState<Filters>(filters);
+    const [search, setSearch] = useState(filters.search ?? '');
+
+    const applyFilters = (newFilters: Partial<Filters>, page?: number) => {
+        const updated = { ...currentFilters, ...newFilters };
+        setCurrentFilters(updated);
+
+        const cleanFilters = Object.fromEntries(
+            Object.entries({ ...updated, page }).filter(([, value]) => value !== '' && value !== null && value !== undefined && value !== false),
+        );
+
+        router.get(route('deliveries.index'), cleanFilters, {
+            preserveState: true,
+            preserveScroll: true,
+        });
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        setCurrentFilters({});
+        router.get(route('deliveries.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const handleDelete = (delivery: DeliveryRow) => {
+        if (confirm(`Are you sure you want to delete delivery ${delivery.tracking_number}?`)) {
+            router.delete(route('deliveries.destroy', delivery.id), { preserveScroll: true });
+        }
+    };
+
+    const hasActiveFilters = Object.entries(currentFilters).some(
+        ([key, value]) =>
+            value !== '' && value !== null && value !== undefined && value !== false && !(permissions.own_only && key === 'assigned_to'),
+    );
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Deliveries" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">{permissions.own_only ? 'My Deliveries' : 'Deliveries'}</h1>
+                        <p className="text-muted-foreground">Get finished jobs to customers and track every attempt</p>
+                    </div>
+                    {permissions.create && (
+                        <Button asChild>
+                            <Link href={route('deliveries.create')}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                New Delivery
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-6">
+                    {[
+                        { label: 'Total', value: stats.total, icon: Truck, className: '' },
+                        { label: 'Pending', value: stats.pending, icon: Clock, className: 'text-yellow-600' },
+                        { label: 'On the Way', value: stats.in_progress, icon: Truck, className: 'text-blue-600' },
+                        { label: 'Delivered', value: stats.delivered, icon: CheckCircle, className: 'text-green-600' },
+                        { label: 'Failed / Returned', value: stats.failed, icon: XCircle, className: 'text-red-600' },
+                        { label: 'Overdue', value: stats.overdue, icon: AlertTriangle, className: 'text-orange-600' },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="flex items-center justify-between p-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                    <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+                                </div>
+                                <stat.icon className={`h-6 w-6 ${stat.className || 'text-muted-foreground'}`} />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-center justify-between">
+                            <CardTitle className="flex items-center gap-2">
+                                <Filter className="h-5 w-5" />
+                                Filters
+                            </CardTitle>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                                    <X className="mr-2 h-4 w-4" />
+                                    Clear
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                applyFilters({ search });
+                            }}
+                            className="flex gap-2"
+                        >
+                            <div className="relative flex-1">
+                                <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search tracking number, customer, invoice or job..."
+                                    className="pl-8"
+                                />
+                            </div>
+                            <Button type="submit">Search</Button>
+                        </form>
+
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6">
+                            <div className="grid gap-1">
+                                <Label htmlFor="status">Status</Label>
+                                <select
+                                    id="status"
+                                    value={currentFilters.status ?? ''}
+                                    onChange={(e) => applyFilters({ status: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All statuses</option>
+                                    {Object.entries(statuses).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="delivery_method">Method</Label>
+                                <select
+                                    id="delivery_method"
+                                    value={currentFilters.delivery_method ?? ''}
+                                    onChange={(e) => applyFilters({ delivery_method: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All methods</option>
+                                    {Object.entries(deliveryMethods).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {!permissions.own_only && (
+                                <div className="grid gap-1">
+                                    <Label htmlFor="assigned_to">Rider</Label>
+                                    <select
+                                        id="assigned_to"
+                                        value={currentFilters.assigned_to ?? ''}
+                                        onChange={(e) => applyFilters({ assigned_to: e.target.value })}
+                                        className={selectClass}
+                                    >
+                                        <option value="">Anyone</option>
+                                        {riders.map((rider) => (
+                                            <option key={rider.id} value={rider.id}>
+                                                {rider.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            {permissions.view_all_branches && (
+                                <div className="grid gap-1">
+                                    <Label htmlFor="branch_id">Branch</Label>
+                                    <select
+                                        id="branch_id"
+                                        value={currentFilters.branch_id ?? ''}
+                                        onChange={(e) => applyFilters({ branch_id: e.target.value })}
+                                        className={selectClass}
+                                    >
+                                        <option value="">All branches</option>
+                                        {branches.map((branch) => (
+                                            <option key={branch.id} value={branch.id}>
+                                                {branch.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="date_from">Due from</Label>
+                                <Input
+                                    id="date_from"
+                                    type="date"
+                                    value={currentFilters.date_from ?? ''}
+                                    onChange={(e) => applyFilters({ date_from: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="date_to">Due to</Label>
+                                <Input
+                                    id="date_to"
+                                    type="date"
+                                    value={currentFilters.date_to ?? ''}
+                                    onChange={(e) => applyFilters({ date_to: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <label className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={!!currentFilters.overdue} onChange={(e) => applyFilters({ overdue: e.target.checked })} />
+                            Overdue only
+                        </label>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b bg-muted/50 text-left">
+                                        <th className="p-3">Tracking #</th>
+                                        <th className="p-3">Customer</th>
+                                        <th className="p-3">For</th>
+                                        <th className="p-3">Status</th>
+                                        <th className="p-3">Rider</th>
+                                        <th className="p-3">Due</th>
+                                        <th className="p-3">Attempts</th>
+                                        <th className="p-3 text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {deliveries.data.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={8} className="p-12 text-center text-muted-foreground">
+                                                <Truck className="mx-auto mb-4 h-12 w-12" />
+                                                No deliveries found
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        deliveries.data.map((delivery) => (
+                                            <tr key={delivery.id} className="border-b last:border-b-0 hover:bg-muted/30">
+                                                <td className="p-3">
+                                                    <Link
+                                                        href={route('deliveries.show', delivery.id)}
+                                                        className="font-mono font-medium hover:underline"
+                                                    >
+                                                        {delivery.tracking_number}
+                                                    </Link>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {delivery.delivery_method_label}
+                                                        {delivery.branch && ` · ${delivery.branch.name}`}
+                                                    </p>
+                                                </td>
+                                                <td className="p-3">
+                                                    {delivery.customer?.name ?? delivery.contact_person}
+                                                    <p className="max-w-xs truncate text-xs text-muted-foreground">{delivery.delivery_address}</p>
+                                                </td>
+                                                <td className="p-3">
+                                                    {delivery.print_job && <p>{delivery.print_job.job_number}</p>}
+                                                    {delivery.invoice && (
+                                                        <p className="text-xs text-muted-foreground">{delivery.invoice.invoice_number}</p>
+                                                    )}
+                                                </td>
+                                                <td className="p-3">
+                                                    <Badge className={statusBadgeClass(delivery.status)}>{delivery.status_label}</Badge>
+                                                </td>
+                                                <td className="p-3">
+                                                    {delivery.assigned_to?.name ?? <span className="text-muted-foreground">Unassigned</span>}
+                                                </td>
+                                                <td className={`p-3 ${delivery.is_overdue ? 'font-medium text-red-600' : ''}`}>
+                                                    {delivery.actual_delivery_datetime
+                                                        ? new Date(delivery.actual_delivery_datetime).toLocaleDateString()
+                                                        : delivery.estimated_delivery_date
+                                                          ? new Date(delivery.estimated_delivery_date).toLocaleDateString()
+                                                          : '—'}
+                                                    {delivery.is_overdue && <p className="text-xs">Overdue</p>}
+                                                </td>
+                                                <td className="p-3">{delivery.delivery_attempts}</td>
+                                                <td className="p-3">
+                                                    <div className="flex justify-end gap-1">
+                                                        <Button variant="ghost" size="sm" asChild>
+                                                            <Link href={route('deliveries.show', delivery.id)}>
+                                                                <Eye className="h-4 w-4" />
+                                                            </Link>
+                                                        </Button>
+                                                        {permissions.delete && ['pending', 'assigned', 'cancelled'].includes(delivery.status) && (
+                                                            <Button variant="ghost" size="sm" onClick={() => handleDelete(delivery)}>
+                                                                <Trash2 className="h-4 w-4 text-red-600" />
+                                                            </Button>
+                                                        )}
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {deliveries.last_page > 1 && (
+                            <div className="flex items-center justify-between border-t p-4 text-sm text-muted-foreground">
+                                <div>
+                                    Showing {deliveries.from ?? 0} to {deliveries.to ?? 0} of {deliveries.total} deliveries
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={deliveries.current_page === 1}
+                                        onClick={() => applyFilters({}, deliveries.current_page - 1)}
+                                    >
+                                        ← Previous
+                                    </Button>
+                                    <span className="px-2 py-1">
+                                        Page {deliveries.current_page} of {deliveries.last_page}
+                                    </span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={deliveries.current_page === deliveries.last_page}
+                                        onClick={() => applyFilters({}, deliveries.current_page + 1)}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,531 @@
+// resources/js/pages/Deliveries/Show.tsx
+
+import DeliveryProof, { type DeliveryProofDetails } from '@/components/delivery-proof';
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { groupAttempts, mapsUrl, statusBadgeClass, type DeliveryHistoryEntry } from '@/lib/deliveries';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, Camera, CheckCircle, Clock, Crosshair, MapPin, Package, PenLine, Phone, Trash2, Truck, User } from 'lucide-react';
+import { useState } from 'react';
+
+interface Props {
+    delivery: {
+        id: number;
+        tracking_number: string;
+        status: string;
+        status_label: string;
+        delivery_method: string;
+        delivery_method_label: string;
+        delivery_provider: string | null;
+        external_tracking_id: string | null;
+        delivery_address: string;
+        contact_person: string;
+        contact_phone: string;
+        delivery_cost: string;
+        formatted_cost: string;
+        estimated_delivery_date: string | null;
+        pickup_datetime: string | null;
+        actual_delivery_datetime: string | null;
+        delivery_notes: string | null;
+        delivery_attempts: number;
+        latitude: string | null;
+        longitude: string | null;
+        is_overdue: boolean;
+        created_at: string | null;
+        customer: { id: number; name: string; phone: string | null; email: string | null } | null;
+        invoice: { id: number; invoice_number: string } | null;
+        print_job: { id: number; job_number: string; job_title: string } | null;
+        branch: { id: number; name: string; phone: string | null } | null;
+        assigned_to: { id: number; name: string; phone: string | null } | null;
+        created_by: string | null;
+        proof: DeliveryProofDetails | null;
+    };
+    history: DeliveryHistoryEntry[];
+    allowedTransitions: string[];
+    riders: { id: number; name: string; phone: string | null }[];
+    statuses: Record<string, string>;
+    permissions: {
+        update_status: boolean;
+        assign: boolean;
+        delete: boolean;
+    };
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const outcomeLabel: Record<string, string> = {
+    delivered: 'Delivered',
+    failed: 'Failed',
+    returned: 'Returned',
+    cancelled: 'Cancelled',
+    in_progress: 'In progress',
+};
+
+export default function ShowDelivery({ delivery, history, allowedTransitions, riders, statuses, permissions }: Props) {
+    const [locating, setLocating] = useState(false);
+    const [locationError, setLocationError] = useState<string | null>(null);
+
+    const statusForm = useForm({
+        _method: 'patch',
+        status: '',
+        notes: '',
+        latitude: '',
+        longitude: '',
+        image: null as File | null,
+    });
+
+    const assignForm = useForm({
+        assigned_to: delivery.assigned_to ? String(delivery.assigned_to.id) : '',
+        notes: '',
+    });
+
+    const fieldErrors = { ...statusForm.errors, ...assignForm.errors } as Record<string, string>;
+    const attempts = groupAttempts(history);
+
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Deliveries', href: '/deliveries' },
+        { title: delivery.tracking_number, href: `/deliveries/${delivery.id}` },
+    ];
+
+    const captureLocation = () => {
+        if (!navigator.geolocation) {
+            setLocationError('This device cannot share its location');
+            return;
+        }
+
+        setLocating(true);
+        setLocationError(null);
+
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                setLocating(false);
+                statusForm.setData((current) => ({
+                    ...current,
+                    latitude: position.coords.latitude.toFixed(8),
+                    longitude: position.coords.longitude.toFixed(8),
+                }));
+            },
+            (error) => {
+                setLocating(false);
+                setLocationError(error.message || 'Could not read the current location');
+            },
+            { enableHighAccuracy: true, timeout: 15000 },
+        );
+    };
+
+    const submitStatus = (e: React.FormEvent) => {
+        e.preventDefault();
+        statusForm.post(route('deliveries.update-status', delivery.id), {
+            forceFormData: true,
+            preserveScroll: true,
+            onSuccess: () => statusForm.reset(),
+        });
+    };
+
+    const submitAssign = (e: React.FormEvent) => {
+        e.preventDefault();
+        assignForm.post(route('deliveries.assign', delivery.id), {
+            preserveScroll: true,
+            onSuccess: () => assignForm.setData('notes', ''),
+        });
+    };
+
+    const handleDelete = () => {
+        if (confirm(`Are you sure you want to delete delivery ${delivery.tracking_number}?`)) {
+            router.delete(route('deliveries.destroy', delivery.id));
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Delivery ${delivery.tracking_number}`} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <div className="flex items-center gap-3">
+                            <h1 className="font-mono text-3xl font-bold tracking-tight">{delivery.tracking_number}</h1>
+                            <Badge className={statusBadgeClass(delivery.status)}>{delivery.status_label}</Badge>
+                            {delivery.is_overdue && <Badge className="bg-red-100 text-red-800">Overdue</Badge>}
+                        </div>
+                        <p className="text-muted-foreground">
+                            {delivery.delivery_method_label}
+                            {delivery.delivery_provider && ` · ${delivery.delivery_provider}`}
+                            {delivery.branch && ` · ${delivery.branch.name}`}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        {permissions.delete && (
+                            <Button variant="outline" onClick={handleDelete}>
+                                <Trash2 className="mr-2 h-4 w-4 text-red-600" />
+                                Delete
+                            </Button>
+                        )}
+                        <Button variant="outline" asChild>
+                            <Link href={route('deliveries.index')}>
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+
+                {fieldErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <div className="space-y-6 lg:col-span-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <MapPin className="h-5 w-5" />
+                                    Destination
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="grid grid-cols-1 gap-4 text-sm md:grid-cols-2">
+                                <div className="space-y-1">
+                                    <p className="whitespace-pre-line">{delivery.delivery_address}</p>
+                                    {delivery.latitude && delivery.longitude && (
+                                        <a
+                                            href={mapsUrl(Number(delivery.latitude), Number(delivery.longitude))}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="text-xs text-blue-600 hover:underline"
+                                        >
+                                            Last recorded location
+                                        </a>
+                                    )}
+                                </div>
+                                <div className="space-y-1">
+                                    <p className="flex items-center gap-2">
+                                        <User className="h-4 w-4 text-muted-foreground" />
+                                        {delivery.contact_person}
+                                    </p>
+                                    <a href={`tel:${delivery.contact_phone}`} className="flex items-center gap-2 hover:underline">
+                                        <Phone className="h-4 w-4 text-muted-foreground" />
+                                        {delivery.contact_phone}
+                                    </a>
+                                    {delivery.customer && delivery.customer.name !== delivery.contact_person && (
+                                        <p className="text-muted-foreground">Customer: {delivery.customer.name}</p>
+                                    )}
+                                </div>
+                                {delivery.delivery_notes && (
+                                    <p className="rounded-md bg-muted p-3 whitespace-pre-line md:col-span-2">{delivery.delivery_notes}</p>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        {delivery.proof && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <PenLine className="h-5 w-5" />
+                                        Proof of Delivery
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <DeliveryProof proof={delivery.proof} />
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Clock className="h-5 w-5" />
+                                    Timeline
+                                </CardTitle>
+                                <CardDescription>
+                                    {delivery.delivery_attempts === 0
+                                        ? 'No failed attempts'
+                                        : `${delivery.delivery_attempts} failed or returned attempt${delivery.delivery_attempts === 1 ? '' : 's'}`}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-6">
+                                {attempts.length === 0 && <p className="text-sm text-muted-foreground">No status updates yet.</p>}
+                                {attempts.map((attempt) => (
+                                    <div key={attempt.number} className="space-y-3">
+                                        <div className="flex items-center justify-between">
+                                            <h3 className="text-sm font-semibold">
+                                                {attempt.number === 0 ? 'Preparation' : `Attempt ${attempt.number}`}
+                                            </h3>
+                                            {attempt.number > 0 && (
+                                                <Badge
+                                                    className={statusBadgeClass(attempt.outcome === 'in_progress' ? 'in_transit' : attempt.outcome)}
+                                                >
+                                                    {outcomeLabel[attempt.outcome]}
+                                                </Badge>
+                                            )}
+                                        </div>
+                                        <ol className="relative space-y-4 border-l pl-6">
+                                            {attempt.entries.map((entry) => (
+                                                <li key={entry.id} className="relative text-sm">
+                                                    <span
+                                                        className={`absolute top-1 -left-[1.85rem] h-3 w-3 rounded-full border-2 border-background ${statusBadgeClass(entry.status)}`}
+                                                    />
+                                                    <div className="flex flex-wrap items-center gap-2">
+                                                        <span className="font-medium">{entry.status_label}</span>
+                                                        <span className="text-xs text-muted-foreground">
+                                                            {entry.status_datetime && new Date(entry.status_datetime).toLocaleString()}
+                                                            {entry.updated_by && ` · ${entry.updated_by}`}
+                                                        </span>
+                                                    </div>
+                                                    {entry.notes && <p className="whitespace-pre-line text-muted-foreground">{entry.notes}</p>}
+                                                    {entry.location && (
+                                                        <a
+                                                            href={mapsUrl(entry.location.lat, entry.location.lng)}
+                                                            target="_blank"
+                                                            rel="noreferrer"
+                                                            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                                                        >
+                                                            <MapPin className="h-3 w-3" />
+                                                            {entry.location.address ??
+                                                                `${entry.location.lat.toFixed(5)}, ${entry.location.lng.toFixed(5)}`}
+                                                        </a>
+                                                    )}
+                                                    {entry.image_url && (
+                                                        <a href={entry.image_url} target="_blank" rel="noreferrer" className="mt-2 block w-32">
+                                                            <img src={entry.image_url} alt={entry.status_label} className="rounded-md border" />
+                                                        </a>
+                                                    )}
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        {permissions.update_status && allowedTransitions.length > 0 && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Truck className="h-5 w-5" />
+                                        Update Status
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <form onSubmit={submitStatus} className="space-y-4">
+                                        {allowedTransitions.includes('delivered') && (
+                                            <Button type="button" className="w-full" asChild>
+                                                <Link href={route('deliveries.complete', delivery.id)}>
+                                                    <CheckCircle className="mr-2 h-4 w-4" />
+                                                    {delivery.delivery_method === 'pickup' ? 'Hand Over to Customer' : 'Complete Delivery'}
+                                                </Link>
+                                            </Button>
+                                        )}
+                                        <div className="flex flex-wrap gap-2">
+                                            {allowedTransitions
+                                                .filter((status) => status !== 'delivered')
+                                                .map((status) => (
+                                                    <Button
+                                                        key={status}
+                                                        type="button"
+                                                        size="sm"
+                                                        variant={statusForm.data.status === status ? 'default' : 'outline'}
+                                                        onClick={() => statusForm.setData('status', status)}
+                                                    >
+                                                        {statuses[status] ?? status}
+                                                    </Button>
+                                                ))}
+                                        </div>
+                                        <InputError message={statusForm.errors.status} />
+
+                                        {statusForm.data.status && (
+                                            <>
+                                                <div className="grid gap-2">
+                                                    <Label htmlFor="notes">Notes{statusForm.data.status === 'failed' && ' *'}</Label>
+                                                    <Textarea
+                                                        id="notes"
+                                                        rows={3}
+                                                        value={statusForm.data.notes}
+                                                        onChange={(e) => statusForm.setData('notes', e.target.value)}
+                                                        placeholder={
+                                                            statusForm.data.status === 'failed'
+                                                                ? 'e.g. Nobody at the address, phone unanswered'
+                                                                : undefined
+                                                        }
+                                                    />
+                                                    <InputError message={statusForm.errors.notes} />
+                                                </div>
+
+                                                <div className="grid gap-2">
+                                                    <Label>Location</Label>
+                                                    <Button type="button" variant="outline" size="sm" onClick={captureLocation} disabled={locating}>
+                                                        <Crosshair className="mr-2 h-4 w-4" />
+                                                        {locating
+                                                            ? 'Locating...'
+                                                            : statusForm.data.latitude
+                                                              ? `${statusForm.data.latitude}, ${statusForm.data.longitude}`
+                                                              : 'Use current location'}
+                                                    </Button>
+                                                    <InputError message={locationError ?? statusForm.errors.latitude} />
+                                                </div>
+
+                                                <div className="grid gap-2">
+                                                    <Label htmlFor="image" className="flex items-center gap-2">
+                                                        <Camera className="h-4 w-4" />
+                                                        Photo
+                                                    </Label>
+                                                    <Input
+                                                        id="image"
+                                                        type="file"
+                                                        accept="image/*"
+                                                        capture="environment"
+                                                        onChange={(e) => statusForm.setData('image', e.target.files?.[0] ?? null)}
+                                                    />
+                                                    <InputError message={statusForm.errors.image} />
+                                                </div>
+
+                                                <Button type="submit" className="w-full" disabled={statusForm.processing}>
+                                                    {statusForm.processing ? 'Saving...' : `Mark as ${statuses[statusForm.data.status]}`}
+                                                </Button>
+                                            </>
+                                        )}
+                                    </form>
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <User className="h-5 w-5" />
+                                    Rider
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4 text-sm">
+                                {delivery.assigned_to ? (
+                                    <div>
+                                        <p className="font-medium">{delivery.assigned_to.name}</p>
+                                        {delivery.assigned_to.phone && (
+                                            <a href={`tel:${delivery.assigned_to.phone}`} className="text-muted-foreground hover:underline">
+                                                {delivery.assigned_to.phone}
+                                            </a>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <p className="text-muted-foreground">No rider assigned yet</p>
+                                )}
+
+                                {permissions.assign && delivery.delivery_method !== 'pickup' && (
+                                    <form onSubmit={submitAssign} className="space-y-3 border-t pt-4">
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="assigned_to">{delivery.assigned_to ? 'Reassign to' : 'Assign to'}</Label>
+                                            <select
+                                                id="assigned_to"
+                                                value={assignForm.data.assigned_to}
+                                                onChange={(e) => assignForm.setData('assigned_to', e.target.value)}
+                                                className={selectClass}
+                                                required
+                                            >
+                                                <option value="">Select rider</option>
+                                                {riders.map((rider) => (
+                                                    <option key={rider.id} value={rider.id}>
+                                                        {rider.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={assignForm.errors.assigned_to} />
+                                        </div>
+                                        <Input
+                                            value={assignForm.data.notes}
+                                            onChange={(e) => assignForm.setData('notes', e.target.value)}
+                                            placeholder="Note (optional)"
+                                            maxLength={500}
+                                        />
+                                        <Button
+                                            type="submit"
+                                            size="sm"
+                                            className="w-full"
+                                            disabled={assignForm.processing || !assignForm.data.assigned_to}
+                                        >
+                                            {assignForm.processing ? 'Assigning...' : 'Assign Rider'}
+                                        </Button>
+                                    </form>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Package className="h-5 w-5" />
+                                    Details
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                                    {delivery.print_job && (
+                                        <>
+                                            <dt className="text-muted-foreground">Print Job</dt>
+                                            <dd>
+                                                <Link href={route('production.print-jobs.show', delivery.print_job.id)} className="hover:underline">
+                                                    {delivery.print_job.job_number}
+                                                </Link>
+                                            </dd>
+                                        </>
+                                    )}
+                                    {delivery.invoice && (
+                                        <>
+                                            <dt className="text-muted-foreground">Invoice</dt>
+                                            <dd>
+                                                <Link href={route('invoices.show', delivery.invoice.id)} className="hover:underline">
+                                                    {delivery.invoice.invoice_number}
+                                                </Link>
+                                            </dd>
+                                        </>
+                                    )}
+                                    {delivery.external_tracking_id && (
+                                        <>
+                                            <dt className="text-muted-foreground">Courier Ref</dt>
+                                            <dd className="font-mono">{delivery.external_tracking_id}</dd>
+                                        </>
+                                    )}
+                                    <dt className="text-muted-foreground">Cost</dt>
+                                    <dd>{delivery.formatted_cost}</dd>
+                                    <dt className="text-muted-foreground">Deliver By</dt>
+                                    <dd className={delivery.is_overdue ? 'font-medium text-red-600' : ''}>
+                                        {delivery.estimated_delivery_date ? new Date(delivery.estimated_delivery_date).toLocaleDateString() : '—'}
+                                    </dd>
+                                    {delivery.pickup_datetime && (
+                                        <>
+                                            <dt className="text-muted-foreground">Picked Up</dt>
+                                            <dd>{new Date(delivery.pickup_datetime).toLocaleString()}</dd>
+                                        </>
+                                    )}
+                                    {delivery.actual_delivery_datetime && (
+                                        <>
+                                            <dt className="text-muted-foreground">Delivered</dt>
+                                            <dd>{new Date(delivery.actual_delivery_datetime).toLocaleString()}</dd>
+                                        </>
+                                    )}
+                                    <dt className="text-muted-foreground">Created</dt>
+                                    <dd>
+                                        {delivery.created_at && new Date(delivery.created_at).toLocaleDateString()}
+                                        {delivery.created_by && ` by ${delivery.created_by}`}
+                                    </dd>
+                                </dl>
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,295 @@
+// resources/js/pages/ExpenseBudgets/Analytics.tsx
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import AppLayout from '@/layouts/app-layout';
+import { MONTHS, money, progressClass, type ExpenseBudgetFormOptions } from '@/lib/expense-budgets';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, BarChart3 } from 'lucide-react';
+import { useState } from 'react';
+
+interface BudgetVsActualRow {
+    category_id: number;
+    category_name: string | null;
+    category_color: string | null;
+    branch_id: number | null;
+    branch_name: string | null;
+    budgets_count: number;
+    budgeted: number;
+    actual: number;
+    variance: number;
+    spent_percentage: number;
+    // Lowest alert threshold among the grouped budgets
+    alert_threshold: number;
+    exceeded_count: number;
+}
+
+interface Filters {
+    budget_year?: string | number | null;
+    budget_period?: string | null;
+    budget_month?: string | number | null;
+    budget_quarter?: string | number | null;
+    branch_id?: string | number | null;
+}
+
+interface Props extends ExpenseBudgetFormOptions {
+    rows: BudgetVsActualRow[];
+    totals: {
+        budgeted: number;
+        actual: number;
+        variance: number;
+        spent_percentage: number;
+        exceeded_count: number;
+    };
+    filters: Filters;
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Expense Budgets', href: '/expense-budgets' },
+    { title: 'Budget vs Actual', href: '/expense-budgets/analytics' },
+];
+
+export default function ExpenseBudgetAnalytics({ rows, totals, filters, branches, periods }: Props) {
+    const [currentFilters, setCurrentFilters] = useState<Filters>(filters);
+
+    const applyFilters = (newFilters: Partial<Filters>) => {
+        const updated = { ...currentFilters, ...newFilters };
+
+        if (updated.budget_period !== 'monthly') {
+            updated.budget_month = null;
+        }
+        if (updated.budget_period !== 'quarterly') {
+            updated.budget_quarter = null;
+        }
+
+        setCurrentFilters(updated);
+
+        const cleanFilters = Object.fromEntries(Object.entries(updated).filter(([, value]) => value !== '' && value !== null && value !== undefined));
+
+        router.get(route('expense-budgets.analytics'), cleanFilters, {
+            preserveState: true,
+            preserveScroll: true,
+        });
+    };
+
+    const currentYear = new Date().getFullYear();
+    const years = [currentYear + 1, currentYear, currentYear - 1, currentYear - 2];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Budget vs Actual" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Budget vs Actual</h1>
+                        <p className="text-muted-foreground">Approved and paid spending against budgets, per category and branch</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('expense-budgets.index')}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to Budgets
+                        </Link>
+                    </Button>
+                </div>
+
+                <Card>
+                    <CardContent className="grid grid-cols-1 gap-4 p-4 md:grid-cols-4">
+                        <div className="grid gap-1">
+                            <Label htmlFor="budget_year">Year</Label>
+                            <select
+                                id="budget_year"
+                                value={currentFilters.budget_year ?? ''}
+                                onChange={(e) => applyFilters({ budget_year: e.target.value })}
+                                className={selectClass}
+                            >
+                                {years.map((year) => (
+                                    <option key={year} value={year}>
+                                        {year}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="budget_period">Period</Label>
+                            <select
+                                id="budget_period"
+                                value={currentFilters.budget_period ?? ''}
+                                onChange={(e) => applyFilters({ budget_period: e.target.value })}
+                                className={selectClass}
+                            >
+                                <option value="">All periods</option>
+                                {Object.entries(periods).map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {currentFilters.budget_period === 'monthly' && (
+                            <div className="grid gap-1">
+                                <Label htmlFor="budget_month">Month</Label>
+                                <select
+                                    id="budget_month"
+                                    value={currentFilters.budget_month ?? ''}
+                                    onChange={(e) => applyFilters({ budget_month: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All months</option>
+                                    {MONTHS.map((month, index) => (
+                                        <option key={month} value={index + 1}>
+                                            {month}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {currentFilters.budget_period === 'quarterly' && (
+                            <div className="grid gap-1">
+                                <Label htmlFor="budget_quarter">Quarter</Label>
+                                <select
+                                    id="budget_quarter"
+                                    value={currentFilters.budget_quarter ?? ''}
+                                    onChange={(e) => applyFilters({ budget_quarter: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All quarters</option>
+                                    {[1, 2, 3, 4].map((quarter) => (
+                                        <option key={quarter} value={quarter}>
+                                            Q{quarter}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        <div className="grid gap-1">
+                            <Label htmlFor="branch_id">Branch</Label>
+                            <select
+                                id="branch_id"
+                                value={currentFilters.branch_id ?? ''}
+                                onChange={(e) => applyFilters({ branch_id: e.target.value })}
+                                className={selectClass}
+                            >
+                                <option value="">All branches</option>
+                                {branches.map((branch) => (
+                                    <option key={branch.id} value={branch.id}>
+                                        {branch.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                    {[
+                        { label: 'Budgeted', value: money(totals.budgeted), className: '' },
+                        { label: 'Actual', value: money(totals.actual), className: '' },
+                        {
+                            label: totals.variance < 0 ? 'Over Budget' : 'Under Budget',
+                            value: money(Math.abs(totals.variance)),
+                            className: totals.variance < 0 ? 'text-red-600' : 'text-green-600',
+                        },
+                        {
+                            label: 'Budgets Exceeded',
+                            value: totals.exceeded_count,
+                            className: totals.exceeded_count > 0 ? 'text-red-600' : '',
+                        },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="p-4">
+                                <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                <p className={`text-xl font-bold ${stat.className}`}>{stat.value}</p>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <BarChart3 className="h-5 w-5" />
+                            By Category and Branch
+                        </CardTitle>
+                        <CardDescription>{totals.spent_percentage}% of the total budget has been spent</CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b bg-muted/50 text-left">
+                                        <th className="p-3">Category</th>
+                                        <th className="p-3">Branch</th>
+                                        <th className="p-3 text-right">Budgeted</th>
+                                        <th className="p-3 text-right">Actual</th>
+                                        <th className="p-3 text-right">Variance</th>
+                                        <th className="w-48 p-3">Used</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={6} className="p-12 text-center text-muted-foreground">
+                                                <BarChart3 className="mx-auto mb-4 h-12 w-12" />
+                                                No budgets for the selected period
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        rows.map((row) => (
+                                            <tr key={`${row.category_id}-${row.branch_id ?? 'all'}`} className="border-b last:border-b-0">
+                                                <td className="p-3">
+                                                    <span className="flex items-center gap-2">
+                                                        <span
+                                                            className="h-3 w-3 rounded-full"
+                                                            style={{ backgroundColor: row.category_color || '#6B7280' }}
+                                                        />
+                                                        {row.category_name ?? '—'}
+                                                    </span>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {row.budgets_count} {row.budgets_count === 1 ? 'budget' : 'budgets'}
+                                                    </p>
+                                                </td>
+                                                <td className="p-3">{row.branch_name ?? 'All branches'}</td>
+                                                <td className="p-3 text-right">{money(row.budgeted)}</td>
+                                                <td className="p-3 text-right">{money(row.actual)}</td>
+                                                <td className={`p-3 text-right font-medium ${row.variance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                                    {row.variance < 0 ? '-' : ''}
+                                                    {money(Math.abs(row.variance))}
+                                                </td>
+                                                <td className="p-3">
+                                                    <div className="mb-1 flex items-center justify-between text-xs">
+                                                        <span>{row.spent_percentage}%</span>
+                                                        {row.exceeded_count > 0 && (
+                                                            <span className="flex items-center text-red-600">
+                                                                <AlertTriangle className="mr-1 h-3 w-3" />
+                                                                {row.exceeded_count} exceeded
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                    <Progress
+                                                        value={Math.min(100, row.spent_percentage)}
+                                                        className={`h-2 ${progressClass(row.spent_percentage, row.alert_threshold)}`}
+                                                    />
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
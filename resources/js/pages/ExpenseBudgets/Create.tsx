@@ -0,0 +1,30 @@
+// resources/js/pages/ExpenseBudgets/Create.tsx
+
+import ExpenseBudgetForm from '@/components/expense-budget-form';
+import AppLayout from '@/layouts/app-layout';
+import { type ExpenseBudgetFormOptions } from '@/lib/expense-budgets';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Expense Budgets', href: '/expense-budgets' },
+    { title: 'New Budget', href: '/expense-budgets/create' },
+];
+
+export default function CreateExpenseBudget(options: ExpenseBudgetFormOptions) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="New Expense Budget" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">New Expense Budget</h1>
+                    <p className="text-muted-foreground">Set a spending limit for a category over a month, quarter or year</p>
+                </div>
+
+                <ExpenseBudgetForm {...options} />
+            </div>
+        </AppLayout>
+    );
+}
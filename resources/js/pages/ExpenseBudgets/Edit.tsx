@@ -0,0 +1,35 @@
+// resources/js/pages/ExpenseBudgets/Edit.tsx
+
+import ExpenseBudgetForm from '@/components/expense-budget-form';
+import AppLayout from '@/layouts/app-layout';
+import { type ExpenseBudget, type ExpenseBudgetFormOptions } from '@/lib/expense-budgets';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+
+interface Props extends ExpenseBudgetFormOptions {
+    budget: ExpenseBudget & { description: string | null };
+}
+
+export default function EditExpenseBudget({ budget, ...options }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Expense Budgets', href: '/expense-budgets' },
+        { title: budget.budget_name, href: `/expense-budgets/${budget.id}` },
+        { title: 'Edit', href: `/expense-budgets/${budget.id}/edit` },
+    ];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Edit ${budget.budget_name}`} />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Edit Budget</h1>
+                    <p className="text-muted-foreground">{budget.budget_name}</p>
+                </div>
+
+                <ExpenseBudgetForm {...options} budget={budget} />
+            </div>
+        </AppLayout>
+    );
+}
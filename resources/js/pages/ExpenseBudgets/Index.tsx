@@ -0,0 +1,304 @@
+// resources/js/pages/ExpenseBudgets/Index.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import AppLayout from '@/layouts/app-layout';
+import { money, periodLabel, progressClass, statusBadgeClass, type ExpenseBudget, type ExpenseBudgetFormOptions } from '@/lib/expense-budgets';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { AlertTriangle, BarChart3, Eye, Filter, PiggyBank, Plus, TrendingUp, Wallet, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface Filters {
+    budget_year?: string | number | null;
+    budget_period?: string | null;
+    status?: string | null;
+    category_id?: string | number | null;
+    branch_id?: string | number | null;
+}
+
+interface Props extends ExpenseBudgetFormOptions {
+    budgets: ExpenseBudget[];
+    filters: Filters;
+    stats: {
+        total_budgeted: number;
+        total_spent: number;
+        over_threshold: number;
+        exceeded: number;
+    };
+    statuses: Record<string, string>;
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Expense Management', href: '/expenses' },
+    { title: 'Expense Budgets', href: '/expense-budgets' },
+];
+
+export default function ExpenseBudgetsIndex({ budgets, filters, stats, categories, branches, periods, statuses }: Props) {
+    const [currentFilters, setCurrentFilters] = useState<Filters>(filters);
+
+    const applyFilters = (newFilters: Partial<Filters>) => {
+        const updated = { ...currentFilters, ...newFilters };
+        setCurrentFilters(updated);
+
+        const cleanFilters = Object.fromEntries(Object.entries(updated).filter(([, value]) => value !== '' && value !== null && value !== undefined));
+
+        router.get(route('expense-budgets.index'), cleanFilters, {
+            preserveState: true,
+            preserveScroll: true,
+        });
+    };
+
+    const clearFilters = () => {
+        setCurrentFilters({ budget_year: new Date().getFullYear() });
+        router.get(route('expense-budgets.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const hasActiveFilters = ['budget_period', 'status', 'category_id', 'branch_id'].some((key) => {
+        const value = currentFilters[key as keyof Filters];
+        return value !== '' && value !== null && value !== undefined;
+    });
+
+    const currentYear = new Date().getFullYear();
+    const years = [currentYear + 1, currentYear, currentYear - 1, currentYear - 2];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Expense Budgets" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Expense Budgets</h1>
+                        <p className="text-muted-foreground">Spending limits per category and branch, with alerts before they run out</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href={route('expense-budgets.analytics', { budget_year: currentFilters.budget_year })}>
+                                <BarChart3 className="mr-2 h-4 w-4" />
+                                Budget vs Actual
+                            </Link>
+                        </Button>
+                        <Button asChild>
+                            <Link href={route('expense-budgets.create')}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                New Budget
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                    {[
+                        { label: 'Budgeted', value: money(stats.total_budgeted), icon: PiggyBank, className: '' },
+                        { label: 'Spent', value: money(stats.total_spent), icon: Wallet, className: '' },
+                        {
+                            label: 'Past Alert Threshold',
+                            value: stats.over_threshold,
+                            icon: TrendingUp,
+                            className: stats.over_threshold > 0 ? 'text-yellow-600' : '',
+                        },
+                        { label: 'Exceeded', value: stats.exceeded, icon: AlertTriangle, className: stats.exceeded > 0 ? 'text-red-600' : '' },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="flex items-center justify-between p-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                    <p className={`text-xl font-bold ${stat.className}`}>{stat.value}</p>
+                                </div>
+                                <stat.icon className={`h-6 w-6 ${stat.className || 'text-muted-foreground'}`} />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-center justify-between">
+                            <CardTitle className="flex items-center gap-2">
+                                <Filter className="h-5 w-5" />
+                                Filters
+                            </CardTitle>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                                    <X className="mr-2 h-4 w-4" />
+                                    Clear
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-5">
+                            <div className="grid gap-1">
+                                <Label htmlFor="budget_year">Year</Label>
+                                <select
+                                    id="budget_year"
+                                    value={currentFilters.budget_year ?? ''}
+                                    onChange={(e) => applyFilters({ budget_year: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    {years.map((year) => (
+                                        <option key={year} value={year}>
+                                            {year}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="budget_period">Period</Label>
+                                <select
+                                    id="budget_period"
+                                    value={currentFilters.budget_period ?? ''}
+                                    onChange={(e) => applyFilters({ budget_period: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All periods</option>
+                                    {Object.entries(periods).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="status">Status</Label>
+                                <select
+                                    id="status"
+                                    value={currentFilters.status ?? ''}
+                                    onChange={(e) => applyFilters({ status: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All statuses</option>
+                                    {Object.entries(statuses).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="category_id">Category</Label>
+                                <select
+                                    id="category_id"
+                                    value={currentFilters.category_id ?? ''}
+                                    onChange={(e) => applyFilters({ category_id: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All categories</option>
+                                    {categories.map((category) => (
+                                        <option key={category.id} value={category.id}>
+                                            {category.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="branch_id">Branch</Label>
+                                <select
+                                    id="branch_id"
+                                    value={currentFilters.branch_id ?? ''}
+                                    onChange={(e) => applyFilters({ branch_id: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All branches</option>
+                                    {branches.map((branch) => (
+                                        <option key={branch.id} value={branch.id}>
+                                            {branch.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b bg-muted/50 text-left">
+                                        <th className="p-3">Budget</th>
+                                        <th className="p-3">Category</th>
+                                        <th className="p-3">Period</th>
+                                        <th className="w-56 p-3">Spent</th>
+                                        <th className="p-3 text-right">Remaining</th>
+                                        <th className="p-3">Status</th>
+                                        <th className="p-3 text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {budgets.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={7} className="p-12 text-center text-muted-foreground">
+                                                <PiggyBank className="mx-auto mb-4 h-12 w-12" />
+                                                No budgets found
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        budgets.map((budget) => (
+                                            <tr key={budget.id} className="border-b last:border-b-0 hover:bg-muted/30">
+                                                <td className="p-3">
+                                                    <Link href={route('expense-budgets.show', budget.id)} className="font-medium hover:underline">
+                                                        {budget.budget_name}
+                                                    </Link>
+                                                    <p className="text-xs text-muted-foreground">{budget.branch?.name ?? 'All branches'}</p>
+                                                </td>
+                                                <td className="p-3">
+                                                    <span className="flex items-center gap-2">
+                                                        <span
+                                                            className="h-3 w-3 rounded-full"
+                                                            style={{ backgroundColor: budget.category?.color || '#6B7280' }}
+                                                        />
+                                                        {budget.category?.name ?? '—'}
+                                                    </span>
+                                                </td>
+                                                <td className="p-3">{periodLabel(budget)}</td>
+                                                <td className="p-3">
+                                                    <div className="mb-1 flex justify-between text-xs">
+                                                        <span>{money(budget.spent_amount)}</span>
+                                                        <span className="text-muted-foreground">{budget.spent_percentage}%</span>
+                                                    </div>
+                                                    <Progress
+                                                        value={Math.min(100, budget.spent_percentage)}
+                                                        className={`h-2 ${progressClass(budget.spent_percentage, budget.alert_threshold)}`}
+                                                    />
+                                                    <p className="mt-1 text-xs text-muted-foreground">of {money(budget.budget_amount)}</p>
+                                                </td>
+                                                <td className="p-3 text-right font-medium">{money(budget.remaining_amount)}</td>
+                                                <td className="p-3">
+                                                    <Badge className={statusBadgeClass(budget.status)}>
+                                                        {statuses[budget.status] ?? budget.status}
+                                                    </Badge>
+                                                </td>
+                                                <td className="p-3">
+                                                    <div className="flex justify-end">
+                                                        <Button variant="ghost" size="sm" asChild>
+                                                            <Link href={route('expense-budgets.show', budget.id)}>
+                                                                <Eye className="h-4 w-4" />
+                                                            </Link>
+                                                        </Button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
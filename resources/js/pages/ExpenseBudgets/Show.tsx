@@ -0,0 +1,343 @@
+// resources/js/pages/ExpenseBudgets/Show.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import AppLayout from '@/layouts/app-layout';
+import { money, periodLabel, progressClass, statusBadgeClass, type ExpenseBudget } from '@/lib/expense-budgets';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router, useForm, usePage } from '@inertiajs/react';
+import { AlertTriangle, BellRing, Edit, Loader2, PauseCircle, PlayCircle, Plus, Receipt, Trash2 } from 'lucide-react';
+import { FormEvent } from 'react';
+
+interface BudgetExtension {
+    amount: number;
+    reason: string | null;
+    extended_at: string;
+}
+
+interface BudgetAlert {
+    level: 'threshold' | 'exceeded';
+    spent_amount: number;
+    spent_percentage: number;
+    alerted_at: string;
+}
+
+interface BudgetExpense {
+    id: number;
+    expense_number: string;
+    expense_date: string;
+    description: string;
+    branch_name: string | null;
+    amount: number;
+    status: string;
+}
+
+interface Props {
+    budget: ExpenseBudget & {
+        description: string | null;
+        created_by: string | null;
+        created_at: string | null;
+        extensions: BudgetExtension[];
+        alerts: BudgetAlert[];
+    };
+    expenses: BudgetExpense[];
+}
+
+const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+
+export default function ShowExpenseBudget({ budget, expenses }: Props) {
+    const { errors: pageErrors } = usePage().props as { errors?: Record<string, string> };
+
+    const extendForm = useForm({ additional_amount: '', reason: '' });
+
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Expense Budgets', href: '/expense-budgets' },
+        { title: budget.budget_name, href: `/expense-budgets/${budget.id}` },
+    ];
+
+    const extend = (e: FormEvent) => {
+        e.preventDefault();
+        extendForm.post(route('expense-budgets.extend', budget.id), {
+            preserveScroll: true,
+            onSuccess: () => extendForm.reset(),
+        });
+    };
+
+    const toggleActive = () => {
+        router.patch(
+            route(budget.status === 'inactive' ? 'expense-budgets.activate' : 'expense-budgets.deactivate', budget.id),
+            {},
+            { preserveScroll: true },
+        );
+    };
+
+    const destroy = () => {
+        if (confirm(`Delete the budget "${budget.budget_name}"? Expenses are not affected.`)) {
+            router.delete(route('expense-budgets.destroy', budget.id));
+        }
+    };
+
+    const tracked = budget.status === 'active' || budget.status === 'exceeded';
+    const overBy = budget.spent_amount - budget.budget_amount;
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={budget.budget_name} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <div className="flex items-center gap-3">
+                            <h1 className="text-3xl font-bold tracking-tight">{budget.budget_name}</h1>
+                            <Badge className={statusBadgeClass(budget.status)}>{budget.status}</Badge>
+                        </div>
+                        <p className="text-muted-foreground">
+                            {budget.category?.name ?? '—'} · {budget.branch?.name ?? 'All branches'} · {periodLabel(budget)}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href={route('expense-budgets.edit', budget.id)}>
+                                <Edit className="mr-2 h-4 w-4" />
+                                Edit
+                            </Link>
+                        </Button>
+                        {budget.status !== 'completed' && (
+                            <Button variant="outline" onClick={toggleActive}>
+                                {budget.status === 'inactive' ? <PlayCircle className="mr-2 h-4 w-4" /> : <PauseCircle className="mr-2 h-4 w-4" />}
+                                {budget.status === 'inactive' ? 'Activate' : 'Deactivate'}
+                            </Button>
+                        )}
+                        <Button variant="outline" onClick={destroy}>
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                        </Button>
+                    </div>
+                </div>
+
+                {pageErrors?.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{pageErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <div className="space-y-6 lg:col-span-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Spending</CardTitle>
+                                <CardDescription>
+                                    Approved and paid expenses from {formatDate(budget.start_date)} to {formatDate(budget.end_date)}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="grid grid-cols-3 gap-4 text-center">
+                                    <div>
+                                        <p className="text-sm text-muted-foreground">Budget</p>
+                                        <p className="text-xl font-bold">{money(budget.budget_amount)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-sm text-muted-foreground">Spent</p>
+                                        <p className="text-xl font-bold">{money(budget.spent_amount)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-sm text-muted-foreground">{overBy > 0 ? 'Over by' : 'Remaining'}</p>
+                                        <p className={`text-xl font-bold ${overBy > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                            {money(overBy > 0 ? overBy : budget.remaining_amount)}
+                                        </p>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <Progress
+                                        value={Math.min(100, budget.spent_percentage)}
+                                        className={`h-3 ${progressClass(budget.spent_percentage, budget.alert_threshold)}`}
+                                    />
+                                    <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+                                        <span>{budget.spent_percentage}% spent</span>
+                                        <span>
+                                            Alert at {budget.alert_threshold}%{!budget.send_alerts && ' (alerts off)'}
+                                        </span>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Receipt className="h-5 w-5" />
+                                    Counted Expenses
+                                </CardTitle>
+                                <CardDescription>
+                                    {expenses.length === 20 ? 'The 20 most recent expenses' : 'Expenses'} counted against this budget
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {expenses.length === 0 ? (
+                                    <p className="py-6 text-center text-sm text-muted-foreground">No approved or paid expenses in this period yet.</p>
+                                ) : (
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b text-left text-muted-foreground">
+                                                <th className="py-2">Expense #</th>
+                                                <th className="py-2">Date</th>
+                                                <th className="py-2">Description</th>
+                                                <th className="py-2 text-right">Amount</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {expenses.map((expense) => (
+                                                <tr key={expense.id} className="border-b last:border-b-0">
+                                                    <td className="py-2">
+                                                        <Link href={route('expenses.show', expense.id)} className="font-mono hover:underline">
+                                                            {expense.expense_number}
+                                                        </Link>
+                                                    </td>
+                                                    <td className="py-2">{formatDate(expense.expense_date)}</td>
+                                                    <td className="py-2">
+                                                        <span className="line-clamp-1">{expense.description}</span>
+                                                        {expense.branch_name && (
+                                                            <p className="text-xs text-muted-foreground">{expense.branch_name}</p>
+                                                        )}
+                                                    </td>
+                                                    <td className="py-2 text-right font-medium">{money(expense.amount)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        {tracked && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Extend Budget</CardTitle>
+                                    <CardDescription>Add to the amount when this period needs more room</CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <form onSubmit={extend} className="space-y-3">
+                                        <div className="grid gap-1">
+                                            <Label htmlFor="additional_amount">Additional amount (Rs.) *</Label>
+                                            <Input
+                                                id="additional_amount"
+                                                type="number"
+                                                min="0.01"
+                                                step="0.01"
+                                                value={extendForm.data.additional_amount}
+                                                onChange={(e) => extendForm.setData('additional_amount', e.target.value)}
+                                            />
+                                            <InputError message={extendForm.errors.additional_amount} />
+                                        </div>
+                                        <div className="grid gap-1">
+                                            <Label htmlFor="reason">Reason</Label>
+                                            <Input
+                                                id="reason"
+                                                maxLength={500}
+                                                value={extendForm.data.reason}
+                                                onChange={(e) => extendForm.setData('reason', e.target.value)}
+                                            />
+                                            <InputError message={extendForm.errors.reason} />
+                                        </div>
+                                        <Button type="submit" className="w-full" disabled={extendForm.processing}>
+                                            {extendForm.processing ? (
+                                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            ) : (
+                                                <Plus className="mr-2 h-4 w-4" />
+                                            )}
+                                            Extend
+                                        </Button>
+                                    </form>
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <BellRing className="h-5 w-5" />
+                                    Alerts
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                {budget.alerts.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No alerts raised for this budget.</p>
+                                ) : (
+                                    <div className="space-y-3">
+                                        {[...budget.alerts].reverse().map((alert) => (
+                                            <div key={alert.alerted_at} className="flex items-start gap-2 text-sm">
+                                                <AlertTriangle
+                                                    className={`mt-0.5 h-4 w-4 ${alert.level === 'exceeded' ? 'text-red-600' : 'text-yellow-600'}`}
+                                                />
+                                                <div>
+                                                    <p className="font-medium">
+                                                        {alert.level === 'exceeded' ? 'Budget exceeded' : 'Alert threshold reached'} ·{' '}
+                                                        {alert.spent_percentage}%
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {money(alert.spent_amount)} spent · {new Date(alert.alerted_at).toLocaleString()}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        {budget.extensions.length > 0 && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Extensions</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-3">
+                                    {budget.extensions.map((extension) => (
+                                        <div key={extension.extended_at} className="text-sm">
+                                            <div className="flex justify-between">
+                                                <span className="font-medium">+{money(extension.amount)}</span>
+                                                <span className="text-xs text-muted-foreground">
+                                                    {new Date(extension.extended_at).toLocaleDateString()}
+                                                </span>
+                                            </div>
+                                            {extension.reason && <p className="text-xs text-muted-foreground">{extension.reason}</p>}
+                                        </div>
+                                    ))}
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Details</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-2 text-sm">
+                                {budget.description && <p>{budget.description}</p>}
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Created by</span>
+                                    <span>{budget.created_by ?? '—'}</span>
+                                </div>
+                                {budget.created_at && (
+                                    <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Created</span>
+                                        <span>{new Date(budget.created_at).toLocaleDateString()}</span>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
@@ -18,6 +18,7 @@ import {
 } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import InputError from '@/components/input-error';
+import ExpenseBudgetWarning, { type ExpenseFormBudget } from '@/components/expense-budget-warning';
 import { 
     ArrowLeft, 
     Receipt, 
@@ -62,6 +63,7 @@ interface Props {
     priorityOptions: Record<string, string>;
     paymentMethodOptions: Record<string, string>;
     recurringPeriodOptions: Record<string, string>;
+    budgets: ExpenseFormBudget[];
 }
 
 interface FormData {
@@ -80,6 +82,7 @@ interface FormData {
     priority: string;
     is_recurring: boolean;
     recurring_period: string;
+    recurring_auto_submit: boolean;
     notes: string;
     receipt_files: File[];
     submit_for_approval: boolean;
@@ -97,7 +100,8 @@ export default function CreateExpense({
     statusOptions,
     priorityOptions,
     paymentMethodOptions,
-    recurringPeriodOptions 
+    recurringPeriodOptions,
+    budgets
 }: Props) {
     const { data, setData, post, processing, errors, reset } = useForm<FormData>({
         branch_id: '',
@@ -115,6 +119,7 @@ export default function CreateExpense({
         priority: 'medium',
         is_recurring: false,
         recurring_period: '',
+        recurring_auto_submit: false,
         notes: '',
         receipt_files: [],
         submit_for_approval: false,
@@ -131,7 +136,7 @@ export default function CreateExpense({
         // Add all form fields
         Object.entries(data).forEach(([key, value]) => {
             if (key === 'receipt_files') return; // Handle separately
-            if (key === 'is_recurring' || key === 'submit_for_approval') {
+            if (key === 'is_recurring' || key === 'recurring_auto_submit' || key === 'submit_for_approval') {
                 formData.append(key, value ? '1' : '0');
             } else {
                 formData.append(key, value.toString());
@@ -306,6 +311,14 @@ export default function CreateExpense({
                                         </div>
                                     </div>
 
+                                    <ExpenseBudgetWarning
+                                        budgets={budgets}
+                                        categoryId={data.category_id}
+                                        branchId={data.branch_id}
+                                        expenseDate={data.expense_date}
+                                        amount={data.amount}
+                                    />
+
                                     {/* Description */}
                                     <div className="grid gap-2">
                                         <Label htmlFor="description">Description *</Label>
@@ -567,6 +580,16 @@ export default function CreateExpense({
                                                 <p className="text-xs text-muted-foreground">
                                                     Future expenses will be automatically created based on this schedule
                                                 </p>
+                                                <div className="flex items-center space-x-2 pt-1">
+                                                    <Checkbox
+                                                        id="recurring_auto_submit"
+                                                        checked={data.recurring_auto_submit}
+                                                        onCheckedChange={(checked) => setData('recurring_auto_submit', checked as boolean)}
+                                                    />
+                                                    <Label htmlFor="recurring_auto_submit" className="text-sm font-normal">
+                                                        Submit future expenses for approval automatically
+                                                    </Label>
+                                                </div>
                                             </div>
                                         )}
                                     </div>
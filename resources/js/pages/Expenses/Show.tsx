@@ -55,6 +55,7 @@ import {
     AlertTriangle
 } from 'lucide-react';
 import { BreadcrumbItem } from '@/types';
+import ExpenseRecurringSeries, { type RecurringExpenseSeries } from '@/components/expense-recurring-series';
 
 interface Expense {
     id: number;
@@ -112,6 +113,7 @@ interface Expense {
 
 interface Props {
     expense: Expense;
+    recurringSeries: RecurringExpenseSeries | null;
     can: {
         update: boolean;
         delete: boolean;
@@ -150,7 +152,7 @@ const statusIcons = {
     cancelled: <Ban className="h-3 w-3" />,
 };
 
-export default function ExpenseShow({ expense, can }: Props) {
+export default function ExpenseShow({ expense, recurringSeries, can }: Props) {
     const [showApprovalDialog, setShowApprovalDialog] = useState(false);
     const [showRejectionDialog, setShowRejectionDialog] = useState(false);
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -504,6 +506,11 @@ export default function ExpenseShow({ expense, can }: Props) {
                                 </CardContent>
                             </Card>
                         )}
+
+                        {/* Recurring Series */}
+                        {recurringSeries && (
+                            <ExpenseRecurringSeries series={recurringSeries} currentExpenseId={expense.id} canStop={can.update} />
+                        )}
                     </div>
 
                     {/* Sidebar */}
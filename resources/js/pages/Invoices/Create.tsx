@@ -34,6 +34,8 @@ import {
     Zap
 } from 'lucide-react';
 import { BreadcrumbItem } from '@/types';
+import { calculateWeightCharge, type WeightPricingTier } from '@/lib/weight-pricing';
+import { resolveUnitPrice, type CurrentPriceList, type PriceBreak, type PricingRule } from '@/lib/product-pricing';
 
 // Interfaces
 interface Customer {
@@ -44,6 +46,8 @@ interface Customer {
     current_balance: number;
     phone?: string;
     email?: string;
+    customer_type?: string;
+    price_list_id?: number | null;
 }
 
 interface Product {
@@ -55,6 +59,7 @@ interface Product {
     weight_unit: string;
     tax_rate: number;
     unit_type: string;
+    pricing_tiers?: PriceBreak[];
 }
 
 interface Branch {
@@ -74,17 +79,56 @@ interface InvoiceItem {
     line_total: number;
     line_weight: number;
     tax_amount: number;
-    specifications?: string;
+    specifications?: string | Record<string, unknown>;
+    // Rule behind the unit price; null once the price is typed in by hand
+    pricing_rule?: PricingRule | null;
+    // Price already on the invoice being edited, kept until the line changes
+    saved_price?: boolean;
+}
+
+// Invoice loaded into the form by Invoices/Edit
+interface EditableInvoice {
+    id: number;
+    invoice_number: string;
+    customer_id: number;
+    branch_id: number;
+    invoice_date: string;
+    due_date: string;
+    status: string;
+    discount_amount: number;
+    notes: string | null;
+    terms_conditions: string | null;
+    total_amount: number;
+    items: Array<{
+        id: number;
+        product_id: number;
+        item_description: string;
+        quantity: number;
+        unit_price: number;
+        unit_weight: number;
+        line_total: number;
+        line_weight: number;
+        tax_amount: number;
+        specifications: Record<string, unknown> | null;
+    }>;
 }
 
 interface Props {
     customers?: Customer[];
     products?: Product[];
     branches?: Branch[];
+    weight_pricing_tiers?: WeightPricingTier[];
+    price_lists?: CurrentPriceList[];
     default_branch_id?: number;
     error?: string;
+    invoice?: EditableInvoice;
+    edit_lock_reason?: string | null;
+    revision_count?: number;
+    can_override_prices?: boolean;
 }
 
+export type { Props as InvoiceFormProps };
+
 // Generic Searchable Select Component
 interface SearchableSelectProps<T> {
     options: T[];
@@ -239,29 +283,45 @@ function SearchableSelect<T>({
     );
 }
 
-// Weight pricing calculation (based on documentation)
-const calculateWeightCharge = (totalWeight: number): number => {
-    if (totalWeight <= 1) return 200;
-    if (totalWeight <= 3) return 300;
-    if (totalWeight <= 5) return 400;
-    if (totalWeight <= 10) return 500 + ((totalWeight - 5) * 50);
-    return 750 + ((totalWeight - 10) * 75);
-};
-
 export default function CreateInvoice({ 
     customers = [], 
     products = [], 
     branches = [], 
+    weight_pricing_tiers = [],
+    price_lists = [],
     default_branch_id,
-    error 
+    error,
+    invoice,
+    edit_lock_reason = null,
+    revision_count = 0,
+    can_override_prices = false
 }: Props) {
-    const [items, setItems] = useState<InvoiceItem[]>([]);
-    const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+    const isEditing = invoice !== undefined;
+    const [items, setItems] = useState<InvoiceItem[]>(() =>
+        (invoice?.items ?? []).map(item => ({
+            id: `saved-${item.id}`,
+            product_id: item.product_id,
+            item_description: item.item_description,
+            quantity: item.quantity.toString(),
+            unit_price: item.unit_price.toString(),
+            unit_weight: item.unit_weight.toString(),
+            line_total: item.line_total,
+            line_weight: item.line_weight,
+            tax_amount: item.tax_amount,
+            specifications: item.specifications ?? '',
+            pricing_rule: null,
+            saved_price: true
+        }))
+    );
+    const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(
+        () => customers.find(c => c.value === invoice?.customer_id) ?? null
+    );
     const [quickSearchInput, setQuickSearchInput] = useState(''); // Quick search state
     const [invoiceTotals, setInvoiceTotals] = useState({
         subtotal: 0,
         totalWeight: 0,
         weightCharge: 0,
+        weightTier: null as WeightPricingTier | null,
         taxAmount: 0,
         discountAmount: 0,
         total: 0
@@ -271,19 +331,33 @@ export default function CreateInvoice({
     const urlParams = new URLSearchParams(window.location.search);
     const preSelectedCustomerId = urlParams.get('customer');
 
-    const { data, setData, post, processing, errors, reset } = useForm({
-        customer_id: preSelectedCustomerId ? parseInt(preSelectedCustomerId) : '',
-        branch_id: default_branch_id || '',
-        invoice_date: new Date().toISOString().split('T')[0],
-        due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        notes: '',
-        terms_conditions: '',
-        discount_amount: '0',
-        status: 'pending',
-        items: [] as any[]
+    const { data, setData, post, put, processing, errors, reset } = useForm({
+        customer_id: invoice?.customer_id ?? (preSelectedCustomerId ? parseInt(preSelectedCustomerId) : ''),
+        branch_id: invoice?.branch_id ?? (default_branch_id || ''),
+        invoice_date: invoice?.invoice_date ?? new Date().toISOString().split('T')[0],
+        due_date: invoice?.due_date ?? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        notes: invoice?.notes ?? '',
+        terms_conditions: invoice?.terms_conditions ?? '',
+        discount_amount: invoice ? invoice.discount_amount.toString() : '0',
+        status: invoice?.status ?? 'pending',
+        items: (invoice?.items ?? []).map(item => ({
+            product_id: item.product_id,
+            item_description: item.item_description,
+            quantity: item.quantity,
+            unit_price: item.unit_price,
+            unit_weight: item.unit_weight,
+            specifications: item.specifications ?? {}
+        })) as any[],
+        // Stored with the revision; required when editing past the paid / in-production lock
+        revision_note: ''
     });
 
-    const breadcrumbs: BreadcrumbItem[] = [
+    const breadcrumbs: BreadcrumbItem[] = invoice ? [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Invoices', href: '/invoices' },
+        { title: invoice.invoice_number, href: route('invoices.show', invoice.id) },
+        { title: 'Edit', href: route('invoices.edit', invoice.id) },
+    ] : [
         { title: 'Dashboard', href: '/dashboard' },
         { title: 'Invoices', href: '/invoices' },
         { title: 'Create Invoice', href: '/invoices/create' },
@@ -333,7 +407,7 @@ export default function CreateInvoice({
                 weightInKg = weightInKg * 0.0283495; // Convert ounces to kg
             }
             
-            const unitPrice = parseFloat(product.base_price?.toString()) || 0;
+            const { unitPrice, rule } = resolveUnitPrice(product, 1, selectedCustomer, price_lists);
             const taxRate = parseFloat(product.tax_rate?.toString()) || 0;
             const taxAmount = unitPrice * (taxRate / 100);
             
@@ -348,7 +422,8 @@ export default function CreateInvoice({
                 line_total: unitPrice,
                 line_weight: weightInKg,
                 tax_amount: taxAmount,
-                specifications: ''
+                specifications: '',
+                pricing_rule: rule
             };
             
             const newItems = [...items, newItem];
@@ -533,12 +608,19 @@ export default function CreateInvoice({
             if (item.id === id) {
                 const updatedItem = { ...item, [field]: value };
                 
+                // A price typed in by hand stays put until the product changes
+                if (field === 'unit_price') {
+                    updatedItem.pricing_rule = null;
+                    updatedItem.saved_price = false;
+                }
+                
                 // Auto-fill product details when product is selected
                 if (field === 'product_id' && value) {
                     const product = products.find(p => p.value === parseInt(value.toString()));
                     if (product) {
                         updatedItem.item_description = product.name;
-                        updatedItem.unit_price = (parseFloat(product.base_price?.toString()) || 0).toString();
+                        updatedItem.pricing_rule = { type: 'base_price', label: 'Base price', price_list_id: null };
+                        updatedItem.saved_price = false;
                         
                         // Convert weight to kg based on weight_unit
                         let weightInKg = parseFloat(product.weight_per_unit?.toString()) || 0;
@@ -556,8 +638,13 @@ export default function CreateInvoice({
                     }
                 }
                 
+                // Customer price lists and quantity breaks follow the product and quantity
+                if ((field === 'product_id' || field === 'quantity') && updatedItem.pricing_rule) {
+                    Object.assign(updatedItem, applyPricing(updatedItem, selectedCustomer));
+                }
+                
                 // Recalculate line totals
-                if (field === 'quantity' || field === 'unit_price') {
+                if (field === 'product_id' || field === 'quantity' || field === 'unit_price') {
                     const quantity = parseFloat(updatedItem.quantity) || 0;
                     const unitPrice = parseFloat(updatedItem.unit_price) || 0;
                     updatedItem.line_total = quantity * unitPrice;
@@ -619,7 +706,8 @@ export default function CreateInvoice({
             taxAmount += item.tax_amount || 0;
         });
         
-        const weightCharge = calculateWeightCharge(totalWeight);
+        // Weight charge comes from the company's pricing tiers; the server recalculates it the same way on save
+        const { tier: weightTier, total: weightCharge } = calculateWeightCharge(weight_pricing_tiers, totalWeight);
         const discountAmount = parseFloat(data.discount_amount) || 0;
         const total = subtotal + weightCharge + taxAmount - discountAmount;
         
@@ -627,6 +715,7 @@ export default function CreateInvoice({
             subtotal,
             totalWeight,
             weightCharge,
+            weightTier,
             taxAmount,
             discountAmount,
             total
@@ -636,7 +725,48 @@ export default function CreateInvoice({
     // Auto-calculate totals when items or discount changes
     useEffect(() => {
         calculateTotals(items);
-    }, [items, data.discount_amount]);
+    }, [items, data.discount_amount, weight_pricing_tiers]);
+
+    // Unit price from the customer's price list, a quantity break or the base price
+    const applyPricing = (item: InvoiceItem, customer: Customer | null): Pick<InvoiceItem, 'unit_price' | 'pricing_rule'> => {
+        const product = products.find(p => p.value === Number(item.product_id));
+        if (!product) {
+            return { unit_price: item.unit_price, pricing_rule: item.pricing_rule };
+        }
+
+        const { unitPrice, rule } = resolveUnitPrice(product, parseFloat(item.quantity) || 0, customer, price_lists);
+        return { unit_price: unitPrice.toString(), pricing_rule: rule };
+    };
+
+    // Re-apply automatic pricing to lines whose price wasn't typed in by hand
+    const repriceItems = (currentItems: InvoiceItem[], customer: Customer | null, onlyId?: string) => {
+        const repriced = currentItems.map(item => {
+            if (!item.product_id || (onlyId ? item.id !== onlyId : !item.pricing_rule)) {
+                return item;
+            }
+
+            const updatedItem = { ...item, ...applyPricing(item, customer), saved_price: false };
+            const product = products.find(p => p.value === Number(item.product_id));
+            updatedItem.line_total = (parseFloat(updatedItem.quantity) || 0) * (parseFloat(updatedItem.unit_price) || 0);
+            updatedItem.tax_amount = updatedItem.line_total * ((parseFloat(product?.tax_rate?.toString() ?? '0') || 0) / 100);
+
+            return updatedItem;
+        });
+
+        setItems(repriced);
+        setData('items', repriced.map(item => ({
+            product_id: item.product_id,
+            item_description: item.item_description,
+            quantity: parseFloat(item.quantity) || 0,
+            unit_price: parseFloat(item.unit_price) || 0,
+            unit_weight: parseFloat(item.unit_weight) || 0,
+            specifications: item.specifications ?
+                (typeof item.specifications === 'string' ?
+                    { notes: item.specifications } :
+                    item.specifications
+                ) : {}
+        })));
+    };
 
     // Handle customer selection
     const handleCustomerChange = (customerId: string) => {
@@ -644,6 +774,7 @@ export default function CreateInvoice({
             const customer = customers.find(c => c.value === parseInt(customerId));
             setSelectedCustomer(customer || null);
             setData('customer_id', parseInt(customerId));
+            repriceItems(items, customer || null);
         }
     };
 
@@ -692,6 +823,16 @@ export default function CreateInvoice({
 
         console.log('Submitting invoice data:', formData);
 
+        if (invoice) {
+            put(route('invoices.update', invoice.id), {
+                preserveScroll: true,
+                onError: (errors) => {
+                    console.error('Invoice update failed:', errors);
+                }
+            });
+            return;
+        }
+
         post('/invoices', {
             data: formData,
             onSuccess: () => {
@@ -715,7 +856,7 @@ export default function CreateInvoice({
 
     return (
         <AppLayout breadcrumbs={breadcrumbs}>
-            <Head title="Create Invoice" />
+            <Head title={invoice ? `Edit Invoice ${invoice.invoice_number}` : 'Create Invoice'} />
             
             <div className="space-y-6">
                 {/* Show error if data loading failed */}
@@ -741,19 +882,41 @@ export default function CreateInvoice({
                 {/* Header */}
                 <div className="flex items-center justify-between">
                     <div>
-                        <h1 className="text-3xl font-bold tracking-tight">Create Invoice</h1>
+                        <h1 className="text-3xl font-bold tracking-tight">
+                            {invoice ? `Edit Invoice ${invoice.invoice_number}` : 'Create Invoice'}
+                        </h1>
                         <p className="text-muted-foreground">
-                            Create a new invoice for your customer
+                            {invoice
+                                ? `Saving records revision ${revision_count + 1} with the changed fields and totals`
+                                : 'Create a new invoice for your customer'}
                         </p>
                     </div>
                     <Button variant="outline" asChild>
-                        <Link href="/invoices">
+                        <Link href={invoice ? route('invoices.show', invoice.id) : '/invoices'}>
                             <ArrowLeft className="mr-2 h-4 w-4" />
-                            Back to Invoices
+                            {invoice ? 'Back to Invoice' : 'Back to Invoices'}
                         </Link>
                     </Button>
                 </div>
 
+                {/* Editing a paid or in-production invoice with the override permission */}
+                {edit_lock_reason && (
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>
+                            {edit_lock_reason} You can still edit it with your override permission; give a reason below and it
+                            will be shown in the revision history.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                {(errors as Record<string, string>).invoice && (
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{(errors as Record<string, string>).invoice}</AlertDescription>
+                    </Alert>
+                )}
+
                 <form onSubmit={handleSubmit} className="space-y-6">
                     {/* Invoice Details */}
                     <Card>
@@ -776,6 +939,7 @@ export default function CreateInvoice({
                                         value={data.customer_id.toString()}
                                         onValueChange={handleCustomerChange}
                                         placeholder="Search and select customer..."
+                                        disabled={isEditing}
                                         getLabel={(customer) => customer.label}
                                         getValue={(customer) => customer.value.toString()}
                                         getSearchText={(customer) => `${customer.display_name} ${customer.phone || ''} ${customer.email || ''}`}
@@ -801,6 +965,7 @@ export default function CreateInvoice({
                                         value={data.branch_id.toString()}
                                         onValueChange={(value) => setData('branch_id', parseInt(value))}
                                         placeholder="Search and select branch..."
+                                        disabled={isEditing}
                                         getLabel={(branch) => branch.label}
                                         getValue={(branch) => branch.value.toString()}
                                         getSearchText={(branch) => `${branch.name} ${branch.code}`}
@@ -844,6 +1009,7 @@ export default function CreateInvoice({
                                         type="date"
                                         value={data.invoice_date}
                                         onChange={(e) => setData('invoice_date', e.target.value)}
+                                        disabled={isEditing}
                                     />
                                     <InputError message={errors.invoice_date} />
                                 </div>
@@ -984,7 +1150,29 @@ export default function CreateInvoice({
                                                         value={item.unit_price}
                                                         onChange={(e) => updateItem(item.id, 'unit_price', e.target.value)}
                                                         placeholder="0.00"
+                                                        readOnly={!can_override_prices}
+                                                        title={can_override_prices ? undefined : 'Prices come from the price list or quantity breaks'}
                                                     />
+                                                    {item.product_id !== '' && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {item.pricing_rule ? (
+                                                                <span className={item.pricing_rule.type === 'base_price' ? '' : 'text-green-700'}>
+                                                                    {item.pricing_rule.label}
+                                                                </span>
+                                                            ) : (
+                                                                <>
+                                                                    {item.saved_price ? 'Saved price' : 'Manual price'} ·{' '}
+                                                                    <button
+                                                                        type="button"
+                                                                        className="underline hover:text-foreground"
+                                                                        onClick={() => repriceItems(items, selectedCustomer, item.id)}
+                                                                    >
+                                                                        use list price
+                                                                    </button>
+                                                                </>
+                                                            )}
+                                                        </p>
+                                                    )}
                                                 </div>
 
                                                 {/* Unit Weight */}
@@ -1074,6 +1262,27 @@ export default function CreateInvoice({
                                         <span>Weight Charge:</span>
                                         <span>Rs. {invoiceTotals.weightCharge.toFixed(2)}</span>
                                     </div>
+                                    {invoiceTotals.weightTier ? (
+                                        <div className="flex justify-between text-sm text-muted-foreground">
+                                            <span className="flex items-center gap-1">
+                                                <Weight className="h-3 w-3" />
+                                                Pricing Tier:
+                                            </span>
+                                            <Badge variant="outline">
+                                                {invoiceTotals.weightTier.tier_name}
+                                                {invoiceTotals.weightTier.weight_range && ` (${invoiceTotals.weightTier.weight_range})`}
+                                            </Badge>
+                                        </div>
+                                    ) : (
+                                        items.length > 0 && (
+                                            <div className="flex items-center gap-1 text-sm text-amber-600">
+                                                <Info className="h-3 w-3" />
+                                                {weight_pricing_tiers.length === 0
+                                                    ? 'No weight pricing tiers are configured - no weight charge applied.'
+                                                    : `No pricing tier covers ${invoiceTotals.totalWeight.toFixed(2)} kg - no weight charge applied.`}
+                                            </div>
+                                        )
+                                    )}
                                     <div className="flex justify-between">
                                         <span>Tax Amount:</span>
                                         <span>Rs. {invoiceTotals.taxAmount.toFixed(2)}</span>
@@ -1119,10 +1328,30 @@ export default function CreateInvoice({
                         </Card>
                     </div>
 
+                    {/* Reason for the change, kept with the revision */}
+                    {isEditing && (
+                        <Card>
+                            <CardContent className="space-y-2 pt-6">
+                                <Label htmlFor="revision_note">
+                                    Reason for Change{edit_lock_reason ? ' *' : ''}
+                                </Label>
+                                <Textarea
+                                    id="revision_note"
+                                    value={data.revision_note}
+                                    onChange={(e) => setData('revision_note', e.target.value)}
+                                    placeholder="e.g. Customer increased the quantity"
+                                    rows={2}
+                                    required={!!edit_lock_reason}
+                                />
+                                <InputError message={(errors as Record<string, string>).revision_note} />
+                            </CardContent>
+                        </Card>
+                    )}
+
                     {/* Submit Button */}
                     <div className="flex items-center justify-end space-x-4">
                         <Button variant="outline" asChild>
-                            <Link href="/invoices">Cancel</Link>
+                            <Link href={invoice ? route('invoices.show', invoice.id) : '/invoices'}>Cancel</Link>
                         </Button>
                         <Button 
                             type="submit" 
@@ -1132,12 +1361,12 @@ export default function CreateInvoice({
                             {processing ? (
                                 <>
                                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                                    Creating...
+                                    {isEditing ? 'Saving...' : 'Creating...'}
                                 </>
                             ) : (
                                 <>
                                     <Save className="mr-2 h-4 w-4" />
-                                    Create Invoice
+                                    {isEditing ? 'Save Changes' : 'Create Invoice'}
                                 </>
                             )}
                         </Button>
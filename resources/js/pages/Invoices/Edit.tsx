@@ -0,0 +1,10 @@
+// resources/js/pages/Invoices/Edit.tsx
+
+import CreateInvoice, { type InvoiceFormProps } from './Create';
+
+/**
+ * Edits share the create form and its line-item editor; given an invoice, the form loads it and saves through invoices.update
+ */
+export default function EditInvoice(props: InvoiceFormProps & Required<Pick<InvoiceFormProps, 'invoice'>>) {
+    return <CreateInvoice {...props} />;
+}
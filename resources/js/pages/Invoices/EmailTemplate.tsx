@@ -0,0 +1,174 @@
+// resources/js/pages/Invoices/EmailTemplate.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, Eye, Loader2, RotateCcw, Save } from 'lucide-react';
+import { FormEvent, useRef } from 'react';
+
+type Template = {
+    subject: string;
+    body: string;
+};
+
+interface Props {
+    template: Template;
+    defaultTemplate: Template;
+    placeholders: Record<string, string>;
+}
+
+// Shown in the preview in place of real invoice values
+const SAMPLE_VALUES: Record<string, string> = {
+    '{customer_name}': 'Nimal Perera',
+    '{invoice_number}': 'INV-2025-0042',
+    '{invoice_date}': '01 Aug 2025',
+    '{due_date}': '31 Aug 2025',
+    '{total}': '12,500.00',
+    '{balance}': '7,500.00',
+    '{company_name}': 'Your Company',
+    '{pay_online_link}': 'https://example.com/pay/42?signature=…',
+};
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Invoices', href: '/invoices' },
+    { title: 'Email Template', href: '/invoices/email-template' },
+];
+
+const fillSample = (text: string) => text.replace(/\{[a-z_]+\}/g, (placeholder) => SAMPLE_VALUES[placeholder] ?? placeholder);
+
+export default function InvoiceEmailTemplate({ template, defaultTemplate, placeholders }: Props) {
+    const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+    const { data, setData, put, processing, errors, isDirty } = useForm<Template>(template);
+    const formErrors = errors as Record<string, string>;
+
+    const insertPlaceholder = (placeholder: string) => {
+        const textarea = bodyRef.current;
+        const start = textarea?.selectionStart ?? data.body.length;
+        const end = textarea?.selectionEnd ?? data.body.length;
+
+        setData('body', data.body.slice(0, start) + placeholder + data.body.slice(end));
+
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+        });
+    };
+
+    const submit = (e: FormEvent) => {
+        e.preventDefault();
+        put(route('invoices.email-template.update'), { preserveScroll: true });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Invoice Email Template" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Invoice Email Template</h1>
+                        <p className="text-muted-foreground">The message sent with invoice PDFs, for manual sends and auto-send recurring invoices</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('invoices.index')}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to Invoices
+                        </Link>
+                    </Button>
+                </div>
+
+                <form onSubmit={submit} className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Template</CardTitle>
+                            <CardDescription>Placeholders are replaced with the invoice's details when the email is sent.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {formErrors.error && (
+                                <Alert variant="destructive">
+                                    <AlertTriangle className="h-4 w-4" />
+                                    <AlertDescription>{formErrors.error}</AlertDescription>
+                                </Alert>
+                            )}
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="subject">Subject *</Label>
+                                <Input id="subject" value={data.subject} maxLength={255} onChange={(e) => setData('subject', e.target.value)} />
+                                <InputError message={errors.subject} />
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="body">Message *</Label>
+                                <Textarea
+                                    id="body"
+                                    ref={bodyRef}
+                                    rows={12}
+                                    maxLength={5000}
+                                    value={data.body}
+                                    onChange={(e) => setData('body', e.target.value)}
+                                />
+                                <InputError message={errors.body} />
+                            </div>
+
+                            <div className="grid gap-2">
+                                <Label>Insert placeholder</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {Object.entries(placeholders).map(([placeholder, label]) => (
+                                        <Button
+                                            key={placeholder}
+                                            type="button"
+                                            size="sm"
+                                            variant="outline"
+                                            className="h-7 text-xs"
+                                            title={placeholder}
+                                            onClick={() => insertPlaceholder(placeholder)}
+                                        >
+                                            {label}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="flex justify-between gap-2 pt-2">
+                                <Button type="button" variant="ghost" onClick={() => setData(defaultTemplate)}>
+                                    <RotateCcw className="mr-2 h-4 w-4" />
+                                    Restore Default
+                                </Button>
+                                <Button type="submit" disabled={processing || !isDirty}>
+                                    {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                                    Save Template
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Eye className="h-5 w-5" />
+                                Preview
+                            </CardTitle>
+                            <CardDescription>With sample invoice details. The invoice PDF is attached to every email.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            <div className="rounded-md border bg-muted/30 p-3 text-sm">
+                                <span className="text-muted-foreground">Subject: </span>
+                                <span className="font-medium">{fillSample(data.subject)}</span>
+                            </div>
+                            <div className="rounded-md border p-4 text-sm whitespace-pre-wrap">{fillSample(data.body)}</div>
+                        </CardContent>
+                    </Card>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
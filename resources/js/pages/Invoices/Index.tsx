@@ -41,7 +41,8 @@ import {
     XCircle,
     Printer,
     TrendingUp,
-    RefreshCw
+    RefreshCw,
+    Mail
 } from 'lucide-react';
 import { BreadcrumbItem } from '@/types';
 
@@ -52,7 +53,7 @@ interface Invoice {
     invoice_date: string;
     due_date: string;
     status: 'draft' | 'pending' | 'processing' | 'completed' | 'cancelled';
-    payment_status: 'pending' | 'partially_paid' | 'paid' | 'refunded';
+    payment_status: 'pending' | 'partially_paid' | 'paid' | 'credited' | 'refunded';
     total_amount: number;
     total_invoice: number;
     subtotal: number;
@@ -213,6 +214,7 @@ const getPaymentStatusColor = (status: string) => {
         pending: 'bg-orange-100 text-orange-800',
         partially_paid: 'bg-yellow-100 text-yellow-800',
         paid: 'bg-green-100 text-green-800',
+        credited: 'bg-gray-100 text-gray-800',
         refunded: 'bg-purple-100 text-purple-800',
     };
     return colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800';
@@ -307,6 +309,14 @@ export default function InvoicesIndex({
                             <Printer className="mr-2 h-4 w-4" />
                             Print
                         </Button>
+                        {permissions.edit && (
+                            <Button variant="outline" asChild>
+                                <Link href={route('invoices.email-template')}>
+                                    <Mail className="mr-2 h-4 w-4" />
+                                    Email Template
+                                </Link>
+                            </Button>
+                        )}
                         {permissions.create && (
                             <Button asChild>
                                 <Link href="/invoices/create">
@@ -479,6 +489,7 @@ export default function InvoicesIndex({
                                             <SelectItem value="pending">Pending</SelectItem>
                                             <SelectItem value="partially_paid">Partially Paid</SelectItem>
                                             <SelectItem value="paid">Paid</SelectItem>
+                                            <SelectItem value="credited">Credited</SelectItem>
                                             <SelectItem value="refunded">Refunded</SelectItem>
                                         </SelectContent>
                                     </Select>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Head, Link, useForm, router } from '@inertiajs/react';
 import AppLayout from '@/layouts/app-layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,6 +11,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
+import DeliveryProof, { type DeliveryProofDetails } from '@/components/delivery-proof';
+import InvoiceRevisionHistory, { type InvoiceRevision } from '@/components/invoice-revision-history';
+import InvoiceCreditNotes, { type CreditableItem, type InvoiceCreditNote } from '@/components/invoice-credit-notes';
+import InvoiceEmails, { type InvoiceEmail, type InvoiceEmailDraft } from '@/components/invoice-emails';
+import { statusBadgeClass } from '@/lib/deliveries';
 
 import { 
     FileText, 
@@ -30,12 +35,15 @@ import {
     DollarSign,
     Loader2,
     Printer,
+    Receipt,
+    Link2,
     Factory,
     PlayCircle,
     Settings,
     Upload,
     XCircle,
-    Info
+    Info,
+    Truck
 } from 'lucide-react';
 
 interface Invoice {
@@ -110,6 +118,7 @@ interface Payment {
     payment_date: string;
     payment_method: string;
     payment_method_label: string;
+    payment_type: 'payment' | 'refund';
     status: string;
     status_label: string;
     status_color: string;
@@ -120,9 +129,18 @@ interface Payment {
     bank_name?: string;
 }
 
+interface RecordedPayment {
+    id: number;
+    payment_reference: string;
+    amount: number;
+}
+
 interface PaymentSummary {
     invoice_total: number;
     total_paid: number;
+    total_credited: number;
+    total_refunded: number;
+    refundable_amount: number;
     pending_amount: number;
     remaining_balance: number;
     payment_status: string;
@@ -152,6 +170,15 @@ interface Props {
     paymentSummary: PaymentSummary;
     recentPayments: Payment[];
     printJob?: PrintJob | null;
+    deliveries: Array<{
+        id: number;
+        tracking_number: string;
+        status: string;
+        status_label: string;
+        actual_delivery_datetime: string | null;
+        assigned_to: string | null;
+        proof: DeliveryProofDetails | null;
+    }>;
     permissions: {
         edit: boolean;
         delete: boolean;
@@ -160,7 +187,20 @@ interface Props {
         generate_pdf: boolean;
         create_print_job: boolean;
         manage_production: boolean;
+        issue_credit_note: boolean;
+        refund: boolean;
+        send_email: boolean;
     };
+    editLockReason: string | null;
+    sourceQuotation: { id: number; quotation_number: string } | null;
+    recurringProfile: { id: number; name: string } | null;
+    creditNotes: InvoiceCreditNote[];
+    creditableItems: CreditableItem[];
+    emails: InvoiceEmail[];
+    emailDraft: InvoiceEmailDraft;
+    revisions: InvoiceRevision[];
+    recordedPayment?: RecordedPayment | null;
+    payOnlineUrl: string | null;
     paymentMethods: Record<string, string>;
     jobTypes: Record<string, string>;
     productionStaff: Array<{id: number; name: string; email: string}>;
@@ -171,7 +211,17 @@ export default function InvoiceShow({
     paymentSummary, 
     recentPayments, 
     printJob,
+    deliveries,
     permissions, 
+    editLockReason,
+    sourceQuotation,
+    recurringProfile,
+    creditNotes = [],
+    creditableItems = [],
+    emails = [],
+    emailDraft,
+    revisions = [],
+    payOnlineUrl,
     paymentMethods,
     jobTypes,
     productionStaff
@@ -179,6 +229,10 @@ export default function InvoiceShow({
     const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
     const [isPrintJobDialogOpen, setIsPrintJobDialogOpen] = useState(false);
     const [paymentData, setPaymentData] = useState(paymentSummary);
+    const [receiptPayment, setReceiptPayment] = useState<RecordedPayment | null>(null);
+
+    // Credit notes and refunds reload the summary through page props
+    useEffect(() => setPaymentData(paymentSummary), [paymentSummary]);
     
     // Initialize payment form
     const { data, setData, post, processing, errors, reset } = useForm({
@@ -223,6 +277,7 @@ export default function InvoiceShow({
         pending: 'bg-red-500',
         partially_paid: 'bg-yellow-500',
         paid: 'bg-green-500',
+        credited: 'bg-gray-500',
         refunded: 'bg-purple-500'
     };
 
@@ -290,6 +345,12 @@ export default function InvoiceShow({
                 
                 setIsPaymentDialogOpen(false);
                 reset();
+
+                // Offer the receipt first, closing that dialog refreshes the page instead
+                if (page.props && page.props.recordedPayment) {
+                    setReceiptPayment(page.props.recordedPayment);
+                    return;
+                }
                 
                 // Refresh the page to show updated payment data
                 window.location.reload();
@@ -424,7 +485,7 @@ export default function InvoiceShow({
         });
     };
 
-    const isOverdue = new Date(invoice.due_date) < new Date() && invoice.payment_status !== 'paid';
+    const isOverdue = new Date(invoice.due_date) < new Date() && !['paid', 'credited'].includes(invoice.payment_status);
     const paymentProgress = (paymentData.total_paid / invoice.total_amount) * 100;
 
     // Helper function to get the correct status color class
@@ -700,11 +761,27 @@ export default function InvoiceShow({
                                 <span>/</span>
                                 <span>{invoice.invoice_number}</span>
                             </nav>
+                            {sourceQuotation && (
+                                <p className="mt-1 text-sm text-gray-500">
+                                    Converted from quotation{' '}
+                                    <Link href={route('quotations.show', sourceQuotation.id)} className="text-primary hover:underline">
+                                        {sourceQuotation.quotation_number}
+                                    </Link>
+                                </p>
+                            )}
+                            {recurringProfile && (
+                                <p className="mt-1 text-sm text-gray-500">
+                                    Generated by recurring invoice{' '}
+                                    <Link href={route('recurring-invoices.show', recurringProfile.id)} className="text-primary hover:underline">
+                                        {recurringProfile.name}
+                                    </Link>
+                                </p>
+                            )}
                         </div>
 
                         <div className="flex space-x-2">
                             {permissions.edit && (
-                                <Button asChild variant="outline">
+                                <Button asChild variant="outline" title={editLockReason ? `${editLockReason} Editing uses your override permission.` : undefined}>
                                     <Link href={route('invoices.edit', invoice.id)}>
                                         <Edit className="h-4 w-4 mr-1" />
                                         Edit
@@ -718,11 +795,33 @@ export default function InvoiceShow({
                             </Button>
                             
                             {permissions.generate_pdf && (
-                                <Button asChild variant="outline">
-                                    <Link href={route('invoices.pdf', invoice.id)} target="_blank">
-                                        <Download className="h-4 w-4 mr-1" />
-                                        PDF
-                                    </Link>
+                                <>
+                                    <Button asChild variant="outline">
+                                        <a href={route('invoices.pdf', invoice.id)} target="_blank" rel="noopener noreferrer">
+                                            <Download className="h-4 w-4 mr-1" />
+                                            PDF
+                                        </a>
+                                    </Button>
+                                    <Button asChild variant="outline">
+                                        <a href={route('invoices.pdf', { id: invoice.id, layout: 'thermal' })} target="_blank" rel="noopener noreferrer">
+                                            <Printer className="h-4 w-4 mr-1" />
+                                            80mm
+                                        </a>
+                                    </Button>
+                                </>
+                            )}
+
+                            {payOnlineUrl && (
+                                <Button
+                                    variant="outline"
+                                    title="Copy the PayHere link to send to the customer"
+                                    onClick={() => {
+                                        navigator.clipboard.writeText(payOnlineUrl);
+                                        alert('Pay online link copied. The customer can pay the balance by card through PayHere.');
+                                    }}
+                                >
+                                    <Link2 className="h-4 w-4 mr-1" />
+                                    Pay Online Link
                                 </Button>
                             )}
 
@@ -914,6 +1013,45 @@ export default function InvoiceShow({
                                 </Dialog>
                             )}
 
+                            {/* Receipt for the payment just recorded */}
+                            <Dialog
+                                open={receiptPayment !== null}
+                                onOpenChange={(open) => {
+                                    if (!open) {
+                                        setReceiptPayment(null);
+                                        window.location.reload();
+                                    }
+                                }}
+                            >
+                                <DialogContent className="sm:max-w-sm">
+                                    <DialogHeader>
+                                        <DialogTitle>Payment Recorded</DialogTitle>
+                                    </DialogHeader>
+                                    {receiptPayment && (
+                                        <div className="space-y-4">
+                                            <p className="text-sm text-gray-600">
+                                                {formatCurrency(receiptPayment.amount)} received, reference{' '}
+                                                <span className="font-mono font-medium">{receiptPayment.payment_reference}</span>.
+                                            </p>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <Button asChild variant="outline">
+                                                    <a href={route('payments.receipt', receiptPayment.id)} target="_blank" rel="noopener noreferrer">
+                                                        <Receipt className="h-4 w-4 mr-1" />
+                                                        A5 Receipt
+                                                    </a>
+                                                </Button>
+                                                <Button asChild>
+                                                    <a href={route('payments.receipt', { id: receiptPayment.id, layout: 'thermal' })} target="_blank" rel="noopener noreferrer">
+                                                        <Printer className="h-4 w-4 mr-1" />
+                                                        80mm Receipt
+                                                    </a>
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </DialogContent>
+                            </Dialog>
+
                             {/* Create Print Job Button */}
                             {canCreatePrintJob() && (
                                 <Dialog open={isPrintJobDialogOpen} onOpenChange={setIsPrintJobDialogOpen}>
@@ -1834,6 +1972,47 @@ export default function InvoiceShow({
                                     </CardContent>
                                 </Card>
 
+                                {/* Deliveries */}
+                                {deliveries.length > 0 && (
+                                    <Card>
+                                        <CardHeader>
+                                            <CardTitle className="flex items-center">
+                                                <Truck className="h-5 w-5 mr-2" />
+                                                Deliveries
+                                            </CardTitle>
+                                        </CardHeader>
+                                        <CardContent className="space-y-6">
+                                            {deliveries.map((delivery) => (
+                                                <div key={delivery.id} className="space-y-3">
+                                                    <div className="flex items-center justify-between">
+                                                        <Link
+                                                            href={route('deliveries.show', delivery.id)}
+                                                            className="font-mono text-sm text-blue-600 hover:underline"
+                                                        >
+                                                            {delivery.tracking_number}
+                                                        </Link>
+                                                        <Badge className={statusBadgeClass(delivery.status)}>
+                                                            {delivery.status_label}
+                                                        </Badge>
+                                                    </div>
+                                                    <div className="text-sm text-gray-600">
+                                                        {delivery.assigned_to && <span>Rider: {delivery.assigned_to}</span>}
+                                                        {delivery.actual_delivery_datetime && (
+                                                            <span className="ml-4">
+                                                                Delivered {new Date(delivery.actual_delivery_datetime).toLocaleString()}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                    {delivery.proof && <DeliveryProof proof={delivery.proof} />}
+                                                </div>
+                                            ))}
+                                        </CardContent>
+                                    </Card>
+                                )}
+
+                                {/* Revision History */}
+                                {revisions.length > 0 && <InvoiceRevisionHistory revisions={revisions} />}
+
                                 {/* Invoice Items */}
                                 <Card>
                                     <CardHeader>
@@ -1967,6 +2146,13 @@ export default function InvoiceShow({
                                             </div>
                                         </div>
 
+                                        {paymentData.total_credited > 0 && (
+                                            <div className="flex justify-between text-sm mb-4">
+                                                <span className="text-gray-500">Credited</span>
+                                                <span className="font-medium text-purple-700">-{formatCurrency(paymentData.total_credited)}</span>
+                                            </div>
+                                        )}
+
                                         {paymentData.pending_amount > 0 && (
                                             <Alert className="mb-4">
                                                 <AlertCircle className="h-4 w-4" />
@@ -1990,6 +2176,29 @@ export default function InvoiceShow({
                                     </CardContent>
                                 </Card>
 
+                                {/* Credit Notes & Refunds */}
+                                {(creditNotes.length > 0 || permissions.issue_credit_note || (permissions.refund && paymentData.refundable_amount > 0)) && (
+                                    <InvoiceCreditNotes
+                                        invoice={invoice}
+                                        creditNotes={creditNotes}
+                                        creditableItems={creditableItems}
+                                        refundableAmount={paymentData.refundable_amount}
+                                        paymentMethods={paymentMethods}
+                                        canIssue={permissions.issue_credit_note}
+                                        canRefund={permissions.refund}
+                                    />
+                                )}
+
+                                {/* Emails */}
+                                {(emails.length > 0 || permissions.send_email) && (
+                                    <InvoiceEmails
+                                        invoiceId={invoice.id}
+                                        emails={emails}
+                                        draft={emailDraft}
+                                        canSend={permissions.send_email}
+                                    />
+                                )}
+
                                 {/* Production Quick Actions */}
                                 <Card>
                                     <CardHeader>
@@ -2094,6 +2303,9 @@ export default function InvoiceShow({
                                                                     <Badge className={`${payment.status === 'completed' ? 'bg-green-500' : payment.status === 'pending' ? 'bg-yellow-500' : 'bg-gray-500'}`}>
                                                                         {payment.status_label}
                                                                     </Badge>
+                                                                    {payment.payment_type === 'refund' && (
+                                                                        <Badge className="bg-purple-500">Refund</Badge>
+                                                                    )}
                                                                     <span className="text-xs text-gray-500">
                                                                         {payment.payment_method_label}
                                                                     </span>
@@ -2113,7 +2325,7 @@ export default function InvoiceShow({
                                                             </div>
                                                             <div className="text-right">
                                                                 <div className={`font-semibold ${
-                                                                    payment.status === 'completed' ? 'text-green-600' : 'text-gray-500'
+                                                                    payment.payment_type === 'refund' ? 'text-purple-700' : payment.status === 'completed' ? 'text-green-600' : 'text-gray-500'
                                                                 }`}>
                                                                     {formatCurrency(payment.amount)}
                                                                 </div>
@@ -2123,6 +2335,13 @@ export default function InvoiceShow({
                                                                             <Eye className="h-3 w-3" />
                                                                         </Link>
                                                                     </Button>
+                                                                    {payment.status !== 'failed' && (
+                                                                        <Button asChild size="sm" variant="outline" title="Print receipt">
+                                                                            <a href={route('payments.receipt', { id: payment.id, layout: 'thermal' })} target="_blank" rel="noopener noreferrer">
+                                                                                <Receipt className="h-3 w-3" />
+                                                                            </a>
+                                                                        </Button>
+                                                                    )}
                                                                     {permissions.verify_payment && payment.verification_status === 'pending' && (
                                                                         <>
                                                                             <Button 
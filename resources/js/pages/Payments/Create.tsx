@@ -0,0 +1,120 @@
+// resources/js/pages/Payments/Create.tsx
+
+import PaymentForm from '@/components/payment-form';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { money, type InvoicePaymentSummary } from '@/lib/payments';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { ArrowLeft, FileText } from 'lucide-react';
+
+interface Props {
+    invoice: {
+        id: number;
+        invoice_number: string;
+        invoice_date: string;
+        due_date: string;
+        total_amount: number;
+        customer: { id: number; name: string; phone: string | null } | null;
+    } | null;
+    paymentSummary: InvoicePaymentSummary | null;
+    invoices: { id: number; invoice_number: string; customer_name: string | null; total_amount: number }[];
+    paymentMethods: Record<string, string>;
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Payments', href: '/payments' },
+    { title: 'Record Payment', href: '/payments/create' },
+];
+
+export default function PaymentsCreate({ invoice, paymentSummary, invoices, paymentMethods }: Props) {
+    const selectInvoice = (invoiceId: string) => {
+        router.get(route('payments.create'), invoiceId ? { invoice_id: invoiceId } : {}, { preserveScroll: true });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Record Payment" />
+
+            <div className="mx-auto max-w-3xl space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Record Payment</h1>
+                        <p className="text-muted-foreground">Payments wait for verification before they count against the invoice</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={invoice ? route('invoices.show', invoice.id) : route('payments.index')}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back
+                        </Link>
+                    </Button>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <FileText className="h-5 w-5" />
+                            Invoice
+                        </CardTitle>
+                        <CardDescription>Unpaid invoices of your branch</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-1">
+                            <Label htmlFor="invoice_id">Invoice *</Label>
+                            <select id="invoice_id" value={invoice?.id ?? ''} onChange={(e) => selectInvoice(e.target.value)} className={selectClass}>
+                                <option value="">Select invoice</option>
+                                {invoice && !invoices.some((payable) => payable.id === invoice.id) && (
+                                    <option value={invoice.id}>{invoice.invoice_number}</option>
+                                )}
+                                {invoices.map((payable) => (
+                                    <option key={payable.id} value={payable.id}>
+                                        {payable.invoice_number} · {payable.customer_name ?? '—'} · {money(payable.total_amount)}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {invoice && paymentSummary && (
+                            <div className="grid grid-cols-2 gap-4 rounded-lg border p-4 text-sm md:grid-cols-4">
+                                <div>
+                                    <p className="text-muted-foreground">Customer</p>
+                                    <p className="font-medium">{invoice.customer?.name ?? '—'}</p>
+                                </div>
+                                <div>
+                                    <p className="text-muted-foreground">Total</p>
+                                    <p className="font-medium">{money(paymentSummary.invoice_total)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-muted-foreground">Paid</p>
+                                    <p className="font-medium text-green-600">{money(paymentSummary.total_paid)}</p>
+                                    {paymentSummary.pending_amount > 0 && (
+                                        <p className="text-xs text-yellow-600">{money(paymentSummary.pending_amount)} pending</p>
+                                    )}
+                                </div>
+                                <div>
+                                    <p className="text-muted-foreground">Balance</p>
+                                    <p className="font-bold text-red-600">{money(paymentSummary.remaining_balance)}</p>
+                                    <p className="text-xs text-muted-foreground">Due {new Date(invoice.due_date).toLocaleDateString()}</p>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {invoice && paymentSummary && (
+                    <PaymentForm
+                        key={invoice.id}
+                        paymentMethods={paymentMethods}
+                        invoiceId={invoice.id}
+                        maxAmount={paymentSummary.remaining_balance}
+                    />
+                )}
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,52 @@
+// resources/js/pages/Payments/Edit.tsx
+
+import PaymentForm, { type EditablePayment } from '@/components/payment-form';
+import { Button } from '@/components/ui/button';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link } from '@inertiajs/react';
+import { ArrowLeft } from 'lucide-react';
+
+interface Props {
+    payment: EditablePayment & {
+        invoice: { id: number; invoice_number: string } | null;
+        customer: { id: number; name: string } | null;
+    };
+    paymentMethods: Record<string, string>;
+}
+
+export default function PaymentsEdit({ payment, paymentMethods }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Payments', href: '/payments' },
+        { title: payment.payment_reference, href: `/payments/${payment.id}` },
+        { title: 'Edit', href: `/payments/${payment.id}/edit` },
+    ];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Edit ${payment.payment_reference}`} />
+
+            <div className="mx-auto max-w-3xl space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Edit Payment</h1>
+                        <p className="text-muted-foreground">
+                            {payment.payment_reference}
+                            {payment.invoice && ` · ${payment.invoice.invoice_number}`}
+                            {payment.customer && ` · ${payment.customer.name}`}
+                        </p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('payments.show', payment.id)}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back
+                        </Link>
+                    </Button>
+                </div>
+
+                <PaymentForm paymentMethods={paymentMethods} payment={payment} />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,461 @@
+// resources/js/pages/Payments/Index.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { money, statusBadgeClass, verificationBadgeClass, type PaymentStatus, type VerificationStatus } from '@/lib/payments';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { Check, Clock, CreditCard, Eye, Filter, Paperclip, Plus, Search, ShieldCheck, Wallet, X, XCircle } from 'lucide-react';
+import { useState } from 'react';
+
+interface PaymentRow {
+    id: number;
+    payment_reference: string;
+    payment_date: string;
+    amount: number;
+    payment_type: 'payment' | 'refund';
+    payment_method: string;
+    payment_method_label: string;
+    status: PaymentStatus;
+    status_label: string;
+    verification_status: VerificationStatus;
+    verification_status_label: string;
+    has_receipt: boolean;
+    invoice: { id: number; invoice_number: string } | null;
+    customer: { id: number; name: string } | null;
+    branch: { id: number; name: string } | null;
+    received_by: string | null;
+    can_verify: boolean;
+}
+
+interface Filters {
+    search?: string | null;
+    status?: string | null;
+    verification_status?: string | null;
+    payment_method?: string | null;
+    branch_id?: string | number | null;
+    invoice_id?: string | number | null;
+    date_from?: string | null;
+    date_to?: string | null;
+}
+
+interface Props {
+    payments: {
+        data: PaymentRow[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+    };
+    filters: Filters;
+    statistics: {
+        total_payments: number;
+        completed_amount: number;
+        pending_amount: number;
+        pending_verification: number;
+        rejected_payments: number;
+    };
+    invoice: { id: number; invoice_number: string } | null;
+    branches: { id: number; name: string }[];
+    paymentMethods: Record<string, string>;
+    statusOptions: Record<string, string>;
+    verificationStatusOptions: Record<string, string>;
+    permissions: {
+        create: boolean;
+        verify: boolean;
+        view_all_branches: boolean;
+    };
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Payments', href: '/payments' },
+];
+
+export default function PaymentsIndex({
+    payments,
+    filters,
+    statistics,
+    invoice,
+    branches,
+    paymentMethods,
+    statusOptions,
+    verificationStatusOptions,
+    permissions,
+}: Props) {
+    const [currentFilters, setCurrentFilters] = useState<Filters>(filters);
+    const [search, setSearch] = useState(filters.search ?? '');
+
+    const applyFilters = (newFilters: Partial<Filters>, page?: number) => {
+        const updated = { ...currentFilters, ...newFilters };
+        setCurrentFilters(updated);
+
+        const cleanFilters = Object.fromEntries(
+            Object.entries({ ...updated, page }).filter(([, value]) => value !== '' && value !== null && value !== undefined),
+        );
+
+        router.get(route('payments.index'), cleanFilters, {
+            preserveState: true,
+            preserveScroll: true,
+        });
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        setCurrentFilters({});
+        router.get(route('payments.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const hasActiveFilters = Object.entries(currentFilters).some(
+        ([key, value]) => value !== '' && value !== null && value !== undefined && !(key === 'branch_id' && !permissions.view_all_branches),
+    );
+
+    const verify = (payment: PaymentRow) => {
+        if (confirm(`Verify ${payment.payment_reference} for ${money(payment.amount)}?`)) {
+            router.post(route('payments.verify', payment.id), {}, { preserveScroll: true });
+        }
+    };
+
+    const reject = (payment: PaymentRow) => {
+        const reason = prompt(`Why is ${payment.payment_reference} being rejected?`);
+
+        if (reason) {
+            router.post(route('payments.reject', payment.id), { reason }, { preserveScroll: true });
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Payments" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Payments</h1>
+                        <p className="text-muted-foreground">Payments received against invoices, and the ones waiting for verification</p>
+                    </div>
+                    {permissions.create && (
+                        <Button asChild>
+                            <Link href={route('payments.create', invoice ? { invoice_id: invoice.id } : {})}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                Record Payment
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                    {[
+                        { label: 'Payments', value: statistics.total_payments, icon: CreditCard, className: '' },
+                        { label: 'Collected', value: money(statistics.completed_amount), icon: Wallet, className: 'text-green-600' },
+                        { label: 'Pending Amount', value: money(statistics.pending_amount), icon: Clock, className: 'text-yellow-600' },
+                        {
+                            label: 'Awaiting Verification',
+                            value: statistics.pending_verification,
+                            icon: ShieldCheck,
+                            className: statistics.pending_verification > 0 ? 'text-orange-600' : '',
+                        },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="flex items-center justify-between p-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                    <p className={`text-xl font-bold ${stat.className}`}>{stat.value}</p>
+                                </div>
+                                <stat.icon className={`h-6 w-6 ${stat.className || 'text-muted-foreground'}`} />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-center justify-between">
+                            <CardTitle className="flex items-center gap-2">
+                                <Filter className="h-5 w-5" />
+                                Filters
+                            </CardTitle>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                                    <X className="mr-2 h-4 w-4" />
+                                    Clear
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {invoice && currentFilters.invoice_id && (
+                            <div className="flex items-center justify-between rounded-md border bg-muted/30 px-3 py-2 text-sm">
+                                <span>
+                                    Showing payments for invoice{' '}
+                                    <Link href={route('invoices.show', invoice.id)} className="font-mono font-medium hover:underline">
+                                        {invoice.invoice_number}
+                                    </Link>
+                                </span>
+                                <Button variant="ghost" size="sm" onClick={() => applyFilters({ invoice_id: null })}>
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        )}
+
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                applyFilters({ search });
+                            }}
+                            className="flex gap-2"
+                        >
+                            <div className="relative flex-1">
+                                <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search reference, transaction ID, invoice number or customer..."
+                                    className="pl-8"
+                                />
+                            </div>
+                            <Button type="submit">Search</Button>
+                        </form>
+
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6">
+                            <div className="grid gap-1">
+                                <Label htmlFor="payment_method">Method</Label>
+                                <select
+                                    id="payment_method"
+                                    value={currentFilters.payment_method ?? ''}
+                                    onChange={(e) => applyFilters({ payment_method: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All methods</option>
+                                    {Object.entries(paymentMethods).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="status">Status</Label>
+                                <select
+                                    id="status"
+                                    value={currentFilters.status ?? ''}
+                                    onChange={(e) => applyFilters({ status: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All statuses</option>
+                                    {Object.entries(statusOptions).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="verification_status">Verification</Label>
+                                <select
+                                    id="verification_status"
+                                    value={currentFilters.verification_status ?? ''}
+                                    onChange={(e) => applyFilters({ verification_status: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All</option>
+                                    {Object.entries(verificationStatusOptions).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {permissions.view_all_branches && (
+                                <div className="grid gap-1">
+                                    <Label htmlFor="branch_id">Branch</Label>
+                                    <select
+                                        id="branch_id"
+                                        value={currentFilters.branch_id ?? ''}
+                                        onChange={(e) => applyFilters({ branch_id: e.target.value })}
+                                        className={selectClass}
+                                    >
+                                        <option value="">All branches</option>
+                                        {branches.map((branch) => (
+                                            <option key={branch.id} value={branch.id}>
+                                                {branch.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="date_from">Paid from</Label>
+                                <Input
+                                    id="date_from"
+                                    type="date"
+                                    value={currentFilters.date_from ?? ''}
+                                    onChange={(e) => applyFilters({ date_from: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="date_to">Paid to</Label>
+                                <Input
+                                    id="date_to"
+                                    type="date"
+                                    value={currentFilters.date_to ?? ''}
+                                    onChange={(e) => applyFilters({ date_to: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b bg-muted/50 text-left">
+                                        <th className="p-3">Reference</th>
+                                        <th className="p-3">Invoice</th>
+                                        <th className="p-3">Date</th>
+                                        <th className="p-3">Method</th>
+                                        <th className="p-3">Status</th>
+                                        <th className="p-3 text-right">Amount</th>
+                                        <th className="p-3 text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {payments.data.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={7} className="p-12 text-center text-muted-foreground">
+                                                <CreditCard className="mx-auto mb-4 h-12 w-12" />
+                                                No payments found
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        payments.data.map((payment) => (
+                                            <tr key={payment.id} className="border-b last:border-b-0 hover:bg-muted/30">
+                                                <td className="p-3">
+                                                    <Link
+                                                        href={route('payments.show', payment.id)}
+                                                        className="flex items-center gap-1 font-mono font-medium hover:underline"
+                                                    >
+                                                        {payment.payment_reference}
+                                                        {payment.has_receipt && <Paperclip className="h-3 w-3 text-muted-foreground" />}
+                                                    </Link>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {payment.received_by ?? '—'}
+                                                        {payment.branch && ` · ${payment.branch.name}`}
+                                                    </p>
+                                                </td>
+                                                <td className="p-3">
+                                                    {payment.invoice ? (
+                                                        <Link
+                                                            href={route('invoices.show', payment.invoice.id)}
+                                                            className="font-mono text-primary hover:underline"
+                                                        >
+                                                            {payment.invoice.invoice_number}
+                                                        </Link>
+                                                    ) : (
+                                                        '—'
+                                                    )}
+                                                    <p className="text-xs text-muted-foreground">{payment.customer?.name}</p>
+                                                </td>
+                                                <td className="p-3">{new Date(payment.payment_date).toLocaleDateString()}</td>
+                                                <td className="p-3">{payment.payment_method_label}</td>
+                                                <td className="p-3">
+                                                    <div className="flex flex-wrap gap-1">
+                                                        <Badge className={statusBadgeClass(payment.status)}>{payment.status_label}</Badge>
+                                                        <Badge className={verificationBadgeClass(payment.verification_status)}>
+                                                            {payment.verification_status_label}
+                                                        </Badge>
+                                                    </div>
+                                                </td>
+                                                <td
+                                                    className={`p-3 text-right font-medium ${payment.payment_type === 'refund' ? 'text-red-600' : ''}`}
+                                                >
+                                                    {money(payment.amount)}
+                                                    {payment.payment_type === 'refund' && <p className="text-xs">Refund</p>}
+                                                </td>
+                                                <td className="p-3">
+                                                    <div className="flex justify-end gap-1">
+                                                        {permissions.verify && payment.can_verify && (
+                                                            <>
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    size="sm"
+                                                                    className="text-green-600"
+                                                                    title="Verify"
+                                                                    onClick={() => verify(payment)}
+                                                                >
+                                                                    <Check className="h-4 w-4" />
+                                                                </Button>
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    size="sm"
+                                                                    className="text-red-600"
+                                                                    title="Reject"
+                                                                    onClick={() => reject(payment)}
+                                                                >
+                                                                    <XCircle className="h-4 w-4" />
+                                                                </Button>
+                                                            </>
+                                                        )}
+                                                        <Button variant="ghost" size="sm" asChild>
+                                                            <Link href={route('payments.show', payment.id)}>
+                                                                <Eye className="h-4 w-4" />
+                                                            </Link>
+                                                        </Button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {payments.last_page > 1 && (
+                            <div className="flex items-center justify-between border-t p-4 text-sm text-muted-foreground">
+                                <div>
+                                    Showing {payments.from ?? 0} to {payments.to ?? 0} of {payments.total} payments
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={payments.current_page === 1}
+                                        onClick={() => applyFilters({}, payments.current_page - 1)}
+                                    >
+                                        ← Previous
+                                    </Button>
+                                    <span className="px-2 py-1">
+                                        Page {payments.current_page} of {payments.last_page}
+                                    </span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={payments.current_page === payments.last_page}
+                                        onClick={() => applyFilters({}, payments.current_page + 1)}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,383 @@
+// resources/js/pages/Payments/Show.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import {
+    money,
+    statusBadgeClass,
+    verificationBadgeClass,
+    type InvoicePaymentSummary,
+    type PaymentStatus,
+    type VerificationStatus,
+} from '@/lib/payments';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router, useForm, usePage } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, Check, Edit, ExternalLink, FileText, Loader2, Paperclip, Printer, Receipt, Trash2, XCircle } from 'lucide-react';
+import { FormEvent, useState } from 'react';
+
+interface Payment {
+    id: number;
+    payment_reference: string;
+    payment_date: string;
+    amount: number;
+    payment_type: 'payment' | 'refund';
+    payment_method: string;
+    payment_method_label: string;
+    status: PaymentStatus;
+    status_label: string;
+    verification_status: VerificationStatus;
+    verification_status_label: string;
+    bank_name: string | null;
+    transaction_id: string | null;
+    gateway_reference: string | null;
+    cheque_number: string | null;
+    notes: string | null;
+    rejection_reason: string | null;
+    verified_at: string | null;
+    verified_by: string | null;
+    received_by: string | null;
+    created_at: string;
+    receipt_url: string | null;
+    receipt_is_pdf: boolean;
+    invoice: { id: number; invoice_number: string; total_amount: number; due_date: string } | null;
+    customer: { id: number; name: string; phone: string | null; email: string | null } | null;
+    branch: { id: number; name: string } | null;
+    credit_note: { id: number; credit_note_number: string } | null;
+}
+
+interface Props {
+    payment: Payment;
+    paymentSummary: InvoicePaymentSummary | null;
+    permissions: {
+        verify: boolean;
+        reject: boolean;
+        edit: boolean;
+        delete: boolean;
+    };
+}
+
+type ReviewForm = {
+    notes: string;
+    reason: string;
+};
+
+export default function PaymentsShow({ payment, paymentSummary, permissions }: Props) {
+    const { errors: pageErrors } = usePage<{ errors: Record<string, string> }>().props;
+    const [review, setReview] = useState<'verify' | 'reject' | null>(null);
+
+    const { data, setData, post, processing, errors, reset, clearErrors } = useForm<ReviewForm>({
+        notes: payment.notes ?? '',
+        reason: '',
+    });
+
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Payments', href: '/payments' },
+        { title: payment.payment_reference, href: `/payments/${payment.id}` },
+    ];
+
+    const closeReview = () => {
+        setReview(null);
+        clearErrors();
+        reset('reason');
+    };
+
+    const submitReview = (e: FormEvent) => {
+        e.preventDefault();
+
+        post(route(review === 'verify' ? 'payments.verify' : 'payments.reject', payment.id), {
+            preserveScroll: true,
+            onSuccess: () => closeReview(),
+        });
+    };
+
+    const destroy = () => {
+        if (confirm(`Delete payment ${payment.payment_reference}? This cannot be undone.`)) {
+            router.delete(route('payments.destroy', payment.id));
+        }
+    };
+
+    const details: { label: string; value: string | null }[] = [
+        { label: 'Payment date', value: new Date(payment.payment_date).toLocaleDateString() },
+        { label: 'Method', value: payment.payment_method_label },
+        { label: 'Bank', value: payment.bank_name },
+        { label: 'Cheque number', value: payment.cheque_number },
+        { label: 'Transaction ID', value: payment.transaction_id },
+        { label: 'Gateway reference', value: payment.gateway_reference },
+        { label: 'Branch', value: payment.branch?.name ?? null },
+        { label: 'Received by', value: payment.received_by },
+        { label: 'Recorded', value: new Date(payment.created_at).toLocaleString() },
+    ];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={payment.payment_reference} />
+
+            <div className="space-y-6">
+                <div className="flex items-start justify-between">
+                    <div>
+                        <h1 className="font-mono text-3xl font-bold tracking-tight">{payment.payment_reference}</h1>
+                        <div className="mt-2 flex flex-wrap items-center gap-2">
+                            <Badge className={statusBadgeClass(payment.status)}>{payment.status_label}</Badge>
+                            <Badge className={verificationBadgeClass(payment.verification_status)}>{payment.verification_status_label}</Badge>
+                            {payment.payment_type === 'refund' && <Badge variant="outline">Refund</Badge>}
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {permissions.verify && (
+                            <Button className="bg-green-600 hover:bg-green-700" onClick={() => setReview('verify')}>
+                                <Check className="mr-2 h-4 w-4" />
+                                Verify
+                            </Button>
+                        )}
+                        {permissions.reject && (
+                            <Button variant="destructive" onClick={() => setReview('reject')}>
+                                <XCircle className="mr-2 h-4 w-4" />
+                                Reject
+                            </Button>
+                        )}
+                        {payment.invoice && payment.status !== 'failed' && (
+                            <>
+                                <Button variant="outline" asChild>
+                                    <a href={route('payments.receipt', payment.id)} target="_blank" rel="noreferrer">
+                                        <Receipt className="mr-2 h-4 w-4" />
+                                        Receipt
+                                    </a>
+                                </Button>
+                                <Button variant="outline" asChild>
+                                    <a href={route('payments.receipt', { id: payment.id, layout: 'thermal' })} target="_blank" rel="noreferrer">
+                                        <Printer className="mr-2 h-4 w-4" />
+                                        80mm
+                                    </a>
+                                </Button>
+                            </>
+                        )}
+                        {permissions.edit && (
+                            <Button variant="outline" asChild>
+                                <Link href={route('payments.edit', payment.id)}>
+                                    <Edit className="mr-2 h-4 w-4" />
+                                    Edit
+                                </Link>
+                            </Button>
+                        )}
+                        {permissions.delete && (
+                            <Button variant="outline" className="text-red-600" onClick={destroy}>
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                            </Button>
+                        )}
+                        <Button variant="outline" asChild>
+                            <Link href={route('payments.index')}>
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+
+                {pageErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{pageErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {payment.verification_status === 'rejected' && payment.rejection_reason && (
+                    <Alert variant="destructive">
+                        <XCircle className="h-4 w-4" />
+                        <AlertDescription>Rejected: {payment.rejection_reason}</AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <div className="space-y-6 lg:col-span-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Payment Details</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <p className={`text-3xl font-bold ${payment.payment_type === 'refund' ? 'text-red-600' : ''}`}>
+                                    {money(payment.amount)}
+                                </p>
+                                <dl className="grid grid-cols-1 gap-4 text-sm md:grid-cols-3">
+                                    {details
+                                        .filter((detail) => detail.value)
+                                        .map((detail) => (
+                                            <div key={detail.label}>
+                                                <dt className="text-muted-foreground">{detail.label}</dt>
+                                                <dd className="font-medium">{detail.value}</dd>
+                                            </div>
+                                        ))}
+                                </dl>
+                                {payment.verified_at && (
+                                    <p className="text-sm text-muted-foreground">
+                                        Verified by {payment.verified_by ?? '—'} on {new Date(payment.verified_at).toLocaleString()}
+                                    </p>
+                                )}
+                                {payment.notes && <div className="rounded-md bg-muted/40 p-3 text-sm whitespace-pre-line">{payment.notes}</div>}
+                                {payment.credit_note && (
+                                    <p className="text-sm">
+                                        Credit note: <span className="font-mono font-medium">{payment.credit_note.credit_note_number}</span>
+                                    </p>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Paperclip className="h-5 w-5" />
+                                    Receipt
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                {!payment.receipt_url ? (
+                                    <p className="text-sm text-muted-foreground">No receipt or bank slip was uploaded.</p>
+                                ) : payment.receipt_is_pdf ? (
+                                    <Button variant="outline" asChild>
+                                        <a href={payment.receipt_url} target="_blank" rel="noreferrer">
+                                            <FileText className="mr-2 h-4 w-4" />
+                                            Open receipt PDF
+                                        </a>
+                                    </Button>
+                                ) : (
+                                    <a href={payment.receipt_url} target="_blank" rel="noreferrer" className="block">
+                                        <img
+                                            src={payment.receipt_url}
+                                            alt={`Receipt for ${payment.payment_reference}`}
+                                            className="max-h-[480px] rounded-md border object-contain"
+                                        />
+                                        <span className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+                                            <ExternalLink className="h-3 w-3" />
+                                            Open full size
+                                        </span>
+                                    </a>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        {payment.invoice && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <FileText className="h-5 w-5" />
+                                        Invoice
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-3 text-sm">
+                                    <Link
+                                        href={route('invoices.show', payment.invoice.id)}
+                                        className="font-mono font-medium text-primary hover:underline"
+                                    >
+                                        {payment.invoice.invoice_number}
+                                    </Link>
+                                    {payment.customer && (
+                                        <div>
+                                            <p className="font-medium">{payment.customer.name}</p>
+                                            {payment.customer.phone && <p className="text-muted-foreground">{payment.customer.phone}</p>}
+                                            {payment.customer.email && <p className="text-muted-foreground">{payment.customer.email}</p>}
+                                        </div>
+                                    )}
+                                    {paymentSummary && (
+                                        <dl className="space-y-1 border-t pt-3">
+                                            <div className="flex justify-between">
+                                                <dt className="text-muted-foreground">Invoice total</dt>
+                                                <dd>{money(paymentSummary.invoice_total)}</dd>
+                                            </div>
+                                            <div className="flex justify-between">
+                                                <dt className="text-muted-foreground">Paid</dt>
+                                                <dd className="text-green-600">{money(paymentSummary.total_paid)}</dd>
+                                            </div>
+                                            {paymentSummary.total_credited > 0 && (
+                                                <div className="flex justify-between">
+                                                    <dt className="text-muted-foreground">Credited</dt>
+                                                    <dd>{money(paymentSummary.total_credited)}</dd>
+                                                </div>
+                                            )}
+                                            {paymentSummary.pending_amount > 0 && (
+                                                <div className="flex justify-between">
+                                                    <dt className="text-muted-foreground">Pending verification</dt>
+                                                    <dd className="text-yellow-600">{money(paymentSummary.pending_amount)}</dd>
+                                                </div>
+                                            )}
+                                            <div className="flex justify-between font-bold">
+                                                <dt>Balance</dt>
+                                                <dd className={paymentSummary.remaining_balance > 0 ? 'text-red-600' : 'text-green-600'}>
+                                                    {money(paymentSummary.remaining_balance)}
+                                                </dd>
+                                            </div>
+                                        </dl>
+                                    )}
+                                    <Button variant="outline" size="sm" className="w-full" asChild>
+                                        <Link href={route('payments.index', { invoice_id: payment.invoice.id })}>All payments for this invoice</Link>
+                                    </Button>
+                                </CardContent>
+                            </Card>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <Dialog open={review !== null} onOpenChange={(open) => !open && closeReview()}>
+                <DialogContent>
+                    <form onSubmit={submitReview} className="space-y-4">
+                        <DialogHeader>
+                            <DialogTitle>{review === 'verify' ? 'Verify Payment' : 'Reject Payment'}</DialogTitle>
+                            <DialogDescription>
+                                {review === 'verify'
+                                    ? `${money(payment.amount)} will be counted against the invoice.`
+                                    : 'The customer balance stays open and the reason is kept on the payment.'}
+                            </DialogDescription>
+                        </DialogHeader>
+
+                        {review === 'verify' ? (
+                            <div className="grid gap-1">
+                                <Label htmlFor="notes">Notes</Label>
+                                <Textarea
+                                    id="notes"
+                                    rows={3}
+                                    maxLength={1000}
+                                    value={data.notes}
+                                    onChange={(e) => setData('notes', e.target.value)}
+                                />
+                                <InputError message={errors.notes} />
+                            </div>
+                        ) : (
+                            <div className="grid gap-1">
+                                <Label htmlFor="reason">Reason *</Label>
+                                <Textarea
+                                    id="reason"
+                                    rows={3}
+                                    maxLength={1000}
+                                    value={data.reason}
+                                    onChange={(e) => setData('reason', e.target.value)}
+                                    required
+                                />
+                                <InputError message={errors.reason} />
+                            </div>
+                        )}
+
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={closeReview}>
+                                Cancel
+                            </Button>
+                            <Button type="submit" variant={review === 'reject' ? 'destructive' : 'default'} disabled={processing}>
+                                {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                {review === 'verify' ? 'Verify' : 'Reject'}
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,554 @@
+// resources/js/pages/PriceLists/Index.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, router, useForm, usePage } from '@inertiajs/react';
+import { AlertTriangle, CalendarRange, Edit, Plus, Search, Tags, Trash2, Users, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+type PriceListItemRow = {
+    product_id: string;
+    min_quantity: string;
+    unit_price: string;
+};
+
+interface PriceListRow {
+    id: number;
+    name: string;
+    description: string | null;
+    customer_type: string | null;
+    valid_from: string | null;
+    valid_until: string | null;
+    is_active: boolean;
+    is_current: boolean;
+    items: {
+        product_id: number;
+        product_name: string | null;
+        product_code: string | null;
+        base_price: number;
+        min_quantity: number;
+        unit_price: number;
+    }[];
+    customers: { id: number; name: string; customer_code: string }[];
+}
+
+interface ProductOption {
+    id: number;
+    name: string;
+    product_code: string;
+    base_price: number;
+}
+
+interface CustomerOption {
+    id: number;
+    name: string;
+    customer_code: string;
+    price_list_id: number | null;
+}
+
+interface Filters {
+    search?: string | null;
+    status?: string | null;
+}
+
+interface Props {
+    priceLists: PriceListRow[];
+    filters: Filters;
+    customerTypes: Record<string, string>;
+    products: ProductOption[];
+    customers: CustomerOption[];
+    permissions: { manage: boolean };
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Products', href: '/products' },
+    { title: 'Price Lists', href: '/price-lists' },
+];
+
+const money = (value: number) => `Rs. ${Number(value).toFixed(2)}`;
+
+const validityLabel = (priceList: PriceListRow) => {
+    if (!priceList.valid_from && !priceList.valid_until) {
+        return 'No end date';
+    }
+
+    const from = priceList.valid_from ? new Date(priceList.valid_from).toLocaleDateString() : 'now';
+    const until = priceList.valid_until ? new Date(priceList.valid_until).toLocaleDateString() : 'no end date';
+
+    return `${from} – ${until}`;
+};
+
+export default function PriceListsIndex({ priceLists, filters, customerTypes, products, customers, permissions }: Props) {
+    const { errors } = usePage().props as { errors: Record<string, string> };
+    const [search, setSearch] = useState(filters.search ?? '');
+    // null keeps the dialog closed; 'new' opens an empty form
+    const [editing, setEditing] = useState<PriceListRow | 'new' | null>(null);
+
+    const applyFilters = (newFilters: Partial<Filters>) => {
+        const cleanFilters = Object.fromEntries(
+            Object.entries({ ...filters, ...newFilters }).filter(([, value]) => value !== '' && value !== null && value !== undefined),
+        );
+
+        router.get(route('price-lists.index'), cleanFilters, { preserveState: true, preserveScroll: true });
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        router.get(route('price-lists.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const handleDelete = (priceList: PriceListRow) => {
+        if (confirm(`Delete the price list "${priceList.name}"? Its customers go back to standard pricing; existing invoices keep their prices.`)) {
+            router.delete(route('price-lists.destroy', priceList.id), { preserveScroll: true });
+        }
+    };
+
+    const hasActiveFilters = Object.values(filters).some((value) => value !== '' && value !== null && value !== undefined);
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Price Lists" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Price Lists</h1>
+                        <p className="text-muted-foreground">
+                            Special prices for selected customers or whole customer groups, applied on new invoices
+                        </p>
+                    </div>
+                    {permissions.manage && (
+                        <Button onClick={() => setEditing('new')}>
+                            <Plus className="mr-2 h-4 w-4" />
+                            New Price List
+                        </Button>
+                    )}
+                </div>
+
+                {errors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{errors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <Card>
+                    <CardContent className="grid grid-cols-1 items-end gap-4 p-4 md:grid-cols-3">
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                applyFilters({ search });
+                            }}
+                            className="relative md:col-span-2"
+                        >
+                            <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Search name or description..."
+                                className="pl-8"
+                            />
+                        </form>
+                        <div className="flex gap-2">
+                            <select
+                                aria-label="Status"
+                                value={filters.status ?? ''}
+                                onChange={(e) => applyFilters({ status: e.target.value })}
+                                className={selectClass}
+                            >
+                                <option value="">Active and inactive</option>
+                                <option value="active">Active</option>
+                                <option value="inactive">Inactive</option>
+                            </select>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="icon" onClick={clearFilters} title="Clear filters">
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {priceLists.length === 0 ? (
+                    <Card>
+                        <CardContent className="py-12 text-center">
+                            <Tags className="mx-auto mb-4 h-12 w-12 text-muted-foreground" />
+                            <p className="font-medium">No price lists yet</p>
+                            <p className="text-sm text-muted-foreground">
+                                Customers without a price list are charged the product's quantity breaks or base price.
+                            </p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                        {priceLists.map((priceList) => (
+                            <Card key={priceList.id} className={priceList.is_current ? '' : 'opacity-70'}>
+                                <CardHeader>
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div>
+                                            <CardTitle>{priceList.name}</CardTitle>
+                                            {priceList.description && <CardDescription>{priceList.description}</CardDescription>}
+                                        </div>
+                                        <div className="flex shrink-0 gap-1">
+                                            {!priceList.is_active && <Badge variant="outline">Inactive</Badge>}
+                                            {priceList.is_active && !priceList.is_current && <Badge variant="outline">Out of date range</Badge>}
+                                            {priceList.customer_type && (
+                                                <Badge variant="secondary">{customerTypes[priceList.customer_type] ?? priceList.customer_type}</Badge>
+                                            )}
+                                        </div>
+                                    </div>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    {priceList.items.length === 0 ? (
+                                        <p className="text-sm text-muted-foreground">No product prices on this list yet</p>
+                                    ) : (
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="border-b text-left text-xs text-muted-foreground">
+                                                    <th className="py-1 font-medium">Product</th>
+                                                    <th className="py-1 font-medium">From qty</th>
+                                                    <th className="py-1 text-right font-medium">Price</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {priceList.items.map((item) => (
+                                                    <tr key={`${item.product_id}-${item.min_quantity}`} className="border-b last:border-0">
+                                                        <td className="py-1">
+                                                            {item.product_name ?? 'Deleted product'}
+                                                            {item.product_code && (
+                                                                <span className="ml-1 font-mono text-xs text-muted-foreground">
+                                                                    {item.product_code}
+                                                                </span>
+                                                            )}
+                                                        </td>
+                                                        <td className="py-1">{item.min_quantity}</td>
+                                                        <td className="py-1 text-right">
+                                                            {money(item.unit_price)}
+                                                            {item.base_price > item.unit_price && (
+                                                                <span className="ml-1 text-xs text-muted-foreground line-through">
+                                                                    {money(item.base_price)}
+                                                                </span>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+
+                                    <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-3 text-xs text-muted-foreground">
+                                        <span className="flex items-center gap-3">
+                                            <span className="flex items-center gap-1">
+                                                <Users className="h-3 w-3" />
+                                                {priceList.customers.length > 0
+                                                    ? priceList.customers.map((customer) => customer.name).join(', ')
+                                                    : priceList.customer_type
+                                                      ? 'Whole customer group'
+                                                      : 'No customers assigned'}
+                                            </span>
+                                            <span className="flex items-center gap-1">
+                                                <CalendarRange className="h-3 w-3" />
+                                                {validityLabel(priceList)}
+                                            </span>
+                                        </span>
+                                        {permissions.manage && (
+                                            <span className="flex gap-1">
+                                                <Button size="sm" variant="outline" onClick={() => setEditing(priceList)} title="Edit price list">
+                                                    <Edit className="h-3 w-3" />
+                                                </Button>
+                                                <Button size="sm" variant="outline" onClick={() => handleDelete(priceList)} title="Delete price list">
+                                                    <Trash2 className="h-3 w-3 text-red-600" />
+                                                </Button>
+                                            </span>
+                                        )}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {editing !== null && (
+                <PriceListFormDialog
+                    priceList={editing === 'new' ? null : editing}
+                    customerTypes={customerTypes}
+                    products={products}
+                    customers={customers}
+                    priceListNames={Object.fromEntries(priceLists.map((priceList) => [priceList.id, priceList.name]))}
+                    onClose={() => setEditing(null)}
+                />
+            )}
+        </AppLayout>
+    );
+}
+
+interface PriceListFormDialogProps {
+    priceList: PriceListRow | null;
+    customerTypes: Record<string, string>;
+    products: ProductOption[];
+    customers: CustomerOption[];
+    priceListNames: Record<number, string>;
+    onClose: () => void;
+}
+
+function PriceListFormDialog({ priceList, customerTypes, products, customers, priceListNames, onClose }: PriceListFormDialogProps) {
+    const [customerSearch, setCustomerSearch] = useState('');
+    const { data, setData, post, put, processing, errors } = useForm({
+        name: priceList?.name ?? '',
+        description: priceList?.description ?? '',
+        customer_type: priceList?.customer_type ?? '',
+        valid_from: priceList?.valid_from ?? '',
+        valid_until: priceList?.valid_until ?? '',
+        is_active: priceList?.is_active ?? true,
+        items:
+            priceList?.items.map((item) => ({
+                product_id: String(item.product_id),
+                min_quantity: String(item.min_quantity),
+                unit_price: String(item.unit_price),
+            })) ?? ([] as PriceListItemRow[]),
+        customer_ids: priceList?.customers.map((customer) => customer.id) ?? ([] as number[]),
+    });
+
+    const fieldErrors = errors as Record<string, string>;
+
+    const visibleCustomers = useMemo(() => {
+        const term = customerSearch.trim().toLowerCase();
+
+        return customers.filter(
+            (customer) =>
+                data.customer_ids.includes(customer.id) ||
+                term === '' ||
+                customer.name.toLowerCase().includes(term) ||
+                customer.customer_code.toLowerCase().includes(term),
+        );
+    }, [customers, customerSearch, data.customer_ids]);
+
+    const updateItem = (index: number, changes: Partial<PriceListItemRow>) =>
+        setData(
+            'items',
+            data.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+        );
+
+    const toggleCustomer = (customerId: number, checked: boolean) =>
+        setData('customer_ids', checked ? [...data.customer_ids, customerId] : data.customer_ids.filter((id) => id !== customerId));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const options = { preserveScroll: true, onSuccess: onClose };
+
+        if (priceList) {
+            put(route('price-lists.update', priceList.id), options);
+        } else {
+            post(route('price-lists.store'), options);
+        }
+    };
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>{priceList ? 'Edit Price List' : 'New Price List'}</DialogTitle>
+                    <DialogDescription>
+                        A customer's own list wins over group lists. Products not on any list use their quantity breaks or base price.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="name">Name *</Label>
+                            <Input id="name" value={data.name} onChange={(e) => setData('name', e.target.value)} required />
+                            <InputError message={errors.name} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="customer_type">Customer Group</Label>
+                            <select
+                                id="customer_type"
+                                value={data.customer_type}
+                                onChange={(e) => setData('customer_type', e.target.value)}
+                                className={selectClass}
+                            >
+                                <option value="">Only the customers selected below</option>
+                                {Object.entries(customerTypes).map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                        All {label.toLowerCase()}
+                                    </option>
+                                ))}
+                            </select>
+                            <InputError message={errors.customer_type} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="valid_from">Valid From</Label>
+                            <Input id="valid_from" type="date" value={data.valid_from} onChange={(e) => setData('valid_from', e.target.value)} />
+                            <InputError message={errors.valid_from} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="valid_until">Valid Until</Label>
+                            <Input id="valid_until" type="date" value={data.valid_until} onChange={(e) => setData('valid_until', e.target.value)} />
+                            <InputError message={errors.valid_until} />
+                        </div>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="description">Description</Label>
+                        <Textarea id="description" rows={2} value={data.description} onChange={(e) => setData('description', e.target.value)} />
+                        <InputError message={errors.description} />
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label>Product Prices</Label>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setData('items', [...data.items, { product_id: '', min_quantity: '1', unit_price: '' }])}
+                            >
+                                <Plus className="mr-1 h-3 w-3" />
+                                Add Price
+                            </Button>
+                        </div>
+                        {data.items.length === 0 ? (
+                            <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">
+                                Add the products this list prices differently. Add a product twice with different starting quantities for bulk rates.
+                            </p>
+                        ) : (
+                            <div className="space-y-2">
+                                {data.items.map((item, index) => {
+                                    const product = products.find((option) => String(option.id) === item.product_id);
+
+                                    return (
+                                        <div key={index} className="space-y-1">
+                                            <div className="flex items-center gap-2">
+                                                <select
+                                                    aria-label="Product"
+                                                    value={item.product_id}
+                                                    onChange={(e) => updateItem(index, { product_id: e.target.value })}
+                                                    className={selectClass}
+                                                >
+                                                    <option value="">Select product</option>
+                                                    {products.map((option) => (
+                                                        <option key={option.id} value={option.id}>
+                                                            {option.name} ({option.product_code})
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <Input
+                                                    aria-label="From quantity"
+                                                    type="number"
+                                                    min="1"
+                                                    className="w-24"
+                                                    value={item.min_quantity}
+                                                    onChange={(e) => updateItem(index, { min_quantity: e.target.value })}
+                                                />
+                                                <span className="text-xs text-muted-foreground">+ units</span>
+                                                <Input
+                                                    aria-label="Unit price"
+                                                    type="number"
+                                                    min="0.01"
+                                                    step="0.01"
+                                                    className="w-32"
+                                                    placeholder={product ? String(product.base_price) : 'Rs.'}
+                                                    value={item.unit_price}
+                                                    onChange={(e) => updateItem(index, { unit_price: e.target.value })}
+                                                />
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={() =>
+                                                        setData(
+                                                            'items',
+                                                            data.items.filter((_, i) => i !== index),
+                                                        )
+                                                    }
+                                                    title="Remove price"
+                                                >
+                                                    <X className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                            {product && <p className="pl-1 text-xs text-muted-foreground">Base price {money(product.base_price)}</p>}
+                                            <InputError
+                                                message={
+                                                    fieldErrors[`items.${index}.product_id`] ??
+                                                    fieldErrors[`items.${index}.min_quantity`] ??
+                                                    fieldErrors[`items.${index}.unit_price`]
+                                                }
+                                            />
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                        <InputError message={errors.items} />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Customers ({data.customer_ids.length} selected)</Label>
+                        <Input
+                            value={customerSearch}
+                            onChange={(e) => setCustomerSearch(e.target.value)}
+                            placeholder="Find customers by name or code..."
+                        />
+                        <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                            {visibleCustomers.length === 0 && <p className="p-2 text-center text-sm text-muted-foreground">No matching customers</p>}
+                            {visibleCustomers.map((customer) => {
+                                const otherList =
+                                    customer.price_list_id && customer.price_list_id !== priceList?.id
+                                        ? priceListNames[customer.price_list_id]
+                                        : null;
+
+                                return (
+                                    <label key={customer.id} className="flex items-center gap-2 rounded px-1 py-0.5 text-sm hover:bg-muted">
+                                        <Checkbox
+                                            checked={data.customer_ids.includes(customer.id)}
+                                            onCheckedChange={(checked) => toggleCustomer(customer.id, !!checked)}
+                                        />
+                                        <span>{customer.name}</span>
+                                        <span className="font-mono text-xs text-muted-foreground">{customer.customer_code}</span>
+                                        {otherList && <span className="ml-auto text-xs text-amber-700">moves from {otherList}</span>}
+                                    </label>
+                                );
+                            })}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            A customer has one price list; selecting them here moves them off any other list.
+                        </p>
+                        <InputError message={errors.customer_ids} />
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                        <Checkbox id="is_active" checked={data.is_active} onCheckedChange={(checked) => setData('is_active', !!checked)} />
+                        <Label htmlFor="is_active">Apply this price list on new invoices</Label>
+                    </div>
+
+                    {fieldErrors.error && <InputError message={fieldErrors.error} />}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={processing}>
+                            {processing ? 'Saving...' : priceList ? 'Save Changes' : 'Create Price List'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,196 @@
+// resources/js/pages/ProductCategories/Edit.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { buildCategoryOptions, type TreeCategory } from '@/lib/category-tree';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, FolderTree, Save } from 'lucide-react';
+import { useMemo } from 'react';
+
+interface Props {
+    category: {
+        id: number;
+        name: string;
+        code: string;
+        description: string | null;
+        image_url: string | null;
+        parent_id: number | null;
+        status: 'active' | 'inactive';
+        sort_order: number;
+    };
+    parentCategories: TreeCategory[];
+}
+
+export default function EditProductCategory({ category, parentCategories = [] }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Product Categories', href: '/product-categories' },
+        { title: category.name, href: `/product-categories/${category.id}` },
+        { title: 'Edit', href: `/product-categories/${category.id}/edit` },
+    ];
+
+    const { data, setData, post, processing, errors } = useForm({
+        _method: 'put',
+        name: category.name,
+        code: category.code ?? '',
+        description: category.description ?? '',
+        image: null as File | null,
+        parent_id: category.parent_id ? String(category.parent_id) : '',
+        status: category.status,
+        sort_order: String(category.sort_order ?? ''),
+    });
+
+    // A category cannot be moved under itself or anything nested below it
+    const parentOptions = useMemo(() => buildCategoryOptions(parentCategories, category.id), [parentCategories, category.id]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        // Files cannot be sent with PUT, so spoof the method on a multipart POST
+        post(route('product-categories.update', category.id), { forceFormData: true });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Edit ${category.name}`} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Edit Category</h1>
+                        <p className="text-muted-foreground">{category.name}</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('product-categories.show', category.id)}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to Category
+                        </Link>
+                    </Button>
+                </div>
+
+                {'error' in errors && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{(errors as Record<string, string>).error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <form onSubmit={handleSubmit}>
+                    <Card className="max-w-3xl">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <FolderTree className="h-5 w-5" />
+                                Category Details
+                            </CardTitle>
+                            <CardDescription>Changing the parent moves this category and its subcategories</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                                <div className="grid gap-2">
+                                    <Label htmlFor="name">Name *</Label>
+                                    <Input id="name" value={data.name} onChange={(e) => setData('name', e.target.value)} required />
+                                    <InputError message={errors.name} />
+                                </div>
+
+                                <div className="grid gap-2">
+                                    <Label htmlFor="code">Code</Label>
+                                    <Input
+                                        id="code"
+                                        value={data.code}
+                                        onChange={(e) => setData('code', e.target.value.toUpperCase())}
+                                        placeholder="e.g., BNR001"
+                                    />
+                                    <InputError message={errors.code} />
+                                </div>
+
+                                <div className="grid gap-2">
+                                    <Label htmlFor="parent_id">Parent Category</Label>
+                                    <select
+                                        id="parent_id"
+                                        value={data.parent_id}
+                                        onChange={(e) => setData('parent_id', e.target.value)}
+                                        className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                                    >
+                                        <option value="">None (top level)</option>
+                                        {parentOptions.map((option) => (
+                                            <option key={option.id} value={option.id}>
+                                                {'\u00A0\u00A0'.repeat(option.depth)}
+                                                {option.depth > 0 ? '└ ' : ''}
+                                                {option.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <InputError message={errors.parent_id} />
+                                </div>
+
+                                <div className="grid gap-2">
+                                    <Label htmlFor="status">Status *</Label>
+                                    <select
+                                        id="status"
+                                        value={data.status}
+                                        onChange={(e) => setData('status', e.target.value as 'active' | 'inactive')}
+                                        className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                                    >
+                                        <option value="active">Active</option>
+                                        <option value="inactive">Inactive</option>
+                                    </select>
+                                    <InputError message={errors.status} />
+                                </div>
+
+                                <div className="grid gap-2">
+                                    <Label htmlFor="sort_order">Sort Order</Label>
+                                    <Input
+                                        id="sort_order"
+                                        type="number"
+                                        min="0"
+                                        value={data.sort_order}
+                                        onChange={(e) => setData('sort_order', e.target.value)}
+                                    />
+                                    <InputError message={errors.sort_order} />
+                                </div>
+
+                                <div className="grid gap-2">
+                                    <Label htmlFor="image">{category.image_url ? 'Replace Image' : 'Image'}</Label>
+                                    {category.image_url && (
+                                        <img src={category.image_url} alt={category.name} className="h-16 w-16 rounded-md border object-cover" />
+                                    )}
+                                    <Input
+                                        id="image"
+                                        type="file"
+                                        accept="image/jpeg,image/png,image/gif,image/webp"
+                                        onChange={(e) => setData('image', e.target.files?.[0] ?? null)}
+                                    />
+                                    <InputError message={errors.image} />
+                                </div>
+                            </div>
+
+                            <div className="grid gap-2">
+                                <Label htmlFor="description">Description</Label>
+                                <Textarea
+                                    id="description"
+                                    rows={3}
+                                    value={data.description}
+                                    onChange={(e) => setData('description', e.target.value)}
+                                />
+                                <InputError message={errors.description} />
+                            </div>
+
+                            <div className="flex justify-end">
+                                <Button type="submit" disabled={processing}>
+                                    <Save className="mr-2 h-4 w-4" />
+                                    {processing ? 'Saving...' : 'Update Category'}
+                                </Button>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,439 @@
+// resources/js/pages/ProductCategories/Index.tsx
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import AppLayout from '@/layouts/app-layout';
+import { getChildren, getDescendantIds } from '@/lib/category-tree';
+import { requestJson } from '@/lib/http';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import {
+    AlertTriangle,
+    ChevronDown,
+    ChevronRight,
+    Edit,
+    Eye,
+    Folder,
+    FolderOpen,
+    FolderTree,
+    GripVertical,
+    Package,
+    Plus,
+    Search,
+    Trash2,
+} from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+interface Category {
+    id: number;
+    name: string;
+    code: string;
+    parent_id: number | null;
+    status: 'active' | 'inactive';
+    sort_order: number;
+    products_count: number;
+    image_url?: string | null;
+}
+
+interface Props {
+    categoryTree: Category[];
+    stats: {
+        total: number;
+        active: number;
+        inactive: number;
+        top_level: number;
+        with_products: number;
+    };
+    permissions: {
+        canCreate: boolean;
+        canEdit: boolean;
+        canDelete: boolean;
+    };
+}
+
+// Dropping on a row nests the category inside it; dropping on the line above a row places it before that row
+type DropTarget = { id: number; position: 'inside' | 'before' } | { id: null; position: 'root' };
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Product Categories', href: '/product-categories' },
+];
+
+export default function ProductCategoriesIndex({ categoryTree, stats, permissions }: Props) {
+    const [categories, setCategories] = useState<Category[]>(categoryTree);
+    const [expanded, setExpanded] = useState<Set<number>>(() => new Set(categoryTree.map((category) => category.id)));
+    const [search, setSearch] = useState('');
+    const [draggingId, setDraggingId] = useState<number | null>(null);
+    const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setCategories(categoryTree);
+    }, [categoryTree]);
+
+    // Products in each category including everything nested below it
+    const totalProducts = useMemo(() => {
+        const totals = new Map<number, number>();
+        categories.forEach((category) => {
+            const nested = getDescendantIds(categories, category.id);
+            totals.set(
+                category.id,
+                category.products_count + categories.filter((c) => nested.includes(c.id)).reduce((sum, c) => sum + c.products_count, 0),
+            );
+        });
+        return totals;
+    }, [categories]);
+
+    // While searching, keep matching categories and the ancestors needed to reach them
+    const visibleIds = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        if (!term) {
+            return null;
+        }
+
+        const visible = new Set<number>();
+        categories
+            .filter((category) => category.name.toLowerCase().includes(term) || category.code?.toLowerCase().includes(term))
+            .forEach((category) => {
+                let current: Category | undefined = category;
+                while (current && !visible.has(current.id)) {
+                    visible.add(current.id);
+                    current = categories.find((c) => c.id === current?.parent_id);
+                }
+            });
+        return visible;
+    }, [categories, search]);
+
+    const toggleExpanded = (categoryId: number) => {
+        const next = new Set(expanded);
+        if (next.has(categoryId)) {
+            next.delete(categoryId);
+        } else {
+            next.add(categoryId);
+        }
+        setExpanded(next);
+    };
+
+    const canDropOn = (target: DropTarget) => {
+        if (draggingId === null) {
+            return false;
+        }
+        if (target.id === null) {
+            return true;
+        }
+        return target.id !== draggingId && !getDescendantIds(categories, draggingId).includes(target.id);
+    };
+
+    const handleDrop = async (target: DropTarget) => {
+        const movedId = draggingId;
+        setDraggingId(null);
+        setDropTarget(null);
+
+        if (movedId === null || !canDropOn(target)) {
+            return;
+        }
+
+        const previous = categories;
+        const parentId =
+            target.position === 'inside'
+                ? target.id
+                : target.position === 'before'
+                  ? (previous.find((c) => c.id === target.id)?.parent_id ?? null)
+                  : null;
+
+        const siblings = getChildren(previous, parentId).filter((category) => category.id !== movedId);
+        const insertAt = target.position === 'before' ? siblings.findIndex((category) => category.id === target.id) : siblings.length;
+        const siblingIds = siblings.map((category) => category.id);
+        siblingIds.splice(insertAt, 0, movedId);
+
+        // Apply the move locally first and roll back if the server rejects it
+        setCategories(
+            previous.map((category) => {
+                const position = siblingIds.indexOf(category.id);
+                if (position === -1) {
+                    return category;
+                }
+                return { ...category, parent_id: parentId, sort_order: position + 1 };
+            }),
+        );
+        if (parentId !== null) {
+            setExpanded((current) => new Set(current).add(parentId));
+        }
+        setActionError(null);
+
+        try {
+            await requestJson(route('product-categories.move', movedId), 'POST', { parent_id: parentId, sibling_ids: siblingIds });
+        } catch (error) {
+            setCategories(previous);
+            setActionError(error instanceof Error ? error.message : 'Category move failed');
+        }
+    };
+
+    const handleToggleStatus = async (category: Category) => {
+        const previous = categories;
+        const nextStatus = category.status === 'active' ? 'inactive' : 'active';
+        setCategories(previous.map((c) => (c.id === category.id ? { ...c, status: nextStatus } : c)));
+
+        try {
+            await requestJson(route('product-categories.toggle-status', category.id), 'PATCH');
+        } catch (error) {
+            setCategories(previous);
+            setActionError(error instanceof Error ? error.message : 'Status update failed');
+        }
+    };
+
+    const handleDelete = (category: Category) => {
+        if (confirm(`Are you sure you want to delete "${category.name}"?`)) {
+            router.delete(route('product-categories.destroy', category.id), { preserveScroll: true });
+        }
+    };
+
+    const deleteBlockedReason = (category: Category) => {
+        if (category.products_count > 0) {
+            return `Move or delete its ${category.products_count} product(s) first`;
+        }
+        if (categories.some((c) => c.parent_id === category.id)) {
+            return 'Delete or move its subcategories first';
+        }
+        return null;
+    };
+
+    const renderBranch = (parentId: number | null, depth: number) =>
+        getChildren(categories, parentId)
+            .filter((category) => !visibleIds || visibleIds.has(category.id))
+            .map((category) => {
+                const children = getChildren(categories, category.id);
+                const isExpanded = expanded.has(category.id) || visibleIds !== null;
+                const blockedReason = deleteBlockedReason(category);
+                const isDropInside = dropTarget?.id === category.id && dropTarget.position === 'inside';
+                const isDropBefore = dropTarget?.id === category.id && dropTarget.position === 'before';
+
+                return (
+                    <div key={category.id}>
+                        {permissions.canEdit && (
+                            <div
+                                className={`h-1.5 rounded ${isDropBefore ? 'bg-primary' : ''}`}
+                                style={{ marginLeft: depth * 24 }}
+                                onDragOver={(e) => {
+                                    if (canDropOn({ id: category.id, position: 'before' })) {
+                                        e.preventDefault();
+                                        setDropTarget({ id: category.id, position: 'before' });
+                                    }
+                                }}
+                                onDragLeave={() => setDropTarget(null)}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    handleDrop({ id: category.id, position: 'before' });
+                                }}
+                            />
+                        )}
+                        <div
+                            className={`flex items-center gap-2 rounded-md border p-2 ${isDropInside ? 'border-primary bg-primary/5' : ''} ${
+                                draggingId === category.id ? 'opacity-50' : ''
+                            }`}
+                            style={{ marginLeft: depth * 24 }}
+                            draggable={permissions.canEdit && visibleIds === null}
+                            onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move';
+                                setDraggingId(category.id);
+                            }}
+                            onDragEnd={() => {
+                                setDraggingId(null);
+                                setDropTarget(null);
+                            }}
+                            onDragOver={(e) => {
+                                if (canDropOn({ id: category.id, position: 'inside' })) {
+                                    e.preventDefault();
+                                    setDropTarget({ id: category.id, position: 'inside' });
+                                }
+                            }}
+                            onDrop={(e) => {
+                                e.preventDefault();
+                                handleDrop({ id: category.id, position: 'inside' });
+                            }}
+                        >
+                            {permissions.canEdit && <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" />}
+                            <button
+                                type="button"
+                                className={`h-4 w-4 ${children.length === 0 ? 'invisible' : ''}`}
+                                onClick={() => toggleExpanded(category.id)}
+                            >
+                                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </button>
+                            {isExpanded && children.length > 0 ? (
+                                <FolderOpen className="h-4 w-4 text-blue-600" />
+                            ) : (
+                                <Folder className="h-4 w-4 text-blue-600" />
+                            )}
+
+                            <div className="min-w-0 flex-1">
+                                <Link href={route('product-categories.show', category.id)} className="font-medium hover:underline">
+                                    {category.name}
+                                </Link>
+                                <span className="ml-2 text-xs text-muted-foreground">{category.code}</span>
+                            </div>
+
+                            <div
+                                className="flex items-center gap-1 text-sm text-muted-foreground"
+                                title="Products in this category (including subcategories)"
+                            >
+                                <Package className="h-4 w-4" />
+                                {category.products_count}
+                                {totalProducts.get(category.id) !== category.products_count && <span>({totalProducts.get(category.id)})</span>}
+                            </div>
+
+                            <Badge
+                                className={`${category.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'} ${
+                                    permissions.canEdit ? 'cursor-pointer' : ''
+                                }`}
+                                onClick={() => permissions.canEdit && handleToggleStatus(category)}
+                            >
+                                {category.status}
+                            </Badge>
+
+                            <div className="flex gap-1">
+                                <Button variant="ghost" size="sm" asChild>
+                                    <Link href={route('product-categories.show', category.id)}>
+                                        <Eye className="h-4 w-4" />
+                                    </Link>
+                                </Button>
+                                {permissions.canEdit && (
+                                    <Button variant="ghost" size="sm" asChild>
+                                        <Link href={route('product-categories.edit', category.id)}>
+                                            <Edit className="h-4 w-4" />
+                                        </Link>
+                                    </Button>
+                                )}
+                                {permissions.canDelete && (
+                                    <span title={blockedReason ?? 'Delete category'}>
+                                        <Button variant="ghost" size="sm" disabled={blockedReason !== null} onClick={() => handleDelete(category)}>
+                                            <Trash2 className="h-4 w-4 text-red-600" />
+                                        </Button>
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+
+                        {isExpanded && renderBranch(category.id, depth + 1)}
+                    </div>
+                );
+            });
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Product Categories" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Product Categories</h1>
+                        <p className="text-muted-foreground">Organise products into a category tree</p>
+                    </div>
+                    {permissions.canCreate && (
+                        <Button asChild>
+                            <Link href={route('product-categories.create')}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                Add Category
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                    <Card>
+                        <CardContent className="p-4">
+                            <p className="text-sm text-muted-foreground">Total</p>
+                            <p className="text-2xl font-bold">{stats.total}</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <p className="text-sm text-muted-foreground">Active</p>
+                            <p className="text-2xl font-bold text-green-600">{stats.active}</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <p className="text-sm text-muted-foreground">Top Level</p>
+                            <p className="text-2xl font-bold">{stats.top_level}</p>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-4">
+                            <p className="text-sm text-muted-foreground">With Products</p>
+                            <p className="text-2xl font-bold">{stats.with_products}</p>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {actionError && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{actionError}</AlertDescription>
+                    </Alert>
+                )}
+
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-center justify-between gap-4">
+                            <div>
+                                <CardTitle className="flex items-center gap-2">
+                                    <FolderTree className="h-5 w-5" />
+                                    Category Tree
+                                </CardTitle>
+                                {permissions.canEdit && (
+                                    <CardDescription>
+                                        Drag a category onto another to nest it, or onto the line above a category to reorder
+                                    </CardDescription>
+                                )}
+                            </div>
+                            <div className="relative w-64">
+                                <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    placeholder="Search categories..."
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    className="pl-8"
+                                />
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        {categories.length === 0 ? (
+                            <div className="py-12 text-center text-muted-foreground">
+                                <FolderTree className="mx-auto mb-4 h-12 w-12" />
+                                <p>No product categories yet</p>
+                            </div>
+                        ) : (
+                            <div>
+                                {renderBranch(null, 0)}
+
+                                {permissions.canEdit && draggingId !== null && (
+                                    <div
+                                        className={`mt-2 rounded-md border-2 border-dashed p-3 text-center text-sm text-muted-foreground ${
+                                            dropTarget?.position === 'root' ? 'border-primary text-primary' : ''
+                                        }`}
+                                        onDragOver={(e) => {
+                                            e.preventDefault();
+                                            setDropTarget({ id: null, position: 'root' });
+                                        }}
+                                        onDragLeave={() => setDropTarget(null)}
+                                        onDrop={(e) => {
+                                            e.preventDefault();
+                                            handleDrop({ id: null, position: 'root' });
+                                        }}
+                                    >
+                                        Drop here to make it a top-level category
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
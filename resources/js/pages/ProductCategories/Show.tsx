@@ -0,0 +1,243 @@
+// resources/js/pages/ProductCategories/Show.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { ArrowLeft, Clock, Edit, Folder, Package, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+    category: {
+        id: number;
+        name: string;
+        code: string;
+        description: string | null;
+        image_url: string | null;
+        status: 'active' | 'inactive';
+        sort_order: number;
+        created_at: string;
+        updated_at: string;
+        parent: { id: number; name: string } | null;
+        children: {
+            id: number;
+            name: string;
+            products_count: number;
+            status: 'active' | 'inactive';
+        }[];
+        products: {
+            id: number;
+            name: string;
+            product_code: string;
+            base_price: number;
+            status: string;
+        }[];
+        hierarchy: string;
+        products_count: number;
+    };
+    permissions: {
+        canEdit: boolean;
+        canDelete: boolean;
+    };
+}
+
+const statusClass = (status: string) => (status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800');
+
+export default function ShowProductCategory({ category, permissions }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Product Categories', href: '/product-categories' },
+        { title: category.name, href: `/product-categories/${category.id}` },
+    ];
+
+    const deleteBlockedReason =
+        category.products_count > 0
+            ? 'Move or delete the products in this category first'
+            : category.children.length > 0
+              ? 'Delete or move the subcategories first'
+              : null;
+
+    const handleDelete = () => {
+        if (confirm(`Are you sure you want to delete "${category.name}"?`)) {
+            router.delete(route('product-categories.destroy', category.id));
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={category.name} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <div className="flex items-center gap-3">
+                            <h1 className="text-3xl font-bold tracking-tight">{category.name}</h1>
+                            <Badge className={statusClass(category.status)}>{category.status}</Badge>
+                        </div>
+                        <p className="text-muted-foreground">{category.hierarchy}</p>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href={route('product-categories.index')}>
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back
+                            </Link>
+                        </Button>
+                        {permissions.canEdit && (
+                            <Button asChild>
+                                <Link href={route('product-categories.edit', category.id)}>
+                                    <Edit className="mr-2 h-4 w-4" />
+                                    Edit
+                                </Link>
+                            </Button>
+                        )}
+                        {permissions.canDelete && (
+                            <span title={deleteBlockedReason ?? 'Delete category'}>
+                                <Button variant="destructive" onClick={handleDelete} disabled={deleteBlockedReason !== null}>
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                </Button>
+                            </span>
+                        )}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <div className="space-y-6 lg:col-span-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Folder className="h-5 w-5" />
+                                    Subcategories
+                                </CardTitle>
+                                <CardDescription>{category.children.length} direct subcategories</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {category.children.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No subcategories</p>
+                                ) : (
+                                    <div className="divide-y">
+                                        {category.children.map((child) => (
+                                            <div key={child.id} className="flex items-center justify-between py-2">
+                                                <Link href={route('product-categories.show', child.id)} className="font-medium hover:underline">
+                                                    {child.name}
+                                                </Link>
+                                                <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                                                    <span>{child.products_count} products</span>
+                                                    <Badge className={statusClass(child.status)}>{child.status}</Badge>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                {permissions.canEdit && (
+                                    <Button variant="outline" size="sm" className="mt-4" asChild>
+                                        <Link href={`${route('product-categories.create')}?parent_id=${category.id}`}>
+                                            <Plus className="mr-2 h-4 w-4" />
+                                            Add Subcategory
+                                        </Link>
+                                    </Button>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Package className="h-5 w-5" />
+                                    Products
+                                </CardTitle>
+                                <CardDescription>{category.products_count} products in this category</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {category.products.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">No products in this category</p>
+                                ) : (
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b text-left text-muted-foreground">
+                                                <th className="py-2">Product</th>
+                                                <th className="py-2">Code</th>
+                                                <th className="py-2 text-right">Base Price</th>
+                                                <th className="py-2 text-right">Status</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {category.products.map((product) => (
+                                                <tr key={product.id} className="border-b last:border-b-0">
+                                                    <td className="py-2">
+                                                        <Link href={route('products.show', product.id)} className="hover:underline">
+                                                            {product.name}
+                                                        </Link>
+                                                    </td>
+                                                    <td className="py-2">{product.product_code}</td>
+                                                    <td className="py-2 text-right">Rs. {Number(product.base_price).toFixed(2)}</td>
+                                                    <td className="py-2 text-right">
+                                                        <Badge className={statusClass(product.status)}>{product.status}</Badge>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Details</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-3 text-sm">
+                                {category.image_url && (
+                                    <img src={category.image_url} alt={category.name} className="h-32 w-full rounded-md border object-cover" />
+                                )}
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Code</span>
+                                    <span>{category.code}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Parent</span>
+                                    {category.parent ? (
+                                        <Link href={route('product-categories.show', category.parent.id)} className="hover:underline">
+                                            {category.parent.name}
+                                        </Link>
+                                    ) : (
+                                        <span>Top level</span>
+                                    )}
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Sort order</span>
+                                    <span>{category.sort_order}</span>
+                                </div>
+                                {category.description && <p className="text-muted-foreground">{category.description}</p>}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Clock className="h-5 w-5" />
+                                    Record
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-2 text-sm">
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Created</span>
+                                    <span>{category.created_at}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Updated</span>
+                                    <span>{category.updated_at}</span>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,357 @@
+// resources/js/pages/Production/Approvals/Index.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useProductionUpdates } from '@/hooks/use-production-updates';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router, usePage } from '@inertiajs/react';
+import { AlertTriangle, CheckCircle, ClipboardCheck, Copy, ExternalLink, FileText, MessageSquare, Upload, UserCheck, XCircle } from 'lucide-react';
+import { useState } from 'react';
+
+interface Attachment {
+    url: string;
+    name: string;
+    mime_type: string | null;
+    type: string;
+    uploaded_at: string | null;
+}
+
+interface ApprovalRow {
+    id: number;
+    stage_name: string;
+    stage_status: string;
+    requires_customer_approval: boolean;
+    waiting_since: string | null;
+    rejection_reason: string | null;
+    customer_response: { decision: string; comments: string | null; name: string | null; responded_at: string } | null;
+    attachments: Attachment[];
+    customer_link: string | null;
+    print_job: { id: number; job_number: string; job_title: string | null; priority: string; branch: string | null };
+    customer: { name: string; email: string | null; phone: string | null } | null;
+}
+
+interface Props {
+    customer_approvals: ApprovalRow[];
+    internal_approvals: ApprovalRow[];
+    changes_requested: ApprovalRow[];
+    stats: { requires_approval: number; customer_approvals: number };
+    link_valid_days: number;
+    can: { approve_stages: boolean; reject_stages: boolean; upload_proofs: boolean };
+}
+
+type Decision = { row: ApprovalRow; action: 'approve' | 'reject' };
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Print Jobs', href: '/production/print-jobs' },
+    { title: 'Approvals', href: '/production/stages/approvals' },
+];
+
+const waitingFor = (value: string | null) => {
+    if (!value) {
+        return '';
+    }
+
+    const hours = Math.floor((Date.now() - new Date(value).getTime()) / 3_600_000);
+
+    return hours < 24 ? `${hours}h` : `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const isImage = (attachment: Attachment) => attachment.mime_type?.startsWith('image/') ?? /\.(jpe?g|png)$/i.test(attachment.url);
+
+export default function ApprovalsIndex({ customer_approvals, internal_approvals, changes_requested, stats, link_valid_days, can }: Props) {
+    const { errors } = usePage().props as { errors: Record<string, string> };
+    const [activeTab, setActiveTab] = useState(customer_approvals.length === 0 && internal_approvals.length > 0 ? 'internal' : 'customer');
+    const [decision, setDecision] = useState<Decision | null>(null);
+    const [decisionText, setDecisionText] = useState('');
+    const [uploads, setUploads] = useState<Record<number, File[]>>({});
+    const [busyId, setBusyId] = useState<number | null>(null);
+    const [copiedId, setCopiedId] = useState<number | null>(null);
+
+    useProductionUpdates({ only: ['customer_approvals', 'internal_approvals', 'changes_requested', 'stats'], events: ['stage'] });
+
+    const copyLink = async (row: ApprovalRow) => {
+        if (!row.customer_link) {
+            return;
+        }
+
+        await navigator.clipboard.writeText(row.customer_link);
+        setCopiedId(row.id);
+        setTimeout(() => setCopiedId((current) => (current === row.id ? null : current)), 2000);
+    };
+
+    const uploadProofs = (row: ApprovalRow) => {
+        const files = uploads[row.id] ?? [];
+
+        if (files.length === 0) {
+            return;
+        }
+
+        setBusyId(row.id);
+        router.post(
+            route('production.stages.proofs', row.id),
+            { proofs: files },
+            {
+                forceFormData: true,
+                preserveScroll: true,
+                onSuccess: () => setUploads((current) => ({ ...current, [row.id]: [] })),
+                onFinish: () => setBusyId(null),
+            },
+        );
+    };
+
+    const openDecision = (row: ApprovalRow, action: Decision['action']) => {
+        setDecisionText('');
+        setDecision({ row, action });
+    };
+
+    const submitDecision = () => {
+        if (!decision || (decision.action === 'reject' && decisionText.trim() === '')) {
+            return;
+        }
+
+        const { row, action } = decision;
+        const body = action === 'approve' ? { notes: decisionText.trim() || null } : { reason: decisionText.trim() };
+
+        setBusyId(row.id);
+        router.post(route(`production.stages.${action}`, row.id), body, {
+            preserveScroll: true,
+            onSuccess: () => setDecision(null),
+            onFinish: () => setBusyId(null),
+        });
+    };
+
+    const renderRow = (row: ApprovalRow) => (
+        <Card key={row.id}>
+            <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="text-base">
+                            <Link href={route('production.print-jobs.show', row.print_job.id)} className="hover:underline">
+                                {row.print_job.job_number}
+                            </Link>{' '}
+                            · {row.stage_name}
+                        </CardTitle>
+                        <CardDescription>
+                            {row.print_job.job_title ?? 'Print job'}
+                            {row.customer && ` · ${row.customer.name}`}
+                            {row.print_job.branch && ` · ${row.print_job.branch}`}
+                        </CardDescription>
+                    </div>
+                    <Badge variant="outline">
+                        {row.stage_status === 'rejected' ? 'Changes requested' : `Waiting ${waitingFor(row.waiting_since)}`}
+                    </Badge>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {row.stage_status === 'rejected' && (
+                    <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm dark:bg-amber-950/30">
+                        <p className="flex items-center gap-2 font-medium">
+                            <MessageSquare className="h-4 w-4" />
+                            {row.customer_response?.decision === 'request_changes'
+                                ? `${row.customer_response.name ?? row.customer?.name ?? 'Customer'} asked for changes`
+                                : 'Rejected internally'}
+                        </p>
+                        <p className="mt-1 whitespace-pre-line text-muted-foreground">{row.rejection_reason}</p>
+                    </div>
+                )}
+
+                <div>
+                    <p className="mb-2 text-sm font-medium">Proofs</p>
+                    {row.attachments.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No proofs uploaded yet.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-3">
+                            {row.attachments.map((attachment) => (
+                                <a
+                                    key={attachment.url}
+                                    href={attachment.url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="flex w-28 flex-col items-center gap-1 rounded-md border p-2 text-xs hover:bg-muted"
+                                >
+                                    {isImage(attachment) ? (
+                                        <img src={attachment.url} alt={attachment.name} className="h-16 w-full rounded object-cover" />
+                                    ) : (
+                                        <FileText className="h-16 w-10 text-muted-foreground" />
+                                    )}
+                                    <span className="w-full truncate text-center">{attachment.name}</span>
+                                </a>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {can.upload_proofs && (row.requires_customer_approval || row.attachments.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Input
+                            type="file"
+                            multiple
+                            accept=".pdf,.jpg,.jpeg,.png"
+                            className="max-w-xs"
+                            onChange={(e) => setUploads((current) => ({ ...current, [row.id]: Array.from(e.target.files ?? []) }))}
+                        />
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busyId === row.id || (uploads[row.id] ?? []).length === 0}
+                            onClick={() => uploadProofs(row)}
+                        >
+                            <Upload className="mr-2 h-4 w-4" />
+                            {row.stage_status === 'rejected' ? 'Send New Proof' : 'Upload Proofs'}
+                        </Button>
+                    </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+                    {row.customer_link && (
+                        <>
+                            <Button variant="outline" size="sm" onClick={() => copyLink(row)}>
+                                <Copy className="mr-2 h-4 w-4" />
+                                {copiedId === row.id ? 'Copied' : 'Copy Customer Link'}
+                            </Button>
+                            <Button variant="ghost" size="sm" asChild>
+                                <a href={row.customer_link} target="_blank" rel="noreferrer">
+                                    <ExternalLink className="mr-2 h-4 w-4" />
+                                    Preview
+                                </a>
+                            </Button>
+                        </>
+                    )}
+                    {row.stage_status === 'requires_approval' && (
+                        <div className="ml-auto flex gap-2">
+                            {can.reject_stages && (
+                                <Button variant="outline" size="sm" disabled={busyId === row.id} onClick={() => openDecision(row, 'reject')}>
+                                    <XCircle className="mr-2 h-4 w-4" />
+                                    Reject
+                                </Button>
+                            )}
+                            {can.approve_stages && (
+                                <Button size="sm" disabled={busyId === row.id} onClick={() => openDecision(row, 'approve')}>
+                                    <CheckCircle className="mr-2 h-4 w-4" />
+                                    {row.requires_customer_approval ? 'Record Approval' : 'Approve'}
+                                </Button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+
+    const renderList = (rows: ApprovalRow[], empty: string) =>
+        rows.length === 0 ? (
+            <div className="rounded-md border border-dashed p-12 text-center text-muted-foreground">{empty}</div>
+        ) : (
+            <div className="space-y-4">{rows.map(renderRow)}</div>
+        );
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Production Approvals" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Production Approvals</h1>
+                    <p className="text-muted-foreground">
+                        Send proofs to customers and sign off stages. Customer links stay valid for {link_valid_days} days.
+                    </p>
+                </div>
+
+                {errors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{errors.error}</AlertDescription>
+                    </Alert>
+                )}
+                {Object.entries(errors)
+                    .filter(([key]) => key.startsWith('proofs'))
+                    .map(([key, message]) => (
+                        <InputError key={key} message={message} />
+                    ))}
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    {[
+                        { label: 'Awaiting Customer', value: stats.customer_approvals, icon: UserCheck, className: 'text-blue-600' },
+                        {
+                            label: 'Internal Sign-off',
+                            value: stats.requires_approval - stats.customer_approvals,
+                            icon: ClipboardCheck,
+                            className: 'text-purple-600',
+                        },
+                        { label: 'Changes Requested', value: changes_requested.length, icon: MessageSquare, className: 'text-amber-600' },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="flex items-center justify-between p-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                    <p className="text-2xl font-bold">{stat.value}</p>
+                                </div>
+                                <stat.icon className={`h-8 w-8 ${stat.className}`} />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+                    <TabsList className="grid w-full grid-cols-3">
+                        <TabsTrigger value="customer">Customer ({customer_approvals.length})</TabsTrigger>
+                        <TabsTrigger value="internal">Internal ({internal_approvals.length})</TabsTrigger>
+                        <TabsTrigger value="changes">Changes Requested ({changes_requested.length})</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="customer">{renderList(customer_approvals, 'No proofs are waiting for customers.')}</TabsContent>
+                    <TabsContent value="internal">{renderList(internal_approvals, 'No stages are waiting for internal sign-off.')}</TabsContent>
+                    <TabsContent value="changes">{renderList(changes_requested, 'No customer has asked for changes.')}</TabsContent>
+                </Tabs>
+            </div>
+
+            <Dialog open={decision !== null} onOpenChange={(open) => !open && setDecision(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            {decision?.action === 'approve' ? 'Approve' : 'Reject'} {decision?.row.stage_name} for{' '}
+                            {decision?.row.print_job.job_number}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {decision?.action === 'approve'
+                                ? 'The job moves on to its next stage.'
+                                : 'The stage is marked rejected and the reason is recorded in its notes.'}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-2">
+                        <Label htmlFor="decision_text">{decision?.action === 'approve' ? 'Notes' : 'Reason *'}</Label>
+                        <Textarea
+                            id="decision_text"
+                            rows={3}
+                            maxLength={500}
+                            value={decisionText}
+                            onChange={(e) => setDecisionText(e.target.value)}
+                            placeholder={decision?.row.requires_customer_approval ? 'e.g., Approved by phone' : undefined}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDecision(null)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            variant={decision?.action === 'reject' ? 'destructive' : 'default'}
+                            disabled={busyId !== null || (decision?.action === 'reject' && decisionText.trim() === '')}
+                            onClick={submitDecision}
+                        >
+                            {decision?.action === 'approve' ? 'Approve' : 'Reject'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,288 @@
+// resources/js/pages/Production/PrintJobs/Create.tsx
+
+import InputError from '@/components/input-error';
+import SpecificationsEditor, { type Specifications } from '@/components/specifications-editor';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, FileText, FileUp, Plus, Save, Settings } from 'lucide-react';
+
+interface AvailableInvoice {
+    id: number;
+    invoice_number: string;
+    invoice_date: string;
+    total_amount: number;
+    customer?: { id: number; name: string } | null;
+    items: {
+        id: number;
+        item_description: string;
+        quantity: number;
+        product?: { id: number; name: string } | null;
+    }[];
+}
+
+interface Props {
+    available_invoices: AvailableInvoice[];
+    branches: { id: number; name: string }[];
+    production_staff: { id: number; name: string }[];
+    job_types: Record<string, string>;
+    priority_options: Record<string, string>;
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Print Jobs', href: '/production/print-jobs' },
+    { title: 'Create', href: '/production/print-jobs/create' },
+];
+
+export default function CreatePrintJob({ available_invoices, production_staff, job_types, priority_options }: Props) {
+    const { data, setData, post, processing, errors } = useForm({
+        invoice_id: '',
+        job_type: '',
+        priority: 'normal',
+        assigned_to: '',
+        estimated_completion: '',
+        customer_instructions: '',
+        specifications: {} as Specifications,
+        design_files: [] as File[],
+    });
+
+    const selectedInvoice = available_invoices.find((invoice) => String(invoice.id) === data.invoice_id);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        post(route('production.print-jobs.store-manual'), { forceFormData: true });
+    };
+
+    const fieldErrors = errors as Record<string, string>;
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Create Print Job" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Create Print Job</h1>
+                        <p className="text-muted-foreground">Send a paid invoice to the production floor</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href={route('production.print-jobs.create-standalone')}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                Standalone Job
+                            </Link>
+                        </Button>
+                        <Button variant="outline" asChild>
+                            <Link href={route('production.print-jobs.index')}>
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+
+                {fieldErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <form onSubmit={handleSubmit}>
+                    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                        <div className="space-y-6 lg:col-span-2">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <FileText className="h-5 w-5" />
+                                        Invoice
+                                    </CardTitle>
+                                    <CardDescription>Paid invoices that do not have a print job yet</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    {available_invoices.length === 0 ? (
+                                        <p className="text-sm text-muted-foreground">
+                                            No paid invoices are waiting for production. Create a standalone job instead.
+                                        </p>
+                                    ) : (
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="invoice_id">Invoice *</Label>
+                                            <select
+                                                id="invoice_id"
+                                                value={data.invoice_id}
+                                                onChange={(e) => setData('invoice_id', e.target.value)}
+                                                className={selectClass}
+                                                required
+                                            >
+                                                <option value="">Select invoice</option>
+                                                {available_invoices.map((invoice) => (
+                                                    <option key={invoice.id} value={invoice.id}>
+                                                        {invoice.invoice_number} — {invoice.customer?.name ?? 'Unknown customer'}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={errors.invoice_id} />
+                                        </div>
+                                    )}
+
+                                    {selectedInvoice && (
+                                        <div className="rounded-md border p-3 text-sm">
+                                            <div className="mb-2 flex justify-between">
+                                                <span className="font-medium">{selectedInvoice.customer?.name}</span>
+                                                <span>Rs. {Number(selectedInvoice.total_amount).toFixed(2)}</span>
+                                            </div>
+                                            <ul className="space-y-1 text-muted-foreground">
+                                                {selectedInvoice.items.map((item) => (
+                                                    <li key={item.id} className="flex justify-between">
+                                                        <span>{item.product?.name ?? item.item_description}</span>
+                                                        <span>× {item.quantity}</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="customer_instructions">Customer Instructions</Label>
+                                        <Textarea
+                                            id="customer_instructions"
+                                            rows={2}
+                                            value={data.customer_instructions}
+                                            onChange={(e) => setData('customer_instructions', e.target.value)}
+                                            placeholder="Defaults to the invoice notes"
+                                        />
+                                        <InputError message={errors.customer_instructions} />
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Settings className="h-5 w-5" />
+                                        Specifications
+                                    </CardTitle>
+                                    <CardDescription>Left empty, specifications are taken from the invoice items</CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <SpecificationsEditor value={data.specifications} onChange={(value) => setData('specifications', value)} />
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <FileUp className="h-5 w-5" />
+                                        Design Files
+                                    </CardTitle>
+                                    <CardDescription>PDF, JPG, PNG, AI or PSD up to 10MB each</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    <Input
+                                        type="file"
+                                        multiple
+                                        accept=".pdf,.jpg,.jpeg,.png,.ai,.psd"
+                                        onChange={(e) => setData('design_files', Array.from(e.target.files ?? []))}
+                                    />
+                                    {Object.entries(fieldErrors)
+                                        .filter(([key]) => key.startsWith('design_files'))
+                                        .map(([key, message]) => (
+                                            <InputError key={key} message={message} />
+                                        ))}
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        <div className="space-y-6">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Scheduling</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="job_type">Job Type *</Label>
+                                        <select
+                                            id="job_type"
+                                            value={data.job_type}
+                                            onChange={(e) => setData('job_type', e.target.value)}
+                                            className={selectClass}
+                                            required
+                                        >
+                                            <option value="">Select job type</option>
+                                            {Object.entries(job_types).map(([value, label]) => (
+                                                <option key={value} value={value}>
+                                                    {label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <InputError message={errors.job_type} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="priority">Priority *</Label>
+                                        <select
+                                            id="priority"
+                                            value={data.priority}
+                                            onChange={(e) => setData('priority', e.target.value)}
+                                            className={selectClass}
+                                        >
+                                            {Object.entries(priority_options).map(([value, label]) => (
+                                                <option key={value} value={value}>
+                                                    {label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <InputError message={errors.priority} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="assigned_to">Assign To</Label>
+                                        <select
+                                            id="assigned_to"
+                                            value={data.assigned_to}
+                                            onChange={(e) => setData('assigned_to', e.target.value)}
+                                            className={selectClass}
+                                        >
+                                            <option value="">Unassigned</option>
+                                            {production_staff.map((staff) => (
+                                                <option key={staff.id} value={staff.id}>
+                                                    {staff.name}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <InputError message={errors.assigned_to} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="estimated_completion">Estimated Completion</Label>
+                                        <Input
+                                            id="estimated_completion"
+                                            type="datetime-local"
+                                            value={data.estimated_completion}
+                                            onChange={(e) => setData('estimated_completion', e.target.value)}
+                                        />
+                                        <InputError message={errors.estimated_completion} />
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Button type="submit" className="w-full" disabled={processing || available_invoices.length === 0}>
+                                <Save className="mr-2 h-4 w-4" />
+                                {processing ? 'Creating...' : 'Create Print Job'}
+                            </Button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
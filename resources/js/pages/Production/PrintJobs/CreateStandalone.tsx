@@ -0,0 +1,400 @@
+// resources/js/pages/Production/PrintJobs/CreateStandalone.tsx
+
+import InputError from '@/components/input-error';
+import SpecificationsEditor, { type Specifications } from '@/components/specifications-editor';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, Factory, FileUp, LayoutTemplate, Save, Settings } from 'lucide-react';
+
+interface JobTemplate {
+    id: number;
+    name: string;
+    job_type: string;
+    job_title: string | null;
+    job_description: string | null;
+    specifications: Specifications;
+    priority: string;
+    estimated_hours: number | null;
+    estimated_cost: string | null;
+    customer_id: number | null;
+    stage_count: number;
+}
+
+interface Props {
+    customers: { id: number; name: string; customer_code?: string; phone?: string }[];
+    branches: { id: number; name: string }[];
+    production_staff: { id: number; name: string }[];
+    templates: JobTemplate[];
+    selected_template_id: number | null;
+    job_types: Record<string, string>;
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Print Jobs', href: '/production/print-jobs' },
+    { title: 'Standalone Job', href: '/production/print-jobs/create-standalone' },
+];
+
+// Form fields a template fills in; anything it leaves blank keeps what was already typed
+const templateValues = (template: JobTemplate, current: { customer_id: string; description: string }) => ({
+    template_id: String(template.id),
+    customer_id: template.customer_id ? String(template.customer_id) : current.customer_id,
+    job_type: template.job_type,
+    job_title: template.job_title ?? template.name,
+    description: template.job_description ?? current.description,
+    priority: template.priority,
+    estimated_cost: template.estimated_cost ?? '',
+    specifications: template.specifications,
+});
+
+export default function CreateStandalonePrintJob({ customers, branches, production_staff, templates, selected_template_id, job_types }: Props) {
+    const initialTemplate = templates.find((template) => template.id === selected_template_id);
+
+    const { data, setData, post, processing, errors } = useForm({
+        template_id: '',
+        customer_id: '',
+        branch_id: branches.length === 1 ? String(branches[0].id) : '',
+        job_type: '',
+        job_title: '',
+        description: '',
+        priority: 'normal',
+        assigned_to: '',
+        estimated_completion: '',
+        estimated_cost: '',
+        customer_instructions: '',
+        specifications: {} as Specifications,
+        design_files: [] as File[],
+        ...(initialTemplate ? templateValues(initialTemplate, { customer_id: '', description: '' }) : {}),
+    });
+
+    const selectedTemplate = templates.find((template) => String(template.id) === data.template_id);
+
+    const applyTemplate = (templateId: string) => {
+        const template = templates.find((item) => String(item.id) === templateId);
+
+        setData((current) => ({ ...current, template_id: templateId, ...(template ? templateValues(template, current) : {}) }));
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        post(route('production.print-jobs.store-standalone'), { forceFormData: true });
+    };
+
+    const fieldErrors = errors as Record<string, string>;
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Create Standalone Print Job" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Standalone Print Job</h1>
+                        <p className="text-muted-foreground">Start a job for a customer without an invoice</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('production.print-jobs.index')}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to Print Jobs
+                        </Link>
+                    </Button>
+                </div>
+
+                {fieldErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <form onSubmit={handleSubmit}>
+                    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                        <div className="space-y-6 lg:col-span-2">
+                            {templates.length > 0 && (
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle className="flex items-center gap-2">
+                                            <LayoutTemplate className="h-5 w-5" />
+                                            Start from Template
+                                        </CardTitle>
+                                        <CardDescription>
+                                            Prefills the job details and specifications; the template's production stages are used when the job is
+                                            created
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent className="space-y-2">
+                                        <select
+                                            id="template_id"
+                                            value={data.template_id}
+                                            onChange={(e) => applyTemplate(e.target.value)}
+                                            className={selectClass}
+                                        >
+                                            <option value="">No template</option>
+                                            {templates.map((template) => (
+                                                <option key={template.id} value={template.id}>
+                                                    {template.name} ({job_types[template.job_type] ?? template.job_type})
+                                                </option>
+                                            ))}
+                                        </select>
+                                        {selectedTemplate && (
+                                            <p className="text-xs text-muted-foreground">
+                                                {selectedTemplate.stage_count > 0
+                                                    ? `${selectedTemplate.stage_count} production stages from the template`
+                                                    : 'Default production stages for the job type'}
+                                                {selectedTemplate.estimated_hours
+                                                    ? `, about ${selectedTemplate.estimated_hours} hours to complete`
+                                                    : ''}
+                                            </p>
+                                        )}
+                                        <InputError message={errors.template_id} />
+                                    </CardContent>
+                                </Card>
+                            )}
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Factory className="h-5 w-5" />
+                                        Job Details
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="customer_id">Customer *</Label>
+                                            <select
+                                                id="customer_id"
+                                                value={data.customer_id}
+                                                onChange={(e) => setData('customer_id', e.target.value)}
+                                                className={selectClass}
+                                                required
+                                            >
+                                                <option value="">Select customer</option>
+                                                {customers.map((customer) => (
+                                                    <option key={customer.id} value={customer.id}>
+                                                        {customer.name}
+                                                        {customer.customer_code ? ` (${customer.customer_code})` : ''}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={errors.customer_id} />
+                                        </div>
+
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="job_type">Job Type *</Label>
+                                            <select
+                                                id="job_type"
+                                                value={data.job_type}
+                                                onChange={(e) => setData('job_type', e.target.value)}
+                                                className={selectClass}
+                                                required
+                                            >
+                                                <option value="">Select job type</option>
+                                                {Object.entries(job_types).map(([value, label]) => (
+                                                    <option key={value} value={value}>
+                                                        {label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={errors.job_type} />
+                                        </div>
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="job_title">Job Title *</Label>
+                                        <Input
+                                            id="job_title"
+                                            value={data.job_title}
+                                            onChange={(e) => setData('job_title', e.target.value)}
+                                            placeholder="e.g., Wedding invitation cards"
+                                            required
+                                        />
+                                        <InputError message={errors.job_title} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="description">Description *</Label>
+                                        <Textarea
+                                            id="description"
+                                            rows={3}
+                                            value={data.description}
+                                            onChange={(e) => setData('description', e.target.value)}
+                                            required
+                                        />
+                                        <InputError message={errors.description} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="customer_instructions">Customer Instructions</Label>
+                                        <Textarea
+                                            id="customer_instructions"
+                                            rows={2}
+                                            value={data.customer_instructions}
+                                            onChange={(e) => setData('customer_instructions', e.target.value)}
+                                        />
+                                        <InputError message={errors.customer_instructions} />
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Settings className="h-5 w-5" />
+                                        Specifications
+                                    </CardTitle>
+                                    <CardDescription>Paper, size, colours, finishing and anything else the floor needs</CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    {/* Remount when a template is picked so the editor rows pick up its specifications */}
+                                    <SpecificationsEditor
+                                        key={data.template_id}
+                                        value={data.specifications}
+                                        onChange={(value) => setData('specifications', value)}
+                                    />
+                                    <InputError message={errors.specifications} />
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <FileUp className="h-5 w-5" />
+                                        Design Files
+                                    </CardTitle>
+                                    <CardDescription>PDF, JPG, PNG, AI or PSD up to 10MB each</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    <Input
+                                        type="file"
+                                        multiple
+                                        accept=".pdf,.jpg,.jpeg,.png,.ai,.psd"
+                                        onChange={(e) => setData('design_files', Array.from(e.target.files ?? []))}
+                                    />
+                                    {data.design_files.length > 0 && (
+                                        <ul className="text-sm text-muted-foreground">
+                                            {data.design_files.map((file) => (
+                                                <li key={file.name}>{file.name}</li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    <InputError message={errors.design_files} />
+                                    {Object.entries(fieldErrors)
+                                        .filter(([key]) => key.startsWith('design_files.'))
+                                        .map(([key, message]) => (
+                                            <InputError key={key} message={message} />
+                                        ))}
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        <div className="space-y-6">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Scheduling</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="priority">Priority *</Label>
+                                        <select
+                                            id="priority"
+                                            value={data.priority}
+                                            onChange={(e) => setData('priority', e.target.value)}
+                                            className={selectClass}
+                                        >
+                                            <option value="low">Low</option>
+                                            <option value="normal">Normal</option>
+                                            <option value="medium">Medium</option>
+                                            <option value="high">High</option>
+                                            <option value="urgent">Urgent</option>
+                                        </select>
+                                        <InputError message={errors.priority} />
+                                    </div>
+
+                                    {branches.length > 1 && (
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="branch_id">Branch</Label>
+                                            <select
+                                                id="branch_id"
+                                                value={data.branch_id}
+                                                onChange={(e) => setData('branch_id', e.target.value)}
+                                                className={selectClass}
+                                            >
+                                                <option value="">My branch</option>
+                                                {branches.map((branch) => (
+                                                    <option key={branch.id} value={branch.id}>
+                                                        {branch.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={errors.branch_id} />
+                                        </div>
+                                    )}
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="assigned_to">Assign To</Label>
+                                        <select
+                                            id="assigned_to"
+                                            value={data.assigned_to}
+                                            onChange={(e) => setData('assigned_to', e.target.value)}
+                                            className={selectClass}
+                                        >
+                                            <option value="">Unassigned</option>
+                                            {production_staff.map((staff) => (
+                                                <option key={staff.id} value={staff.id}>
+                                                    {staff.name}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <InputError message={errors.assigned_to} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="estimated_completion">Estimated Completion</Label>
+                                        <Input
+                                            id="estimated_completion"
+                                            type="datetime-local"
+                                            value={data.estimated_completion}
+                                            onChange={(e) => setData('estimated_completion', e.target.value)}
+                                        />
+                                        <p className="text-xs text-muted-foreground">
+                                            Left empty, it is estimated from the {selectedTemplate?.estimated_hours ? 'template' : 'job type'}
+                                        </p>
+                                        <InputError message={errors.estimated_completion} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="estimated_cost">Estimated Cost (Rs.)</Label>
+                                        <Input
+                                            id="estimated_cost"
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            value={data.estimated_cost}
+                                            onChange={(e) => setData('estimated_cost', e.target.value)}
+                                        />
+                                        <InputError message={errors.estimated_cost} />
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Button type="submit" className="w-full" disabled={processing}>
+                                <Save className="mr-2 h-4 w-4" />
+                                {processing ? 'Creating...' : 'Create Print Job'}
+                            </Button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,465 @@
+// resources/js/pages/Production/PrintJobs/Edit.tsx
+
+import InputError from '@/components/input-error';
+import SpecificationsEditor, { type Specifications } from '@/components/specifications-editor';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, Boxes, Factory, FileUp, Plus, RotateCcw, Save, Settings, Trash2, X } from 'lucide-react';
+
+interface MaterialRequirement {
+    material: string;
+    quantity: string | number | null;
+    unit: string | null;
+}
+
+interface DesignFile {
+    path: string;
+    name: string;
+    url: string;
+    uploaded_at: string | null;
+}
+
+interface Props {
+    printJob: {
+        id: number;
+        job_number: string;
+        job_type: string;
+        job_title: string | null;
+        job_description: string | null;
+        production_status: string;
+        priority: string;
+        assigned_to: number | null;
+        customer_id: number | null;
+        estimated_completion: string | null;
+        estimated_cost: number | string | null;
+        specifications: Specifications;
+        material_requirements: MaterialRequirement[];
+        design_files: DesignFile[];
+        production_notes: string | null;
+        special_instructions: string | null;
+        customer_instructions: string | null;
+        invoice: { id: number; invoice_number: string; customer_name: string | null } | null;
+        branch: { id: number; name: string } | null;
+    };
+    productionStaff: { id: number; name: string }[];
+    customers: { id: number; name: string; customer_code?: string }[];
+    jobTypes: Record<string, string>;
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+export default function EditPrintJob({ printJob, productionStaff, customers, jobTypes }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Print Jobs', href: '/production/print-jobs' },
+        { title: printJob.job_number, href: `/production/print-jobs/${printJob.id}` },
+        { title: 'Edit', href: `/production/print-jobs/${printJob.id}/edit` },
+    ];
+
+    const { data, setData, post, processing, errors, transform } = useForm({
+        _method: 'put',
+        job_type: printJob.job_type,
+        job_title: printJob.job_title ?? '',
+        job_description: printJob.job_description ?? '',
+        priority: printJob.priority,
+        assigned_to: printJob.assigned_to ? String(printJob.assigned_to) : '',
+        customer_id: printJob.customer_id ? String(printJob.customer_id) : '',
+        estimated_completion: printJob.estimated_completion ?? '',
+        estimated_cost: printJob.estimated_cost !== null ? String(printJob.estimated_cost) : '',
+        specifications: printJob.specifications,
+        material_requirements: printJob.material_requirements.map((requirement) => ({
+            material: requirement.material ?? '',
+            quantity: requirement.quantity !== null && requirement.quantity !== undefined ? String(requirement.quantity) : '',
+            unit: requirement.unit ?? '',
+        })),
+        design_files: [] as File[],
+        remove_design_files: [] as string[],
+        production_notes: printJob.production_notes ?? '',
+        special_instructions: printJob.special_instructions ?? '',
+        customer_instructions: printJob.customer_instructions ?? '',
+    });
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        // An unchanged completion date may already be in the past, so only send it when it was edited
+        transform((formData) => {
+            const payload: Record<string, unknown> = { ...formData };
+            if (formData.estimated_completion === (printJob.estimated_completion ?? '')) {
+                delete payload.estimated_completion;
+            }
+            if (printJob.invoice) {
+                delete payload.customer_id;
+            }
+            return payload as typeof formData;
+        });
+
+        post(route('production.print-jobs.update', printJob.id), { forceFormData: true });
+    };
+
+    const updateMaterial = (index: number, field: keyof MaterialRequirement, value: string) => {
+        setData(
+            'material_requirements',
+            data.material_requirements.map((requirement, i) => (i === index ? { ...requirement, [field]: value } : requirement)),
+        );
+    };
+
+    const toggleRemoveFile = (path: string) => {
+        setData(
+            'remove_design_files',
+            data.remove_design_files.includes(path) ? data.remove_design_files.filter((p) => p !== path) : [...data.remove_design_files, path],
+        );
+    };
+
+    const fieldErrors = errors as Record<string, string>;
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Edit ${printJob.job_number}`} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Edit {printJob.job_number}</h1>
+                        <p className="text-muted-foreground">
+                            {printJob.invoice
+                                ? `Invoice ${printJob.invoice.invoice_number} · ${printJob.invoice.customer_name ?? ''}`
+                                : 'Standalone job'}
+                            {printJob.branch && ` · ${printJob.branch.name}`}
+                        </p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('production.print-jobs.show', printJob.id)}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to Job
+                        </Link>
+                    </Button>
+                </div>
+
+                {(fieldErrors.error || fieldErrors.print_job) && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error ?? fieldErrors.print_job}</AlertDescription>
+                    </Alert>
+                )}
+
+                <form onSubmit={handleSubmit}>
+                    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                        <div className="space-y-6 lg:col-span-2">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Factory className="h-5 w-5" />
+                                        Job Details
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="job_type">Job Type *</Label>
+                                            <select
+                                                id="job_type"
+                                                value={data.job_type}
+                                                onChange={(e) => setData('job_type', e.target.value)}
+                                                className={selectClass}
+                                            >
+                                                {!(data.job_type in jobTypes) && <option value={data.job_type}>{data.job_type}</option>}
+                                                {Object.entries(jobTypes).map(([value, label]) => (
+                                                    <option key={value} value={value}>
+                                                        {label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <InputError message={errors.job_type} />
+                                        </div>
+
+                                        {!printJob.invoice && (
+                                            <div className="grid gap-2">
+                                                <Label htmlFor="customer_id">Customer</Label>
+                                                <select
+                                                    id="customer_id"
+                                                    value={data.customer_id}
+                                                    onChange={(e) => setData('customer_id', e.target.value)}
+                                                    className={selectClass}
+                                                >
+                                                    <option value="">Select customer</option>
+                                                    {customers.map((customer) => (
+                                                        <option key={customer.id} value={customer.id}>
+                                                            {customer.name}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <InputError message={errors.customer_id} />
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="job_title">Job Title</Label>
+                                        <Input id="job_title" value={data.job_title} onChange={(e) => setData('job_title', e.target.value)} />
+                                        <InputError message={errors.job_title} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="job_description">Description</Label>
+                                        <Textarea
+                                            id="job_description"
+                                            rows={3}
+                                            value={data.job_description}
+                                            onChange={(e) => setData('job_description', e.target.value)}
+                                        />
+                                        <InputError message={errors.job_description} />
+                                    </div>
+
+                                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="customer_instructions">Customer Instructions</Label>
+                                            <Textarea
+                                                id="customer_instructions"
+                                                rows={3}
+                                                value={data.customer_instructions}
+                                                onChange={(e) => setData('customer_instructions', e.target.value)}
+                                            />
+                                            <InputError message={errors.customer_instructions} />
+                                        </div>
+                                        <div className="grid gap-2">
+                                            <Label htmlFor="special_instructions">Special Instructions</Label>
+                                            <Textarea
+                                                id="special_instructions"
+                                                rows={3}
+                                                value={data.special_instructions}
+                                                onChange={(e) => setData('special_instructions', e.target.value)}
+                                            />
+                                            <InputError message={errors.special_instructions} />
+                                        </div>
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Settings className="h-5 w-5" />
+                                        Specifications
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <SpecificationsEditor value={data.specifications} onChange={(value) => setData('specifications', value)} />
+                                    <InputError message={errors.specifications} />
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Boxes className="h-5 w-5" />
+                                        Material Requirements
+                                    </CardTitle>
+                                    <CardDescription>Paper, ink and other stock this job will use</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    {data.material_requirements.map((requirement, index) => (
+                                        <div key={index}>
+                                            <div className="flex gap-2">
+                                                <Input
+                                                    placeholder="Material"
+                                                    value={requirement.material}
+                                                    onChange={(e) => updateMaterial(index, 'material', e.target.value)}
+                                                />
+                                                <Input
+                                                    type="number"
+                                                    step="0.01"
+                                                    min="0"
+                                                    placeholder="Qty"
+                                                    className="w-28"
+                                                    value={requirement.quantity}
+                                                    onChange={(e) => updateMaterial(index, 'quantity', e.target.value)}
+                                                />
+                                                <Input
+                                                    placeholder="Unit"
+                                                    className="w-28"
+                                                    value={requirement.unit}
+                                                    onChange={(e) => updateMaterial(index, 'unit', e.target.value)}
+                                                />
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        setData(
+                                                            'material_requirements',
+                                                            data.material_requirements.filter((_, i) => i !== index),
+                                                        )
+                                                    }
+                                                >
+                                                    <X className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                            <InputError message={fieldErrors[`material_requirements.${index}.material`]} />
+                                            <InputError message={fieldErrors[`material_requirements.${index}.quantity`]} />
+                                        </div>
+                                    ))}
+                                    <Button
+                                        type="button"
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() =>
+                                            setData('material_requirements', [
+                                                ...data.material_requirements,
+                                                { material: '', quantity: '', unit: '' },
+                                            ])
+                                        }
+                                    >
+                                        <Plus className="mr-2 h-4 w-4" />
+                                        Add Material
+                                    </Button>
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <FileUp className="h-5 w-5" />
+                                        Design Files
+                                    </CardTitle>
+                                    <CardDescription>PDF, JPG, PNG, AI or PSD up to 10MB each</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-3">
+                                    {printJob.design_files.length > 0 && (
+                                        <ul className="divide-y rounded-md border text-sm">
+                                            {printJob.design_files.map((file) => {
+                                                const removing = data.remove_design_files.includes(file.path);
+
+                                                return (
+                                                    <li key={file.path} className="flex items-center justify-between p-2">
+                                                        <a
+                                                            href={file.url}
+                                                            target="_blank"
+                                                            rel="noreferrer"
+                                                            className={`hover:underline ${removing ? 'text-muted-foreground line-through' : ''}`}
+                                                        >
+                                                            {file.name}
+                                                        </a>
+                                                        <Button type="button" variant="ghost" size="sm" onClick={() => toggleRemoveFile(file.path)}>
+                                                            {removing ? (
+                                                                <RotateCcw className="h-4 w-4" />
+                                                            ) : (
+                                                                <Trash2 className="h-4 w-4 text-red-600" />
+                                                            )}
+                                                        </Button>
+                                                    </li>
+                                                );
+                                            })}
+                                        </ul>
+                                    )}
+                                    <Input
+                                        type="file"
+                                        multiple
+                                        accept=".pdf,.jpg,.jpeg,.png,.ai,.psd"
+                                        onChange={(e) => setData('design_files', Array.from(e.target.files ?? []))}
+                                    />
+                                    {Object.entries(fieldErrors)
+                                        .filter(([key]) => key.startsWith('design_files'))
+                                        .map(([key, message]) => (
+                                            <InputError key={key} message={message} />
+                                        ))}
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        <div className="space-y-6">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Scheduling</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="priority">Priority *</Label>
+                                        <select
+                                            id="priority"
+                                            value={data.priority}
+                                            onChange={(e) => setData('priority', e.target.value)}
+                                            className={selectClass}
+                                        >
+                                            <option value="low">Low</option>
+                                            <option value="normal">Normal</option>
+                                            <option value="medium">Medium</option>
+                                            <option value="high">High</option>
+                                            <option value="urgent">Urgent</option>
+                                        </select>
+                                        <InputError message={errors.priority} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="assigned_to">Assign To</Label>
+                                        <select
+                                            id="assigned_to"
+                                            value={data.assigned_to}
+                                            onChange={(e) => setData('assigned_to', e.target.value)}
+                                            className={selectClass}
+                                        >
+                                            <option value="">Unassigned</option>
+                                            {productionStaff.map((staff) => (
+                                                <option key={staff.id} value={staff.id}>
+                                                    {staff.name}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <InputError message={errors.assigned_to} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="estimated_completion">Estimated Completion</Label>
+                                        <Input
+                                            id="estimated_completion"
+                                            type="datetime-local"
+                                            value={data.estimated_completion}
+                                            onChange={(e) => setData('estimated_completion', e.target.value)}
+                                        />
+                                        <InputError message={errors.estimated_completion} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="estimated_cost">Estimated Cost (Rs.)</Label>
+                                        <Input
+                                            id="estimated_cost"
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            value={data.estimated_cost}
+                                            onChange={(e) => setData('estimated_cost', e.target.value)}
+                                        />
+                                        <InputError message={errors.estimated_cost} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="production_notes">Production Notes</Label>
+                                        <Textarea
+                                            id="production_notes"
+                                            rows={4}
+                                            value={data.production_notes}
+                                            onChange={(e) => setData('production_notes', e.target.value)}
+                                        />
+                                        <InputError message={errors.production_notes} />
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Button type="submit" className="w-full" disabled={processing}>
+                                <Save className="mr-2 h-4 w-4" />
+                                {processing ? 'Saving...' : 'Save Changes'}
+                            </Button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
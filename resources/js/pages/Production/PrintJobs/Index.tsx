@@ -0,0 +1,509 @@
+// resources/js/pages/Production/PrintJobs/Index.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useProductionUpdates } from '@/hooks/use-production-updates';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { AlertTriangle, CheckCircle, Clock, Edit, Eye, Factory, FileText, Filter, LayoutTemplate, Plus, Search, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface PrintJobRow {
+    id: number;
+    job_number: string;
+    job_type: string;
+    job_title?: string | null;
+    production_status: string;
+    priority: string;
+    estimated_completion?: string | null;
+    completion_percentage: number;
+    created_at: string;
+    invoice?: { id: number; invoice_number: string; customer?: { id: number; name: string } | null } | null;
+    customer?: { id: number; name: string } | null;
+    branch?: { id: number; name: string } | null;
+    // The assignedTo relation serializes over the assigned_to column
+    assigned_to?: { id: number; name: string } | number | null;
+}
+
+interface Filters {
+    search?: string | null;
+    status?: string | null;
+    priority?: string | null;
+    branch_id?: string | number | null;
+    assigned_to?: string | number | null;
+    job_type?: string | null;
+    due_from?: string | null;
+    due_to?: string | null;
+    overdue?: boolean;
+}
+
+interface Props {
+    printJobs: {
+        data: PrintJobRow[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+    };
+    filters: Filters;
+    branches: { id: number; name: string }[];
+    productionStaff: { id: number; name: string }[];
+    stats: {
+        total: number;
+        pending: number;
+        in_progress: number;
+        completed: number;
+        overdue: number;
+    };
+    permissions: {
+        create: boolean;
+        edit: boolean;
+        delete: boolean;
+        view_all_branches: boolean;
+        manage_production: boolean;
+    };
+    jobTypes: Record<string, string>;
+}
+
+const statusOptions: Record<string, string> = {
+    pending: 'Pending',
+    design_review: 'Design Review',
+    design_approved: 'Design Approved',
+    pre_press: 'Pre-Press',
+    printing: 'Printing',
+    finishing: 'Finishing',
+    quality_check: 'Quality Check',
+    completed: 'Completed',
+    on_hold: 'On Hold',
+    cancelled: 'Cancelled',
+};
+
+const priorityOptions: Record<string, string> = {
+    low: 'Low',
+    normal: 'Normal',
+    medium: 'Medium',
+    high: 'High',
+    urgent: 'Urgent',
+};
+
+const statusColor = (status: string) => {
+    switch (status) {
+        case 'completed':
+            return 'bg-green-100 text-green-800';
+        case 'on_hold':
+            return 'bg-yellow-100 text-yellow-800';
+        case 'cancelled':
+            return 'bg-red-100 text-red-800';
+        case 'pending':
+            return 'bg-gray-100 text-gray-800';
+        default:
+            return 'bg-blue-100 text-blue-800';
+    }
+};
+
+const priorityColor = (priority: string) => {
+    switch (priority) {
+        case 'urgent':
+            return 'bg-red-100 text-red-800';
+        case 'high':
+            return 'bg-orange-100 text-orange-800';
+        case 'medium':
+            return 'bg-yellow-100 text-yellow-800';
+        case 'low':
+            return 'bg-gray-100 text-gray-600';
+        default:
+            return 'bg-blue-100 text-blue-800';
+    }
+};
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Print Jobs', href: '/production/print-jobs' },
+];
+
+export default function PrintJobsIndex({ printJobs, filters, branches, productionStaff, stats, permissions, jobTypes }: Props) {
+    const [currentFilters, setCurrentFilters] = useState<Filters>(filters);
+    const [search, setSearch] = useState(filters.search ?? '');
+
+    useProductionUpdates({ only: ['printJobs', 'stats'] });
+
+    const applyFilters = (newFilters: Partial<Filters>, page?: number) => {
+        const updated = { ...currentFilters, ...newFilters };
+        setCurrentFilters(updated);
+
+        const cleanFilters = Object.fromEntries(
+            Object.entries({ ...updated, page }).filter(([, value]) => value !== '' && value !== null && value !== undefined && value !== false),
+        );
+
+        router.get(route('production.print-jobs.index'), cleanFilters, {
+            preserveState: true,
+            preserveScroll: true,
+        });
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        setCurrentFilters({});
+        router.get(route('production.print-jobs.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const handleDelete = (job: PrintJobRow) => {
+        if (confirm(`Are you sure you want to delete print job ${job.job_number}?`)) {
+            router.delete(route('production.print-jobs.destroy', job.id), { preserveScroll: true });
+        }
+    };
+
+    const isOverdue = (job: PrintJobRow) =>
+        !!job.estimated_completion && new Date(job.estimated_completion) < new Date() && !['completed', 'cancelled'].includes(job.production_status);
+
+    const customerName = (job: PrintJobRow) => job.customer?.name ?? job.invoice?.customer?.name ?? '—';
+    const assigneeName = (job: PrintJobRow) => (typeof job.assigned_to === 'object' && job.assigned_to ? job.assigned_to.name : null);
+
+    const hasActiveFilters = Object.entries(currentFilters).some(
+        ([, value]) => value !== '' && value !== null && value !== undefined && value !== false,
+    );
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Print Jobs" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Print Jobs</h1>
+                        <p className="text-muted-foreground">Track every job on the production floor</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href={route('production.templates.index')}>
+                                <LayoutTemplate className="mr-2 h-4 w-4" />
+                                Templates
+                            </Link>
+                        </Button>
+                        {permissions.create && (
+                            <>
+                                <Button variant="outline" asChild>
+                                    <Link href={route('production.print-jobs.create')}>
+                                        <FileText className="mr-2 h-4 w-4" />
+                                        From Invoice
+                                    </Link>
+                                </Button>
+                                <Button asChild>
+                                    <Link href={route('production.print-jobs.create-standalone')}>
+                                        <Plus className="mr-2 h-4 w-4" />
+                                        Standalone Job
+                                    </Link>
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+                    {[
+                        { label: 'Total', value: stats.total, icon: Factory, className: '' },
+                        { label: 'Pending', value: stats.pending, icon: Clock, className: 'text-gray-600' },
+                        { label: 'In Progress', value: stats.in_progress, icon: Factory, className: 'text-blue-600' },
+                        { label: 'Completed', value: stats.completed, icon: CheckCircle, className: 'text-green-600' },
+                        { label: 'Overdue', value: stats.overdue, icon: AlertTriangle, className: 'text-red-600' },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="flex items-center justify-between p-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                    <p className={`text-2xl font-bold ${stat.className}`}>{stat.value}</p>
+                                </div>
+                                <stat.icon className={`h-6 w-6 ${stat.className || 'text-muted-foreground'}`} />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-center justify-between">
+                            <CardTitle className="flex items-center gap-2">
+                                <Filter className="h-5 w-5" />
+                                Filters
+                            </CardTitle>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                                    <X className="mr-2 h-4 w-4" />
+                                    Clear
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                applyFilters({ search });
+                            }}
+                            className="flex gap-2"
+                        >
+                            <div className="relative flex-1">
+                                <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search job number, title or customer..."
+                                    className="pl-8"
+                                />
+                            </div>
+                            <Button type="submit">Search</Button>
+                        </form>
+
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6">
+                            <div className="grid gap-1">
+                                <Label htmlFor="status">Status</Label>
+                                <select
+                                    id="status"
+                                    value={currentFilters.status ?? ''}
+                                    onChange={(e) => applyFilters({ status: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All statuses</option>
+                                    {Object.entries(statusOptions).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="priority">Priority</Label>
+                                <select
+                                    id="priority"
+                                    value={currentFilters.priority ?? ''}
+                                    onChange={(e) => applyFilters({ priority: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All priorities</option>
+                                    {Object.entries(priorityOptions).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="assigned_to">Assignee</Label>
+                                <select
+                                    id="assigned_to"
+                                    value={currentFilters.assigned_to ?? ''}
+                                    onChange={(e) => applyFilters({ assigned_to: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">Anyone</option>
+                                    {productionStaff.map((staff) => (
+                                        <option key={staff.id} value={staff.id}>
+                                            {staff.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {permissions.view_all_branches && (
+                                <div className="grid gap-1">
+                                    <Label htmlFor="branch_id">Branch</Label>
+                                    <select
+                                        id="branch_id"
+                                        value={currentFilters.branch_id ?? ''}
+                                        onChange={(e) => applyFilters({ branch_id: e.target.value })}
+                                        className={selectClass}
+                                    >
+                                        <option value="">All branches</option>
+                                        {branches.map((branch) => (
+                                            <option key={branch.id} value={branch.id}>
+                                                {branch.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="due_from">Due from</Label>
+                                <Input
+                                    id="due_from"
+                                    type="date"
+                                    value={currentFilters.due_from ?? ''}
+                                    onChange={(e) => applyFilters({ due_from: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="due_to">Due to</Label>
+                                <Input
+                                    id="due_to"
+                                    type="date"
+                                    value={currentFilters.due_to ?? ''}
+                                    onChange={(e) => applyFilters({ due_to: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-4">
+                            <select
+                                value={currentFilters.job_type ?? ''}
+                                onChange={(e) => applyFilters({ job_type: e.target.value })}
+                                className={`${selectClass} max-w-xs`}
+                            >
+                                <option value="">All job types</option>
+                                {Object.entries(jobTypes).map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                            <label className="flex items-center gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    checked={!!currentFilters.overdue}
+                                    onChange={(e) => applyFilters({ overdue: e.target.checked })}
+                                />
+                                Overdue only
+                            </label>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b bg-muted/50 text-left">
+                                        <th className="p-3">Job</th>
+                                        <th className="p-3">Customer</th>
+                                        <th className="p-3">Status</th>
+                                        <th className="p-3">Priority</th>
+                                        <th className="p-3">Assignee</th>
+                                        <th className="p-3">Due</th>
+                                        <th className="p-3">Progress</th>
+                                        <th className="p-3 text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {printJobs.data.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={8} className="p-12 text-center text-muted-foreground">
+                                                <Factory className="mx-auto mb-4 h-12 w-12" />
+                                                No print jobs found
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        printJobs.data.map((job) => (
+                                            <tr key={job.id} className="border-b last:border-b-0 hover:bg-muted/30">
+                                                <td className="p-3">
+                                                    <Link href={route('production.print-jobs.show', job.id)} className="font-medium hover:underline">
+                                                        {job.job_number}
+                                                    </Link>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {job.job_title || jobTypes[job.job_type] || job.job_type}
+                                                        {job.branch && ` · ${job.branch.name}`}
+                                                    </p>
+                                                </td>
+                                                <td className="p-3">
+                                                    {customerName(job)}
+                                                    {job.invoice ? (
+                                                        <p className="text-xs text-muted-foreground">{job.invoice.invoice_number}</p>
+                                                    ) : (
+                                                        <p className="text-xs text-muted-foreground">Standalone</p>
+                                                    )}
+                                                </td>
+                                                <td className="p-3">
+                                                    <Badge className={statusColor(job.production_status)}>
+                                                        {statusOptions[job.production_status] ?? job.production_status}
+                                                    </Badge>
+                                                </td>
+                                                <td className="p-3">
+                                                    <Badge className={priorityColor(job.priority)}>
+                                                        {priorityOptions[job.priority] ?? job.priority}
+                                                    </Badge>
+                                                </td>
+                                                <td className="p-3">
+                                                    {assigneeName(job) ?? <span className="text-muted-foreground">Unassigned</span>}
+                                                </td>
+                                                <td className={`p-3 ${isOverdue(job) ? 'font-medium text-red-600' : ''}`}>
+                                                    {job.estimated_completion ? new Date(job.estimated_completion).toLocaleDateString() : '—'}
+                                                    {isOverdue(job) && <p className="text-xs">Overdue</p>}
+                                                </td>
+                                                <td className="w-32 p-3">
+                                                    <Progress value={job.completion_percentage} className="h-2" />
+                                                    <p className="mt-1 text-xs text-muted-foreground">{job.completion_percentage}%</p>
+                                                </td>
+                                                <td className="p-3">
+                                                    <div className="flex justify-end gap-1">
+                                                        <Button variant="ghost" size="sm" asChild>
+                                                            <Link href={route('production.print-jobs.show', job.id)}>
+                                                                <Eye className="h-4 w-4" />
+                                                            </Link>
+                                                        </Button>
+                                                        {permissions.edit && !['completed', 'cancelled'].includes(job.production_status) && (
+                                                            <Button variant="ghost" size="sm" asChild>
+                                                                <Link href={route('production.print-jobs.edit', job.id)}>
+                                                                    <Edit className="h-4 w-4" />
+                                                                </Link>
+                                                            </Button>
+                                                        )}
+                                                        {permissions.delete && job.production_status === 'pending' && (
+                                                            <Button variant="ghost" size="sm" onClick={() => handleDelete(job)}>
+                                                                <Trash2 className="h-4 w-4 text-red-600" />
+                                                            </Button>
+                                                        )}
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {printJobs.last_page > 1 && (
+                            <div className="flex items-center justify-between border-t p-4 text-sm text-muted-foreground">
+                                <div>
+                                    Showing {printJobs.from ?? 0} to {printJobs.to ?? 0} of {printJobs.total} jobs
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={printJobs.current_page === 1}
+                                        onClick={() => applyFilters({}, printJobs.current_page - 1)}
+                                    >
+                                        ← Previous
+                                    </Button>
+                                    <span className="px-2 py-1">
+                                        Page {printJobs.current_page} of {printJobs.last_page}
+                                    </span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={printJobs.current_page === printJobs.last_page}
+                                        onClick={() => applyFilters({}, printJobs.current_page + 1)}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
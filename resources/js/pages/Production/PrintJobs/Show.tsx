@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { Head, Link, useForm, router } from '@inertiajs/react';
 import AppLayout from '@/layouts/app-layout';
+import { useProductionUpdates } from '@/hooks/use-production-updates';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -37,7 +39,9 @@ import {
     ArrowRight,
     FileCheck,
     Clock4,
-    AlertCircle
+    AlertCircle,
+    Truck,
+    BookmarkPlus
 } from 'lucide-react';
 
 interface ProductionStage {
@@ -123,6 +127,8 @@ interface Props {
         manage_production: boolean;
         assign_staff: boolean;
         update_priority: boolean;
+        create_delivery: boolean;
+        save_as_template: boolean;
     };
     jobTypes: Record<string, string>;
 }
@@ -140,6 +146,7 @@ export default function PrintJobShow({ printJob, productionStaff, permissions, j
 
     const [isAssignDialogOpen, setIsAssignDialogOpen] = useState(false);
     const [isPriorityDialogOpen, setIsPriorityDialogOpen] = useState(false);
+    const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
     const [stageActionDialog, setStageActionDialog] = useState<{
         isOpen: boolean;
         stage: ProductionStage | null;
@@ -150,6 +157,9 @@ export default function PrintJobShow({ printJob, productionStaff, permissions, j
         action: null
     });
 
+    // Refresh stages in place when this job changes elsewhere
+    useProductionUpdates({ only: ['printJob'], printJobId: printJob.id, events: ['stage', 'completed'] });
+
     // Add safety checks for potentially undefined arrays
     const safeProductionStaff = productionStaff || [];
     const safeProductionStages = printJob?.productionStages || [];
@@ -178,6 +188,12 @@ export default function PrintJobShow({ printJob, productionStaff, permissions, j
         reason: '',
     });
 
+    // Save as template form
+    const { data: templateData, setData: setTemplateData, post: postTemplate, processing: templateProcessing, errors: templateErrors, reset: resetTemplate } = useForm({
+        name: printJob.job_title || '',
+        keep_customer: false as boolean,
+    });
+
     // Stage action form
     const { data: stageActionData, setData: setStageActionData, post: postStageAction, processing: stageActionProcessing, errors: stageActionErrors, reset: resetStageAction } = useForm({
         notes: '',
@@ -221,6 +237,18 @@ export default function PrintJobShow({ printJob, productionStaff, permissions, j
         });
     };
 
+    const handleSaveAsTemplate = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        postTemplate(route('production.print-jobs.save-as-template', printJob.id), {
+            preserveScroll: true,
+            onSuccess: () => {
+                setIsTemplateDialogOpen(false);
+                resetTemplate();
+            }
+        });
+    };
+
     const handleUpdatePriority = (e: React.FormEvent) => {
         e.preventDefault();
         
@@ -1067,6 +1095,65 @@ export default function PrintJobShow({ printJob, productionStaff, permissions, j
                                         </Button>
                                     )}
 
+                                    {permissions.save_as_template && (
+                                        <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
+                                            <DialogTrigger asChild>
+                                                <Button variant="outline" className="w-full justify-start">
+                                                    <BookmarkPlus className="h-4 w-4 mr-2" />
+                                                    Save as Template
+                                                </Button>
+                                            </DialogTrigger>
+                                            <DialogContent>
+                                                <DialogHeader>
+                                                    <DialogTitle>Save as Template</DialogTitle>
+                                                </DialogHeader>
+                                                <form onSubmit={handleSaveAsTemplate} className="space-y-4">
+                                                    <p className="text-sm text-gray-600">
+                                                        The job type, specifications, materials and production stages are copied into the template library.
+                                                    </p>
+                                                    <div>
+                                                        <Label htmlFor="template_name">Template Name</Label>
+                                                        <Input
+                                                            id="template_name"
+                                                            value={templateData.name}
+                                                            onChange={(e) => setTemplateData('name', e.target.value)}
+                                                            placeholder="e.g., Standard business cards, 500 matte"
+                                                            required
+                                                        />
+                                                        {templateErrors.name && (
+                                                            <p className="text-sm text-red-600 mt-1">{templateErrors.name}</p>
+                                                        )}
+                                                    </div>
+                                                    <div className="flex items-center space-x-2">
+                                                        <Checkbox
+                                                            id="keep_customer"
+                                                            checked={templateData.keep_customer}
+                                                            onCheckedChange={(checked) => setTemplateData('keep_customer', !!checked)}
+                                                        />
+                                                        <Label htmlFor="keep_customer">Link the template to this job's customer</Label>
+                                                    </div>
+                                                    <div className="flex justify-end space-x-2">
+                                                        <Button type="button" variant="outline" onClick={() => setIsTemplateDialogOpen(false)}>
+                                                            Cancel
+                                                        </Button>
+                                                        <Button type="submit" disabled={templateProcessing}>
+                                                            {templateProcessing ? 'Saving...' : 'Save Template'}
+                                                        </Button>
+                                                    </div>
+                                                </form>
+                                            </DialogContent>
+                                        </Dialog>
+                                    )}
+
+                                    {permissions.create_delivery && printJob.production_status === 'completed' && (
+                                        <Button asChild variant="outline" className="w-full justify-start">
+                                            <Link href={route('deliveries.create', { print_job_id: printJob.id })}>
+                                                <Truck className="h-4 w-4 mr-2" />
+                                                Arrange Delivery
+                                            </Link>
+                                        </Button>
+                                    )}
+
                                     <Button asChild variant="outline" className="w-full justify-start">
                                         <Link href={route('production.print-jobs.index')}>
                                             <Factory className="h-4 w-4 mr-2" />
@@ -0,0 +1,383 @@
+// resources/js/pages/Production/Stages/Kanban.tsx
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useProductionUpdates } from '@/hooks/use-production-updates';
+import AppLayout from '@/layouts/app-layout';
+import { requestJson } from '@/lib/http';
+import {
+    applyAction,
+    currentStage,
+    placement,
+    resolveDrop,
+    type KanbanJob,
+    type KanbanStage,
+    type KanbanTarget,
+    type Lane,
+    type StageAction,
+} from '@/lib/production-kanban';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { AlertTriangle, CheckCircle, Clock, List, Loader2, PauseCircle, User } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+interface Column {
+    stage_name: string;
+    label: string;
+    order: number;
+}
+
+interface Props {
+    columns: Column[];
+    jobs: KanbanJob[];
+    filters: { branch_id: number | null };
+    branches: { id: number; name: string }[];
+    can: { update_status: boolean };
+}
+
+const priorityColor = (priority: string) => {
+    switch (priority) {
+        case 'urgent':
+            return 'bg-red-100 text-red-800';
+        case 'high':
+            return 'bg-orange-100 text-orange-800';
+        case 'medium':
+            return 'bg-yellow-100 text-yellow-800';
+        case 'low':
+            return 'bg-gray-100 text-gray-600';
+        default:
+            return 'bg-blue-100 text-blue-800';
+    }
+};
+
+const actionRoutes: Record<StageAction, string> = {
+    start: 'production.stages.start',
+    complete: 'production.stages.complete',
+    hold: 'production.stages.hold',
+    resume: 'production.stages.resume',
+};
+
+const formatDue = (value: string | null) =>
+    value ? new Date(value).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }) : null;
+
+const sameTarget = (a: KanbanTarget | null, b: KanbanTarget) =>
+    a !== null && a.column === b.column && ('lane' in a ? a.lane : null) === ('lane' in b ? b.lane : null);
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Print Jobs', href: '/production/print-jobs' },
+    { title: 'Production Board', href: '/production/stages/kanban' },
+];
+
+export default function ProductionKanban({ columns, jobs, filters, branches, can }: Props) {
+    const [boardJobs, setBoardJobs] = useState<KanbanJob[]>(jobs);
+    const [draggedId, setDraggedId] = useState<number | null>(null);
+    const [dropTarget, setDropTarget] = useState<KanbanTarget | null>(null);
+    const [savingIds, setSavingIds] = useState<number[]>([]);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [holdRequest, setHoldRequest] = useState<{ job: KanbanJob; stage: KanbanStage } | null>(null);
+    const [holdReason, setHoldReason] = useState('');
+
+    useEffect(() => setBoardJobs(jobs), [jobs]);
+
+    useProductionUpdates({ only: ['jobs', 'columns'] });
+
+    const placed = useMemo(() => boardJobs.map((job) => ({ job, at: placement(job) })), [boardJobs]);
+
+    const jobsAt = (target: KanbanTarget) => placed.filter(({ at }) => sameTarget(at, target)).map(({ job }) => job);
+
+    const runAction = async (job: KanbanJob, stage: KanbanStage, action: StageAction, body: Record<string, unknown> = {}) => {
+        setBoardJobs((current) => current.map((item) => (item.id === job.id ? applyAction(item, stage.id, action) : item)));
+        setSavingIds((current) => [...current, job.id]);
+
+        try {
+            const response = await requestJson<{ message: string }>(route(actionRoutes[action], stage.id), 'POST', body);
+            setMessage({ type: 'success', text: `${job.job_number}: ${response.message}` });
+            router.reload({ only: ['jobs', 'columns'] });
+        } catch (error) {
+            setBoardJobs((current) => current.map((item) => (item.id === job.id ? job : item)));
+            setMessage({ type: 'error', text: `${job.job_number}: ${error instanceof Error ? error.message : 'Stage update failed'}` });
+        } finally {
+            setSavingIds((current) => current.filter((id) => id !== job.id));
+        }
+    };
+
+    const handleDrop = (target: KanbanTarget) => {
+        const job = boardJobs.find((item) => item.id === draggedId);
+
+        setDraggedId(null);
+        setDropTarget(null);
+
+        if (!job) {
+            return;
+        }
+
+        const resolved = resolveDrop(job, target);
+
+        if (!resolved) {
+            return;
+        }
+
+        if ('error' in resolved) {
+            setMessage({ type: 'error', text: `${job.job_number}: ${resolved.error}` });
+            return;
+        }
+
+        if (resolved.action === 'hold') {
+            setHoldReason('');
+            setHoldRequest({ job, stage: resolved.stage });
+            return;
+        }
+
+        runAction(job, resolved.stage, resolved.action);
+    };
+
+    const confirmHold = () => {
+        if (!holdRequest || holdReason.trim() === '') {
+            return;
+        }
+
+        runAction(holdRequest.job, holdRequest.stage, 'hold', { reason: holdReason.trim() });
+        setHoldRequest(null);
+    };
+
+    const dropZoneProps = (target: KanbanTarget) => ({
+        onDragOver: (e: React.DragEvent) => {
+            if (draggedId === null) {
+                return;
+            }
+            e.preventDefault();
+            if (!sameTarget(dropTarget, target)) {
+                setDropTarget(target);
+            }
+        },
+        onDragLeave: (e: React.DragEvent) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                setDropTarget(null);
+            }
+        },
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            handleDrop(target);
+        },
+    });
+
+    const zoneClass = (target: KanbanTarget) =>
+        `min-h-24 space-y-2 rounded-md p-2 transition-colors ${sameTarget(dropTarget, target) ? 'bg-primary/10 ring-2 ring-primary/40' : 'bg-muted/40'}`;
+
+    const renderCard = (job: KanbanJob) => {
+        const stage = currentStage(job);
+        const saving = savingIds.includes(job.id);
+        const draggable = can.update_status && !saving && stage !== null;
+
+        return (
+            <div
+                key={job.id}
+                draggable={draggable}
+                onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(job.id);
+                }}
+                onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropTarget(null);
+                }}
+                className={`rounded-md border bg-background p-3 text-sm shadow-sm ${draggable ? 'cursor-grab' : ''} ${
+                    draggedId === job.id ? 'opacity-50' : ''
+                } ${job.is_overdue ? 'border-red-300' : ''}`}
+            >
+                <div className="mb-1 flex items-start justify-between gap-2">
+                    <Link href={route('production.print-jobs.show', job.id)} className="font-medium hover:underline">
+                        {job.job_number}
+                    </Link>
+                    {saving ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : (
+                        <Badge className={priorityColor(job.priority)}>{job.priority_label}</Badge>
+                    )}
+                </div>
+
+                <p className="truncate text-muted-foreground">{job.job_title ?? job.job_type}</p>
+                {job.customer && <p className="truncate text-xs text-muted-foreground">{job.customer}</p>}
+
+                <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                        <User className="h-3 w-3" />
+                        {job.assigned_to ?? 'Unassigned'}
+                    </span>
+                    {job.estimated_completion && (
+                        <span className={`flex items-center gap-1 ${job.is_overdue ? 'font-medium text-red-600' : ''}`}>
+                            <Clock className="h-3 w-3" />
+                            {formatDue(job.estimated_completion)}
+                        </span>
+                    )}
+                </div>
+
+                {stage?.stage_status === 'requires_approval' && (
+                    <Badge variant="outline" className="mt-2">
+                        Awaiting approval
+                    </Badge>
+                )}
+                {stage?.stage_status === 'rejected' && (
+                    <Badge variant="destructive" className="mt-2">
+                        Rejected
+                    </Badge>
+                )}
+                {stage?.stage_status === 'on_hold' && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                        At {columns.find((column) => column.stage_name === stage.stage_name)?.label ?? stage.stage_name}
+                    </p>
+                )}
+            </div>
+        );
+    };
+
+    const onHoldJobs = jobsAt({ column: 'on_hold' });
+    const completedJobs = jobsAt({ column: 'completed' });
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Production Board" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Production Board</h1>
+                        <p className="text-muted-foreground">
+                            Drag a job across lanes to start its stage, into the next column to complete it, or onto On Hold to pause it
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {branches.length > 0 && (
+                            <select
+                                value={filters.branch_id ?? ''}
+                                onChange={(e) =>
+                                    router.get(route('production.stages.kanban'), e.target.value ? { branch_id: e.target.value } : {}, {
+                                        preserveState: false,
+                                    })
+                                }
+                                className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                            >
+                                <option value="">All branches</option>
+                                {branches.map((branch) => (
+                                    <option key={branch.id} value={branch.id}>
+                                        {branch.name}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                        <Button variant="outline" asChild>
+                            <Link href={route('production.print-jobs.index')}>
+                                <List className="mr-2 h-4 w-4" />
+                                Job List
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+
+                {message && (
+                    <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
+                        {message.type === 'error' ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                        <AlertDescription>{message.text}</AlertDescription>
+                    </Alert>
+                )}
+
+                {columns.length === 0 ? (
+                    <div className="rounded-md border border-dashed p-12 text-center text-muted-foreground">
+                        No print jobs are in production. Jobs appear here once their production stages have been created.
+                    </div>
+                ) : (
+                    <div className="flex gap-4 overflow-x-auto pb-4">
+                        {columns.map((column) => {
+                            const queued = jobsAt({ column: column.stage_name, lane: 'queued' });
+                            const running = jobsAt({ column: column.stage_name, lane: 'in_progress' });
+
+                            return (
+                                <div key={column.stage_name} className="flex w-72 shrink-0 flex-col gap-3 rounded-lg border p-3">
+                                    <div className="flex items-center justify-between">
+                                        <h2 className="font-semibold">{column.label}</h2>
+                                        <Badge variant="secondary">{queued.length + running.length}</Badge>
+                                    </div>
+
+                                    {(['queued', 'in_progress'] as Lane[]).map((lane) => {
+                                        const target: KanbanTarget = { column: column.stage_name, lane };
+                                        const laneJobs = lane === 'queued' ? queued : running;
+
+                                        return (
+                                            <div key={lane}>
+                                                <p className="mb-1 text-xs font-medium text-muted-foreground uppercase">
+                                                    {lane === 'queued' ? 'Queued' : 'In Progress'}
+                                                </p>
+                                                <div {...dropZoneProps(target)} className={zoneClass(target)}>
+                                                    {laneJobs.map(renderCard)}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            );
+                        })}
+
+                        <div className="flex w-72 shrink-0 flex-col gap-3 rounded-lg border border-amber-200 p-3">
+                            <div className="flex items-center justify-between">
+                                <h2 className="flex items-center gap-2 font-semibold">
+                                    <PauseCircle className="h-4 w-4 text-amber-600" />
+                                    On Hold
+                                </h2>
+                                <Badge variant="secondary">{onHoldJobs.length}</Badge>
+                            </div>
+                            <div {...dropZoneProps({ column: 'on_hold' })} className={zoneClass({ column: 'on_hold' })}>
+                                {onHoldJobs.map(renderCard)}
+                            </div>
+                        </div>
+
+                        <div className="flex w-72 shrink-0 flex-col gap-3 rounded-lg border border-green-200 p-3">
+                            <div className="flex items-center justify-between">
+                                <h2 className="flex items-center gap-2 font-semibold">
+                                    <CheckCircle className="h-4 w-4 text-green-600" />
+                                    Completed
+                                </h2>
+                                <Badge variant="secondary">{completedJobs.length}</Badge>
+                            </div>
+                            <div {...dropZoneProps({ column: 'completed' })} className={zoneClass({ column: 'completed' })}>
+                                {completedJobs.map(renderCard)}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <Dialog open={holdRequest !== null} onOpenChange={(open) => !open && setHoldRequest(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Put {holdRequest?.job.job_number} on hold</DialogTitle>
+                        <DialogDescription>The reason is recorded in the stage notes.</DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-2">
+                        <Label htmlFor="hold_reason">Reason *</Label>
+                        <Textarea
+                            id="hold_reason"
+                            rows={3}
+                            maxLength={500}
+                            value={holdReason}
+                            onChange={(e) => setHoldReason(e.target.value)}
+                            placeholder="e.g., Waiting for paper stock"
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setHoldRequest(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={confirmHold} disabled={holdReason.trim() === ''}>
+                            Put On Hold
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </AppLayout>
+    );
+}
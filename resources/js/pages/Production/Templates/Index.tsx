@@ -0,0 +1,621 @@
+// resources/js/pages/Production/Templates/Index.tsx
+
+import InputError from '@/components/input-error';
+import SpecificationsEditor, { type Specifications } from '@/components/specifications-editor';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router, useForm, usePage } from '@inertiajs/react';
+import { AlertTriangle, ArrowDown, ArrowUp, Clock, Edit, Factory, LayoutTemplate, Plus, Search, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+
+type TemplateStage = {
+    name: string;
+    estimated_duration: number;
+    requires_approval: boolean;
+};
+
+interface TemplateRow {
+    id: number;
+    name: string;
+    job_type: string;
+    job_title: string | null;
+    job_description: string | null;
+    specifications: Specifications;
+    material_requirements: Specifications;
+    default_stages: TemplateStage[];
+    total_stage_minutes: number;
+    priority: string;
+    estimated_hours: number | null;
+    estimated_cost: string | null;
+    special_instructions: string | null;
+    is_active: boolean;
+    usage_count: number;
+    last_used_at: string | null;
+    customer: { id: number; name: string } | null;
+    created_by: string | null;
+}
+
+interface Filters {
+    search?: string | null;
+    job_type?: string | null;
+    status?: string | null;
+}
+
+interface Props {
+    templates: TemplateRow[];
+    filters: Filters;
+    job_types: Record<string, string>;
+    stage_names: Record<string, string>;
+    customers: { id: number; name: string }[];
+    permissions: { manage: boolean; create_job: boolean };
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Print Jobs', href: '/production/print-jobs' },
+    { title: 'Templates', href: '/production/templates' },
+];
+
+const formatMinutes = (minutes: number) => {
+    if (minutes < 60) {
+        return `${minutes} min`;
+    }
+
+    const hours = Math.floor(minutes / 60);
+
+    return minutes % 60 === 0 ? `${hours} hrs` : `${hours} hrs ${minutes % 60} min`;
+};
+
+export default function TemplatesIndex({ templates, filters, job_types, stage_names, customers, permissions }: Props) {
+    const { errors } = usePage().props as { errors: Record<string, string> };
+    const [search, setSearch] = useState(filters.search ?? '');
+    // null keeps the dialog closed; 'new' opens an empty form
+    const [editing, setEditing] = useState<TemplateRow | 'new' | null>(null);
+
+    const applyFilters = (newFilters: Partial<Filters>) => {
+        const cleanFilters = Object.fromEntries(
+            Object.entries({ ...filters, ...newFilters }).filter(([, value]) => value !== '' && value !== null && value !== undefined),
+        );
+
+        router.get(route('production.templates.index'), cleanFilters, { preserveState: true, preserveScroll: true });
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        router.get(route('production.templates.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const handleDelete = (template: TemplateRow) => {
+        if (confirm(`Delete the template "${template.name}"? Jobs already created from it are not affected.`)) {
+            router.delete(route('production.templates.destroy', template.id), { preserveScroll: true });
+        }
+    };
+
+    const hasActiveFilters = Object.values(filters).some((value) => value !== '' && value !== null && value !== undefined);
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Job Templates" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Job Templates</h1>
+                        <p className="text-muted-foreground">Reusable setups for repeat work, with their specifications and production stages</p>
+                    </div>
+                    {permissions.manage && (
+                        <Button onClick={() => setEditing('new')}>
+                            <Plus className="mr-2 h-4 w-4" />
+                            New Template
+                        </Button>
+                    )}
+                </div>
+
+                {errors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{errors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <Card>
+                    <CardContent className="grid grid-cols-1 items-end gap-4 p-4 md:grid-cols-4">
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                applyFilters({ search });
+                            }}
+                            className="relative md:col-span-2"
+                        >
+                            <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Search name, title or description..."
+                                className="pl-8"
+                            />
+                        </form>
+                        <select
+                            aria-label="Job type"
+                            value={filters.job_type ?? ''}
+                            onChange={(e) => applyFilters({ job_type: e.target.value })}
+                            className={selectClass}
+                        >
+                            <option value="">All job types</option>
+                            {Object.entries(job_types).map(([value, label]) => (
+                                <option key={value} value={value}>
+                                    {label}
+                                </option>
+                            ))}
+                        </select>
+                        <div className="flex gap-2">
+                            <select
+                                aria-label="Status"
+                                value={filters.status ?? ''}
+                                onChange={(e) => applyFilters({ status: e.target.value })}
+                                className={selectClass}
+                            >
+                                <option value="">Active and inactive</option>
+                                <option value="active">Active</option>
+                                <option value="inactive">Inactive</option>
+                            </select>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="icon" onClick={clearFilters} title="Clear filters">
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {templates.length === 0 ? (
+                    <Card>
+                        <CardContent className="py-12 text-center">
+                            <LayoutTemplate className="mx-auto mb-4 h-12 w-12 text-muted-foreground" />
+                            <p className="font-medium">No templates yet</p>
+                            <p className="text-sm text-muted-foreground">
+                                Create one here, or use "Save as Template" on a print job you want to repeat.
+                            </p>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+                        {templates.map((template) => (
+                            <Card key={template.id} className={template.is_active ? '' : 'opacity-70'}>
+                                <CardHeader>
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div>
+                                            <CardTitle>{template.name}</CardTitle>
+                                            <CardDescription>
+                                                {job_types[template.job_type] ?? template.job_type}
+                                                {template.customer && ` for ${template.customer.name}`}
+                                            </CardDescription>
+                                        </div>
+                                        <div className="flex shrink-0 gap-1">
+                                            {!template.is_active && <Badge variant="outline">Inactive</Badge>}
+                                            <Badge variant="secondary" className="capitalize">
+                                                {template.priority}
+                                            </Badge>
+                                        </div>
+                                    </div>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    {(template.job_title || template.job_description) && (
+                                        <div className="text-sm">
+                                            {template.job_title && <p className="font-medium">{template.job_title}</p>}
+                                            {template.job_description && <p className="text-muted-foreground">{template.job_description}</p>}
+                                        </div>
+                                    )}
+
+                                    {Object.keys(template.specifications).length > 0 && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {Object.entries(template.specifications)
+                                                .filter(([, value]) => typeof value !== 'object' || value === null)
+                                                .map(([key, value]) => (
+                                                    <Badge key={key} variant="outline" className="font-normal">
+                                                        {key.replace(/_/g, ' ')}: {String(value ?? '')}
+                                                    </Badge>
+                                                ))}
+                                        </div>
+                                    )}
+
+                                    <div>
+                                        <p className="mb-1 flex items-center gap-1 text-xs font-medium text-muted-foreground uppercase">
+                                            <Factory className="h-3 w-3" />
+                                            {template.default_stages.length > 0
+                                                ? `${template.default_stages.length} stages, ${formatMinutes(template.total_stage_minutes)}`
+                                                : 'Default stages for the job type'}
+                                        </p>
+                                        {template.default_stages.length > 0 && (
+                                            <ol className="flex flex-wrap gap-1 text-xs">
+                                                {template.default_stages.map((stage, index) => (
+                                                    <li key={`${stage.name}-${index}`} className="rounded bg-muted px-2 py-0.5">
+                                                        {index + 1}. {stage_names[stage.name] ?? stage.name}
+                                                        {stage.requires_approval && ' ✓'}
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        )}
+                                    </div>
+
+                                    <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-3 text-xs text-muted-foreground">
+                                        <span className="flex items-center gap-3">
+                                            {template.estimated_hours && (
+                                                <span className="flex items-center gap-1">
+                                                    <Clock className="h-3 w-3" />
+                                                    {template.estimated_hours} hrs
+                                                </span>
+                                            )}
+                                            {template.estimated_cost && <span>Rs. {Number(template.estimated_cost).toLocaleString()}</span>}
+                                            <span>
+                                                Used {template.usage_count} {template.usage_count === 1 ? 'time' : 'times'}
+                                                {template.last_used_at && `, last ${new Date(template.last_used_at).toLocaleDateString()}`}
+                                            </span>
+                                        </span>
+                                        <span className="flex gap-1">
+                                            {permissions.create_job && template.is_active && (
+                                                <Button size="sm" asChild>
+                                                    <Link href={route('production.print-jobs.create-standalone', { template: template.id })}>
+                                                        <Plus className="mr-1 h-3 w-3" />
+                                                        Create Job
+                                                    </Link>
+                                                </Button>
+                                            )}
+                                            {permissions.manage && (
+                                                <>
+                                                    <Button size="sm" variant="outline" onClick={() => setEditing(template)} title="Edit template">
+                                                        <Edit className="h-3 w-3" />
+                                                    </Button>
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        onClick={() => handleDelete(template)}
+                                                        title="Delete template"
+                                                    >
+                                                        <Trash2 className="h-3 w-3 text-red-600" />
+                                                    </Button>
+                                                </>
+                                            )}
+                                        </span>
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {editing !== null && (
+                <TemplateFormDialog
+                    template={editing === 'new' ? null : editing}
+                    jobTypes={job_types}
+                    stageNames={stage_names}
+                    customers={customers}
+                    onClose={() => setEditing(null)}
+                />
+            )}
+        </AppLayout>
+    );
+}
+
+interface TemplateFormDialogProps {
+    template: TemplateRow | null;
+    jobTypes: Record<string, string>;
+    stageNames: Record<string, string>;
+    customers: { id: number; name: string }[];
+    onClose: () => void;
+}
+
+function TemplateFormDialog({ template, jobTypes, stageNames, customers, onClose }: TemplateFormDialogProps) {
+    const { data, setData, post, put, processing, errors } = useForm({
+        name: template?.name ?? '',
+        customer_id: template?.customer ? String(template.customer.id) : '',
+        job_type: template?.job_type ?? '',
+        job_title: template?.job_title ?? '',
+        job_description: template?.job_description ?? '',
+        specifications: template?.specifications ?? ({} as Specifications),
+        material_requirements: template?.material_requirements ?? ({} as Specifications),
+        default_stages: template?.default_stages ?? ([] as TemplateStage[]),
+        priority: template?.priority ?? 'normal',
+        estimated_hours: template?.estimated_hours ? String(template.estimated_hours) : '',
+        estimated_cost: template?.estimated_cost ?? '',
+        special_instructions: template?.special_instructions ?? '',
+        is_active: template?.is_active ?? true,
+    });
+
+    const fieldErrors = errors as Record<string, string>;
+
+    const updateStage = (index: number, changes: Partial<TemplateStage>) =>
+        setData(
+            'default_stages',
+            data.default_stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)),
+        );
+
+    const moveStage = (index: number, offset: number) => {
+        const stages = [...data.default_stages];
+        [stages[index], stages[index + offset]] = [stages[index + offset], stages[index]];
+        setData('default_stages', stages);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const options = { preserveScroll: true, onSuccess: onClose };
+
+        if (template) {
+            put(route('production.templates.update', template.id), options);
+        } else {
+            post(route('production.templates.store'), options);
+        }
+    };
+
+    return (
+        <Dialog open onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>{template ? 'Edit Template' : 'New Template'}</DialogTitle>
+                    <DialogDescription>Jobs created from this template start with these details and stages</DialogDescription>
+                </DialogHeader>
+
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                        <div className="grid gap-2">
+                            <Label htmlFor="name">Template Name *</Label>
+                            <Input id="name" value={data.name} onChange={(e) => setData('name', e.target.value)} required />
+                            <InputError message={errors.name} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="job_type">Job Type *</Label>
+                            <select
+                                id="job_type"
+                                value={data.job_type}
+                                onChange={(e) => setData('job_type', e.target.value)}
+                                className={selectClass}
+                                required
+                            >
+                                <option value="">Select job type</option>
+                                {Object.entries(jobTypes).map(([value, label]) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                            <InputError message={errors.job_type} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="job_title">Job Title</Label>
+                            <Input
+                                id="job_title"
+                                value={data.job_title}
+                                onChange={(e) => setData('job_title', e.target.value)}
+                                placeholder="Defaults to the template name"
+                            />
+                            <InputError message={errors.job_title} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="customer_id">Customer</Label>
+                            <select
+                                id="customer_id"
+                                value={data.customer_id}
+                                onChange={(e) => setData('customer_id', e.target.value)}
+                                className={selectClass}
+                            >
+                                <option value="">Any customer</option>
+                                {customers.map((customer) => (
+                                    <option key={customer.id} value={customer.id}>
+                                        {customer.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <InputError message={errors.customer_id} />
+                        </div>
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="job_description">Description</Label>
+                        <Textarea
+                            id="job_description"
+                            rows={2}
+                            value={data.job_description}
+                            onChange={(e) => setData('job_description', e.target.value)}
+                        />
+                        <InputError message={errors.job_description} />
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                        <div className="grid gap-2">
+                            <Label htmlFor="priority">Priority</Label>
+                            <select id="priority" value={data.priority} onChange={(e) => setData('priority', e.target.value)} className={selectClass}>
+                                <option value="low">Low</option>
+                                <option value="normal">Normal</option>
+                                <option value="medium">Medium</option>
+                                <option value="high">High</option>
+                                <option value="urgent">Urgent</option>
+                            </select>
+                            <InputError message={errors.priority} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="estimated_hours">Turnaround (hours)</Label>
+                            <Input
+                                id="estimated_hours"
+                                type="number"
+                                min="1"
+                                value={data.estimated_hours}
+                                onChange={(e) => setData('estimated_hours', e.target.value)}
+                                placeholder="From the job type"
+                            />
+                            <InputError message={errors.estimated_hours} />
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="estimated_cost">Estimated Cost (Rs.)</Label>
+                            <Input
+                                id="estimated_cost"
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={data.estimated_cost}
+                                onChange={(e) => setData('estimated_cost', e.target.value)}
+                            />
+                            <InputError message={errors.estimated_cost} />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label>Specifications</Label>
+                            <SpecificationsEditor value={data.specifications} onChange={(value) => setData('specifications', value)} />
+                            <InputError message={errors.specifications} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Material Requirements</Label>
+                            <SpecificationsEditor value={data.material_requirements} onChange={(value) => setData('material_requirements', value)} />
+                            <InputError message={errors.material_requirements} />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label>Production Stages</Label>
+                            <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() =>
+                                    setData('default_stages', [
+                                        ...data.default_stages,
+                                        { name: Object.keys(stageNames)[0], estimated_duration: 30, requires_approval: false },
+                                    ])
+                                }
+                            >
+                                <Plus className="mr-1 h-3 w-3" />
+                                Add Stage
+                            </Button>
+                        </div>
+                        {data.default_stages.length === 0 ? (
+                            <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">
+                                No stages set; jobs get the default stages for their job type
+                            </p>
+                        ) : (
+                            <div className="space-y-2">
+                                {data.default_stages.map((stage, index) => (
+                                    <div key={index} className="space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="w-5 text-right text-sm text-muted-foreground">{index + 1}.</span>
+                                            <select
+                                                aria-label="Stage"
+                                                value={stage.name}
+                                                onChange={(e) => updateStage(index, { name: e.target.value })}
+                                                className={selectClass}
+                                            >
+                                                {Object.entries(stageNames).map(([value, label]) => (
+                                                    <option key={value} value={value}>
+                                                        {label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <Input
+                                                aria-label="Minutes"
+                                                type="number"
+                                                min="0"
+                                                className="w-24"
+                                                value={stage.estimated_duration}
+                                                onChange={(e) => updateStage(index, { estimated_duration: Number(e.target.value) })}
+                                            />
+                                            <span className="text-xs text-muted-foreground">min</span>
+                                            <label className="flex shrink-0 items-center gap-1 text-xs">
+                                                <Checkbox
+                                                    checked={stage.requires_approval}
+                                                    onCheckedChange={(checked) => updateStage(index, { requires_approval: !!checked })}
+                                                />
+                                                Approval
+                                            </label>
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="icon"
+                                                disabled={index === 0}
+                                                onClick={() => moveStage(index, -1)}
+                                                title="Move up"
+                                            >
+                                                <ArrowUp className="h-4 w-4" />
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="icon"
+                                                disabled={index === data.default_stages.length - 1}
+                                                onClick={() => moveStage(index, 1)}
+                                                title="Move down"
+                                            >
+                                                <ArrowDown className="h-4 w-4" />
+                                            </Button>
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() =>
+                                                    setData(
+                                                        'default_stages',
+                                                        data.default_stages.filter((_, i) => i !== index),
+                                                    )
+                                                }
+                                                title="Remove stage"
+                                            >
+                                                <X className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                        <InputError
+                                            message={
+                                                fieldErrors[`default_stages.${index}.name`] ??
+                                                fieldErrors[`default_stages.${index}.estimated_duration`]
+                                            }
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        <InputError message={errors.default_stages} />
+                    </div>
+
+                    <div className="grid gap-2">
+                        <Label htmlFor="special_instructions">Special Instructions</Label>
+                        <Textarea
+                            id="special_instructions"
+                            rows={2}
+                            value={data.special_instructions}
+                            onChange={(e) => setData('special_instructions', e.target.value)}
+                        />
+                        <InputError message={errors.special_instructions} />
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                        <Checkbox id="is_active" checked={data.is_active} onCheckedChange={(checked) => setData('is_active', !!checked)} />
+                        <Label htmlFor="is_active">Offer this template when creating jobs</Label>
+                    </div>
+
+                    {fieldErrors.error && <InputError message={fieldErrors.error} />}
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={processing}>
+                            {processing ? 'Saving...' : template ? 'Save Changes' : 'Create Template'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
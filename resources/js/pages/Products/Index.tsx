@@ -44,6 +44,7 @@ import {
     Image as ImageIcon
 } from 'lucide-react';
 import { BreadcrumbItem } from '@/types';
+import ProductImportDialog from '@/components/product-import-dialog';
 
 interface Product {
     id: number;
@@ -113,6 +114,11 @@ interface Props {
         max_price?: number;
         requires_customization?: boolean;
     };
+    permissions?: {
+        canCreate: boolean;
+        canEdit: boolean;
+        canDelete: boolean;
+    };
 }
 
 const breadcrumbs: BreadcrumbItem[] = [
@@ -122,7 +128,7 @@ const breadcrumbs: BreadcrumbItem[] = [
     },
 ];
 
-export default function ProductsIndex({ products, categories = [], stats, filters = {} }: Props) {
+export default function ProductsIndex({ products, categories = [], stats, filters = {}, permissions }: Props) {
     const [searchTerm, setSearchTerm] = useState(filters.search || '');
     const [selectedCategory, setSelectedCategory] = useState(filters.category_id?.toString() || '');
     const [selectedStatus, setSelectedStatus] = useState(filters.status || '');
@@ -130,6 +136,7 @@ export default function ProductsIndex({ products, categories = [], stats, filter
     const [maxPrice, setMaxPrice] = useState(filters.max_price?.toString() || '');
     const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
     const [loading, setLoading] = useState(false);
+    const [showImport, setShowImport] = useState(false);
 
     // Debounced search
     useEffect(() => {
@@ -222,13 +229,24 @@ export default function ProductsIndex({ products, categories = [], stats, filter
                         </p>
                     </div>
                     <div className="flex space-x-3">
-                        <Button variant="outline">
-                            <Upload className="w-4 h-4 mr-2" />
-                            Import
-                        </Button>
-                        <Button variant="outline">
-                            <Download className="w-4 h-4 mr-2" />
-                            Export
+                        <Link href={route('price-lists.index')}>
+                            <Button variant="outline">
+                                <Tags className="w-4 h-4 mr-2" />
+                                Price Lists
+                            </Button>
+                        </Link>
+                        {permissions?.canCreate && permissions?.canEdit && (
+                            <Button variant="outline" onClick={() => setShowImport(true)}>
+                                <Upload className="w-4 h-4 mr-2" />
+                                Import
+                            </Button>
+                        )}
+                        {/* Exports the products matching the applied filters */}
+                        <Button variant="outline" asChild>
+                            <a href={route('products.export', Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== null && value !== undefined && value !== '')))}>
+                                <Download className="w-4 h-4 mr-2" />
+                                Export
+                            </a>
                         </Button>
                         <Link href="/products/create">
                             <Button>
@@ -621,6 +639,8 @@ export default function ProductsIndex({ products, categories = [], stats, filter
                     </div>
                 )}
             </div>
+
+            <ProductImportDialog open={showImport} onClose={() => setShowImport(false)} />
         </AppLayout>
     );
 }
\ No newline at end of file
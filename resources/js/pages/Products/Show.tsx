@@ -30,6 +30,8 @@ import {
     Download
 } from 'lucide-react';
 import { BreadcrumbItem } from '@/types';
+import PriceBreaksCard, { type ProductPriceList } from '@/components/price-breaks-card';
+import { priceBreakFor, type PriceBreak } from '@/lib/product-pricing';
 
 interface Product {
     id: number;
@@ -82,12 +84,19 @@ interface WeightPricingTier {
 interface Props {
     product: Product;
     pricingTiers: WeightPricingTier[];
+    priceBreaks: PriceBreak[];
+    priceLists: ProductPriceList[];
+    permissions?: {
+        canEdit: boolean;
+        canDelete: boolean;
+    };
     canEdit: boolean;
     canDelete: boolean;
 }
 
-export default function ProductShow({ product, pricingTiers, canEdit, canDelete }: Props) {
+export default function ProductShow({ product, pricingTiers = [], priceBreaks: initialPriceBreaks = [], priceLists = [], permissions, canEdit, canDelete }: Props) {
     const [quantity, setQuantity] = useState(1);
+    const [priceBreaks, setPriceBreaks] = useState<PriceBreak[]>(initialPriceBreaks);
     const [priceCalculation, setPriceCalculation] = useState<any>(null);
 
     const breadcrumbs: BreadcrumbItem[] = [
@@ -101,8 +110,10 @@ export default function ProductShow({ product, pricingTiers, canEdit, canDelete
         },
     ];
 
-    const calculatePrice = (qty: number) => {
-        const basePrice = product.base_price * qty;
+    const calculatePrice = (qty: number, breaks: PriceBreak[] = priceBreaks) => {
+        const priceBreak = priceBreakFor(breaks, qty);
+        const unitPrice = priceBreak ? Number(priceBreak.unit_price) : product.base_price;
+        const basePrice = unitPrice * qty;
         const totalWeight = product.weight_per_unit * qty;
         
         // Convert weight to kg for calculation
@@ -124,6 +135,8 @@ export default function ProductShow({ product, pricingTiers, canEdit, canDelete
 
         setPriceCalculation({
             quantity: qty,
+            unit_price: unitPrice,
+            price_break: priceBreak ? `${priceBreak.min_quantity}+ units` : null,
             base_price: basePrice,
             delivery_charge: deliveryCharge,
             tax_amount: taxAmount,
@@ -377,6 +390,18 @@ export default function ProductShow({ product, pricingTiers, canEdit, canDelete
                                 </CardContent>
                             </Card>
 
+                            <PriceBreaksCard
+                                productId={product.id}
+                                basePrice={Number(product.base_price)}
+                                priceBreaks={priceBreaks}
+                                priceLists={priceLists}
+                                canEdit={permissions?.canEdit ?? canEdit}
+                                onSaved={(breaks) => {
+                                    setPriceBreaks(breaks);
+                                    calculatePrice(quantity, breaks);
+                                }}
+                            />
+
                             {/* Activity Log */}
                             <Card>
                                 <CardHeader>
@@ -447,6 +472,13 @@ export default function ProductShow({ product, pricingTiers, canEdit, canDelete
                                             <span>Rs. {priceCalculation.base_price.toFixed(2)}</span>
                                         </div>
                                         
+                                        {priceCalculation.price_break && (
+                                            <div className="flex justify-between text-sm text-green-700">
+                                                <span>Quantity break ({priceCalculation.price_break}):</span>
+                                                <span>Rs. {priceCalculation.unit_price.toFixed(2)} / unit</span>
+                                            </div>
+                                        )}
+                                        
                                         <div className="flex justify-between text-sm">
                                             <span className="text-gray-600">Delivery Charge:</span>
                                             <span>Rs. {priceCalculation.delivery_charge.toFixed(2)}</span>
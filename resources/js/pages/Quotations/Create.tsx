@@ -0,0 +1,40 @@
+// resources/js/pages/Quotations/Create.tsx
+
+import QuotationForm, { type QuotationFormOptions } from '@/components/quotation-form';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+
+interface Props extends QuotationFormOptions {
+    default_branch_id: number | null;
+    default_customer_id: number | null;
+    default_valid_until: string;
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Quotations', href: '/quotations' },
+    { title: 'New Quotation', href: '/quotations/create' },
+];
+
+export default function CreateQuotation({ default_branch_id, default_customer_id, default_valid_until, ...options }: Props) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="New Quotation" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">New Quotation</h1>
+                    <p className="text-muted-foreground">Price a job for a customer before it becomes an invoice</p>
+                </div>
+
+                <QuotationForm
+                    {...options}
+                    defaultBranchId={default_branch_id}
+                    defaultCustomerId={default_customer_id}
+                    defaultValidUntil={default_valid_until}
+                />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,35 @@
+// resources/js/pages/Quotations/Edit.tsx
+
+import QuotationForm, { type QuotationFormOptions } from '@/components/quotation-form';
+import AppLayout from '@/layouts/app-layout';
+import { type QuotationDetails } from '@/lib/quotations';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+
+interface Props extends QuotationFormOptions {
+    quotation: QuotationDetails;
+}
+
+export default function EditQuotation({ quotation, ...options }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Quotations', href: '/quotations' },
+        { title: quotation.quotation_number, href: route('quotations.show', quotation.id) },
+        { title: 'Edit', href: route('quotations.edit', quotation.id) },
+    ];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Edit ${quotation.quotation_number}`} />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Edit Quotation {quotation.quotation_number}</h1>
+                    <p className="text-muted-foreground">Changes apply to the quotation the customer receives next</p>
+                </div>
+
+                <QuotationForm {...options} quotation={quotation} />
+            </div>
+        </AppLayout>
+    );
+}
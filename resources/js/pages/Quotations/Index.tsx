@@ -0,0 +1,369 @@
+// resources/js/pages/Quotations/Index.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { daysUntil, statusBadgeClass, type QuotationStatus } from '@/lib/quotations';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { ArrowRightLeft, CheckCircle, Clock, Eye, FileText, Filter, Plus, Search, TrendingUp, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface QuotationRow {
+    id: number;
+    quotation_number: string;
+    quotation_date: string;
+    valid_until: string;
+    status: QuotationStatus;
+    status_label: string;
+    total_amount: number;
+    items_count: number;
+    customer: { id: number; name: string; phone: string | null } | null;
+    branch: { id: number; name: string } | null;
+    invoice: { id: number; invoice_number: string } | null;
+}
+
+interface Filters {
+    search?: string | null;
+    status?: string | null;
+    branch_id?: string | number | null;
+    date_from?: string | null;
+    date_to?: string | null;
+}
+
+interface Props {
+    quotations: {
+        data: QuotationRow[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+    };
+    filters: Filters;
+    stats: {
+        total: number;
+        open: number;
+        open_value: number;
+        accepted: number;
+        converted: number;
+        expired: number;
+        acceptance_rate: number | null;
+    };
+    branches: { id: number; name: string }[];
+    statuses: Record<string, string>;
+    permissions: {
+        create: boolean;
+        view_all_branches: boolean;
+    };
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const money = (value: number) => `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Quotations', href: '/quotations' },
+];
+
+export default function QuotationsIndex({ quotations, filters, stats, branches, statuses, permissions }: Props) {
+    const [currentFilters, setCurrentFilters] = useState<Filters>(filters);
+    const [search, setSearch] = useState(filters.search ?? '');
+
+    const applyFilters = (newFilters: Partial<Filters>, page?: number) => {
+        const updated = { ...currentFilters, ...newFilters };
+        setCurrentFilters(updated);
+
+        const cleanFilters = Object.fromEntries(
+            Object.entries({ ...updated, page }).filter(([, value]) => value !== '' && value !== null && value !== undefined),
+        );
+
+        router.get(route('quotations.index'), cleanFilters, {
+            preserveState: true,
+            preserveScroll: true,
+        });
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        setCurrentFilters({});
+        router.get(route('quotations.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const hasActiveFilters = Object.entries(currentFilters).some(
+        ([key, value]) => value !== '' && value !== null && value !== undefined && !(key === 'branch_id' && !permissions.view_all_branches),
+    );
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Quotations" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Quotations</h1>
+                        <p className="text-muted-foreground">Estimates sent to customers, ready to become invoices once accepted</p>
+                    </div>
+                    {permissions.create && (
+                        <Button asChild>
+                            <Link href={route('quotations.create')}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                New Quotation
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-6">
+                    {[
+                        { label: 'Total', value: stats.total, icon: FileText, className: '' },
+                        { label: 'Open', value: `${stats.open} · ${money(stats.open_value)}`, icon: Clock, className: 'text-blue-600' },
+                        { label: 'Accepted', value: stats.accepted, icon: CheckCircle, className: 'text-green-600' },
+                        { label: 'Converted', value: stats.converted, icon: ArrowRightLeft, className: 'text-purple-600' },
+                        { label: 'Expired', value: stats.expired, icon: Clock, className: 'text-orange-600' },
+                        {
+                            label: 'Acceptance Rate',
+                            value: stats.acceptance_rate === null ? '—' : `${stats.acceptance_rate}%`,
+                            icon: TrendingUp,
+                            className: '',
+                        },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="flex items-center justify-between p-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                    <p className={`text-xl font-bold ${stat.className}`}>{stat.value}</p>
+                                </div>
+                                <stat.icon className={`h-6 w-6 ${stat.className || 'text-muted-foreground'}`} />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-center justify-between">
+                            <CardTitle className="flex items-center gap-2">
+                                <Filter className="h-5 w-5" />
+                                Filters
+                            </CardTitle>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                                    <X className="mr-2 h-4 w-4" />
+                                    Clear
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                applyFilters({ search });
+                            }}
+                            className="flex gap-2"
+                        >
+                            <div className="relative flex-1">
+                                <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search quotation number, customer name or phone..."
+                                    className="pl-8"
+                                />
+                            </div>
+                            <Button type="submit">Search</Button>
+                        </form>
+
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+                            <div className="grid gap-1">
+                                <Label htmlFor="status">Status</Label>
+                                <select
+                                    id="status"
+                                    value={currentFilters.status ?? ''}
+                                    onChange={(e) => applyFilters({ status: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All statuses</option>
+                                    {Object.entries(statuses).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {permissions.view_all_branches && (
+                                <div className="grid gap-1">
+                                    <Label htmlFor="branch_id">Branch</Label>
+                                    <select
+                                        id="branch_id"
+                                        value={currentFilters.branch_id ?? ''}
+                                        onChange={(e) => applyFilters({ branch_id: e.target.value })}
+                                        className={selectClass}
+                                    >
+                                        <option value="">All branches</option>
+                                        {branches.map((branch) => (
+                                            <option key={branch.id} value={branch.id}>
+                                                {branch.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="date_from">Quoted from</Label>
+                                <Input
+                                    id="date_from"
+                                    type="date"
+                                    value={currentFilters.date_from ?? ''}
+                                    onChange={(e) => applyFilters({ date_from: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="date_to">Quoted to</Label>
+                                <Input
+                                    id="date_to"
+                                    type="date"
+                                    value={currentFilters.date_to ?? ''}
+                                    onChange={(e) => applyFilters({ date_to: e.target.value })}
+                                />
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b bg-muted/50 text-left">
+                                        <th className="p-3">Quotation #</th>
+                                        <th className="p-3">Customer</th>
+                                        <th className="p-3">Date</th>
+                                        <th className="p-3">Valid Until</th>
+                                        <th className="p-3">Status</th>
+                                        <th className="p-3 text-right">Total</th>
+                                        <th className="p-3 text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {quotations.data.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={7} className="p-12 text-center text-muted-foreground">
+                                                <FileText className="mx-auto mb-4 h-12 w-12" />
+                                                No quotations found
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        quotations.data.map((quotation) => {
+                                            const daysLeft = daysUntil(quotation.valid_until);
+                                            const isOpen = quotation.status === 'draft' || quotation.status === 'sent';
+
+                                            return (
+                                                <tr key={quotation.id} className="border-b last:border-b-0 hover:bg-muted/30">
+                                                    <td className="p-3">
+                                                        <Link
+                                                            href={route('quotations.show', quotation.id)}
+                                                            className="font-mono font-medium hover:underline"
+                                                        >
+                                                            {quotation.quotation_number}
+                                                        </Link>
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {quotation.items_count} {quotation.items_count === 1 ? 'item' : 'items'}
+                                                            {quotation.branch && ` · ${quotation.branch.name}`}
+                                                        </p>
+                                                    </td>
+                                                    <td className="p-3">
+                                                        {quotation.customer?.name ?? '—'}
+                                                        {quotation.customer?.phone && (
+                                                            <p className="text-xs text-muted-foreground">{quotation.customer.phone}</p>
+                                                        )}
+                                                    </td>
+                                                    <td className="p-3">{new Date(quotation.quotation_date).toLocaleDateString()}</td>
+                                                    <td className="p-3">
+                                                        {new Date(quotation.valid_until).toLocaleDateString()}
+                                                        {isOpen && daysLeft <= 3 && (
+                                                            <p className="text-xs text-orange-600">
+                                                                {daysLeft === 0
+                                                                    ? 'Expires today'
+                                                                    : `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+                                                            </p>
+                                                        )}
+                                                    </td>
+                                                    <td className="p-3">
+                                                        <Badge className={statusBadgeClass(quotation.status)}>{quotation.status_label}</Badge>
+                                                        {quotation.invoice && (
+                                                            <Link
+                                                                href={route('invoices.show', quotation.invoice.id)}
+                                                                className="mt-1 block text-xs text-primary hover:underline"
+                                                            >
+                                                                {quotation.invoice.invoice_number}
+                                                            </Link>
+                                                        )}
+                                                    </td>
+                                                    <td className="p-3 text-right font-medium">{money(quotation.total_amount)}</td>
+                                                    <td className="p-3">
+                                                        <div className="flex justify-end gap-1">
+                                                            <Button variant="ghost" size="sm" asChild>
+                                                                <Link href={route('quotations.show', quotation.id)}>
+                                                                    <Eye className="h-4 w-4" />
+                                                                </Link>
+                                                            </Button>
+                                                            <Button variant="ghost" size="sm" asChild>
+                                                                <a href={route('quotations.pdf', quotation.id)} target="_blank" rel="noreferrer">
+                                                                    <FileText className="h-4 w-4" />
+                                                                </a>
+                                                            </Button>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {quotations.last_page > 1 && (
+                            <div className="flex items-center justify-between border-t p-4 text-sm text-muted-foreground">
+                                <div>
+                                    Showing {quotations.from ?? 0} to {quotations.to ?? 0} of {quotations.total} quotations
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={quotations.current_page === 1}
+                                        onClick={() => applyFilters({}, quotations.current_page - 1)}
+                                    >
+                                        ← Previous
+                                    </Button>
+                                    <span className="px-2 py-1">
+                                        Page {quotations.current_page} of {quotations.last_page}
+                                    </span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={quotations.current_page === quotations.last_page}
+                                        onClick={() => applyFilters({}, quotations.current_page + 1)}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
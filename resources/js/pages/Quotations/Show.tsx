@@ -0,0 +1,473 @@
+// resources/js/pages/Quotations/Show.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import AppLayout from '@/layouts/app-layout';
+import { daysUntil, statusBadgeClass, type QuotationDetails } from '@/lib/quotations';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router, useForm } from '@inertiajs/react';
+import {
+    AlertTriangle,
+    ArrowLeft,
+    ArrowRightLeft,
+    CheckCircle,
+    Clock,
+    Edit,
+    FileText,
+    Loader2,
+    Package,
+    RotateCcw,
+    Send,
+    Trash2,
+    User,
+    XCircle,
+} from 'lucide-react';
+import { useState } from 'react';
+
+interface Props {
+    quotation: QuotationDetails & {
+        status_label: string;
+        sent_at: string | null;
+        accepted_at: string | null;
+        declined_at: string | null;
+        decline_reason: string | null;
+        converted_at: string | null;
+        created_at: string | null;
+        created_by: string | null;
+        customer: {
+            id: number;
+            name: string;
+            customer_code: string | null;
+            phone: string | null;
+            email: string | null;
+            billing_address: string | null;
+            city: string | null;
+        } | null;
+        branch: { id: number; name: string; code: string } | null;
+        invoice: { id: number; invoice_number: string; status: string; payment_status: string } | null;
+    };
+    permissions: {
+        edit: boolean;
+        delete: boolean;
+        send: boolean;
+        accept: boolean;
+        decline: boolean;
+        reopen: boolean;
+        convert: boolean;
+    };
+}
+
+const money = (value: number) => `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+export default function ShowQuotation({ quotation, permissions }: Props) {
+    const [declining, setDeclining] = useState(false);
+
+    const statusForm = useForm({
+        action: '',
+        decline_reason: '',
+        valid_until: '',
+    });
+
+    const convertForm = useForm({
+        due_date: '',
+    });
+
+    const fieldErrors = { ...statusForm.errors, ...convertForm.errors } as Record<string, string>;
+    const daysLeft = daysUntil(quotation.valid_until);
+    const isOpen = quotation.status === 'draft' || quotation.status === 'sent';
+
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Quotations', href: '/quotations' },
+        { title: quotation.quotation_number, href: route('quotations.show', quotation.id) },
+    ];
+
+    const changeStatus = (action: 'send' | 'accept' | 'decline' | 'reopen') => {
+        statusForm.transform((data) => ({ ...data, action }));
+        statusForm.patch(route('quotations.update-status', quotation.id), {
+            preserveScroll: true,
+            onSuccess: () => {
+                statusForm.reset();
+                setDeclining(false);
+            },
+        });
+    };
+
+    const convert = () => {
+        if (confirm(`Create an invoice from quotation ${quotation.quotation_number} at the quoted prices?`)) {
+            convertForm.post(route('quotations.convert-to-invoice', quotation.id));
+        }
+    };
+
+    const handleDelete = () => {
+        if (confirm(`Are you sure you want to delete quotation ${quotation.quotation_number}?`)) {
+            router.delete(route('quotations.destroy', quotation.id));
+        }
+    };
+
+    const timeline = [
+        { label: 'Created', at: quotation.created_at, detail: quotation.created_by },
+        { label: 'Sent to customer', at: quotation.sent_at, detail: null },
+        { label: 'Accepted', at: quotation.accepted_at, detail: null },
+        { label: 'Declined', at: quotation.declined_at, detail: quotation.decline_reason },
+        { label: 'Converted to invoice', at: quotation.converted_at, detail: quotation.invoice?.invoice_number ?? null },
+    ].filter((entry): entry is { label: string; at: string; detail: string | null } => entry.at !== null);
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Quotation ${quotation.quotation_number}`} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <div className="flex items-center gap-3">
+                            <h1 className="font-mono text-3xl font-bold tracking-tight">{quotation.quotation_number}</h1>
+                            <Badge className={statusBadgeClass(quotation.status)}>{quotation.status_label}</Badge>
+                        </div>
+                        <p className="text-muted-foreground">
+                            Quoted {formatDate(quotation.quotation_date)} · valid until {formatDate(quotation.valid_until)}
+                            {quotation.branch && ` · ${quotation.branch.name}`}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <a href={route('quotations.pdf', quotation.id)} target="_blank" rel="noreferrer">
+                                <FileText className="mr-2 h-4 w-4" />
+                                PDF
+                            </a>
+                        </Button>
+                        {permissions.edit && (
+                            <Button variant="outline" asChild>
+                                <Link href={route('quotations.edit', quotation.id)}>
+                                    <Edit className="mr-2 h-4 w-4" />
+                                    Edit
+                                </Link>
+                            </Button>
+                        )}
+                        {permissions.delete && (
+                            <Button variant="outline" onClick={handleDelete}>
+                                <Trash2 className="mr-2 h-4 w-4 text-red-600" />
+                                Delete
+                            </Button>
+                        )}
+                        <Button variant="outline" asChild>
+                            <Link href={route('quotations.index')}>
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+
+                {fieldErrors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{fieldErrors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {isOpen && daysLeft >= 0 && daysLeft <= 3 && (
+                    <Alert>
+                        <Clock className="h-4 w-4" />
+                        <AlertDescription>
+                            {daysLeft === 0
+                                ? 'This quotation expires today.'
+                                : `This quotation expires in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}.`}
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <div className="space-y-6 lg:col-span-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <User className="h-5 w-5" />
+                                    Customer
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-1 text-sm">
+                                {quotation.customer ? (
+                                    <>
+                                        <Link href={route('customers.show', quotation.customer.id)} className="font-medium hover:underline">
+                                            {quotation.customer.name}
+                                        </Link>
+                                        {quotation.customer.customer_code && (
+                                            <p className="text-muted-foreground">{quotation.customer.customer_code}</p>
+                                        )}
+                                        {quotation.customer.billing_address && (
+                                            <p className="whitespace-pre-line">
+                                                {quotation.customer.billing_address}
+                                                {quotation.customer.city && `, ${quotation.customer.city}`}
+                                            </p>
+                                        )}
+                                        {quotation.customer.phone && <p>{quotation.customer.phone}</p>}
+                                        {quotation.customer.email && <p>{quotation.customer.email}</p>}
+                                    </>
+                                ) : (
+                                    <p className="text-muted-foreground">Customer no longer exists</p>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Package className="h-5 w-5" />
+                                    Line Items
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b bg-muted/50 text-left">
+                                                <th className="p-3">Item</th>
+                                                <th className="p-3 text-right">Qty</th>
+                                                <th className="p-3 text-right">Unit Price</th>
+                                                <th className="p-3 text-right">Amount</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {quotation.items.map((item) => (
+                                                <tr key={item.id} className="border-b align-top last:border-b-0">
+                                                    <td className="p-3">
+                                                        <p className="font-medium">{item.item_description}</p>
+                                                        {item.product_name && item.product_name !== item.item_description && (
+                                                            <p className="text-xs text-muted-foreground">{item.product_name}</p>
+                                                        )}
+                                                        {typeof item.specifications?.notes === 'string' && (
+                                                            <p className="text-xs whitespace-pre-line text-muted-foreground">
+                                                                {item.specifications.notes}
+                                                            </p>
+                                                        )}
+                                                    </td>
+                                                    <td className="p-3 text-right">
+                                                        {item.quantity} {item.unit_type}
+                                                    </td>
+                                                    <td className="p-3 text-right">{money(item.unit_price)}</td>
+                                                    <td className="p-3 text-right font-medium">{money(item.line_total)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                <div className="ml-auto max-w-xs space-y-1 border-t p-4 text-sm">
+                                    <div className="flex justify-between">
+                                        <span>Subtotal</span>
+                                        <span>{money(quotation.subtotal)}</span>
+                                    </div>
+                                    {quotation.weight_charge > 0 && (
+                                        <div className="flex justify-between">
+                                            <span>Weight charge ({quotation.total_weight.toFixed(2)} kg)</span>
+                                            <span>{money(quotation.weight_charge)}</span>
+                                        </div>
+                                    )}
+                                    {quotation.discount_amount > 0 && (
+                                        <div className="flex justify-between text-green-700">
+                                            <span>Discount</span>
+                                            <span>-{money(quotation.discount_amount)}</span>
+                                        </div>
+                                    )}
+                                    <div className="flex justify-between">
+                                        <span>Tax</span>
+                                        <span>{money(quotation.tax_amount)}</span>
+                                    </div>
+                                    <div className="flex justify-between border-t pt-2 text-base font-semibold">
+                                        <span>Total</span>
+                                        <span>{money(quotation.total_amount)}</span>
+                                    </div>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        {(quotation.notes || quotation.terms_conditions) && (
+                            <Card>
+                                <CardContent className="grid grid-cols-1 gap-4 pt-6 text-sm md:grid-cols-2">
+                                    {quotation.notes && (
+                                        <div>
+                                            <h3 className="mb-1 font-medium">Notes</h3>
+                                            <p className="whitespace-pre-line text-muted-foreground">{quotation.notes}</p>
+                                        </div>
+                                    )}
+                                    {quotation.terms_conditions && (
+                                        <div>
+                                            <h3 className="mb-1 font-medium">Terms & Conditions</h3>
+                                            <p className="whitespace-pre-line text-muted-foreground">{quotation.terms_conditions}</p>
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        )}
+                    </div>
+
+                    <div className="space-y-6">
+                        {quotation.invoice && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <ArrowRightLeft className="h-5 w-5" />
+                                        Invoice
+                                    </CardTitle>
+                                    <CardDescription>This quotation has been invoiced.</CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <Button variant="outline" className="w-full" asChild>
+                                        <Link href={route('invoices.show', quotation.invoice.id)}>View {quotation.invoice.invoice_number}</Link>
+                                    </Button>
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        {(permissions.send || permissions.accept || permissions.decline || permissions.reopen || permissions.convert) && (
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Customer Response</CardTitle>
+                                    <CardDescription>
+                                        Converting creates an invoice with these lines, specifications, discount and terms at the quoted prices.
+                                    </CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-3">
+                                    {permissions.convert && (
+                                        <div className="space-y-2 rounded-lg border p-3">
+                                            <div className="grid gap-1">
+                                                <Label htmlFor="due_date">Invoice due date</Label>
+                                                <Input
+                                                    id="due_date"
+                                                    type="date"
+                                                    value={convertForm.data.due_date}
+                                                    onChange={(e) => convertForm.setData('due_date', e.target.value)}
+                                                />
+                                                <p className="text-xs text-muted-foreground">Leave empty for the usual 30 days.</p>
+                                                <InputError message={convertForm.errors.due_date} />
+                                            </div>
+                                            <Button className="w-full" onClick={convert} disabled={convertForm.processing}>
+                                                {convertForm.processing ? (
+                                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                                ) : (
+                                                    <ArrowRightLeft className="mr-2 h-4 w-4" />
+                                                )}
+                                                Convert to Invoice
+                                            </Button>
+                                        </div>
+                                    )}
+
+                                    {permissions.send && quotation.status === 'draft' && (
+                                        <Button
+                                            variant="outline"
+                                            className="w-full"
+                                            onClick={() => changeStatus('send')}
+                                            disabled={statusForm.processing}
+                                        >
+                                            <Send className="mr-2 h-4 w-4" />
+                                            Mark as Sent
+                                        </Button>
+                                    )}
+
+                                    {permissions.accept && (
+                                        <Button
+                                            variant="outline"
+                                            className="w-full"
+                                            onClick={() => changeStatus('accept')}
+                                            disabled={statusForm.processing}
+                                        >
+                                            <CheckCircle className="mr-2 h-4 w-4 text-green-600" />
+                                            Customer Accepted
+                                        </Button>
+                                    )}
+
+                                    {permissions.decline &&
+                                        (declining ? (
+                                            <div className="space-y-2 rounded-lg border p-3">
+                                                <Label htmlFor="decline_reason">Why did the customer decline?</Label>
+                                                <Textarea
+                                                    id="decline_reason"
+                                                    rows={2}
+                                                    value={statusForm.data.decline_reason}
+                                                    onChange={(e) => statusForm.setData('decline_reason', e.target.value)}
+                                                    placeholder="Price, timing, went elsewhere..."
+                                                />
+                                                <InputError message={statusForm.errors.decline_reason} />
+                                                <div className="flex gap-2">
+                                                    <Button variant="outline" className="flex-1" onClick={() => setDeclining(false)}>
+                                                        Cancel
+                                                    </Button>
+                                                    <Button
+                                                        variant="destructive"
+                                                        className="flex-1"
+                                                        onClick={() => changeStatus('decline')}
+                                                        disabled={statusForm.processing}
+                                                    >
+                                                        Decline
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        ) : (
+                                            <Button variant="outline" className="w-full" onClick={() => setDeclining(true)}>
+                                                <XCircle className="mr-2 h-4 w-4 text-red-600" />
+                                                Customer Declined
+                                            </Button>
+                                        ))}
+
+                                    {permissions.reopen && (
+                                        <div className="space-y-2 rounded-lg border p-3">
+                                            <Label htmlFor="valid_until">New validity date</Label>
+                                            <Input
+                                                id="valid_until"
+                                                type="date"
+                                                value={statusForm.data.valid_until}
+                                                onChange={(e) => statusForm.setData('valid_until', e.target.value)}
+                                            />
+                                            <InputError message={statusForm.errors.valid_until} />
+                                            <Button
+                                                variant="outline"
+                                                className="w-full"
+                                                onClick={() => changeStatus('reopen')}
+                                                disabled={statusForm.processing}
+                                            >
+                                                <RotateCcw className="mr-2 h-4 w-4" />
+                                                Re-open as Draft
+                                            </Button>
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        )}
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Clock className="h-5 w-5" />
+                                    History
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <ol className="relative space-y-4 border-l pl-6 text-sm">
+                                    {timeline.map((entry) => (
+                                        <li key={entry.label} className="relative">
+                                            <span className="absolute top-1 -left-[1.85rem] h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                                            <p className="font-medium">{entry.label}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {new Date(entry.at).toLocaleString()}
+                                                {entry.detail && ` · ${entry.detail}`}
+                                            </p>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
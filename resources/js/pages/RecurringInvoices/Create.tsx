@@ -0,0 +1,34 @@
+// resources/js/pages/RecurringInvoices/Create.tsx
+
+import RecurringInvoiceForm, { type RecurringInvoiceFormOptions } from '@/components/recurring-invoice-form';
+import AppLayout from '@/layouts/app-layout';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+
+interface Props extends RecurringInvoiceFormOptions {
+    default_branch_id: number | null;
+    default_customer_id: number | null;
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Recurring Invoices', href: '/recurring-invoices' },
+    { title: 'New Profile', href: '/recurring-invoices/create' },
+];
+
+export default function CreateRecurringInvoice({ default_branch_id, default_customer_id, ...options }: Props) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="New Recurring Invoice" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">New Recurring Invoice</h1>
+                    <p className="text-muted-foreground">Bill a customer on a contract automatically every period</p>
+                </div>
+
+                <RecurringInvoiceForm {...options} defaultBranchId={default_branch_id} defaultCustomerId={default_customer_id} />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,35 @@
+// resources/js/pages/RecurringInvoices/Edit.tsx
+
+import RecurringInvoiceForm, { type RecurringInvoiceFormOptions } from '@/components/recurring-invoice-form';
+import AppLayout from '@/layouts/app-layout';
+import { type RecurringInvoiceDetails } from '@/lib/recurring-invoices';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+
+interface Props extends RecurringInvoiceFormOptions {
+    profile: RecurringInvoiceDetails & { has_run: boolean };
+}
+
+export default function EditRecurringInvoice({ profile, ...options }: Props) {
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Recurring Invoices', href: '/recurring-invoices' },
+        { title: profile.name, href: route('recurring-invoices.show', profile.id) },
+        { title: 'Edit', href: route('recurring-invoices.edit', profile.id) },
+    ];
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={`Edit ${profile.name}`} />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Edit {profile.name}</h1>
+                    <p className="text-muted-foreground">Changes apply from the next generated invoice; earlier invoices are not touched</p>
+                </div>
+
+                <RecurringInvoiceForm {...options} profile={profile} />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,401 @@
+// resources/js/pages/RecurringInvoices/Index.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { formatRunDate, statusBadgeClass, type RecurringPeriod, type RecurringStatus } from '@/lib/recurring-invoices';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { AlertTriangle, CalendarClock, Eye, Filter, PauseCircle, PlayCircle, Plus, Repeat, Search, Send, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface ProfileRow {
+    id: number;
+    name: string;
+    recurring_period: RecurringPeriod;
+    period_label: string;
+    status: RecurringStatus;
+    status_label: string;
+    next_run_date: string | null;
+    end_date: string | null;
+    auto_send: boolean;
+    last_error: string | null;
+    invoices_count: number;
+    items_count: number;
+    customer: { id: number; name: string; phone: string | null } | null;
+    branch: { id: number; name: string } | null;
+}
+
+interface UpcomingRun {
+    profile_id: number;
+    profile_name: string;
+    customer_name: string | null;
+    run_date: string;
+    estimated_amount: number;
+    auto_send: boolean;
+}
+
+interface Filters {
+    search?: string | null;
+    status?: string | null;
+    recurring_period?: string | null;
+    branch_id?: string | number | null;
+}
+
+interface Props {
+    profiles: {
+        data: ProfileRow[];
+        current_page: number;
+        last_page: number;
+        per_page: number;
+        total: number;
+        from: number | null;
+        to: number | null;
+    };
+    upcoming: UpcomingRun[];
+    filters: Filters;
+    stats: {
+        active: number;
+        paused: number;
+        due_this_week: number;
+        failing: number;
+    };
+    branches: { id: number; name: string }[];
+    periods: Record<string, string>;
+    statuses: Record<string, string>;
+    permissions: {
+        manage: boolean;
+        view_all_branches: boolean;
+    };
+}
+
+const selectClass = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm';
+
+const money = (value: number) => `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Recurring Invoices', href: '/recurring-invoices' },
+];
+
+export default function RecurringInvoicesIndex({ profiles, upcoming, filters, stats, branches, periods, statuses, permissions }: Props) {
+    const [currentFilters, setCurrentFilters] = useState<Filters>(filters);
+    const [search, setSearch] = useState(filters.search ?? '');
+
+    const applyFilters = (newFilters: Partial<Filters>, page?: number) => {
+        const updated = { ...currentFilters, ...newFilters };
+        setCurrentFilters(updated);
+
+        const cleanFilters = Object.fromEntries(
+            Object.entries({ ...updated, page }).filter(([, value]) => value !== '' && value !== null && value !== undefined),
+        );
+
+        router.get(route('recurring-invoices.index'), cleanFilters, {
+            preserveState: true,
+            preserveScroll: true,
+        });
+    };
+
+    const clearFilters = () => {
+        setSearch('');
+        setCurrentFilters({});
+        router.get(route('recurring-invoices.index'), {}, { preserveState: true, preserveScroll: true });
+    };
+
+    const hasActiveFilters = Object.entries(currentFilters).some(
+        ([key, value]) => value !== '' && value !== null && value !== undefined && !(key === 'branch_id' && !permissions.view_all_branches),
+    );
+
+    const upcomingTotal = upcoming.reduce((sum, run) => sum + Number(run.estimated_amount), 0);
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Recurring Invoices" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Recurring Invoices</h1>
+                        <p className="text-muted-foreground">Contracts billed automatically every week, month, quarter or year</p>
+                    </div>
+                    {permissions.manage && (
+                        <Button asChild>
+                            <Link href={route('recurring-invoices.create')}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                New Profile
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                    {[
+                        { label: 'Active', value: stats.active, icon: PlayCircle, className: 'text-green-600' },
+                        { label: 'Paused', value: stats.paused, icon: PauseCircle, className: 'text-yellow-600' },
+                        { label: 'Due in 7 Days', value: stats.due_this_week, icon: CalendarClock, className: 'text-blue-600' },
+                        { label: 'Failing', value: stats.failing, icon: AlertTriangle, className: stats.failing > 0 ? 'text-red-600' : '' },
+                    ].map((stat) => (
+                        <Card key={stat.label}>
+                            <CardContent className="flex items-center justify-between p-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">{stat.label}</p>
+                                    <p className={`text-xl font-bold ${stat.className}`}>{stat.value}</p>
+                                </div>
+                                <stat.icon className={`h-6 w-6 ${stat.className || 'text-muted-foreground'}`} />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarClock className="h-5 w-5" />
+                            Upcoming Runs
+                        </CardTitle>
+                        <CardDescription>
+                            Invoices scheduled in the next 30 days · about {money(upcomingTotal)} before weight charges and tax
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {upcoming.length === 0 ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">Nothing is scheduled in the next 30 days.</p>
+                        ) : (
+                            <div className="divide-y">
+                                {upcoming.map((run) => (
+                                    <div key={`${run.profile_id}-${run.run_date}`} className="flex items-center justify-between py-2 text-sm">
+                                        <div className="flex items-center gap-4">
+                                            <span className="w-36 font-medium">{formatRunDate(run.run_date)}</span>
+                                            <div>
+                                                <Link href={route('recurring-invoices.show', run.profile_id)} className="hover:underline">
+                                                    {run.profile_name}
+                                                </Link>
+                                                <p className="text-xs text-muted-foreground">{run.customer_name ?? '—'}</p>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-3">
+                                            {run.auto_send && (
+                                                <span className="flex items-center text-xs text-muted-foreground">
+                                                    <Send className="mr-1 h-3 w-3" />
+                                                    Auto-send
+                                                </span>
+                                            )}
+                                            <span className="font-medium">{money(run.estimated_amount)}</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-center justify-between">
+                            <CardTitle className="flex items-center gap-2">
+                                <Filter className="h-5 w-5" />
+                                Filters
+                            </CardTitle>
+                            {hasActiveFilters && (
+                                <Button variant="ghost" size="sm" onClick={clearFilters}>
+                                    <X className="mr-2 h-4 w-4" />
+                                    Clear
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                applyFilters({ search });
+                            }}
+                            className="flex gap-2"
+                        >
+                            <div className="relative flex-1">
+                                <Search className="absolute top-2.5 left-2 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                    placeholder="Search profile or customer name..."
+                                    className="pl-8"
+                                />
+                            </div>
+                            <Button type="submit">Search</Button>
+                        </form>
+
+                        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                            <div className="grid gap-1">
+                                <Label htmlFor="status">Status</Label>
+                                <select
+                                    id="status"
+                                    value={currentFilters.status ?? ''}
+                                    onChange={(e) => applyFilters({ status: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All statuses</option>
+                                    {Object.entries(statuses).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="grid gap-1">
+                                <Label htmlFor="recurring_period">Period</Label>
+                                <select
+                                    id="recurring_period"
+                                    value={currentFilters.recurring_period ?? ''}
+                                    onChange={(e) => applyFilters({ recurring_period: e.target.value })}
+                                    className={selectClass}
+                                >
+                                    <option value="">All periods</option>
+                                    {Object.entries(periods).map(([value, label]) => (
+                                        <option key={value} value={value}>
+                                            {label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {permissions.view_all_branches && (
+                                <div className="grid gap-1">
+                                    <Label htmlFor="branch_id">Branch</Label>
+                                    <select
+                                        id="branch_id"
+                                        value={currentFilters.branch_id ?? ''}
+                                        onChange={(e) => applyFilters({ branch_id: e.target.value })}
+                                        className={selectClass}
+                                    >
+                                        <option value="">All branches</option>
+                                        {branches.map((branch) => (
+                                            <option key={branch.id} value={branch.id}>
+                                                {branch.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b bg-muted/50 text-left">
+                                        <th className="p-3">Profile</th>
+                                        <th className="p-3">Customer</th>
+                                        <th className="p-3">Period</th>
+                                        <th className="p-3">Next Run</th>
+                                        <th className="p-3">Status</th>
+                                        <th className="p-3 text-right">Invoices</th>
+                                        <th className="p-3 text-right">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {profiles.data.length === 0 ? (
+                                        <tr>
+                                            <td colSpan={7} className="p-12 text-center text-muted-foreground">
+                                                <Repeat className="mx-auto mb-4 h-12 w-12" />
+                                                No recurring invoices found
+                                            </td>
+                                        </tr>
+                                    ) : (
+                                        profiles.data.map((profile) => (
+                                            <tr key={profile.id} className="border-b last:border-b-0 hover:bg-muted/30">
+                                                <td className="p-3">
+                                                    <Link href={route('recurring-invoices.show', profile.id)} className="font-medium hover:underline">
+                                                        {profile.name}
+                                                    </Link>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {profile.items_count} {profile.items_count === 1 ? 'item' : 'items'}
+                                                        {profile.branch && ` · ${profile.branch.name}`}
+                                                        {profile.auto_send && ' · Auto-send'}
+                                                    </p>
+                                                </td>
+                                                <td className="p-3">
+                                                    {profile.customer?.name ?? '—'}
+                                                    {profile.customer?.phone && (
+                                                        <p className="text-xs text-muted-foreground">{profile.customer.phone}</p>
+                                                    )}
+                                                </td>
+                                                <td className="p-3">
+                                                    {profile.period_label}
+                                                    {profile.end_date && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            until {new Date(profile.end_date).toLocaleDateString()}
+                                                        </p>
+                                                    )}
+                                                </td>
+                                                <td className="p-3">
+                                                    {profile.status === 'active' && profile.next_run_date
+                                                        ? formatRunDate(profile.next_run_date)
+                                                        : '—'}
+                                                    {profile.last_error && (
+                                                        <p className="flex items-center text-xs text-red-600" title={profile.last_error}>
+                                                            <AlertTriangle className="mr-1 h-3 w-3" />
+                                                            Last run failed
+                                                        </p>
+                                                    )}
+                                                </td>
+                                                <td className="p-3">
+                                                    <Badge className={statusBadgeClass(profile.status)}>{profile.status_label}</Badge>
+                                                </td>
+                                                <td className="p-3 text-right">{profile.invoices_count}</td>
+                                                <td className="p-3">
+                                                    <div className="flex justify-end">
+                                                        <Button variant="ghost" size="sm" asChild>
+                                                            <Link href={route('recurring-invoices.show', profile.id)}>
+                                                                <Eye className="h-4 w-4" />
+                                                            </Link>
+                                                        </Button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        ))
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {profiles.last_page > 1 && (
+                            <div className="flex items-center justify-between border-t p-4 text-sm text-muted-foreground">
+                                <div>
+                                    Showing {profiles.from ?? 0} to {profiles.to ?? 0} of {profiles.total} profiles
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={profiles.current_page === 1}
+                                        onClick={() => applyFilters({}, profiles.current_page - 1)}
+                                    >
+                                        ← Previous
+                                    </Button>
+                                    <span className="px-2 py-1">
+                                        Page {profiles.current_page} of {profiles.last_page}
+                                    </span>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        disabled={profiles.current_page === profiles.last_page}
+                                        onClick={() => applyFilters({}, profiles.current_page + 1)}
+                                    >
+                                        Next →
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,430 @@
+// resources/js/pages/RecurringInvoices/Show.tsx
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { formatRunDate, statusBadgeClass, type RecurringInvoiceDetails, type RecurringStatus } from '@/lib/recurring-invoices';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router, usePage } from '@inertiajs/react';
+import {
+    AlertTriangle,
+    ArrowLeft,
+    CalendarClock,
+    Edit,
+    FileText,
+    Loader2,
+    Package,
+    PauseCircle,
+    PlayCircle,
+    Send,
+    Trash2,
+    User,
+    Zap,
+} from 'lucide-react';
+import { useState } from 'react';
+
+interface GeneratedInvoice {
+    id: number;
+    invoice_number: string;
+    invoice_date: string;
+    due_date: string;
+    total_amount: number;
+    status: string;
+    payment_status: string;
+}
+
+interface Props {
+    profile: RecurringInvoiceDetails & {
+        period_label: string;
+        status: RecurringStatus;
+        status_label: string;
+        next_run_date: string | null;
+        last_run_at: string | null;
+        last_error: string | null;
+        created_at: string | null;
+        created_by: string | null;
+        estimated_amount: number;
+        customer: { id: number; name: string; customer_code: string | null; phone: string | null; email: string | null } | null;
+        branch: { id: number; name: string; code: string } | null;
+    };
+    upcomingRuns: string[];
+    invoices: {
+        data: GeneratedInvoice[];
+        current_page: number;
+        last_page: number;
+        total: number;
+    };
+    permissions: {
+        manage: boolean;
+        edit: boolean;
+        pause: boolean;
+        resume: boolean;
+        generate: boolean;
+    };
+}
+
+const money = (value: number) => `Rs. ${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const paymentBadgeClass = (status: string) => {
+    switch (status) {
+        case 'paid':
+            return 'bg-green-100 text-green-800';
+        case 'partially_paid':
+            return 'bg-yellow-100 text-yellow-800';
+        case 'credited':
+            return 'bg-gray-100 text-gray-800';
+        case 'refunded':
+            return 'bg-purple-100 text-purple-800';
+        default:
+            return 'bg-red-100 text-red-800';
+    }
+};
+
+export default function ShowRecurringInvoice({ profile, upcomingRuns, invoices, permissions }: Props) {
+    const { errors } = usePage().props as { errors: Record<string, string> };
+    const [processing, setProcessing] = useState(false);
+
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Recurring Invoices', href: '/recurring-invoices' },
+        { title: profile.name, href: route('recurring-invoices.show', profile.id) },
+    ];
+
+    const changeStatus = (action: 'pause' | 'resume') => {
+        router.patch(
+            route('recurring-invoices.update-status', profile.id),
+            { action },
+            { preserveScroll: true, onStart: () => setProcessing(true), onFinish: () => setProcessing(false) },
+        );
+    };
+
+    const generateNow = () => {
+        if (
+            profile.next_run_date &&
+            confirm(`Generate the ${formatRunDate(profile.next_run_date)} invoice now instead of waiting for the scheduled run?`)
+        ) {
+            router.post(
+                route('recurring-invoices.generate', profile.id),
+                {},
+                { onStart: () => setProcessing(true), onFinish: () => setProcessing(false) },
+            );
+        }
+    };
+
+    const handleDelete = () => {
+        if (confirm(`Delete "${profile.name}"? Invoices it already generated are kept.`)) {
+            router.delete(route('recurring-invoices.destroy', profile.id));
+        }
+    };
+
+    const showInvoicesPage = (page: number) => {
+        router.get(route('recurring-invoices.show', profile.id), { page }, { preserveState: true, preserveScroll: true, only: ['invoices'] });
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={profile.name} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <div className="flex items-center gap-3">
+                            <h1 className="text-3xl font-bold tracking-tight">{profile.name}</h1>
+                            <Badge className={statusBadgeClass(profile.status)}>{profile.status_label}</Badge>
+                        </div>
+                        <p className="text-muted-foreground">
+                            {profile.period_label} from {formatDate(profile.start_date)}
+                            {profile.end_date ? ` until ${formatDate(profile.end_date)}` : ''}
+                            {profile.branch && ` · ${profile.branch.name}`}
+                        </p>
+                    </div>
+                    <div className="flex gap-2">
+                        {permissions.generate && (
+                            <Button onClick={generateNow} disabled={processing}>
+                                {processing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Zap className="mr-2 h-4 w-4" />}
+                                Generate Now
+                            </Button>
+                        )}
+                        {permissions.pause && (
+                            <Button variant="outline" onClick={() => changeStatus('pause')} disabled={processing}>
+                                <PauseCircle className="mr-2 h-4 w-4" />
+                                Pause
+                            </Button>
+                        )}
+                        {permissions.resume && (
+                            <Button variant="outline" onClick={() => changeStatus('resume')} disabled={processing}>
+                                <PlayCircle className="mr-2 h-4 w-4" />
+                                Resume
+                            </Button>
+                        )}
+                        {permissions.edit && (
+                            <Button variant="outline" asChild>
+                                <Link href={route('recurring-invoices.edit', profile.id)}>
+                                    <Edit className="mr-2 h-4 w-4" />
+                                    Edit
+                                </Link>
+                            </Button>
+                        )}
+                        {permissions.manage && (
+                            <Button variant="outline" onClick={handleDelete}>
+                                <Trash2 className="mr-2 h-4 w-4 text-red-600" />
+                                Delete
+                            </Button>
+                        )}
+                        <Button variant="outline" asChild>
+                            <Link href={route('recurring-invoices.index')}>
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back
+                            </Link>
+                        </Button>
+                    </div>
+                </div>
+
+                {errors.error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{errors.error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {profile.last_error && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                            The last scheduled run failed: {profile.last_error}. It will be retried on the next daily run.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <div className="space-y-6 lg:col-span-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <User className="h-5 w-5" />
+                                    Customer
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-1 text-sm">
+                                {profile.customer ? (
+                                    <>
+                                        <Link href={route('customers.show', profile.customer.id)} className="font-medium hover:underline">
+                                            {profile.customer.name}
+                                        </Link>
+                                        {profile.customer.customer_code && <p className="text-muted-foreground">{profile.customer.customer_code}</p>}
+                                        {profile.customer.phone && <p>{profile.customer.phone}</p>}
+                                        {profile.customer.email && <p>{profile.customer.email}</p>}
+                                    </>
+                                ) : (
+                                    <p className="text-muted-foreground">Customer not found</p>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Package className="h-5 w-5" />
+                                    Items Billed Each Run
+                                </CardTitle>
+                                <CardDescription>
+                                    Payment due {profile.payment_terms_days} days after each invoice date
+                                    {profile.discount_amount > 0 && ` · ${money(profile.discount_amount)} discount per invoice`}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b bg-muted/50 text-left">
+                                            <th className="p-3">Item</th>
+                                            <th className="p-3 text-right">Qty</th>
+                                            <th className="p-3 text-right">Unit Price</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {profile.items.map((item) => (
+                                            <tr key={item.id} className="border-b last:border-b-0">
+                                                <td className="p-3">
+                                                    {item.item_description}
+                                                    {typeof item.specifications?.notes === 'string' && (
+                                                        <p className="text-xs text-muted-foreground">{item.specifications.notes}</p>
+                                                    )}
+                                                </td>
+                                                <td className="p-3 text-right">
+                                                    {Number(item.quantity)} {item.unit_type}
+                                                </td>
+                                                <td className="p-3 text-right">
+                                                    {item.unit_price === null ? (
+                                                        <span className="text-muted-foreground">Current price</span>
+                                                    ) : (
+                                                        money(item.unit_price)
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <div className="flex justify-between border-t p-3 text-sm font-medium">
+                                    <span>Estimated per run (before weight charges and tax)</span>
+                                    <span>{money(profile.estimated_amount)}</span>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <FileText className="h-5 w-5" />
+                                    Generated Invoices
+                                </CardTitle>
+                                <CardDescription>
+                                    {invoices.total} {invoices.total === 1 ? 'invoice' : 'invoices'} generated from this profile
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="p-0">
+                                {invoices.data.length === 0 ? (
+                                    <p className="p-6 text-center text-sm text-muted-foreground">No invoices have been generated yet.</p>
+                                ) : (
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="border-b bg-muted/50 text-left">
+                                                <th className="p-3">Invoice #</th>
+                                                <th className="p-3">Date</th>
+                                                <th className="p-3">Due</th>
+                                                <th className="p-3">Payment</th>
+                                                <th className="p-3 text-right">Total</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {invoices.data.map((invoice) => (
+                                                <tr key={invoice.id} className="border-b last:border-b-0 hover:bg-muted/30">
+                                                    <td className="p-3">
+                                                        <Link
+                                                            href={route('invoices.show', invoice.id)}
+                                                            className="font-mono font-medium hover:underline"
+                                                        >
+                                                            {invoice.invoice_number}
+                                                        </Link>
+                                                        <p className="text-xs text-muted-foreground capitalize">{invoice.status}</p>
+                                                    </td>
+                                                    <td className="p-3">{formatDate(invoice.invoice_date)}</td>
+                                                    <td className="p-3">{formatDate(invoice.due_date)}</td>
+                                                    <td className="p-3">
+                                                        <Badge className={paymentBadgeClass(invoice.payment_status)}>
+                                                            {invoice.payment_status.replace('_', ' ')}
+                                                        </Badge>
+                                                    </td>
+                                                    <td className="p-3 text-right font-medium">{money(invoice.total_amount)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                )}
+
+                                {invoices.last_page > 1 && (
+                                    <div className="flex items-center justify-end gap-2 border-t p-3 text-sm text-muted-foreground">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={invoices.current_page === 1}
+                                            onClick={() => showInvoicesPage(invoices.current_page - 1)}
+                                        >
+                                            ← Previous
+                                        </Button>
+                                        <span className="px-2 py-1">
+                                            Page {invoices.current_page} of {invoices.last_page}
+                                        </span>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={invoices.current_page === invoices.last_page}
+                                            onClick={() => showInvoicesPage(invoices.current_page + 1)}
+                                        >
+                                            Next →
+                                        </Button>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <CalendarClock className="h-5 w-5" />
+                                    Upcoming Runs
+                                </CardTitle>
+                                <CardDescription>
+                                    {profile.auto_send ? (
+                                        <span className="flex items-center">
+                                            <Send className="mr-1 h-3 w-3" />
+                                            Invoices are issued and emailed to the customer as soon as they are generated
+                                        </span>
+                                    ) : (
+                                        'Invoices are generated as drafts for review'
+                                    )}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {upcomingRuns.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">
+                                        {profile.status === 'paused'
+                                            ? 'Paused. Resume the profile to schedule further invoices.'
+                                            : 'No further invoices are scheduled.'}
+                                    </p>
+                                ) : (
+                                    <ul className="space-y-2 text-sm">
+                                        {upcomingRuns.map((date, index) => (
+                                            <li key={date} className="flex items-center justify-between">
+                                                <span className={index === 0 ? 'font-medium' : ''}>{formatRunDate(date)}</span>
+                                                {index === 0 && <Badge variant="outline">Next</Badge>}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Details</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-2 text-sm">
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Last run</span>
+                                    <span>{profile.last_run_at ? new Date(profile.last_run_at).toLocaleString() : 'Never'}</span>
+                                </div>
+                                {profile.created_at && (
+                                    <div className="flex justify-between">
+                                        <span className="text-muted-foreground">Created</span>
+                                        <span>
+                                            {formatDate(profile.created_at)}
+                                            {profile.created_by && ` by ${profile.created_by}`}
+                                        </span>
+                                    </div>
+                                )}
+                                {profile.notes && (
+                                    <div className="border-t pt-2">
+                                        <p className="text-muted-foreground">Notes</p>
+                                        <p className="whitespace-pre-line">{profile.notes}</p>
+                                    </div>
+                                )}
+                                {profile.terms_conditions && (
+                                    <div className="border-t pt-2">
+                                        <p className="text-muted-foreground">Terms & conditions</p>
+                                        <p className="whitespace-pre-line">{profile.terms_conditions}</p>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,166 @@
+// resources/js/pages/Reports/Delivery.tsx
+
+import ReportBarChart from '@/components/report-bar-chart';
+import ReportBreakdown from '@/components/report-breakdown';
+import ReportFilters from '@/components/report-filters';
+import ReportStatCard from '@/components/report-stat-card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { breakdownFromCounts, formatCurrency, formatPercent, shortDate, type ReportPageProps } from '@/lib/reports';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+import { CheckCircle, Clock, Truck, XCircle } from 'lucide-react';
+
+interface Props extends ReportPageProps {
+    summary: {
+        total: number;
+        delivered: number;
+        failed: number;
+        cancelled: number;
+        in_progress: number;
+        success_rate: number | null;
+        on_time_rate: number | null;
+        failed_attempts: number;
+        delivery_cost: number;
+    };
+    trend: { date: string; created: number; delivered: number }[];
+    byStatus: Record<string, number>;
+    byMethod: Record<string, number>;
+    byRider: {
+        name: string;
+        assigned: number;
+        delivered: number;
+        failed: number;
+        attempts: number;
+        success_rate: number | null;
+        on_time_rate: number | null;
+    }[];
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Reports', href: '/reports' },
+    { title: 'Delivery', href: '/reports/delivery' },
+];
+
+export default function DeliveryReport({ summary, trend, byStatus, byMethod, byRider, filters, branches }: Props) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Delivery Report" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Delivery Report</h1>
+                    <p className="text-muted-foreground">Deliveries arranged in the period and how they turned out</p>
+                </div>
+
+                <ReportFilters routeName="reports.delivery" filters={filters} branches={branches} />
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                    <ReportStatCard
+                        title="Delivered"
+                        value={summary.delivered}
+                        description={`${summary.total} arranged, ${summary.in_progress} still out`}
+                        icon={Truck}
+                    />
+                    <ReportStatCard
+                        title="Success Rate"
+                        value={formatPercent(summary.success_rate)}
+                        description={`${summary.failed} failed or returned`}
+                        icon={CheckCircle}
+                        iconClassName="text-green-600"
+                    />
+                    <ReportStatCard
+                        title="On Time"
+                        value={formatPercent(summary.on_time_rate)}
+                        description="Delivered by the estimated date"
+                        icon={Clock}
+                        iconClassName="text-purple-600"
+                    />
+                    <ReportStatCard
+                        title="Failed Attempts"
+                        value={summary.failed_attempts}
+                        description={`Delivery cost ${formatCurrency(summary.delivery_cost)}`}
+                        icon={XCircle}
+                        iconClassName="text-red-600"
+                    />
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Deliveries per Day</CardTitle>
+                        <CardDescription>By the day the delivery was arranged</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <ReportBarChart
+                            data={trend}
+                            labelKey="date"
+                            series={[
+                                { key: 'created', label: 'Arranged', color: '#94A3B8' },
+                                { key: 'delivered', label: 'Delivered', color: '#10B981' },
+                            ]}
+                            formatLabel={shortDate}
+                        />
+                    </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Status</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown items={breakdownFromCounts(byStatus)} />
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Delivery Method</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown items={breakdownFromCounts(byMethod).map((item) => ({ ...item, color: '#F59E0B' }))} />
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Rider Performance</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {byRider.length === 0 ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">No deliveries were assigned to riders in this period</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-muted-foreground">
+                                        <th className="py-2 font-medium">Rider</th>
+                                        <th className="py-2 text-right font-medium">Assigned</th>
+                                        <th className="py-2 text-right font-medium">Delivered</th>
+                                        <th className="py-2 text-right font-medium">Failed</th>
+                                        <th className="py-2 text-right font-medium">Failed Attempts</th>
+                                        <th className="py-2 text-right font-medium">Success</th>
+                                        <th className="py-2 text-right font-medium">On Time</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {byRider.map((rider) => (
+                                        <tr key={rider.name} className="border-b last:border-0">
+                                            <td className="py-2">{rider.name}</td>
+                                            <td className="py-2 text-right">{rider.assigned}</td>
+                                            <td className="py-2 text-right font-medium">{rider.delivered}</td>
+                                            <td className="py-2 text-right">{rider.failed}</td>
+                                            <td className="py-2 text-right">{rider.attempts}</td>
+                                            <td className="py-2 text-right">{formatPercent(rider.success_rate)}</td>
+                                            <td className="py-2 text-right">{formatPercent(rider.on_time_rate)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,176 @@
+// resources/js/pages/Reports/Financial.tsx
+
+import ReportBarChart from '@/components/report-bar-chart';
+import ReportBreakdown from '@/components/report-breakdown';
+import ReportFilters from '@/components/report-filters';
+import ReportStatCard from '@/components/report-stat-card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { formatCurrency, formatPercent, type ReportPageProps } from '@/lib/reports';
+import { BreadcrumbItem } from '@/types';
+import { Head } from '@inertiajs/react';
+import { AlertTriangle, Banknote, Receipt, Scale, Wallet } from 'lucide-react';
+
+interface Props extends ReportPageProps {
+    summary: {
+        invoiced: number;
+        collected: number;
+        expenses: number;
+        net_cash_flow: number;
+        margin: number | null;
+        tax_invoiced: number;
+        discounts_given: number;
+    };
+    months: { month: string; label: string; invoiced: number; collected: number; expenses: number; net: number }[];
+    receivables: {
+        invoice_count: number;
+        outstanding: number;
+        overdue_count: number;
+        overdue_amount: number;
+    };
+    expensesByCategory: { id: number; name: string; color: string | null; expense_count: number; total_amount: number }[];
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Reports', href: '/reports' },
+    { title: 'Financial', href: '/reports/financial' },
+];
+
+export default function FinancialReport({ summary, months, receivables, expensesByCategory, filters, branches }: Props) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Financial Report" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Financial Report</h1>
+                    <p className="text-muted-foreground">Cash collected against approved and paid expenses</p>
+                </div>
+
+                <ReportFilters routeName="reports.financial" filters={filters} branches={branches} />
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                    <ReportStatCard title="Invoiced" value={formatCurrency(summary.invoiced)} icon={Receipt} />
+                    <ReportStatCard title="Collected" value={formatCurrency(summary.collected)} icon={Banknote} iconClassName="text-green-600" />
+                    <ReportStatCard title="Expenses" value={formatCurrency(summary.expenses)} icon={Wallet} iconClassName="text-red-600" />
+                    <ReportStatCard
+                        title="Net Cash Flow"
+                        value={formatCurrency(summary.net_cash_flow)}
+                        description={`Margin ${formatPercent(summary.margin)}`}
+                        icon={Scale}
+                        iconClassName={summary.net_cash_flow < 0 ? 'text-red-600' : 'text-green-600'}
+                    />
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Monthly Cash Flow</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <ReportBarChart
+                            data={months}
+                            labelKey="label"
+                            series={[
+                                { key: 'invoiced', label: 'Invoiced', color: '#94A3B8' },
+                                { key: 'collected', label: 'Collected', color: '#10B981' },
+                                { key: 'expenses', label: 'Expenses', color: '#EF4444' },
+                            ]}
+                            formatValue={formatCurrency}
+                            height={240}
+                        />
+                    </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <Card className="lg:col-span-2">
+                        <CardHeader>
+                            <CardTitle>Expenses by Category</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown
+                                items={expensesByCategory.map((category) => ({
+                                    label: category.name,
+                                    value: category.total_amount,
+                                    detail: `${category.expense_count} expenses`,
+                                    color: category.color ?? '#EF4444',
+                                }))}
+                                formatValue={formatCurrency}
+                                emptyMessage="No approved or paid expenses in this period"
+                            />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <AlertTriangle className="h-5 w-5 text-orange-600" />
+                                Receivables
+                            </CardTitle>
+                            <CardDescription>Everything still owed today, not only this period</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <dl className="grid grid-cols-2 gap-y-2 text-sm">
+                                <dt className="text-muted-foreground">Outstanding</dt>
+                                <dd className="text-right font-medium">{formatCurrency(receivables.outstanding)}</dd>
+                                <dt className="text-muted-foreground">Open invoices</dt>
+                                <dd className="text-right">{receivables.invoice_count}</dd>
+                                <dt className="text-muted-foreground">Overdue</dt>
+                                <dd className="text-right text-red-600">{formatCurrency(receivables.overdue_amount)}</dd>
+                                <dt className="text-muted-foreground">Overdue invoices</dt>
+                                <dd className="text-right">{receivables.overdue_count}</dd>
+                                <dt className="border-t pt-2 text-muted-foreground">Tax invoiced</dt>
+                                <dd className="border-t pt-2 text-right">{formatCurrency(summary.tax_invoiced)}</dd>
+                                <dt className="text-muted-foreground">Discounts given</dt>
+                                <dd className="text-right">{formatCurrency(summary.discounts_given)}</dd>
+                            </dl>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Month by Month</CardTitle>
+                    </CardHeader>
+                    <CardContent className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b text-left text-muted-foreground">
+                                    <th className="py-2 font-medium">Month</th>
+                                    <th className="py-2 text-right font-medium">Invoiced</th>
+                                    <th className="py-2 text-right font-medium">Collected</th>
+                                    <th className="py-2 text-right font-medium">Expenses</th>
+                                    <th className="py-2 text-right font-medium">Net</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {months.map((month) => (
+                                    <tr key={month.month} className="border-b">
+                                        <td className="py-2">{month.label}</td>
+                                        <td className="py-2 text-right">{formatCurrency(month.invoiced)}</td>
+                                        <td className="py-2 text-right">{formatCurrency(month.collected)}</td>
+                                        <td className="py-2 text-right">{formatCurrency(month.expenses)}</td>
+                                        <td className={`py-2 text-right font-medium ${month.net < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                                            {formatCurrency(month.net)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr className="font-medium">
+                                    <td className="py-2">Total</td>
+                                    <td className="py-2 text-right">{formatCurrency(summary.invoiced)}</td>
+                                    <td className="py-2 text-right">{formatCurrency(summary.collected)}</td>
+                                    <td className="py-2 text-right">{formatCurrency(summary.expenses)}</td>
+                                    <td className={`py-2 text-right ${summary.net_cash_flow < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                                        {formatCurrency(summary.net_cash_flow)}
+                                    </td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
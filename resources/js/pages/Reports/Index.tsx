@@ -0,0 +1,125 @@
+// resources/js/pages/Reports/Index.tsx
+
+import ReportFilters from '@/components/report-filters';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { formatCurrency, type ReportPageProps } from '@/lib/reports';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link } from '@inertiajs/react';
+import { ArrowRight, CreditCard, Factory, Landmark, LucideIcon, TrendingUp, Truck } from 'lucide-react';
+
+interface Props extends ReportPageProps {
+    overview: {
+        sales: { total_sales: number; invoice_count: number };
+        payments: { total_collected: number; payment_count: number };
+        production: { jobs_created: number; jobs_completed: number };
+        delivery: { total: number; delivered: number };
+        financial: { expenses: number; net_cash_flow: number } | null;
+    };
+    permissions: {
+        financial: boolean;
+    };
+}
+
+interface ReportLink {
+    title: string;
+    description: string;
+    routeName: string;
+    icon: LucideIcon;
+    headline: string;
+    detail: string;
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Reports', href: '/reports' },
+];
+
+export default function ReportsIndex({ overview, permissions, filters, branches }: Props) {
+    // Keep the chosen period when opening a report
+    const query = { start_date: filters.start_date, end_date: filters.end_date, branch_id: filters.branch_id ?? undefined };
+
+    const reports: ReportLink[] = [
+        {
+            title: 'Sales',
+            description: 'Invoiced sales, paid income, top customers and products',
+            routeName: 'reports.sales',
+            icon: TrendingUp,
+            headline: formatCurrency(overview.sales.total_sales),
+            detail: `${overview.sales.invoice_count} invoices`,
+        },
+        {
+            title: 'Payments',
+            description: 'Collections by day and method, verification backlog',
+            routeName: 'reports.payments',
+            icon: CreditCard,
+            headline: formatCurrency(overview.payments.total_collected),
+            detail: `${overview.payments.payment_count} completed payments`,
+        },
+        {
+            title: 'Production',
+            description: 'Job volume, turnaround time and staff throughput',
+            routeName: 'reports.production',
+            icon: Factory,
+            headline: `${overview.production.jobs_completed} completed`,
+            detail: `${overview.production.jobs_created} jobs opened`,
+        },
+        {
+            title: 'Delivery',
+            description: 'Delivery outcomes, on-time rate and rider performance',
+            routeName: 'reports.delivery',
+            icon: Truck,
+            headline: `${overview.delivery.delivered} delivered`,
+            detail: `${overview.delivery.total} deliveries arranged`,
+        },
+    ];
+
+    if (permissions.financial && overview.financial) {
+        reports.push({
+            title: 'Financial',
+            description: 'Invoiced vs collected vs spent, receivables and expense breakdown',
+            routeName: 'reports.financial',
+            icon: Landmark,
+            headline: formatCurrency(overview.financial.net_cash_flow),
+            detail: `Net of ${formatCurrency(overview.financial.expenses)} expenses`,
+        });
+    }
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Reports" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+                    <p className="text-muted-foreground">How the business is doing for the selected period</p>
+                </div>
+
+                <ReportFilters routeName="reports.index" filters={filters} branches={branches} />
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-3">
+                    {reports.map((report) => (
+                        <Link key={report.routeName} href={route(report.routeName, query)} className="group">
+                            <Card className="h-full transition-colors group-hover:border-primary">
+                                <CardHeader>
+                                    <CardTitle className="flex items-center justify-between">
+                                        <span className="flex items-center gap-2">
+                                            <report.icon className="h-5 w-5" />
+                                            {report.title}
+                                        </span>
+                                        <ArrowRight className="h-4 w-4 text-muted-foreground transition-transform group-hover:translate-x-1" />
+                                    </CardTitle>
+                                    <CardDescription>{report.description}</CardDescription>
+                                </CardHeader>
+                                <CardContent>
+                                    <p className="text-2xl font-bold">{report.headline}</p>
+                                    <p className="text-sm text-muted-foreground">{report.detail}</p>
+                                </CardContent>
+                            </Card>
+                        </Link>
+                    ))}
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
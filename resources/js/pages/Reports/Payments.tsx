@@ -0,0 +1,209 @@
+// resources/js/pages/Reports/Payments.tsx
+
+import ReportBarChart from '@/components/report-bar-chart';
+import ReportBreakdown from '@/components/report-breakdown';
+import ReportFilters from '@/components/report-filters';
+import ReportStatCard from '@/components/report-stat-card';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { formatCurrency, humanize, shortDate, type ReportPageProps } from '@/lib/reports';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link } from '@inertiajs/react';
+import { Banknote, CalendarCheck, Clock, XCircle } from 'lucide-react';
+
+interface Props extends ReportPageProps {
+    statistics: {
+        total_payments: number;
+        total_amount: number;
+        pending_verification: number;
+        verified_payments: number;
+        rejected_payments: number;
+        pending_amount: number;
+        completed_amount: number;
+    };
+    today: {
+        date: string;
+        total_transactions: number;
+        total_amount: number;
+        cash_amount: number;
+        bank_transfer_amount: number;
+        online_amount: number;
+        pending_verification: number;
+        verified_count: number;
+    };
+    trend: { date: string; payment_count: number; total_amount: number }[];
+    byMethod: { payment_method: string; payment_count: number; total_amount: number }[];
+    payments: {
+        id: number;
+        payment_reference: string;
+        payment_date: string | null;
+        amount: number;
+        payment_method: string;
+        status: string;
+        verification_status: string;
+        invoice: { id: number; invoice_number: string } | null;
+        customer: string | null;
+        branch: string | null;
+    }[];
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Reports', href: '/reports' },
+    { title: 'Payments', href: '/reports/payments' },
+];
+
+const statusClass: Record<string, string> = {
+    completed: 'bg-green-100 text-green-800',
+    pending: 'bg-yellow-100 text-yellow-800',
+    processing: 'bg-blue-100 text-blue-800',
+    failed: 'bg-red-100 text-red-800',
+    cancelled: 'bg-gray-100 text-gray-800',
+    refunded: 'bg-purple-100 text-purple-800',
+};
+
+export default function PaymentsReport({ statistics, today, trend, byMethod, payments, filters, branches }: Props) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Payments Report" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Payments Report</h1>
+                    <p className="text-muted-foreground">Payments received in the period</p>
+                </div>
+
+                <ReportFilters routeName="reports.payments" filters={filters} branches={branches} />
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                    <ReportStatCard
+                        title="Collected"
+                        value={formatCurrency(statistics.completed_amount)}
+                        description={`${statistics.total_payments} payments recorded`}
+                        icon={Banknote}
+                        iconClassName="text-green-600"
+                    />
+                    <ReportStatCard
+                        title="Pending"
+                        value={formatCurrency(statistics.pending_amount)}
+                        description={`${statistics.pending_verification} awaiting verification`}
+                        icon={Clock}
+                        iconClassName="text-yellow-600"
+                    />
+                    <ReportStatCard
+                        title="Rejected"
+                        value={statistics.rejected_payments}
+                        description={`${statistics.verified_payments} verified`}
+                        icon={XCircle}
+                        iconClassName="text-red-600"
+                    />
+                    <ReportStatCard
+                        title="Today"
+                        value={formatCurrency(today.total_amount)}
+                        description={`${today.total_transactions} transactions, ${today.pending_verification} to verify`}
+                        icon={CalendarCheck}
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <Card className="lg:col-span-2">
+                        <CardHeader>
+                            <CardTitle>Daily Collections</CardTitle>
+                            <CardDescription>Completed payments per day</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBarChart
+                                data={trend}
+                                labelKey="date"
+                                series={[{ key: 'total_amount', label: 'Collected', color: '#10B981' }]}
+                                formatLabel={shortDate}
+                                formatValue={formatCurrency}
+                            />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>By Payment Method</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown
+                                items={byMethod.map((method) => ({
+                                    label: humanize(method.payment_method),
+                                    value: method.total_amount,
+                                    detail: `${method.payment_count} payments`,
+                                    color: '#10B981',
+                                }))}
+                                formatValue={formatCurrency}
+                            />
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Payments</CardTitle>
+                        <CardDescription>Latest {payments.length} payments in the period</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {payments.length === 0 ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">No payments in this period</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2 font-medium">Reference</th>
+                                            <th className="py-2 font-medium">Date</th>
+                                            <th className="py-2 font-medium">Invoice</th>
+                                            <th className="py-2 font-medium">Customer</th>
+                                            <th className="py-2 font-medium">Method</th>
+                                            <th className="py-2 font-medium">Status</th>
+                                            <th className="py-2 text-right font-medium">Amount</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {payments.map((payment) => (
+                                            <tr key={payment.id} className="border-b last:border-0">
+                                                <td className="py-2 font-mono text-xs">{payment.payment_reference}</td>
+                                                <td className="py-2">
+                                                    {payment.payment_date ? new Date(payment.payment_date).toLocaleDateString() : '—'}
+                                                </td>
+                                                <td className="py-2">
+                                                    {payment.invoice ? (
+                                                        <Link
+                                                            href={route('invoices.show', payment.invoice.id)}
+                                                            className="text-blue-600 hover:underline"
+                                                        >
+                                                            {payment.invoice.invoice_number}
+                                                        </Link>
+                                                    ) : (
+                                                        '—'
+                                                    )}
+                                                </td>
+                                                <td className="py-2">{payment.customer ?? '—'}</td>
+                                                <td className="py-2">{humanize(payment.payment_method)}</td>
+                                                <td className="py-2">
+                                                    <Badge className={statusClass[payment.status] ?? 'bg-gray-100 text-gray-800'}>
+                                                        {humanize(payment.status)}
+                                                    </Badge>
+                                                    {payment.verification_status !== 'verified' && (
+                                                        <span className="ml-2 text-xs text-muted-foreground">
+                                                            {humanize(payment.verification_status)}
+                                                        </span>
+                                                    )}
+                                                </td>
+                                                <td className="py-2 text-right font-medium">{formatCurrency(payment.amount)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
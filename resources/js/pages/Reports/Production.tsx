@@ -0,0 +1,228 @@
+// resources/js/pages/Reports/Production.tsx
+
+import ReportBarChart from '@/components/report-bar-chart';
+import ReportBreakdown from '@/components/report-breakdown';
+import ReportFilters from '@/components/report-filters';
+import ReportStatCard from '@/components/report-stat-card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { breakdownFromCounts, formatCurrency, formatPercent, humanize, shortDate, type ReportPageProps } from '@/lib/reports';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link } from '@inertiajs/react';
+import { AlertTriangle, CheckCircle, Clock, Factory } from 'lucide-react';
+
+interface Props extends ReportPageProps {
+    summary: {
+        jobs_created: number;
+        jobs_completed: number;
+        cancelled: number;
+        currently_overdue: number;
+        average_turnaround_hours: number | null;
+        on_time_rate: number | null;
+        estimated_cost: number;
+        actual_cost: number;
+    };
+    trend: { date: string; completed: number }[];
+    byStatus: Record<string, number>;
+    byType: Record<string, number>;
+    byPriority: Record<string, number>;
+    byStaff: { name: string; completed: number; quantity: number; average_hours: number; on_time_rate: number | null }[];
+    recentCompleted: {
+        id: number;
+        job_number: string;
+        job_title: string | null;
+        job_type: string;
+        assigned_to: string | null;
+        actual_completion: string;
+        turnaround_hours: number;
+        on_time: boolean | null;
+    }[];
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Reports', href: '/reports' },
+    { title: 'Production', href: '/reports/production' },
+];
+
+// Turnaround reads better in days once a job spans more than a working day
+const formatHours = (hours: number | null) => {
+    if (hours === null) {
+        return '—';
+    }
+
+    return hours >= 24 ? `${(hours / 24).toFixed(1)} days` : `${hours} hrs`;
+};
+
+export default function ProductionReport({ summary, trend, byStatus, byType, byPriority, byStaff, recentCompleted, filters, branches }: Props) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Production Report" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Production Report</h1>
+                    <p className="text-muted-foreground">Print jobs opened and completed in the period</p>
+                </div>
+
+                <ReportFilters routeName="reports.production" filters={filters} branches={branches} />
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                    <ReportStatCard
+                        title="Jobs Completed"
+                        value={summary.jobs_completed}
+                        description={`${summary.jobs_created} opened, ${summary.cancelled} cancelled`}
+                        icon={Factory}
+                    />
+                    <ReportStatCard
+                        title="Average Turnaround"
+                        value={formatHours(summary.average_turnaround_hours)}
+                        description="From start to completion"
+                        icon={Clock}
+                        iconClassName="text-purple-600"
+                    />
+                    <ReportStatCard
+                        title="On Time"
+                        value={formatPercent(summary.on_time_rate)}
+                        description="Finished by the estimated completion"
+                        icon={CheckCircle}
+                        iconClassName="text-green-600"
+                    />
+                    <ReportStatCard
+                        title="Overdue Now"
+                        value={summary.currently_overdue}
+                        description="Open jobs past their estimate"
+                        icon={AlertTriangle}
+                        iconClassName="text-red-600"
+                    />
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Jobs Completed per Day</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <ReportBarChart
+                            data={trend}
+                            labelKey="date"
+                            series={[{ key: 'completed', label: 'Completed', color: '#6366F1' }]}
+                            formatLabel={shortDate}
+                        />
+                    </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Current Status</CardTitle>
+                            <CardDescription>Jobs opened in the period</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown items={breakdownFromCounts(byStatus)} />
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Job Types</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown items={breakdownFromCounts(byType).map((item) => ({ ...item, color: '#8B5CF6' }))} />
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Priority</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-6">
+                            <ReportBreakdown items={breakdownFromCounts(byPriority).map((item) => ({ ...item, color: '#F59E0B' }))} />
+                            <dl className="grid grid-cols-2 gap-y-1 border-t pt-4 text-sm">
+                                <dt className="text-muted-foreground">Estimated cost</dt>
+                                <dd className="text-right">{formatCurrency(summary.estimated_cost)}</dd>
+                                <dt className="text-muted-foreground">Actual cost</dt>
+                                <dd className="text-right">{formatCurrency(summary.actual_cost)}</dd>
+                            </dl>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Staff Throughput</CardTitle>
+                        <CardDescription>Jobs completed in the period by assignee</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {byStaff.length === 0 ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">No jobs completed in this period</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-muted-foreground">
+                                        <th className="py-2 font-medium">Staff</th>
+                                        <th className="py-2 text-right font-medium">Jobs</th>
+                                        <th className="py-2 text-right font-medium">Units</th>
+                                        <th className="py-2 text-right font-medium">Avg. Turnaround</th>
+                                        <th className="py-2 text-right font-medium">On Time</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {byStaff.map((staff) => (
+                                        <tr key={staff.name} className="border-b last:border-0">
+                                            <td className="py-2">{staff.name}</td>
+                                            <td className="py-2 text-right font-medium">{staff.completed}</td>
+                                            <td className="py-2 text-right">{staff.quantity.toLocaleString()}</td>
+                                            <td className="py-2 text-right">{formatHours(staff.average_hours)}</td>
+                                            <td className="py-2 text-right">{formatPercent(staff.on_time_rate)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {recentCompleted.length > 0 && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Recently Completed</CardTitle>
+                        </CardHeader>
+                        <CardContent className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-muted-foreground">
+                                        <th className="py-2 font-medium">Job</th>
+                                        <th className="py-2 font-medium">Type</th>
+                                        <th className="py-2 font-medium">Assigned To</th>
+                                        <th className="py-2 font-medium">Completed</th>
+                                        <th className="py-2 text-right font-medium">Turnaround</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {recentCompleted.map((job) => (
+                                        <tr key={job.id} className="border-b last:border-0">
+                                            <td className="py-2">
+                                                <Link
+                                                    href={route('production.print-jobs.show', job.id)}
+                                                    className="font-mono text-blue-600 hover:underline"
+                                                >
+                                                    {job.job_number}
+                                                </Link>
+                                                {job.job_title && <span className="ml-2 text-muted-foreground">{job.job_title}</span>}
+                                            </td>
+                                            <td className="py-2">{humanize(job.job_type)}</td>
+                                            <td className="py-2">{job.assigned_to ?? '—'}</td>
+                                            <td className="py-2">{new Date(job.actual_completion).toLocaleString()}</td>
+                                            <td className={`py-2 text-right ${job.on_time === false ? 'text-red-600' : ''}`}>
+                                                {formatHours(job.turnaround_hours)}
+                                                {job.on_time === false && ' (late)'}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,259 @@
+// resources/js/pages/Reports/Sales.tsx
+
+import ReportBarChart from '@/components/report-bar-chart';
+import ReportBreakdown from '@/components/report-breakdown';
+import ReportFilters from '@/components/report-filters';
+import ReportStatCard from '@/components/report-stat-card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import AppLayout from '@/layouts/app-layout';
+import { formatCurrency, shortDate, type ReportPageProps } from '@/lib/reports';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link } from '@inertiajs/react';
+import { CheckCircle, FileText, Receipt, Wallet } from 'lucide-react';
+
+interface Props extends ReportPageProps {
+    summary: {
+        invoice_count: number;
+        total_sales: number;
+        subtotal: number;
+        tax_amount: number;
+        discount_amount: number;
+        weight_charge: number;
+        average_invoice: number;
+        paid_count: number;
+        unpaid_amount: number;
+    };
+    trend: { date: string; invoice_count: number; total_sales: number }[];
+    dailyIncome: {
+        date: string;
+        invoice_count: number;
+        total_income: number;
+        average_amount: number;
+        min_amount: number;
+        max_amount: number;
+    }[];
+    weeklyIncome: { year: number; week: number; invoice_count: number; total_income: number }[];
+    topCustomers: { id: number; name: string; customer_code: string | null; invoice_count: number; total_sales: number }[];
+    topProducts: { id: number; name: string; quantity: number; total_sales: number }[];
+    byBranch: { id: number; name: string; invoice_count: number; total_sales: number }[];
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Reports', href: '/reports' },
+    { title: 'Sales', href: '/reports/sales' },
+];
+
+export default function SalesReport({ summary, trend, dailyIncome, weeklyIncome, topCustomers, topProducts, byBranch, filters, branches }: Props) {
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Sales Report" />
+
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">Sales Report</h1>
+                    <p className="text-muted-foreground">Invoices issued in the period, excluding drafts and cancelled invoices</p>
+                </div>
+
+                <ReportFilters routeName="reports.sales" filters={filters} branches={branches} />
+
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                    <ReportStatCard
+                        title="Total Sales"
+                        value={formatCurrency(summary.total_sales)}
+                        description={`${summary.invoice_count} invoices`}
+                        icon={Receipt}
+                    />
+                    <ReportStatCard
+                        title="Average Invoice"
+                        value={formatCurrency(summary.average_invoice)}
+                        icon={FileText}
+                        iconClassName="text-purple-600"
+                    />
+                    <ReportStatCard
+                        title="Fully Paid"
+                        value={summary.paid_count}
+                        description={`of ${summary.invoice_count} invoices`}
+                        icon={CheckCircle}
+                        iconClassName="text-green-600"
+                    />
+                    <ReportStatCard
+                        title="Awaiting Payment"
+                        value={formatCurrency(summary.unpaid_amount)}
+                        description="Invoice value not fully paid"
+                        icon={Wallet}
+                        iconClassName="text-orange-600"
+                    />
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Daily Sales</CardTitle>
+                        <CardDescription>Invoiced value per day</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <ReportBarChart
+                            data={trend}
+                            labelKey="date"
+                            series={[{ key: 'total_sales', label: 'Sales', color: '#3B82F6' }]}
+                            formatLabel={shortDate}
+                            formatValue={formatCurrency}
+                        />
+                    </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <Card className="lg:col-span-2">
+                        <CardHeader>
+                            <CardTitle>Sales Breakdown</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <dl className="grid grid-cols-2 gap-y-2 text-sm">
+                                <dt className="text-muted-foreground">Items subtotal</dt>
+                                <dd className="text-right">{formatCurrency(summary.subtotal)}</dd>
+                                <dt className="text-muted-foreground">Weight charges</dt>
+                                <dd className="text-right">{formatCurrency(summary.weight_charge)}</dd>
+                                <dt className="text-muted-foreground">Tax</dt>
+                                <dd className="text-right">{formatCurrency(summary.tax_amount)}</dd>
+                                <dt className="text-muted-foreground">Discounts</dt>
+                                <dd className="text-right text-red-600">-{formatCurrency(summary.discount_amount)}</dd>
+                                <dt className="border-t pt-2 font-medium">Total</dt>
+                                <dd className="border-t pt-2 text-right font-medium">{formatCurrency(summary.total_sales)}</dd>
+                            </dl>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Paid Income, Last 8 Weeks</CardTitle>
+                            <CardDescription>Not limited to the selected period</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBarChart
+                                data={weeklyIncome.map((week) => ({ ...week, label: `W${week.week}` }))}
+                                labelKey="label"
+                                series={[{ key: 'total_income', label: 'Income', color: '#10B981' }]}
+                                formatValue={formatCurrency}
+                                height={140}
+                            />
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Top Customers</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {topCustomers.length === 0 ? (
+                                <p className="py-6 text-center text-sm text-muted-foreground">No sales in this period</p>
+                            ) : (
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2 font-medium">Customer</th>
+                                            <th className="py-2 text-right font-medium">Invoices</th>
+                                            <th className="py-2 text-right font-medium">Sales</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {topCustomers.map((customer) => (
+                                            <tr key={customer.id} className="border-b last:border-0">
+                                                <td className="py-2">
+                                                    <Link href={route('customers.show', customer.id)} className="hover:underline">
+                                                        {customer.name}
+                                                    </Link>
+                                                    {customer.customer_code && (
+                                                        <span className="ml-2 text-xs text-muted-foreground">{customer.customer_code}</span>
+                                                    )}
+                                                </td>
+                                                <td className="py-2 text-right">{customer.invoice_count}</td>
+                                                <td className="py-2 text-right font-medium">{formatCurrency(customer.total_sales)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Top Products</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown
+                                items={topProducts.map((product) => ({
+                                    label: product.name,
+                                    value: product.total_sales,
+                                    detail: `${product.quantity.toLocaleString()} units`,
+                                }))}
+                                formatValue={formatCurrency}
+                                emptyMessage="No products sold in this period"
+                            />
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {byBranch.length > 1 && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Sales by Branch</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <ReportBreakdown
+                                items={byBranch.map((branch) => ({
+                                    label: branch.name,
+                                    value: branch.total_sales,
+                                    detail: `${branch.invoice_count} invoices`,
+                                    color: '#8B5CF6',
+                                }))}
+                                formatValue={formatCurrency}
+                            />
+                        </CardContent>
+                    </Card>
+                )}
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Paid Invoices by Day</CardTitle>
+                        <CardDescription>Income from invoices that are fully paid, by invoice date</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        {dailyIncome.length === 0 ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">No paid invoices in this period</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2 font-medium">Date</th>
+                                            <th className="py-2 text-right font-medium">Invoices</th>
+                                            <th className="py-2 text-right font-medium">Income</th>
+                                            <th className="py-2 text-right font-medium">Average</th>
+                                            <th className="py-2 text-right font-medium">Smallest</th>
+                                            <th className="py-2 text-right font-medium">Largest</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {dailyIncome.map((day) => (
+                                            <tr key={day.date} className="border-b last:border-0">
+                                                <td className="py-2">{new Date(`${day.date}T00:00:00`).toLocaleDateString()}</td>
+                                                <td className="py-2 text-right">{day.invoice_count}</td>
+                                                <td className="py-2 text-right font-medium">{formatCurrency(day.total_income)}</td>
+                                                <td className="py-2 text-right">{formatCurrency(day.average_amount)}</td>
+                                                <td className="py-2 text-right">{formatCurrency(day.min_amount)}</td>
+                                                <td className="py-2 text-right">{formatCurrency(day.max_amount)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </AppLayout>
+    );
+}
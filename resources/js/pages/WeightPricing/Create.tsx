@@ -0,0 +1,249 @@
+// resources/js/pages/WeightPricing/Create.tsx
+
+import InputError from '@/components/input-error';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { calculateWeightCharge, findTierRangeIssues, formatWeightRange, rangesOverlap, type WeightPricingTier } from '@/lib/weight-pricing';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, useForm } from '@inertiajs/react';
+import { AlertTriangle, ArrowLeft, Calculator, Save, Weight } from 'lucide-react';
+import { useMemo } from 'react';
+
+interface ExistingTier extends WeightPricingTier {
+    status: 'active' | 'inactive';
+}
+
+interface Props {
+    existingTiers: ExistingTier[];
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Weight Pricing', href: '/weight-pricing' },
+    { title: 'Create Tier', href: '/weight-pricing/create' },
+];
+
+export default function CreateWeightPricingTier({ existingTiers = [] }: Props) {
+    const { data, setData, post, processing, errors } = useForm({
+        tier_name: '',
+        min_weight: '',
+        max_weight: '',
+        base_price: '',
+        price_per_kg: '0',
+        status: 'active',
+        sort_order: String(existingTiers.length + 1),
+    });
+
+    // The tier being edited, in the shape the pricing helpers expect
+    const draftTier: WeightPricingTier = useMemo(
+        () => ({
+            id: 0,
+            tier_name: data.tier_name || 'New tier',
+            min_weight: parseFloat(data.min_weight) || 0,
+            max_weight: data.max_weight === '' ? null : parseFloat(data.max_weight),
+            base_price: parseFloat(data.base_price) || 0,
+            price_per_kg: parseFloat(data.price_per_kg) || 0,
+        }),
+        [data],
+    );
+
+    const activeTiers = existingTiers.filter((tier) => tier.status === 'active');
+    const overlapping = data.min_weight !== '' ? activeTiers.filter((tier) => rangesOverlap(tier, draftTier)) : [];
+    const gaps =
+        data.min_weight !== '' && data.status === 'active'
+            ? findTierRangeIssues([...activeTiers, draftTier]).filter((issue) => issue.type === 'gap')
+            : [];
+
+    const previewWeights = [draftTier.min_weight, draftTier.max_weight ?? draftTier.min_weight + 5].filter(
+        (weight, index, all) => all.indexOf(weight) === index,
+    );
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        post(route('weight-pricing.store'));
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Create Weight Pricing Tier" />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Create Pricing Tier</h1>
+                        <p className="text-muted-foreground">Define the delivery charge for a weight range</p>
+                    </div>
+                    <Button variant="outline" asChild>
+                        <Link href={route('weight-pricing.index')}>
+                            <ArrowLeft className="mr-2 h-4 w-4" />
+                            Back to Weight Pricing
+                        </Link>
+                    </Button>
+                </div>
+
+                {'error' in errors && (
+                    <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>{(errors as Record<string, string>).error}</AlertDescription>
+                    </Alert>
+                )}
+
+                <form onSubmit={handleSubmit}>
+                    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                        <Card className="lg:col-span-2">
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Weight className="h-5 w-5" />
+                                    Tier Details
+                                </CardTitle>
+                                <CardDescription>Leave the maximum weight empty for an open-ended tier</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="grid gap-2">
+                                    <Label htmlFor="tier_name">Tier Name *</Label>
+                                    <Input
+                                        id="tier_name"
+                                        value={data.tier_name}
+                                        onChange={(e) => setData('tier_name', e.target.value)}
+                                        placeholder="e.g., Light (0-1kg)"
+                                        required
+                                    />
+                                    <InputError message={errors.tier_name} />
+                                </div>
+
+                                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="min_weight">Minimum Weight (kg) *</Label>
+                                        <Input
+                                            id="min_weight"
+                                            type="number"
+                                            step="0.001"
+                                            min="0"
+                                            value={data.min_weight}
+                                            onChange={(e) => setData('min_weight', e.target.value)}
+                                            required
+                                        />
+                                        <InputError message={errors.min_weight} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="max_weight">Maximum Weight (kg)</Label>
+                                        <Input
+                                            id="max_weight"
+                                            type="number"
+                                            step="0.001"
+                                            min="0"
+                                            value={data.max_weight}
+                                            onChange={(e) => setData('max_weight', e.target.value)}
+                                            placeholder="Unlimited"
+                                        />
+                                        <InputError message={errors.max_weight} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="base_price">Base Price (Rs.) *</Label>
+                                        <Input
+                                            id="base_price"
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            value={data.base_price}
+                                            onChange={(e) => setData('base_price', e.target.value)}
+                                            required
+                                        />
+                                        <InputError message={errors.base_price} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="price_per_kg">Price per kg above minimum (Rs.)</Label>
+                                        <Input
+                                            id="price_per_kg"
+                                            type="number"
+                                            step="0.01"
+                                            min="0"
+                                            value={data.price_per_kg}
+                                            onChange={(e) => setData('price_per_kg', e.target.value)}
+                                        />
+                                        <InputError message={errors.price_per_kg} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="status">Status *</Label>
+                                        <select
+                                            id="status"
+                                            value={data.status}
+                                            onChange={(e) => setData('status', e.target.value)}
+                                            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm"
+                                        >
+                                            <option value="active">Active</option>
+                                            <option value="inactive">Inactive</option>
+                                        </select>
+                                        <InputError message={errors.status} />
+                                    </div>
+
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="sort_order">Sort Order</Label>
+                                        <Input
+                                            id="sort_order"
+                                            type="number"
+                                            min="0"
+                                            value={data.sort_order}
+                                            onChange={(e) => setData('sort_order', e.target.value)}
+                                        />
+                                        <InputError message={errors.sort_order} />
+                                    </div>
+                                </div>
+
+                                {overlapping.length > 0 && (
+                                    <Alert variant="destructive">
+                                        <AlertTriangle className="h-4 w-4" />
+                                        <AlertDescription>
+                                            This range overlaps{' '}
+                                            {overlapping.map((tier) => `"${tier.tier_name}" (${formatWeightRange(tier)})`).join(', ')}. Adjust the
+                                            weights before saving.
+                                        </AlertDescription>
+                                    </Alert>
+                                )}
+
+                                {gaps.length > 0 && (
+                                    <Alert>
+                                        <AlertTriangle className="h-4 w-4" />
+                                        <AlertDescription>{gaps.map((gap) => gap.message).join('; ')}</AlertDescription>
+                                    </Alert>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <div className="space-y-6">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle className="flex items-center gap-2">
+                                        <Calculator className="h-5 w-5" />
+                                        Preview
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2 text-sm">
+                                    {previewWeights.map((weight) => (
+                                        <div key={weight} className="flex justify-between">
+                                            <span>{weight} kg</span>
+                                            <span>Rs. {calculateWeightCharge([draftTier], weight).total.toFixed(2)}</span>
+                                        </div>
+                                    ))}
+                                </CardContent>
+                            </Card>
+
+                            <Button type="submit" className="w-full" disabled={processing || overlapping.length > 0}>
+                                <Save className="mr-2 h-4 w-4" />
+                                {processing ? 'Saving...' : 'Create Tier'}
+                            </Button>
+                        </div>
+                    </div>
+                </form>
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,485 @@
+// resources/js/pages/WeightPricing/Index.tsx
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { requestJson } from '@/lib/http';
+import { calculateWeightCharge, findTierRangeIssues, type WeightPricingTier } from '@/lib/weight-pricing';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import {
+    AlertTriangle,
+    Calculator,
+    CheckCircle,
+    Circle,
+    Edit,
+    Eye,
+    GripVertical,
+    LineChart,
+    MoreHorizontal,
+    Plus,
+    Power,
+    Trash2,
+    TrendingUp,
+    Weight,
+} from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+
+interface PricingTier extends WeightPricingTier {
+    weight_range: string;
+    status: 'active' | 'inactive';
+    sort_order: number;
+    created_at: string;
+    updated_at: string;
+}
+
+interface SamplePricingRow {
+    weight: string;
+    weight_value: number;
+    tier: string;
+    price: string;
+    price_value: number;
+    base_price: number;
+    additional_price: number;
+}
+
+interface PricingAnalysis {
+    total_tiers: number;
+    active_tiers: number;
+    suggestions: Array<{
+        type: string;
+        message: string;
+        recommendation: string;
+    }>;
+}
+
+interface Props {
+    tiers: PricingTier[];
+    samplePricing: SamplePricingRow[];
+    analysis: PricingAnalysis;
+    permissions: {
+        canCreate: boolean;
+        canEdit: boolean;
+        canDelete: boolean;
+    };
+}
+
+const breadcrumbs: BreadcrumbItem[] = [
+    { title: 'Dashboard', href: '/dashboard' },
+    { title: 'Weight Pricing', href: '/weight-pricing' },
+];
+
+// Charge vs. weight line chart drawn from the server's sample pricing table
+function PricingChart({ rows }: { rows: SamplePricingRow[] }) {
+    const width = 640;
+    const height = 240;
+    const padding = { top: 16, right: 16, bottom: 32, left: 56 };
+
+    if (rows.length === 0) {
+        return <p className="py-8 text-center text-sm text-muted-foreground">No sample data available.</p>;
+    }
+
+    const maxWeight = Math.max(...rows.map((row) => row.weight_value), 1);
+    const maxPrice = Math.max(...rows.map((row) => row.price_value), 1);
+    const x = (weight: number) => padding.left + (weight / maxWeight) * (width - padding.left - padding.right);
+    const y = (price: number) => height - padding.bottom - (price / maxPrice) * (height - padding.top - padding.bottom);
+
+    const path = rows.map((row, index) => `${index === 0 ? 'M' : 'L'} ${x(row.weight_value)} ${y(row.price_value)}`).join(' ');
+    const priceTicks = [0, 0.25, 0.5, 0.75, 1].map((ratio) => Math.round(maxPrice * ratio));
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="h-auto w-full">
+            {priceTicks.map((tick) => (
+                <g key={tick}>
+                    <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} className="stroke-gray-200" />
+                    <text x={padding.left - 8} y={y(tick) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+                        {tick.toLocaleString()}
+                    </text>
+                </g>
+            ))}
+            {rows.map((row) => (
+                <text
+                    key={row.weight}
+                    x={x(row.weight_value)}
+                    y={height - padding.bottom + 16}
+                    textAnchor="middle"
+                    className="fill-gray-500 text-[10px]"
+                >
+                    {row.weight}
+                </text>
+            ))}
+            <path d={path} fill="none" className="stroke-blue-600" strokeWidth={2} />
+            {rows.map((row) => (
+                <circle key={row.weight} cx={x(row.weight_value)} cy={y(row.price_value)} r={4} className="fill-blue-600">
+                    <title>{`${row.weight}: ${row.price} (${row.tier})`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+}
+
+export default function WeightPricingIndex({ tiers, samplePricing, analysis, permissions }: Props) {
+    const [orderedTiers, setOrderedTiers] = useState<PricingTier[]>(tiers);
+    const [draggedId, setDraggedId] = useState<number | null>(null);
+    const [savingOrder, setSavingOrder] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [calculatorWeight, setCalculatorWeight] = useState('1');
+
+    useEffect(() => {
+        setOrderedTiers(tiers);
+    }, [tiers]);
+
+    const activeTiers = useMemo(() => orderedTiers.filter((tier) => tier.status === 'active'), [orderedTiers]);
+    const rangeIssues = useMemo(() => findTierRangeIssues(activeTiers), [activeTiers]);
+    const flaggedTierIds = useMemo(() => new Set(rangeIssues.flatMap((issue) => issue.tierIds)), [rangeIssues]);
+
+    const calculatorResult = useMemo(() => calculateWeightCharge(activeTiers, parseFloat(calculatorWeight) || 0), [activeTiers, calculatorWeight]);
+
+    const handleDrop = async (targetId: number) => {
+        if (draggedId === null || draggedId === targetId) {
+            setDraggedId(null);
+            return;
+        }
+
+        const previousOrder = orderedTiers;
+        const reordered = [...orderedTiers];
+        const fromIndex = reordered.findIndex((tier) => tier.id === draggedId);
+        const toIndex = reordered.findIndex((tier) => tier.id === targetId);
+        const [moved] = reordered.splice(fromIndex, 1);
+        reordered.splice(toIndex, 0, moved);
+
+        setOrderedTiers(reordered);
+        setDraggedId(null);
+        setSavingOrder(true);
+
+        try {
+            await requestJson(route('weight-pricing.sort-order'), 'POST', {
+                tier_ids: reordered.map((tier) => tier.id),
+            });
+            setMessage({ type: 'success', text: 'Tier order saved.' });
+        } catch (error) {
+            setOrderedTiers(previousOrder);
+            setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Sort order update failed' });
+        } finally {
+            setSavingOrder(false);
+        }
+    };
+
+    const toggleStatus = async (tier: PricingTier) => {
+        try {
+            const response = await requestJson<{ status: 'active' | 'inactive'; message: string }>(
+                route('weight-pricing.toggle-status', tier.id),
+                'PATCH',
+            );
+            setOrderedTiers((current) => current.map((item) => (item.id === tier.id ? { ...item, status: response.status } : item)));
+            setMessage({ type: 'success', text: response.message });
+            router.reload({ only: ['samplePricing', 'analysis'] });
+        } catch (error) {
+            setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Status update failed' });
+        }
+    };
+
+    const deleteTier = (tier: PricingTier) => {
+        if (confirm(`Are you sure you want to delete the "${tier.tier_name}" tier?`)) {
+            router.delete(route('weight-pricing.destroy', tier.id));
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title="Weight Pricing" />
+
+            <div className="space-y-6">
+                {/* Header */}
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-3xl font-bold tracking-tight">Weight Pricing</h1>
+                        <p className="text-muted-foreground">Delivery charges applied to invoices by total weight</p>
+                    </div>
+
+                    {permissions.canCreate && (
+                        <Button asChild>
+                            <Link href={route('weight-pricing.create')}>
+                                <Plus className="mr-2 h-4 w-4" />
+                                Add Tier
+                            </Link>
+                        </Button>
+                    )}
+                </div>
+
+                {message && (
+                    <Alert variant={message.type === 'error' ? 'destructive' : 'default'}>
+                        {message.type === 'error' ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                        <AlertDescription>{message.text}</AlertDescription>
+                    </Alert>
+                )}
+
+                {/* Stats Cards */}
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                    <Card>
+                        <CardContent className="p-6">
+                            <Weight className="h-4 w-4 text-muted-foreground" />
+                            <div className="mt-2">
+                                <p className="text-2xl font-bold">{orderedTiers.length}</p>
+                                <p className="text-xs text-muted-foreground">Total Tiers</p>
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-6">
+                            <Circle className="h-4 w-4 text-green-600" />
+                            <div className="mt-2">
+                                <p className="text-2xl font-bold">{activeTiers.length}</p>
+                                <p className="text-xs text-muted-foreground">Active Tiers</p>
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardContent className="p-6">
+                            <AlertTriangle className={`h-4 w-4 ${rangeIssues.length > 0 ? 'text-amber-600' : 'text-muted-foreground'}`} />
+                            <div className="mt-2">
+                                <p className="text-2xl font-bold">{rangeIssues.length}</p>
+                                <p className="text-xs text-muted-foreground">Range Issues</p>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Overlap / gap warnings */}
+                {rangeIssues.length > 0 && (
+                    <Alert>
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertDescription>
+                            <div className="font-medium">Active tiers have overlapping or missing weight ranges:</div>
+                            <ul className="mt-1 list-disc pl-5 text-sm">
+                                {rangeIssues.map((issue, index) => (
+                                    <li key={index}>
+                                        <Badge variant="outline" className="mr-2">
+                                            {issue.type}
+                                        </Badge>
+                                        {issue.message}
+                                    </li>
+                                ))}
+                            </ul>
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    {/* Tier list */}
+                    <Card className="lg:col-span-2">
+                        <CardHeader>
+                            <CardTitle>Pricing Tiers</CardTitle>
+                            <CardDescription>
+                                {permissions.canEdit ? 'Drag tiers to change their display order' : 'Tiers in display order'}
+                                {savingOrder && ' - saving...'}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            {orderedTiers.length === 0 ? (
+                                <div className="py-12 text-center">
+                                    <Weight className="mx-auto mb-4 h-12 w-12 text-muted-foreground" />
+                                    <h3 className="mb-2 text-lg font-medium">No pricing tiers yet</h3>
+                                    <p className="mb-4 text-muted-foreground">Invoices carry no weight charge until a tier is defined.</p>
+                                    {permissions.canCreate && (
+                                        <Button asChild>
+                                            <Link href={route('weight-pricing.create')}>
+                                                <Plus className="mr-2 h-4 w-4" />
+                                                Create Tier
+                                            </Link>
+                                        </Button>
+                                    )}
+                                </div>
+                            ) : (
+                                <div className="space-y-2">
+                                    {orderedTiers.map((tier) => (
+                                        <div
+                                            key={tier.id}
+                                            draggable={permissions.canEdit}
+                                            onDragStart={() => setDraggedId(tier.id)}
+                                            onDragOver={(e) => e.preventDefault()}
+                                            onDrop={() => handleDrop(tier.id)}
+                                            className={`flex items-center justify-between rounded-lg border p-3 hover:bg-gray-50 ${
+                                                draggedId === tier.id ? 'opacity-50' : ''
+                                            } ${tier.status === 'active' && flaggedTierIds.has(tier.id) ? 'border-amber-400' : ''}`}
+                                        >
+                                            <div className="flex flex-1 items-center gap-3">
+                                                {permissions.canEdit && <GripVertical className="h-4 w-4 cursor-move text-muted-foreground" />}
+                                                <div className="flex-1">
+                                                    <div className="flex items-center gap-2">
+                                                        <h3 className="font-medium">{tier.tier_name}</h3>
+                                                        <span className="text-sm text-gray-500">({tier.weight_range})</span>
+                                                    </div>
+                                                    <div className="mt-1 text-xs text-gray-500">
+                                                        Rs. {Number(tier.base_price).toFixed(2)} base
+                                                        {Number(tier.price_per_kg) > 0 &&
+                                                            ` + Rs. ${Number(tier.price_per_kg).toFixed(2)}/kg above ${tier.min_weight}kg`}
+                                                    </div>
+                                                </div>
+                                            </div>
+
+                                            <div className="flex items-center gap-2">
+                                                <Badge
+                                                    className={tier.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}
+                                                >
+                                                    {tier.status}
+                                                </Badge>
+
+                                                <DropdownMenu>
+                                                    <DropdownMenuTrigger asChild>
+                                                        <Button variant="ghost" size="sm">
+                                                            <MoreHorizontal className="h-4 w-4" />
+                                                        </Button>
+                                                    </DropdownMenuTrigger>
+                                                    <DropdownMenuContent align="end">
+                                                        <DropdownMenuItem asChild>
+                                                            <Link href={route('weight-pricing.show', tier.id)}>
+                                                                <Eye className="mr-2 h-4 w-4" />
+                                                                View Details
+                                                            </Link>
+                                                        </DropdownMenuItem>
+                                                        {permissions.canEdit && (
+                                                            <>
+                                                                <DropdownMenuItem asChild>
+                                                                    <Link href={route('weight-pricing.edit', tier.id)}>
+                                                                        <Edit className="mr-2 h-4 w-4" />
+                                                                        Edit Tier
+                                                                    </Link>
+                                                                </DropdownMenuItem>
+                                                                <DropdownMenuItem onClick={() => toggleStatus(tier)}>
+                                                                    <Power className="mr-2 h-4 w-4" />
+                                                                    {tier.status === 'active' ? 'Deactivate' : 'Activate'}
+                                                                </DropdownMenuItem>
+                                                            </>
+                                                        )}
+                                                        {permissions.canDelete && (
+                                                            <>
+                                                                <DropdownMenuSeparator />
+                                                                <DropdownMenuItem className="text-red-600" onClick={() => deleteTier(tier)}>
+                                                                    <Trash2 className="mr-2 h-4 w-4" />
+                                                                    Delete Tier
+                                                                </DropdownMenuItem>
+                                                            </>
+                                                        )}
+                                                    </DropdownMenuContent>
+                                                </DropdownMenu>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {/* Live calculator */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Calculator className="h-5 w-5" />
+                                Price Calculator
+                            </CardTitle>
+                            <CardDescription>Charge an invoice of this weight would carry</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="calculator_weight">Total Weight (kg)</Label>
+                                <Input
+                                    id="calculator_weight"
+                                    type="number"
+                                    step="0.001"
+                                    min="0"
+                                    value={calculatorWeight}
+                                    onChange={(e) => setCalculatorWeight(e.target.value)}
+                                />
+                            </div>
+
+                            {calculatorResult.tier ? (
+                                <div className="space-y-2 text-sm">
+                                    <div className="flex justify-between">
+                                        <span>Tier:</span>
+                                        <Badge variant="outline">{calculatorResult.tier.tier_name}</Badge>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Base Price:</span>
+                                        <span>Rs. {calculatorResult.basePrice.toFixed(2)}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Additional Weight:</span>
+                                        <span>Rs. {calculatorResult.additionalPrice.toFixed(2)}</span>
+                                    </div>
+                                    <div className="flex justify-between border-t pt-2 text-lg font-semibold">
+                                        <span>Weight Charge:</span>
+                                        <span>Rs. {calculatorResult.total.toFixed(2)}</span>
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-amber-600">No active tier covers this weight - no charge would be applied.</p>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* Chart and sample table */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <LineChart className="h-5 w-5" />
+                            Charge vs. Weight
+                        </CardTitle>
+                        <CardDescription>Sample charges calculated from the active tiers</CardDescription>
+                    </CardHeader>
+                    <CardContent className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                        <div className="lg:col-span-2">
+                            <PricingChart rows={samplePricing} />
+                        </div>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left text-muted-foreground">
+                                        <th className="py-2">Weight</th>
+                                        <th className="py-2">Tier</th>
+                                        <th className="py-2 text-right">Charge</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {samplePricing.map((row) => (
+                                        <tr key={row.weight} className="border-b last:border-b-0">
+                                            <td className="py-1">{row.weight}</td>
+                                            <td className="py-1">{row.tier}</td>
+                                            <td className="py-1 text-right">{row.price}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {/* Server-side suggestions */}
+                {analysis.suggestions.length > 0 && (
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <TrendingUp className="h-5 w-5" />
+                                Suggestions
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            {analysis.suggestions.map((suggestion, index) => (
+                                <div key={index} className="rounded-lg border p-3">
+                                    <p className="font-medium">{suggestion.message}</p>
+                                    <p className="text-sm text-muted-foreground">{suggestion.recommendation}</p>
+                                </div>
+                            ))}
+                        </CardContent>
+                    </Card>
+                )}
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,257 @@
+// resources/js/pages/WeightPricing/Show.tsx
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import AppLayout from '@/layouts/app-layout';
+import { requestJson } from '@/lib/http';
+import { BreadcrumbItem } from '@/types';
+import { Head, Link, router } from '@inertiajs/react';
+import { ArrowLeft, Calculator, Clock, Edit, Trash2, Weight } from 'lucide-react';
+import { useState } from 'react';
+
+interface Tier {
+    id: number;
+    tier_name: string;
+    min_weight: number;
+    max_weight: number | null;
+    weight_range: string;
+    base_price: number;
+    price_per_kg: number;
+    status: 'active' | 'inactive';
+    sort_order: number;
+    created_at: string;
+    updated_at: string;
+}
+
+interface SampleCalculation {
+    tier_name: string;
+    weight: number;
+    base_price: number;
+    additional_price: number;
+    total_price: number;
+}
+
+interface ServerCalculation {
+    tier: { tier_name: string } | null;
+    price: number;
+}
+
+interface Props {
+    tier: Tier;
+    sampleCalculations: SampleCalculation[];
+    permissions: {
+        canEdit: boolean;
+        canDelete: boolean;
+    };
+}
+
+export default function ShowWeightPricingTier({ tier, sampleCalculations, permissions }: Props) {
+    const [weight, setWeight] = useState('');
+    const [calculation, setCalculation] = useState<ServerCalculation | null>(null);
+    const [calculating, setCalculating] = useState(false);
+    const [calculationError, setCalculationError] = useState<string | null>(null);
+
+    const breadcrumbs: BreadcrumbItem[] = [
+        { title: 'Dashboard', href: '/dashboard' },
+        { title: 'Weight Pricing', href: '/weight-pricing' },
+        { title: tier.tier_name, href: `/weight-pricing/${tier.id}` },
+    ];
+
+    // Ask the server which tier a weight falls into - the same calculation invoices use
+    const calculate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setCalculating(true);
+        setCalculationError(null);
+
+        try {
+            const response = await requestJson<{ calculation: ServerCalculation }>(
+                route('weight-pricing.calculate-price', { weight: parseFloat(weight) || 0 }),
+            );
+            setCalculation(response.calculation);
+        } catch (error) {
+            setCalculation(null);
+            setCalculationError(error instanceof Error ? error.message : 'Price calculation failed');
+        } finally {
+            setCalculating(false);
+        }
+    };
+
+    const handleDelete = () => {
+        if (confirm(`Are you sure you want to delete the "${tier.tier_name}" tier?`)) {
+            router.delete(route('weight-pricing.destroy', tier.id));
+        }
+    };
+
+    return (
+        <AppLayout breadcrumbs={breadcrumbs}>
+            <Head title={tier.tier_name} />
+
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <div className="flex items-center gap-3">
+                            <h1 className="text-3xl font-bold tracking-tight">{tier.tier_name}</h1>
+                            <Badge className={tier.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+                                {tier.status}
+                            </Badge>
+                        </div>
+                        <p className="text-muted-foreground">{tier.weight_range}</p>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <Button variant="outline" asChild>
+                            <Link href={route('weight-pricing.index')}>
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back
+                            </Link>
+                        </Button>
+                        {permissions.canEdit && (
+                            <Button asChild>
+                                <Link href={route('weight-pricing.edit', tier.id)}>
+                                    <Edit className="mr-2 h-4 w-4" />
+                                    Edit
+                                </Link>
+                            </Button>
+                        )}
+                        {permissions.canDelete && (
+                            <Button variant="destructive" onClick={handleDelete}>
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                            </Button>
+                        )}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+                    <div className="space-y-6 lg:col-span-2">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Weight className="h-5 w-5" />
+                                    Pricing
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                                <div>
+                                    <p className="text-sm text-muted-foreground">Minimum Weight</p>
+                                    <p className="font-medium">{Number(tier.min_weight)} kg</p>
+                                </div>
+                                <div>
+                                    <p className="text-sm text-muted-foreground">Maximum Weight</p>
+                                    <p className="font-medium">{tier.max_weight === null ? 'Unlimited' : `${Number(tier.max_weight)} kg`}</p>
+                                </div>
+                                <div>
+                                    <p className="text-sm text-muted-foreground">Base Price</p>
+                                    <p className="font-medium">Rs. {Number(tier.base_price).toFixed(2)}</p>
+                                </div>
+                                <div>
+                                    <p className="text-sm text-muted-foreground">Per kg above minimum</p>
+                                    <p className="font-medium">Rs. {Number(tier.price_per_kg).toFixed(2)}</p>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>Sample Charges</CardTitle>
+                                <CardDescription>Charges for weights across this tier's range</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b text-left text-muted-foreground">
+                                            <th className="py-2">Weight</th>
+                                            <th className="py-2 text-right">Base</th>
+                                            <th className="py-2 text-right">Additional</th>
+                                            <th className="py-2 text-right">Total</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {sampleCalculations.map((row) => (
+                                            <tr key={row.weight} className="border-b last:border-b-0">
+                                                <td className="py-1">{row.weight} kg</td>
+                                                <td className="py-1 text-right">Rs. {Number(row.base_price).toFixed(2)}</td>
+                                                <td className="py-1 text-right">Rs. {Number(row.additional_price).toFixed(2)}</td>
+                                                <td className="py-1 text-right font-medium">Rs. {Number(row.total_price).toFixed(2)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="space-y-6">
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Calculator className="h-5 w-5" />
+                                    Check a Weight
+                                </CardTitle>
+                                <CardDescription>Uses all active tiers, exactly as invoices do</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <form onSubmit={calculate} className="space-y-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="weight">Weight (kg)</Label>
+                                        <Input
+                                            id="weight"
+                                            type="number"
+                                            step="0.001"
+                                            min="0"
+                                            value={weight}
+                                            onChange={(e) => setWeight(e.target.value)}
+                                        />
+                                    </div>
+                                    <Button type="submit" className="w-full" disabled={calculating || weight === ''}>
+                                        {calculating ? 'Calculating...' : 'Calculate'}
+                                    </Button>
+                                </form>
+
+                                {calculationError && <p className="mt-4 text-sm text-red-600">{calculationError}</p>}
+                                {calculation && (
+                                    <div className="mt-4 space-y-1 text-sm">
+                                        <div className="flex justify-between">
+                                            <span>Tier:</span>
+                                            <span>{calculation.tier?.tier_name ?? 'No tier'}</span>
+                                        </div>
+                                        <div className="flex justify-between text-lg font-semibold">
+                                            <span>Charge:</span>
+                                            <span>Rs. {Number(calculation.price).toFixed(2)}</span>
+                                        </div>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2">
+                                    <Clock className="h-5 w-5" />
+                                    Record
+                                </CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-2 text-sm">
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Sort order</span>
+                                    <span>{tier.sort_order}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Created</span>
+                                    <span>{tier.created_at}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-muted-foreground">Updated</span>
+                                    <span>{tier.updated_at}</span>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        </AppLayout>
+    );
+}
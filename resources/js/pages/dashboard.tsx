@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Head, router } from '@inertiajs/react';
 import AppLayout from '@/layouts/app-layout';
+import { useProductionUpdates } from '@/hooks/use-production-updates';
 import { type BreadcrumbItem } from '@/types';
 import { 
     Users, 
@@ -277,6 +278,8 @@ const RecentList = ({
 export default function Dashboard({ stats, chartData, recentData, widgets, user }: DashboardProps) {
     const [isRefreshing, setIsRefreshing] = useState(false);
 
+    useProductionUpdates({ only: ['stats', 'recentData'] });
+
     const refreshDashboard = async () => {
         setIsRefreshing(true);
         try {
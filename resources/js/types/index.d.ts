@@ -3,6 +3,7 @@ import type { Config } from 'ziggy-js';
 
 export interface Auth {
     user: User;
+    production_channel: string | null;
 }
 
 export interface BreadcrumbItem {
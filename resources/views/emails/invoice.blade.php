@@ -0,0 +1,34 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+</head>
+<body style="margin: 0; padding: 24px; background: #f3f4f6; font-family: Arial, Helvetica, sans-serif; font-size: 14px; color: #1f2937;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+        <tr>
+            <td align="center">
+                <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width: 600px; background: #ffffff; border-radius: 6px;">
+                    <tr>
+                        <td style="padding: 20px 28px; border-bottom: 3px solid #4a90e2; font-size: 18px; font-weight: bold;">
+                            {{ $company->name }}
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 24px 28px; line-height: 1.6;">
+                            {!! nl2br(e($body)) !!}
+                        </td>
+                    </tr>
+                    <tr>
+                        <td style="padding: 16px 28px; border-top: 1px solid #e5e7eb; font-size: 12px; color: #6b7280;">
+                            {{ $company->name }}@if($company->address) · {{ $company->address }}@endif @if($company->phone)· Tel: {{ $company->phone }}@endif
+                            <br>
+                            The invoice is attached as a PDF.
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
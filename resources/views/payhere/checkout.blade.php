@@ -0,0 +1,58 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>Pay invoice {{ $invoice->invoice_number }} · {{ $company->name }}</title>
+    <style>
+        body { margin: 0; padding: 24px; background: #f3f4f6; font-family: Arial, Helvetica, sans-serif; font-size: 14px; color: #1f2937; }
+        .card { max-width: 480px; margin: 40px auto; background: #ffffff; border-radius: 6px; overflow: hidden; }
+        .header { padding: 20px 28px; border-bottom: 3px solid #4a90e2; font-size: 18px; font-weight: bold; }
+        .content { padding: 24px 28px; line-height: 1.6; }
+        .row { display: flex; justify-content: space-between; padding: 4px 0; }
+        .muted { color: #6b7280; }
+        .balance { border-top: 1px solid #e5e7eb; margin-top: 8px; padding-top: 8px; font-size: 18px; font-weight: bold; }
+        .notice { padding: 10px 12px; border-radius: 4px; margin-bottom: 16px; }
+        .notice.success { background: #dcfce7; color: #166534; }
+        .notice.warning { background: #fef9c3; color: #854d0e; }
+        .button { display: block; width: 100%; margin-top: 20px; padding: 12px; border: 0; border-radius: 4px; background: #4a90e2; color: #ffffff; font-size: 16px; cursor: pointer; }
+        .footer { padding: 16px 28px; border-top: 1px solid #e5e7eb; font-size: 12px; color: #6b7280; }
+    </style>
+</head>
+<body>
+    <div class="card">
+        <div class="header">{{ $company->name }}</div>
+        <div class="content">
+            @if($result === 'returned')
+                <div class="notice success">Thank you. Your payment is being confirmed by PayHere and will show on the invoice shortly.</div>
+            @elseif($result === 'cancelled')
+                <div class="notice warning">The payment was cancelled. You can try again below.</div>
+            @endif
+
+            <div class="row"><span class="muted">Invoice</span><strong>{{ $invoice->invoice_number }}</strong></div>
+            <div class="row"><span class="muted">Customer</span><span>{{ $invoice->customer->name }}</span></div>
+            <div class="row"><span class="muted">Due date</span><span>{{ $invoice->due_date->format('d M Y') }}</span></div>
+            <div class="row"><span class="muted">Invoice total</span><span>Rs. {{ number_format($invoice->total_amount, 2) }}</span></div>
+            <div class="row balance"><span>Balance due</span><span>Rs. {{ number_format($invoice->remaining_amount, 2) }}</span></div>
+
+            @if($canPay && $result !== 'returned')
+                <form method="post" action="{{ $checkoutUrl }}">
+                    @foreach($fields as $name => $value)
+                        <input type="hidden" name="{{ $name }}" value="{{ $value }}">
+                    @endforeach
+                    <button type="submit" class="button">Pay Rs. {{ number_format((float) $fields['amount'], 2) }} with PayHere</button>
+                </form>
+            @elseif(!$canPay && $invoice->remaining_amount <= 0)
+                <p class="muted">This invoice has been paid in full.</p>
+            @elseif(!$canPay)
+                <p class="muted">This invoice cannot be paid online. Please contact us to pay.</p>
+            @endif
+        </div>
+        <div class="footer">
+            {{ $company->name }}@if($company->address) · {{ $company->address }}@endif @if($company->phone)· Tel: {{ $company->phone }}@endif
+            <br>
+            Card and online payments are processed securely by PayHere.
+        </div>
+    </div>
+</body>
+</html>
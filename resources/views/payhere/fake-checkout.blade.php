@@ -0,0 +1,62 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>PayHere (local fake)</title>
+    <style>
+        body { margin: 0; padding: 24px; background: #fff7ed; font-family: Arial, Helvetica, sans-serif; font-size: 14px; color: #1f2937; }
+        .card { max-width: 480px; margin: 40px auto; background: #ffffff; border: 2px dashed #f97316; border-radius: 6px; padding: 24px 28px; }
+        h1 { margin: 0 0 4px; font-size: 18px; }
+        .muted { color: #6b7280; }
+        .row { display: flex; justify-content: space-between; padding: 4px 0; }
+        .error { padding: 10px 12px; border-radius: 4px; background: #fee2e2; color: #991b1b; margin: 12px 0; }
+        .actions { display: flex; gap: 8px; margin-top: 20px; }
+        button, a.button { flex: 1; padding: 10px; border: 0; border-radius: 4px; font-size: 14px; cursor: pointer; text-align: center; text-decoration: none; }
+        .pay { background: #16a34a; color: #ffffff; }
+        .decline { background: #dc2626; color: #ffffff; }
+        .cancel { background: #e5e7eb; color: #1f2937; }
+        pre { background: #f3f4f6; padding: 8px; font-size: 11px; white-space: pre-wrap; }
+    </style>
+</head>
+<body>
+    <div class="card">
+        <h1>PayHere checkout (local fake)</h1>
+        <p class="muted">Stands in for the PayHere sandbox while PAYHERE_FAKE=true. No money moves.</p>
+
+        <div class="row"><span class="muted">Order</span><strong>{{ $fields['order_id'] ?? '' }}</strong></div>
+        <div class="row"><span class="muted">Items</span><span>{{ $fields['items'] ?? '' }}</span></div>
+        <div class="row"><span class="muted">Amount</span><strong>{{ $fields['currency'] ?? '' }} {{ $fields['amount'] ?? '' }}</strong></div>
+        <div class="row"><span class="muted">Payment ID</span><span>{{ $success['payment_id'] }}</span></div>
+
+        @if(!$hashIsValid)
+            <div class="error">The checkout hash does not match. PayHere would refuse this checkout.</div>
+        @else
+            <div class="actions">
+                <button type="button" class="pay" data-notification='@json($success)' data-redirect="{{ $fields['return_url'] ?? '' }}">Pay</button>
+                <button type="button" class="decline" data-notification='@json($failure)' data-redirect="{{ $fields['cancel_url'] ?? '' }}">Decline</button>
+                <a class="button cancel" href="{{ $fields['cancel_url'] ?? '#' }}">Cancel</a>
+            </div>
+            <p class="muted">Pay and Decline post a signed notification to the notify URL, then return to the shop. Pressing Pay twice resends the same payment ID.</p>
+            <pre id="response"></pre>
+        @endif
+    </div>
+
+    <script>
+        document.querySelectorAll('button[data-notification]').forEach((button) => {
+            button.addEventListener('click', async () => {
+                const response = await fetch(@json($fields['notify_url'] ?? ''), {
+                    method: 'POST',
+                    body: new URLSearchParams(JSON.parse(button.dataset.notification)),
+                });
+
+                document.getElementById('response').textContent = response.status + ' ' + (await response.text());
+
+                if (response.ok) {
+                    setTimeout(() => (window.location.href = button.dataset.redirect), 1500);
+                }
+            });
+        });
+    </script>
+</body>
+</html>
@@ -0,0 +1,99 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Invoice {{ $invoice->invoice_number }}</title>
+    <style>
+        @page { margin: 10px 8px; }
+        body { font-family: DejaVu Sans Mono, monospace; font-size: 8px; color: #000000; }
+        table { width: 100%; border-collapse: collapse; }
+        .center { text-align: center; }
+        .right { text-align: right; }
+        .bold { font-weight: bold; }
+        .logo { max-width: 60px; max-height: 40px; }
+        .company-name { font-size: 11px; font-weight: bold; }
+        .title { font-size: 10px; font-weight: bold; letter-spacing: 2px; margin: 4px 0; }
+        .rule { border-top: 1px dashed #000000; margin: 5px 0; }
+        td { padding: 1px 0; vertical-align: top; }
+        .item-name { font-weight: bold; }
+        .spec { font-size: 7px; }
+        .grand td { font-size: 10px; font-weight: bold; padding-top: 3px; }
+        .footer { margin-top: 8px; font-size: 7px; }
+    </style>
+</head>
+<body>
+    <div class="center">
+        @if($company->logo_data_uri)
+            <img src="{{ $company->logo_data_uri }}" class="logo" alt="{{ $company->name }}"><br>
+        @endif
+        <div class="company-name">{{ $company->name }}</div>
+        <div>{{ $branch->name }}</div>
+        @if($branch->address)<div>{{ $branch->address }}</div>@endif
+        @if($branch->phone)<div>Tel: {{ $branch->phone }}</div>@endif
+        @if($company->tax_number)<div>Tax No: {{ $company->tax_number }}</div>@endif
+        <div class="title">INVOICE</div>
+    </div>
+
+    <table>
+        <tr><td>Invoice</td><td class="right bold">{{ $invoice->invoice_number }}</td></tr>
+        <tr><td>Date</td><td class="right">{{ $invoice->invoice_date->format('d/m/Y') }}</td></tr>
+        <tr><td>Due</td><td class="right">{{ $invoice->due_date->format('d/m/Y') }}</td></tr>
+        <tr><td>Customer</td><td class="right">{{ $invoice->customer->name }}</td></tr>
+        @if($invoice->customer->phone)
+            <tr><td>Phone</td><td class="right">{{ $invoice->customer->phone }}</td></tr>
+        @endif
+    </table>
+
+    <div class="rule"></div>
+
+    <table>
+        @foreach($invoice->items as $item)
+            <tr>
+                <td colspan="2" class="item-name">{{ $item->product?->name ?? $item->item_description }}</td>
+            </tr>
+            @foreach($item->specifications ?? [] as $key => $value)
+                <tr><td colspan="2" class="spec">{{ $key }}: {{ is_scalar($value) ? $value : json_encode($value) }}</td></tr>
+            @endforeach
+            <tr>
+                <td>{{ rtrim(rtrim(number_format($item->quantity, 2), '0'), '.') }} x {{ number_format($item->unit_price, 2) }}@if($item->line_weight > 0) ({{ number_format($item->line_weight, 2) }} kg)@endif</td>
+                <td class="right">{{ number_format($item->line_total, 2) }}</td>
+            </tr>
+        @endforeach
+    </table>
+
+    <div class="rule"></div>
+
+    <table>
+        <tr><td>Subtotal</td><td class="right">{{ number_format($invoice->subtotal, 2) }}</td></tr>
+        @if($invoice->weight_charge > 0)
+            <tr><td>Weight ({{ number_format($invoice->total_weight, 2) }} kg)</td><td class="right">{{ number_format($invoice->weight_charge, 2) }}</td></tr>
+        @endif
+        @if($invoice->tax_amount > 0)
+            <tr><td>Tax</td><td class="right">{{ number_format($invoice->tax_amount, 2) }}</td></tr>
+        @endif
+        @if($invoice->discount_amount > 0)
+            <tr><td>Discount</td><td class="right">-{{ number_format($invoice->discount_amount, 2) }}</td></tr>
+        @endif
+        <tr class="grand"><td>TOTAL (Rs.)</td><td class="right">{{ number_format($invoice->total_amount, 2) }}</td></tr>
+        @if($totalCredited > 0)
+            <tr><td>Credited</td><td class="right">-{{ number_format($totalCredited, 2) }}</td></tr>
+        @endif
+        @foreach($payments as $payment)
+            <tr><td>Paid {{ $payment->payment_date->format('d/m') }} {{ $payment->payment_method_label }}</td><td class="right">-{{ number_format($payment->amount, 2) }}</td></tr>
+        @endforeach
+        <tr class="bold"><td>Balance Due</td><td class="right">{{ number_format($balanceDue, 2) }}</td></tr>
+    </table>
+
+    @if($invoice->notes)
+        <div class="rule"></div>
+        <div>{!! nl2br(e($invoice->notes)) !!}</div>
+    @endif
+
+    <div class="rule"></div>
+
+    <div class="center footer">
+        Thank you for your business!<br>
+        Served by {{ $invoice->creator?->name }} · {{ now()->format('d/m/Y H:i') }}
+    </div>
+</body>
+</html>
@@ -0,0 +1,200 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Invoice {{ $invoice->invoice_number }}</title>
+    <style>
+        @page { margin: 28px 32px 48px; }
+        body { font-family: DejaVu Sans, sans-serif; font-size: 11px; color: #1f2937; }
+        h1 { font-size: 24px; margin: 0; letter-spacing: 1px; color: #4a90e2; }
+        table { width: 100%; border-collapse: collapse; }
+        .muted { color: #6b7280; }
+        .right { text-align: right; }
+        .center { text-align: center; }
+        .header td { vertical-align: top; }
+        .logo { max-width: 70px; max-height: 70px; margin-right: 12px; }
+        .company-name { font-size: 16px; font-weight: bold; }
+        .meta td { padding: 2px 0; }
+        .section { margin-top: 18px; }
+        .label { font-size: 9px; text-transform: uppercase; color: #6b7280; letter-spacing: 0.5px; }
+        .customer-name { font-size: 13px; font-weight: bold; text-transform: uppercase; }
+        .items th { background: #4a90e2; color: #ffffff; padding: 6px; font-size: 10px; text-align: left; }
+        .items td { border-bottom: 1px solid #e5e7eb; padding: 6px; vertical-align: top; }
+        .spec { font-size: 9px; font-style: italic; color: #6b7280; }
+        .totals td { padding: 3px 6px; }
+        .totals .grand td { border-top: 1px solid #1f2937; font-size: 13px; font-weight: bold; padding-top: 6px; }
+        .totals .balance td { background: #f3f4f6; font-weight: bold; }
+        .payments th { background: #f3f4f6; border: 1px solid #d1d5db; padding: 5px; font-size: 10px; text-align: left; }
+        .payments td { border: 1px solid #e5e7eb; padding: 5px; }
+        .box { padding: 8px 10px; border: 1px solid #d1d5db; background: #f9fafb; }
+        .signature { margin-top: 40px; width: 200px; margin-left: auto; border-top: 1px solid #1f2937; padding-top: 4px; text-align: center; font-size: 9px; letter-spacing: 1px; }
+        .footer { position: fixed; bottom: -30px; left: 0; right: 0; font-size: 9px; color: #6b7280; text-align: center; }
+    </style>
+</head>
+<body>
+    <div class="footer">
+        {{ $company->name }} · {{ $branch->name }}@if($branch->address), {{ $branch->address }}@endif @if($branch->phone)· Tel: {{ $branch->phone }}@endif
+        <br>
+        Invoice {{ $invoice->invoice_number }} · Created by {{ $invoice->creator?->name }} · Generated {{ now()->format('d M Y H:i') }}
+    </div>
+
+    <table class="header">
+        <tr>
+            @if($company->logo_data_uri)
+                <td style="width: 82px"><img src="{{ $company->logo_data_uri }}" class="logo" alt="{{ $company->name }}"></td>
+            @endif
+            <td>
+                <div class="company-name">{{ $company->name }}</div>
+                @if($company->address)<div>{{ $company->address }}</div>@endif
+                @if($company->phone)<div>Tel: {{ $company->phone }}</div>@endif
+                @if($company->email)<div>{{ $company->email }}</div>@endif
+                @if($company->tax_number)<div>Tax No: {{ $company->tax_number }}</div>@endif
+            </td>
+            <td class="right">
+                <h1>INVOICE</h1>
+            </td>
+        </tr>
+    </table>
+
+    <table class="header section">
+        <tr>
+            <td>
+                <div class="label">To</div>
+                <div class="customer-name">{{ $invoice->customer->name }}</div>
+                @if($invoice->customer->company_name)<div>{{ $invoice->customer->company_name }}</div>@endif
+                @if($invoice->customer->phone)<div class="muted">{{ $invoice->customer->phone }}</div>@endif
+                @if($invoice->customer->email)<div class="muted">{{ $invoice->customer->email }}</div>@endif
+                @if($invoice->customer->billing_address)<div class="muted">{{ $invoice->customer->billing_address }}</div>@endif
+                @if($invoice->customer->tax_number)<div class="muted">Tax No: {{ $invoice->customer->tax_number }}</div>@endif
+            </td>
+            <td style="width: 45%">
+                <table class="meta">
+                    <tr><td class="right muted">Invoice :</td><td class="right"><strong>{{ $invoice->invoice_number }}</strong></td></tr>
+                    <tr><td class="right muted">Date :</td><td class="right">{{ $invoice->invoice_date->format('d M Y') }}</td></tr>
+                    <tr><td class="right muted">Due Date :</td><td class="right">{{ $invoice->due_date->format('d M Y') }}</td></tr>
+                    <tr><td class="right muted">Status :</td><td class="right">{{ ucfirst($invoice->status) }}</td></tr>
+                    <tr><td class="right muted">Branch :</td><td class="right">{{ $branch->name }}</td></tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    <div class="section">
+        Dear Sir/Madam,<br>
+        Thank you for your valuable business. We are pleased to provide the invoice for your order as below.
+    </div>
+
+    <table class="items section">
+        <thead>
+            <tr>
+                <th style="width: 4%">#</th>
+                <th>Description</th>
+                <th class="right" style="width: 10%">Qty</th>
+                <th class="right" style="width: 16%">Price</th>
+                <th class="right" style="width: 16%">Total</th>
+            </tr>
+        </thead>
+        <tbody>
+            @foreach($invoice->items as $index => $item)
+                <tr>
+                    <td>{{ $index + 1 }}</td>
+                    <td>
+                        <strong>{{ $item->product?->name ?? $item->item_description }}</strong>
+                        @if($item->product && $item->item_description && $item->item_description !== $item->product->name)
+                            <div>{{ $item->item_description }}</div>
+                        @endif
+                        @foreach($item->specifications ?? [] as $key => $value)
+                            <div class="spec">({{ $key }}: {{ is_scalar($value) ? $value : json_encode($value) }})</div>
+                        @endforeach
+                        @if($item->line_weight > 0)
+                            <div class="spec">{{ number_format($item->line_weight, 2) }} kg</div>
+                        @endif
+                    </td>
+                    <td class="right">{{ rtrim(rtrim(number_format($item->quantity, 2), '0'), '.') }}</td>
+                    <td class="right">Rs. {{ number_format($item->unit_price, 2) }}</td>
+                    <td class="right">Rs. {{ number_format($item->line_total, 2) }}</td>
+                </tr>
+            @endforeach
+        </tbody>
+    </table>
+
+    <table class="totals section">
+        <tr><td style="width: 55%"></td><td class="muted">Subtotal</td><td class="right">Rs. {{ number_format($invoice->subtotal, 2) }}</td></tr>
+        @if($invoice->total_weight > 0)
+            <tr><td></td><td class="muted">Total Weight</td><td class="right">{{ number_format($invoice->total_weight, 2) }} kg</td></tr>
+        @endif
+        @if($invoice->weight_charge > 0)
+            <tr><td></td><td class="muted">Weight Charge</td><td class="right">Rs. {{ number_format($invoice->weight_charge, 2) }}</td></tr>
+        @endif
+        @if($invoice->tax_amount > 0)
+            <tr><td></td><td class="muted">Tax</td><td class="right">Rs. {{ number_format($invoice->tax_amount, 2) }}</td></tr>
+        @endif
+        @if($invoice->discount_amount > 0)
+            <tr><td></td><td class="muted">Discount</td><td class="right">- Rs. {{ number_format($invoice->discount_amount, 2) }}</td></tr>
+        @endif
+        <tr class="grand"><td></td><td>Total Amount</td><td class="right">Rs. {{ number_format($invoice->total_amount, 2) }}</td></tr>
+        @if($totalCredited > 0)
+            <tr><td></td><td class="muted">Credited</td><td class="right">- Rs. {{ number_format($totalCredited, 2) }}</td></tr>
+        @endif
+        @if($totalPaid != 0)
+            <tr><td></td><td class="muted">Paid</td><td class="right">- Rs. {{ number_format($totalPaid, 2) }}</td></tr>
+        @endif
+        <tr class="balance"><td></td><td>Balance Due</td><td class="right">Rs. {{ number_format($balanceDue, 2) }}</td></tr>
+    </table>
+
+    @if($payments->isNotEmpty())
+        <div class="section">
+            <div class="label">Payment History</div>
+            <table class="payments">
+                <thead>
+                    <tr>
+                        <th>Date</th>
+                        <th>Method</th>
+                        <th>Reference</th>
+                        <th class="right">Amount</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    @foreach($payments as $payment)
+                        <tr>
+                            <td>{{ $payment->payment_date->format('d M Y') }}</td>
+                            <td>{{ $payment->payment_method_label }}</td>
+                            <td>{{ $payment->payment_reference }}</td>
+                            <td class="right">Rs. {{ number_format($payment->amount, 2) }}</td>
+                        </tr>
+                    @endforeach
+                </tbody>
+            </table>
+        </div>
+    @endif
+
+    @if(!empty($company->bank_details))
+        <div class="box section">
+            <div class="label">Bank Details</div>
+            @if(!empty($company->bank_details['bank_name']))<div>Bank: {{ $company->bank_details['bank_name'] }}</div>@endif
+            @if(!empty($company->bank_details['account_holder']))<div>Account Name: {{ $company->bank_details['account_holder'] }}</div>@endif
+            @if(!empty($company->bank_details['account_number']))<div>Account No: <strong>{{ $company->bank_details['account_number'] }}</strong></div>@endif
+            @if(!empty($company->bank_details['swift_code']))<div>SWIFT: {{ $company->bank_details['swift_code'] }}</div>@endif
+        </div>
+    @endif
+
+    <div class="section">
+        <div class="label">Terms &amp; Conditions</div>
+        @if($invoice->terms_conditions)
+            <div>{!! nl2br(e($invoice->terms_conditions)) !!}</div>
+        @else
+            <div>❖ Valid only for one month from date of invoice.</div>
+            <div>❖ 60% advance and balance on delivery date.</div>
+        @endif
+    </div>
+
+    @if($invoice->notes)
+        <div class="section">
+            <div class="label">Notes</div>
+            <div>{!! nl2br(e($invoice->notes)) !!}</div>
+        </div>
+    @endif
+
+    <div class="signature">AUTHORIZED SIGNATURE</div>
+</body>
+</html>
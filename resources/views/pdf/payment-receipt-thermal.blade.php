@@ -0,0 +1,80 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Receipt {{ $payment->payment_reference }}</title>
+    <style>
+        @page { margin: 10px 8px; }
+        body { font-family: DejaVu Sans Mono, monospace; font-size: 8px; color: #000000; }
+        table { width: 100%; border-collapse: collapse; }
+        .center { text-align: center; }
+        .right { text-align: right; }
+        .bold { font-weight: bold; }
+        .logo { max-width: 60px; max-height: 40px; }
+        .company-name { font-size: 11px; font-weight: bold; }
+        .title { font-size: 10px; font-weight: bold; letter-spacing: 2px; margin: 4px 0; }
+        .rule { border-top: 1px dashed #000000; margin: 5px 0; }
+        td { padding: 1px 0; vertical-align: top; }
+        .grand td { font-size: 10px; font-weight: bold; padding-top: 3px; }
+        .words { font-size: 7px; font-style: italic; }
+        .footer { margin-top: 8px; font-size: 7px; }
+    </style>
+</head>
+<body>
+    <div class="center">
+        @if($company->logo_data_uri)
+            <img src="{{ $company->logo_data_uri }}" class="logo" alt="{{ $company->name }}"><br>
+        @endif
+        <div class="company-name">{{ $company->name }}</div>
+        <div>{{ $branch->name }}</div>
+        @if($branch->address)<div>{{ $branch->address }}</div>@endif
+        @if($branch->phone)<div>Tel: {{ $branch->phone }}</div>@endif
+        <div class="title">{{ $payment->payment_type === 'refund' ? 'REFUND RECEIPT' : 'PAYMENT RECEIPT' }}</div>
+    </div>
+
+    <table>
+        <tr><td>Receipt</td><td class="right bold">{{ $payment->payment_reference }}</td></tr>
+        <tr><td>Date</td><td class="right">{{ $payment->payment_date->format('d/m/Y') }}</td></tr>
+        <tr><td>Invoice</td><td class="right">{{ $invoice->invoice_number }}</td></tr>
+        <tr><td>Customer</td><td class="right">{{ $customer?->name }}</td></tr>
+        <tr><td>Method</td><td class="right">{{ $payment->payment_method_label }}</td></tr>
+        @if($payment->cheque_number)
+            <tr><td>Cheque No</td><td class="right">{{ $payment->cheque_number }}</td></tr>
+        @endif
+        @if($payment->bank_name)
+            <tr><td>Bank</td><td class="right">{{ $payment->bank_name }}</td></tr>
+        @endif
+        @if($payment->transaction_id)
+            <tr><td>Ref</td><td class="right">{{ $payment->transaction_id }}</td></tr>
+        @endif
+    </table>
+
+    <div class="rule"></div>
+
+    <table>
+        <tr class="grand"><td>AMOUNT (Rs.)</td><td class="right">{{ number_format(abs($payment->amount), 2) }}</td></tr>
+    </table>
+    <div class="words">{{ $amountInWords }}</div>
+
+    <div class="rule"></div>
+
+    <table>
+        <tr><td>Invoice Total</td><td class="right">{{ number_format($invoice->total_amount, 2) }}</td></tr>
+        @if($totalCredited > 0)
+            <tr><td>Credited</td><td class="right">-{{ number_format($totalCredited, 2) }}</td></tr>
+        @endif
+        @if($paidBefore != 0)
+            <tr><td>Paid Earlier</td><td class="right">-{{ number_format($paidBefore, 2) }}</td></tr>
+        @endif
+        <tr><td>This Payment</td><td class="right">-{{ number_format($payment->amount, 2) }}</td></tr>
+        <tr class="bold"><td>Balance After Payment</td><td class="right">{{ number_format($balanceAfter, 2) }}</td></tr>
+    </table>
+
+    <div class="rule"></div>
+
+    <div class="center footer">
+        Thank you for your payment!<br>
+        Received by {{ $payment->receivedBy?->name }} · {{ now()->format('d/m/Y H:i') }}
+    </div>
+</body>
+</html>
@@ -0,0 +1,118 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Receipt {{ $payment->payment_reference }}</title>
+    <style>
+        @page { margin: 24px 28px 40px; }
+        body { font-family: DejaVu Sans, sans-serif; font-size: 10px; color: #1f2937; }
+        h1 { font-size: 20px; margin: 0; letter-spacing: 1px; color: #4a90e2; }
+        table { width: 100%; border-collapse: collapse; }
+        .muted { color: #6b7280; }
+        .right { text-align: right; }
+        .header td { vertical-align: top; }
+        .logo { max-width: 56px; max-height: 56px; margin-right: 10px; }
+        .company-name { font-size: 14px; font-weight: bold; }
+        .section { margin-top: 14px; }
+        .label { font-size: 8px; text-transform: uppercase; color: #6b7280; letter-spacing: 0.5px; }
+        .details td { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; }
+        .details td.label { width: 28%; }
+        .amount { font-size: 16px; font-weight: bold; }
+        .words { padding: 8px 10px; border: 1px solid #d1d5db; background: #f9fafb; font-style: italic; }
+        .balance td { padding: 3px 6px; }
+        .balance .due td { border-top: 1px solid #1f2937; font-weight: bold; font-size: 12px; }
+        .signature { margin-top: 32px; width: 180px; margin-left: auto; border-top: 1px solid #1f2937; padding-top: 4px; text-align: center; font-size: 8px; letter-spacing: 1px; }
+        .footer { position: fixed; bottom: -26px; left: 0; right: 0; font-size: 8px; color: #6b7280; text-align: center; }
+    </style>
+</head>
+<body>
+    <div class="footer">
+        {{ $company->name }} · {{ $branch->name }}@if($branch->address), {{ $branch->address }}@endif @if($branch->phone)· Tel: {{ $branch->phone }}@endif
+        <br>
+        Receipt {{ $payment->payment_reference }} · Generated {{ now()->format('d M Y H:i') }}
+    </div>
+
+    <table class="header">
+        <tr>
+            @if($company->logo_data_uri)
+                <td style="width: 66px"><img src="{{ $company->logo_data_uri }}" class="logo" alt="{{ $company->name }}"></td>
+            @endif
+            <td>
+                <div class="company-name">{{ $company->name }}</div>
+                @if($company->address)<div>{{ $company->address }}</div>@endif
+                @if($company->phone)<div>Tel: {{ $company->phone }}</div>@endif
+                @if($company->tax_number)<div>Tax No: {{ $company->tax_number }}</div>@endif
+            </td>
+            <td class="right">
+                <h1>{{ $payment->payment_type === 'refund' ? 'REFUND RECEIPT' : 'PAYMENT RECEIPT' }}</h1>
+                <div><strong>{{ $payment->payment_reference }}</strong></div>
+                <div class="muted">{{ $payment->payment_date->format('d M Y') }}</div>
+            </td>
+        </tr>
+    </table>
+
+    <table class="details section">
+        <tr>
+            <td class="label">Received from</td>
+            <td><strong>{{ $customer?->name }}</strong>@if($customer?->phone) <span class="muted">· {{ $customer->phone }}</span>@endif</td>
+        </tr>
+        <tr>
+            <td class="label">Invoice</td>
+            <td>{{ $invoice->invoice_number }} <span class="muted">· {{ $invoice->invoice_date->format('d M Y') }}</span></td>
+        </tr>
+        <tr>
+            <td class="label">Payment method</td>
+            <td>
+                {{ $payment->payment_method_label }}
+                @if($payment->cheque_number)
+                    · Cheque No: {{ $payment->cheque_number }}
+                @endif
+                @if($payment->bank_name)
+                    · {{ $payment->bank_name }}
+                @endif
+                @if($payment->transaction_id)
+                    <span class="muted">· Ref: {{ $payment->transaction_id }}</span>
+                @endif
+            </td>
+        </tr>
+        <tr>
+            <td class="label">Amount</td>
+            <td class="amount">Rs. {{ number_format(abs($payment->amount), 2) }}</td>
+        </tr>
+    </table>
+
+    <div class="words section">{{ $amountInWords }}</div>
+
+    <table class="section">
+        <tr>
+            <td style="width: 55%; vertical-align: top">
+                @if($payment->notes)
+                    <div class="label">Notes</div>
+                    <div>{!! nl2br(e($payment->notes)) !!}</div>
+                @endif
+                @if($payment->status !== 'completed' && in_array($payment->payment_method, ['cheque', 'bank_transfer']))
+                    <div class="muted" style="margin-top: 6px">Cheque and transfer payments are subject to realisation.</div>
+                @endif
+            </td>
+            <td style="vertical-align: top">
+                <table class="balance">
+                    <tr><td class="muted">Invoice total</td><td class="right">{{ number_format($invoice->total_amount, 2) }}</td></tr>
+                    @if($totalCredited > 0)
+                        <tr><td class="muted">Credited</td><td class="right">-{{ number_format($totalCredited, 2) }}</td></tr>
+                    @endif
+                    @if($paidBefore != 0)
+                        <tr><td class="muted">Paid earlier</td><td class="right">-{{ number_format($paidBefore, 2) }}</td></tr>
+                    @endif
+                    <tr><td class="muted">This payment</td><td class="right">-{{ number_format($payment->amount, 2) }}</td></tr>
+                    <tr class="due"><td>Balance after payment</td><td class="right">{{ number_format($balanceAfter, 2) }}</td></tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    <div class="signature">
+        RECEIVED BY<br>
+        {{ $payment->receivedBy?->name }}
+    </div>
+</body>
+</html>
@@ -0,0 +1,122 @@
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Quotation {{ $quotation->quotation_number }}</title>
+    <style>
+        @page { margin: 28px 32px; }
+        body { font-family: DejaVu Sans, sans-serif; font-size: 11px; color: #1f2937; }
+        h1 { font-size: 22px; margin: 0; letter-spacing: 1px; }
+        table { width: 100%; border-collapse: collapse; }
+        .muted { color: #6b7280; }
+        .right { text-align: right; }
+        .header td { vertical-align: top; }
+        .company-name { font-size: 16px; font-weight: bold; }
+        .meta td { padding: 2px 0; }
+        .section { margin-top: 18px; }
+        .label { font-size: 9px; text-transform: uppercase; color: #6b7280; letter-spacing: 0.5px; }
+        .items th { background: #f3f4f6; border-bottom: 1px solid #d1d5db; padding: 6px; font-size: 10px; text-align: left; }
+        .items td { border-bottom: 1px solid #e5e7eb; padding: 6px; vertical-align: top; }
+        .totals td { padding: 3px 6px; }
+        .totals .grand td { border-top: 1px solid #1f2937; font-size: 13px; font-weight: bold; padding-top: 6px; }
+        .validity { margin-top: 18px; padding: 8px 10px; border: 1px solid #d1d5db; background: #f9fafb; }
+        .footer { margin-top: 28px; font-size: 9px; color: #6b7280; text-align: center; }
+    </style>
+</head>
+<body>
+    <table class="header">
+        <tr>
+            <td>
+                <div class="company-name">{{ $company->name }}</div>
+                @if($company->address)<div>{{ $company->address }}</div>@endif
+                @if($company->phone)<div>Tel: {{ $company->phone }}</div>@endif
+                @if($company->email)<div>{{ $company->email }}</div>@endif
+                @if($company->tax_number)<div>Tax No: {{ $company->tax_number }}</div>@endif
+            </td>
+            <td class="right">
+                <h1>QUOTATION</h1>
+                <table class="meta">
+                    <tr><td class="right muted">Quotation No:</td><td class="right"><strong>{{ $quotation->quotation_number }}</strong></td></tr>
+                    <tr><td class="right muted">Date:</td><td class="right">{{ $quotation->quotation_date->format('d M Y') }}</td></tr>
+                    <tr><td class="right muted">Valid Until:</td><td class="right">{{ $quotation->valid_until->format('d M Y') }}</td></tr>
+                    <tr><td class="right muted">Branch:</td><td class="right">{{ $quotation->branch->name }}</td></tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+
+    <div class="section">
+        <div class="label">Prepared for</div>
+        <div><strong>{{ $quotation->customer->name }}</strong></div>
+        @if($quotation->customer->company_name)<div>{{ $quotation->customer->company_name }}</div>@endif
+        @if($quotation->customer->billing_address)<div>{{ $quotation->customer->billing_address }}</div>@endif
+        @if($quotation->customer->phone)<div>Tel: {{ $quotation->customer->phone }}</div>@endif
+        @if($quotation->customer->email)<div>{{ $quotation->customer->email }}</div>@endif
+    </div>
+
+    <table class="items section">
+        <thead>
+            <tr>
+                <th style="width: 4%">#</th>
+                <th>Description</th>
+                <th class="right" style="width: 10%">Qty</th>
+                <th class="right" style="width: 16%">Unit Price</th>
+                <th class="right" style="width: 16%">Amount</th>
+            </tr>
+        </thead>
+        <tbody>
+            @foreach($quotation->items as $index => $item)
+                <tr>
+                    <td>{{ $index + 1 }}</td>
+                    <td>
+                        {{ $item->item_description }}
+                        @if(!empty($item->specifications['notes']))
+                            <div class="muted">{{ $item->specifications['notes'] }}</div>
+                        @endif
+                    </td>
+                    <td class="right">{{ rtrim(rtrim(number_format($item->quantity, 2), '0'), '.') }}</td>
+                    <td class="right">Rs. {{ number_format($item->unit_price, 2) }}</td>
+                    <td class="right">Rs. {{ number_format($item->line_total, 2) }}</td>
+                </tr>
+            @endforeach
+        </tbody>
+    </table>
+
+    <table class="totals section">
+        <tr><td style="width: 60%"></td><td class="muted">Subtotal</td><td class="right">Rs. {{ number_format($quotation->subtotal, 2) }}</td></tr>
+        @if($quotation->weight_charge > 0)
+            <tr><td></td><td class="muted">Delivery ({{ number_format($quotation->total_weight, 2) }} kg)</td><td class="right">Rs. {{ number_format($quotation->weight_charge, 2) }}</td></tr>
+        @endif
+        @if($quotation->discount_amount > 0)
+            <tr><td></td><td class="muted">Discount</td><td class="right">- Rs. {{ number_format($quotation->discount_amount, 2) }}</td></tr>
+        @endif
+        @if($quotation->tax_amount > 0)
+            <tr><td></td><td class="muted">Tax</td><td class="right">Rs. {{ number_format($quotation->tax_amount, 2) }}</td></tr>
+        @endif
+        <tr class="grand"><td></td><td>Total</td><td class="right">Rs. {{ number_format($quotation->total_amount, 2) }}</td></tr>
+    </table>
+
+    <div class="validity">
+        This quotation is valid until <strong>{{ $quotation->valid_until->format('d M Y') }}</strong>.
+        Prices are subject to change after this date.
+    </div>
+
+    @if($quotation->notes)
+        <div class="section">
+            <div class="label">Notes</div>
+            <div>{!! nl2br(e($quotation->notes)) !!}</div>
+        </div>
+    @endif
+
+    @if($quotation->terms_conditions)
+        <div class="section">
+            <div class="label">Terms &amp; Conditions</div>
+            <div>{!! nl2br(e($quotation->terms_conditions)) !!}</div>
+        </div>
+    @endif
+
+    <div class="footer">
+        {{ $company->name }} · Quotation {{ $quotation->quotation_number }} · Generated {{ now()->format('d M Y H:i') }}
+    </div>
+</body>
+</html>
@@ -0,0 +1,38 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\PrintJob;
+use Illuminate\Support\Facades\Broadcast;
+
+/*
+|--------------------------------------------------------------------------
+| Broadcast Channels
+|--------------------------------------------------------------------------
+|
+| Private channels used by the production events. Staff only hear about
+| their own company, and about other branches only when they may view them.
+|
+*/
+
+Broadcast::channel('company.{companyId}', function ($user, int $companyId) {
+    return (int) $user->company_id === $companyId;
+});
+
+Broadcast::channel('branch.{branchId}', function ($user, int $branchId) {
+    if ((int) $user->branch_id === $branchId) {
+        return true;
+    }
+
+    return $user->can('view all branches')
+        && Branch::where('id', $branchId)->where('company_id', $user->company_id)->exists();
+});
+
+Broadcast::channel('print-job.{printJobId}', function ($user, int $printJobId) {
+    $printJob = PrintJob::select('id', 'company_id', 'branch_id')->find($printJobId);
+
+    if (!$printJob || (int) $printJob->company_id !== (int) $user->company_id) {
+        return false;
+    }
+
+    return $user->can('view all branches') || (int) $printJob->branch_id === (int) $user->branch_id;
+});
@@ -11,17 +11,25 @@
 use App\Http\Controllers\UserManagementController;
 use App\Http\Controllers\CompanyController;
 use App\Http\Controllers\BranchController;
+use App\Http\Controllers\ProductCategoryController;
 use App\Http\Controllers\ProductController;
+use App\Http\Controllers\PriceListController;
 use App\Http\Controllers\CustomerController;
-use App\Http\Controllers\OrderController;
+use App\Http\Controllers\CustomerApprovalController;
+use App\Http\Controllers\QuotationController;
+use App\Http\Controllers\RecurringInvoiceController;
 use App\Http\Controllers\InvoiceController; // ✅ This should be present
+use App\Http\Controllers\CreditNoteController;
 use App\Http\Controllers\PaymentController;
+use App\Http\Controllers\PayHereController;
 use App\Http\Controllers\PaymentVerificationController; // ✅ Add this if missing
 use App\Http\Controllers\ProductionController;
 use App\Http\Controllers\DeliveryController;
 use App\Http\Controllers\ReportController;
+use App\Http\Controllers\ExpenseBudgetController;
 use App\Http\Controllers\ExpenseCategoryController;
 use App\Http\Controllers\ExpenseController;
+use App\Http\Controllers\WeightPricingTierController;
 use Inertia\Inertia;
 
 /*
@@ -35,6 +43,16 @@
     return Inertia::render('welcome');
 })->name('home');
 
+/*
+|--------------------------------------------------------------------------
+| Customer Approval Routes (signed links, no login)
+|--------------------------------------------------------------------------
+*/
+Route::middleware(['signed', 'throttle:30,1'])->prefix('approvals')->name('customer-approvals.')->group(function () {
+    Route::get('/{stage}', [CustomerApprovalController::class, 'show'])->name('show');
+    Route::post('/{stage}', [CustomerApprovalController::class, 'respond'])->name('respond');
+});
+
 /*
 |--------------------------------------------------------------------------
 | Authentication Routes
@@ -116,10 +134,43 @@
     |--------------------------------------------------------------------------
     */
     Route::middleware('permission:manage products')->group(function () {
+        // Declared before the resource so "export" and "import" aren't taken as product ids
+        Route::get('products/export', [ProductController::class, 'export'])->name('products.export');
+        Route::post('products/import', [ProductController::class, 'import'])->name('products.import');
         Route::resource('products', ProductController::class);
         Route::patch('products/{product}/activate', [ProductController::class, 'activate'])->name('products.activate');
         Route::patch('products/{product}/deactivate', [ProductController::class, 'deactivate'])->name('products.deactivate');
         Route::get('products/{product}/specifications', [ProductController::class, 'getSpecifications'])->name('products.specifications');
+        Route::put('products/{product}/price-breaks', [ProductController::class, 'updatePriceBreaks'])->name('products.price-breaks');
+
+        Route::get('price-lists', [PriceListController::class, 'index'])->name('price-lists.index');
+        Route::post('price-lists', [PriceListController::class, 'store'])->name('price-lists.store');
+        Route::put('price-lists/{priceList}', [PriceListController::class, 'update'])->name('price-lists.update');
+        Route::delete('price-lists/{priceList}', [PriceListController::class, 'destroy'])->name('price-lists.destroy');
+    });
+
+    /*
+    |--------------------------------------------------------------------------
+    | Product Category Routes
+    |--------------------------------------------------------------------------
+    */
+    Route::middleware('permission:view product categories')->group(function () {
+        Route::post('product-categories/sort-order', [ProductCategoryController::class, 'updateSortOrder'])->name('product-categories.sort-order');
+        Route::patch('product-categories/{id}/toggle-status', [ProductCategoryController::class, 'toggleStatus'])->name('product-categories.toggle-status');
+        Route::post('product-categories/{id}/move', [ProductCategoryController::class, 'move'])->name('product-categories.move');
+        Route::resource('product-categories', ProductCategoryController::class);
+    });
+
+    /*
+    |--------------------------------------------------------------------------
+    | Weight Pricing Routes
+    |--------------------------------------------------------------------------
+    */
+    Route::middleware('permission:view weight pricing')->group(function () {
+        Route::get('weight-pricing/calculate-price', [WeightPricingTierController::class, 'calculatePrice'])->name('weight-pricing.calculate-price');
+        Route::post('weight-pricing/sort-order', [WeightPricingTierController::class, 'updateSortOrder'])->name('weight-pricing.sort-order');
+        Route::patch('weight-pricing/{id}/toggle-status', [WeightPricingTierController::class, 'toggleStatus'])->name('weight-pricing.toggle-status');
+        Route::resource('weight-pricing', WeightPricingTierController::class);
     });
 
     /*
@@ -128,6 +179,10 @@
     |--------------------------------------------------------------------------
     */
     Route::middleware('permission:manage customers')->group(function () {
+        // Declared before the resource so 'import' is not taken for a customer id
+        Route::get('customers/import', [CustomerController::class, 'importForm'])->name('customers.import');
+        Route::post('customers/import/preview', [CustomerController::class, 'previewImport'])->name('customers.import.preview');
+        Route::post('customers/import', [CustomerController::class, 'import'])->name('customers.import.store');
         Route::resource('customers', CustomerController::class);
         Route::patch('customers/{customer}/activate', [CustomerController::class, 'activate'])->name('customers.activate');
         Route::patch('customers/{customer}/deactivate', [CustomerController::class, 'deactivate'])->name('customers.deactivate');
@@ -136,13 +191,25 @@
 
     /*
     |--------------------------------------------------------------------------
-    | Order Management Routes
+    | Quotation Routes
     |--------------------------------------------------------------------------
     */
-    Route::middleware('permission:manage orders')->group(function () {
-        Route::resource('orders', OrderController::class);
-        Route::patch('orders/{order}/status', [OrderController::class, 'updateStatus'])->name('orders.update-status');
-        Route::post('orders/{order}/convert-to-invoice', [OrderController::class, 'convertToInvoice'])->name('orders.convert-to-invoice');
+    Route::middleware('permission:view quotations')->group(function () {
+        Route::resource('quotations', QuotationController::class);
+        Route::get('quotations/{id}/pdf', [QuotationController::class, 'pdf'])->name('quotations.pdf');
+        Route::patch('quotations/{id}/status', [QuotationController::class, 'updateStatus'])->name('quotations.update-status');
+        Route::post('quotations/{id}/convert-to-invoice', [QuotationController::class, 'convertToInvoice'])->name('quotations.convert-to-invoice');
+    });
+
+    /*
+    |--------------------------------------------------------------------------
+    | Recurring Invoice Routes
+    |--------------------------------------------------------------------------
+    */
+    Route::middleware('permission:view invoices')->group(function () {
+        Route::resource('recurring-invoices', RecurringInvoiceController::class);
+        Route::patch('recurring-invoices/{id}/status', [RecurringInvoiceController::class, 'updateStatus'])->name('recurring-invoices.update-status');
+        Route::post('recurring-invoices/{id}/generate', [RecurringInvoiceController::class, 'generateNow'])->name('recurring-invoices.generate');
     });
 
     /*
@@ -151,9 +218,13 @@
     |--------------------------------------------------------------------------
     */
     Route::middleware('permission:manage invoices')->group(function () {
+        // Declared before the resource so 'email-template' is not taken for an invoice id
+        Route::get('invoices/email-template', [InvoiceController::class, 'emailTemplate'])->name('invoices.email-template');
+        Route::put('invoices/email-template', [InvoiceController::class, 'updateEmailTemplate'])->name('invoices.email-template.update');
         Route::resource('invoices', InvoiceController::class);
         Route::get('invoices/{id}/pdf', [InvoiceController::class, 'generatePDF'])->name('invoices.pdf');
         Route::post('invoices/{id}/send', [InvoiceController::class, 'sendEmail'])->name('invoices.send');
+        Route::post('invoices/{id}/emails/{emailId}/resend', [InvoiceController::class, 'resendEmail'])->name('invoices.emails.resend');
         Route::patch('invoices/{id}/status', [InvoiceController::class, 'updateStatus'])->name('invoices.update-status');
         Route::post('invoices/{id}/record-payment', [InvoiceController::class, 'recordPayment'])->name('invoices.record-payment');
         Route::post('invoices/{id}/duplicate', [InvoiceController::class, 'duplicate'])->name('invoices.duplicate');
@@ -161,6 +232,17 @@
         Route::post('invoices/bulk-action', [InvoiceController::class, 'bulkAction'])->name('invoices.bulk-action');
     });
 
+    /*
+    |--------------------------------------------------------------------------
+    | Credit Note & Refund Routes
+    |--------------------------------------------------------------------------
+    */
+    Route::middleware('permission:view invoices')->group(function () {
+        Route::post('invoices/{id}/credit-notes', [CreditNoteController::class, 'store'])->name('invoices.credit-notes.store');
+        Route::post('invoices/{id}/refunds', [CreditNoteController::class, 'refund'])->name('invoices.refunds.store');
+        Route::patch('credit-notes/{id}/void', [CreditNoteController::class, 'void'])->name('credit-notes.void');
+    });
+
     /*
     |--------------------------------------------------------------------------
     | Payment Management Routes
@@ -172,7 +254,11 @@
     ->name('payments.verify');
 Route::post('payments/{payment}/reject', [PaymentController::class, 'reject'])
     ->name('payments.reject');
-       
+        Route::get('payments/{payment}/receipt-image', [PaymentController::class, 'receiptImage'])->name('payments.receipt-image');
+    });
+
+    // Receipts are printed at the counter right after a quick payment on the invoice page
+    Route::middleware('permission:manage payments|manage invoices')->group(function () {
         Route::get('payments/{id}/receipt', [PaymentController::class, 'generateReceipt'])->name('payments.receipt');
     });
 
@@ -203,6 +289,15 @@
         Route::post('/{printJob}/start-production', [\App\Http\Controllers\PrintJobController::class, 'startProduction'])->name('start-production');
         Route::post('/{printJob}/assign', [\App\Http\Controllers\PrintJobController::class, 'assignStaff'])->name('assign');
         Route::patch('/{printJob}/priority', [\App\Http\Controllers\PrintJobController::class, 'updatePriority'])->name('update-priority');
+        Route::post('/{printJob}/save-as-template', [\App\Http\Controllers\PrintJobTemplateController::class, 'storeFromJob'])->name('save-as-template');
+    });
+
+    // Print Job Template Routes
+    Route::prefix('production/templates')->name('production.templates.')->group(function () {
+        Route::get('/', [\App\Http\Controllers\PrintJobTemplateController::class, 'index'])->name('index');
+        Route::post('/', [\App\Http\Controllers\PrintJobTemplateController::class, 'store'])->name('store');
+        Route::put('/{template}', [\App\Http\Controllers\PrintJobTemplateController::class, 'update'])->name('update');
+        Route::delete('/{template}', [\App\Http\Controllers\PrintJobTemplateController::class, 'destroy'])->name('destroy');
     });
 
     // Production Stage Routes
@@ -216,6 +311,7 @@
         Route::post('/{stage}/approve', [\App\Http\Controllers\ProductionStageController::class, 'approve'])->name('approve');
         Route::post('/{stage}/reject', [\App\Http\Controllers\ProductionStageController::class, 'reject'])->name('reject');
         Route::post('/{stage}/skip', [\App\Http\Controllers\ProductionStageController::class, 'skip'])->name('skip');
+        Route::post('/{stage}/proofs', [\App\Http\Controllers\ProductionStageController::class, 'uploadProofs'])->name('proofs');
         Route::get('/{printJob}/history', [\App\Http\Controllers\ProductionStageController::class, 'history'])->name('history');
         Route::post('/bulk-action', [\App\Http\Controllers\ProductionStageController::class, 'bulkAction'])->name('bulk-action');
         Route::get('/analytics', [\App\Http\Controllers\ProductionStageController::class, 'analytics'])->name('analytics');
@@ -238,11 +334,14 @@
     | Delivery Management Routes
     |--------------------------------------------------------------------------
     */
-    Route::middleware('permission:manage deliveries')->group(function () {
-        Route::resource('deliveries', DeliveryController::class);
+    // Riders only hold 'view deliveries' and 'update delivery status'; the controller checks the rest
+    Route::middleware('permission:view deliveries')->group(function () {
+        Route::resource('deliveries', DeliveryController::class)->except(['edit', 'update']);
         Route::patch('deliveries/{delivery}/status', [DeliveryController::class, 'updateStatus'])->name('deliveries.update-status');
         Route::post('deliveries/{delivery}/assign', [DeliveryController::class, 'assignDeliveryPerson'])->name('deliveries.assign');
         Route::get('deliveries/{delivery}/tracking', [DeliveryController::class, 'getTrackingInfo'])->name('deliveries.tracking');
+        Route::get('deliveries/{delivery}/complete', [DeliveryController::class, 'complete'])->name('deliveries.complete');
+        Route::post('deliveries/{delivery}/proof', [DeliveryController::class, 'storeProof'])->name('deliveries.proof');
     });
 
     /*
@@ -278,6 +377,7 @@
         Route::post('expenses/{expense}/approve', [ExpenseController::class, 'approve'])->name('expenses.approve');
         Route::post('expenses/{expense}/reject', [ExpenseController::class, 'reject'])->name('expenses.reject');
         Route::post('expenses/{expense}/mark-as-paid', [ExpenseController::class, 'markAsPaid'])->name('expenses.mark-as-paid');
+        Route::post('expenses/{expense}/stop-recurring', [ExpenseController::class, 'stopRecurring'])->name('expenses.stop-recurring');
         
         Route::post('expenses/bulk-approve', [ExpenseController::class, 'bulkApprove'])->name('expenses.bulk-approve');
         Route::post('expenses/bulk-reject', [ExpenseController::class, 'bulkReject'])->name('expenses.bulk-reject');
@@ -290,11 +390,11 @@
     |--------------------------------------------------------------------------
     */
     Route::middleware('permission:manage expense_budgets')->group(function () {
+        Route::get('expense-budgets/analytics', [ExpenseBudgetController::class, 'analytics'])->name('expense-budgets.analytics');
         Route::resource('expense-budgets', ExpenseBudgetController::class);
         Route::post('expense-budgets/{expenseBudget}/extend', [ExpenseBudgetController::class, 'extend'])->name('expense-budgets.extend');
         Route::patch('expense-budgets/{expenseBudget}/activate', [ExpenseBudgetController::class, 'activate'])->name('expense-budgets.activate');
         Route::patch('expense-budgets/{expenseBudget}/deactivate', [ExpenseBudgetController::class, 'deactivate'])->name('expense-budgets.deactivate');
-        Route::get('expense-budgets/analytics', [ExpenseBudgetController::class, 'analytics'])->name('expense-budgets.analytics');
     });
 
     /*
@@ -331,8 +431,14 @@
     // Payment gateway webhooks
     Route::post('payhere', [PaymentController::class, 'payhereWebhook'])->name('webhook.payhere');
     Route::post('stripe', [PaymentController::class, 'stripeWebhook'])->name('webhook.stripe');
+
+    // Local stand-in for the PayHere checkout page, answers 404 unless PAYHERE_FAKE is on
+    Route::post('payhere/fake-checkout', [PayHereController::class, 'fakeCheckout'])->name('webhook.payhere.fake-checkout');
 });
 
+// "Pay online" links sent to customers, signed instead of behind a login
+Route::get('pay/{id}', [PayHereController::class, 'checkout'])->name('payhere.checkout');
+
 /*
 |--------------------------------------------------------------------------
 | Fallback Route
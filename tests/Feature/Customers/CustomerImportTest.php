@@ -0,0 +1,114 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\Customer;
+use App\Models\User;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->branch = Branch::factory()->create();
+
+    $this->user = User::factory()
+        ->forBranch($this->branch)
+        ->withPermissions('manage customers', 'create customers', 'edit customers')
+        ->create();
+
+    $this->row = [
+        'name' => 'Nimal Perera',
+        'phone' => '077 123 4567',
+        'billing_address' => '12 Galle Road, Colombo 03',
+        'city' => 'Colombo',
+    ];
+});
+
+test('imported rows are normalised and created in the user\'s branch', function () {
+    $response = $this->actingAs($this->user)->postJson(route('customers.import.store'), [
+        'duplicate_mode' => 'skip',
+        'rows' => [
+            [
+                ...$this->row,
+                'email' => 'Nimal@Example.com',
+                'province' => 'Western Province',
+                'credit_limit' => 'Rs. 25,000.00',
+            ],
+            [
+                ...$this->row,
+                'name' => 'Lanka Prints',
+                'phone' => '94711234567',
+                'customer_type' => 'Business',
+                'company_name' => 'Lanka Prints (Pvt) Ltd',
+                'contact_person' => 'Kamala Silva',
+            ],
+        ],
+    ]);
+
+    $response->assertOk()->assertJson(['success' => true, 'total_rows' => 2, 'created' => 2, 'failed' => 0]);
+
+    $nimal = Customer::where('name', 'Nimal Perera')->sole();
+
+    expect($nimal->company_id)->toBe($this->branch->company_id);
+    expect($nimal->branch_id)->toBe($this->branch->id);
+    expect($nimal->phone)->toBe('+94771234567');
+    expect($nimal->email)->toBe('nimal@example.com');
+    expect($nimal->province)->toBe('western');
+    expect((float) $nimal->credit_limit)->toBe(25000.0);
+    expect($nimal->customer_type)->toBe('individual');
+    expect($nimal->customer_code)->not->toBeEmpty();
+
+    expect(Customer::where('name', 'Lanka Prints')->sole()->customer_type)->toBe('business');
+});
+
+test('rows matching an existing customer are skipped or updated', function () {
+    $existing = Customer::factory()->create([
+        'branch_id' => $this->branch->id,
+        'phone' => '+94771234567',
+        'city' => 'Kandy',
+        'notes' => 'Prefers pickup',
+    ]);
+
+    $row = [...$this->row, 'name' => 'Nimal K. Perera'];
+
+    $this->actingAs($this->user)
+        ->postJson(route('customers.import.store'), ['duplicate_mode' => 'skip', 'rows' => [$row]])
+        ->assertOk()
+        ->assertJson(['skipped' => 1, 'created' => 0])
+        ->assertJsonPath('results.0.message', "Matches existing customer {$existing->customer_code} by phone.");
+
+    expect($existing->fresh()->name)->not->toBe('Nimal K. Perera');
+
+    $this->actingAs($this->user)
+        ->postJson(route('customers.import.store'), ['duplicate_mode' => 'update', 'rows' => [$row]])
+        ->assertOk()
+        ->assertJson(['updated' => 1, 'created' => 0]);
+
+    $existing->refresh();
+
+    expect($existing->name)->toBe('Nimal K. Perera');
+    expect($existing->city)->toBe('Colombo');
+    // Columns the file leaves blank keep their current values
+    expect($existing->notes)->toBe('Prefers pickup');
+    expect(Customer::count())->toBe(1);
+});
+
+test('invalid rows are reported without stopping the rest of the file', function () {
+    $response = $this->actingAs($this->user)->postJson(route('customers.import.store'), [
+        'duplicate_mode' => 'skip',
+        'rows' => [
+            [...$this->row, 'row_number' => 2, 'phone' => '12345'],
+            [...$this->row, 'row_number' => 3, 'customer_type' => 'business'],
+            [...$this->row, 'row_number' => 4, 'phone' => '0712345678'],
+        ],
+    ]);
+
+    $response->assertOk()->assertJson(['created' => 1, 'failed' => 2]);
+
+    $results = collect($response->json('results'))->keyBy('row_number');
+
+    expect($results[2]['status'])->toBe('failed');
+    expect($results[2]['message'])->toContain('valid phone number');
+    expect($results[3]['status'])->toBe('failed');
+    expect($results[3]['message'])->toContain('company name');
+    expect($results[4]['status'])->toBe('created');
+    expect(Customer::count())->toBe(1);
+});
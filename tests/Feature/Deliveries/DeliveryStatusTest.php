@@ -0,0 +1,112 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\Delivery;
+use App\Models\User;
+use App\Services\DeliveryService;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->branch = Branch::factory()->create();
+
+    $this->rider = User::factory()
+        ->forBranch($this->branch)
+        ->withPermissions('view deliveries', 'update delivery status')
+        ->create();
+
+    $this->delivery = Delivery::factory()->create([
+        'branch_id' => $this->branch->id,
+        'assigned_to' => $this->rider->id,
+        'status' => 'assigned',
+    ]);
+});
+
+test('allowed status changes are written to the status history', function () {
+    $service = app(DeliveryService::class);
+
+    $service->changeStatus($this->delivery, 'picked_up', $this->rider->id, 'Collected from the counter');
+    $service->changeStatus($this->delivery->fresh(), 'out_for_delivery', $this->rider->id, null, [
+        'latitude' => 6.9271,
+        'longitude' => 79.8612,
+    ]);
+
+    $this->delivery->refresh();
+    $history = $this->delivery->statusHistory()->reorder()->orderBy('id')->get();
+
+    expect($this->delivery->status)->toBe('out_for_delivery');
+    expect($this->delivery->pickup_datetime)->not->toBeNull();
+    expect((float) $this->delivery->latitude)->toBe(6.9271);
+    expect($history->pluck('status')->all())->toBe(['picked_up', 'out_for_delivery']);
+    expect($history[0]->notes)->toBe('Collected from the counter');
+    expect($history[0]->updated_by)->toBe($this->rider->id);
+    expect($history[1]->location_data['longitude'])->toBe(79.8612);
+});
+
+test('status changes outside the workflow are rejected', function (string $from, string $to) {
+    $this->delivery->update(['status' => $from]);
+
+    expect(fn () => app(DeliveryService::class)->changeStatus($this->delivery, $to, $this->rider->id))
+        ->toThrow(Exception::class, 'A delivery cannot move from');
+
+    expect($this->delivery->fresh()->status)->toBe($from);
+    expect($this->delivery->statusHistory()->count())->toBe(0);
+})->with([
+    'skipping the pickup' => ['assigned', 'delivered'],
+    'reopening a delivered job' => ['delivered', 'out_for_delivery'],
+    'reviving a cancelled job' => ['cancelled', 'pending'],
+]);
+
+test('a failed attempt needs a reason', function () {
+    $this->delivery->update(['status' => 'out_for_delivery']);
+
+    expect(fn () => app(DeliveryService::class)->changeStatus($this->delivery, 'failed', $this->rider->id))
+        ->toThrow(Exception::class, 'Please record why the delivery attempt failed');
+
+    expect($this->delivery->fresh()->status)->toBe('out_for_delivery');
+});
+
+test('riders can move their own deliveries along', function () {
+    $this->actingAs($this->rider)
+        ->patch(route('deliveries.update-status', $this->delivery->id), ['status' => 'picked_up'])
+        ->assertSessionHasNoErrors();
+
+    expect($this->delivery->fresh()->status)->toBe('picked_up');
+});
+
+test('riders cannot update deliveries assigned to someone else', function () {
+    $otherRider = User::factory()
+        ->forBranch($this->branch)
+        ->withPermissions('view deliveries', 'update delivery status')
+        ->create();
+
+    $this->actingAs($otherRider)
+        ->patch(route('deliveries.update-status', $this->delivery->id), ['status' => 'picked_up'])
+        ->assertForbidden();
+
+    expect($this->delivery->fresh()->status)->toBe('assigned');
+});
+
+test('deliveries of another company or branch are out of reach', function () {
+    $otherCompanyManager = User::factory()
+        ->forBranch(Branch::factory()->create())
+        ->withPermissions('view deliveries', 'update delivery status', 'manage deliveries', 'view all branches')
+        ->create();
+
+    $otherBranchManager = User::factory()
+        ->forBranch(Branch::factory()->create(['company_id' => $this->branch->company_id]))
+        ->withPermissions('view deliveries', 'update delivery status', 'manage deliveries')
+        ->create();
+
+    foreach ([$otherCompanyManager, $otherBranchManager] as $user) {
+        $this->actingAs($user)
+            ->patch(route('deliveries.update-status', $this->delivery->id), ['status' => 'picked_up'])
+            ->assertForbidden();
+
+        $this->actingAs($user)
+            ->getJson(route('deliveries.tracking', $this->delivery->id))
+            ->assertForbidden();
+    }
+
+    expect($this->delivery->fresh()->status)->toBe('assigned');
+});
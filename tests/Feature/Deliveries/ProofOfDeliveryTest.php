@@ -0,0 +1,99 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\Delivery;
+use App\Models\User;
+use Illuminate\Http\UploadedFile;
+use Illuminate\Support\Facades\Storage;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    Storage::fake('public');
+
+    $branch = Branch::factory()->create();
+
+    $this->rider = User::factory()
+        ->forBranch($branch)
+        ->withPermissions('view deliveries', 'update delivery status')
+        ->create();
+
+    $this->delivery = Delivery::factory()->create([
+        'branch_id' => $branch->id,
+        'assigned_to' => $this->rider->id,
+        'status' => 'out_for_delivery',
+    ]);
+
+    // A 1x1 PNG, as the signature pad sends it
+    $this->signature = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+});
+
+test('the signature, photo and location complete the delivery', function () {
+    $this->actingAs($this->rider)
+        ->post(route('deliveries.proof', $this->delivery->id), [
+            'signature' => $this->signature,
+            'photo' => UploadedFile::fake()->image('doorstep.jpg'),
+            'recipient_name' => 'Kamala Silva',
+            'latitude' => 6.9271,
+            'longitude' => 79.8612,
+            'accuracy' => 12.34,
+        ])
+        ->assertRedirect(route('deliveries.show', $this->delivery->id))
+        ->assertSessionHasNoErrors();
+
+    $this->delivery->refresh();
+    $history = $this->delivery->statusHistory()->reorder()->latest('id')->first();
+
+    expect($this->delivery->status)->toBe('delivered');
+    expect($this->delivery->actual_delivery_datetime)->not->toBeNull();
+    expect($this->delivery->delivery_proof['recipient_name'])->toBe('Kamala Silva');
+    expect($this->delivery->delivery_proof['captured_by'])->toBe($this->rider->id);
+    expect($this->delivery->delivery_proof['accuracy'])->toBe(12.3);
+    expect((float) $this->delivery->longitude)->toBe(79.8612);
+
+    Storage::disk('public')->assertExists($this->delivery->delivery_proof['signature_path']);
+    Storage::disk('public')->assertExists($this->delivery->delivery_image);
+
+    expect($history->status)->toBe('delivered');
+    expect($history->notes)->toBe('Received by Kamala Silva');
+    expect($history->image_path)->toBe($this->delivery->delivery_image);
+});
+
+test('a delivery cannot be completed without the recipient\'s signature', function () {
+    $this->actingAs($this->rider)
+        ->post(route('deliveries.proof', $this->delivery->id), ['recipient_name' => 'Kamala Silva'])
+        ->assertSessionHasErrors(['signature' => 'Ask the recipient to sign before completing the delivery']);
+
+    expect($this->delivery->fresh()->status)->toBe('out_for_delivery');
+});
+
+test('an unreadable signature leaves no files behind', function () {
+    $this->actingAs($this->rider)
+        ->post(route('deliveries.proof', $this->delivery->id), [
+            'signature' => 'data:image/png;base64,' . base64_encode('not an image'),
+            'photo' => UploadedFile::fake()->image('doorstep.jpg'),
+        ])
+        ->assertSessionHasErrors(['error' => 'The signature could not be read, please sign again']);
+
+    expect($this->delivery->fresh()->status)->toBe('out_for_delivery');
+    expect(Storage::disk('public')->allFiles())->toBe([]);
+});
+
+test('deliveries that are not out for delivery cannot be completed', function () {
+    $this->delivery->update(['status' => 'assigned']);
+
+    $this->actingAs($this->rider)
+        ->post(route('deliveries.proof', $this->delivery->id), ['signature' => $this->signature])
+        ->assertSessionHasErrors(['error' => 'A delivery cannot be completed while it is Assigned']);
+
+    expect($this->delivery->fresh()->status)->toBe('assigned');
+    expect(Storage::disk('public')->allFiles())->toBe([]);
+});
+
+test('marking a delivery delivered without proof sends the rider to the proof screen', function () {
+    $this->actingAs($this->rider)
+        ->patch(route('deliveries.update-status', $this->delivery->id), ['status' => 'delivered'])
+        ->assertRedirect(route('deliveries.complete', $this->delivery->id));
+
+    expect($this->delivery->fresh()->status)->toBe('out_for_delivery');
+});
@@ -0,0 +1,94 @@
+<?php
+
+use App\Events\ExpenseBudgetThresholdReached;
+use App\Models\Branch;
+use App\Models\Expense;
+use App\Models\ExpenseCategory;
+use App\Models\User;
+use App\Services\ExpenseBudgetService;
+use Illuminate\Support\Facades\Event;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    Event::fake([ExpenseBudgetThresholdReached::class]);
+
+    $this->branch = Branch::factory()->create();
+    $this->category = ExpenseCategory::factory()->create(['company_id' => $this->branch->company_id]);
+    $this->actingAs(User::factory()->forBranch($this->branch)->create());
+
+    $this->expenses = Expense::factory()->state([
+        'branch_id' => $this->branch->id,
+        'category_id' => $this->category->id,
+        'status' => 'approved',
+    ]);
+
+    $this->budget = app(ExpenseBudgetService::class)->createBudget([
+        'category_id' => $this->category->id,
+        'budget_name' => 'Stationery',
+        'budget_period' => 'monthly',
+        'budget_year' => now()->year,
+        'budget_month' => now()->month,
+        'budget_amount' => 10000,
+        'alert_threshold' => 80,
+        'send_alerts' => true,
+    ], $this->branch->company_id);
+});
+
+test('crossing the threshold raises one alert', function () {
+    $this->expenses->create(['amount' => 8500]);
+
+    // Drafts and other categories do not count
+    $this->expenses->create(['amount' => 5000, 'status' => 'draft']);
+    Expense::factory()->create(['branch_id' => $this->branch->id, 'amount' => 5000, 'status' => 'approved']);
+
+    $alerts = app(ExpenseBudgetService::class)->updateAllBudgetsSpending($this->branch->company_id);
+
+    expect($alerts)->toHaveCount(1)
+        ->and($alerts[0])->toMatchArray(['budget_id' => $this->budget->id, 'level' => 'threshold', 'spent_percentage' => 85.0]);
+
+    Event::assertDispatched(ExpenseBudgetThresholdReached::class, fn ($event) => $event->budget->is($this->budget) && $event->level === 'threshold');
+
+    // Running again without new spending stays quiet
+    expect(app(ExpenseBudgetService::class)->updateAllBudgetsSpending($this->branch->company_id))->toBe([]);
+    Event::assertDispatchedTimes(ExpenseBudgetThresholdReached::class, 1);
+
+    $budget = $this->budget->fresh();
+    expect((float) $budget->spent_amount)->toBe(8500.0)
+        ->and($budget->status)->toBe('active')
+        ->and($budget->metadata['alerts'])->toHaveCount(1);
+});
+
+test('overspending escalates the alert and extending the budget re-arms it', function () {
+    $service = app(ExpenseBudgetService::class);
+
+    $this->expenses->create(['amount' => 8500]);
+    $service->updateAllBudgetsSpending();
+
+    $this->expenses->create(['amount' => 2000]);
+    $alerts = $service->updateAllBudgetsSpending();
+
+    expect($alerts)->toHaveCount(1)
+        ->and($alerts[0]['level'])->toBe('exceeded')
+        ->and($this->budget->fresh()->status)->toBe('exceeded');
+
+    $service->extendBudget($this->budget->fresh(), 5000, 'Extra print run');
+
+    $budget = $this->budget->fresh();
+    expect($budget->status)->toBe('active')
+        ->and($budget->alert_settings['last_alert_level'])->toBeNull();
+
+    Event::assertDispatchedTimes(ExpenseBudgetThresholdReached::class, 2);
+});
+
+test('budgets with alerts turned off record the alert without broadcasting it', function () {
+    $this->budget->update(['send_alerts' => false]);
+    $this->expenses->create(['amount' => 9000]);
+
+    $this->artisan('expenses:update-budgets', ['--company' => $this->branch->company_id])
+        ->expectsOutputToContain('1 budget alert(s) raised.')
+        ->assertSuccessful();
+
+    expect($this->budget->fresh()->metadata['alerts'][0]['level'])->toBe('threshold');
+    Event::assertNotDispatched(ExpenseBudgetThresholdReached::class);
+});
@@ -0,0 +1,72 @@
+<?php
+
+use App\Models\Expense;
+use App\Services\ExpenseService;
+use Carbon\Carbon;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->rent = Expense::factory()->recurring('monthly', '2026-01-10')->create([
+        'expense_date' => '2025-12-10',
+        'description' => 'Shop rent',
+        'amount' => 45000,
+        'vendor_name' => 'Perera Holdings',
+        'status' => 'paid',
+    ]);
+});
+
+test('missed occurrences are generated as drafts cloned from the original', function () {
+    $results = app(ExpenseService::class)->generateDueRecurringExpenses(Carbon::parse('2026-04-15'));
+
+    expect($results['failed'])->toBe([])
+        ->and($results['generated'])->toHaveCount(4);
+
+    $occurrences = $this->rent->recurringOccurrences()->orderBy('expense_date')->get();
+
+    expect($occurrences->map(fn (Expense $expense) => $expense->expense_date->toDateString())->all())
+        ->toBe(['2026-01-10', '2026-02-10', '2026-03-10', '2026-04-10']);
+
+    foreach ($occurrences as $occurrence) {
+        expect($occurrence->status)->toBe('draft')
+            ->and($occurrence->is_recurring)->toBeFalse()
+            ->and($occurrence->description)->toBe('Shop rent')
+            ->and($occurrence->vendor_name)->toBe('Perera Holdings')
+            ->and((float) $occurrence->amount)->toBe(45000.0);
+    }
+
+    expect($this->rent->fresh()->next_due_date->toDateString())->toBe('2026-05-10');
+});
+
+test('auto-submitted series send their occurrences for approval', function () {
+    $this->rent->update(['recurring_auto_submit' => true]);
+
+    app(ExpenseService::class)->generateDueRecurringExpenses(Carbon::parse('2026-01-10'));
+
+    expect($this->rent->recurringOccurrences()->sole()->status)->toBe('pending_approval');
+});
+
+test('cancelled and stopped series generate nothing', function () {
+    $stopped = Expense::factory()->recurring('weekly', '2026-01-05')->create();
+    app(ExpenseService::class)->stopRecurringSeries($stopped);
+
+    $this->rent->update(['status' => 'cancelled']);
+
+    $results = app(ExpenseService::class)->generateDueRecurringExpenses(Carbon::parse('2026-04-15'));
+
+    expect($results['generated'])->toBe([])
+        ->and(Expense::whereNotNull('recurring_parent_id')->count())->toBe(0);
+});
+
+test('a dry run lists the due occurrences without creating them', function () {
+    $this->artisan('expenses:generate-recurring', ['--date' => '2026-02-15', '--dry-run' => true])
+        ->expectsOutputToContain('2 generated, 0 failed.')
+        ->assertSuccessful();
+
+    expect($this->rent->recurringOccurrences()->count())->toBe(0)
+        ->and($this->rent->fresh()->next_due_date->toDateString())->toBe('2026-01-10');
+
+    $this->artisan('expenses:generate-recurring', ['--date' => '2026-02-15'])->assertSuccessful();
+
+    expect($this->rent->recurringOccurrences()->count())->toBe(2);
+});
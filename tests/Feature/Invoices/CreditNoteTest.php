@@ -0,0 +1,134 @@
+<?php
+
+use App\Models\CreditNote;
+use App\Models\Invoice;
+use App\Models\InvoiceItem;
+use App\Models\Payment;
+use App\Models\User;
+use App\Services\CreditNoteService;
+use App\Services\PaymentService;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    // Four items at Rs. 1,000 with no tax, so the invoice total is Rs. 4,000
+    $this->invoice = Invoice::factory()
+        ->has(InvoiceItem::factory()->state(['quantity' => 4, 'unit_price' => 1000]), 'items')
+        ->create()
+        ->refresh();
+
+    $this->invoice->customer->update(['current_balance' => 4000]);
+
+    $this->actingAs($this->user = User::factory()->forBranch($this->invoice->branch)->create());
+});
+
+test('crediting lines of an unpaid invoice lowers the customer balance', function () {
+    $creditNote = app(CreditNoteService::class)->issueCreditNote($this->invoice, [
+        'reason' => 'One box arrived damaged',
+        'items' => [['invoice_item_id' => $this->invoice->items->first()->id, 'quantity' => 1]],
+    ], $this->user->id);
+
+    expect((float) $creditNote->amount)->toBe(1000.0);
+    expect((float) $creditNote->balance_adjustment)->toBe(1000.0);
+    expect($creditNote->items)->toHaveCount(1);
+    expect((float) $this->invoice->customer->fresh()->current_balance)->toBe(3000.0);
+    expect($this->invoice->fresh()->remaining_amount)->toBe(3000.0);
+});
+
+test('crediting a paid invoice with a refund pays the customer back without touching the balance', function () {
+    Payment::factory()->create(['invoice_id' => $this->invoice->id, 'amount' => 4000]);
+    $this->invoice->customer->update(['current_balance' => 0]);
+    $this->invoice->refresh();
+
+    $creditNote = app(CreditNoteService::class)->issueCreditNote($this->invoice, [
+        'reason' => 'Returned one box',
+        'items' => [['invoice_item_id' => $this->invoice->items->first()->id, 'quantity' => 1]],
+        'refund' => true,
+        'refund_method' => 'cash',
+    ], $this->user->id);
+
+    $refund = Payment::where('payment_type', 'refund')->sole();
+
+    expect((float) $creditNote->balance_adjustment)->toBe(0.0);
+    expect((float) $refund->amount)->toBe(-1000.0);
+    expect($refund->credit_note_id)->toBe($creditNote->id);
+    expect($refund->status)->toBe('completed');
+    expect((float) $this->invoice->customer->fresh()->current_balance)->toBe(0.0);
+    expect($this->invoice->fresh()->refundable_amount)->toBe(0.0);
+    expect($this->invoice->fresh()->payment_status)->toBe('paid');
+});
+
+test('fully crediting an unpaid invoice marks it credited rather than refunded', function () {
+    $this->invoice->update(['due_date' => now()->subWeek()->toDateString()]);
+
+    app(CreditNoteService::class)->issueCreditNote($this->invoice, [
+        'reason' => 'Order cancelled before printing',
+        'amount' => 4000,
+    ], $this->user->id);
+
+    $invoice = $this->invoice->fresh();
+
+    expect($invoice->payment_status)->toBe('credited');
+    expect($invoice->is_overdue)->toBeFalse();
+    expect($invoice->isEditable())->toBeFalse();
+});
+
+test('fully crediting a paid invoice with a refund marks it refunded', function () {
+    Payment::factory()->create(['invoice_id' => $this->invoice->id, 'amount' => 4000]);
+    $this->invoice->customer->update(['current_balance' => 0]);
+    $this->invoice->refresh();
+
+    app(CreditNoteService::class)->issueCreditNote($this->invoice, [
+        'reason' => 'Whole order returned',
+        'amount' => 4000,
+        'refund' => true,
+        'refund_method' => 'cash',
+    ], $this->user->id);
+
+    expect($this->invoice->fresh()->payment_status)->toBe('refunded');
+});
+
+test('voiding a credit note restores the customer balance', function () {
+    $service = app(CreditNoteService::class);
+
+    $creditNote = $service->issueCreditNote($this->invoice, [
+        'reason' => 'Wrong price charged',
+        'amount' => 1500,
+    ], $this->user->id);
+
+    expect((float) $this->invoice->customer->fresh()->current_balance)->toBe(2500.0);
+
+    $service->voidCreditNote($creditNote, 'Issued against the wrong invoice', $this->user->id);
+
+    expect($creditNote->fresh()->status)->toBe('void');
+    expect((float) $this->invoice->customer->fresh()->current_balance)->toBe(4000.0);
+    expect($this->invoice->fresh()->remaining_amount)->toBe(4000.0);
+});
+
+test('credits above the uncredited invoice total are rejected', function () {
+    expect(fn () => app(CreditNoteService::class)->issueCreditNote($this->invoice, [
+        'reason' => 'Goodwill',
+        'amount' => 4000.01,
+    ], $this->user->id))->toThrow(Exception::class, 'Credit amount cannot exceed');
+
+    expect(fn () => app(CreditNoteService::class)->issueCreditNote($this->invoice, [
+        'reason' => 'Returned stock',
+        'items' => [['invoice_item_id' => $this->invoice->items->first()->id, 'quantity' => 5]],
+    ], $this->user->id))->toThrow(Exception::class, 'can still be credited');
+
+    expect(CreditNote::count())->toBe(0);
+    expect((float) $this->invoice->customer->fresh()->current_balance)->toBe(4000.0);
+});
+
+test('refunds above the overpaid amount are rejected', function () {
+    Payment::factory()->create(['invoice_id' => $this->invoice->id, 'amount' => 4000]);
+    $this->invoice->customer->update(['current_balance' => 0]);
+    $this->invoice->refresh();
+
+    expect(fn () => app(PaymentService::class)->recordRefund($this->invoice, [
+        'amount' => 1,
+        'payment_method' => 'cash',
+    ]))->toThrow(Exception::class, 'Refund amount cannot exceed');
+
+    expect(Payment::where('payment_type', 'refund')->count())->toBe(0);
+});
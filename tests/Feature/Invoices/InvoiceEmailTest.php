@@ -0,0 +1,93 @@
+<?php
+
+use App\Mail\InvoiceMail;
+use App\Models\Invoice;
+use App\Models\InvoiceEmail;
+use App\Models\InvoiceItem;
+use App\Models\User;
+use App\Services\InvoiceEmailService;
+use Illuminate\Support\Facades\Mail;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    Mail::fake();
+
+    $this->invoice = Invoice::factory()
+        ->has(InvoiceItem::factory()->state(['unit_price' => 2500]), 'items')
+        ->create();
+
+    $this->user = User::factory()
+        ->forBranch($this->invoice->branch)
+        ->withPermissions('manage invoices', 'edit invoices')
+        ->create();
+});
+
+test('sending an invoice queues the mail with its pdf and logs it as queued', function () {
+    $this->actingAs($this->user)
+        ->post(route('invoices.send', $this->invoice->id), ['recipient' => 'accounts@example.com'])
+        ->assertSessionHasNoErrors();
+
+    $invoiceEmail = InvoiceEmail::sole();
+
+    expect($invoiceEmail->invoice_id)->toBe($this->invoice->id);
+    expect($invoiceEmail->recipient)->toBe('accounts@example.com');
+    expect($invoiceEmail->status)->toBe('queued');
+    expect($invoiceEmail->sent_by)->toBe($this->user->id);
+    expect($invoiceEmail->subject)->toContain($this->invoice->invoice_number);
+
+    Mail::assertQueued(InvoiceMail::class, function (InvoiceMail $mail) use ($invoiceEmail) {
+        $attachments = $mail->attachments();
+        $pdf = $attachments[0]->attachWith(fn ($path) => null, fn ($data) => $data());
+
+        return $mail->hasTo('accounts@example.com')
+            && $mail->invoiceEmail->is($invoiceEmail)
+            && count($attachments) === 1
+            && $attachments[0]->as === $this->invoice->invoice_number . '.pdf'
+            && $attachments[0]->mime === 'application/pdf'
+            && str_starts_with($pdf, '%PDF');
+    });
+});
+
+test('resending an email logs a new entry pointing at the original', function () {
+    $original = app(InvoiceEmailService::class)
+        ->sendInvoice($this->invoice, 'accounts@example.com', $this->user->id);
+
+    $this->actingAs($this->user)
+        ->post(route('invoices.emails.resend', [$this->invoice->id, $original->id]))
+        ->assertSessionHasNoErrors();
+
+    $resent = InvoiceEmail::whereKeyNot($original->id)->sole();
+
+    expect($resent->resent_from_id)->toBe($original->id);
+    expect($resent->recipient)->toBe('accounts@example.com');
+    expect($resent->status)->toBe('queued');
+    expect($original->fresh()->status)->toBe('queued');
+
+    Mail::assertQueued(InvoiceMail::class, 2);
+});
+
+test('a mail that fails every attempt marks its log entry failed', function () {
+    $invoiceEmail = app(InvoiceEmailService::class)
+        ->sendInvoice($this->invoice, 'accounts@example.com', $this->user->id);
+
+    (new InvoiceMail($invoiceEmail))->failed(new RuntimeException('Mailbox unavailable'));
+
+    $invoiceEmail->refresh();
+
+    expect($invoiceEmail->status)->toBe('failed');
+    expect($invoiceEmail->error)->toBe('Mailbox unavailable');
+});
+
+test('the log entry is marked sent once the mailer accepts the message', function () {
+    // Deliver through the array mailer instead of the fake so MessageSent fires
+    Mail::swap(app('mail.manager'));
+
+    $invoiceEmail = app(InvoiceEmailService::class)
+        ->sendInvoice($this->invoice, 'accounts@example.com', $this->user->id);
+
+    $invoiceEmail->refresh();
+
+    expect($invoiceEmail->status)->toBe('sent')
+        ->and($invoiceEmail->sent_at)->not->toBeNull();
+});
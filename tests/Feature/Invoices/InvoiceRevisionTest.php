@@ -0,0 +1,119 @@
+<?php
+
+use App\Models\Invoice;
+use App\Models\InvoiceItem;
+use App\Models\InvoiceRevision;
+use App\Models\Payment;
+use App\Models\User;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->invoice = Invoice::factory()->has(InvoiceItem::factory(), 'items')->create();
+    $this->item = $this->invoice->items()->first();
+
+    $this->user = User::factory()
+        ->forBranch($this->invoice->branch)
+        ->withPermissions('manage invoices', 'edit invoices')
+        ->create();
+
+    $this->payload = [
+        'discount_amount' => 100,
+        'items' => [[
+            'product_id' => $this->item->product_id,
+            'item_description' => $this->item->item_description,
+            'quantity' => 2,
+            'unit_price' => 1000,
+        ]],
+    ];
+});
+
+test('editing an open invoice records what changed', function () {
+    $this->actingAs($this->user)
+        ->put(route('invoices.update', $this->invoice->id), $this->payload)
+        ->assertSessionHasNoErrors()
+        ->assertRedirect(route('invoices.show', $this->invoice->id));
+
+    $revision = InvoiceRevision::where('invoice_id', $this->invoice->id)->sole();
+
+    expect($revision->revision_number)->toBe(1)
+        ->and($revision->user_id)->toBe($this->user->id)
+        ->and((float) $revision->old_total)->toBe(1000.0)
+        ->and((float) $revision->new_total)->toBe(1900.0)
+        ->and($revision->lock_reason)->toBeNull()
+        ->and($revision->changes)->toHaveKeys(['discount_amount', 'subtotal', 'total_amount'])
+        ->and($revision->item_changes)->toHaveCount(1)
+        ->and($revision->item_changes[0])->toMatchArray([
+            'action' => 'changed',
+            'product_id' => $this->item->product_id,
+            'from' => ['quantity' => 1, 'unit_price' => 1000, 'line_total' => 1000],
+            'to' => ['quantity' => 2, 'unit_price' => 1000, 'line_total' => 2000],
+        ]);
+});
+
+test('revisions are numbered in order and unchanged saves add none', function () {
+    $this->actingAs($this->user)->put(route('invoices.update', $this->invoice->id), $this->payload);
+    $this->actingAs($this->user)->put(route('invoices.update', $this->invoice->id), $this->payload);
+    $this->actingAs($this->user)->put(route('invoices.update', $this->invoice->id), [...$this->payload, 'discount_amount' => 0]);
+
+    expect(InvoiceRevision::where('invoice_id', $this->invoice->id)->orderBy('revision_number')->pluck('revision_number')->all())
+        ->toBe([1, 2]);
+});
+
+test('paid invoices cannot be edited without the override permission', function () {
+    Payment::factory()->create(['invoice_id' => $this->invoice->id, 'amount' => 1000]);
+
+    $this->actingAs($this->user)
+        ->put(route('invoices.update', $this->invoice->id), [...$this->payload, 'revision_note' => 'Customer asked for two'])
+        ->assertSessionHasErrors(['invoice' => 'Invoice cannot be modified at this time.']);
+
+    expect($this->invoice->refresh()->total_amount)->toEqual(1000)
+        ->and(InvoiceRevision::count())->toBe(0);
+});
+
+test('overriding the lock needs a reason and records it', function () {
+    Payment::factory()->create(['invoice_id' => $this->invoice->id, 'amount' => 1000]);
+    $manager = User::factory()
+        ->forBranch($this->invoice->branch)
+        ->withPermissions('manage invoices', 'edit invoices', 'override invoice lock')
+        ->create();
+
+    $this->actingAs($manager)
+        ->put(route('invoices.update', $this->invoice->id), $this->payload)
+        ->assertSessionHasErrors('revision_note');
+
+    $this->actingAs($manager)
+        ->put(route('invoices.update', $this->invoice->id), [...$this->payload, 'revision_note' => 'Customer asked for two'])
+        ->assertSessionHasNoErrors();
+
+    $revision = InvoiceRevision::where('invoice_id', $this->invoice->id)->sole();
+
+    expect($revision->lock_reason)->toBe('This invoice has been paid.')
+        ->and($revision->note)->toBe('Customer asked for two')
+        ->and($this->invoice->refresh()->payment_status)->toBe('partially_paid');
+});
+
+test('invoices past draft and pending need the override and a reason', function (Closure $lock, string $lockReason) {
+    $lock($this->invoice);
+    $manager = User::factory()
+        ->forBranch($this->invoice->branch)
+        ->withPermissions('manage invoices', 'edit invoices', 'override invoice lock')
+        ->create();
+
+    $this->actingAs($this->user)
+        ->put(route('invoices.update', $this->invoice->id), [...$this->payload, 'revision_note' => 'Customer asked for two'])
+        ->assertSessionHasErrors(['invoice' => 'Invoice cannot be modified at this time.']);
+
+    $this->actingAs($manager)
+        ->put(route('invoices.update', $this->invoice->id), [...$this->payload, 'revision_note' => 'Customer asked for two'])
+        ->assertSessionHasNoErrors();
+
+    expect(InvoiceRevision::where('invoice_id', $this->invoice->id)->sole()->lock_reason)->toBe($lockReason);
+})->with([
+    'in production' => [fn (Invoice $invoice) => $invoice->update(['status' => 'processing']), 'This invoice is in production.'],
+    'completed' => [fn (Invoice $invoice) => $invoice->update(['status' => 'completed']), 'This invoice has been completed.'],
+    'with an unverified payment' => [
+        fn (Invoice $invoice) => Payment::factory()->create(['invoice_id' => $invoice->id, 'status' => 'pending', 'verification_status' => 'pending']),
+        'Payments have been recorded against this invoice.',
+    ],
+]);
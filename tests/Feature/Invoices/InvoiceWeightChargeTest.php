@@ -0,0 +1,67 @@
+<?php
+
+use App\Models\Company;
+use App\Models\Customer;
+use App\Models\Product;
+use App\Models\User;
+use App\Models\WeightPricingTier;
+use App\Services\InvoiceService;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->customer = Customer::factory()->create();
+    $this->companyId = $this->customer->company_id;
+
+    $tiers = [
+        ['tier_name' => 'Small', 'min_weight' => 0, 'max_weight' => 5, 'base_price' => 300, 'price_per_kg' => 0, 'status' => 'active'],
+        ['tier_name' => 'Medium', 'min_weight' => 5, 'max_weight' => 20, 'base_price' => 500, 'price_per_kg' => 40, 'status' => 'active'],
+        ['tier_name' => 'Retired', 'min_weight' => 20, 'max_weight' => 50, 'base_price' => 900, 'price_per_kg' => 10, 'status' => 'inactive'],
+    ];
+
+    foreach ($tiers as $index => $tier) {
+        WeightPricingTier::create(['company_id' => $this->companyId, 'sort_order' => $index + 1, ...$tier]);
+    }
+});
+
+test('weight charges come from the matching tier', function (float $weight, float $charge) {
+    expect(app(InvoiceService::class)->calculateWeightCharge($weight, $this->companyId))->toBe($charge);
+})->with([
+    'empty parcel' => [0.0, 300.0],
+    'inside the first tier' => [2.5, 300.0],
+    'on the shared boundary, lower tier wins' => [5.0, 300.0],
+    'just into the second tier' => [5.5, 520.0],
+    'top of the second tier' => [20.0, 1100.0],
+]);
+
+test('weights outside every active tier carry no charge', function () {
+    $service = app(InvoiceService::class);
+
+    // Only the inactive tier covers 25kg
+    expect($service->calculateWeightCharge(25, $this->companyId))->toBe(0.0);
+    expect($service->calculateWeightCharge(75, $this->companyId))->toBe(0.0);
+
+    // Tiers belong to one company
+    expect($service->calculateWeightCharge(2.5, Company::factory()->create()->id))->toBe(0.0);
+});
+
+test('created invoices store the weight charge of their tier', function () {
+    $product = Product::factory()->create([
+        'company_id' => $this->companyId,
+        'weight_per_unit' => 2,
+    ]);
+    $user = User::factory()->forBranch($this->customer->branch)->create();
+
+    $invoice = app(InvoiceService::class)->createInvoice([
+        'customer_id' => $this->customer->id,
+        'branch_id' => $this->customer->branch_id,
+        'items' => [['product_id' => $product->id, 'quantity' => 3, 'unit_price' => 1000]],
+    ], $this->companyId, $user->id);
+
+    $invoice->refresh();
+
+    // 6kg falls in the medium tier: 500 + 1kg x 40
+    expect((float) $invoice->total_weight)->toBe(6.0);
+    expect((float) $invoice->weight_charge)->toBe(540.0);
+    expect((float) $invoice->total_amount)->toBe(3540.0);
+});
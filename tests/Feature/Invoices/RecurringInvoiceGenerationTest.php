@@ -0,0 +1,91 @@
+<?php
+
+use App\Mail\InvoiceMail;
+use App\Models\Customer;
+use App\Models\RecurringInvoiceProfile;
+use App\Models\RecurringInvoiceProfileItem;
+use App\Services\RecurringInvoiceService;
+use Carbon\Carbon;
+use Illuminate\Support\Facades\Mail;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    Mail::fake();
+
+    $this->customer = Customer::factory()->create();
+    $this->profiles = RecurringInvoiceProfile::factory()
+        ->state(['customer_id' => $this->customer->id])
+        ->has(RecurringInvoiceProfileItem::factory(), 'items');
+});
+
+test('missed runs are caught up, up to the per-pass limit', function () {
+    $recent = $this->profiles->create(['name' => 'Recent', 'start_date' => '2026-03-01']);
+    $overdue = $this->profiles->create(['name' => 'Overdue', 'start_date' => '2025-01-01']);
+
+    $results = app(RecurringInvoiceService::class)->generateDueInvoices(Carbon::parse('2026-06-01'));
+
+    expect($results['failed'])->toBe([]);
+
+    // March to June
+    expect($recent->invoices()->count())->toBe(4);
+    expect($recent->fresh()->next_run_date->toDateString())->toBe('2026-07-01');
+
+    // Twelve of the seventeen runs due; the rest wait for the next pass
+    expect($overdue->invoices()->count())->toBe(12);
+    expect($overdue->invoices()->orderBy('id')->pluck('invoice_date')->map->toDateString()->all())
+        ->toBe(collect(range(1, 12))->map(fn ($month) => sprintf('2025-%02d-01', $month))->all());
+    expect($overdue->fresh()->next_run_date->toDateString())->toBe('2026-01-01');
+    expect($overdue->fresh()->status)->toBe('active');
+});
+
+test('a profile ends after its last run before the end date', function () {
+    $profile = $this->profiles->create([
+        'start_date' => '2026-01-15',
+        'end_date' => '2026-03-20',
+    ]);
+
+    app(RecurringInvoiceService::class)->generateDueInvoices(Carbon::parse('2026-06-01'));
+
+    $profile->refresh();
+
+    expect($profile->invoices()->count())->toBe(3);
+    expect($profile->status)->toBe('ended');
+    expect($profile->next_run_date)->toBeNull();
+});
+
+test('a failing profile records its error and the others still run', function () {
+    // The customer has moved to another company, so invoicing it under this company fails
+    $broken = $this->profiles->create(['name' => 'Broken', 'start_date' => '2026-05-01']);
+    $broken->update(['customer_id' => Customer::factory()->create()->id]);
+
+    $healthy = $this->profiles->create(['name' => 'Healthy', 'start_date' => '2026-05-15']);
+
+    $results = app(RecurringInvoiceService::class)->generateDueInvoices(Carbon::parse('2026-06-01'));
+
+    expect($results['failed'])->toHaveCount(1);
+    expect($results['failed'][0]['profile'])->toBe('Broken');
+
+    $broken->refresh();
+    expect($broken->last_error)->toBe('Customer not found in company.');
+    expect($broken->status)->toBe('active');
+    expect($broken->next_run_date->toDateString())->toBe('2026-05-01');
+    expect($broken->invoices()->count())->toBe(0);
+
+    expect($healthy->invoices()->count())->toBe(1);
+    expect($healthy->fresh()->last_error)->toBeNull();
+});
+
+test('auto-send profiles issue the invoice and email it, others leave a draft', function () {
+    $autoSend = $this->profiles->create(['name' => 'Auto', 'auto_send' => true]);
+    $manual = $this->profiles->create(['name' => 'Manual']);
+
+    app(RecurringInvoiceService::class)->generateDueInvoices(Carbon::parse('2026-01-01'));
+
+    expect($autoSend->invoices()->sole()->status)->toBe('pending');
+    expect($manual->invoices()->sole()->status)->toBe('draft');
+
+    Mail::assertQueued(InvoiceMail::class, 1);
+    Mail::assertQueued(InvoiceMail::class, fn (InvoiceMail $mail) => $mail->hasTo($this->customer->email)
+        && $mail->invoiceEmail->invoice_id === $autoSend->invoices()->sole()->id);
+});
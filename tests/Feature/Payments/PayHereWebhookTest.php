@@ -0,0 +1,112 @@
+<?php
+
+use App\Models\Invoice;
+use App\Models\InvoiceItem;
+use App\Models\Payment;
+use App\Repositories\PaymentRepository;
+use App\Services\PayHereService;
+use App\Services\PaymentService;
+use Illuminate\Database\UniqueConstraintViolationException;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    config([
+        'services.payhere.merchant_id' => '1211149',
+        'services.payhere.merchant_secret' => 'test-secret',
+        'services.payhere.currency' => 'LKR',
+    ]);
+
+    $this->invoice = Invoice::factory()
+        ->has(InvoiceItem::factory()->state(['unit_price' => 5000]), 'items')
+        ->create()
+        ->refresh();
+});
+
+test('notifications with a bad signature are rejected', function () {
+    $this->post(route('webhook.payhere'), payHereNotification($this->invoice, ['md5sig' => strtoupper(md5('forged'))]))
+        ->assertStatus(400);
+
+    expect(Payment::count())->toBe(0);
+});
+
+test('notifications for another merchant are rejected', function () {
+    $this->post(route('webhook.payhere'), payHereNotification($this->invoice, ['merchant_id' => '9999999']))
+        ->assertStatus(400);
+
+    expect(Payment::count())->toBe(0);
+});
+
+test('a successful notification records the payment and settles the invoice', function () {
+    $this->post(route('webhook.payhere'), payHereNotification($this->invoice))
+        ->assertOk();
+
+    $payment = Payment::sole();
+
+    expect($payment->invoice_id)->toBe($this->invoice->id);
+    expect($payment->payment_method)->toBe('online');
+    expect($payment->status)->toBe('completed');
+    expect($payment->gateway_reference)->toBe('320025071234');
+    expect((float) $payment->amount)->toBe(5000.0);
+    expect($this->invoice->fresh()->payment_status)->toBe('paid');
+});
+
+test('a repeated notification returns the payment already recorded', function () {
+    $notification = payHereNotification($this->invoice);
+
+    $first = $this->post(route('webhook.payhere'), $notification)->assertOk();
+    $second = $this->post(route('webhook.payhere'), $notification)->assertOk();
+
+    $payment = Payment::sole();
+
+    expect($first->getContent())->toBe('Recorded ' . $payment->payment_reference);
+    expect($second->getContent())->toBe('Recorded ' . $payment->payment_reference);
+});
+
+test('a notification that loses the insert race to its retry returns the recorded payment', function () {
+    $recorded = Payment::factory()->create([
+        'invoice_id' => $this->invoice->id,
+        'amount' => 5000,
+        'payment_method' => 'online',
+        'gateway_reference' => '320025071234',
+    ]);
+
+    // The retry is recorded between this notification's duplicate check and its insert
+    $this->mock(PaymentRepository::class)
+        ->shouldReceive('getByGatewayReference')
+        ->with('320025071234')
+        ->andReturn(null, $recorded);
+
+    $this->mock(PaymentService::class)
+        ->shouldReceive('processOnlinePayment')
+        ->once()
+        ->andThrow(new UniqueConstraintViolationException('sqlite', 'insert into "payments"', [], new PDOException('UNIQUE constraint failed: payments.gateway_reference')));
+
+    expect(app(PayHereService::class)->handleNotification(payHereNotification($this->invoice)))->toBe($recorded);
+});
+
+test('a gateway reference is recorded only once', function () {
+    Payment::factory()->create(['invoice_id' => $this->invoice->id, 'payment_method' => 'online', 'gateway_reference' => '320025071234']);
+
+    expect(fn () => Payment::factory()->create(['invoice_id' => $this->invoice->id, 'payment_method' => 'online', 'gateway_reference' => '320025071234']))
+        ->toThrow(UniqueConstraintViolationException::class);
+});
+
+test('notifications that do not move money record nothing', function () {
+    $this->post(route('webhook.payhere'), payHereNotification($this->invoice, ['status_code' => PayHereService::STATUS_FAILED]))
+        ->assertOk()
+        ->assertSee('OK');
+
+    expect(Payment::count())->toBe(0);
+    expect($this->invoice->fresh()->payment_status)->toBe('pending');
+});
+
+test('the fake checkout is only served when it is turned on', function () {
+    $fields = app(PayHereService::class)->checkoutFields($this->invoice);
+
+    config(['services.payhere.fake' => false]);
+    $this->post(route('webhook.payhere.fake-checkout'), $fields)->assertNotFound();
+
+    config(['services.payhere.fake' => true]);
+    $this->post(route('webhook.payhere.fake-checkout'), $fields)->assertOk()->assertSee($this->invoice->invoice_number);
+});
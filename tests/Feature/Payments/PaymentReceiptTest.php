@@ -0,0 +1,62 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\Invoice;
+use App\Models\InvoiceItem;
+use App\Models\Payment;
+use App\Models\User;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->payment = Payment::factory()->create([
+        'invoice_id' => Invoice::factory()->has(InvoiceItem::factory(), 'items'),
+        'amount' => 600,
+    ]);
+
+    $this->branch = $this->payment->branch;
+});
+
+test('invoice staff print receipts for their branch', function (string $layout, string $filename, string $disposition) {
+    $cashier = User::factory()->forBranch($this->branch)->withPermissions('manage invoices')->create();
+
+    $response = $this->actingAs($cashier)
+        ->get(route('payments.receipt', ['id' => $this->payment->id, 'layout' => $layout, 'download' => $disposition === 'attachment']))
+        ->assertOk()
+        ->assertHeader('Content-Type', 'application/pdf')
+        ->assertHeader('Content-Disposition', sprintf('%s; filename="%s%s"', $disposition, $this->payment->payment_reference, $filename));
+
+    expect($response->getContent())->toStartWith('%PDF');
+})->with([
+    'A5 receipt' => ['a5', '-receipt.pdf', 'inline'],
+    'thermal slip' => ['thermal', '-receipt-80mm.pdf', 'attachment'],
+]);
+
+test('receipts from other branches need the all-branches permission', function () {
+    $otherBranch = Branch::factory()->create(['company_id' => $this->branch->company_id]);
+
+    $this->actingAs(User::factory()->forBranch($otherBranch)->withPermissions('manage payments')->create())
+        ->get(route('payments.receipt', $this->payment->id))
+        ->assertForbidden();
+
+    $this->actingAs(User::factory()->forBranch($otherBranch)->withPermissions('manage payments', 'view all branches')->create())
+        ->get(route('payments.receipt', $this->payment->id))
+        ->assertOk();
+});
+
+test('receipts from other companies are forbidden', function () {
+    $outsider = User::factory()
+        ->forBranch(Branch::factory()->create())
+        ->withPermissions('manage payments', 'view all branches')
+        ->create();
+
+    $this->actingAs($outsider)
+        ->get(route('payments.receipt', $this->payment->id))
+        ->assertForbidden();
+});
+
+test('receipts need payment or invoice permissions', function () {
+    $this->actingAs(User::factory()->forBranch($this->branch)->create())
+        ->get(route('payments.receipt', $this->payment->id))
+        ->assertForbidden();
+});
@@ -0,0 +1,80 @@
+<?php
+
+use App\Models\PrintJob;
+use App\Models\ProductionStage;
+use App\Services\ProductionStageService;
+use Illuminate\Support\Facades\URL;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $printJob = PrintJob::factory()->create();
+
+    $this->stage = ProductionStage::factory()->awaitingCustomerApproval()->create(['print_job_id' => $printJob->id]);
+    $this->nextStage = ProductionStage::factory()->create(['print_job_id' => $printJob->id, 'stage_name' => 'printing_process']);
+
+    $this->respondUrl = URL::temporarySignedRoute('customer-approvals.respond', now()->addDay(), ['stage' => $this->stage->id]);
+});
+
+test('the approval page opens only through a valid signed link', function () {
+    $this->withoutVite();
+
+    $this->get(app(ProductionStageService::class)->customerApprovalUrl($this->stage))->assertOk();
+
+    $this->get(route('customer-approvals.show', $this->stage->id))->assertForbidden();
+
+    $url = app(ProductionStageService::class)->customerApprovalUrl($this->stage);
+    $this->travel(ProductionStageService::CUSTOMER_LINK_DAYS + 1)->days();
+
+    $this->get($url)->assertForbidden();
+});
+
+test('links for stages that need no customer approval are not found', function () {
+    $internal = ProductionStage::factory()->create(['stage_status' => 'requires_approval']);
+
+    $this->post(URL::temporarySignedRoute('customer-approvals.respond', now()->addDay(), ['stage' => $internal->id]), [
+        'decision' => 'approve',
+    ])->assertNotFound();
+
+    expect($internal->fresh()->stage_status)->toBe('requires_approval');
+});
+
+test('approving through the link completes the stage and readies the next one', function () {
+    $this->post($this->respondUrl, ['decision' => 'approve', 'name' => 'Nimal'])
+        ->assertSessionHasNoErrors();
+
+    $this->stage->refresh();
+
+    expect($this->stage->stage_status)->toBe('completed');
+    expect($this->stage->approval_status)->toBe('approved');
+    expect($this->stage->customer_approved_at)->not->toBeNull();
+    expect($this->stage->approved_by)->toBeNull();
+    expect($this->stage->stage_data['customer_response']['decision'])->toBe('approve');
+    expect($this->stage->stage_data['customer_response']['name'])->toBe('Nimal');
+    expect($this->nextStage->fresh()->stage_status)->toBe('ready');
+});
+
+test('a change request needs comments and sends the stage back', function () {
+    $this->post($this->respondUrl, ['decision' => 'request_changes'])
+        ->assertSessionHasErrors(['comments' => 'Please tell us what should be changed']);
+
+    expect($this->stage->fresh()->stage_status)->toBe('requires_approval');
+
+    $this->post($this->respondUrl, ['decision' => 'request_changes', 'comments' => 'Use the new logo'])
+        ->assertSessionHasNoErrors();
+
+    $this->stage->refresh();
+
+    expect($this->stage->stage_status)->toBe('rejected');
+    expect($this->stage->rejection_reason)->toBe('Customer requested changes: Use the new logo');
+    expect($this->nextStage->fresh()->stage_status)->toBe('pending');
+});
+
+test('a stage can only be answered once', function () {
+    $this->post($this->respondUrl, ['decision' => 'approve'])->assertSessionHasNoErrors();
+
+    $this->post($this->respondUrl, ['decision' => 'request_changes', 'comments' => 'Too late'])
+        ->assertSessionHasErrors(['error' => 'This stage is not waiting for your approval']);
+
+    expect($this->stage->fresh()->stage_status)->toBe('completed');
+});
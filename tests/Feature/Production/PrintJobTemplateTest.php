@@ -0,0 +1,115 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\Customer;
+use App\Models\PrintJob;
+use App\Models\PrintJobTemplate;
+use App\Models\User;
+use Inertia\Testing\AssertableInertia as Assert;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->branch = Branch::factory()->create();
+
+    $this->user = User::factory()
+        ->forBranch($this->branch)
+        ->withPermissions('manage production', 'view print jobs', 'create standalone print jobs')
+        ->create();
+
+    $this->template = PrintJobTemplate::factory()->create([
+        'company_id' => $this->branch->company_id,
+        'name' => 'Monthly flyers',
+    ]);
+
+    $this->foreignTemplate = PrintJobTemplate::factory()->create(['name' => 'Competitor flyers']);
+});
+
+test('the library lists only the company\'s templates', function () {
+    $this->withoutVite();
+
+    $this->actingAs($this->user)
+        ->get(route('production.templates.index'))
+        ->assertInertia(fn (Assert $page) => $page
+            ->component('Production/Templates/Index')
+            ->has('templates', 1)
+            ->where('templates.0.name', 'Monthly flyers'));
+});
+
+test('templates of another company cannot be changed or deleted', function () {
+    $this->actingAs($this->user)
+        ->put(route('production.templates.update', $this->foreignTemplate->id), [
+            'name' => 'Renamed',
+            'job_type' => 'flyers',
+            'priority' => 'normal',
+        ])
+        ->assertNotFound();
+
+    $this->actingAs($this->user)
+        ->delete(route('production.templates.destroy', $this->foreignTemplate->id))
+        ->assertNotFound();
+
+    expect($this->foreignTemplate->fresh()->name)->toBe('Competitor flyers');
+});
+
+test('templates cannot be tied to another company\'s customer', function () {
+    $this->actingAs($this->user)
+        ->post(route('production.templates.store'), [
+            'name' => 'Borrowed customer',
+            'customer_id' => Customer::factory()->create()->id,
+            'job_type' => 'flyers',
+            'priority' => 'normal',
+        ])
+        ->assertSessionHasErrors('customer_id');
+
+    expect(PrintJobTemplate::where('name', 'Borrowed customer')->exists())->toBeFalse();
+});
+
+test('jobs created from a template follow its stage plan', function () {
+    $this->actingAs($this->user)
+        ->post(route('production.print-jobs.store-standalone'), [
+            'template_id' => $this->template->id,
+            'customer_id' => Customer::factory()->create(['branch_id' => $this->branch->id])->id,
+            'job_type' => 'flyers',
+            'job_title' => 'June flyers',
+            'description' => '2,000 A5 flyers',
+            'priority' => 'high',
+        ])
+        ->assertSessionHasNoErrors();
+
+    $printJob = PrintJob::sole();
+
+    expect($printJob->job_title)->toBe('June flyers');
+    expect($printJob->priority)->toBe('high');
+    expect($printJob->productionStages()->orderBy('stage_order')->pluck('stage_name')->all())
+        ->toBe(['design_review', 'printing_process']);
+    expect($this->template->fresh()->usage_count)->toBe(1);
+});
+
+test('another company\'s template cannot be used to create a job', function () {
+    $this->actingAs($this->user)
+        ->post(route('production.print-jobs.store-standalone'), [
+            'template_id' => $this->foreignTemplate->id,
+            'customer_id' => Customer::factory()->create(['branch_id' => $this->branch->id])->id,
+            'job_type' => 'flyers',
+            'job_title' => 'June flyers',
+            'description' => '2,000 A5 flyers',
+            'priority' => 'normal',
+        ])
+        ->assertSessionHasErrors(['error' => 'Failed to create print job: Job template not found']);
+
+    expect(PrintJob::count())->toBe(0);
+    expect($this->foreignTemplate->fresh()->usage_count)->toBe(0);
+});
+
+test('jobs from other branches cannot be saved as templates without branch-wide access', function () {
+    $otherBranchJob = PrintJob::factory()->create([
+        'branch_id' => Branch::factory()->create(['company_id' => $this->branch->company_id])->id,
+    ]);
+
+    $this->actingAs($this->user)
+        ->post(route('production.print-jobs.save-as-template', $otherBranchJob->id), ['name' => 'Copied'])
+        ->assertForbidden();
+
+    expect(PrintJobTemplate::where('name', 'Copied')->exists())->toBeFalse();
+});
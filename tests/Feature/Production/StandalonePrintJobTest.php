@@ -0,0 +1,67 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\Customer;
+use App\Models\PrintJob;
+use App\Models\User;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->branch = Branch::factory()->create();
+
+    $this->user = User::factory()
+        ->forBranch($this->branch)
+        ->withPermissions('manage production', 'create standalone print jobs', 'view all branches')
+        ->create();
+
+    $this->payload = [
+        'customer_id' => Customer::factory()->create(['branch_id' => $this->branch->id])->id,
+        'job_type' => 'business_cards',
+        'job_title' => 'Business cards',
+        'description' => '500 cards, matte finish',
+        'priority' => 'medium',
+    ];
+});
+
+test('standalone print jobs are created without an invoice', function () {
+    $response = $this->actingAs($this->user)
+        ->post(route('production.print-jobs.store-standalone'), $this->payload);
+
+    $printJob = PrintJob::sole();
+
+    $response->assertRedirect(route('production.print-jobs.show', $printJob->id));
+
+    expect($printJob->invoice_id)->toBeNull();
+    expect($printJob->company_id)->toBe($this->branch->company_id);
+    expect($printJob->branch_id)->toBe($this->branch->id);
+    expect($printJob->customer_id)->toBe($this->payload['customer_id']);
+    expect($printJob->created_by)->toBe($this->user->id);
+    expect($printJob->job_title)->toBe('Business cards');
+    expect($printJob->priority)->toBe('medium');
+    expect($printJob->productionStages()->count())->toBeGreaterThan(0);
+});
+
+test('standalone print jobs cannot be created for another company\'s branch', function () {
+    $this->actingAs($this->user)
+        ->from(route('production.print-jobs.create-standalone'))
+        ->post(route('production.print-jobs.store-standalone'), [
+            ...$this->payload,
+            'branch_id' => Branch::factory()->create()->id,
+        ])
+        ->assertRedirect(route('production.print-jobs.create-standalone'))
+        ->assertSessionHasErrors('branch_id');
+
+    expect(PrintJob::count())->toBe(0);
+});
+
+test('standalone print jobs cannot be created for another company\'s customer', function () {
+    $this->actingAs($this->user)
+        ->post(route('production.print-jobs.store-standalone'), [
+            ...$this->payload,
+            'customer_id' => Customer::factory()->create()->id,
+        ])
+        ->assertSessionHasErrors('customer_id');
+
+    expect(PrintJob::count())->toBe(0);
+});
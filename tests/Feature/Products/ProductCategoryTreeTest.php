@@ -0,0 +1,71 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\ProductCategory;
+use App\Models\User;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->user = User::factory()
+        ->forBranch(Branch::factory()->create())
+        ->withPermissions('view product categories', 'edit product categories')
+        ->create();
+
+    // Printing > Cards > Business Cards, with Signage alongside Printing
+    $companyCategory = ProductCategory::factory()->state(['company_id' => $this->user->company_id]);
+
+    $this->printing = $companyCategory->create(['name' => 'Printing']);
+    $this->signage = $companyCategory->create(['name' => 'Signage']);
+    $this->cards = $companyCategory->create(['name' => 'Cards', 'parent_id' => $this->printing->id]);
+    $this->businessCards = $companyCategory->create(['name' => 'Business Cards', 'parent_id' => $this->cards->id]);
+});
+
+test('a category cannot be moved inside itself or its subcategories', function (string $target) {
+    $this->actingAs($this->user)
+        ->postJson(route('product-categories.move', $this->printing->id), [
+            'parent_id' => $this->{$target}->id,
+        ])
+        ->assertStatus(422)
+        ->assertJson(['error' => 'A category cannot be moved inside itself or its subcategories']);
+
+    expect($this->printing->fresh()->parent_id)->toBeNull();
+})->with(['printing', 'cards', 'businessCards']);
+
+test('a category cannot be moved under another company\'s category', function () {
+    $foreign = ProductCategory::factory()->create();
+
+    $this->actingAs($this->user)
+        ->postJson(route('product-categories.move', $this->cards->id), ['parent_id' => $foreign->id])
+        ->assertStatus(422)
+        ->assertJson(['error' => 'Parent category not found']);
+
+    expect($this->cards->fresh()->parent_id)->toBe($this->printing->id);
+});
+
+test('another company\'s categories cannot be moved', function () {
+    $foreign = ProductCategory::factory()->create();
+
+    $this->actingAs($this->user)
+        ->postJson(route('product-categories.move', $foreign->id), ['parent_id' => null])
+        ->assertForbidden();
+});
+
+test('moving a category reparents it and renumbers its new siblings', function () {
+    $foreign = ProductCategory::factory()->create(['sort_order' => 7]);
+
+    $this->actingAs($this->user)
+        ->postJson(route('product-categories.move', $this->cards->id), [
+            'parent_id' => $this->signage->id,
+            'sibling_ids' => [$foreign->id, $this->cards->id],
+        ])
+        ->assertOk()
+        ->assertJson(['success' => true]);
+
+    expect($this->cards->fresh()->parent_id)->toBe($this->signage->id);
+    expect($this->cards->fresh()->sort_order)->toBe(1);
+    // Subcategories travel with their parent
+    expect($this->businessCards->fresh()->parent_id)->toBe($this->cards->id);
+    // Ids from other companies are ignored
+    expect($foreign->fresh()->sort_order)->toBe(7);
+});
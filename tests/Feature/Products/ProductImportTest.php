@@ -0,0 +1,94 @@
+<?php
+
+use App\Models\Product;
+use App\Models\ProductCategory;
+use App\Models\User;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->category = ProductCategory::factory()->create(['name' => 'Business Cards', 'code' => 'BCARD']);
+    $companyId = $this->category->company_id;
+
+    $this->product = Product::factory()->create([
+        'company_id' => $companyId,
+        'category_id' => $this->category->id,
+        'product_code' => 'BC-100',
+        'name' => 'Matte business cards',
+        'base_price' => 1000,
+        'weight_per_unit' => 0.5,
+    ]);
+
+    $this->user = User::factory()
+        ->withPermissions('manage products', 'create products', 'edit products')
+        ->create(['company_id' => $companyId]);
+
+    $this->header = ['Product Code', 'Name', 'Category', 'Price', 'Weight', 'Weight Unit'];
+});
+
+test('a dry run reports the changes without saving them', function () {
+    $response = $this->actingAs($this->user)->post(route('products.import'), [
+        'dry_run' => true,
+        'file' => csvUpload([
+            $this->header,
+            ['bc-100', 'Matte business cards', 'Business Cards', 'Rs. 1,250.00', '0.5', 'kg'],
+            ['FL-A5', 'A5 flyers', 'bcard', '45', '20', 'grams'],
+        ]),
+    ]);
+
+    $response->assertOk()->assertJson(['dry_run' => true, 'created' => 1, 'updated' => 1, 'failed' => 0]);
+
+    expect($response->json('rows.0.action'))->toBe('update');
+    expect(array_keys($response->json('rows.0.changes')))->toBe(['base_price']);
+    expect($response->json('rows.1.action'))->toBe('create');
+
+    expect((float) $this->product->fresh()->base_price)->toBe(1000.0);
+    expect(Product::count())->toBe(1);
+});
+
+test('products are created or updated by product code', function () {
+    $this->actingAs($this->user)->post(route('products.import'), [
+        'file' => csvUpload([
+            $this->header,
+            ['BC-100', 'Matte business cards', 'Business Cards', 'Rs. 1,250.00', '0.5', 'kg'],
+            ['FL-A5', 'A5 flyers', 'bcard', '45', '20', 'Grams'],
+        ]),
+    ])->assertOk()->assertJson(['created' => 1, 'updated' => 1, 'failed' => 0]);
+
+    expect((float) $this->product->fresh()->base_price)->toBe(1250.0);
+
+    $flyers = Product::where('product_code', 'FL-A5')->sole();
+
+    expect($flyers->company_id)->toBe($this->category->company_id);
+    expect($flyers->category_id)->toBe($this->category->id);
+    expect($flyers->weight_unit)->toBe('g');
+    expect((float) $flyers->base_price)->toBe(45.0);
+});
+
+test('rows that cannot be imported are reported and the rest still save', function () {
+    $otherCompanyProduct = Product::factory()->create(['product_code' => 'OTHER-1']);
+
+    $response = $this->actingAs($this->user)->post(route('products.import'), [
+        'file' => csvUpload([
+            $this->header,
+            ['BC-100', 'Matte business cards', 'Business Cards', '1000', '0.5', 'kg'],
+            ['PS-01', 'Posters', 'Posters', '300', '0.2', 'kg'],
+            ['OTHER-1', 'Someone else\'s product', 'Business Cards', '10', '1', 'kg'],
+            ['ST-01', 'Stickers', 'Business Cards', '20', '0.01', 'kg'],
+            ['st-01', 'Stickers again', 'Business Cards', '25', '0.01', 'kg'],
+        ]),
+    ]);
+
+    $response->assertOk()->assertJson(['created' => 1, 'unchanged' => 1, 'failed' => 3]);
+
+    $rows = collect($response->json('rows'))->keyBy('row_number');
+
+    expect($rows[2]['action'])->toBe('unchanged');
+    expect($rows[3]['errors'])->toBe(['Category "Posters" was not found.']);
+    expect($rows[4]['errors'])->toBe(['Product code is already used by another or a deleted product.']);
+    expect($rows[5]['action'])->toBe('create');
+    expect($rows[6]['errors'])->toBe(['Product code repeats row 5.']);
+
+    expect($otherCompanyProduct->fresh()->name)->not->toBe('Someone else\'s product');
+    expect(Product::where('company_id', $this->category->company_id)->count())->toBe(2);
+});
@@ -0,0 +1,98 @@
+<?php
+
+use App\Models\Customer;
+use App\Models\Invoice;
+use App\Models\PriceList;
+use App\Models\Product;
+use App\Models\User;
+use App\Services\ProductPricingService;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->customer = Customer::factory()->create(['customer_type' => 'business']);
+
+    $pricing = app(ProductPricingService::class);
+
+    $this->product = Product::factory()->create([
+        'company_id' => $this->customer->company_id,
+        'base_price' => 100,
+        'pricing_tiers' => $pricing->normalizePriceBreaks([
+            ['min_quantity' => 500, 'unit_price' => 80],
+            ['min_quantity' => 100, 'unit_price' => 90],
+        ]),
+    ]);
+});
+
+test('without a price list the quantity breaks and base price apply', function (float $quantity, float $unitPrice, string $rule) {
+    $resolved = app(ProductPricingService::class)->resolveUnitPrice($this->product, $quantity, $this->customer);
+
+    expect($resolved['unit_price'])->toBe($unitPrice);
+    expect($resolved['rule']['type'])->toBe($rule);
+})->with([
+    'below the first break' => [99, 100.0, 'base_price'],
+    'on the first break' => [100, 90.0, 'quantity_break'],
+    'just below the second break' => [499, 90.0, 'quantity_break'],
+    'past the second break' => [1000, 80.0, 'quantity_break'],
+]);
+
+test('customers of a listed type get the lowest of their group prices', function () {
+    PriceList::factory()->withPrices($this->product, [1 => 85])->create(['name' => 'Corporate', 'customer_type' => 'business']);
+    $cheapest = PriceList::factory()->withPrices($this->product, [1 => 75])->create(['name' => 'Agencies', 'customer_type' => 'business']);
+    PriceList::factory()->withPrices($this->product, [1 => 60])->create(['name' => 'Walk-in', 'customer_type' => 'individual']);
+
+    $resolved = app(ProductPricingService::class)->resolveUnitPrice($this->product, 10, $this->customer);
+
+    expect($resolved['unit_price'])->toBe(75.0);
+    expect($resolved['rule'])->toBe([
+        'type' => 'group_price_list',
+        'label' => 'Agencies',
+        'price_list_id' => $cheapest->id,
+    ]);
+});
+
+test('a price list assigned to the customer wins over group lists and breaks', function () {
+    PriceList::factory()->withPrices($this->product, [1 => 70])->create(['name' => 'Corporate', 'customer_type' => 'business']);
+    $assigned = PriceList::factory()->withPrices($this->product, [1 => 95, 50 => 88])->create(['name' => 'ABC Holdings']);
+    $this->customer->update(['price_list_id' => $assigned->id]);
+
+    $pricing = app(ProductPricingService::class);
+
+    expect($pricing->resolveUnitPrice($this->product, 10, $this->customer)['unit_price'])->toBe(95.0);
+    expect($pricing->resolveUnitPrice($this->product, 600, $this->customer)['rule'])->toBe([
+        'type' => 'customer_price_list',
+        'label' => 'ABC Holdings (50+ units)',
+        'price_list_id' => $assigned->id,
+    ]);
+});
+
+test('inactive and expired price lists are ignored', function () {
+    PriceList::factory()->withPrices($this->product, [1 => 50])->create(['customer_type' => 'business', 'is_active' => false]);
+    PriceList::factory()->withPrices($this->product, [1 => 55])->create(['customer_type' => 'business', 'valid_until' => now()->subDay()->toDateString()]);
+    PriceList::factory()->withPrices($this->product, [1 => 60])->create(['customer_type' => 'business', 'valid_from' => now()->addDay()->toDateString()]);
+
+    $resolved = app(ProductPricingService::class)->resolveUnitPrice($this->product, 10, $this->customer);
+
+    expect($resolved['unit_price'])->toBe(100.0);
+    expect($resolved['rule']['type'])->toBe('base_price');
+});
+
+test('invoice lines are priced on the server unless the user may override prices', function (array $permissions, float $unitPrice) {
+    $user = User::factory()
+        ->forBranch($this->customer->branch)
+        ->withPermissions('create invoices', ...$permissions)
+        ->create();
+
+    $this->actingAs($user)
+        ->post(route('invoices.store'), [
+            'customer_id' => $this->customer->id,
+            'branch_id' => $this->customer->branch_id,
+            'items' => [['product_id' => $this->product->id, 'quantity' => 100, 'unit_price' => 1]],
+        ])
+        ->assertSessionHasNoErrors();
+
+    expect((float) Invoice::sole()->items()->sole()->unit_price)->toBe($unitPrice);
+})->with([
+    'typed price ignored' => [[], 90.0],
+    'typed price kept with the override permission' => [['override item prices'], 1.0],
+]);
@@ -0,0 +1,113 @@
+<?php
+
+use App\Models\Customer;
+use App\Models\Invoice;
+use App\Models\Product;
+use App\Models\Quotation;
+use App\Models\User;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->customer = Customer::factory()->create();
+    $this->customer->company->update(['tax_rate' => 0.1]);
+    $this->product = Product::factory()->create(['company_id' => $this->customer->company_id]);
+
+    $this->user = User::factory()
+        ->forBranch($this->customer->branch)
+        ->withPermissions('view quotations', 'create quotations', 'edit quotations', 'convert quotations', 'create invoices')
+        ->create();
+
+    $this->actingAs($this->user)->post(route('quotations.store'), [
+        'customer_id' => $this->customer->id,
+        'branch_id' => $this->customer->branch_id,
+        'valid_until' => now()->addDays(7)->toDateString(),
+        'discount_amount' => 500,
+        'terms_conditions' => 'Half up front',
+        'items' => [[
+            'product_id' => $this->product->id,
+            'quantity' => 3,
+            'specifications' => ['finish' => 'matte'],
+        ]],
+    ])->assertSessionHasNoErrors();
+
+    $this->quotation = Quotation::sole();
+});
+
+test('quotations are priced and totalled like invoices', function () {
+    expect((float) $this->quotation->subtotal)->toBe(3000.0)
+        ->and((float) $this->quotation->tax_amount)->toBe(250.0)
+        ->and((float) $this->quotation->total_amount)->toBe(2750.0)
+        ->and($this->quotation->status)->toBe('draft');
+});
+
+test('accepted quotations convert to an invoice at the quoted totals', function () {
+    $this->actingAs($this->user)
+        ->patch(route('quotations.update-status', $this->quotation->id), ['action' => 'accept'])
+        ->assertSessionHasNoErrors();
+
+    expect($this->quotation->refresh()->status)->toBe('accepted');
+
+    // The invoice keeps the quoted price even after the catalogue moves on
+    $this->product->update(['base_price' => 1200]);
+
+    $response = $this->actingAs($this->user)
+        ->post(route('quotations.convert-to-invoice', $this->quotation->id));
+
+    $invoice = Invoice::sole();
+    $response->assertRedirect(route('invoices.show', $invoice->id));
+
+    $item = $invoice->items()->sole();
+
+    expect((float) $invoice->subtotal)->toBe((float) $this->quotation->subtotal)
+        ->and((float) $invoice->discount_amount)->toBe(500.0)
+        ->and((float) $invoice->tax_amount)->toBe((float) $this->quotation->tax_amount)
+        ->and((float) $invoice->total_amount)->toBe((float) $this->quotation->total_amount)
+        ->and($invoice->terms_conditions)->toBe('Half up front')
+        ->and((float) $item->unit_price)->toBe(1000.0)
+        ->and($item->specifications)->toMatchArray(['finish' => 'matte']);
+
+    $this->quotation->refresh();
+
+    expect($this->quotation->status)->toBe('converted')
+        ->and($this->quotation->invoice_id)->toBe($invoice->id)
+        ->and($this->quotation->converted_at)->not->toBeNull();
+});
+
+test('a quotation is only converted once', function () {
+    $convert = fn () => $this->actingAs($this->user)
+        ->post(route('quotations.convert-to-invoice', $this->quotation->id));
+
+    $convert()->assertSessionHasNoErrors();
+    $convert()->assertSessionHasErrors(['error' => 'Failed to convert quotation: This quotation has already been converted.']);
+
+    expect(Invoice::count())->toBe(1);
+});
+
+test('expired quotations cannot be accepted or converted', function () {
+    $this->quotation->update(['valid_until' => now()->subDay()->toDateString()]);
+
+    $this->actingAs($this->user)
+        ->patch(route('quotations.update-status', $this->quotation->id), ['action' => 'accept'])
+        ->assertSessionHasErrors(['error' => 'This quotation has expired. Extend its validity date before accepting it.']);
+
+    $this->actingAs($this->user)
+        ->post(route('quotations.convert-to-invoice', $this->quotation->id))
+        ->assertSessionHasErrors(['error' => 'Failed to convert quotation: Only accepted quotations that have not expired can be converted.']);
+
+    expect(Invoice::count())->toBe(0);
+});
+
+test('quotations from other companies are out of reach', function () {
+    $outsider = User::factory()
+        ->withPermissions('view quotations', 'edit quotations', 'convert quotations', 'create invoices')
+        ->create();
+
+    $this->actingAs($outsider)
+        ->patch(route('quotations.update-status', $this->quotation->id), ['action' => 'accept'])
+        ->assertForbidden();
+
+    $this->actingAs($outsider)
+        ->post(route('quotations.convert-to-invoice', $this->quotation->id))
+        ->assertForbidden();
+});
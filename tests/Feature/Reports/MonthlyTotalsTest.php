@@ -0,0 +1,53 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\Expense;
+use App\Models\Invoice;
+use App\Models\InvoiceItem;
+use App\Models\Payment;
+use App\Repositories\ExpenseRepository;
+use App\Repositories\InvoiceRepository;
+use App\Repositories\PaymentRepository;
+use Carbon\Carbon;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->branch = Branch::factory()->create();
+    $this->from = Carbon::parse('2026-01-01');
+    $this->to = Carbon::parse('2026-03-31');
+});
+
+test('sales are totalled per month', function () {
+    foreach (['2026-01-05', '2026-01-28', '2026-03-02'] as $date) {
+        Invoice::factory()
+            ->has(InvoiceItem::factory(), 'items')
+            ->create(['branch_id' => $this->branch->id, 'invoice_date' => $date]);
+    }
+
+    expect(app(InvoiceRepository::class)->getMonthlySales($this->branch->company_id, $this->from, $this->to))
+        ->toEqual(['2026-01' => 2000.0, '2026-03' => 1000.0]);
+});
+
+test('collections are totalled per month', function () {
+    $invoice = Invoice::factory()
+        ->has(InvoiceItem::factory()->state(['unit_price' => 5000]), 'items')
+        ->create(['branch_id' => $this->branch->id, 'invoice_date' => '2026-01-05']);
+
+    Payment::factory()->create(['invoice_id' => $invoice->id, 'amount' => 1500, 'payment_date' => '2026-01-20 10:00:00']);
+    Payment::factory()->create(['invoice_id' => $invoice->id, 'amount' => 2500, 'payment_date' => '2026-02-03 15:30:00']);
+
+    expect(app(PaymentRepository::class)->getMonthlyCollections($this->branch->company_id, $this->from, $this->to))
+        ->toEqual(['2026-01' => 1500.0, '2026-02' => 2500.0]);
+});
+
+test('approved and paid expenses are totalled per month', function () {
+    $expenses = Expense::factory()->state(['branch_id' => $this->branch->id, 'status' => 'approved']);
+
+    $expenses->create(['expense_date' => '2026-02-10', 'amount' => 4000]);
+    $expenses->create(['expense_date' => '2026-02-25', 'amount' => 1000, 'status' => 'paid']);
+    $expenses->create(['expense_date' => '2026-03-01', 'amount' => 700, 'status' => 'draft']);
+
+    expect(app(ExpenseRepository::class)->getMonthlyTotals($this->branch->company_id, $this->from, $this->to))
+        ->toEqual(['2026-02' => 5000.0]);
+});
@@ -0,0 +1,115 @@
+<?php
+
+use App\Models\Branch;
+use App\Models\User;
+use App\Models\WeightPricingTier;
+
+uses(\Illuminate\Foundation\Testing\RefreshDatabase::class);
+
+beforeEach(function () {
+    $this->user = User::factory()
+        ->forBranch(Branch::factory()->create())
+        ->withPermissions('view weight pricing', 'create weight pricing', 'edit weight pricing')
+        ->create();
+
+    $this->small = WeightPricingTier::create([
+        'company_id' => $this->user->company_id,
+        'tier_name' => 'Small',
+        'min_weight' => 0,
+        'max_weight' => 5,
+        'base_price' => 300,
+        'price_per_kg' => 0,
+        'status' => 'active',
+        'sort_order' => 1,
+    ]);
+});
+
+test('the maximum weight must be above the minimum', function () {
+    $this->actingAs($this->user)
+        ->post(route('weight-pricing.store'), [
+            'tier_name' => 'Medium',
+            'min_weight' => 10,
+            'max_weight' => 10,
+            'base_price' => 500,
+            'status' => 'active',
+        ])
+        ->assertSessionHasErrors('max_weight');
+
+    expect(WeightPricingTier::count())->toBe(1);
+});
+
+test('ranges overlapping an active tier are rejected', function () {
+    $this->actingAs($this->user)
+        ->post(route('weight-pricing.store'), [
+            'tier_name' => 'Medium',
+            'min_weight' => 4,
+            'max_weight' => 20,
+            'base_price' => 500,
+            'status' => 'active',
+        ])
+        ->assertSessionHasErrors(['error' => 'Tier creation failed: Weight range overlaps with existing tier: Small']);
+
+    expect(WeightPricingTier::count())->toBe(1);
+});
+
+test('a range starting where another ends is accepted', function () {
+    $this->actingAs($this->user)
+        ->post(route('weight-pricing.store'), [
+            'tier_name' => 'Medium',
+            'min_weight' => 5,
+            'max_weight' => '',
+            'base_price' => 500,
+            'price_per_kg' => 40,
+            'status' => 'active',
+        ])
+        ->assertRedirect(route('weight-pricing.index'));
+
+    $medium = WeightPricingTier::where('tier_name', 'Medium')->sole();
+
+    expect($medium->company_id)->toBe($this->user->company_id);
+    expect($medium->max_weight)->toBeNull();
+});
+
+test('tier names are unique within a company only', function () {
+    $payload = [
+        'tier_name' => 'Small',
+        'min_weight' => 50,
+        'max_weight' => 60,
+        'base_price' => 900,
+        'status' => 'active',
+    ];
+
+    $this->actingAs($this->user)
+        ->post(route('weight-pricing.store'), $payload)
+        ->assertSessionHasErrors('tier_name');
+
+    $otherCompanyUser = User::factory()
+        ->forBranch(Branch::factory()->create())
+        ->withPermissions('view weight pricing', 'create weight pricing')
+        ->create();
+
+    $this->actingAs($otherCompanyUser)
+        ->post(route('weight-pricing.store'), $payload)
+        ->assertSessionHasNoErrors();
+
+    expect(WeightPricingTier::where('tier_name', 'Small')->count())->toBe(2);
+});
+
+test('tiers of another company cannot be edited', function () {
+    $otherCompanyUser = User::factory()
+        ->forBranch(Branch::factory()->create())
+        ->withPermissions('view weight pricing', 'edit weight pricing')
+        ->create();
+
+    $this->actingAs($otherCompanyUser)
+        ->put(route('weight-pricing.update', $this->small->id), [
+            'tier_name' => 'Hijacked',
+            'min_weight' => 0,
+            'max_weight' => 5,
+            'base_price' => 1,
+            'status' => 'active',
+        ])
+        ->assertSessionHasErrors('error');
+
+    expect($this->small->fresh()->tier_name)->toBe('Small');
+});
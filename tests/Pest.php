@@ -1,5 +1,9 @@
 <?php
 
+use App\Models\Invoice;
+use App\Services\PayHereService;
+use Illuminate\Http\UploadedFile;
+
 /*
 |--------------------------------------------------------------------------
 | Test Case
@@ -41,7 +45,44 @@
 |
 */
 
-function something()
+/**
+ * A CSV upload built from rows of cells, the first row being the header
+ */
+function csvUpload(array $rows, string $filename = 'import.csv'): UploadedFile
 {
-    // ..
+    $lines = array_map(
+        fn (array $row) => implode(',', array_map(fn ($cell) => '"' . str_replace('"', '""', (string) $cell) . '"', $row)),
+        $rows
+    );
+
+    return UploadedFile::fake()->createWithContent($filename, implode("\n", $lines));
+}
+
+/**
+ * A PayHere payment notification for the invoice, signed with the configured merchant secret
+ * unless an md5sig override is given
+ */
+function payHereNotification(Invoice $invoice, array $overrides = []): array
+{
+    $notification = [
+        'merchant_id' => config('services.payhere.merchant_id'),
+        'order_id' => $invoice->invoice_number,
+        'payment_id' => '320025071234',
+        'payhere_amount' => number_format((float) $invoice->total_amount, 2, '.', ''),
+        'payhere_currency' => config('services.payhere.currency'),
+        'status_code' => PayHereService::STATUS_SUCCESS,
+        'status_message' => 'Successfully completed the payment',
+        'method' => 'VISA',
+        'custom_1' => (string) $invoice->id,
+        ...$overrides,
+    ];
+
+    $notification['md5sig'] ??= app(PayHereService::class)->notificationSignature(
+        $notification['order_id'],
+        $notification['payhere_amount'],
+        $notification['payhere_currency'],
+        $notification['status_code']
+    );
+
+    return $notification;
 }
@@ -2,9 +2,19 @@
 
 namespace Tests;
 
+use Illuminate\Database\Migrations\Migrator;
 use Illuminate\Foundation\Testing\TestCase as BaseTestCase;
 
 abstract class TestCase extends BaseTestCase
 {
-    //
+    protected function setUp(): void
+    {
+        // This migration uses MySQL-only MODIFY COLUMN; other drivers get the same
+        // column change from 2025_08_07_050100_add_ready_status_to_production_stages_on_other_drivers
+        if (env('DB_CONNECTION') !== 'mysql') {
+            Migrator::withoutMigrations(['2025_08_07_050037_add_ready_status_to_production_stages_table']);
+        }
+
+        parent::setUp();
+    }
 }